@@ -50,8 +50,10 @@ self.addEventListener('push', (event) => {
     tag: data.tag,
     data: data.data,
     requireInteraction: true,
-    vibrate: [200, 100, 200, 100, 200],
-    actions: data.data.callId
+    // Contacts the user silenced still notify, just without sound or vibration
+    silent: !!data.data.silent,
+    vibrate: data.data.silent ? [] : [200, 100, 200, 100, 200],
+    actions: data.data.callId && data.data.type !== 'missed_call'
       ? [
           { action: 'accept', title: 'Accept' },
           { action: 'reject', title: 'Reject' },
@@ -71,8 +73,11 @@ self.addEventListener('notificationclick', (event) => {
   const data = event.notification.data || {};
   let url = '/';
 
-  // Handle call notifications
-  if (data.callId) {
+  // Missed calls open the call log
+  if (data.type === 'missed_call') {
+    url = '/?tab=calls';
+  } else if (data.callId) {
+    // Handle call notifications
     if (event.action === 'accept') {
       url = `/?call=${data.callId}&conversation=${data.conversationId}&action=accept`;
     } else if (event.action === 'reject') {
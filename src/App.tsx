@@ -3,8 +3,10 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { GlobalIncomingCallListener } from "@/components/GlobalIncomingCallListener";
+import { startOutboxAutoFlush } from "@/utils/outbox";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
@@ -36,6 +38,9 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
 };
 
 const AppContent = () => {
+  // Send messages queued while offline as soon as we're back online
+  useEffect(() => startOutboxAutoFlush(), []);
+
   return (
     <>
       <GlobalIncomingCallListener />
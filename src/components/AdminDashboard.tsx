@@ -17,7 +17,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { ShieldAlert, Loader2, Shield, ShieldCheck, User, Trash2 } from "lucide-react";
+import { ShieldAlert, Loader2, Shield, ShieldCheck, User, Trash2, HardDriveUpload } from "lucide-react";
 import { toast } from "sonner";
 import { Database } from "@/integrations/supabase/types";
 
@@ -54,6 +54,7 @@ export const AdminDashboard = () => {
   const [revokeConfirmation, setRevokeConfirmation] = useState<RevokeConfirmation | null>(null);
   const [deleteConfirmation, setDeleteConfirmation] = useState<DeleteConfirmation | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [migratingAudio, setMigratingAudio] = useState(false);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
 
   useEffect(() => {
@@ -216,6 +217,51 @@ export const AdminDashboard = () => {
     }
   };
 
+  // Move legacy base64 voice notes into Storage, one batch per request
+  const migrateAudioAttachments = async () => {
+    setMigratingAudio(true);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      let migrated = 0;
+      let failed = 0;
+
+      while (true) {
+        const response = await fetch(
+          `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/migrate-audio-attachments`,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Authorization': `Bearer ${session?.access_token}`,
+            },
+            body: JSON.stringify({ offset: failed }),
+          }
+        );
+
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to migrate voice notes');
+        }
+
+        migrated += result.migrated;
+        failed += result.failed;
+
+        if (result.migrated + result.failed === 0 || result.remaining <= failed) break;
+      }
+
+      if (failed > 0) {
+        toast.warning(`Migrated ${migrated} voice notes, ${failed} failed`);
+      } else {
+        toast.success(`Migrated ${migrated} voice notes to storage`);
+      }
+    } catch (error) {
+      toast.error("Failed to migrate voice notes: " + (error instanceof Error ? error.message : "Unknown error"));
+    } finally {
+      setMigratingAudio(false);
+    }
+  };
+
   const getRoleBadgeVariant = (role: AppRole) => {
     switch (role) {
       case 'admin':
@@ -290,11 +336,24 @@ export const AdminDashboard = () => {
 
   return (
     <Card>
-      <CardHeader>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
         <CardTitle className="flex items-center gap-2">
           <ShieldAlert className="h-5 w-5 text-primary" />
           All Users ({users.length})
         </CardTitle>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={migrateAudioAttachments}
+          disabled={migratingAudio}
+        >
+          {migratingAudio ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <HardDriveUpload className="mr-2 h-4 w-4" />
+          )}
+          Migrate Voice Notes
+        </Button>
       </CardHeader>
       <CardContent>
         <Table>
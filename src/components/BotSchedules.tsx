@@ -0,0 +1,191 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, CalendarClock, Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  BOT_SCHEDULE_KINDS,
+  BotSchedule,
+  BotScheduleKind,
+  describeBotSchedule,
+  formatHour,
+  WEEKDAYS,
+} from '@/utils/botAutomation';
+import { browserTimezone } from '@/utils/scheduledMessages';
+
+interface BotSchedulesProps {
+  conversationId: string;
+  isAdmin: boolean;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+/**
+ * Daily digests and weekly summaries the bot posts on its own. Times are
+ * kept in the timezone of the admin who last changed them.
+ */
+export const BotSchedules = ({ conversationId, isAdmin }: BotSchedulesProps) => {
+  const { toast } = useToast();
+  const [schedules, setSchedules] = useState<BotSchedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<BotScheduleKind | null>(null);
+
+  const loadSchedules = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('bot_schedules')
+      .select('*')
+      .eq('conversation_id', conversationId);
+
+    if (error) {
+      console.error('Error loading bot schedules:', error);
+    } else {
+      setSchedules(data || []);
+    }
+    setLoading(false);
+  }, [conversationId]);
+
+  useEffect(() => {
+    loadSchedules();
+  }, [loadSchedules]);
+
+  const saveSchedule = async (
+    kind: BotScheduleKind,
+    changes: Partial<Pick<BotSchedule, 'enabled' | 'hour' | 'weekday'>>
+  ) => {
+    const existing = schedules.find(s => s.kind === kind);
+
+    setSaving(kind);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { data, error } = existing
+        ? await supabase
+          .from('bot_schedules')
+          .update({ ...changes, timezone: browserTimezone(), created_by: user.id })
+          .eq('id', existing.id)
+          .select()
+          .single()
+        : await supabase
+          .from('bot_schedules')
+          .insert({
+            conversation_id: conversationId,
+            kind,
+            hour: 9,
+            weekday: kind === 'weekly_summary' ? 1 : null,
+            timezone: browserTimezone(),
+            created_by: user.id,
+            ...changes,
+          })
+          .select()
+          .single();
+
+      if (error) throw error;
+
+      setSchedules(prev => [...prev.filter(s => s.kind !== kind), data]);
+    } catch (error) {
+      console.error('Error saving bot schedule:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save the schedule',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div className="flex items-center gap-3">
+        <CalendarClock className="w-6 h-6 text-primary" />
+        <div>
+          <h3 className="text-lg font-semibold">Scheduled Digests</h3>
+          <p className="text-sm text-muted-foreground">
+            Recaps the bot posts for members who missed the discussion
+          </p>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        BOT_SCHEDULE_KINDS.map(({ value: kind, label, description }) => {
+          const schedule = schedules.find(s => s.kind === kind);
+          const enabled = !!schedule?.enabled;
+
+          return (
+            <div key={kind} className="space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label>{label}</Label>
+                  <p className="text-sm text-muted-foreground">
+                    {schedule && enabled ? describeBotSchedule(schedule) : description}
+                  </p>
+                </div>
+                <Switch
+                  checked={enabled}
+                  onCheckedChange={(checked) => saveSchedule(kind, { enabled: checked })}
+                  disabled={!isAdmin || saving === kind}
+                />
+              </div>
+
+              {schedule && enabled && isAdmin && (
+                <div className="flex gap-2 pl-3 border-l-2 border-border">
+                  {kind === 'weekly_summary' && (
+                    <Select
+                      value={String(schedule.weekday ?? 1)}
+                      onValueChange={(value) => saveSchedule(kind, { weekday: Number(value) })}
+                      disabled={saving === kind}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WEEKDAYS.map((day, index) => (
+                          <SelectItem key={day} value={String(index + 1)}>{day}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <Select
+                    value={String(schedule.hour)}
+                    onValueChange={(value) => saveSchedule(kind, { hour: Number(value) })}
+                    disabled={saving === kind}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {HOURS.map((hour) => (
+                        <SelectItem key={hour} value={String(hour)}>{formatHour(hour)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {schedule?.last_error ? (
+                <p className="flex items-center gap-1 text-xs text-destructive">
+                  <AlertCircle className="w-3 h-3" />
+                  {schedule.last_error}
+                </p>
+              ) : schedule?.last_run_at && (
+                <p className="text-xs text-muted-foreground">
+                  Last run {format(new Date(schedule.last_run_at), 'PPp')}
+                </p>
+              )}
+            </div>
+          );
+        })
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,243 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, Plus, Trash2, Zap } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BOT_MODES, BotTrigger, isValidPattern } from '@/utils/botAutomation';
+
+interface BotTriggerRulesProps {
+  conversationId: string;
+  isAdmin: boolean;
+}
+
+const EMPTY_RULE = { pattern: '', is_regex: false, mode: 'knowledge', instructions: '' };
+
+/**
+ * Keyword and regex rules that make the bot answer matching messages on
+ * its own, e.g. FAQ questions in knowledge mode.
+ */
+export const BotTriggerRules = ({ conversationId, isAdmin }: BotTriggerRulesProps) => {
+  const { toast } = useToast();
+  const [rules, setRules] = useState<BotTrigger[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState(EMPTY_RULE);
+
+  const loadRules = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('bot_triggers')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error loading bot rules:', error);
+    } else {
+      setRules(data || []);
+    }
+    setLoading(false);
+  }, [conversationId]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const addRule = async () => {
+    if (!isValidPattern(draft.pattern, draft.is_regex)) return;
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase
+        .from('bot_triggers')
+        .insert({
+          conversation_id: conversationId,
+          pattern: draft.pattern.trim(),
+          is_regex: draft.is_regex,
+          mode: draft.mode,
+          instructions: draft.instructions.trim() || null,
+          created_by: user.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setRules(prev => [...prev, data]);
+      setDraft(EMPTY_RULE);
+    } catch (error) {
+      console.error('Error adding bot rule:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to add the rule',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleRule = async (rule: BotTrigger, enabled: boolean) => {
+    const { error } = await supabase
+      .from('bot_triggers')
+      .update({ enabled })
+      .eq('id', rule.id);
+
+    if (error) {
+      console.error('Error updating bot rule:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update the rule',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setRules(prev => prev.map(r => (r.id === rule.id ? { ...r, enabled } : r)));
+  };
+
+  const removeRule = async (id: string) => {
+    const { error } = await supabase
+      .from('bot_triggers')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error removing bot rule:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to remove the rule',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setRules(prev => prev.filter(r => r.id !== id));
+  };
+
+  const patternInvalid = !!draft.pattern.trim() && !isValidPattern(draft.pattern, draft.is_regex);
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div className="flex items-center gap-3">
+        <Zap className="w-6 h-6 text-primary" />
+        <div>
+          <h3 className="text-lg font-semibold">Auto-Reply Rules</h3>
+          <p className="text-sm text-muted-foreground">
+            The bot answers messages containing these keywords
+          </p>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : rules.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No rules yet</p>
+      ) : (
+        <div className="space-y-2">
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex items-start gap-2 p-2 rounded-lg bg-muted/50">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-1 flex-wrap">
+                  <code className="text-sm break-all">{rule.pattern}</code>
+                  {rule.is_regex && <Badge variant="outline" className="text-xs">regex</Badge>}
+                  <Badge variant="secondary" className="text-xs capitalize">{rule.mode}</Badge>
+                </div>
+                {rule.instructions && (
+                  <p className="text-xs text-muted-foreground mt-1 line-clamp-2">{rule.instructions}</p>
+                )}
+              </div>
+              <Switch
+                checked={rule.enabled}
+                onCheckedChange={(enabled) => toggleRule(rule, enabled)}
+                disabled={!isAdmin}
+              />
+              {isAdmin && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                  onClick={() => removeRule(rule.id)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isAdmin && (
+        <div className="space-y-3 pt-2 border-t border-border">
+          <div className="space-y-2">
+            <Label>Keyword or pattern</Label>
+            <Input
+              value={draft.pattern}
+              onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+              placeholder={draft.is_regex ? 'opening hours?|when .* open' : 'opening hours'}
+              maxLength={200}
+            />
+            {patternInvalid && (
+              <p className="text-xs text-destructive">This isn't a valid regular expression, or it uses a back-reference</p>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label>Regular expression</Label>
+            <Switch
+              checked={draft.is_regex}
+              onCheckedChange={(is_regex) => setDraft({ ...draft, is_regex })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Reply mode</Label>
+            <Select value={draft.mode} onValueChange={(mode) => setDraft({ ...draft, mode })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BOT_MODES.map((mode) => (
+                  <SelectItem key={mode.value} value={mode.value}>{mode.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Instructions (optional)</Label>
+            <Textarea
+              value={draft.instructions}
+              onChange={(e) => setDraft({ ...draft, instructions: e.target.value })}
+              placeholder="e.g. We're open 9-5 on weekdays and closed on public holidays"
+              rows={3}
+              maxLength={2000}
+            />
+          </div>
+
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={addRule}
+            disabled={saving || !draft.pattern.trim() || patternInvalid}
+          >
+            {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+            Add Rule
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+};
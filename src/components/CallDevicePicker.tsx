@@ -0,0 +1,77 @@
+import { Settings } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MediaInputKind } from '@/hooks/useWebRTC';
+
+interface CallDevicePickerProps {
+  devices: MediaDeviceInfo[];
+  selectedDevices: Partial<Record<MediaInputKind, string>>;
+  isVideo: boolean;
+  onSelect: (kind: MediaInputKind, deviceId: string) => void;
+}
+
+const DeviceSelect = ({
+  label,
+  kind,
+  devices,
+  value,
+  onSelect,
+}: {
+  label: string;
+  kind: MediaInputKind;
+  devices: MediaDeviceInfo[];
+  value?: string;
+  onSelect: (kind: MediaInputKind, deviceId: string) => void;
+}) => {
+  const options = devices.filter(device => device.kind === kind);
+
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select value={value} onValueChange={(deviceId) => onSelect(kind, deviceId)} disabled={options.length === 0}>
+        <SelectTrigger>
+          <SelectValue placeholder={options.length === 0 ? 'No devices found' : 'Select device'} />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((device, index) => (
+            <SelectItem key={device.deviceId} value={device.deviceId}>
+              {device.label || `${label} ${index + 1}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export const CallDevicePicker = ({ devices, selectedDevices, isVideo, onSelect }: CallDevicePickerProps) => {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button size="lg" variant="secondary" className="rounded-full w-14 h-14" title="Devices">
+          <Settings className="w-6 h-6" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-4" side="top">
+        <DeviceSelect
+          label="Microphone"
+          kind="audioinput"
+          devices={devices}
+          value={selectedDevices.audioinput}
+          onSelect={onSelect}
+        />
+        {isVideo && (
+          <DeviceSelect
+            label="Camera"
+            kind="videoinput"
+            devices={devices}
+            value={selectedDevices.videoinput}
+            onSelect={onSelect}
+          />
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,51 @@
+import { PhoneMissed, Phone, Video } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+/**
+ * Missed-call notice shown inline in the conversation. The caller sees
+ * "No answer", everyone else sees who they missed, and both can call back.
+ */
+const CallEventMessage = ({
+  callType,
+  isOwnCall,
+  callerName,
+  timestamp,
+  onCallBack,
+}: {
+  callType: 'audio' | 'video';
+  isOwnCall: boolean;
+  callerName?: string;
+  timestamp: Date;
+  onCallBack?: (isVideo: boolean) => void;
+}) => {
+  const isVideo = callType === 'video';
+  const label = isVideo ? 'video call' : 'voice call';
+  const CallIcon = isVideo ? Video : Phone;
+
+  return (
+    <div className="flex justify-center">
+      <div className="flex items-center gap-2 rounded-full bg-muted px-3 py-1.5 text-xs text-muted-foreground">
+        <PhoneMissed className="w-3.5 h-3.5 text-destructive" />
+        <span>
+          {isOwnCall
+            ? `${isVideo ? 'Video' : 'Voice'} call · No answer`
+            : `Missed ${label}${callerName ? ` from ${callerName}` : ''}`}
+        </span>
+        <span>· {timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+        {onCallBack && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs text-primary"
+            onClick={() => onCallBack(isVideo)}
+          >
+            <CallIcon className="w-3 h-3 mr-1" />
+            Call back
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CallEventMessage;
@@ -0,0 +1,244 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Phone, PhoneIncoming, PhoneMissed, PhoneOff, PhoneOutgoing, Video } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { format, isToday, isYesterday } from "date-fns";
+
+type CallHistoryRow = Database["public"]["Functions"]["get_call_history"]["Returns"][number];
+
+type CallDirection = 'outgoing' | 'incoming' | 'missed' | 'declined';
+
+export interface CallBackTarget {
+  conversationId: string;
+  isGroup: boolean;
+  // Other participant for 1:1 calls, empty for groups
+  userId: string;
+  name: string;
+  callType: 'audio' | 'video';
+}
+
+const PAGE_SIZE = 30;
+
+const getDirection = (call: CallHistoryRow, userId: string): CallDirection => {
+  if (call.caller_id === userId) return 'outgoing';
+  if (call.my_status === 'missed') return 'missed';
+  if (call.my_status === 'rejected') return 'declined';
+  return 'incoming';
+};
+
+const DIRECTION_LABELS: Record<CallDirection, string> = {
+  outgoing: 'Outgoing',
+  incoming: 'Incoming',
+  missed: 'Missed',
+  declined: 'Declined',
+};
+
+const DIRECTION_ICONS: Record<CallDirection, typeof Phone> = {
+  outgoing: PhoneOutgoing,
+  incoming: PhoneIncoming,
+  missed: PhoneMissed,
+  declined: PhoneOff,
+};
+
+const formatDuration = (call: CallHistoryRow) => {
+  if (!call.answered_at || !call.ended_at) return null;
+  const seconds = Math.max(0, Math.round((new Date(call.ended_at).getTime() - new Date(call.answered_at).getTime()) / 1000));
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+};
+
+const formatCallTime = (value: string) => {
+  const date = new Date(value);
+  if (isToday(date)) return format(date, 'HH:mm');
+  if (isYesterday(date)) return `Yesterday ${format(date, 'HH:mm')}`;
+  return format(date, 'MMM d, HH:mm');
+};
+
+export const CallHistory = ({ onCallBack }: { onCallBack: (target: CallBackTarget) => void }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [calls, setCalls] = useState<CallHistoryRow[]>([]);
+  const [names, setNames] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+
+  const fetchCalls = useCallback(async (before?: string) => {
+    const { data, error } = await supabase.rpc('get_call_history', {
+      result_limit: PAGE_SIZE,
+      before_time: before,
+    });
+
+    if (error) throw error;
+
+    const rows = data || [];
+    const userIds = [...new Set(rows.flatMap(call => [call.caller_id, ...(call.participant_ids || [])]))];
+    if (userIds.length > 0) {
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('user_id, display_name')
+        .in('user_id', userIds);
+
+      setNames(prev => new Map([...prev, ...(profiles?.map(p => [p.user_id, p.display_name] as [string, string]) || [])]));
+    }
+
+    setHasMore(rows.length === PAGE_SIZE);
+    return rows;
+  }, []);
+
+  const loadCalls = useCallback(async () => {
+    try {
+      setCalls(await fetchCalls());
+    } catch (error) {
+      console.error('Error fetching call history:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load call history",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchCalls, toast]);
+
+  const loadMore = async () => {
+    const oldest = calls[calls.length - 1];
+    if (!oldest) return;
+
+    setLoadingMore(true);
+    try {
+      const older = await fetchCalls(oldest.started_at);
+      setCalls(prev => [...prev, ...older]);
+    } catch (error) {
+      console.error('Error fetching older calls:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    loadCalls();
+
+    // Any change to the user's call participation (new call, answered, missed) refreshes the log
+    const channel = supabase
+      .channel(`call-history-${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'call_participants',
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => {
+          loadCalls();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user?.id, loadCalls]);
+
+  const getTitle = (call: CallHistoryRow) => {
+    if (call.is_group) return call.group_name || 'Unnamed Group';
+    const others = (call.participant_ids || []).map(id => names.get(id) || 'Unknown');
+    return others.join(', ') || 'Unknown';
+  };
+
+  const handleCallBack = (call: CallHistoryRow, callType: 'audio' | 'video') => {
+    const otherUserId = call.participant_ids?.[0];
+    if (!call.is_group && !otherUserId) return;
+
+    onCallBack({
+      conversationId: call.conversation_id,
+      isGroup: call.is_group,
+      userId: call.is_group ? '' : otherUserId,
+      name: getTitle(call),
+      callType,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Phone className="w-5 h-5" />
+          Calls
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : calls.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No calls yet</p>
+        ) : (
+          <div className="space-y-1">
+            {calls.map(call => {
+              const direction = user ? getDirection(call, user.id) : 'incoming';
+              const DirectionIcon = DIRECTION_ICONS[direction];
+              const duration = formatDuration(call);
+              const isVideo = call.call_type === 'video';
+
+              return (
+                <div key={call.call_id} className="flex items-center gap-3 rounded-lg px-2 py-3 hover:bg-muted/50">
+                  <DirectionIcon
+                    className={cn(
+                      "w-5 h-5 flex-shrink-0",
+                      direction === 'missed' || direction === 'declined' ? "text-destructive" : "text-muted-foreground"
+                    )}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className={cn("font-medium truncate", direction === 'missed' && "text-destructive")}>
+                      {getTitle(call)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {DIRECTION_LABELS[direction]} {isVideo ? 'video' : 'voice'} call · {formatCallTime(call.started_at)}
+                      {duration && ` · ${duration}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleCallBack(call, 'audio')}
+                    title="Voice call"
+                  >
+                    <Phone className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleCallBack(call, 'video')}
+                    title="Video call"
+                  >
+                    <Video className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+            {hasMore && (
+              <div className="flex justify-center pt-2">
+                <Button variant="ghost" size="sm" onClick={loadMore} disabled={loadingMore}>
+                  {loadingMore ? 'Loading...' : 'Load more'}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
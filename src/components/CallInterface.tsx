@@ -1,13 +1,27 @@
 import { useEffect, useRef, useState, useMemo } from 'react';
-import { Phone, PhoneOff, Mic, MicOff, Video, VideoOff, Users } from 'lucide-react';
+import { Phone, PhoneOff, Mic, MicOff, Video, VideoOff, Users, MonitorUp, MonitorOff, Activity, Circle, Square } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { useWebRTC } from '@/hooks/useWebRTC';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { MediaInputKind, PeerConnectionInfo, SFU_PUBLISHER_STATS_KEY, SFU_SUBSCRIBER_STATS_KEY, useWebRTC } from '@/hooks/useWebRTC';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
+import { useMeetingRecording } from '@/hooks/useMeetingRecording';
 import LiveTranscription from './LiveTranscription';
 import { EmotionAnalytics } from './EmotionAnalytics';
+import { CallDevicePicker } from './CallDevicePicker';
+import { CallStatsPanel } from './CallStatsPanel';
+import { RecordingIndicator } from './RecordingIndicator';
 
 interface CallInterfaceProps {
   callId: string;
@@ -19,6 +33,41 @@ interface CallInterfaceProps {
   meetingId?: string;
 }
 
+// How long an unanswered call rings before it's recorded as missed
+const RING_TIMEOUT_MS = 45000;
+
+const CANDIDATE_LABELS: Record<string, string> = {
+  host: 'direct',
+  srflx: 'stun',
+  prflx: 'stun',
+  relay: 'turn',
+};
+
+// Selected ICE candidate type per participant, for debugging connectivity
+const ConnectionBadge = ({ info }: { info?: PeerConnectionInfo }) => {
+  if (!info) return null;
+
+  if (info.restarting || info.state === 'disconnected' || info.state === 'failed') {
+    return <span className="ml-2 text-xs text-destructive">Reconnecting…</span>;
+  }
+
+  const { candidate } = info;
+  if (!candidate?.localType) return null;
+
+  const transport = candidate.localType === 'relay' && candidate.relayProtocol
+    ? candidate.relayProtocol
+    : candidate.protocol;
+
+  return (
+    <span
+      className="ml-2 text-xs text-muted-foreground font-mono"
+      title={`local: ${candidate.localType}, remote: ${candidate.remoteType ?? 'unknown'}`}
+    >
+      {CANDIDATE_LABELS[candidate.localType] ?? candidate.localType}{transport ? `/${transport}` : ''}
+    </span>
+  );
+};
+
 export const CallInterface = ({
   callId,
   userId,
@@ -33,6 +82,8 @@ export const CallInterface = ({
   const [isMuted, setIsMuted] = useState(false);
   const [isVideoOff, setIsVideoOff] = useState(false);
   const [showTranscription, setShowTranscription] = useState(!!meetingId);
+  const [showStats, setShowStats] = useState(false);
+  const [showRecordConfirm, setShowRecordConfirm] = useState(false);
   const [transcripts, setTranscripts] = useState<any[]>([]);
   const localVideoRef = useRef<HTMLVideoElement>(null);
   const remoteVideosRef = useRef<Map<string, HTMLVideoElement>>(new Map());
@@ -42,10 +93,21 @@ export const CallInterface = ({
   const {
     localStream,
     remoteStreams,
+    connectionInfo,
+    topology,
+    activeSpeakerId,
+    setPreferredLayer,
     isConnecting,
     initializeCall,
     toggleAudio,
     toggleVideo,
+    isScreenSharing,
+    startScreenShare,
+    stopScreenShare,
+    devices,
+    selectedDevices,
+    switchDevice,
+    callStats,
     endCall,
   } = useWebRTC({
     callId,
@@ -58,9 +120,53 @@ export const CallInterface = ({
 
   console.log('CallInterface - localStream:', !!localStream, 'remoteStreams:', remoteStreams.size);
 
+  const recordingSources = useMemo(() => {
+    const sources = new Map(remoteStreams);
+    if (localStream) sources.set(userId, localStream);
+    return sources;
+  }, [localStream, remoteStreams, userId]);
+
+  const {
+    activeRecording,
+    isRecordingOwner,
+    consents,
+    isStarting: isStartingRecording,
+    startRecording,
+    stopRecording,
+    respondToRecording,
+  } = useMeetingRecording({
+    meetingId,
+    userId,
+    isVideo,
+    sources: recordingSources,
+    onUploadError: () => {
+      toast({
+        title: 'Recording upload failed',
+        description: 'Part of the recording could not be saved',
+        variant: 'destructive',
+      });
+    },
+  });
+
   useEffect(() => {
     console.log('Initializing call with participants:', participantIds);
     initializeCall(participantIds);
+
+    // Give up on calls nobody answers; ending a ringing call records it as missed
+    const ringTimeout = setTimeout(async () => {
+      const { data: call } = await supabase
+        .from('calls')
+        .select('status')
+        .eq('id', callId)
+        .single();
+
+      if (call?.status === 'ringing') {
+        toast({ description: 'No answer' });
+        handleEndCall();
+      }
+    }, RING_TIMEOUT_MS);
+
+    return () => clearTimeout(ringTimeout);
   }, []);
 
   useEffect(() => {
@@ -124,11 +230,87 @@ export const CallInterface = ({
     });
   };
 
-  // Get the first remote participant for main view - memoized to prevent unnecessary re-renders
+  const handleToggleScreenShare = async () => {
+    if (isScreenSharing) {
+      await stopScreenShare();
+      return;
+    }
+
+    const started = await startScreenShare();
+    if (!started) {
+      toast({
+        title: 'Screen sharing unavailable',
+        description: 'Could not start sharing your screen',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleSelectDevice = async (kind: MediaInputKind, deviceId: string) => {
+    try {
+      await switchDevice(kind, deviceId);
+    } catch (error) {
+      console.error('Error switching device:', error);
+      toast({
+        title: 'Error',
+        description: kind === 'audioinput' ? 'Could not switch microphone' : 'Could not switch camera',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleStartRecording = async () => {
+    setShowRecordConfirm(false);
+    try {
+      await startRecording();
+    } catch (error) {
+      console.error('Error starting recording:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not start recording',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRecordingResponse = async (consented: boolean) => {
+    try {
+      await respondToRecording(consented);
+    } catch (error) {
+      console.error('Error saving recording consent:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not save your recording preference',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const statsLabel = (key: string) => {
+    if (key === SFU_PUBLISHER_STATS_KEY) return 'Media server (upload)';
+    if (key === SFU_SUBSCRIBER_STATS_KEY) return 'Media server (download)';
+    return participantNames.get(key) || 'Participant';
+  };
+
+  // The active speaker gets the main view, otherwise the first remote participant - memoized to prevent unnecessary re-renders
   const mainParticipant = useMemo(() => {
+    const activeStream = activeSpeakerId ? remoteStreams.get(activeSpeakerId) : undefined;
+    if (activeSpeakerId && activeStream) return [activeSpeakerId, activeStream] as [string, MediaStream];
     const entries = Array.from(remoteStreams.entries());
     return entries.length > 0 ? entries[0] : null;
-  }, [remoteStreams]);
+  }, [remoteStreams, activeSpeakerId]);
+
+  const thumbnailParticipants = useMemo(
+    () => Array.from(remoteStreams.entries()).filter(([participantId]) => participantId !== mainParticipant?.[0]),
+    [remoteStreams, mainParticipant]
+  );
+
+  // Receive full resolution only for the main view; thumbnails get the lowest simulcast layer
+  useEffect(() => {
+    remoteStreams.forEach((_, participantId) => {
+      setPreferredLayer(participantId, participantId === mainParticipant?.[0] ? 'high' : 'low');
+    });
+  }, [remoteStreams, mainParticipant, setPreferredLayer]);
   
   const mainVideoRef = useRef<HTMLVideoElement>(null);
 
@@ -204,6 +386,7 @@ export const CallInterface = ({
   }, [mainParticipant, isVideo]);
 
   const handleEndCall = async () => {
+    await stopRecording();
     endCall();
     
     // Update call status
@@ -219,6 +402,13 @@ export const CallInterface = ({
       .eq('call_id', callId)
       .eq('user_id', userId);
 
+    // Push a missed-call notification to anyone who never picked up
+    supabase.functions
+      .invoke('notify-missed-call', { body: { callId } })
+      .then(({ error }) => {
+        if (error) console.error('Error sending missed call notifications:', error);
+      });
+
     onEndCall();
   };
 
@@ -239,7 +429,20 @@ export const CallInterface = ({
         {/* Main Video/Call Area */}
         <div className="flex-1 flex flex-col">
           {/* Main Video Area */}
-          <div className="flex-1 p-4 flex items-center justify-center">
+          <div className="relative flex-1 p-4 flex items-center justify-center">
+            {showStats && (
+              <CallStatsPanel stats={callStats} labelFor={statsLabel} onClose={() => setShowStats(false)} />
+            )}
+            {activeRecording && (
+              <RecordingIndicator
+                userId={userId}
+                startedBy={activeRecording.started_by}
+                participantIds={participantIds}
+                participantNames={participantNames}
+                consents={consents}
+                onRespond={handleRecordingResponse}
+              />
+            )}
             {mainParticipant ? (
               <div className="relative w-full h-full rounded-lg overflow-hidden bg-muted">
                 {isVideo ? (
@@ -266,6 +469,7 @@ export const CallInterface = ({
                 )}
                 <div className="absolute bottom-4 left-4 bg-background/80 px-3 py-2 rounded text-base">
                   {participantNames.get(mainParticipant[0]) || 'Participant'}
+                  <ConnectionBadge info={connectionInfo.get(mainParticipant[0])} />
                 </div>
               </div>
             ) : (
@@ -304,8 +508,13 @@ export const CallInterface = ({
           </div>
 
           {/* Other Remote Video Thumbnails */}
-          {Array.from(remoteStreams.entries()).slice(1).map(([participantId, stream]) => (
-            <div key={participantId} className="relative flex-shrink-0 w-32 h-24 rounded-lg overflow-hidden bg-muted">
+          {thumbnailParticipants.map(([participantId, stream]) => (
+            <div
+              key={participantId}
+              className={`relative flex-shrink-0 w-32 h-24 rounded-lg overflow-hidden bg-muted ${
+                participantId === activeSpeakerId ? 'ring-2 ring-primary' : ''
+              }`}
+            >
               {isVideo ? (
                 <video
                   ref={(el) => {
@@ -334,6 +543,16 @@ export const CallInterface = ({
                 />
               ) : (
                 <div className="w-full h-full flex items-center justify-center">
+                  {/* Keep everyone audible in audio calls, not just the main participant */}
+                  <audio
+                    ref={(el) => {
+                      if (el && el.srcObject !== stream) {
+                        el.srcObject = stream;
+                      }
+                    }}
+                    autoPlay
+                    className="hidden"
+                  />
                   <div className="w-12 h-12 rounded-full bg-primary/20 flex items-center justify-center">
                     <Users className="w-6 h-6 text-primary" />
                   </div>
@@ -341,6 +560,7 @@ export const CallInterface = ({
               )}
               <div className="absolute bottom-1 left-1 bg-background/80 px-2 py-0.5 rounded text-xs">
                 {participantNames.get(participantId) || 'Unknown'}
+                <ConnectionBadge info={connectionInfo.get(participantId)} />
               </div>
             </div>
           ))}
@@ -378,6 +598,48 @@ export const CallInterface = ({
                 </Button>
               )}
 
+              {isVideo && (
+                <Button
+                  size="lg"
+                  variant={isScreenSharing ? 'default' : 'secondary'}
+                  onClick={handleToggleScreenShare}
+                  className="rounded-full w-14 h-14"
+                  title={isScreenSharing ? 'Stop sharing' : 'Share screen'}
+                >
+                  {isScreenSharing ? <MonitorOff className="w-6 h-6" /> : <MonitorUp className="w-6 h-6" />}
+                </Button>
+              )}
+
+              <CallDevicePicker
+                devices={devices}
+                selectedDevices={selectedDevices}
+                isVideo={isVideo}
+                onSelect={handleSelectDevice}
+              />
+
+              <Button
+                size="lg"
+                variant={showStats ? 'default' : 'secondary'}
+                onClick={() => setShowStats(prev => !prev)}
+                className="rounded-full w-14 h-14"
+                title="Call stats"
+              >
+                <Activity className="w-6 h-6" />
+              </Button>
+
+              {meetingId && (!activeRecording || isRecordingOwner) && (
+                <Button
+                  size="lg"
+                  variant={isRecordingOwner ? 'destructive' : 'secondary'}
+                  onClick={() => (isRecordingOwner ? stopRecording() : setShowRecordConfirm(true))}
+                  disabled={isStartingRecording}
+                  className="rounded-full w-14 h-14"
+                  title={isRecordingOwner ? 'Stop recording' : 'Record meeting'}
+                >
+                  {isRecordingOwner ? <Square className="w-6 h-6" /> : <Circle className="w-6 h-6" />}
+                </Button>
+              )}
+
               <Button
                 size="lg"
                 variant="destructive"
@@ -391,6 +653,7 @@ export const CallInterface = ({
             <div className="text-center mt-4">
               <p className="text-sm text-muted-foreground">
                 {participantIds.length} participant{participantIds.length > 1 ? 's' : ''}
+                {topology === 'sfu' && ' · via media server'}
               </p>
             </div>
           </div>
@@ -413,6 +676,22 @@ export const CallInterface = ({
           </div>
         )}
       </div>
+
+      <AlertDialog open={showRecordConfirm} onOpenChange={setShowRecordConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Record this meeting?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Everyone in the meeting will see that it's being recorded and can choose to leave themselves out.
+              The recording is saved with the meeting for its participants.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleStartRecording}>Start recording</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
 };
@@ -0,0 +1,56 @@
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { CallStats } from '@/utils/callStats';
+
+interface CallStatsPanelProps {
+  stats: Map<string, CallStats>;
+  labelFor: (key: string) => string;
+  onClose: () => void;
+}
+
+const QUALITY_LABELS = ['Full', 'Reduced', 'Low'];
+
+const formatMs = (value: number | null) => (value === null ? '–' : `${Math.round(value)} ms`);
+
+const formatPercent = (value: number | null) => (value === null ? '–' : `${value.toFixed(1)}%`);
+
+export const CallStatsPanel = ({ stats, labelFor, onClose }: CallStatsPanelProps) => {
+  return (
+    <div className="absolute top-4 right-4 z-10 w-72 max-h-[70%] overflow-y-auto rounded-lg bg-background/90 border p-3 text-xs space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-sm">Call stats</span>
+        <Button size="icon" variant="ghost" className="h-6 w-6" onClick={onClose}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {stats.size === 0 && <p className="text-muted-foreground">Waiting for connection…</p>}
+
+      {Array.from(stats.entries()).map(([key, entry]) => (
+        <div key={key} className="space-y-1 border-t pt-2">
+          <p className="font-medium">{labelFor(key)}</p>
+          <dl className="grid grid-cols-2 gap-x-2 gap-y-0.5 font-mono">
+            <dt className="text-muted-foreground">Send</dt>
+            <dd>{entry.outboundBitrate} kbps</dd>
+            <dt className="text-muted-foreground">Receive</dt>
+            <dd>{entry.inboundBitrate} kbps</dd>
+            <dt className="text-muted-foreground">Loss in / out</dt>
+            <dd>{formatPercent(entry.inboundPacketLoss)} / {formatPercent(entry.outboundPacketLoss)}</dd>
+            <dt className="text-muted-foreground">RTT</dt>
+            <dd>{formatMs(entry.roundTripTime)}</dd>
+            <dt className="text-muted-foreground">Jitter</dt>
+            <dd>{formatMs(entry.jitter)}</dd>
+            {entry.sendResolution && (
+              <>
+                <dt className="text-muted-foreground">Sending</dt>
+                <dd>
+                  {entry.sendResolution.width}×{entry.sendResolution.height} ({QUALITY_LABELS[entry.qualityLevel]})
+                </dd>
+              </>
+            )}
+          </dl>
+        </div>
+      ))}
+    </div>
+  );
+};
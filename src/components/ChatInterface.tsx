@@ -1,21 +1,43 @@
 import { useState, useRef, useEffect, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { ArrowLeft, Send, Sparkles, Languages, Smile, Mic, Phone, Video, Shield, Bot, Settings, MoreVertical, LogOut, Trash2, Pencil, Check, X } from "lucide-react";
+import { ArrowLeft, ArrowDown, Reply, MessagesSquare, Paperclip, Clock, AlertCircle, RotateCw, WifiOff, Send, Sparkles, Languages, Smile, Mic, Phone, Video, Shield, Bot, Settings, MoreVertical, BookA, FileDown, CalendarClock, ShieldAlert, BookOpen, Pin, ListPlus, BarChart3, ListChecks, MapPin, UserRound, LogOut, Trash2, Pencil, Check, X } from "lucide-react";
+import { useVirtualizer } from "@tanstack/react-virtual";
 import { cn } from "@/lib/utils";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
 import AISuggestions from "./AISuggestions";
 import ChatSummarizer from "./ChatSummarizer";
 import VoiceRecorder from "./VoiceRecorder";
+import MessageAttachments from "./MessageAttachments";
+import MessageEditHistory from "./MessageEditHistory";
+import ReadReceipt, { ParticipantReceipt } from "./ReadReceipt";
 import MessageTranslator from "./MessageTranslator";
 import MessageReactions from "./MessageReactions";
 import TypingIndicator, { useTypingIndicator } from "./TypingIndicator";
 import { CallInterface } from "./CallInterface";
+import CallEventMessage from "./CallEventMessage";
 import { IncomingCallDialog } from "./IncomingCallDialog";
 import { GroupBotSettings } from "./GroupBotSettings";
+import { BotTriggerRules } from "./BotTriggerRules";
+import { BotSchedules } from "./BotSchedules";
 import { GroupBotInteraction } from "./GroupBotInteraction";
 import { ContactLanguagePreferences } from "./ContactLanguagePreferences";
+import { TranslationGlossary } from "./TranslationGlossary";
+import { ConversationTranslator } from "./ConversationTranslator";
+import { ConversationExporter } from "./ConversationExporter";
+import { ScheduleMessageDialog } from "./ScheduleMessageDialog";
+import { ScheduledMessagesSheet } from "./ScheduledMessagesSheet";
+import { PollMessage } from "./PollMessage";
+import { ChecklistMessage } from "./ChecklistMessage";
+import { LocationMessage } from "./LocationMessage";
+import { ContactCardMessage } from "./ContactCardMessage";
+import { StructuredMessageDialog, StructuredMessageKind } from "./StructuredMessageDialog";
+import { ModerationQueue } from "./ModerationQueue";
+import { KnowledgeBaseSheet } from "./KnowledgeBaseSheet";
+import { KnowledgeCitations } from "./KnowledgeCitations";
+import { ModerationAppealDialog } from "./ModerationAppealDialog";
 import EmojiPicker, { EmojiClickData, Theme, EmojiStyle } from 'emoji-picker-react';
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
@@ -24,6 +46,39 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { useAutoTranslate } from "@/hooks/useAutoTranslate";
 import { Switch } from "@/components/ui/switch";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import type { Database, Json } from "@/integrations/supabase/types";
+import { checklistTitle, isStructuredMessageType } from "@/utils/structuredMessages";
+import { parseCitations } from "@/utils/knowledgeBase";
+import { categoryLabel, isModerationMuteError, ModerationFlag } from "@/utils/moderation";
+import { fetchMessageContext, fetchMessagePage, fetchThreadReplies, MessageRow } from "@/utils/messagePagination";
+import {
+  formatFileSize,
+  getAttachmentMessageType,
+  MAX_ATTACHMENT_SIZE,
+  MessageAttachmentRow,
+  removeUploadedAttachments,
+  uploadAttachment,
+  UploadedAttachment,
+} from "@/utils/attachments";
+import { Progress } from "@/components/ui/progress";
+import {
+  discardOutboxEntry,
+  enqueueMessage,
+  getOutboxEntries,
+  OutboxEntry,
+  OutboxEvent,
+  retryOutboxEntry,
+  subscribeToOutbox,
+} from "@/utils/outbox";
+import { readCache, writeCache } from "@/utils/offlineStore";
+import { useOnlineStatus } from "@/hooks/useOnlineStatus";
+
+// Distance in px from either edge of the message list that triggers loading another page
+const SCROLL_EDGE_THRESHOLD = 200;
+
+type MessageType = 'text' | 'audio' | 'image' | 'video' | 'file' | 'call' | 'poll' | 'checklist' | 'location' | 'contact';
+
+type BotIdentity = Pick<Database["public"]["Tables"]["bots"]["Row"], 'id' | 'name' | 'avatar_url'>;
 
 interface Message {
   id: string;
@@ -36,27 +91,92 @@ interface Message {
   sender: "user" | "ai" | "contact";
   senderId?: string;
   senderName?: string;
+  // Set on bot replies
+  senderAvatarUrl?: string;
   timestamp: Date;
+  // Raw created_at value, kept at full precision for keyset pagination
+  createdAt: string;
   aiGenerated?: boolean;
-  messageType?: 'text' | 'audio' | 'image';
+  messageType?: MessageType;
   audioData?: string;
+  attachments?: MessageAttachmentRow[];
+  // Set on missed-call notices
+  callType?: 'audio' | 'video';
+  // Payload of location and contact-card messages
+  metadata?: Json;
   transcription?: string;
   isEdited?: boolean;
   isTranslating?: boolean;
   isDetecting?: boolean;
+  replyTo?: {
+    id: string;
+    senderName?: string;
+    text?: string;
+  };
+  threadRootId?: string;
+  // Set while the message only exists in the local outbox
+  deliveryState?: 'pending' | 'failed';
+  deliveryError?: string;
+}
+
+interface ThreadSummary {
+  replyCount: number;
+  unreadCount: number;
 }
 
+interface PendingAttachment {
+  id: string;
+  file: File;
+  progress: number;
+}
+
+// Optimistic bubble for a message that hasn't reached the server yet
+const outboxEntryToMessage = (entry: OutboxEntry, replyTo?: Message): Message => ({
+  id: entry.id,
+  text: entry.content,
+  sender: 'user',
+  senderId: entry.senderId,
+  timestamp: new Date(entry.createdAt),
+  createdAt: entry.createdAt,
+  messageType: 'text',
+  replyTo: entry.replyToId ? {
+    id: entry.replyToId,
+    senderName: replyTo?.senderName,
+    text: replyTo?.text,
+  } : undefined,
+  threadRootId: entry.threadRootId || undefined,
+  deliveryState: entry.status,
+  deliveryError: entry.lastError,
+});
+
+// Scoped to the signed-in user so another account on the device never sees them
+const conversationCacheKey = (userId: string, contactUserId: string) => `conversation:${userId}:${contactUserId}`;
+const historyCacheKey = (userId: string, conversationId: string) => `messages:${userId}:${conversationId}`;
+
+// Attach newly inserted attachment rows to the message they belong to
+const mergeAttachment = (list: Message[], attachment: MessageAttachmentRow) =>
+  list.map(m =>
+    m.id === attachment.message_id && !m.attachments?.some(a => a.id === attachment.id)
+      ? { ...m, attachments: [...(m.attachments || []), attachment] }
+      : m
+  );
+
 const ChatInterface = ({ 
   contactUserId, 
   contactName,
   isGroup = false,
   conversationId: providedConversationId,
+  initialMessageId,
+  initialCallType,
   onBack 
 }: { 
   contactUserId: string;
   contactName: string;
   isGroup?: boolean;
   conversationId?: string;
+  initialMessageId?: string;
+  // Start a call as soon as the conversation is ready, e.g. calling back from the call log
+  initialCallType?: 'audio' | 'video';
   onBack: () => void;
 }) => {
   const [messages, setMessages] = useState<Message[]>([]);
@@ -70,17 +190,57 @@ const ChatInterface = ({
   const [incomingCall, setIncomingCall] = useState<any>(null);
   const [callParticipants, setCallParticipants] = useState<Map<string, string>>(new Map());
   const [profilesCache, setProfilesCache] = useState<Map<string, string>>(new Map());
+  const [botsCache, setBotsCache] = useState<Map<string, BotIdentity>>(new Map());
   const [showBotSettings, setShowBotSettings] = useState(false);
   const [showBotInteraction, setShowBotInteraction] = useState(false);
   const [botSettings, setBotSettings] = useState<any>(null);
   const [isAdmin, setIsAdmin] = useState(false);
+  // Messages hidden pending moderation review
+  const [heldMessageIds, setHeldMessageIds] = useState<Set<string>>(new Set());
+  const [showModerationQueue, setShowModerationQueue] = useState(false);
+  const [showKnowledgeBase, setShowKnowledgeBase] = useState(false);
+  const [appealMessageId, setAppealMessageId] = useState<string | null>(null);
   const [showLeaveDialog, setShowLeaveDialog] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [showContactLanguagePrefs, setShowContactLanguagePrefs] = useState(false);
+  const [showGlossary, setShowGlossary] = useState(false);
+  const [showConversationTranslator, setShowConversationTranslator] = useState(false);
+  const [showConversationExporter, setShowConversationExporter] = useState(false);
+  const [showScheduleDialog, setShowScheduleDialog] = useState(false);
+  const [showScheduledMessages, setShowScheduledMessages] = useState(false);
+  const [structuredMessageKind, setStructuredMessageKind] = useState<StructuredMessageKind | null>(null);
   const [outgoingLanguage, setOutgoingLanguage] = useState<{ code: string; name: string } | null>(null);
   const [detectingOutgoing, setDetectingOutgoing] = useState(false);
+  const [hasOlder, setHasOlder] = useState(false);
+  const [hasNewer, setHasNewer] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [loadingNewer, setLoadingNewer] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [threadSummaries, setThreadSummaries] = useState<Map<string, ThreadSummary>>(new Map());
+  const [activeThreadRoot, setActiveThreadRoot] = useState<Message | null>(null);
+  const [threadMessages, setThreadMessages] = useState<Message[]>([]);
+  const [threadInputText, setThreadInputText] = useState("");
+  const [loadingThread, setLoadingThread] = useState(false);
+  const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
+  const [sendingAttachments, setSendingAttachments] = useState(false);
+  const [participantReceipts, setParticipantReceipts] = useState<ParticipantReceipt[]>([]);
+  const [showingCachedHistory, setShowingCachedHistory] = useState(false);
+  const isOnline = useOnlineStatus();
+  const activeThreadRootIdRef = useRef<string | null>(null);
+  const messagesRef = useRef<Message[]>([]);
+  const threadMessagesRef = useRef<Message[]>([]);
+  const heldMessageIdsRef = useRef<Set<string>>(new Set());
+  const isAdminRef = useRef(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const detectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const pageRequestRef = useRef(false);
+  const hasNewerRef = useRef(false);
+  const stickToBottomRef = useRef(true);
+  const pendingScrollRef = useRef<{ index: number; align: 'start' | 'center' | 'end' } | null>(null);
+  const highlightTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const initialCallStartedRef = useRef(false);
   const { toast } = useToast();
   const { setTyping } = useTypingIndicator(conversationId, currentUserId);
   const { 
@@ -91,9 +251,11 @@ const ChatInterface = ({
     getEffectivePreferences,
     isAutoTranslateEnabled: checkAutoTranslateEnabled,
     autoTranslateIncoming, 
+    translateMessages,
     detectLanguage, 
+    detectLanguages,
     translating 
-  } = useAutoTranslate();
+  } = useAutoTranslate(conversationId);
   const [localAutoTranslate, setLocalAutoTranslate] = useState<boolean | null>(null);
   
   // Fetch contact-specific preferences when contact changes (for non-group chats)
@@ -172,9 +334,10 @@ const ChatInterface = ({
 
   useEffect(() => {
     const initUser = async () => {
-      const { data: userData } = await supabase.auth.getUser();
-      if (userData.user) {
-        setCurrentUserId(userData.user.id);
+      // The stored session is available offline, unlike getUser()
+      const { data: { session } } = await supabase.auth.getSession();
+      if (session?.user) {
+        setCurrentUserId(session.user.id);
         // Fetch language preferences
         fetchPreferences();
       }
@@ -191,14 +354,95 @@ const ChatInterface = ({
     }
   }, [contactUserId, isGroup, providedConversationId]);
 
+  const virtualizer = useVirtualizer({
+    count: messages.length,
+    getScrollElement: () => scrollContainerRef.current,
+    estimateSize: () => 96,
+    overscan: 8,
+    getItemKey: (index) => messages[index].id,
+  });
+
+  useEffect(() => {
+    hasNewerRef.current = hasNewer;
+  }, [hasNewer]);
+
+  useEffect(() => {
+    activeThreadRootIdRef.current = activeThreadRoot?.id ?? null;
+  }, [activeThreadRoot]);
+
+  useEffect(() => {
+    return () => {
+      if (highlightTimeoutRef.current) {
+        clearTimeout(highlightTimeoutRef.current);
+      }
+    };
+  }, []);
+
+  // A draft Nexora AI prepared for this chat goes into the composer, never straight out
+  useEffect(() => {
+    if (!conversationId || !currentUserId) return;
+
+    const loadDraft = async () => {
+      const { data: draft, error } = await supabase
+        .from('message_drafts')
+        .select('id, content')
+        .eq('conversation_id', conversationId)
+        .eq('user_id', currentUserId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error loading draft:', error);
+        return;
+      }
+      if (!draft) return;
+
+      setInputText(prev => prev || draft.content);
+      toast({
+        title: "Draft from Nexora AI",
+        description: "Review it before sending.",
+      });
+      await supabase.from('message_drafts').delete().eq('id', draft.id);
+    };
+
+    loadDraft();
+  }, [conversationId, currentUserId, toast]);
+
   useEffect(() => {
     if (conversationId && currentUserId) {
-      fetchMessages();
+      if (initialMessageId) {
+        jumpToMessage(initialMessageId);
+      } else {
+        fetchMessages();
+      }
       loadBotSettings();
+      loadThreadSummaries();
+      loadParticipantReceipts();
+      loadModerationHolds();
       checkIfAdmin();
       markMessagesAsRead();
+      if (initialCallType && !initialCallStartedRef.current) {
+        initialCallStartedRef.current = true;
+        startCall(initialCallType === 'video');
+      }
       const cleanup = subscribeToMessages();
-      return cleanup;
+      const unsubscribeOutbox = subscribeToOutbox((event) => {
+        if (event.entry.conversationId === conversationId) {
+          handleOutboxEvent(event);
+        }
+      });
+      // Realtime events were missed while offline, so reload the latest page on reconnect
+      const handleReconnect = () => {
+        if (!hasNewerRef.current) {
+          fetchMessages();
+        }
+        loadParticipantReceipts();
+      };
+      window.addEventListener('online', handleReconnect);
+      return () => {
+        cleanup();
+        unsubscribeOutbox();
+        window.removeEventListener('online', handleReconnect);
+      };
     }
   }, [conversationId, currentUserId]);
 
@@ -215,6 +459,61 @@ const ChatInterface = ({
     }
   };
 
+  // Delivery/read watermarks of everyone else in the conversation
+  const loadParticipantReceipts = async () => {
+    if (!conversationId || !currentUserId) return;
+
+    const { data, error } = await supabase
+      .from('conversation_participants')
+      .select('user_id, last_delivered_at, last_read_at')
+      .eq('conversation_id', conversationId)
+      .neq('user_id', currentUserId);
+
+    if (error) {
+      console.error('Error fetching read receipts:', error);
+      return;
+    }
+
+    const names = new Map<string, string>();
+    const userIds = (data || []).map(p => p.user_id);
+    if (userIds.length > 0) {
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('user_id, display_name')
+        .in('user_id', userIds);
+
+      profiles?.forEach(p => names.set(p.user_id, p.display_name));
+    }
+
+    setParticipantReceipts((data || []).map(p => ({
+      userId: p.user_id,
+      name: names.get(p.user_id),
+      lastDeliveredAt: p.last_delivered_at,
+      lastReadAt: p.last_read_at,
+    })));
+  };
+
+  const loadThreadSummaries = async () => {
+    if (!conversationId || !currentUserId) return;
+
+    const { data, error } = await supabase.rpc('get_thread_summaries', {
+      conv_id: conversationId,
+      user_uuid: currentUserId,
+    });
+
+    if (error) {
+      console.error('Error fetching thread summaries:', error);
+      return;
+    }
+
+    setThreadSummaries(new Map(
+      (data || []).map(t => [t.thread_root_id, {
+        replyCount: Number(t.reply_count),
+        unreadCount: Number(t.unread_count),
+      }])
+    ));
+  };
+
   const loadBotSettings = async () => {
     if (!conversationId) return;
     
@@ -238,6 +537,23 @@ const ChatInterface = ({
       .single();
     
     setIsAdmin(data?.is_admin || false);
+    isAdminRef.current = data?.is_admin || false;
+  };
+
+  const loadModerationHolds = async () => {
+    if (!conversationId) return;
+
+    const { data, error } = await supabase
+      .from('moderation_holds')
+      .select('message_id')
+      .eq('conversation_id', conversationId);
+
+    if (error) {
+      console.error('Error fetching moderation holds:', error);
+      return;
+    }
+
+    setHeldMessageIds(new Set((data || []).map(hold => hold.message_id)));
   };
 
   // Subscribe to incoming calls
@@ -271,6 +587,22 @@ const ChatInterface = ({
           }
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'calls',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          // Stop ringing once the caller gives up or the call times out
+          const call = payload.new;
+          if (['ended', 'missed', 'rejected'].includes(call.status)) {
+            setIncomingCall(prev => (prev?.id === call.id ? null : prev));
+          }
+        }
+      )
       .subscribe();
 
     return () => {
@@ -279,6 +611,9 @@ const ChatInterface = ({
   }, [currentUserId, conversationId]);
 
   const initializeConversation = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    const cacheKey = session ? conversationCacheKey(session.user.id, contactUserId) : null;
+
     try {
       const { data, error } = await supabase.rpc('get_or_create_conversation', {
         other_user_id: contactUserId,
@@ -286,7 +621,15 @@ const ChatInterface = ({
 
       if (error) throw error;
       setConversationId(data);
+      if (cacheKey) writeCache(cacheKey, data);
     } catch (error) {
+      // Offline: reopen the conversation we resolved last time
+      const cachedConversationId = cacheKey && await readCache<string>(cacheKey);
+      if (cachedConversationId) {
+        setConversationId(cachedConversationId);
+        return;
+      }
+
       console.error('Error initializing conversation:', error);
       toast({
         title: "Error",
@@ -298,82 +641,532 @@ const ChatInterface = ({
     }
   };
 
+  const mapMessageRows = async (rows: MessageRow[]): Promise<Message[]> => {
+    // Quoted messages outside this batch are fetched once for their previews
+    const quotedRows = new Map<string, Pick<MessageRow, 'id' | 'sender_id' | 'bot_id' | 'content' | 'transcription' | 'imported_sender_name'>>(
+      rows.map(msg => [msg.id, msg])
+    );
+    const missingQuotedIds = [...new Set(rows.map(msg => msg.reply_to_id))]
+      .filter(replyToId => replyToId && !quotedRows.has(replyToId));
+
+    if (missingQuotedIds.length > 0) {
+      const { data: quoted } = await supabase
+        .from('messages')
+        .select('id, sender_id, bot_id, content, transcription, imported_sender_name')
+        .in('id', missingQuotedIds);
+
+      quoted?.forEach(q => quotedRows.set(q.id, q));
+    }
+
+    // Batch fetch profiles for senders that aren't cached yet
+    const namesCache = new Map(profilesCache);
+    const missingSenderIds = [...new Set([...quotedRows.values()].map(msg => msg.sender_id))]
+      .filter(senderId => !namesCache.has(senderId));
+
+    if (missingSenderIds.length > 0) {
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('user_id, display_name')
+        .in('user_id', missingSenderIds);
+
+      profiles?.forEach(p => namesCache.set(p.user_id, p.display_name));
+      setProfilesCache(prev => new Map([...prev, ...namesCache]));
+    }
+
+    // Bot replies are attributed to the bot rather than the member who asked it
+    const bots = new Map(botsCache);
+    const missingBotIds = [...new Set([...quotedRows.values()].map(msg => msg.bot_id))]
+      .filter(botId => botId && !bots.has(botId));
+
+    if (missingBotIds.length > 0) {
+      const { data: botRows } = await supabase
+        .from('bots')
+        .select('id, name, avatar_url')
+        .in('id', missingBotIds);
+
+      botRows?.forEach(bot => bots.set(bot.id, bot));
+      setBotsCache(prev => new Map([...prev, ...bots]));
+    }
+
+    // Batch fetch attachments for the whole page
+    const attachmentsByMessage = new Map<string, MessageAttachmentRow[]>();
+    if (rows.length > 0) {
+      const { data: attachments, error: attachmentsError } = await supabase
+        .from('message_attachments')
+        .select('*')
+        .in('message_id', rows.map(msg => msg.id))
+        .order('created_at', { ascending: true });
+
+      if (attachmentsError) {
+        console.error('Error fetching attachments:', attachmentsError);
+      }
+
+      attachments?.forEach(a => {
+        attachmentsByMessage.set(a.message_id, [...(attachmentsByMessage.get(a.message_id) || []), a]);
+      });
+    }
+
+    // Call type for missed-call notices
+    const callTypes = new Map<string, string>();
+    const callIds = rows.filter(msg => msg.call_id).map(msg => msg.call_id);
+    if (callIds.length > 0) {
+      const { data: calls } = await supabase
+        .from('calls')
+        .select('id, call_type')
+        .in('id', callIds);
+
+      calls?.forEach(call => callTypes.set(call.id, call.call_type));
+    }
+
+    return rows.map((msg) => {
+      // Imported chats store everyone's messages under the importer
+      const isFromOther = msg.sender_id !== currentUserId || !!msg.imported_sender_name;
+      const quoted = msg.reply_to_id ? quotedRows.get(msg.reply_to_id) : undefined;
+      const bot = msg.bot_id ? bots.get(msg.bot_id) : undefined;
+
+      return {
+        id: msg.id,
+        text: msg.content || msg.transcription || '',
+        sender: msg.bot_id ? 'ai' : isFromOther ? 'contact' : 'user',
+        senderId: msg.sender_id,
+        senderName: msg.bot_id
+          ? bot?.name || 'Bot'
+          : msg.imported_sender_name || namesCache.get(msg.sender_id) || 'Unknown',
+        senderAvatarUrl: bot?.avatar_url || undefined,
+        timestamp: new Date(msg.created_at),
+        createdAt: msg.created_at,
+        aiGenerated: msg.ai_generated,
+        messageType: (msg.message_type || 'text') as MessageType,
+        audioData: msg.audio_data || undefined,
+        attachments: attachmentsByMessage.get(msg.id),
+        callType: msg.call_id ? (callTypes.get(msg.call_id) === 'video' ? 'video' : 'audio') : undefined,
+        metadata: msg.metadata ?? undefined,
+        transcription: msg.transcription || undefined,
+        isEdited: !!msg.updated_at,
+        replyTo: msg.reply_to_id ? {
+          id: msg.reply_to_id,
+          senderName: quoted
+            ? (quoted.bot_id && bots.get(quoted.bot_id)?.name) || quoted.imported_sender_name || namesCache.get(quoted.sender_id)
+            : undefined,
+          text: quoted ? quoted.content || quoted.transcription || '' : undefined,
+        } : undefined,
+        threadRootId: msg.thread_root_id || undefined,
+      };
+    });
+  };
+
+  // Detect language and auto-translate a page's incoming messages, one batch request each
+  const processIncomingMessages = async (pageMessages: Message[]) => {
+    const incomingIds = pageMessages
+      .filter(m => m.sender !== 'user' && m.text && !m.deliveryState && !isStructuredMessageType(m.messageType))
+      .map(m => m.id);
+    if (incomingIds.length === 0) return;
+
+    const languages = await detectLanguages(incomingIds);
+    if (languages.size > 0) {
+      setMessages(prev => prev.map(m => {
+        const langResult = languages.get(m.id);
+        return langResult
+          ? { ...m, detectedLanguage: { code: langResult.languageCode, name: langResult.languageName } }
+          : m;
+      }));
+    }
+
+    if (isAutoTranslateEnabled) {
+      try {
+        const { translations } = await translateMessages(incomingIds, getEffectivePreferences().preferred_language);
+        const translated = new Map(translations.map(t => [t.messageId, t.translatedText]));
+        setMessages(prev => prev.map(m =>
+          translated.has(m.id) ? { ...m, translatedText: translated.get(m.id) } : m
+        ));
+      } catch (error) {
+        console.error('Error auto-translating messages:', error);
+      }
+    }
+  };
+
+  const showLoadError = (error: unknown) => {
+    console.error('Error fetching messages:', error);
+    toast({
+      title: "Error",
+      description: "Failed to load messages",
+      variant: "destructive",
+    });
+  };
+
+  // Load the latest page of the conversation
   const fetchMessages = async () => {
     if (!conversationId || !currentUserId) return;
 
-    const { data, error } = await supabase
+    try {
+      const page = await fetchMessagePage(conversationId);
+      const pageMessages = await mapMessageRows(page.rows);
+
+      stickToBottomRef.current = true;
+      setMessages(await appendQueuedMessages(pageMessages));
+      setHasOlder(page.hasMore);
+      setHasNewer(false);
+      setShowingCachedHistory(false);
+      writeCache(historyCacheKey(currentUserId, conversationId), pageMessages);
+
+      await processIncomingMessages(pageMessages);
+    } catch (error) {
+      // Offline: fall back to the last page we saw, read-only apart from the outbox
+      const cachedMessages = await readCache<Message[]>(historyCacheKey(currentUserId, conversationId));
+      if (cachedMessages) {
+        stickToBottomRef.current = true;
+        setMessages(await appendQueuedMessages(cachedMessages));
+        setHasOlder(false);
+        setHasNewer(false);
+        setShowingCachedHistory(true);
+        return;
+      }
+
+      showLoadError(error);
+    }
+  };
+
+  // Messages still in the outbox aren't on the server yet, so they go after the loaded ones
+  const appendQueuedMessages = async (loaded: Message[], threadRootId?: string) => {
+    if (!conversationId) return loaded;
+
+    try {
+      const loadedIds = new Set(loaded.map(m => m.id));
+      const queued = (await getOutboxEntries(conversationId))
+        .filter(entry => entry.senderId === currentUserId && (entry.threadRootId || undefined) === threadRootId && !loadedIds.has(entry.id));
+      return [...loaded, ...queued.map(entry => outboxEntryToMessage(entry))];
+    } catch (error) {
+      console.error('Error reading outbox:', error);
+      return loaded;
+    }
+  };
+
+  const loadOlderMessages = async () => {
+    if (!conversationId || pageRequestRef.current || messages.length === 0) return;
+
+    pageRequestRef.current = true;
+    setLoadingOlder(true);
+    try {
+      const oldest = messages[0];
+      const page = await fetchMessagePage(conversationId, {
+        before: { createdAt: oldest.createdAt, id: oldest.id },
+      });
+      const olderMessages = await mapMessageRows(page.rows);
+
+      // Keep the previously oldest message where it was on screen
+      pendingScrollRef.current = { index: olderMessages.length, align: 'start' };
+      setMessages(prev => [...olderMessages, ...prev]);
+      setHasOlder(page.hasMore);
+
+      await processIncomingMessages(olderMessages);
+    } catch (error) {
+      showLoadError(error);
+    } finally {
+      pageRequestRef.current = false;
+      setLoadingOlder(false);
+    }
+  };
+
+  const loadNewerMessages = async () => {
+    if (!conversationId || pageRequestRef.current || messages.length === 0) return;
+
+    pageRequestRef.current = true;
+    setLoadingNewer(true);
+    try {
+      const newest = messages[messages.length - 1];
+      const page = await fetchMessagePage(conversationId, {
+        after: { createdAt: newest.createdAt, id: newest.id },
+      });
+      const newerMessages = await mapMessageRows(page.rows);
+
+      setMessages(prev => [
+        ...prev,
+        ...newerMessages.filter(m => !prev.some(p => p.id === m.id)),
+      ]);
+      setHasNewer(page.hasMore);
+
+      await processIncomingMessages(newerMessages);
+    } catch (error) {
+      showLoadError(error);
+    } finally {
+      pageRequestRef.current = false;
+      setLoadingNewer(false);
+    }
+  };
+
+  const flashMessage = (messageId: string) => {
+    if (highlightTimeoutRef.current) {
+      clearTimeout(highlightTimeoutRef.current);
+    }
+    setHighlightedMessageId(messageId);
+    highlightTimeoutRef.current = setTimeout(() => setHighlightedMessageId(null), 2000);
+  };
+
+  // Scroll to a message, loading the history around it if it isn't in the window yet
+  const jumpToMessage = async (messageId: string) => {
+    if (!conversationId || !currentUserId) return;
+
+    const existingIndex = messages.findIndex(m => m.id === messageId);
+    if (existingIndex !== -1) {
+      stickToBottomRef.current = false;
+      virtualizer.scrollToIndex(existingIndex, { align: 'center' });
+      flashMessage(messageId);
+      return;
+    }
+
+    try {
+      const context = await fetchMessageContext(conversationId, messageId);
+      if (!context) {
+        toast({
+          title: "Message not found",
+          description: "It may have been deleted.",
+        });
+        if (messages.length === 0) {
+          await fetchMessages();
+        }
+        return;
+      }
+
+      const contextMessages = await mapMessageRows(context.rows);
+      const anchorId = context.threadRootId || messageId;
+
+      stickToBottomRef.current = false;
+      pendingScrollRef.current = {
+        index: contextMessages.findIndex(m => m.id === anchorId),
+        align: 'center',
+      };
+      setMessages(contextMessages);
+      setHasOlder(context.hasOlder);
+      setHasNewer(context.hasNewer);
+      flashMessage(anchorId);
+
+      const threadRoot = context.threadRootId && contextMessages.find(m => m.id === context.threadRootId);
+      if (threadRoot) {
+        openThread(threadRoot);
+      }
+
+      await processIncomingMessages(contextMessages);
+    } catch (error) {
+      showLoadError(error);
+    }
+  };
+
+  const markThreadRead = async (rootId: string) => {
+    if (!currentUserId) return;
+
+    try {
+      await supabase.rpc('mark_thread_read', {
+        root_id: rootId,
+        user_uuid: currentUserId,
+      });
+    } catch (error) {
+      console.error('Error marking thread as read:', error);
+    }
+  };
+
+  const openThread = async (root: Message) => {
+    if (!conversationId) return;
+
+    setActiveThreadRoot(root);
+    setThreadMessages([]);
+    setLoadingThread(true);
+    try {
+      const rows = await fetchThreadReplies(conversationId, root.id);
+      setThreadMessages(await appendQueuedMessages(await mapMessageRows(rows), root.id));
+
+      await markThreadRead(root.id);
+      setThreadSummaries(prev => {
+        const current = prev.get(root.id);
+        if (!current) return prev;
+        return new Map(prev).set(root.id, { ...current, unreadCount: 0 });
+      });
+    } catch (error) {
+      console.error('Error fetching thread:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load thread",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingThread(false);
+    }
+  };
+
+  const closeThread = () => {
+    setActiveThreadRoot(null);
+    setThreadMessages([]);
+    setThreadInputText("");
+  };
+
+  // Mirror outbox state changes of this conversation's queued messages
+  const handleOutboxEvent = (event: OutboxEvent) => {
+    const { entry } = event;
+    const inThread = !!entry.threadRootId;
+
+    // Thread replies only matter while their thread is open
+    if (inThread && entry.threadRootId !== activeThreadRootIdRef.current) return;
+    const setList = inThread ? setThreadMessages : setMessages;
+
+    switch (event.type) {
+      case 'queued': {
+        if (!inThread) {
+          // An older window of history is showing; the message appears with the latest page
+          if (hasNewerRef.current) return;
+          stickToBottomRef.current = true;
+        }
+        const quoted = messagesRef.current.find(m => m.id === entry.replyToId);
+        setList(prev => prev.some(m => m.id === entry.id)
+          ? prev.map(m => m.id === entry.id ? { ...m, deliveryState: 'pending' as const, deliveryError: undefined } : m)
+          : [...prev, outboxEntryToMessage(entry, quoted)]);
+        break;
+      }
+      case 'sent':
+        setList(prev => prev.map(m => m.id === entry.id ? {
+          ...m,
+          deliveryState: undefined,
+          deliveryError: undefined,
+          ...(event.row && { createdAt: event.row.created_at, timestamp: new Date(event.row.created_at) }),
+        } : m));
+        break;
+      case 'failed':
+        setList(prev => prev.map(m => m.id === entry.id
+          ? { ...m, deliveryState: 'failed' as const, deliveryError: entry.lastError }
+          : m
+        ));
+        break;
+      case 'removed':
+        setList(prev => prev.filter(m => m.id !== entry.id));
+        break;
+    }
+  };
+
+  // Apply an edit made by the sender elsewhere; read_at updates leave the text unchanged
+  const handleIncomingMessageUpdate = async (row: MessageRow) => {
+    const text = row.content || row.transcription || '';
+    const known = [...messagesRef.current, ...threadMessagesRef.current].find(m => m.id === row.id);
+    if (!known || known.text === text) return;
+
+    const applyUpdate = (m: Message) => m.id === row.id
+      ? { ...m, text, isEdited: !!row.updated_at, translatedText: undefined, detectedLanguage: undefined }
+      : m;
+    setMessages(prev => prev.map(applyUpdate));
+    setThreadMessages(prev => prev.map(applyUpdate));
+    setActiveThreadRoot(prev => prev && applyUpdate(prev));
+
+    // Re-run language detection and auto-translation on the new text
+    if (messagesRef.current.some(m => m.id === row.id)) {
+      await processIncomingMessages([applyUpdate(known)]);
+    }
+  };
+
+  const handleIncomingMessageDelete = (messageId: string) => {
+    const rootId = activeThreadRootIdRef.current;
+    if (rootId && threadMessagesRef.current.some(m => m.id === messageId)) {
+      setThreadSummaries(prev => {
+        const current = prev.get(rootId);
+        return current
+          ? new Map(prev).set(rootId, { ...current, replyCount: Math.max(current.replyCount - 1, 0) })
+          : prev;
+      });
+    }
+
+    setMessages(prev => prev.some(m => m.id === messageId) ? prev.filter(m => m.id !== messageId) : prev);
+    setThreadMessages(prev => prev.some(m => m.id === messageId) ? prev.filter(m => m.id !== messageId) : prev);
+    if (rootId === messageId) {
+      closeThread();
+    }
+  };
+
+  // Held messages stay with their sender and the group's admins; everyone else loses them until released
+  const handleMessageHeld = (messageId: string) => {
+    setHeldMessageIds(prev => new Set(prev).add(messageId));
+
+    const message = messagesRef.current.find(m => m.id === messageId)
+      ?? threadMessagesRef.current.find(m => m.id === messageId);
+    if (message && message.senderId !== currentUserId && !isAdminRef.current) {
+      setMessages(prev => prev.filter(m => m.id !== messageId));
+      setThreadMessages(prev => prev.filter(m => m.id !== messageId));
+    }
+  };
+
+  const handleMessageReleased = async (messageId: string) => {
+    if (!heldMessageIdsRef.current.has(messageId)) return;
+
+    setHeldMessageIds(prev => {
+      const next = new Set(prev);
+      next.delete(messageId);
+      return next;
+    });
+
+    if (messagesRef.current.some(m => m.id === messageId)) return;
+
+    // Thread replies show up again the next time their thread is opened
+    const { data: row } = await supabase
       .from('messages')
       .select('*')
+      .eq('id', messageId)
       .eq('conversation_id', conversationId)
-      .order('created_at', { ascending: true });
+      .maybeSingle();
+    if (!row || row.thread_root_id) return;
+
+    const [restored] = await mapMessageRows([row]);
+    setMessages(prev => {
+      if (prev.some(m => m.id === messageId)) return prev;
+      // Only put it back if it falls inside the loaded window
+      if (prev.length > 0 && restored.createdAt < prev[0].createdAt) return prev;
+      if (hasNewerRef.current && prev.length > 0 && restored.createdAt > prev[prev.length - 1].createdAt) return prev;
+      return [...prev, restored].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    });
+  };
 
-    if (error) {
-      console.error('Error fetching messages:', error);
+  const handleModerationFlag = (flag: ModerationFlag) => {
+    const categories = flag.categories.map(categoryLabel).join(', ');
+
+    if (flag.sender_id === currentUserId && flag.actions.includes('warned')) {
       toast({
-        title: "Error",
-        description: "Failed to load messages",
+        title: "Message flagged",
+        description: flag.actions.includes('muted')
+          ? `Your message was flagged for ${categories}, and you've been muted here for a while.`
+          : `Your message was flagged for ${categories}. The group's admins will review it.`,
         variant: "destructive",
+        action: flag.message_id ? (
+          <ToastAction altText="Appeal" onClick={() => setAppealMessageId(flag.message_id)}>
+            Appeal
+          </ToastAction>
+        ) : undefined,
       });
-    } else if (data) {
-      // Get unique sender IDs
-      const uniqueSenderIds = [...new Set(data.map(msg => msg.sender_id))];
-      
-      // Batch fetch all profiles at once
-      const { data: profiles } = await supabase
-        .from('profiles')
-        .select('user_id, display_name')
-        .in('user_id', uniqueSenderIds);
-      
-      // Create profiles cache
-      const newCache = new Map(profiles?.map(p => [p.user_id, p.display_name]) || []);
-      setProfilesCache(newCache);
-
-      // Map messages with cached profiles
-      const messagesWithProfiles: Message[] = data.map((msg) => {
-        const senderName = newCache.get(msg.sender_id) || 'Unknown';
-        const isFromOther = msg.sender_id !== currentUserId;
-
-        return {
-          id: msg.id,
-          text: msg.content || msg.transcription || '',
-          sender: isFromOther ? 'contact' : 'user',
-          senderId: msg.sender_id,
-          senderName,
-          timestamp: new Date(msg.created_at),
-          aiGenerated: msg.ai_generated,
-          messageType: (msg.message_type || 'text') as 'text' | 'audio' | 'image',
-          audioData: msg.audio_data || undefined,
-          transcription: msg.transcription || undefined,
-          isEdited: !!(msg as any).updated_at,
-        };
+    } else if (flag.sender_id !== currentUserId && isAdminRef.current) {
+      toast({
+        title: "Message flagged for review",
+        description: `${categories}. Open the moderation queue to review it.`,
       });
-      
-      setMessages(messagesWithProfiles);
+    }
+  };
 
-      // Detect language and auto-translate incoming messages
-      const incomingMessages = messagesWithProfiles.filter(m => m.sender === 'contact' && m.text);
-      
-      // Process messages in batches to avoid overwhelming the API
-      for (const msg of incomingMessages.slice(-10)) {
-        // Detect language for incoming messages
-        const langResult = await detectLanguage(msg.text, msg.id);
-        if (langResult) {
-          setMessages(prev => prev.map(m => 
-            m.id === msg.id 
-              ? { ...m, detectedLanguage: { code: langResult.languageCode, name: langResult.languageName } }
-              : m
-          ));
-        }
+  const handleIncomingThreadReply = async (row: MessageRow) => {
+    const rootId = row.thread_root_id!;
+    const isOpen = activeThreadRootIdRef.current === rootId;
+    const isFromOther = row.sender_id !== currentUserId;
 
-        // Auto-translate if enabled
-        if (isAutoTranslateEnabled) {
-          const translatedText = await autoTranslateIncoming(msg.text, msg.id);
-          if (translatedText) {
-            setMessages(prev => prev.map(m => 
-              m.id === msg.id ? { ...m, translatedText } : m
-            ));
-          }
+    setThreadSummaries(prev => {
+      const current = prev.get(rootId) || { replyCount: 0, unreadCount: 0 };
+      return new Map(prev).set(rootId, {
+        replyCount: current.replyCount + 1,
+        unreadCount: current.unreadCount + (isFromOther && !isOpen ? 1 : 0),
+      });
+    });
+
+    if (isOpen) {
+      const [reply] = await mapMessageRows([row]);
+      setThreadMessages(prev => {
+        const existing = prev.find(m => m.id === reply.id);
+        if (existing) {
+          return existing.deliveryState ? prev.map(m => m.id === reply.id ? reply : m) : prev;
         }
+        return [...prev, reply];
+      });
+      if (isFromOther) {
+        markThreadRead(rootId);
       }
     }
   };
@@ -392,54 +1185,50 @@ const ChatInterface = ({
           filter: `conversation_id=eq.${conversationId}`,
         },
         async (payload) => {
-          const newMsg = payload.new;
-          
-          // Use cached profile or fetch if not in cache
-          let senderName = profilesCache.get(newMsg.sender_id);
-          
-          if (!senderName && isGroup && newMsg.sender_id !== currentUserId) {
-            const { data: profile } = await supabase
-              .from('profiles')
-              .select('display_name')
-              .eq('user_id', newMsg.sender_id)
-              .single();
-            
-            senderName = profile?.display_name || 'Unknown';
-            
-            // Update cache
-            setProfilesCache(prev => new Map(prev).set(newMsg.sender_id, senderName!));
+          const newMsg = payload.new as MessageRow;
+
+          // Side-thread replies update their thread, not the main timeline
+          if (newMsg.thread_root_id) {
+            handleIncomingThreadReply(newMsg);
+            return;
           }
 
-          const messageText = newMsg.content || newMsg.transcription || '';
-          const isFromOther = newMsg.sender_id !== currentUserId;
+          // History is showing an older window; the message arrives when paging forward
+          if (hasNewerRef.current) return;
+
+          if (newMsg.sender_id === currentUserId) {
+            stickToBottomRef.current = true;
+          }
+
+          // Resolves the sender name and quoted message preview
+          const [incoming] = await mapMessageRows([newMsg]);
+          // Polls, checklists and cards aren't shown as text, so there's nothing to translate
+          const messageText = isStructuredMessageType(incoming.messageType) ? '' : incoming.text;
+          const isFromOther = incoming.sender !== 'user';
 
           // Add message first, then translate if needed
           setMessages((prev) => {
-            // Avoid duplicate messages
-            if (prev.some(m => m.id === newMsg.id)) {
-              return prev;
+            // Avoid duplicate messages, but replace our own optimistic copy
+            const existing = prev.find(m => m.id === newMsg.id);
+            if (existing) {
+              return existing.deliveryState ? prev.map(m => m.id === newMsg.id ? incoming : m) : prev;
             }
             
             return [
               ...prev,
               {
-                id: newMsg.id,
-                text: messageText,
-                sender: isFromOther ? 'contact' : 'user',
-                senderId: newMsg.sender_id,
-                senderName: senderName || 'Unknown',
-                timestamp: new Date(newMsg.created_at),
-                aiGenerated: newMsg.ai_generated,
-                messageType: (newMsg.message_type || 'text') as 'text' | 'audio' | 'image',
-                audioData: newMsg.audio_data || undefined,
-                transcription: newMsg.transcription || undefined,
-                isEdited: !!newMsg.updated_at,
-                isTranslating: isFromOther && isAutoTranslateEnabled,
-                isDetecting: isFromOther,
+                ...incoming,
+                isTranslating: isFromOther && isAutoTranslateEnabled && !!messageText,
+                isDetecting: isFromOther && !!messageText,
               },
             ];
           });
 
+          // The chat is open, so incoming messages count as read right away
+          if (isFromOther && document.visibilityState === 'visible') {
+            markMessagesAsRead();
+          }
+
           // Detect language for incoming messages
           if (isFromOther && messageText) {
             const langResult = await detectLanguage(messageText, newMsg.id);
@@ -476,89 +1265,486 @@ const ChatInterface = ({
           }
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          handleIncomingMessageUpdate(payload.new as MessageRow);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          // Delete events can't be filtered and only carry the primary key
+          event: 'DELETE',
+          schema: 'public',
+          table: 'messages',
+        },
+        (payload) => {
+          handleIncomingMessageDelete((payload.old as { id: string }).id);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'conversation_participants',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          const participant = payload.new as { user_id: string; last_delivered_at: string | null; last_read_at: string | null };
+          setParticipantReceipts(prev => prev.map(r =>
+            r.userId === participant.user_id
+              ? { ...r, lastDeliveredAt: participant.last_delivered_at, lastReadAt: participant.last_read_at }
+              : r
+          ));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'message_attachments',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          // Attachment rows are inserted right after their message
+          const attachment = payload.new as MessageAttachmentRow;
+          setMessages(prev => mergeAttachment(prev, attachment));
+          setThreadMessages(prev => mergeAttachment(prev, attachment));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'moderation_holds',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          handleMessageHeld((payload.new as { message_id: string }).message_id);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'moderation_holds',
+        },
+        (payload) => {
+          handleMessageReleased((payload.old as { message_id: string }).message_id);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'moderation_flags',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          handleModerationFlag(payload.new as ModerationFlag);
+        }
+      )
       .subscribe();
 
-    return () => {
-      supabase.removeChannel(channel);
-    };
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  };
+
+  // Realtime handlers are bound once per conversation, so they read the lists through refs
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  useEffect(() => {
+    threadMessagesRef.current = threadMessages;
+  }, [threadMessages]);
+
+  useEffect(() => {
+    heldMessageIdsRef.current = heldMessageIds;
+  }, [heldMessageIds]);
+
+  // Apply a pending scroll anchor, otherwise follow new messages while at the bottom
+  useEffect(() => {
+    if (messages.length === 0) return;
+
+    const pendingScroll = pendingScrollRef.current;
+    if (pendingScroll) {
+      pendingScrollRef.current = null;
+      if (pendingScroll.index >= 0) {
+        virtualizer.scrollToIndex(pendingScroll.index, { align: pendingScroll.align });
+      }
+    } else if (stickToBottomRef.current) {
+      virtualizer.scrollToIndex(messages.length - 1, { align: 'end' });
+    }
+  }, [messages, virtualizer]);
+
+  const handleMessagesScroll = () => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    const distanceFromBottom = container.scrollHeight - container.scrollTop - container.clientHeight;
+    stickToBottomRef.current = !hasNewer && distanceFromBottom < SCROLL_EDGE_THRESHOLD;
+
+    if (container.scrollTop < SCROLL_EDGE_THRESHOLD && hasOlder) {
+      loadOlderMessages();
+    } else if (distanceFromBottom < SCROLL_EDGE_THRESHOLD && hasNewer) {
+      loadNewerMessages();
+    }
+  };
+
+  // Debounced language detection for outgoing messages
+  useEffect(() => {
+    if (detectTimeoutRef.current) {
+      clearTimeout(detectTimeoutRef.current);
+    }
+
+    const text = inputText.trim();
+    if (text.length < 5) {
+      setOutgoingLanguage(null);
+      setDetectingOutgoing(false);
+      return;
+    }
+
+    setDetectingOutgoing(true);
+    detectTimeoutRef.current = setTimeout(async () => {
+      const result = await detectLanguage(text, 'outgoing-detect');
+      if (result) {
+        setOutgoingLanguage({ code: result.languageCode, name: result.languageName });
+      } else {
+        setOutgoingLanguage(null);
+      }
+      setDetectingOutgoing(false);
+    }, 500);
+
+    return () => {
+      if (detectTimeoutRef.current) {
+        clearTimeout(detectTimeoutRef.current);
+      }
+    };
+  }, [inputText, detectLanguage]);
+
+  /**
+   * Send a text message, optionally quoting another message or inside a side
+   * thread. It goes through the outbox, which shows it right away and
+   * inserts it under its client-generated id once the connection allows.
+   */
+  const sendTextMessage = async (
+    messageContent: string,
+    { replyToId, threadRootId }: { replyToId?: string; threadRootId?: string } = {}
+  ) => {
+    if (!conversationId || !currentUserId) return false;
+
+    // Sending from an older window of history jumps back to the latest messages
+    if (!threadRootId && hasNewerRef.current) {
+      await fetchMessages();
+    }
+
+    try {
+      await enqueueMessage({
+        conversationId,
+        senderId: currentUserId,
+        content: messageContent,
+        replyToId: replyToId ?? null,
+        threadRootId: threadRootId ?? null,
+      });
+      return true;
+    } catch (error) {
+      // IndexedDB can be unavailable (e.g. some private browsing modes)
+      console.error('Error queueing message:', error);
+    }
+
+    const { error } = await supabase.from('messages').insert({
+      conversation_id: conversationId,
+      sender_id: currentUserId,
+      content: messageContent,
+      message_type: 'text',
+      reply_to_id: replyToId ?? null,
+      thread_root_id: threadRootId ?? null,
+    });
+
+    if (error) {
+      console.error('Error sending message:', error);
+      showSendError(error);
+      return false;
+    }
+
+    return true;
+  };
+
+  // Senders see why their message is held and can appeal; admins go to the queue
+  const showModerationFor = (message: Message) => {
+    if (message.senderId === currentUserId) {
+      setAppealMessageId(message.id);
+    } else if (isAdmin) {
+      setShowModerationQueue(true);
+    }
+  };
+
+  // Admins pin messages to the group bot's knowledge base
+  const pinToKnowledge = async (message: Message) => {
+    if (!conversationId || !currentUserId) return;
+
+    const { error } = await supabase
+      .from('knowledge_sources')
+      .insert({
+        conversation_id: conversationId,
+        kind: 'message',
+        message_id: message.id,
+        title: `${message.senderName || 'Message'}: ${message.text}`.slice(0, 200),
+        created_by: currentUserId,
+      });
+
+    if (error) {
+      console.error('Error pinning message to knowledge base:', error);
+      toast({
+        title: "Error",
+        description: error.code === '23505' ? "This message is already pinned" : "Failed to pin the message",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Pinned to knowledge base",
+      description: "The bot can answer from it once indexing finishes",
+    });
   };
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  const showSendError = (error: { message?: string }) => {
+    const errorMessage = isModerationMuteError(error.message)
+      ? "Automatic moderation has muted you in this group for a while. Please try again later."
+      : error.message?.toLowerCase().includes('rate limit') || 
+        error.message?.toLowerCase().includes('check_message_rate_limit')
+      ? "You've reached the message limit (100 messages per hour in this conversation). Please slow down."
+      : "Failed to send message. Please try again.";
+    
+    toast({
+      title: "Error",
+      description: errorMessage,
+      variant: "destructive",
+    });
   };
 
-  useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+  /**
+   * Upload files to Storage first, then insert the message and its
+   * attachment rows. Uploaded objects are removed again if the message
+   * can't be saved, so failed sends don't leave orphaned files behind.
+   */
+  const sendAttachmentMessage = async (
+    files: File[],
+    { content, transcription, replyToId, threadRootId, onProgress }: {
+      content?: string;
+      transcription?: string;
+      replyToId?: string;
+      threadRootId?: string;
+      onProgress?: (index: number, fraction: number) => void;
+    } = {}
+  ) => {
+    if (!conversationId || files.length === 0) return false;
 
-  // Debounced language detection for outgoing messages
-  useEffect(() => {
-    if (detectTimeoutRef.current) {
-      clearTimeout(detectTimeoutRef.current);
+    const { data: userData } = await supabase.auth.getUser();
+    if (!userData.user) return false;
+
+    const userId = userData.user.id;
+    const messageId = crypto.randomUUID();
+    const uploaded: UploadedAttachment[] = [];
+
+    try {
+      for (const [index, file] of files.entries()) {
+        uploaded.push(await uploadAttachment(file, {
+          conversationId,
+          userId,
+          messageId,
+          onProgress: (fraction) => onProgress?.(index, fraction),
+        }));
+      }
+    } catch (error) {
+      console.error('Error uploading attachments:', error);
+      await removeUploadedAttachments(uploaded);
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : "Failed to upload attachment",
+        variant: "destructive",
+      });
+      return false;
     }
 
-    const text = inputText.trim();
-    if (text.length < 5) {
-      setOutgoingLanguage(null);
-      setDetectingOutgoing(false);
-      return;
+    const { error: messageError } = await supabase.from('messages').insert({
+      id: messageId,
+      conversation_id: conversationId,
+      sender_id: userId,
+      content: content || null,
+      message_type: getAttachmentMessageType(files),
+      transcription: transcription ?? null,
+      reply_to_id: replyToId ?? null,
+      thread_root_id: threadRootId ?? null,
+    });
+
+    if (messageError) {
+      console.error('Error sending message:', messageError);
+      await removeUploadedAttachments(uploaded);
+      showSendError(messageError);
+      return false;
     }
 
-    setDetectingOutgoing(true);
-    detectTimeoutRef.current = setTimeout(async () => {
-      const result = await detectLanguage(text, 'outgoing-detect');
-      if (result) {
-        setOutgoingLanguage({ code: result.languageCode, name: result.languageName });
-      } else {
-        setOutgoingLanguage(null);
-      }
-      setDetectingOutgoing(false);
-    }, 500);
+    const { error: attachmentsError } = await supabase.from('message_attachments').insert(
+      uploaded.map(attachment => ({
+        message_id: messageId,
+        conversation_id: conversationId,
+        uploader_id: userId,
+        storage_path: attachment.storagePath,
+        file_name: attachment.fileName,
+        mime_type: attachment.mimeType,
+        size_bytes: attachment.sizeBytes,
+        width: attachment.width ?? null,
+        height: attachment.height ?? null,
+        duration_ms: attachment.durationMs ?? null,
+        thumbnail_path: attachment.thumbnailPath ?? null,
+      }))
+    );
+
+    if (attachmentsError) {
+      console.error('Error saving attachments:', attachmentsError);
+      await supabase.from('messages').delete().eq('id', messageId);
+      await removeUploadedAttachments(uploaded);
+      toast({
+        title: "Error",
+        description: "Failed to send attachments. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
 
-    return () => {
-      if (detectTimeoutRef.current) {
-        clearTimeout(detectTimeoutRef.current);
-      }
-    };
-  }, [inputText, detectLanguage]);
+    return true;
+  };
+
+  const handleFilesSelected = (fileList: FileList | null) => {
+    const files = Array.from(fileList || []);
+    const tooLarge = files.filter(file => file.size > MAX_ATTACHMENT_SIZE);
+
+    if (tooLarge.length > 0) {
+      toast({
+        title: "File too large",
+        description: `${tooLarge.map(file => file.name).join(', ')} exceeds the ${formatFileSize(MAX_ATTACHMENT_SIZE)} limit`,
+        variant: "destructive",
+      });
+    }
+
+    const accepted = files.filter(file => file.size <= MAX_ATTACHMENT_SIZE);
+    setPendingAttachments(prev => [
+      ...prev,
+      ...accepted.map(file => ({ id: crypto.randomUUID(), file, progress: 0 })),
+    ]);
+
+    // Allow picking the same file again after removing it
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const removePendingAttachment = (id: string) => {
+    setPendingAttachments(prev => prev.filter(p => p.id !== id));
+  };
 
   const handleSend = async () => {
+    if (pendingAttachments.length > 0) {
+      await handleSendAttachments();
+      return;
+    }
+
     if (!inputText.trim() || !conversationId) return;
 
     const messageContent = inputText.trim();
+    const quoted = replyingTo;
     setInputText("");
+    setReplyingTo(null);
     setShowAISuggestions(false);
 
-    const { data: userData } = await supabase.auth.getUser();
-    if (!userData.user) return;
+    const sent = await sendTextMessage(messageContent, { replyToId: quoted?.id });
+    if (!sent) {
+      setInputText(messageContent);
+      setReplyingTo(quoted);
+    }
+  };
 
-    const { error } = await supabase.from('messages').insert({
-      conversation_id: conversationId,
-      sender_id: userData.user.id,
-      content: messageContent,
-      message_type: 'text',
-    });
+  // Send the pending files as one message, with the input text as caption
+  const handleSendAttachments = async () => {
+    if (!conversationId || sendingAttachments) return;
 
-    if (error) {
-      console.error('Error sending message:', error);
-      
-      const errorMessage = error.message?.toLowerCase().includes('rate limit') || 
-                          error.message?.toLowerCase().includes('check_message_rate_limit')
-        ? "You've reached the message limit (100 messages per hour in this conversation). Please slow down."
-        : "Failed to send message. Please try again.";
-      
+    // Uploads aren't queued in the outbox, so they need a connection
+    if (!navigator.onLine) {
       toast({
-        title: "Error",
-        description: errorMessage,
+        title: "You're offline",
+        description: "Attachments can be sent once you're back online",
         variant: "destructive",
       });
-      setInputText(messageContent);
+      return;
+    }
+
+    const pending = pendingAttachments;
+    const caption = inputText.trim();
+    setSendingAttachments(true);
+
+    const sent = await sendAttachmentMessage(pending.map(p => p.file), {
+      content: caption,
+      replyToId: replyingTo?.id,
+      onProgress: (index, fraction) => {
+        setPendingAttachments(prev => prev.map(p =>
+          p.id === pending[index].id ? { ...p, progress: Math.round(fraction * 100) } : p
+        ));
+      },
+    });
+
+    setSendingAttachments(false);
+    if (sent) {
+      setPendingAttachments([]);
+      setInputText("");
+      setReplyingTo(null);
+      setShowAISuggestions(false);
+    } else {
+      setPendingAttachments(prev => prev.map(p => ({ ...p, progress: 0 })));
+    }
+  };
+
+  const handleSendThreadReply = async () => {
+    if (!threadInputText.trim() || !activeThreadRoot) return;
+
+    const messageContent = threadInputText.trim();
+    setThreadInputText("");
+
+    const sent = await sendTextMessage(messageContent, { threadRootId: activeThreadRoot.id });
+    if (!sent) {
+      setThreadInputText(messageContent);
     }
   };
 
-  const handleVoiceRecording = async (transcription: string) => {
+  const handleVoiceRecording = async (transcription: string, audio?: Blob) => {
     if (!conversationId || !transcription.trim()) return;
 
+    // Recorded clips are stored as audio attachments, with the transcription as text
+    if (audio) {
+      const extension = audio.type.includes('ogg') ? 'ogg' : audio.type.includes('mp4') ? 'm4a' : 'webm';
+      const file = new File([audio], `voice-note-${Date.now()}.${extension}`, { type: audio.type || 'audio/webm' });
+      await sendAttachmentMessage([file], {
+        content: transcription.trim(),
+        transcription: transcription.trim(),
+      });
+      return;
+    }
+
     try {
       // Send message with transcription
       const { data: userData } = await supabase.auth.getUser();
@@ -823,6 +2009,14 @@ const ChatInterface = ({
     }
   };
 
+  const handleRetryMessage = async (messageId: string) => {
+    await retryOutboxEntry(messageId);
+  };
+
+  const handleDiscardMessage = async (messageId: string) => {
+    await discardOutboxEntry(messageId);
+  };
+
 const handleDeleteMessage = async (messageId: string) => {
     try {
       const { error } = await supabase
@@ -833,6 +2027,10 @@ const handleDeleteMessage = async (messageId: string) => {
       if (error) throw error;
 
       setMessages(prev => prev.filter(m => m.id !== messageId));
+      setThreadMessages(prev => prev.filter(m => m.id !== messageId));
+      if (activeThreadRoot?.id === messageId) {
+        closeThread();
+      }
       
       toast({
         title: "Message deleted",
@@ -857,9 +2055,9 @@ const handleDeleteMessage = async (messageId: string) => {
 
       if (error) throw error;
 
-      setMessages(prev => prev.map(m => 
-        m.id === messageId ? { ...m, text: newContent, isEdited: true } : m
-      ));
+      const applyEdit = (m: Message) => m.id === messageId ? { ...m, text: newContent, isEdited: true } : m;
+      setMessages(prev => prev.map(applyEdit));
+      setThreadMessages(prev => prev.map(applyEdit));
       
       toast({
         title: "Message updated",
@@ -967,16 +2165,26 @@ const handleDeleteMessage = async (messageId: string) => {
                   <Bot className="w-5 h-5" />
                 </Button>
               </SheetTrigger>
-              <SheetContent>
+              <SheetContent className="overflow-y-auto">
                 <SheetHeader>
                   <SheetTitle>GroupBotAI Settings</SheetTitle>
                 </SheetHeader>
-                <div className="mt-6">
+                <div className="mt-6 space-y-4">
                   {conversationId && (
-                    <GroupBotSettings
-                      conversationId={conversationId}
-                      isAdmin={isAdmin}
-                    />
+                    <>
+                      <GroupBotSettings
+                        conversationId={conversationId}
+                        isAdmin={isAdmin}
+                      />
+                      <BotTriggerRules
+                        conversationId={conversationId}
+                        isAdmin={isAdmin}
+                      />
+                      <BotSchedules
+                        conversationId={conversationId}
+                        isAdmin={isAdmin}
+                      />
+                    </>
                   )}
                 </div>
               </SheetContent>
@@ -994,6 +2202,40 @@ const handleDeleteMessage = async (messageId: string) => {
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
+              {conversationId && (
+                <DropdownMenuItem onClick={() => setShowConversationTranslator(true)}>
+                  <Languages className="w-4 h-4 mr-2" />
+                  Translate Conversation
+                </DropdownMenuItem>
+              )}
+              {conversationId && (
+                <DropdownMenuItem onClick={() => setShowConversationExporter(true)}>
+                  <FileDown className="w-4 h-4 mr-2" />
+                  Export Conversation
+                </DropdownMenuItem>
+              )}
+              {conversationId && isGroup && isAdmin && (
+                <DropdownMenuItem onClick={() => setShowModerationQueue(true)}>
+                  <ShieldAlert className="w-4 h-4 mr-2" />
+                  Moderation Queue
+                </DropdownMenuItem>
+              )}
+              {conversationId && isGroup && (
+                <DropdownMenuItem onClick={() => setShowKnowledgeBase(true)}>
+                  <BookOpen className="w-4 h-4 mr-2" />
+                  Knowledge Base
+                </DropdownMenuItem>
+              )}
+              {conversationId && (
+                <DropdownMenuItem onClick={() => setShowScheduledMessages(true)}>
+                  <CalendarClock className="w-4 h-4 mr-2" />
+                  Scheduled Messages
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem onClick={() => setShowGlossary(true)}>
+                <BookA className="w-4 h-4 mr-2" />
+                Translation Glossary
+              </DropdownMenuItem>
               {isGroup ? (
                 <DropdownMenuItem 
                   onClick={() => setShowLeaveDialog(true)}
@@ -1015,8 +2257,21 @@ const handleDeleteMessage = async (messageId: string) => {
           </DropdownMenu>
         </div>
 
+      {(!isOnline || showingCachedHistory) && (
+        <div className="bg-muted text-muted-foreground text-xs px-4 py-2 flex items-center gap-2">
+          <WifiOff className="w-3 h-3 flex-shrink-0" />
+          {!isOnline
+            ? "You're offline. Messages will be sent when you reconnect."
+            : "Showing saved messages from your last visit."}
+        </div>
+      )}
+
       {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+      <div
+        ref={scrollContainerRef}
+        onScroll={handleMessagesScroll}
+        className="flex-1 overflow-y-auto p-4"
+      >
         {loading ? (
           <div className="flex items-center justify-center h-full">
             <div className="text-center space-y-2">
@@ -1029,21 +2284,81 @@ const handleDeleteMessage = async (messageId: string) => {
             <p className="text-muted-foreground">No messages yet. Start the conversation!</p>
           </div>
         ) : (
-          messages.map((message) => (
-            <MessageBubble 
-              key={message.id} 
-              message={message} 
-              contactName={contactName}
-              isGroup={isGroup}
-              onDelete={handleDeleteMessage}
-              onEdit={handleEditMessage}
-              currentUserId={currentUserId}
-            />
-          ))
+          <>
+            {loadingOlder && (
+              <div className="flex justify-center py-2">
+                <div className="w-5 h-5 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+              </div>
+            )}
+            <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+              {virtualizer.getVirtualItems().map((virtualItem) => {
+                const message = messages[virtualItem.index];
+                return (
+                  <div
+                    key={virtualItem.key}
+                    data-index={virtualItem.index}
+                    ref={virtualizer.measureElement}
+                    className="absolute left-0 top-0 w-full pb-4"
+                    style={{ transform: `translateY(${virtualItem.start}px)` }}
+                  >
+                    {message.messageType === 'call' ? (
+                      <CallEventMessage
+                        callType={message.callType || 'audio'}
+                        isOwnCall={message.sender === 'user'}
+                        callerName={isGroup ? message.senderName : undefined}
+                        timestamp={message.timestamp}
+                        onCallBack={activeCall ? undefined : (isVideo) => startCall(isVideo)}
+                      />
+                    ) : (
+                      <MessageBubble 
+                        message={message} 
+                        contactName={contactName}
+                        isGroup={isGroup}
+                        highlighted={message.id === highlightedMessageId}
+                        threadSummary={threadSummaries.get(message.id)}
+                        onDelete={handleDeleteMessage}
+                        onEdit={handleEditMessage}
+                        onReply={setReplyingTo}
+                        onOpenThread={openThread}
+                        onJumpToMessage={jumpToMessage}
+                        onRetry={handleRetryMessage}
+                        onDiscard={handleDiscardMessage}
+                        receipts={message.sender === 'user' ? participantReceipts : undefined}
+                        currentUserId={currentUserId}
+                        conversationId={conversationId || undefined}
+                        isHeld={heldMessageIds.has(message.id)}
+                        onShowModeration={showModerationFor}
+                        onPinToKnowledge={isGroup && isAdmin ? pinToKnowledge : undefined}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            {loadingNewer && (
+              <div className="flex justify-center py-2">
+                <div className="w-5 h-5 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+              </div>
+            )}
+          </>
         )}
-        <div ref={messagesEndRef} />
       </div>
 
+      {/* Back to the present after jumping into older history */}
+      {hasNewer && (
+        <div className="relative">
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={fetchMessages}
+            className="absolute -top-12 left-1/2 -translate-x-1/2 shadow-lg"
+          >
+            <ArrowDown className="w-4 h-4 mr-1" />
+            Jump to latest
+          </Button>
+        </div>
+      )}
+
       {/* Typing Indicator */}
       {conversationId && currentUserId && (
         <TypingIndicator 
@@ -1085,9 +2400,15 @@ const handleDeleteMessage = async (messageId: string) => {
           <GroupBotInteraction
             conversationId={conversationId}
             recentMessages={messages.slice(-20).map(msg => ({
+              id: msg.id,
               sender_name: msg.senderName || contactName,
               content: msg.text,
               created_at: msg.timestamp.toISOString(),
+              reply_to: msg.replyTo && {
+                sender_name: msg.replyTo.senderName,
+                content: msg.replyTo.text,
+              },
+              thread_reply_count: threadSummaries.get(msg.id)?.replyCount || 0,
             }))}
             botSettings={botSettings}
           />
@@ -1096,7 +2417,100 @@ const handleDeleteMessage = async (messageId: string) => {
 
       {/* Input */}
       <div className="bg-card border-t border-border p-4">
+        {replyingTo && (
+          <div className="flex items-center gap-2 mb-2 pl-3 border-l-2 border-primary">
+            <Reply className="w-4 h-4 text-primary flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-xs font-semibold text-primary">
+                Replying to {replyingTo.sender === 'user' ? 'yourself' : replyingTo.senderName || contactName}
+              </p>
+              <p className="text-xs text-muted-foreground truncate">{replyingTo.text}</p>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => setReplyingTo(null)}
+            >
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+        )}
+        {pendingAttachments.length > 0 && (
+          <div className="flex flex-col gap-1.5 mb-2">
+            {pendingAttachments.map((pending) => (
+              <div key={pending.id} className="flex items-center gap-2 rounded-lg bg-muted px-3 py-1.5">
+                <Paperclip className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-xs truncate">{pending.file.name}</p>
+                    <span className="text-xs text-muted-foreground flex-shrink-0">
+                      {sendingAttachments ? `${pending.progress}%` : formatFileSize(pending.file.size)}
+                    </span>
+                  </div>
+                  {sendingAttachments && <Progress value={pending.progress} className="h-1 mt-1" />}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={sendingAttachments}
+                  onClick={() => removePendingAttachment(pending.id)}
+                >
+                  <X className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
         <div className="flex items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => handleFilesSelected(e.target.files)}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="hover:bg-primary/10 text-muted-foreground"
+            disabled={!conversationId || sendingAttachments}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Paperclip className="w-5 h-5" />
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="hover:bg-primary/10 text-muted-foreground"
+                disabled={!conversationId}
+                title="Poll, checklist, location or contact"
+              >
+                <ListPlus className="w-5 h-5" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent side="top" align="start">
+              <DropdownMenuItem onClick={() => setStructuredMessageKind('poll')}>
+                <BarChart3 className="w-4 h-4 mr-2" />
+                Poll
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setStructuredMessageKind('checklist')}>
+                <ListChecks className="w-4 h-4 mr-2" />
+                Checklist
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setStructuredMessageKind('location')}>
+                <MapPin className="w-4 h-4 mr-2" />
+                Location
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setStructuredMessageKind('contact')}>
+                <UserRound className="w-4 h-4 mr-2" />
+                Contact
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
           <Popover open={showEmojiPicker} onOpenChange={setShowEmojiPicker}>
             <PopoverTrigger asChild>
               <Button
@@ -1178,12 +2592,22 @@ const handleDeleteMessage = async (messageId: string) => {
             onRecordingComplete={handleVoiceRecording}
             disabled={!conversationId}
           />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="hover:bg-primary/10 text-muted-foreground"
+            disabled={!conversationId || !inputText.trim() || pendingAttachments.length > 0}
+            onClick={() => setShowScheduleDialog(true)}
+            title="Schedule send"
+          >
+            <CalendarClock className="w-5 h-5" />
+          </Button>
           <Button
             onClick={() => {
               handleSend();
               setOutgoingLanguage(null);
             }}
-            disabled={!inputText.trim()}
+            disabled={sendingAttachments || (!inputText.trim() && pendingAttachments.length === 0)}
             className="bg-primary hover:bg-primary-glow"
             size="icon"
           >
@@ -1212,6 +2636,76 @@ const handleDeleteMessage = async (messageId: string) => {
       </div>
     </div>
 
+    {/* Side thread */}
+    <Sheet open={!!activeThreadRoot} onOpenChange={(open) => !open && closeThread()}>
+      <SheetContent className="flex flex-col w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <MessagesSquare className="w-5 h-5" />
+            Thread
+          </SheetTitle>
+        </SheetHeader>
+        <div className="flex-1 overflow-y-auto space-y-4 py-4">
+          {activeThreadRoot && (
+            <div className="pb-4 border-b border-border">
+              <MessageBubble
+                message={activeThreadRoot}
+                contactName={contactName}
+                isGroup={isGroup}
+                currentUserId={currentUserId}
+                conversationId={conversationId || undefined}
+              />
+            </div>
+          )}
+          {loadingThread ? (
+            <div className="flex justify-center py-4">
+              <div className="w-5 h-5 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : threadMessages.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center">No replies yet. Start the thread!</p>
+          ) : (
+            threadMessages.map((message) => (
+              <MessageBubble
+                key={message.id}
+                message={message}
+                contactName={contactName}
+                isGroup={isGroup}
+                onDelete={handleDeleteMessage}
+                onEdit={handleEditMessage}
+                onRetry={handleRetryMessage}
+                onDiscard={handleDiscardMessage}
+                currentUserId={currentUserId}
+                conversationId={conversationId || undefined}
+                isHeld={heldMessageIds.has(message.id)}
+                onShowModeration={showModerationFor}
+              />
+            ))
+          )}
+        </div>
+        <div className="flex items-center gap-2 pt-4 border-t border-border">
+          <Input
+            value={threadInputText}
+            onChange={(e) => setThreadInputText(e.target.value)}
+            onKeyPress={(e) => {
+              if (e.key === "Enter") {
+                handleSendThreadReply();
+              }
+            }}
+            placeholder="Reply in thread..."
+            className="bg-muted border-border"
+          />
+          <Button
+            onClick={handleSendThreadReply}
+            disabled={!threadInputText.trim()}
+            className="bg-primary hover:bg-primary-glow"
+            size="icon"
+          >
+            <Send className="w-5 h-5" />
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+
     {/* Active Call */}
     {activeCall && currentUserId && (
       <CallInterface
@@ -1246,6 +2740,91 @@ const handleDeleteMessage = async (messageId: string) => {
       />
     )}
 
+    <TranslationGlossary
+      open={showGlossary}
+      onOpenChange={setShowGlossary}
+      conversationId={conversationId || undefined}
+      conversationName={contactName}
+    />
+
+    {conversationId && (
+      <ConversationTranslator
+        open={showConversationTranslator}
+        onOpenChange={setShowConversationTranslator}
+        conversationId={conversationId}
+        conversationName={contactName}
+        onTranslated={(translations) => setMessages(prev => prev.map(m =>
+          translations.has(m.id) ? { ...m, translatedText: translations.get(m.id) } : m
+        ))}
+      />
+    )}
+
+    {conversationId && (
+      <ScheduleMessageDialog
+        open={showScheduleDialog}
+        onOpenChange={setShowScheduleDialog}
+        conversationId={conversationId}
+        initialContent={inputText.trim()}
+        onScheduled={() => {
+          setInputText("");
+          setReplyingTo(null);
+          setTyping(false);
+        }}
+      />
+    )}
+
+    {conversationId && (
+      <ScheduledMessagesSheet
+        open={showScheduledMessages}
+        onOpenChange={setShowScheduledMessages}
+        conversationId={conversationId}
+        conversationName={contactName}
+      />
+    )}
+
+    {conversationId && (
+      <StructuredMessageDialog
+        kind={structuredMessageKind}
+        onOpenChange={(open) => !open && setStructuredMessageKind(null)}
+        conversationId={conversationId}
+        onSendError={showSendError}
+      />
+    )}
+
+    {conversationId && isGroup && isAdmin && (
+      <ModerationQueue
+        open={showModerationQueue}
+        onOpenChange={setShowModerationQueue}
+        conversationId={conversationId}
+        conversationName={contactName}
+        currentUserId={currentUserId}
+      />
+    )}
+
+    {conversationId && isGroup && (
+      <KnowledgeBaseSheet
+        open={showKnowledgeBase}
+        onOpenChange={setShowKnowledgeBase}
+        conversationId={conversationId}
+        isAdmin={isAdmin}
+        onJumpToMessage={jumpToMessage}
+      />
+    )}
+
+    <ModerationAppealDialog
+      messageId={appealMessageId}
+      onOpenChange={(open) => !open && setAppealMessageId(null)}
+    />
+
+    {conversationId && (
+      <ConversationExporter
+        open={showConversationExporter}
+        onOpenChange={setShowConversationExporter}
+        conversationId={conversationId}
+        conversationName={contactName}
+      />
+    )}
+
     <AlertDialog open={showLeaveDialog} onOpenChange={setShowLeaveDialog}>
       <AlertDialogContent>
         <AlertDialogHeader>
@@ -1293,16 +2872,40 @@ const MessageBubble = ({
   message, 
   contactName, 
   isGroup,
+  highlighted,
+  threadSummary,
   onDelete,
   onEdit,
-  currentUserId
+  onReply,
+  onOpenThread,
+  onJumpToMessage,
+  onRetry,
+  onDiscard,
+  receipts,
+  currentUserId,
+  conversationId,
+  isHeld,
+  onShowModeration,
+  onPinToKnowledge
 }: { 
   message: Message; 
   contactName: string; 
   isGroup?: boolean;
+  highlighted?: boolean;
+  threadSummary?: ThreadSummary;
   onDelete?: (messageId: string) => void;
   onEdit?: (messageId: string, newContent: string) => void;
+  onReply?: (message: Message) => void;
+  onOpenThread?: (message: Message) => void;
+  onJumpToMessage?: (messageId: string) => void;
+  onRetry?: (messageId: string) => void;
+  onDiscard?: (messageId: string) => void;
+  receipts?: ParticipantReceipt[];
   currentUserId: string | null;
+  conversationId?: string;
+  isHeld?: boolean;
+  onShowModeration?: (message: Message) => void;
+  onPinToKnowledge?: (message: Message) => void;
 }) => {
   const isUser = message.sender === "user";
   const isAI = message.sender === "ai";
@@ -1310,6 +2913,7 @@ const MessageBubble = ({
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [editText, setEditText] = useState(message.text);
+  const [showEditHistory, setShowEditHistory] = useState(false);
 
   const handleDelete = () => {
     if (onDelete) {
@@ -1330,20 +2934,64 @@ const MessageBubble = ({
     setIsEditing(false);
   };
 
-  const canEdit = isUser && !isAudio && message.messageType === 'text';
+  // Queued messages aren't on the server yet, so only retry/discard apply to them
+  const isQueued = !!message.deliveryState;
+  const canEdit = isUser && !isAudio && message.messageType === 'text' && !isQueued;
+  // Threads are one level deep, so thread replies can't start threads of their own
+  const canOpenThread = !!onOpenThread && !message.threadRootId && !isQueued;
+  const citations = isAI ? parseCitations(message.metadata) : [];
+
+  const replyActions = !isQueued && (onReply || canOpenThread) && (
+    <div className="flex flex-col gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity self-center">
+      {onReply && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={() => onReply(message)}
+        >
+          <Reply className="w-3 h-3 text-muted-foreground" />
+        </Button>
+      )}
+      {canOpenThread && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={() => onOpenThread(message)}
+        >
+          <MessagesSquare className="w-3 h-3 text-muted-foreground" />
+        </Button>
+      )}
+      {onPinToKnowledge && message.text && !isStructuredMessageType(message.messageType) && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          title="Pin to knowledge base"
+          onClick={() => onPinToKnowledge(message)}
+        >
+          <Pin className="w-3 h-3 text-muted-foreground" />
+        </Button>
+      )}
+    </div>
+  );
 
   return (
     <>
       <div
         className={cn(
-          "flex gap-2 animate-slide-up group",
-          isUser ? "justify-end" : "justify-start"
+          "flex gap-2 animate-slide-up group rounded-2xl transition-colors duration-500",
+          isUser ? "justify-end" : "justify-start",
+          highlighted && "bg-primary/10"
         )}
       >
         {!isUser && (
-          <div className="w-8 h-8 rounded-full bg-gradient-to-br from-secondary to-primary flex items-center justify-center flex-shrink-0">
-            {isAI ? (
-              <Sparkles className="w-4 h-4" />
+          <div className="w-8 h-8 rounded-full bg-gradient-to-br from-secondary to-primary flex items-center justify-center flex-shrink-0 overflow-hidden">
+            {isAI && message.senderAvatarUrl ? (
+              <img src={message.senderAvatarUrl} alt={message.senderName} className="w-full h-full object-cover" />
+            ) : isAI ? (
+              <Bot className="w-4 h-4" />
             ) : isGroup ? (
               <span className="text-xs font-semibold">{message.senderName?.[0]?.toUpperCase()}</span>
             ) : (
@@ -1353,10 +3001,19 @@ const MessageBubble = ({
         )}
         <div className="flex flex-col gap-2 max-w-[70%]">
           {isGroup && !isUser && (
-            <p className="text-xs text-muted-foreground px-1">{message.senderName}</p>
+            <p className="text-xs text-muted-foreground px-1 flex items-center gap-1">
+              {message.senderName}
+              {isAI && (
+                <span className="inline-flex items-center gap-0.5 rounded px-1 bg-primary/15 text-primary text-[10px] font-medium">
+                  <Sparkles className="w-2.5 h-2.5" />
+                  Bot
+                </span>
+              )}
+            </p>
           )}
           <div className="flex items-start gap-1">
-            {isUser && !isEditing && (
+            {isUser && !isEditing && replyActions}
+            {isUser && !isEditing && !isQueued && (
               <div className="flex flex-col gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity self-center">
                 {canEdit && onEdit && (
                   <Button
@@ -1390,13 +3047,40 @@ const MessageBubble = ({
                   : "bg-card border border-border"
               )}
             >
+              {message.replyTo && (
+                <button
+                  type="button"
+                  onClick={() => onJumpToMessage?.(message.replyTo!.id)}
+                  className="block w-full text-left mb-1 pl-2 py-0.5 border-l-2 border-current/40 opacity-80 hover:opacity-100 transition-opacity"
+                >
+                  <p className="text-xs font-semibold">{message.replyTo.senderName || 'Unknown'}</p>
+                  <p className="text-xs truncate max-w-[240px]">{message.replyTo.text || 'Original message'}</p>
+                </button>
+              )}
               {isAudio && (
                 <div className="flex items-center gap-2 mb-1">
                   <Mic className="w-3 h-3 opacity-70" />
                   <span className="text-xs opacity-70">Voice message</span>
                 </div>
               )}
-              {isEditing ? (
+              {message.attachments && message.attachments.length > 0 && (
+                <MessageAttachments attachments={message.attachments} className="my-1" />
+              )}
+              {message.messageType === 'poll' ? (
+                <PollMessage messageId={message.id} currentUserId={currentUserId} />
+              ) : message.messageType === 'checklist' && conversationId ? (
+                <ChecklistMessage
+                  messageId={message.id}
+                  conversationId={conversationId}
+                  title={checklistTitle(message.metadata)}
+                  currentUserId={currentUserId}
+                  isOwn={isUser}
+                />
+              ) : message.messageType === 'location' ? (
+                <LocationMessage metadata={message.metadata} fallback={message.text} />
+              ) : message.messageType === 'contact' ? (
+                <ContactCardMessage metadata={message.metadata} fallback={message.text} />
+              ) : isEditing ? (
                 <div className="flex flex-col gap-2">
                   <Input
                     value={editText}
@@ -1447,7 +3131,10 @@ const MessageBubble = ({
                       </p>
                     </>
                   ) : (
-                    <p className="text-sm">{message.text}</p>
+                    message.text && <p className="text-sm">{message.text}</p>
+                  )}
+                  {isAI && citations.length > 0 && (
+                    <KnowledgeCitations citations={citations} onJumpToMessage={onJumpToMessage} />
                   )}
                 </div>
               )}
@@ -1457,7 +3144,15 @@ const MessageBubble = ({
                     hour: "2-digit",
                     minute: "2-digit",
                   })}
-                  {message.isEdited && <span className="italic">(edited)</span>}
+                  {message.isEdited && (
+                    <button
+                      type="button"
+                      className="italic hover:underline"
+                      onClick={() => setShowEditHistory(true)}
+                    >
+                      (edited)
+                    </button>
+                  )}
                 </p>
                 {!isUser && message.detectedLanguage && !message.translatedText && (
                   <span className="text-xs bg-muted/50 text-muted-foreground px-1.5 py-0.5 rounded-full flex items-center gap-1">
@@ -1471,14 +3166,92 @@ const MessageBubble = ({
                     Detecting...
                   </span>
                 )}
+                {isUser && message.deliveryState === 'pending' && (
+                  <span title="Waiting to send" className="flex items-center">
+                    <Clock className="w-3 h-3 opacity-70" />
+                  </span>
+                )}
+                {isHeld && (
+                  <button
+                    type="button"
+                    onClick={() => onShowModeration?.(message)}
+                    className="text-xs opacity-70 flex items-center gap-1 hover:underline"
+                  >
+                    <ShieldAlert className="w-3 h-3" />
+                    Hidden pending review
+                  </button>
+                )}
+                {isUser && !isQueued && receipts && (
+                  <ReadReceipt createdAt={message.createdAt} receipts={receipts} isGroup={isGroup} />
+                )}
               </div>
             </div>
+            {!isUser && replyActions}
           </div>
-          <MessageReactions messageId={message.id} currentUserId={currentUserId} />
-          <MessageTranslator messageId={message.id} messageText={message.text} />
+          {threadSummary && threadSummary.replyCount > 0 && (
+            <button
+              type="button"
+              onClick={() => onOpenThread?.(message)}
+              className={cn(
+                "text-xs text-primary font-medium flex items-center gap-1 px-1 hover:underline",
+                isUser && "self-end"
+              )}
+            >
+              <MessagesSquare className="w-3 h-3" />
+              {threadSummary.replyCount} {threadSummary.replyCount === 1 ? 'reply' : 'replies'}
+              {threadSummary.unreadCount > 0 && (
+                <span className="bg-primary text-primary-foreground rounded-full px-1.5 ml-1">
+                  {threadSummary.unreadCount} new
+                </span>
+              )}
+            </button>
+          )}
+          {message.deliveryState === 'failed' && (
+            <div className="flex items-center gap-2 self-end text-xs text-destructive px-1">
+              <AlertCircle className="w-3 h-3" />
+              <span title={message.deliveryError}>Not sent</span>
+              {onRetry && (
+                <button
+                  type="button"
+                  className="flex items-center gap-1 font-medium hover:underline"
+                  onClick={() => onRetry(message.id)}
+                >
+                  <RotateCw className="w-3 h-3" />
+                  Retry
+                </button>
+              )}
+              {onDiscard && (
+                <button
+                  type="button"
+                  className="font-medium hover:underline"
+                  onClick={() => onDiscard(message.id)}
+                >
+                  Discard
+                </button>
+              )}
+            </div>
+          )}
+          {!isQueued && (
+            <>
+              <MessageReactions messageId={message.id} currentUserId={currentUserId} />
+              {!isStructuredMessageType(message.messageType) && (
+                <MessageTranslator messageId={message.id} messageText={message.text} conversationId={conversationId} />
+              )}
+            </>
+          )}
         </div>
       </div>
 
+      {message.isEdited && showEditHistory && (
+        <MessageEditHistory
+          messageId={message.id}
+          currentText={message.text}
+          sentAt={message.timestamp}
+          open={showEditHistory}
+          onOpenChange={setShowEditHistory}
+        />
+      )}
+
       <AlertDialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -0,0 +1,190 @@
+import { useCallback, useEffect, useState } from "react";
+import { ListChecks, Plus, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+
+interface ChecklistItem {
+  id: string;
+  label: string;
+  position: number;
+  created_by: string;
+  checked_by: string | null;
+  checked_at: string | null;
+}
+
+interface ChecklistMessageProps {
+  messageId: string;
+  conversationId: string;
+  title: string;
+  currentUserId: string | null;
+  // The checklist's author can remove any item
+  isOwn: boolean;
+}
+
+/**
+ * A shared checklist inside a message bubble. Anyone in the chat can tick
+ * and add items; changes from others arrive over realtime.
+ */
+export const ChecklistMessage = ({ messageId, conversationId, title, currentUserId, isOwn }: ChecklistMessageProps) => {
+  const [items, setItems] = useState<ChecklistItem[]>([]);
+  const [names, setNames] = useState<Map<string, string>>(new Map());
+  const [newItem, setNewItem] = useState('');
+  const { toast } = useToast();
+
+  const loadItems = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('checklist_items')
+      .select('id, label, position, created_by, checked_by, checked_at')
+      .eq('message_id', messageId)
+      .order('position');
+
+    if (error) {
+      console.error('Error fetching checklist items:', error);
+      return;
+    }
+
+    setItems(data || []);
+
+    const checkerIds = [...new Set((data || []).map(item => item.checked_by).filter((id): id is string => !!id))];
+    if (checkerIds.length > 0) {
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('user_id, display_name')
+        .in('user_id', checkerIds);
+      setNames(new Map((profiles || []).map(p => [p.user_id, p.display_name])));
+    }
+  }, [messageId]);
+
+  useEffect(() => {
+    loadItems();
+
+    const channel = supabase
+      .channel(`checklist-${messageId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'checklist_items', filter: `message_id=eq.${messageId}` },
+        () => loadItems()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [messageId, loadItems]);
+
+  const showError = (description: string, error: unknown) => {
+    console.error(`Error updating checklist:`, error);
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const toggleItem = async (item: ChecklistItem, checked: boolean) => {
+    // Who ticked it and when are stamped by the database
+    setItems(prev => prev.map(i => i.id === item.id
+      ? { ...i, checked_at: checked ? new Date().toISOString() : null, checked_by: checked ? currentUserId : null }
+      : i
+    ));
+
+    const { error } = await supabase
+      .from('checklist_items')
+      .update({ checked_at: checked ? new Date().toISOString() : null })
+      .eq('id', item.id);
+
+    if (error) {
+      showError("Failed to update the item", error);
+      loadItems();
+    }
+  };
+
+  const addItem = async () => {
+    const label = newItem.trim();
+    if (!label || !currentUserId) return;
+
+    setNewItem('');
+    const { error } = await supabase
+      .from('checklist_items')
+      .insert({
+        message_id: messageId,
+        conversation_id: conversationId,
+        position: Math.max(0, ...items.map(item => item.position)) + 1,
+        label,
+        created_by: currentUserId,
+      });
+
+    if (error) {
+      setNewItem(label);
+      showError("Failed to add the item", error);
+    }
+  };
+
+  const removeItem = async (itemId: string) => {
+    const { error } = await supabase
+      .from('checklist_items')
+      .delete()
+      .eq('id', itemId);
+
+    if (error) showError("Failed to remove the item", error);
+  };
+
+  const done = items.filter(item => item.checked_at).length;
+
+  return (
+    <div className="space-y-2 min-w-[220px]">
+      <div className="flex items-center justify-between gap-2">
+        <p className="flex items-center gap-2 text-sm font-semibold">
+          <ListChecks className="w-4 h-4 flex-shrink-0" />
+          {title}
+        </p>
+        <span className="text-xs opacity-70">{done}/{items.length}</span>
+      </div>
+
+      <div className="space-y-1">
+        {items.map((item) => (
+          <div key={item.id} className="group/item flex items-start gap-2">
+            <Checkbox
+              checked={!!item.checked_at}
+              onCheckedChange={(checked) => toggleItem(item, checked === true)}
+              className="mt-0.5 border-current"
+            />
+            <div className="flex-1 min-w-0">
+              <p className={cn("text-sm break-words", item.checked_at && "line-through opacity-60")}>{item.label}</p>
+              {item.checked_by && (
+                <p className="text-[10px] opacity-60">
+                  {item.checked_by === currentUserId ? 'You' : names.get(item.checked_by) || 'Someone'}
+                </p>
+              )}
+            </div>
+            {(isOwn || item.created_by === currentUserId) && (
+              <button
+                type="button"
+                onClick={() => removeItem(item.id)}
+                className="opacity-0 group-hover/item:opacity-60 hover:opacity-100 transition-opacity"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-1">
+        <Plus className="w-3 h-3 opacity-60 flex-shrink-0" />
+        <Input
+          value={newItem}
+          onChange={(e) => setNewItem(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addItem();
+            }
+          }}
+          placeholder="Add an item"
+          maxLength={300}
+          className="h-7 text-sm bg-transparent border-current/20"
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import { Mail, Phone, UserRound } from "lucide-react";
+import { Json } from "@/integrations/supabase/types";
+import { parseContact } from "@/utils/structuredMessages";
+
+interface ContactCardMessageProps {
+  metadata: Json | undefined;
+  fallback: string;
+}
+
+export const ContactCardMessage = ({ metadata, fallback }: ContactCardMessageProps) => {
+  const contact = parseContact(metadata);
+
+  if (!contact) {
+    return <p className="text-sm break-words">{fallback}</p>;
+  }
+
+  return (
+    <div className="min-w-[200px] rounded-md border border-current/20 p-2 space-y-1.5">
+      <div className="flex items-center gap-3">
+        <div className="w-9 h-9 rounded-full bg-current/10 flex items-center justify-center flex-shrink-0">
+          <UserRound className="w-4 h-4" />
+        </div>
+        <div className="min-w-0">
+          <p className="text-sm font-medium truncate">{contact.name}</p>
+          {contact.user_id && <p className="text-xs opacity-70">On Nexora</p>}
+        </div>
+      </div>
+      {contact.phone && (
+        <a href={`tel:${contact.phone}`} className="flex items-center gap-2 text-xs hover:underline">
+          <Phone className="w-3 h-3" />
+          {contact.phone}
+        </a>
+      )}
+      {contact.email && (
+        <a href={`mailto:${contact.email}`} className="flex items-center gap-2 text-xs hover:underline break-all">
+          <Mail className="w-3 h-3" />
+          {contact.email}
+        </a>
+      )}
+    </div>
+  );
+};
@@ -5,7 +5,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Label } from "@/components/ui/label";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
-import { Search, Users, Plus, Sparkles, Star } from "lucide-react";
+import { Search, Users, Plus, Sparkles, Star, WifiOff } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { z } from "zod";
@@ -13,6 +13,8 @@ import CreateGroupDialog from "./CreateGroupDialog";
 import NexoraAIChat from "./NexoraAIChat";
 import { cn } from "@/lib/utils";
 import { playNotificationSound } from "@/utils/notificationSound";
+import { readCache, writeCache } from "@/utils/offlineStore";
+import { useOnlineStatus } from "@/hooks/useOnlineStatus";
 import SwipeableContactItem from "./SwipeableContactItem";
 import SwipeableGroupItem from "./SwipeableGroupItem";
 
@@ -65,7 +67,17 @@ interface ContactsListProps {
 
 const usernameSchema = z.string().trim().min(3, "Username must be at least 3 characters").max(30, "Username too long").regex(/^[a-zA-Z0-9_]+$/, "Username can only contain letters, numbers, and underscores");
 
+interface CachedContacts {
+  contacts: Contact[];
+  conversationMap: Record<string, string>;
+}
+
+// A timed mute ("mute for 8 hours") lapses on its own
+const isMuteActive = (isMuted: boolean | null, mutedUntil: string | null) =>
+  !!isMuted && (!mutedUntil || new Date(mutedUntil) > new Date());
+
 const ContactsList = ({ onStartChat, onStartGroupChat }: ContactsListProps) => {
+  const isOnline = useOnlineStatus();
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [groups, setGroups] = useState<GroupConversation[]>([]);
   const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
@@ -159,6 +171,17 @@ const ContactsList = ({ onStartChat, onStartGroupChat }: ContactsListProps) => {
     fetchContacts();
     fetchGroups();
     fetchUnreadCounts();
+    markMessagesDelivered();
+
+    // Replace the cached list with fresh data once we're back online
+    const handleOnline = () => {
+      fetchContacts();
+      fetchGroups();
+      fetchUnreadCounts();
+      markMessagesDelivered();
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
   }, []);
 
   // Separate effect for realtime subscription - using refs to avoid re-subscribing
@@ -179,6 +202,10 @@ const ContactsList = ({ onStartChat, onStartGroupChat }: ContactsListProps) => {
           // Play notification sound if message is from someone else and sounds are enabled
           const newMessage = payload.new as { sender_id: string; conversation_id: string };
           
+          if (newMessage.sender_id !== currentUserIdRef.current) {
+            markMessagesDelivered();
+          }
+
           // Use refs to get current values without triggering re-subscription
           if (newMessage.sender_id !== currentUserIdRef.current && globalSoundEnabledRef.current && !isInDNDPeriod()) {
             // Find the contact to check their sound setting
@@ -223,6 +250,20 @@ const ContactsList = ({ onStartChat, onStartGroupChat }: ContactsListProps) => {
     };
   }, [isInDNDPeriod]);
 
+  // Tell senders their messages reached this device
+  const markMessagesDelivered = async () => {
+    const { data: userData } = await supabase.auth.getUser();
+    if (!userData.user) return;
+
+    const { error } = await supabase.rpc('mark_messages_delivered', {
+      user_uuid: userData.user.id
+    });
+
+    if (error) {
+      console.error('Error marking messages as delivered:', error);
+    }
+  };
+
   const fetchUnreadCounts = async () => {
     try {
       const { data: userData } = await supabase.auth.getUser();
@@ -239,8 +280,9 @@ const ContactsList = ({ onStartChat, onStartGroupChat }: ContactsListProps) => {
 
       if (data) {
         const counts: Record<string, number> = {};
-        data.forEach((item: { conversation_id: string; unread_count: number }) => {
-          counts[item.conversation_id] = Number(item.unread_count);
+        data.forEach((item: { conversation_id: string; unread_count: number; thread_unread_count: number }) => {
+          // Unread thread replies count towards the conversation badge too
+          counts[item.conversation_id] = Number(item.unread_count) + Number(item.thread_unread_count);
         });
         setUnreadCounts(counts);
       }
@@ -250,6 +292,17 @@ const ContactsList = ({ onStartChat, onStartGroupChat }: ContactsListProps) => {
   };
 
   const fetchContacts = async () => {
+    // Offline: show the list from the last successful fetch
+    if (!navigator.onLine) {
+      const { data: { session } } = await supabase.auth.getSession();
+      const cached = session && await readCache<CachedContacts>(`contacts:${session.user.id}`);
+      if (cached) {
+        setContacts(cached.contacts);
+        setConversationMap(cached.conversationMap);
+      }
+      return;
+    }
+
     const { data: userData } = await supabase.auth.getUser();
     if (!userData.user) return;
 
@@ -309,6 +362,10 @@ const ContactsList = ({ onStartChat, onStartGroupChat }: ContactsListProps) => {
       );
       setContacts(contactsWithProfiles);
       setConversationMap(convMap);
+      writeCache<CachedContacts>(`contacts:${userData.user.id}`, {
+        contacts: contactsWithProfiles,
+        conversationMap: convMap,
+      });
     }
   };
 
@@ -419,6 +476,15 @@ const ContactsList = ({ onStartChat, onStartGroupChat }: ContactsListProps) => {
 
   const fetchGroups = async () => {
     try {
+      if (!navigator.onLine) {
+        const { data: { session } } = await supabase.auth.getSession();
+        const cached = session && await readCache<GroupConversation[]>(`groups:${session.user.id}`);
+        if (cached) {
+          setGroups(cached);
+        }
+        return;
+      }
+
       const { data: userData } = await supabase.auth.getUser();
       if (!userData.user) return;
 
@@ -427,6 +493,7 @@ const ContactsList = ({ onStartChat, onStartGroupChat }: ContactsListProps) => {
         .select(`
           conversation_id,
           is_muted,
+          muted_until,
           conversations!inner (
             id,
             group_name,
@@ -460,11 +527,12 @@ const ContactsList = ({ onStartChat, onStartGroupChat }: ContactsListProps) => {
                 group_name: conv.group_name || 'Unnamed Group',
                 group_avatar_url: conv.group_avatar_url,
                 participant_count: count || 0,
-                is_muted: item.is_muted || false,
+                is_muted: isMuteActive(item.is_muted, item.muted_until),
               };
             })
         );
         setGroups(groupConversations);
+        writeCache(`groups:${userData.user.id}`, groupConversations);
       }
     } catch (error) {
       console.error('Error in fetchGroups:', error);
@@ -648,12 +716,15 @@ const ContactsList = ({ onStartChat, onStartGroupChat }: ContactsListProps) => {
     }
   };
 
-  const toggleMuteGroup = async (groupId: string) => {
+  const toggleMuteGroup = async (groupId: string, muteForHours: number | null = null) => {
     const { data: userData } = await supabase.auth.getUser();
     if (!userData.user) return;
 
     const group = groups.find(g => g.id === groupId);
     const newMuteState = !group?.is_muted;
+    const mutedUntil = newMuteState && muteForHours
+      ? new Date(Date.now() + muteForHours * 60 * 60 * 1000).toISOString()
+      : null;
 
     // Optimistically update UI
     setGroups(prev => 
@@ -663,7 +734,7 @@ const ContactsList = ({ onStartChat, onStartGroupChat }: ContactsListProps) => {
     // Persist to database
     const { error } = await supabase
       .from('conversation_participants')
-      .update({ is_muted: newMuteState })
+      .update({ is_muted: newMuteState, muted_until: mutedUntil })
       .eq('conversation_id', groupId)
       .eq('user_id', userData.user.id);
 
@@ -684,7 +755,9 @@ const ContactsList = ({ onStartChat, onStartGroupChat }: ContactsListProps) => {
     toast({
       title: newMuteState ? 'Group muted' : 'Group unmuted',
       description: newMuteState 
-        ? 'You won\'t receive notifications from this group' 
+        ? mutedUntil
+          ? `You won't receive notifications from this group until ${new Date(mutedUntil).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}`
+          : 'You won\'t receive notifications from this group' 
         : 'You\'ll receive notifications from this group',
     });
   };
@@ -777,6 +850,13 @@ const ContactsList = ({ onStartChat, onStartGroupChat }: ContactsListProps) => {
 
   return (
     <div className="h-full flex flex-col bg-background">
+      {!isOnline && (
+        <div className="bg-muted text-muted-foreground text-xs px-4 py-2 flex items-center gap-2">
+          <WifiOff className="w-3 h-3 flex-shrink-0" />
+          You're offline. Showing saved conversations.
+        </div>
+      )}
+
       {/* Search Bar */}
       <div className="px-4 pt-4 pb-3">
         <div className="relative">
@@ -826,7 +906,10 @@ const ContactsList = ({ onStartChat, onStartGroupChat }: ContactsListProps) => {
         {/* Add Button */}
         <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
           <DialogTrigger asChild>
-            <button className="w-8 h-8 rounded-full border border-border flex items-center justify-center hover:bg-muted/50 transition-colors flex-shrink-0">
+            <button
+              disabled={!isOnline}
+              className="w-8 h-8 rounded-full border border-border flex items-center justify-center hover:bg-muted/50 transition-colors flex-shrink-0 disabled:opacity-50 disabled:pointer-events-none"
+            >
               <Plus className="w-4 h-4 text-muted-foreground" />
             </button>
           </DialogTrigger>
@@ -960,7 +1043,7 @@ const ContactsList = ({ onStartChat, onStartGroupChat }: ContactsListProps) => {
                     isMuted={group.is_muted}
                     onStartChat={() => onStartGroupChat(group.id, group.group_name)}
                     onLeave={() => leaveGroup(group.id, group.group_name)}
-                    onToggleMute={() => toggleMuteGroup(group.id)}
+                    onToggleMute={(muteForHours) => toggleMuteGroup(group.id, muteForHours)}
                   />
                 );
               })
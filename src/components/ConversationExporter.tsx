@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { FileDown, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFunctionFile } from "@/utils/fileExport";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+type ExportFormat = 'json' | 'html' | 'txt';
+
+const FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'html', label: 'Web page (.html)', description: 'Readable in any browser, with links to attachments' },
+  { value: 'txt', label: 'Text transcript (.txt)', description: 'One line per message' },
+  { value: 'json', label: 'JSON (.json)', description: 'Complete structured data for archiving or other tools' },
+];
+
+interface ConversationExporterProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conversationId: string;
+  conversationName: string;
+}
+
+/**
+ * Downloads a conversation through export-conversation, with edits,
+ * reactions, transcriptions, attachments and the user's translations.
+ */
+export const ConversationExporter = ({
+  open,
+  onOpenChange,
+  conversationId,
+  conversationName,
+}: ConversationExporterProps) => {
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('html');
+  const [exporting, setExporting] = useState(false);
+  const { toast } = useToast();
+
+  const exportConversation = async () => {
+    setExporting(true);
+    try {
+      await downloadFunctionFile(
+        'export-conversation',
+        { conversationId, format: exportFormat },
+        `${conversationName.replace(/[^a-z0-9]/gi, '_')}.${exportFormat}`
+      );
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error exporting conversation:', error);
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Failed to export the conversation",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={exporting ? undefined : onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileDown className="w-5 h-5 text-primary" />
+            Export Conversation
+          </DialogTitle>
+          <DialogDescription>
+            Download the full history of {conversationName}. Attachment links stay valid for 7 days.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+          {FORMATS.map((option) => (
+            <div key={option.value} className="flex items-start gap-3">
+              <RadioGroupItem value={option.value} id={`export-${option.value}`} className="mt-1" />
+              <Label htmlFor={`export-${option.value}`} className="cursor-pointer">
+                <span className="block">{option.label}</span>
+                <span className="block text-xs text-muted-foreground font-normal">{option.description}</span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <DialogFooter>
+          <Button onClick={exportConversation} disabled={exporting}>
+            {exporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileDown className="w-4 h-4 mr-2" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
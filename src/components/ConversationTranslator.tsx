@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Download, Languages, Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAutoTranslate } from "@/hooks/useAutoTranslate";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const LANGUAGES = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'it', name: 'Italian' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'ru', name: 'Russian' },
+  { code: 'zh', name: 'Chinese' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' },
+  { code: 'ar', name: 'Arabic' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'tr', name: 'Turkish' },
+  { code: 'pl', name: 'Polish' },
+];
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+interface HistoryMessage {
+  id: string;
+  sender_id: string;
+  bot_id: string | null;
+  content: string | null;
+  transcription: string | null;
+  created_at: string;
+}
+
+interface ConversationTranslatorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conversationId: string;
+  conversationName: string;
+  // Called with every translation so messages already on screen can show them
+  onTranslated: (translations: Map<string, string>) => void;
+}
+
+/**
+ * Translates a conversation's whole history through translate-message's
+ * batch mode, and can download it as a text file with each translation
+ * under its original.
+ */
+export const ConversationTranslator = ({
+  open,
+  onOpenChange,
+  conversationId,
+  conversationName,
+  onTranslated,
+}: ConversationTranslatorProps) => {
+  const [targetLanguage, setTargetLanguage] = useState('en');
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const { translateMessages } = useAutoTranslate(conversationId);
+  const { toast } = useToast();
+
+  const loadHistory = async () => {
+    const history: HistoryMessage[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('messages')
+        .select('id, sender_id, bot_id, content, transcription, created_at')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      history.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+    return history.filter(message => (message.content || message.transcription || '').trim());
+  };
+
+  const downloadTranscript = async (history: HistoryMessage[], translations: Map<string, string>) => {
+    const senderIds = [...new Set(history.map(message => message.sender_id))];
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('user_id, display_name')
+      .in('user_id', senderIds);
+    const names = new Map((profiles || []).map(profile => [profile.user_id, profile.display_name]));
+    const { data: bot } = await supabase
+      .from('bots')
+      .select('name')
+      .eq('conversation_id', conversationId)
+      .maybeSingle();
+
+    const language = LANGUAGES.find(lang => lang.code === targetLanguage)?.name ?? targetLanguage;
+    const lines = [`${conversationName} — translated to ${language}`, ''];
+    for (const message of history) {
+      const original = message.content || message.transcription || '';
+      lines.push(`[${format(new Date(message.created_at), 'yyyy-MM-dd HH:mm')}] ${(message.bot_id && bot?.name) || names.get(message.sender_id) || 'Unknown'}: ${original}`);
+      const translated = translations.get(message.id);
+      if (translated && translated !== original) {
+        lines.push(`    → ${translated}`);
+      }
+    }
+
+    const blob = new Blob([lines.join('\n')], { type: 'text/plain;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${conversationName.replace(/[^a-z0-9]/gi, '_')}_${targetLanguage}.txt`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const translateConversation = async (exportAfter: boolean) => {
+    setRunning(true);
+    setProgress(null);
+    try {
+      const history = await loadHistory();
+      setProgress({ done: 0, total: history.length });
+
+      const { translations, limitReached } = await translateMessages(
+        history.map(message => message.id),
+        targetLanguage,
+        (done, total) => setProgress({ done, total })
+      );
+
+      const translated = new Map(translations.map(t => [t.messageId, t.translatedText]));
+      onTranslated(translated);
+
+      if (exportAfter) {
+        await downloadTranscript(history, translated);
+      }
+
+      if (limitReached) {
+        toast({
+          title: "Translation limit reached",
+          description: `Translated ${translated.size} of ${history.length} messages. Upgrade to Premium for unlimited translations.`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Conversation translated",
+          description: `${translated.size} messages translated`,
+        });
+        onOpenChange(false);
+      }
+    } catch (error) {
+      console.error('Error translating conversation:', error);
+      toast({
+        title: "Translation failed",
+        description: error instanceof Error ? error.message : "Failed to translate the conversation",
+        variant: "destructive",
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={running ? undefined : onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Languages className="w-5 h-5 text-primary" />
+            Translate Conversation
+          </DialogTitle>
+          <DialogDescription>
+            Translate the full history of {conversationName}. Messages translated before are reused.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Select value={targetLanguage} onValueChange={setTargetLanguage} disabled={running}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LANGUAGES.map((lang) => (
+                <SelectItem key={lang.code} value={lang.code}>
+                  {lang.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {progress && (
+            <div className="space-y-1">
+              <Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} />
+              <p className="text-xs text-muted-foreground">
+                {progress.done} of {progress.total} messages
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => translateConversation(true)} disabled={running}>
+            <Download className="w-4 h-4 mr-2" />
+            Translate & Export
+          </Button>
+          <Button onClick={() => translateConversation(false)} disabled={running}>
+            {running ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Languages className="w-4 h-4 mr-2" />}
+            Translate
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,218 @@
+import { useRef, useState } from "react";
+import { format } from "date-fns";
+import { Database, Download, Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { downloadFunctionFile } from "@/utils/fileExport";
+
+interface ImportPreview {
+  source: 'whatsapp' | 'telegram';
+  name: string;
+  participants: string[];
+  messageCount: number;
+  firstMessageAt: string | null;
+  lastMessageAt: string | null;
+}
+
+// Exports larger than this are not worth sending to the server
+const MAX_IMPORT_BYTES = 20 * 1024 * 1024;
+const NOT_ME = '__none__';
+
+// WhatsApp timestamps carry no timezone; they are read in the browser's
+const browserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const DataPortabilitySettings = () => {
+  const [downloading, setDownloading] = useState(false);
+  const [importFile, setImportFile] = useState<{ name: string; content: string } | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [selfName, setSelfName] = useState(NOT_ME);
+  const [importing, setImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const downloadMyData = async () => {
+    setDownloading(true);
+    try {
+      await downloadFunctionFile('export-user-data', {}, 'nexora_data.json');
+    } catch (error) {
+      console.error('Error exporting personal data:', error);
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Failed to export your data",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const resetImport = () => {
+    setImportFile(null);
+    setPreview(null);
+    setSelfName(NOT_ME);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    if (file.size > MAX_IMPORT_BYTES) {
+      toast({
+        title: "File too large",
+        description: "Chat exports are limited to 20 MB",
+        variant: "destructive",
+      });
+      resetImport();
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const content = await file.text();
+      const { data, error } = await supabase.functions.invoke('import-conversation', {
+        body: { content, fileName: file.name, timezone: browserTimezone(), preview: true },
+      });
+
+      if (error) throw error;
+
+      setImportFile({ name: file.name, content });
+      setPreview(data);
+    } catch (error) {
+      console.error('Error reading chat export:', error);
+      toast({
+        title: "Couldn't read this file",
+        description: "Upload a WhatsApp .txt export or a Telegram result.json",
+        variant: "destructive",
+      });
+      resetImport();
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const importChat = async () => {
+    if (!importFile || !preview) return;
+
+    setImporting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('import-conversation', {
+        body: {
+          content: importFile.content,
+          fileName: importFile.name,
+          timezone: browserTimezone(),
+          selfName: selfName === NOT_ME ? undefined : selfName,
+        },
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Chat imported",
+        description: `${data.messageCount} messages added to "${data.name}"`,
+      });
+      resetImport();
+    } catch (error) {
+      console.error('Error importing chat:', error);
+      toast({
+        title: "Import failed",
+        description: "Failed to import the chat",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 p-4 bg-card rounded-lg border border-border">
+      <h3 className="text-lg font-semibold flex items-center gap-2">
+        <Database className="w-5 h-5 text-primary" />
+        Your Data
+      </h3>
+
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-0.5">
+          <Label className="text-base">Download my data</Label>
+          <p className="text-sm text-muted-foreground">
+            Everything Nexora stores about you, as a JSON file
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={downloadMyData} disabled={downloading}>
+          {downloading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+        </Button>
+      </div>
+
+      <div className="pt-3 border-t border-border/50 space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-0.5">
+            <Label className="text-base">Import a chat</Label>
+            <p className="text-sm text-muted-foreground">
+              From a WhatsApp .txt export or a Telegram result.json
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importing}
+          >
+            {importing && !preview ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".txt,.json,text/plain,application/json"
+            className="hidden"
+            onChange={handleFileSelected}
+          />
+        </div>
+
+        {preview && (
+          <div className="space-y-3 rounded-md bg-muted/50 p-3">
+            <p className="text-sm">
+              <span className="font-medium">{preview.name}</span>
+              {' · '}
+              {preview.messageCount} messages from {preview.source === 'whatsapp' ? 'WhatsApp' : 'Telegram'}
+              {preview.firstMessageAt && preview.lastMessageAt && (
+                <span className="text-muted-foreground">
+                  {' · '}
+                  {format(new Date(preview.firstMessageAt), 'PP')} – {format(new Date(preview.lastMessageAt), 'PP')}
+                </span>
+              )}
+            </p>
+
+            <div className="space-y-2">
+              <Label className="text-sm">Which of these is you?</Label>
+              <RadioGroup value={selfName} onValueChange={setSelfName}>
+                {preview.participants.map((participant, index) => (
+                  <div key={participant} className="flex items-center gap-2">
+                    <RadioGroupItem value={participant} id={`import-self-${index}`} />
+                    <Label htmlFor={`import-self-${index}`} className="font-normal cursor-pointer">{participant}</Label>
+                  </div>
+                ))}
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value={NOT_ME} id="import-self-none" />
+                  <Label htmlFor="import-self-none" className="font-normal cursor-pointer text-muted-foreground">None of them</Label>
+                </div>
+              </RadioGroup>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={resetImport} disabled={importing}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={importChat} disabled={importing}>
+                {importing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Import
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -2,7 +2,7 @@ import { useState, useEffect } from "react";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
-import { Moon, Loader2, Clock } from "lucide-react";
+import { Moon, Loader2, Clock, Star, PhoneCall } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 
@@ -10,13 +10,20 @@ interface DNDSettings {
   dnd_enabled: boolean;
   dnd_start_time: string;
   dnd_end_time: string;
+  dnd_allow_favourites: boolean;
+  dnd_allow_repeat_callers: boolean;
 }
 
+// Quiet hours are enforced on the server in this timezone
+const browserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
 export const DoNotDisturbSettings = () => {
   const [settings, setSettings] = useState<DNDSettings>({
     dnd_enabled: false,
     dnd_start_time: "22:00",
     dnd_end_time: "07:00",
+    dnd_allow_favourites: true,
+    dnd_allow_repeat_callers: true,
   });
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -33,7 +40,7 @@ export const DoNotDisturbSettings = () => {
 
       const { data, error } = await supabase
         .from('profiles')
-        .select('dnd_enabled, dnd_start_time, dnd_end_time')
+        .select('dnd_enabled, dnd_start_time, dnd_end_time, dnd_allow_favourites, dnd_allow_repeat_callers')
         .eq('user_id', userData.user.id)
         .single();
 
@@ -44,6 +51,8 @@ export const DoNotDisturbSettings = () => {
           dnd_enabled: data.dnd_enabled ?? false,
           dnd_start_time: data.dnd_start_time?.slice(0, 5) ?? "22:00",
           dnd_end_time: data.dnd_end_time?.slice(0, 5) ?? "07:00",
+          dnd_allow_favourites: data.dnd_allow_favourites,
+          dnd_allow_repeat_callers: data.dnd_allow_repeat_callers,
         });
       }
     } catch (error) {
@@ -67,6 +76,9 @@ export const DoNotDisturbSettings = () => {
           dnd_enabled: newSettings.dnd_enabled,
           dnd_start_time: newSettings.dnd_start_time + ':00',
           dnd_end_time: newSettings.dnd_end_time + ':00',
+          dnd_allow_favourites: newSettings.dnd_allow_favourites,
+          dnd_allow_repeat_callers: newSettings.dnd_allow_repeat_callers,
+          timezone: browserTimezone(),
         })
         .eq('user_id', userData.user.id);
 
@@ -81,6 +93,11 @@ export const DoNotDisturbSettings = () => {
             ? `Silent mode active from ${newSettings.dnd_start_time} to ${newSettings.dnd_end_time}`
             : "You'll receive notification sounds",
         });
+      } else if ('dnd_allow_favourites' in updates || 'dnd_allow_repeat_callers' in updates) {
+        toast({
+          title: "Exceptions updated",
+          description: "Your Do Not Disturb exceptions have been saved",
+        });
       } else {
         toast({
           title: "Schedule updated",
@@ -183,8 +200,50 @@ export const DoNotDisturbSettings = () => {
           </div>
 
           <p className="text-xs text-muted-foreground">
-            Notifications will be silenced from {settings.dnd_start_time} to {settings.dnd_end_time} daily
+            Notifications will be silenced from {settings.dnd_start_time} to {settings.dnd_end_time} daily ({browserTimezone()})
           </p>
+
+          <div className="pt-3 border-t border-border/50 space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="dnd-favourites" className="text-sm flex items-center gap-2">
+                  <Star className="w-4 h-4 text-muted-foreground" />
+                  Allow favourites
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Favourite contacts can still reach you
+                </p>
+              </div>
+              <Switch
+                id="dnd-favourites"
+                checked={settings.dnd_allow_favourites}
+                onCheckedChange={(checked) => updateSettings({ dnd_allow_favourites: checked })}
+                disabled={saving}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="dnd-repeat-callers" className="text-sm flex items-center gap-2">
+                  <PhoneCall className="w-4 h-4 text-muted-foreground" />
+                  Allow repeated calls
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  A second call from the same person within 15 minutes will ring
+                </p>
+              </div>
+              <Switch
+                id="dnd-repeat-callers"
+                checked={settings.dnd_allow_repeat_callers}
+                onCheckedChange={(checked) => updateSettings({ dnd_allow_repeat_callers: checked })}
+                disabled={saving}
+              />
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              You'll get a summary of anything you missed when quiet hours end
+            </p>
+          </div>
         </div>
       )}
     </div>
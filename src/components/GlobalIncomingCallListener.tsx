@@ -124,7 +124,7 @@ export const GlobalIncomingCallListener = () => {
         },
         (payload) => {
           const updatedCall = payload.new as { status: string };
-          if (updatedCall.status === 'ended' || updatedCall.status === 'missed') {
+          if (['ended', 'missed', 'rejected'].includes(updatedCall.status)) {
             setIncomingCall(null);
             stopRingtone();
           }
@@ -4,7 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
-import { Bot, Send, Sparkles, AlertCircle } from 'lucide-react';
+import { Bot, Send, Sparkles, AlertCircle, CheckCircle2 } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 
 interface GroupBotInteractionProps {
@@ -19,6 +19,11 @@ interface BotResponse {
   alternatives?: string[];
   actions?: string[];
   confidence: number;
+  // The reply is posted into the conversation by group-bot as this bot
+  message_id: string;
+  bot: { id: string; name: string; avatar_url: string | null };
+  // Reminders, tasks and summaries group-bot carried out
+  executed_actions?: { type: string; text: string; send_at?: string; error?: string }[];
 }
 
 export const GroupBotInteraction = ({ conversationId, recentMessages, botSettings }: GroupBotInteractionProps) => {
@@ -53,19 +58,6 @@ export const GroupBotInteraction = ({ conversationId, recentMessages, botSetting
       console.log('✅ Bot response:', data);
       setResponse(data);
       setCommand('');
-
-      // Insert bot message into conversation
-      const { error: insertError } = await supabase.from('messages').insert({
-        conversation_id: conversationId,
-        sender_id: (await supabase.auth.getUser()).data.user?.id,
-        content: data.primary_response,
-        ai_generated: true,
-      });
-
-      if (insertError) {
-        console.error('Error inserting bot message:', insertError);
-      }
-
     } catch (error: any) {
       console.error('❌ Bot error:', error);
       
@@ -100,7 +92,7 @@ export const GroupBotInteraction = ({ conversationId, recentMessages, botSetting
             <Bot className="w-5 h-5 text-primary mt-1" />
             <div className="flex-1 space-y-2">
               <div className="flex items-center gap-2">
-                <span className="font-semibold text-sm">GroupBotAI</span>
+                <span className="font-semibold text-sm">{response.bot?.name || 'GroupBotAI'}</span>
                 <Badge variant="secondary" className="text-xs">
                   {response.mode}
                 </Badge>
@@ -132,6 +124,22 @@ export const GroupBotInteraction = ({ conversationId, recentMessages, botSetting
                   ))}
                 </div>
               )}
+
+              {response.executed_actions && response.executed_actions.length > 0 && (
+                <div className="space-y-1">
+                  {response.executed_actions.map((action, idx) => (
+                    <p
+                      key={idx}
+                      className={`flex items-center gap-1 text-xs ${action.error ? 'text-destructive' : 'text-muted-foreground'}`}
+                    >
+                      {action.error ? <AlertCircle className="w-3 h-3" /> : <CheckCircle2 className="w-3 h-3" />}
+                      <span className="capitalize">{action.type}:</span> {action.text}
+                      {action.send_at && ` (${new Date(action.send_at).toLocaleString()})`}
+                      {action.error && ` - ${action.error}`}
+                    </p>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
         </Card>
@@ -4,9 +4,13 @@ import { Card } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { Bot, Settings, Sparkles } from 'lucide-react';
+import { MODERATION_CATEGORIES, MUTE_DURATIONS } from '@/utils/moderation';
+import { browserTimezone } from '@/utils/scheduledMessages';
 
 interface GroupBotSettingsProps {
   conversationId: string;
@@ -18,12 +22,20 @@ export const GroupBotSettings = ({ conversationId, isAdmin }: GroupBotSettingsPr
   const [loading, setLoading] = useState(false);
   const [settings, setSettings] = useState({
     enabled: true,
+    respond_to_mentions: true,
     default_mode: 'assistant',
     persona: 'professional',
     auto_translate: false,
     target_language: 'en',
     moderation_enabled: false,
+    moderation_categories: MODERATION_CATEGORIES.map(c => c.value) as string[],
+    moderation_hide: false,
+    moderation_warn: true,
+    moderation_mute_minutes: 0,
+    timezone: browserTimezone(),
   });
+  // The bot's identity on its replies; persona above is part of it too
+  const [identity, setIdentity] = useState({ name: 'GroupBotAI', avatar_url: '' });
 
   useEffect(() => {
     loadSettings();
@@ -41,6 +53,18 @@ export const GroupBotSettings = ({ conversationId, isAdmin }: GroupBotSettingsPr
     } else if (error && error.code !== 'PGRST116') {
       console.error('Error loading bot settings:', error);
     }
+
+    const { data: bot, error: botError } = await supabase
+      .from('bots')
+      .select('name, avatar_url')
+      .eq('conversation_id', conversationId)
+      .maybeSingle();
+
+    if (bot) {
+      setIdentity({ name: bot.name, avatar_url: bot.avatar_url || '' });
+    } else if (botError) {
+      console.error('Error loading bot identity:', botError);
+    }
   };
 
   const saveSettings = async () => {
@@ -60,10 +84,22 @@ export const GroupBotSettings = ({ conversationId, isAdmin }: GroupBotSettingsPr
         .upsert({
           conversation_id: conversationId,
           ...settings,
+          // Digests and bot reminders follow the wall clock of whoever saved last
+          timezone: browserTimezone(),
         });
 
       if (error) throw error;
 
+      const { error: botError } = await supabase
+        .from('bots')
+        .upsert({
+          conversation_id: conversationId,
+          name: identity.name.trim() || 'GroupBotAI',
+          avatar_url: identity.avatar_url.trim() || null,
+        }, { onConflict: 'conversation_id' });
+
+      if (botError) throw botError;
+
       toast({
         title: 'Settings saved',
         description: 'GroupBotAI settings updated successfully',
@@ -107,6 +143,43 @@ export const GroupBotSettings = ({ conversationId, isAdmin }: GroupBotSettingsPr
           />
         </div>
 
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label>Reply to Mentions</Label>
+            <p className="text-sm text-muted-foreground">
+              Answer messages that mention @nexora
+            </p>
+          </div>
+          <Switch
+            checked={settings.respond_to_mentions}
+            onCheckedChange={(respond_to_mentions) => setSettings({ ...settings, respond_to_mentions })}
+            disabled={!isAdmin || !settings.enabled}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Bot Name</Label>
+          <Input
+            value={identity.name}
+            onChange={(e) => setIdentity({ ...identity, name: e.target.value })}
+            maxLength={50}
+            disabled={!isAdmin}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Avatar URL</Label>
+          <Input
+            value={identity.avatar_url}
+            onChange={(e) => setIdentity({ ...identity, avatar_url: e.target.value })}
+            placeholder="https://..."
+            disabled={!isAdmin}
+          />
+          <p className="text-sm text-muted-foreground">
+            Shown next to the bot's replies. Leave empty for the default icon.
+          </p>
+        </div>
+
         <div className="space-y-2">
           <Label>Default Mode</Label>
           <Select
@@ -187,7 +260,7 @@ export const GroupBotSettings = ({ conversationId, isAdmin }: GroupBotSettingsPr
           <div className="space-y-0.5">
             <Label>Content Moderation</Label>
             <p className="text-sm text-muted-foreground">
-              Suggest polite rewrites for problematic messages
+              Automatically check new messages and flag problems for admins
             </p>
           </div>
           <Switch
@@ -196,6 +269,87 @@ export const GroupBotSettings = ({ conversationId, isAdmin }: GroupBotSettingsPr
             disabled={!isAdmin}
           />
         </div>
+
+        {settings.moderation_enabled && (
+          <div className="space-y-4 pl-3 border-l-2 border-border">
+            <div className="space-y-2">
+              <Label>Check for</Label>
+              {MODERATION_CATEGORIES.map((category) => (
+                <div key={category.value} className="flex items-start gap-2">
+                  <Checkbox
+                    id={`moderation-${category.value}`}
+                    checked={settings.moderation_categories.includes(category.value)}
+                    onCheckedChange={(checked) => setSettings({
+                      ...settings,
+                      moderation_categories: checked
+                        ? [...settings.moderation_categories, category.value]
+                        : settings.moderation_categories.filter(c => c !== category.value),
+                    })}
+                    disabled={!isAdmin}
+                  />
+                  <div className="grid gap-0.5 leading-none">
+                    <Label htmlFor={`moderation-${category.value}`} className="font-normal">
+                      {category.label}
+                    </Label>
+                    <p className="text-xs text-muted-foreground">{category.description}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              Flagged messages always go to the moderation queue. Also:
+            </p>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label>Hide pending review</Label>
+                <p className="text-sm text-muted-foreground">
+                  Only the sender and admins see the message until it's reviewed
+                </p>
+              </div>
+              <Switch
+                checked={settings.moderation_hide}
+                onCheckedChange={(moderation_hide) => setSettings({ ...settings, moderation_hide })}
+                disabled={!isAdmin}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label>Warn sender</Label>
+                <p className="text-sm text-muted-foreground">
+                  Tell the sender why their message was flagged
+                </p>
+              </div>
+              <Switch
+                checked={settings.moderation_warn}
+                onCheckedChange={(moderation_warn) => setSettings({ ...settings, moderation_warn })}
+                disabled={!isAdmin}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Mute sender</Label>
+              <Select
+                value={String(settings.moderation_mute_minutes)}
+                onValueChange={(value) => setSettings({ ...settings, moderation_mute_minutes: Number(value) })}
+                disabled={!isAdmin}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MUTE_DURATIONS.map((duration) => (
+                    <SelectItem key={duration.minutes} value={String(duration.minutes)}>
+                      {duration.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
       </div>
 
       <Button
@@ -0,0 +1,478 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  AlertCircle,
+  BookOpen,
+  FileText,
+  Link2,
+  Loader2,
+  MessageSquareQuote,
+  RefreshCw,
+  Trash2,
+  Unlink,
+  Upload,
+} from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  DOCUMENT_ACCEPT,
+  documentMimeType,
+  KNOWLEDGE_BUCKET,
+  KnowledgeSource,
+  knowledgeStoragePath,
+  MAX_DOCUMENT_BYTES,
+  openKnowledgeDocument,
+} from "@/utils/knowledgeBase";
+
+interface KnowledgeBaseSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conversationId: string;
+  isAdmin: boolean;
+  onJumpToMessage: (messageId: string) => void;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'Indexing',
+  ready: 'Ready',
+  failed: 'Failed',
+};
+
+/**
+ * What the bot answers from in knowledge mode: messages pinned by the
+ * group's admins, uploaded documents and the documents of linked
+ * communities.
+ */
+export const KnowledgeBaseSheet = ({
+  open,
+  onOpenChange,
+  conversationId,
+  isAdmin,
+  onJumpToMessage,
+}: KnowledgeBaseSheetProps) => {
+  const [sources, setSources] = useState<KnowledgeSource[]>([]);
+  const [linkedCommunities, setLinkedCommunities] = useState<{ id: string; name: string }[]>([]);
+  // The user's own communities, for linking and for uploading community documents
+  const [memberships, setMemberships] = useState<{ id: string; name: string; role: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  // 'conversation' or the id of a linked community the user administers
+  const [uploadTarget, setUploadTarget] = useState('conversation');
+  const [communityToLink, setCommunityToLink] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const loadKnowledge = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data: memberRows, error: memberError } = await supabase
+        .from('community_members')
+        .select('role, communities(id, name)')
+        .eq('user_id', user.id);
+
+      if (memberError) throw memberError;
+
+      setMemberships(
+        (memberRows || [])
+          .filter(row => row.communities)
+          .map(row => ({ id: row.communities!.id, name: row.communities!.name, role: row.role }))
+      );
+
+      const { data: links, error: linksError } = await supabase
+        .from('knowledge_community_links')
+        .select('community_id, communities(id, name)')
+        .eq('conversation_id', conversationId);
+
+      if (linksError) throw linksError;
+
+      const communities = (links || [])
+        .map(link => link.communities)
+        .filter((community): community is { id: string; name: string } => !!community);
+      setLinkedCommunities(communities);
+
+      let query = supabase
+        .from('knowledge_sources')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      query = communities.length > 0
+        ? query.or(`conversation_id.eq.${conversationId},community_id.in.(${communities.map(c => c.id).join(',')})`)
+        : query.eq('conversation_id', conversationId);
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setSources(data || []);
+    } catch (error) {
+      console.error('Error loading knowledge base:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the knowledge base",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [conversationId, toast]);
+
+  useEffect(() => {
+    if (open) {
+      loadKnowledge();
+    }
+  }, [open, loadKnowledge]);
+
+  const communityAdminOf = (communityId: string) =>
+    memberships.some(m => m.id === communityId && (m.role === 'owner' || m.role === 'admin'));
+
+  const canManage = (source: KnowledgeSource) =>
+    source.conversation_id ? isAdmin : !!source.community_id && communityAdminOf(source.community_id);
+
+  const uploadTargets = linkedCommunities.filter(community => communityAdminOf(community.id));
+  const linkableCommunities = memberships.filter(
+    m => communityAdminOf(m.id) && !linkedCommunities.some(community => community.id === m.id)
+  );
+
+  const uploadDocument = async (file: File) => {
+    const mimeType = documentMimeType(file);
+    if (!mimeType) {
+      toast({
+        title: "Unsupported file",
+        description: "Upload a PDF, Markdown or text file",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (file.size > MAX_DOCUMENT_BYTES) {
+      toast({
+        title: "File too large",
+        description: "Documents can be up to 10 MB",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setUploading(true);
+    const sourceId = crypto.randomUUID();
+    const owner = uploadTarget === 'conversation' ? { conversationId } : { communityId: uploadTarget };
+    const storagePath = knowledgeStoragePath(owner, sourceId, file.name);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { error: uploadError } = await supabase.storage
+        .from(KNOWLEDGE_BUCKET)
+        .upload(storagePath, file, { contentType: mimeType });
+
+      if (uploadError) throw uploadError;
+
+      const { data, error } = await supabase
+        .from('knowledge_sources')
+        .insert({
+          id: sourceId,
+          conversation_id: uploadTarget === 'conversation' ? conversationId : null,
+          community_id: uploadTarget === 'conversation' ? null : uploadTarget,
+          kind: 'document',
+          storage_path: storagePath,
+          mime_type: mimeType,
+          size_bytes: file.size,
+          title: file.name.slice(0, 200),
+          created_by: user.id,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        await supabase.storage.from(KNOWLEDGE_BUCKET).remove([storagePath]);
+        throw error;
+      }
+
+      setSources(prev => [data, ...prev]);
+      toast({
+        title: "Document added",
+        description: "The bot can use it once indexing finishes",
+      });
+    } catch (error) {
+      console.error('Error uploading knowledge base document:', error);
+      toast({
+        title: "Error",
+        description: "Failed to upload the document",
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const removeSource = async (source: KnowledgeSource) => {
+    try {
+      const { error } = await supabase
+        .from('knowledge_sources')
+        .delete()
+        .eq('id', source.id);
+
+      if (error) throw error;
+
+      // The document itself is removed by the storage cleanup queue
+      setSources(prev => prev.filter(s => s.id !== source.id));
+    } catch (error) {
+      console.error('Error removing knowledge source:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove the source",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const reindexSource = async (source: KnowledgeSource) => {
+    const { error } = await supabase.rpc('reindex_knowledge_source', { _source_id: source.id });
+
+    if (error) {
+      console.error('Error re-indexing knowledge source:', error);
+      toast({
+        title: "Error",
+        description: "Failed to retry indexing",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSources(prev => prev.map(s => (s.id === source.id ? { ...s, status: 'pending', last_error: null } : s)));
+  };
+
+  const linkCommunity = async () => {
+    if (!communityToLink) return;
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('knowledge_community_links')
+        .insert({ conversation_id: conversationId, community_id: communityToLink, linked_by: user.id });
+
+      if (error) throw error;
+
+      setCommunityToLink('');
+      await loadKnowledge();
+    } catch (error) {
+      console.error('Error linking community:', error);
+      toast({
+        title: "Error",
+        description: "Failed to link the community",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const unlinkCommunity = async (communityId: string) => {
+    const { error } = await supabase
+      .from('knowledge_community_links')
+      .delete()
+      .eq('conversation_id', conversationId)
+      .eq('community_id', communityId);
+
+    if (error) {
+      console.error('Error unlinking community:', error);
+      toast({
+        title: "Error",
+        description: "Failed to unlink the community",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (uploadTarget === communityId) setUploadTarget('conversation');
+    await loadKnowledge();
+  };
+
+  const openSource = async (source: KnowledgeSource) => {
+    if (source.message_id) {
+      onOpenChange(false);
+      onJumpToMessage(source.message_id);
+    } else if (source.storage_path && !(await openKnowledgeDocument(source.storage_path))) {
+      toast({
+        title: "Error",
+        description: "Failed to open the document",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const communityName = (communityId: string | null) =>
+    linkedCommunities.find(community => community.id === communityId)?.name;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <BookOpen className="w-5 h-5 text-primary" />
+            Knowledge Base
+          </SheetTitle>
+          <SheetDescription>
+            The bot answers from these in knowledge mode and links its sources.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6">
+          {(isAdmin || uploadTargets.length > 0) && (
+            <div className="space-y-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={DOCUMENT_ACCEPT}
+                className="hidden"
+                onChange={(e) => e.target.files?.[0] && uploadDocument(e.target.files[0])}
+              />
+              {uploadTargets.length > 0 && (
+                <Select value={uploadTarget} onValueChange={setUploadTarget}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Upload to" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {isAdmin && <SelectItem value="conversation">This group</SelectItem>}
+                    {uploadTargets.map((community) => (
+                      <SelectItem key={community.id} value={community.id}>{community.name} (community)</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button
+                variant="outline"
+                className="w-full"
+                disabled={uploading || (uploadTarget === 'conversation' && !isAdmin)}
+                onClick={() => fileInputRef.current?.click()}
+              >
+                {uploading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+                Upload Document
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                PDF, Markdown or text, up to 10 MB. Pin messages from their hover menu.
+              </p>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : sources.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center">Nothing in the knowledge base yet</p>
+          ) : (
+            <div className="space-y-2">
+              {sources.map((source) => (
+                <div key={source.id} className="flex items-start gap-2 p-2 rounded-lg bg-muted/50">
+                  {source.kind === 'message'
+                    ? <MessageSquareQuote className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" />
+                    : <FileText className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" />}
+                  <div className="flex-1 min-w-0">
+                    <button
+                      type="button"
+                      className="text-sm text-left hover:underline break-words line-clamp-2"
+                      onClick={() => openSource(source)}
+                    >
+                      {source.title}
+                    </button>
+                    <div className="flex items-center gap-1 flex-wrap mt-1">
+                      <Badge variant={source.status === 'failed' ? 'destructive' : 'secondary'} className="text-xs">
+                        {STATUS_LABELS[source.status] ?? source.status}
+                      </Badge>
+                      {source.community_id && (
+                        <Badge variant="outline" className="text-xs">{communityName(source.community_id)}</Badge>
+                      )}
+                      {source.status === 'ready' && (
+                        <span className="text-xs text-muted-foreground">{source.chunk_count} sections</span>
+                      )}
+                    </div>
+                    {source.last_error && (
+                      <p className="flex items-center gap-1 text-xs text-destructive mt-1">
+                        <AlertCircle className="w-3 h-3" />
+                        {source.last_error}
+                      </p>
+                    )}
+                  </div>
+                  {canManage(source) && source.status === 'failed' && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground"
+                      onClick={() => reindexSource(source)}
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {canManage(source) && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      onClick={() => removeSource(source)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Community documents</Label>
+            {linkedCommunities.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No communities linked</p>
+            ) : (
+              linkedCommunities.map((community) => (
+                <div key={community.id} className="flex items-center justify-between gap-2">
+                  <span className="text-sm truncate">{community.name}</span>
+                  {isAdmin && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      onClick={() => unlinkCommunity(community.id)}
+                    >
+                      <Unlink className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              ))
+            )}
+            {isAdmin && linkableCommunities.length > 0 && (
+              <div className="flex gap-2">
+                <Select value={communityToLink} onValueChange={setCommunityToLink}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Link a community you manage" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {linkableCommunities.map((community) => (
+                      <SelectItem key={community.id} value={community.id}>{community.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="icon" disabled={!communityToLink} onClick={linkCommunity}>
+                  <Link2 className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,51 @@
+import { FileText, MessageSquareQuote } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { KnowledgeCitation, openKnowledgeDocument } from "@/utils/knowledgeBase";
+
+interface KnowledgeCitationsProps {
+  citations: KnowledgeCitation[];
+  onJumpToMessage?: (messageId: string) => void;
+}
+
+/**
+ * The knowledge base sources under a bot reply. Pinned messages jump to the
+ * message; documents open in a new tab.
+ */
+export const KnowledgeCitations = ({ citations, onJumpToMessage }: KnowledgeCitationsProps) => {
+  const { toast } = useToast();
+
+  const openCitation = async (citation: KnowledgeCitation) => {
+    if (citation.message_id) {
+      onJumpToMessage?.(citation.message_id);
+      return;
+    }
+
+    if (citation.storage_path && !(await openKnowledgeDocument(citation.storage_path))) {
+      toast({
+        title: "Document unavailable",
+        description: "It may have been removed from the knowledge base.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-2">
+      {citations.map((citation) => (
+        <Badge
+          key={citation.source_id}
+          variant="outline"
+          className="cursor-pointer text-xs max-w-full"
+          title={citation.excerpt}
+          onClick={() => openCitation(citation)}
+        >
+          {citation.kind === 'message'
+            ? <MessageSquareQuote className="w-3 h-3 mr-1 shrink-0" />
+            : <FileText className="w-3 h-3 mr-1 shrink-0" />}
+          <span className="truncate">{citation.title}</span>
+        </Badge>
+      ))}
+    </div>
+  );
+};
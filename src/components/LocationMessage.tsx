@@ -0,0 +1,36 @@
+import { ExternalLink, MapPin } from "lucide-react";
+import { Json } from "@/integrations/supabase/types";
+import { mapUrl, parseLocation } from "@/utils/structuredMessages";
+
+interface LocationMessageProps {
+  metadata: Json | undefined;
+  fallback: string;
+}
+
+export const LocationMessage = ({ metadata, fallback }: LocationMessageProps) => {
+  const location = parseLocation(metadata);
+
+  if (!location) {
+    return <p className="text-sm break-words">{fallback}</p>;
+  }
+
+  return (
+    <a
+      href={mapUrl(location)}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex items-start gap-3 min-w-[200px] rounded-md border border-current/20 p-2 hover:border-current/50 transition-colors"
+    >
+      <div className="w-9 h-9 rounded-full bg-current/10 flex items-center justify-center flex-shrink-0">
+        <MapPin className="w-4 h-4" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">{location.label || 'Shared location'}</p>
+        <p className="text-xs opacity-70">
+          {location.latitude.toFixed(5)}, {location.longitude.toFixed(5)}
+        </p>
+      </div>
+      <ExternalLink className="w-3 h-3 opacity-60 flex-shrink-0 mt-1" />
+    </a>
+  );
+};
@@ -0,0 +1,84 @@
+import { forwardRef, useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { loadRecordingBlob, MeetingRecordingRow } from "@/utils/meetingRecorder";
+
+interface MeetingRecordingPlayerProps {
+  recording: MeetingRecordingRow;
+  onTimeUpdate: (seconds: number) => void;
+}
+
+/**
+ * Plays back a stored meeting recording. The media element is forwarded
+ * so the transcript can seek it.
+ */
+const MeetingRecordingPlayer = forwardRef<HTMLMediaElement, MeetingRecordingPlayerProps>(
+  ({ recording, onTimeUpdate }, ref) => {
+    const [url, setUrl] = useState<string | null>(null);
+    const [error, setError] = useState(false);
+
+    useEffect(() => {
+      let objectUrl: string | null = null;
+      let cancelled = false;
+
+      setUrl(null);
+      setError(false);
+      loadRecordingBlob(recording)
+        .then((blob) => {
+          if (cancelled) return;
+          objectUrl = URL.createObjectURL(blob);
+          setUrl(objectUrl);
+        })
+        .catch((loadError) => {
+          console.error("Error loading recording:", loadError);
+          if (!cancelled) setError(true);
+        });
+
+      return () => {
+        cancelled = true;
+        if (objectUrl) URL.revokeObjectURL(objectUrl);
+      };
+    }, [recording]);
+
+    if (error) {
+      return (
+        <div className="text-center py-8 text-muted-foreground">
+          <p>This recording could not be loaded</p>
+        </div>
+      );
+    }
+
+    if (!url) {
+      return (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        </div>
+      );
+    }
+
+    const handleTimeUpdate = (event: React.SyntheticEvent<HTMLMediaElement>) =>
+      onTimeUpdate(event.currentTarget.currentTime);
+
+    return recording.mime_type.startsWith("audio/") ? (
+      <audio
+        ref={ref as React.Ref<HTMLAudioElement>}
+        src={url}
+        controls
+        className="w-full"
+        onTimeUpdate={handleTimeUpdate}
+      />
+    ) : (
+      <video
+        ref={ref as React.Ref<HTMLVideoElement>}
+        src={url}
+        controls
+        playsInline
+        className="w-full max-h-[480px] rounded-lg bg-black"
+        onTimeUpdate={handleTimeUpdate}
+      />
+    );
+  }
+);
+
+MeetingRecordingPlayer.displayName = "MeetingRecordingPlayer";
+
+export default MeetingRecordingPlayer;
@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Download, FileText, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  formatFileSize,
+  getAttachmentKind,
+  getAttachmentUrl,
+  MessageAttachmentRow,
+} from "@/utils/attachments";
+
+// Resolve a storage path to a signed URL, or null while it is loading/unavailable
+const useAttachmentUrl = (storagePath?: string | null) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!storagePath) {
+      setUrl(null);
+      return;
+    }
+
+    let cancelled = false;
+    getAttachmentUrl(storagePath).then((signedUrl) => {
+      if (!cancelled) setUrl(signedUrl);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storagePath]);
+
+  return url;
+};
+
+const formatDuration = (durationMs?: number | null) => {
+  if (!durationMs) return null;
+  const totalSeconds = Math.round(durationMs / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const ImageAttachment = ({ attachment }: { attachment: MessageAttachmentRow }) => {
+  const [open, setOpen] = useState(false);
+  const previewUrl = useAttachmentUrl(attachment.thumbnail_path || attachment.storage_path);
+  const fullUrl = useAttachmentUrl(open ? attachment.storage_path : null);
+  const aspectRatio = attachment.width && attachment.height
+    ? `${attachment.width} / ${attachment.height}`
+    : undefined;
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="block w-60 max-w-full overflow-hidden rounded-lg bg-muted/50"
+        style={{ aspectRatio: aspectRatio || '4 / 3' }}
+      >
+        {previewUrl ? (
+          <img
+            src={previewUrl}
+            alt={attachment.file_name}
+            loading="lazy"
+            className="w-full h-full object-cover"
+          />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center">
+            <Loader2 className="w-4 h-4 animate-spin opacity-50" />
+          </div>
+        )}
+      </button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-4xl p-2">
+          <DialogTitle className="sr-only">{attachment.file_name}</DialogTitle>
+          {fullUrl ? (
+            <img src={fullUrl} alt={attachment.file_name} className="w-full max-h-[80vh] object-contain rounded" />
+          ) : (
+            <div className="h-64 flex items-center justify-center">
+              <Loader2 className="w-6 h-6 animate-spin opacity-50" />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+const VideoAttachment = ({ attachment }: { attachment: MessageAttachmentRow }) => {
+  const url = useAttachmentUrl(attachment.storage_path);
+  const posterUrl = useAttachmentUrl(attachment.thumbnail_path);
+
+  return (
+    <video
+      src={url || undefined}
+      poster={posterUrl || undefined}
+      controls
+      preload="metadata"
+      className="w-60 max-w-full rounded-lg bg-black"
+    />
+  );
+};
+
+const AudioAttachment = ({ attachment }: { attachment: MessageAttachmentRow }) => {
+  const url = useAttachmentUrl(attachment.storage_path);
+
+  return (
+    <div className="flex flex-col gap-1">
+      <audio src={url || undefined} controls preload="metadata" className="w-60 max-w-full h-10" />
+      {formatDuration(attachment.duration_ms) && (
+        <span className="text-xs opacity-70">{formatDuration(attachment.duration_ms)}</span>
+      )}
+    </div>
+  );
+};
+
+const FileAttachment = ({ attachment }: { attachment: MessageAttachmentRow }) => {
+  const url = useAttachmentUrl(attachment.storage_path);
+
+  return (
+    <div className="flex items-center gap-2 rounded-lg bg-muted/30 border border-border/50 px-3 py-2 w-60 max-w-full">
+      <FileText className="w-6 h-6 flex-shrink-0 opacity-70" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm truncate">{attachment.file_name}</p>
+        <p className="text-xs opacity-70">{formatFileSize(attachment.size_bytes)}</p>
+      </div>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 flex-shrink-0"
+        disabled={!url}
+        asChild={!!url}
+      >
+        {url ? (
+          <a href={url} download={attachment.file_name} target="_blank" rel="noreferrer">
+            <Download className="w-4 h-4" />
+          </a>
+        ) : (
+          <Download className="w-4 h-4" />
+        )}
+      </Button>
+    </div>
+  );
+};
+
+const MessageAttachments = ({
+  attachments,
+  className,
+}: {
+  attachments: MessageAttachmentRow[];
+  className?: string;
+}) => {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className={cn("flex flex-col gap-2", className)}>
+      {attachments.map((attachment) => {
+        switch (getAttachmentKind(attachment.mime_type)) {
+          case 'image':
+            return <ImageAttachment key={attachment.id} attachment={attachment} />;
+          case 'video':
+            return <VideoAttachment key={attachment.id} attachment={attachment} />;
+          case 'audio':
+            return <AudioAttachment key={attachment.id} attachment={attachment} />;
+          default:
+            return <FileAttachment key={attachment.id} attachment={attachment} />;
+        }
+      })}
+    </div>
+  );
+};
+
+export default MessageAttachments;
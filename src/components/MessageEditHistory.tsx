@@ -0,0 +1,93 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { History } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+
+type MessageEditRow = Database["public"]["Tables"]["message_edits"]["Row"];
+
+const formatTimestamp = (value: string | Date) =>
+  new Date(value).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const MessageEditHistory = ({
+  messageId,
+  currentText,
+  sentAt,
+  open,
+  onOpenChange,
+}: {
+  messageId: string;
+  currentText: string;
+  sentAt: Date;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) => {
+  const [edits, setEdits] = useState<MessageEditRow[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const loadEdits = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('message_edits')
+        .select('*')
+        .eq('message_id', messageId)
+        .order('edited_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching edit history:', error);
+      }
+      setEdits(data || []);
+      setLoading(false);
+    };
+
+    loadEdits();
+  }, [open, messageId]);
+
+  // Each edit row holds the content that was replaced at edited_at
+  const versions = [
+    ...edits.map((edit, index) => ({
+      text: edit.previous_content || '',
+      at: index === 0 ? sentAt : new Date(edits[index - 1].edited_at),
+    })),
+    { text: currentText, at: edits.length > 0 ? new Date(edits[edits.length - 1].edited_at) : sentAt },
+  ].reverse();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-4 h-4" />
+            Edit history
+          </DialogTitle>
+        </DialogHeader>
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <div className="w-5 h-5 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : (
+          <ul className="space-y-3 max-h-[60vh] overflow-y-auto">
+            {versions.map((version, index) => (
+              <li key={index} className="rounded-lg border border-border p-3">
+                <p className="text-xs text-muted-foreground mb-1">
+                  {index === 0 ? 'Current' : index === versions.length - 1 ? 'Original' : 'Edited'} · {formatTimestamp(version.at)}
+                </p>
+                <p className="text-sm whitespace-pre-wrap">{version.text}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MessageEditHistory;
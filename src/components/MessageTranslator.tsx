@@ -1,8 +1,11 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Languages, Loader2, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Languages, Loader2, PencilLine, X } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { planLimitMessage } from "@/utils/billing";
 import {
   Select,
   SelectContent,
@@ -14,6 +17,7 @@ import {
 interface MessageTranslatorProps {
   messageId: string;
   messageText: string;
+  conversationId?: string;
 }
 
 const LANGUAGES = [
@@ -31,12 +35,18 @@ const LANGUAGES = [
   { code: 'hi', name: 'Hindi' },
 ];
 
-const MessageTranslator = ({ messageId, messageText }: MessageTranslatorProps) => {
+const MessageTranslator = ({ messageId, messageText, conversationId }: MessageTranslatorProps) => {
   const [showTranslation, setShowTranslation] = useState(false);
   const [translating, setTranslating] = useState(false);
   const [translatedText, setTranslatedText] = useState<string | null>(null);
   const [sourceLanguage, setSourceLanguage] = useState<string | null>(null);
   const [targetLanguage, setTargetLanguage] = useState<string>('en');
+  const [correcting, setCorrecting] = useState(false);
+  const [correctionTerm, setCorrectionTerm] = useState('');
+  const [correctionText, setCorrectionText] = useState('');
+  const [keepOriginal, setKeepOriginal] = useState(false);
+  const [shareWithChat, setShareWithChat] = useState(false);
+  const [savingCorrection, setSavingCorrection] = useState(false);
   const { toast } = useToast();
 
   const handleTranslate = async () => {
@@ -51,15 +61,17 @@ const MessageTranslator = ({ messageId, messageText }: MessageTranslatorProps) =
           text: messageText,
           targetLanguage,
           messageId,
+          conversationId,
         },
       });
 
-      if (error) throw error;
+      if (error) {
+        const limitMessage = await planLimitMessage(error);
+        if (!limitMessage) throw error;
 
-      if (data.limitReached) {
         toast({
           title: "Translation limit reached",
-          description: data.message,
+          description: limitMessage,
           variant: "destructive",
         });
         setShowTranslation(false);
@@ -86,6 +98,42 @@ const MessageTranslator = ({ messageId, messageText }: MessageTranslatorProps) =
     }
   };
 
+  // Corrections go into the glossary, then the message is translated again with it
+  const saveCorrection = async () => {
+    if (!correctionTerm.trim() || (!keepOriginal && !correctionText.trim())) return;
+
+    setSavingCorrection(true);
+    try {
+      const { error } = await supabase.rpc('save_glossary_term', {
+        _scope: shareWithChat && conversationId ? 'conversation' : 'user',
+        _source_term: correctionTerm.trim(),
+        _translation: keepOriginal ? undefined : correctionText.trim(),
+        _target_language: keepOriginal ? undefined : targetLanguage,
+        _conversation_id: shareWithChat ? conversationId : undefined,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Saved to glossary",
+        description: `"${correctionTerm.trim()}" will be used in future translations`,
+      });
+      setCorrecting(false);
+      setCorrectionTerm('');
+      setCorrectionText('');
+      handleTranslate();
+    } catch (error) {
+      console.error('Error saving translation correction:', error);
+      toast({
+        title: "Correction failed",
+        description: "Failed to save the correction to your glossary",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingCorrection(false);
+    }
+  };
+
   return (
     <div className="space-y-2">
       {!showTranslation ? (
@@ -129,14 +177,27 @@ const MessageTranslator = ({ messageId, messageText }: MessageTranslatorProps) =
                 {targetLanguage.toUpperCase()}
               </span>
             </div>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => setShowTranslation(false)}
-              className="h-6 w-6 p-0"
-            >
-              <X className="w-3 h-3" />
-            </Button>
+            <div className="flex items-center gap-1">
+              {!translating && translatedText && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setCorrecting(!correcting)}
+                  className="h-6 w-6 p-0"
+                  title="Correct a term"
+                >
+                  <PencilLine className="w-3 h-3" />
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowTranslation(false)}
+                className="h-6 w-6 p-0"
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
           </div>
           {translating ? (
             <div className="flex items-center gap-2 text-xs text-muted-foreground">
@@ -146,6 +207,47 @@ const MessageTranslator = ({ messageId, messageText }: MessageTranslatorProps) =
           ) : (
             <p className="text-sm">{translatedText}</p>
           )}
+          {correcting && !translating && (
+            <div className="space-y-2 pt-2 border-t border-border/50">
+              <Input
+                value={correctionTerm}
+                onChange={(e) => setCorrectionTerm(e.target.value)}
+                placeholder="Term in the original message"
+                className="h-7 text-xs"
+                maxLength={200}
+              />
+              {!keepOriginal && (
+                <Input
+                  value={correctionText}
+                  onChange={(e) => setCorrectionText(e.target.value)}
+                  placeholder={`Should be translated to ${targetLanguage.toUpperCase()} as…`}
+                  className="h-7 text-xs"
+                  maxLength={200}
+                />
+              )}
+              <div className="flex items-center justify-between text-xs">
+                <label className="flex items-center gap-2">
+                  <Switch checked={keepOriginal} onCheckedChange={setKeepOriginal} />
+                  Don't translate
+                </label>
+                {conversationId && (
+                  <label className="flex items-center gap-2">
+                    <Switch checked={shareWithChat} onCheckedChange={setShareWithChat} />
+                    Share with chat
+                  </label>
+                )}
+              </div>
+              <Button
+                size="sm"
+                onClick={saveCorrection}
+                disabled={savingCorrection || !correctionTerm.trim() || (!keepOriginal && !correctionText.trim())}
+                className="h-7 w-full text-xs"
+              >
+                {savingCorrection && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+                Save to glossary
+              </Button>
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import { Loader2, ShieldAlert } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { categoryLabel, ModerationFlag } from "@/utils/moderation";
+
+interface ModerationAppealDialogProps {
+  messageId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Shows the sender why their message was flagged and lets them ask the
+ * group's admins to take another look.
+ */
+export const ModerationAppealDialog = ({ messageId, onOpenChange }: ModerationAppealDialogProps) => {
+  const [flag, setFlag] = useState<ModerationFlag | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!messageId) return;
+
+    setReason('');
+    setFlag(null);
+    setLoading(true);
+
+    supabase
+      .from('moderation_flags')
+      .select('*')
+      .eq('message_id', messageId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) console.error('Error loading moderation flag:', error);
+        setFlag(data);
+        setLoading(false);
+      });
+  }, [messageId]);
+
+  const canAppeal = !!flag && flag.status !== 'dismissed' && !flag.appeal_status;
+
+  const submitAppeal = async () => {
+    if (!flag || !reason.trim()) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('appeal_moderation_flag', {
+        _flag_id: flag.id,
+        _reason: reason.trim(),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Appeal sent",
+        description: "The group's admins will review your message again",
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error appealing moderation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to send your appeal",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!messageId} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldAlert className="w-5 h-5 text-primary" />
+            Flagged Message
+          </DialogTitle>
+          <DialogDescription>
+            Automatic moderation flagged this message for the group's admins.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : !flag ? (
+          <p className="text-sm text-muted-foreground">No moderation details found for this message.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-1">
+              {flag.categories.map((category) => (
+                <Badge key={category} variant="destructive">{categoryLabel(category)}</Badge>
+              ))}
+            </div>
+            {flag.reason && <p className="text-sm">{flag.reason}</p>}
+
+            {flag.appeal_status === 'pending' && (
+              <p className="text-sm text-muted-foreground">Your appeal is waiting for an admin.</p>
+            )}
+            {flag.appeal_status === 'rejected' && (
+              <p className="text-sm text-muted-foreground">Your appeal was rejected.</p>
+            )}
+            {flag.status === 'upheld' && !flag.appeal_status && (
+              <p className="text-sm text-muted-foreground">An admin upheld this flag. You can still appeal once.</p>
+            )}
+
+            {canAppeal && (
+              <Textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Why should this message be allowed?"
+                rows={3}
+                maxLength={1000}
+              />
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {canAppeal && (
+            <Button onClick={submitAppeal} disabled={!reason.trim() || submitting}>
+              {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Appeal
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
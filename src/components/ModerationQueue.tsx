@@ -0,0 +1,237 @@
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Check, Loader2, MessageSquareWarning, ShieldAlert, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { categoryLabel, ModerationFlag } from "@/utils/moderation";
+
+const HISTORY_LIMIT = 50;
+
+interface ModerationQueueProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conversationId: string;
+  conversationName: string;
+  currentUserId: string | null;
+}
+
+const needsReview = (flag: ModerationFlag) => flag.status === 'pending' || flag.appeal_status === 'pending';
+
+/**
+ * Flagged messages for a group's admins to review, including appeals from
+ * senders. Decisions are made through RPCs that also write the audit log.
+ */
+export const ModerationQueue = ({
+  open,
+  onOpenChange,
+  conversationId,
+  conversationName,
+  currentUserId,
+}: ModerationQueueProps) => {
+  const [flags, setFlags] = useState<ModerationFlag[]>([]);
+  const [names, setNames] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [actingOn, setActingOn] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadFlags = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('moderation_flags')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: false })
+        .limit(HISTORY_LIMIT);
+
+      if (error) throw error;
+      setFlags(data || []);
+
+      const senderIds = [...new Set((data || []).map(flag => flag.sender_id))];
+      if (senderIds.length > 0) {
+        const { data: profiles } = await supabase
+          .from('profiles')
+          .select('user_id, display_name')
+          .in('user_id', senderIds);
+        setNames(new Map((profiles || []).map(p => [p.user_id, p.display_name])));
+      }
+    } catch (error) {
+      console.error('Error loading moderation queue:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the moderation queue",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [conversationId, toast]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    loadFlags();
+
+    const channel = supabase
+      .channel(`moderation-queue-${conversationId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'moderation_flags', filter: `conversation_id=eq.${conversationId}` },
+        () => loadFlags()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [open, conversationId, loadFlags]);
+
+  const decide = async (flag: ModerationFlag, action: 'upheld' | 'dismissed' | 'accept' | 'reject') => {
+    setActingOn(flag.id);
+    try {
+      const { error } = action === 'accept' || action === 'reject'
+        ? await supabase.rpc('resolve_moderation_appeal', { _flag_id: flag.id, _accept: action === 'accept' })
+        : await supabase.rpc('review_moderation_flag', { _flag_id: flag.id, _decision: action });
+
+      if (error) throw error;
+      await loadFlags();
+    } catch (error) {
+      console.error('Error reviewing flag:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the decision",
+        variant: "destructive",
+      });
+    } finally {
+      setActingOn(null);
+    }
+  };
+
+  const renderFlag = (flag: ModerationFlag) => {
+    const isOwn = flag.sender_id === currentUserId;
+    const busy = actingOn === flag.id;
+
+    return (
+      <div key={flag.id} className="space-y-2 p-3 rounded-lg bg-muted/50">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm font-medium truncate">{names.get(flag.sender_id) || 'Unknown'}</p>
+          <span className="text-xs text-muted-foreground flex-shrink-0">
+            {format(new Date(flag.created_at), 'PPp')}
+          </span>
+        </div>
+
+        <p className="text-sm whitespace-pre-wrap break-words line-clamp-4">
+          {flag.content_snapshot || <span className="italic text-muted-foreground">No text</span>}
+        </p>
+
+        <div className="flex flex-wrap gap-1">
+          {flag.categories.map((category) => (
+            <Badge key={category} variant="destructive" className="text-xs">{categoryLabel(category)}</Badge>
+          ))}
+          {flag.actions.map((action) => (
+            <Badge key={action} variant="outline" className="text-xs">{action}</Badge>
+          ))}
+          {flag.status !== 'pending' && (
+            <Badge variant="secondary" className="text-xs">{flag.status}</Badge>
+          )}
+        </div>
+
+        {flag.reason && <p className="text-xs text-muted-foreground">{flag.reason}</p>}
+
+        {flag.appeal_reason && (
+          <div className="text-xs p-2 rounded bg-background border border-border">
+            <p className="font-medium flex items-center gap-1">
+              <MessageSquareWarning className="w-3 h-3" />
+              Appeal{flag.appeal_status !== 'pending' && ` ${flag.appeal_status}`}
+            </p>
+            <p className="mt-1 whitespace-pre-wrap break-words">{flag.appeal_reason}</p>
+          </div>
+        )}
+
+        {isOwn && needsReview(flag) && (
+          <p className="text-xs text-muted-foreground italic">Another admin needs to review your own message.</p>
+        )}
+
+        {!isOwn && flag.status === 'pending' && flag.appeal_status !== 'pending' && (
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" disabled={busy} onClick={() => decide(flag, 'dismissed')}>
+              <Check className="w-4 h-4 mr-1" />
+              Allow
+            </Button>
+            <Button size="sm" variant="destructive" disabled={busy} onClick={() => decide(flag, 'upheld')}>
+              <X className="w-4 h-4 mr-1" />
+              Uphold
+            </Button>
+          </div>
+        )}
+
+        {!isOwn && flag.appeal_status === 'pending' && (
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" disabled={busy} onClick={() => decide(flag, 'accept')}>
+              <Check className="w-4 h-4 mr-1" />
+              Accept appeal
+            </Button>
+            <Button size="sm" variant="destructive" disabled={busy} onClick={() => decide(flag, 'reject')}>
+              <X className="w-4 h-4 mr-1" />
+              Reject appeal
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const toReview = flags.filter(needsReview);
+  const resolved = flags.filter(flag => !needsReview(flag));
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <ShieldAlert className="w-5 h-5 text-primary" />
+            Moderation Queue
+          </SheetTitle>
+          <SheetDescription>
+            Messages flagged in {conversationName}. Allowing a message unhides it and lifts any mute.
+          </SheetDescription>
+        </SheetHeader>
+
+        {loading && flags.length === 0 ? (
+          <div className="flex justify-center py-4 mt-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Tabs defaultValue="review" className="mt-6">
+            <TabsList className="w-full">
+              <TabsTrigger value="review" className="flex-1">
+                To review{toReview.length > 0 && ` (${toReview.length})`}
+              </TabsTrigger>
+              <TabsTrigger value="resolved" className="flex-1">Resolved</TabsTrigger>
+            </TabsList>
+            <TabsContent value="review" className="space-y-2">
+              {toReview.length === 0
+                ? <p className="text-sm text-muted-foreground text-center py-4">Nothing to review</p>
+                : toReview.map(renderFlag)}
+            </TabsContent>
+            <TabsContent value="resolved" className="space-y-2">
+              {resolved.length === 0
+                ? <p className="text-sm text-muted-foreground text-center py-4">No decisions yet</p>
+                : resolved.map(renderFlag)}
+            </TabsContent>
+          </Tabs>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -2,9 +2,11 @@ import { useState, useRef, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { ArrowLeft, Send, Sparkles, Trash2, Loader2, Plus, MessageSquare, ChevronLeft, Pencil, Check, X, Search, Download, FileText, FileJson } from 'lucide-react';
+import { ArrowLeft, Send, Sparkles, Trash2, Loader2, Plus, MessageSquare, ChevronLeft, Pencil, Check, X, Search, Download, FileText, FileJson, Square, RefreshCw } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import NexoraToolCallCard, { ToolActivity } from '@/components/NexoraToolCallCard';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -16,6 +18,8 @@ interface Message {
   id?: string;
   role: 'user' | 'assistant';
   content: string;
+  // Tools the assistant used while writing this reply
+  toolCalls?: ToolActivity[];
 }
 
 interface Conversation {
@@ -31,6 +35,17 @@ interface NexoraAIChatProps {
 
 const MAX_HISTORY_MESSAGES = 50;
 
+// The model only sees text, so note what happened to each tool call in its turn
+const toApiMessages = (history: Message[]) =>
+  history
+    .map(m => {
+      const notes = (m.toolCalls || []).map(call =>
+        `[${call.name}: ${call.status === 'pending' ? 'awaiting confirmation' : call.status}]`
+      );
+      return { role: m.role, content: [m.content, ...notes].filter(Boolean).join('\n\n') };
+    })
+    .filter(m => m.content);
+
 const NexoraAIChat = ({ onClose, initialQuery }: NexoraAIChatProps) => {
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
@@ -44,6 +59,7 @@ const NexoraAIChat = ({ onClose, initialQuery }: NexoraAIChatProps) => {
   const [editingTitle, setEditingTitle] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedConversationIndex, setSelectedConversationIndex] = useState(-1);
+  const [confirmingToolId, setConfirmingToolId] = useState<string | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
   const editInputRef = useRef<HTMLInputElement>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
@@ -51,6 +67,7 @@ const NexoraAIChat = ({ onClose, initialQuery }: NexoraAIChatProps) => {
   const { toast } = useToast();
   const processedInitialQuery = useRef(false);
   const isRequestInProgress = useRef(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Load conversations list
   useEffect(() => {
@@ -94,7 +111,7 @@ const NexoraAIChat = ({ onClose, initialQuery }: NexoraAIChatProps) => {
     try {
       const { data, error } = await supabase
         .from('ai_chat_messages')
-        .select('id, role, content')
+        .select('id, role, content, tool_calls')
         .eq('conversation_id', conversationId)
         .order('created_at', { ascending: true })
         .limit(MAX_HISTORY_MESSAGES);
@@ -105,7 +122,8 @@ const NexoraAIChat = ({ onClose, initialQuery }: NexoraAIChatProps) => {
         setMessages(data?.map(m => ({
           id: m.id,
           role: m.role as 'user' | 'assistant',
-          content: m.content
+          content: m.content,
+          toolCalls: (m.tool_calls as unknown as ToolActivity[] | null) ?? undefined,
         })) || []);
       }
     } catch (error) {
@@ -295,10 +313,12 @@ const NexoraAIChat = ({ onClose, initialQuery }: NexoraAIChatProps) => {
       const { data, error } = await supabase
         .from('ai_chat_messages')
         .insert({
+          ...(message.id && { id: message.id }),
           user_id: session.user.id,
           conversation_id: conversationId,
           role: message.role,
           content: message.content,
+          tool_calls: message.toolCalls?.length ? (message.toolCalls as unknown as Json) : null,
         })
         .select('id')
         .single();
@@ -493,18 +513,40 @@ const NexoraAIChat = ({ onClose, initialQuery }: NexoraAIChatProps) => {
       updateConversationTitle(targetConvId, newTitle);
     }
 
+    await streamReply([...messages, userMessage], targetConvId, session.access_token);
+  };
+
+  const streamReply = async (history: Message[], targetConvId: string, accessToken: string) => {
+    const assistantId = crypto.randomUUID();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsLoading(true);
+
     let assistantContent = '';
+    let toolCalls: ToolActivity[] = [];
+    let started = false;
+
+    const updateAssistant = () => {
+      setMessages(prev => prev.map(m =>
+        m.id === assistantId ? { ...m, content: assistantContent, toolCalls: toolCalls.length ? toolCalls : undefined } : m
+      ));
+    };
+    const updateToolCall = (id: string, update: Partial<ToolActivity>) => {
+      toolCalls = toolCalls.map(call => call.id === id ? { ...call, ...update } : call);
+    };
 
     try {
       const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/nexora-ai-chat`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${session.access_token}`,
+          'Authorization': `Bearer ${accessToken}`,
         },
         body: JSON.stringify({
-          messages: [...messages, userMessage].map(m => ({ role: m.role, content: m.content }))
+          messages: toApiMessages(history),
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
         }),
+        signal: controller.signal,
       });
 
       if (!response.ok) {
@@ -525,10 +567,12 @@ const NexoraAIChat = ({ onClose, initialQuery }: NexoraAIChatProps) => {
       const reader = response.body.getReader();
       const decoder = new TextDecoder();
       let buffer = '';
+      let streamError: string | null = null;
 
-      setMessages(prev => [...prev, { role: 'assistant', content: '' }]);
+      started = true;
+      setMessages(prev => [...prev, { id: assistantId, role: 'assistant', content: '' }]);
 
-      while (true) {
+      while (!streamError) {
         const { done, value } = await reader.read();
         if (done) break;
 
@@ -546,44 +590,133 @@ const NexoraAIChat = ({ onClose, initialQuery }: NexoraAIChatProps) => {
           const jsonStr = line.slice(6).trim();
           if (jsonStr === '[DONE]') break;
 
+          let parsed;
           try {
-            const parsed = JSON.parse(jsonStr);
-            const content = parsed.choices?.[0]?.delta?.content;
-            if (content) {
-              assistantContent += content;
-              setMessages(prev => {
-                const newMessages = [...prev];
-                const lastMessage = newMessages[newMessages.length - 1];
-                if (lastMessage?.role === 'assistant') {
-                  lastMessage.content = assistantContent;
-                }
-                return newMessages;
-              });
-            }
+            parsed = JSON.parse(jsonStr);
           } catch {
             buffer = line + '\n' + buffer;
             break;
           }
+
+          if (parsed.error) {
+            streamError = parsed.error;
+            break;
+          }
+
+          if (parsed.tool_call) {
+            toolCalls = [...toolCalls, { ...parsed.tool_call, status: 'running' }];
+          } else if (parsed.tool_result) {
+            const { id, result, error } = parsed.tool_result;
+            updateToolCall(id, error ? { status: 'failed', error } : { status: 'done', result });
+          } else if (parsed.tool_confirmation) {
+            updateToolCall(parsed.tool_confirmation.id, { status: 'pending', preview: parsed.tool_confirmation.preview });
+          } else {
+            const content = parsed.choices?.[0]?.delta?.content;
+            if (!content) continue;
+            assistantContent += content;
+          }
+          updateAssistant();
         }
       }
 
-      if (assistantContent) {
-        saveMessage({ role: 'assistant', content: assistantContent }, targetConvId);
+      if (streamError) {
+        throw new Error(streamError);
       }
     } catch (error) {
-      console.error('Nexora AI error:', error);
-      toast({
-        title: 'Error',
-        description: error instanceof Error ? error.message : 'Failed to get AI response',
-        variant: 'destructive',
-      });
-      setMessages(prev => prev.filter(m => m.content !== ''));
+      // Stopping keeps whatever arrived so far
+      if (!controller.signal.aborted) {
+        console.error('Nexora AI error:', error);
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to get AI response',
+          variant: 'destructive',
+        });
+      }
     } finally {
+      if (started) {
+        toolCalls = toolCalls.map(call =>
+          call.status === 'running' ? { ...call, status: 'failed', error: 'Stopped before it finished' } : call
+        );
+        if (assistantContent || toolCalls.length > 0) {
+          updateAssistant();
+          saveMessage({ id: assistantId, role: 'assistant', content: assistantContent, toolCalls }, targetConvId);
+        } else {
+          setMessages(prev => prev.filter(m => m.id !== assistantId));
+        }
+      }
+      abortControllerRef.current = null;
       setIsLoading(false);
       isRequestInProgress.current = false;
     }
   };
 
+  const stopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const regenerateLastReply = async () => {
+    const lastMessage = messages[messages.length - 1];
+    if (isLoading || isRequestInProgress.current || !activeConversationId || lastMessage?.role !== 'assistant') return;
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return;
+
+    isRequestInProgress.current = true;
+    const history = messages.slice(0, -1);
+    setMessages(history);
+
+    if (lastMessage.id) {
+      const { error } = await supabase.from('ai_chat_messages').delete().eq('id', lastMessage.id);
+      if (error) console.error('Failed to delete replaced reply:', error);
+    }
+
+    await streamReply(history, activeConversationId, session.access_token);
+  };
+
+  // Run or decline an action the assistant proposed; nothing is written until this
+  const resolveToolCall = async (messageId: string, activity: ToolActivity, confirmed: boolean) => {
+    let update: Partial<ToolActivity> = { status: 'cancelled' };
+
+    if (confirmed) {
+      setConfirmingToolId(activity.id);
+      try {
+        const { data, error } = await supabase.functions.invoke('nexora-ai-chat', {
+          body: { confirmTool: { name: activity.name, arguments: activity.arguments } },
+        });
+        if (error) throw error;
+        if (data?.error) throw new Error(data.error);
+
+        update = { status: 'confirmed', result: data.result };
+        toast({
+          title: activity.name === 'create_meeting' ? 'Meeting created' : 'Draft saved',
+          description: activity.name === 'create_meeting'
+            ? 'Your invitations have been sent.'
+            : `It will be waiting in your chat with ${activity.preview?.conversation_name ?? 'them'}.`,
+        });
+      } catch (error) {
+        console.error('Failed to run confirmed action:', error);
+        toast({
+          title: 'Action failed',
+          description: error instanceof Error ? error.message : 'Please try again.',
+          variant: 'destructive',
+        });
+        return;
+      } finally {
+        setConfirmingToolId(null);
+      }
+    }
+
+    const message = messages.find(m => m.id === messageId);
+    const updatedCalls = (message?.toolCalls || []).map(call => call.id === activity.id ? { ...call, ...update } : call);
+    setMessages(prev => prev.map(m => m.id === messageId ? { ...m, toolCalls: updatedCalls } : m));
+
+    const { error } = await supabase
+      .from('ai_chat_messages')
+      .update({ tool_calls: updatedCalls as unknown as Json })
+      .eq('id', messageId);
+    if (error) console.error('Failed to save action status:', error);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     sendMessage(input);
@@ -917,10 +1050,38 @@ const NexoraAIChat = ({ onClose, initialQuery }: NexoraAIChatProps) => {
                     : 'bg-muted rounded-bl-md'
                 }`}
               >
-                <p className="text-sm whitespace-pre-wrap">{message.content || '...'}</p>
+                {message.toolCalls && message.toolCalls.length > 0 && (
+                  <div className={`space-y-2 ${message.content ? 'mb-2' : ''}`}>
+                    {message.toolCalls.map(activity => (
+                      <NexoraToolCallCard
+                        key={activity.id}
+                        activity={activity}
+                        isConfirming={confirmingToolId === activity.id}
+                        onConfirm={() => message.id && resolveToolCall(message.id, activity, true)}
+                        onCancel={() => message.id && resolveToolCall(message.id, activity, false)}
+                      />
+                    ))}
+                  </div>
+                )}
+                {(message.content || !message.toolCalls?.length) && (
+                  <p className="text-sm whitespace-pre-wrap">{message.content || '...'}</p>
+                )}
               </div>
             </div>
           ))}
+          {!isLoading && messages[messages.length - 1]?.role === 'assistant' && (
+            <div className="flex justify-start">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 gap-1 text-xs text-muted-foreground"
+                onClick={regenerateLastReply}
+              >
+                <RefreshCw className="w-3.5 h-3.5" />
+                Regenerate
+              </Button>
+            </div>
+          )}
           {isLoading && messages[messages.length - 1]?.role !== 'assistant' && (
             <div className="flex justify-start">
               <div className="bg-muted rounded-2xl rounded-bl-md px-4 py-2">
@@ -947,14 +1108,27 @@ const NexoraAIChat = ({ onClose, initialQuery }: NexoraAIChatProps) => {
             disabled={isLoading}
             maxLength={10000}
           />
-          <Button
-            type="submit"
-            size="icon"
-            className="rounded-full shrink-0"
-            disabled={!input.trim() || isLoading}
-          >
-            <Send className="w-4 h-4" />
-          </Button>
+          {isLoading ? (
+            <Button
+              type="button"
+              size="icon"
+              variant="secondary"
+              className="rounded-full shrink-0"
+              onClick={stopGenerating}
+              title="Stop generating"
+            >
+              <Square className="w-4 h-4" />
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              size="icon"
+              className="rounded-full shrink-0"
+              disabled={!input.trim()}
+            >
+              <Send className="w-4 h-4" />
+            </Button>
+          )}
         </div>
       </form>
     </div>
@@ -0,0 +1,167 @@
+import { Button } from '@/components/ui/button';
+import { Calendar, CalendarPlus, Check, FileText, Loader2, MessageSquarePlus, Search, X } from 'lucide-react';
+
+export type ToolActivityStatus = 'running' | 'done' | 'failed' | 'pending' | 'confirmed' | 'cancelled';
+
+// What a write tool will do, as resolved by the server before confirmation
+export interface ToolPreview {
+  title?: string;
+  start?: string;
+  end?: string;
+  is_video?: boolean;
+  participants?: { user_id: string; name: string }[];
+  conversation_id?: string;
+  conversation_name?: string;
+  content?: string;
+}
+
+export interface ToolResult {
+  results?: { source: string; id: string; conversation_id: string | null; snippet: string }[];
+  conversation_name?: string;
+  message_count?: number;
+  summary?: string;
+  meetings?: { id: string; title: string; scheduled_start: string }[];
+  meeting?: { id: string; title: string; meeting_link: string };
+}
+
+export interface ToolActivity {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  status: ToolActivityStatus;
+  preview?: ToolPreview;
+  result?: ToolResult;
+  error?: string;
+}
+
+interface NexoraToolCallCardProps {
+  activity: ToolActivity;
+  isConfirming?: boolean;
+  onConfirm?: () => void;
+  onCancel?: () => void;
+}
+
+const TOOL_LABELS: Record<string, { icon: typeof Search; running: string; done: string }> = {
+  search_messages: { icon: Search, running: 'Searching your messages', done: 'Searched your messages' },
+  summarize_conversation: { icon: FileText, running: 'Summarizing the chat', done: 'Summarized the chat' },
+  list_upcoming_meetings: { icon: Calendar, running: 'Checking your meetings', done: 'Checked your meetings' },
+  create_meeting: { icon: CalendarPlus, running: 'Preparing a meeting', done: 'Meeting' },
+  draft_message: { icon: MessageSquarePlus, running: 'Preparing a draft', done: 'Draft message' },
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+const ResultSummary = ({ activity }: { activity: ToolActivity }) => {
+  const { name, result } = activity;
+  if (!result) return null;
+
+  switch (name) {
+    case 'search_messages':
+      return (
+        <p className="text-xs text-muted-foreground">
+          {result.results?.length
+            ? `${result.results.length} match${result.results.length === 1 ? '' : 'es'}`
+            : 'No matches'}
+        </p>
+      );
+    case 'summarize_conversation':
+      return (
+        <p className="text-xs text-muted-foreground">
+          {result.conversation_name} · {result.message_count} messages
+        </p>
+      );
+    case 'list_upcoming_meetings':
+      return result.meetings?.length ? (
+        <ul className="text-xs text-muted-foreground space-y-0.5">
+          {result.meetings.map(meeting => (
+            <li key={meeting.id}>
+              {meeting.title} · {formatDateTime(meeting.scheduled_start)}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-muted-foreground">No upcoming meetings</p>
+      );
+    default:
+      return null;
+  }
+};
+
+const WritePreview = ({ activity }: { activity: ToolActivity }) => {
+  const preview = activity.preview;
+  if (!preview) return null;
+
+  if (activity.name === 'create_meeting') {
+    return (
+      <div className="text-xs space-y-0.5">
+        <p className="font-medium">{preview.title}</p>
+        <p className="text-muted-foreground">
+          {formatDateTime(preview.start)} – {formatDateTime(preview.end)} · {preview.is_video ? 'Video' : 'Audio'}
+        </p>
+        <p className="text-muted-foreground">
+          With {preview.participants?.map(p => p.name).join(', ')}
+        </p>
+      </div>
+    );
+  }
+
+  if (activity.name === 'draft_message') {
+    return (
+      <div className="text-xs space-y-1">
+        <p className="text-muted-foreground">To {preview.conversation_name}</p>
+        <p className="whitespace-pre-wrap rounded-md bg-background/60 px-2 py-1">{preview.content}</p>
+      </div>
+    );
+  }
+
+  return null;
+};
+
+/**
+ * One tool call inside a Nexora AI reply. Lookups show what was found;
+ * actions that write show what will happen and wait for Confirm.
+ */
+const NexoraToolCallCard = ({ activity, isConfirming, onConfirm, onCancel }: NexoraToolCallCardProps) => {
+  const label = TOOL_LABELS[activity.name] ?? { icon: Search, running: activity.name, done: activity.name };
+  const Icon = label.icon;
+  const isWrite = activity.preview !== undefined;
+
+  return (
+    <div className="rounded-xl border border-border/60 bg-background/40 px-3 py-2 space-y-1.5">
+      <div className="flex items-center gap-2 text-xs font-medium">
+        {activity.status === 'running' ? (
+          <Loader2 className="w-3.5 h-3.5 animate-spin text-primary" />
+        ) : (
+          <Icon className="w-3.5 h-3.5 text-primary" />
+        )}
+        <span>{activity.status === 'running' ? `${label.running}…` : label.done}</span>
+        {activity.status === 'confirmed' && <span className="ml-auto text-primary">Done</span>}
+        {activity.status === 'cancelled' && <span className="ml-auto text-muted-foreground">Cancelled</span>}
+      </div>
+
+      {activity.status === 'failed' && (
+        <p className="text-xs text-destructive">{activity.error || 'Something went wrong'}</p>
+      )}
+
+      {activity.status === 'done' && <ResultSummary activity={activity} />}
+
+      {isWrite && <WritePreview activity={activity} />}
+
+      {activity.status === 'pending' && (
+        <div className="flex gap-2 pt-1">
+          <Button size="sm" className="h-7 gap-1" onClick={onConfirm} disabled={isConfirming}>
+            {isConfirming ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Check className="w-3.5 h-3.5" />}
+            Confirm
+          </Button>
+          <Button size="sm" variant="ghost" className="h-7 gap-1" onClick={onCancel} disabled={isConfirming}>
+            <X className="w-3.5 h-3.5" />
+            Cancel
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NexoraToolCallCard;
@@ -0,0 +1,227 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, Trash2, UserPlus, Users } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { BillingOrganization, MAX_SEATS, OrganizationSeat } from '@/utils/billing';
+
+interface OrganizationSeatsProps {
+  organizationId: string;
+}
+
+interface SeatHolder extends OrganizationSeat {
+  display_name: string;
+  username: string | null;
+}
+
+/**
+ * The seats an enterprise subscription pays for. The owner hands them out
+ * by username and changes how many the subscription includes.
+ */
+export const OrganizationSeats = ({ organizationId }: OrganizationSeatsProps) => {
+  const { toast } = useToast();
+  const [organization, setOrganization] = useState<BillingOrganization | null>(null);
+  const [seats, setSeats] = useState<SeatHolder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [username, setUsername] = useState('');
+  const [seatCount, setSeatCount] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadSeats = useCallback(async () => {
+    setLoading(true);
+    const [{ data: org, error: orgError }, { data: seatRows, error: seatsError }] = await Promise.all([
+      supabase.from('billing_organizations').select('*').eq('id', organizationId).maybeSingle(),
+      supabase.from('organization_seats').select('*').eq('organization_id', organizationId).order('created_at'),
+    ]);
+
+    if (orgError || seatsError) {
+      console.error('Error loading organization seats:', orgError ?? seatsError);
+      setLoading(false);
+      return;
+    }
+
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('user_id, display_name, username')
+      .in('user_id', (seatRows || []).map(seat => seat.user_id));
+
+    const profileMap = new Map((profiles || []).map(profile => [profile.user_id, profile]));
+    setOrganization(org);
+    setSeatCount(String(org?.seat_limit ?? ''));
+    setSeats((seatRows || []).map(seat => ({
+      ...seat,
+      display_name: profileMap.get(seat.user_id)?.display_name ?? 'Unknown user',
+      username: profileMap.get(seat.user_id)?.username ?? null,
+    })));
+    setLoading(false);
+  }, [organizationId]);
+
+  useEffect(() => {
+    loadSeats();
+  }, [loadSeats]);
+
+  const assignSeat = async () => {
+    const name = username.trim().replace(/^@/, '');
+    if (!name) return;
+
+    setSaving(true);
+    try {
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('user_id')
+        .eq('username', name)
+        .maybeSingle();
+
+      if (!profile) {
+        toast({ title: 'User not found', description: `No one has the username @${name}`, variant: 'destructive' });
+        return;
+      }
+
+      const { error } = await supabase.rpc('assign_organization_seat', {
+        _organization_id: organizationId,
+        _user_id: profile.user_id,
+      });
+      if (error) throw error;
+
+      setUsername('');
+      loadSeats();
+    } catch (error) {
+      console.error('Error assigning seat:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to assign the seat',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const freeSeat = async (userId: string) => {
+    const { error } = await supabase
+      .from('organization_seats')
+      .delete()
+      .eq('organization_id', organizationId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error freeing seat:', error);
+      toast({ title: 'Error', description: 'Failed to free the seat', variant: 'destructive' });
+      return;
+    }
+    setSeats(prev => prev.filter(seat => seat.user_id !== userId));
+  };
+
+  const updateSeatCount = async () => {
+    const count = Number(seatCount);
+    if (!Number.isInteger(count) || count < Math.max(seats.length, 1) || count > MAX_SEATS) {
+      toast({
+        title: 'Invalid seat count',
+        description: `Choose between ${Math.max(seats.length, 1)} and ${MAX_SEATS} seats. Free seats before lowering the count.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.functions.invoke('manage-subscription', {
+        body: { action: 'seats', seats: count },
+      });
+      if (error) throw error;
+
+      toast({ title: 'Seats updated', description: 'Your subscription will be adjusted and prorated.' });
+      loadSeats();
+    } catch (error) {
+      console.error('Error updating seats:', error);
+      toast({ title: 'Error', description: 'Failed to update the seat count', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card className="p-6 flex justify-center">
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      </Card>
+    );
+  }
+
+  if (!organization) return null;
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Users className="w-5 h-5 text-primary" />
+          <h3 className="text-lg font-semibold">{organization.name}</h3>
+        </div>
+        <Badge variant="secondary">{seats.length} of {organization.seat_limit} seats used</Badge>
+      </div>
+
+      <div className="space-y-2">
+        {seats.map(seat => (
+          <div key={seat.user_id} className="flex items-center justify-between p-2 rounded-lg bg-muted/50">
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">{seat.display_name}</p>
+              {seat.username && <p className="text-xs text-muted-foreground">@{seat.username}</p>}
+            </div>
+            {seat.user_id === organization.owner_id ? (
+              <Badge variant="outline">Owner</Badge>
+            ) : (
+              <Button size="icon" variant="ghost" onClick={() => freeSeat(seat.user_id)} aria-label="Free seat">
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="seat-username">Give a seat to</Label>
+        <div className="flex gap-2">
+          <Input
+            id="seat-username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="@username"
+            disabled={seats.length >= organization.seat_limit}
+          />
+          <Button
+            onClick={assignSeat}
+            disabled={saving || !username.trim() || seats.length >= organization.seat_limit}
+          >
+            <UserPlus className="w-4 h-4 mr-2" />
+            Assign
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="seat-count">Seats on your subscription</Label>
+        <div className="flex gap-2">
+          <Input
+            id="seat-count"
+            type="number"
+            min={Math.max(seats.length, 1)}
+            max={MAX_SEATS}
+            value={seatCount}
+            onChange={(e) => setSeatCount(e.target.value)}
+          />
+          <Button
+            variant="outline"
+            onClick={updateSeatCount}
+            disabled={saving || Number(seatCount) === organization.seat_limit}
+          >
+            Update
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+};
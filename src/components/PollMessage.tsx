@@ -0,0 +1,227 @@
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { BarChart3, Check, Lock } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface PollOption {
+  id: string;
+  label: string;
+  position: number;
+  vote_count: number;
+}
+
+interface Poll {
+  message_id: string;
+  created_by: string;
+  question: string;
+  allows_multiple: boolean;
+  is_anonymous: boolean;
+  closes_at: string | null;
+  closed_at: string | null;
+}
+
+interface PollMessageProps {
+  messageId: string;
+  currentUserId: string | null;
+}
+
+/**
+ * A poll inside a message bubble. Tallies come from poll_options.vote_count
+ * and update live; voter names are only shown for non-anonymous polls.
+ */
+export const PollMessage = ({ messageId, currentUserId }: PollMessageProps) => {
+  const [poll, setPoll] = useState<Poll | null>(null);
+  const [options, setOptions] = useState<PollOption[]>([]);
+  const [myVotes, setMyVotes] = useState<Set<string>>(new Set());
+  const [voters, setVoters] = useState<Map<string, string[]>>(new Map());
+  const [voting, setVoting] = useState(false);
+  const { toast } = useToast();
+
+  const loadPoll = useCallback(async () => {
+    const [{ data: pollRow, error: pollError }, { data: optionRows }, { data: votes }] = await Promise.all([
+      supabase
+        .from('polls')
+        .select('message_id, created_by, question, allows_multiple, is_anonymous, closes_at, closed_at')
+        .eq('message_id', messageId)
+        .maybeSingle(),
+      supabase
+        .from('poll_options')
+        .select('id, label, position, vote_count')
+        .eq('poll_id', messageId)
+        .order('position'),
+      // RLS returns only the caller's own votes on anonymous polls
+      supabase
+        .from('poll_votes')
+        .select('option_id, user_id')
+        .eq('poll_id', messageId),
+    ]);
+
+    if (pollError) {
+      console.error('Error fetching poll:', pollError);
+      return;
+    }
+
+    setPoll(pollRow);
+    setOptions(optionRows || []);
+    setMyVotes(new Set((votes || []).filter(v => v.user_id === currentUserId).map(v => v.option_id)));
+
+    if (pollRow && !pollRow.is_anonymous && votes && votes.length > 0) {
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('user_id, display_name')
+        .in('user_id', [...new Set(votes.map(v => v.user_id))]);
+      const names = new Map((profiles || []).map(p => [p.user_id, p.display_name]));
+
+      const byOption = new Map<string, string[]>();
+      votes.forEach(v => {
+        byOption.set(v.option_id, [...(byOption.get(v.option_id) || []), names.get(v.user_id) || 'Unknown']);
+      });
+      setVoters(byOption);
+    } else {
+      setVoters(new Map());
+    }
+  }, [messageId, currentUserId]);
+
+  useEffect(() => {
+    loadPoll();
+
+    const channel = supabase
+      .channel(`poll-${messageId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'poll_options', filter: `poll_id=eq.${messageId}` },
+        () => loadPoll()
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'polls', filter: `message_id=eq.${messageId}` },
+        () => loadPoll()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [messageId, loadPoll]);
+
+  if (!poll) {
+    return (
+      <div className="flex items-center gap-2 text-sm opacity-70">
+        <BarChart3 className="w-4 h-4" />
+        Poll
+      </div>
+    );
+  }
+
+  const isClosed = !!poll.closed_at || (!!poll.closes_at && new Date(poll.closes_at) <= new Date());
+  const totalVotes = options.reduce((sum, option) => sum + option.vote_count, 0);
+
+  const vote = async (optionId: string) => {
+    if (isClosed || voting) return;
+
+    const next = new Set(poll.allows_multiple ? myVotes : []);
+    if (myVotes.has(optionId)) {
+      next.delete(optionId);
+    } else {
+      next.add(optionId);
+    }
+
+    setVoting(true);
+    try {
+      const { error } = await supabase.rpc('cast_poll_vote', {
+        _poll_id: messageId,
+        _option_ids: [...next],
+      });
+
+      if (error) throw error;
+      setMyVotes(next);
+    } catch (error) {
+      console.error('Error voting:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to record your vote",
+        variant: "destructive",
+      });
+    } finally {
+      setVoting(false);
+    }
+  };
+
+  const closePoll = async () => {
+    const { error } = await supabase.rpc('close_poll', { _poll_id: messageId });
+    if (error) {
+      console.error('Error closing poll:', error);
+      toast({
+        title: "Error",
+        description: "Failed to close the poll",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2 min-w-[220px]">
+      <div className="flex items-start gap-2">
+        <BarChart3 className="w-4 h-4 mt-0.5 flex-shrink-0" />
+        <p className="text-sm font-semibold">{poll.question}</p>
+      </div>
+      <p className="text-xs opacity-70">
+        {poll.allows_multiple ? 'Select one or more' : 'Select one'}
+        {poll.is_anonymous && ' · Anonymous'}
+      </p>
+
+      <div className="space-y-1.5">
+        {options.map((option) => {
+          const share = totalVotes > 0 ? Math.round((option.vote_count / totalVotes) * 100) : 0;
+          const selected = myVotes.has(option.id);
+          const names = voters.get(option.id);
+
+          return (
+            <button
+              key={option.id}
+              type="button"
+              disabled={isClosed || voting}
+              onClick={() => vote(option.id)}
+              title={names?.join(', ')}
+              className={cn(
+                "relative w-full overflow-hidden rounded-md border border-current/20 px-2 py-1.5 text-left text-sm transition-colors",
+                !isClosed && "hover:border-current/50",
+                selected && "border-current/60"
+              )}
+            >
+              <span
+                className="absolute inset-y-0 left-0 bg-current opacity-10 transition-all"
+                style={{ width: `${share}%` }}
+              />
+              <span className="relative flex items-center justify-between gap-2">
+                <span className="flex items-center gap-1.5">
+                  {selected && <Check className="w-3 h-3" />}
+                  {option.label}
+                </span>
+                <span className="text-xs opacity-70">{option.vote_count}</span>
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 text-xs opacity-70">
+        <span>
+          {totalVotes} {totalVotes === 1 ? 'vote' : 'votes'}
+          {isClosed
+            ? ' · Closed'
+            : poll.closes_at && ` · Closes ${format(new Date(poll.closes_at), 'PPp')}`}
+        </span>
+        {!isClosed && poll.created_by === currentUserId && (
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={closePoll}>
+            <Lock className="w-3 h-3 mr-1" />
+            Close
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -11,6 +11,7 @@ import { Camera as CapacitorCamera } from '@capacitor/camera';
 import { CameraResultType, CameraSource } from '@capacitor/camera';
 import { NotificationSettings } from "./NotificationSettings";
 import { DoNotDisturbSettings } from "./DoNotDisturbSettings";
+import { DataPortabilitySettings } from "./DataPortabilitySettings";
 import { LanguageSettings } from "./LanguageSettings";
 
 interface QuickStats {
@@ -340,6 +341,9 @@ export const ProfileEditor = () => {
 
       {/* Do Not Disturb Settings */}
       <DoNotDisturbSettings />
+
+      {/* Export and Import */}
+      <DataPortabilitySettings />
     </div>
   );
 };
@@ -0,0 +1,85 @@
+import { Check, CheckCheck } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+
+// Delivery/read watermarks of one of the other participants in a conversation
+export interface ParticipantReceipt {
+  userId: string;
+  name?: string;
+  lastDeliveredAt: string | null;
+  lastReadAt: string | null;
+}
+
+const reached = (watermark: string | null, createdAt: string) =>
+  !!watermark && new Date(watermark).getTime() >= new Date(createdAt).getTime();
+
+/**
+ * Ticks for an outgoing message: one tick when sent, two when delivered to
+ * every other participant and highlighted once all of them have read it.
+ * In groups the tick opens a "seen by" list.
+ */
+const ReadReceipt = ({
+  createdAt,
+  receipts,
+  isGroup,
+}: {
+  createdAt: string;
+  receipts: ParticipantReceipt[];
+  isGroup?: boolean;
+}) => {
+  const readBy = receipts.filter(r => reached(r.lastReadAt, createdAt));
+  const notReadBy = receipts.filter(r => !reached(r.lastReadAt, createdAt));
+  const readByAll = receipts.length > 0 && notReadBy.length === 0;
+  const deliveredToAll = receipts.length > 0 && receipts.every(r =>
+    reached(r.lastDeliveredAt, createdAt) || reached(r.lastReadAt, createdAt)
+  );
+
+  const status = readByAll ? 'Read' : deliveredToAll ? 'Delivered' : 'Sent';
+  const icon = deliveredToAll || readByAll ? (
+    <CheckCheck className={cn("w-3.5 h-3.5", readByAll ? "text-sky-300" : "opacity-70")} />
+  ) : (
+    <Check className="w-3.5 h-3.5 opacity-70" />
+  );
+
+  if (!isGroup) {
+    return <span title={status} className="flex items-center">{icon}</span>;
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button" title={status} className="flex items-center gap-0.5 text-xs">
+          {icon}
+          {readBy.length > 0 && !readByAll && <span className="opacity-70">{readBy.length}</span>}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent side="top" align="end" className="w-56 p-3">
+        <p className="text-xs font-semibold mb-1">Seen by</p>
+        {readBy.length > 0 ? (
+          <ul className="space-y-0.5 mb-2">
+            {readBy.map(r => (
+              <li key={r.userId} className="text-sm truncate">{r.name || 'Unknown'}</li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground mb-2">No one yet</p>
+        )}
+        {notReadBy.length > 0 && (
+          <>
+            <p className="text-xs font-semibold mb-1">Not seen yet</p>
+            <ul className="space-y-0.5">
+              {notReadBy.map(r => (
+                <li key={r.userId} className="text-sm text-muted-foreground truncate">
+                  {r.name || 'Unknown'}
+                  {reached(r.lastDeliveredAt, createdAt) && <span className="text-xs"> · delivered</span>}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ReadReceipt;
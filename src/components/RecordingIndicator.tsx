@@ -0,0 +1,84 @@
+import { Check, HelpCircle, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+
+interface RecordingIndicatorProps {
+  userId: string;
+  startedBy: string;
+  participantIds: string[];
+  participantNames: Map<string, string>;
+  consents: Map<string, boolean>;
+  onRespond: (consented: boolean) => void;
+}
+
+const ConsentIcon = ({ consented }: { consented?: boolean }) => {
+  if (consented === true) return <Check className="w-3.5 h-3.5 text-green-500" />;
+  if (consented === false) return <X className="w-3.5 h-3.5 text-destructive" />;
+  return <HelpCircle className="w-3.5 h-3.5 text-muted-foreground" />;
+};
+
+/**
+ * Shown to everyone while a meeting is being recorded: who started it,
+ * who has agreed or opted out, and a prompt for anyone who hasn't answered.
+ */
+export const RecordingIndicator = ({
+  userId,
+  startedBy,
+  participantIds,
+  participantNames,
+  consents,
+  onRespond,
+}: RecordingIndicatorProps) => {
+  const nameFor = (id: string) => (id === userId ? 'You' : participantNames.get(id) || 'Participant');
+  const everyone = Array.from(new Set([startedBy, ...participantIds]));
+  const agreed = everyone.filter(id => consents.get(id) === true).length;
+  const myAnswer = consents.get(userId);
+
+  return (
+    <div className="absolute top-4 left-4 z-10 space-y-2 max-w-sm">
+      <Popover>
+        <PopoverTrigger asChild>
+          <button className="flex items-center gap-2 rounded-full bg-background/90 border px-3 py-1.5 text-xs">
+            <span className="w-2.5 h-2.5 rounded-full bg-destructive animate-pulse" />
+            <span className="font-semibold text-destructive">REC</span>
+            <span className="text-muted-foreground">
+              {agreed} of {everyone.length} agreed
+            </span>
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 text-sm space-y-2" side="bottom" align="start">
+          <p className="font-medium">Recording started by {nameFor(startedBy)}</p>
+          <ul className="space-y-1">
+            {everyone.map(id => (
+              <li key={id} className="flex items-center justify-between">
+                <span className="truncate">{nameFor(id)}</span>
+                <ConsentIcon consented={consents.get(id)} />
+              </li>
+            ))}
+          </ul>
+          {myAnswer !== undefined && startedBy !== userId && (
+            <Button variant="outline" size="sm" className="w-full" onClick={() => onRespond(!myAnswer)}>
+              {myAnswer ? 'Leave me out of the recording' : 'Include me in the recording'}
+            </Button>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      {myAnswer === undefined && (
+        <div className="rounded-lg bg-background/95 border p-3 text-sm space-y-2">
+          <p>
+            {nameFor(startedBy)} is recording this meeting. Your audio and video will be included unless you opt out.
+          </p>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={() => onRespond(true)}>
+              Continue
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => onRespond(false)}>
+              Leave me out
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
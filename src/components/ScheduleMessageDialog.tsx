@@ -0,0 +1,195 @@
+import { useEffect, useState } from "react";
+import { addDays, format, setHours, setMinutes, startOfMinute } from "date-fns";
+import { CalendarClock, Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { browserTimezone, Recurrence, RECURRENCE_OPTIONS, ScheduledMessage } from "@/utils/scheduledMessages";
+
+const NO_REPEAT = 'none';
+
+interface ScheduleMessageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conversationId: string;
+  // Text from the composer when scheduling a new message
+  initialContent?: string;
+  // Set to edit an existing scheduled message instead
+  scheduledMessage?: ScheduledMessage | null;
+  onScheduled: () => void;
+}
+
+// New messages default to tomorrow morning
+const defaultSendAt = () => startOfMinute(setMinutes(setHours(addDays(new Date(), 1), 9), 0));
+
+export const ScheduleMessageDialog = ({
+  open,
+  onOpenChange,
+  conversationId,
+  initialContent = '',
+  scheduledMessage,
+  onScheduled,
+}: ScheduleMessageDialogProps) => {
+  const [content, setContent] = useState('');
+  const [date, setDate] = useState('');
+  const [time, setTime] = useState('');
+  const [recurrence, setRecurrence] = useState<string>(NO_REPEAT);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    const sendAt = scheduledMessage ? new Date(scheduledMessage.send_at) : defaultSendAt();
+    setContent(scheduledMessage?.content ?? initialContent);
+    setDate(format(sendAt, 'yyyy-MM-dd'));
+    setTime(format(sendAt, 'HH:mm'));
+    setRecurrence(scheduledMessage?.recurrence ?? NO_REPEAT);
+  }, [open, scheduledMessage, initialContent]);
+
+  const sendAt = date && time ? new Date(`${date}T${time}`) : null;
+  const inPast = !!sendAt && sendAt.getTime() <= Date.now();
+
+  const saveSchedule = async () => {
+    if (!content.trim() || !sendAt || inPast) return;
+
+    setSaving(true);
+    try {
+      const schedule = {
+        content: content.trim(),
+        send_at: sendAt.toISOString(),
+        timezone: browserTimezone(),
+        recurrence: recurrence === NO_REPEAT ? null : recurrence as Recurrence,
+      };
+
+      if (scheduledMessage) {
+        // Editing a failed message puts it back in the queue
+        const { error } = await supabase
+          .from('scheduled_messages')
+          .update({ ...schedule, status: 'pending', attempts: 0, last_error: null, retry_at: null })
+          .eq('id', scheduledMessage.id);
+
+        if (error) throw error;
+      } else {
+        const { data: userData } = await supabase.auth.getUser();
+        if (!userData.user) return;
+
+        const { error } = await supabase
+          .from('scheduled_messages')
+          .insert({ ...schedule, conversation_id: conversationId, sender_id: userData.user.id });
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: scheduledMessage ? "Schedule updated" : "Message scheduled",
+        description: `Will be sent ${format(sendAt, 'PPp')}`,
+      });
+      onScheduled();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error scheduling message:', error);
+      toast({
+        title: "Error",
+        description: "Failed to schedule the message",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="w-5 h-5 text-primary" />
+            {scheduledMessage ? 'Edit Scheduled Message' : 'Schedule Message'}
+          </DialogTitle>
+          <DialogDescription>
+            Times are in your timezone ({browserTimezone()}).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            placeholder="Message"
+            rows={3}
+            maxLength={4000}
+          />
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-date" className="text-sm">Date</Label>
+              <Input
+                id="schedule-date"
+                type="date"
+                value={date}
+                min={format(new Date(), 'yyyy-MM-dd')}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-time" className="text-sm">Time</Label>
+              <Input
+                id="schedule-time"
+                type="time"
+                value={time}
+                onChange={(e) => setTime(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm">Repeat</Label>
+            <Select value={recurrence} onValueChange={setRecurrence}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_REPEAT}>Don't repeat</SelectItem>
+                {RECURRENCE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {inPast && (
+            <p className="text-sm text-destructive">Choose a time in the future</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={saveSchedule} disabled={saving || !content.trim() || !sendAt || inPast}>
+            {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CalendarClock className="w-4 h-4 mr-2" />}
+            {scheduledMessage ? 'Save' : 'Schedule'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
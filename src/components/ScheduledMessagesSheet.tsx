@@ -0,0 +1,173 @@
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { AlertCircle, Bot, CalendarClock, Loader2, Pencil, Repeat, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { ScheduleMessageDialog } from "./ScheduleMessageDialog";
+import { describeSchedule, ScheduledMessage } from "@/utils/scheduledMessages";
+
+interface ScheduledMessagesSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conversationId: string;
+  conversationName: string;
+}
+
+/**
+ * Lists the user's pending and failed scheduled messages for a chat, with
+ * edit and cancel. Recurring messages stay here between sends.
+ */
+export const ScheduledMessagesSheet = ({
+  open,
+  onOpenChange,
+  conversationId,
+  conversationName,
+}: ScheduledMessagesSheetProps) => {
+  const [scheduled, setScheduled] = useState<ScheduledMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<ScheduledMessage | null>(null);
+  const { toast } = useToast();
+
+  const loadScheduled = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('scheduled_messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .in('status', ['pending', 'failed'])
+        .order('send_at', { ascending: true });
+
+      if (error) throw error;
+      setScheduled(data || []);
+    } catch (error) {
+      console.error('Error loading scheduled messages:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load scheduled messages",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [conversationId, toast]);
+
+  useEffect(() => {
+    if (open) {
+      loadScheduled();
+    }
+  }, [open, loadScheduled]);
+
+  const cancelScheduled = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('scheduled_messages')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setScheduled(prev => prev.filter(message => message.id !== id));
+    } catch (error) {
+      console.error('Error cancelling scheduled message:', error);
+      toast({
+        title: "Error",
+        description: "Failed to cancel the scheduled message",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={onOpenChange}>
+        <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle className="flex items-center gap-2">
+              <CalendarClock className="w-5 h-5 text-primary" />
+              Scheduled Messages
+            </SheetTitle>
+            <SheetDescription>
+              Messages you've scheduled in {conversationName}.
+            </SheetDescription>
+          </SheetHeader>
+
+          <div className="mt-6">
+            {loading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : scheduled.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center">No scheduled messages</p>
+            ) : (
+              <div className="space-y-2">
+                {scheduled.map((message) => (
+                  <div key={message.id} className="flex items-start gap-2 p-2 rounded-lg bg-muted/50">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm whitespace-pre-wrap break-words line-clamp-3">{message.content}</p>
+                      <p className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                        {message.bot_id && <Bot className="w-3 h-3" />}
+                        {message.recurrence && <Repeat className="w-3 h-3" />}
+                        {describeSchedule(message)}
+                      </p>
+                      {message.recurrence && message.status === 'pending' && (
+                        <p className="text-xs text-muted-foreground">
+                          Next: {format(new Date(message.send_at), 'PPp')}
+                        </p>
+                      )}
+                      {message.status === 'failed' ? (
+                        <p className="flex items-center gap-1 text-xs text-destructive mt-1">
+                          <AlertCircle className="w-3 h-3" />
+                          Not sent: {message.last_error || 'Unknown error'}
+                        </p>
+                      ) : message.retry_at && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Delayed: {message.last_error}
+                        </p>
+                      )}
+                    </div>
+                    {/* The edit dialog rewrites the text, which bot reminders keep */}
+                    {!message.bot_id && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-muted-foreground"
+                        onClick={() => setEditing(message)}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      onClick={() => cancelScheduled(message.id)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      <ScheduleMessageDialog
+        open={!!editing}
+        onOpenChange={(isOpen) => !isOpen && setEditing(null)}
+        conversationId={conversationId}
+        scheduledMessage={editing}
+        onScheduled={loadScheduled}
+      />
+    </>
+  );
+};
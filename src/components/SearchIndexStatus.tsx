@@ -0,0 +1,187 @@
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { DatabaseZap, Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+
+interface IndexStatus {
+  pending: number;
+  in_progress: number;
+  failed: number;
+  indexed: number;
+  oldest_pending_at: string | null;
+}
+
+interface FailedJob {
+  message_id: string;
+  attempts: number;
+  last_error: string | null;
+  failed_at: string | null;
+}
+
+/**
+ * Admin view of the server-side search index: queue depth, how far behind
+ * it is, and jobs that ran out of retries. Backfill queues messages without
+ * an embedding (and retries failures); reindex re-embeds everything.
+ */
+const SearchIndexStatus = () => {
+  const [status, setStatus] = useState<IndexStatus | null>(null);
+  const [failures, setFailures] = useState<FailedJob[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [queueing, setQueueing] = useState(false);
+  const [confirmReindex, setConfirmReindex] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [{ data: statusRows, error: statusError }, { data: failedJobs, error: failedError }] = await Promise.all([
+        supabase.rpc('get_embedding_index_status'),
+        supabase
+          .from('embedding_jobs')
+          .select('message_id, attempts, last_error, failed_at')
+          .not('failed_at', 'is', null)
+          .order('failed_at', { ascending: false })
+          .limit(20),
+      ]);
+
+      if (statusError) throw statusError;
+      if (failedError) throw failedError;
+
+      setStatus(statusRows?.[0] ?? null);
+      setFailures(failedJobs || []);
+    } catch (error) {
+      console.error("Error loading search index status:", error);
+      toast.error("Failed to load search index status");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const queueBackfill = async (reindex: boolean) => {
+    setQueueing(true);
+    try {
+      const { data, error } = await supabase.rpc('enqueue_embedding_backfill', { reindex });
+      if (error) throw error;
+
+      toast.success(`Queued ${data ?? 0} messages for indexing`);
+      setConfirmReindex(false);
+      loadStatus();
+    } catch (error) {
+      toast.error("Failed to queue messages: " + (error instanceof Error ? error.message : "Unknown error"));
+    } finally {
+      setQueueing(false);
+    }
+  };
+
+  const stats = [
+    { label: "Indexed", value: status?.indexed ?? 0 },
+    { label: "Waiting", value: status?.pending ?? 0 },
+    { label: "In progress", value: status?.in_progress ?? 0 },
+    { label: "Failed", value: status?.failed ?? 0 },
+  ];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <DatabaseZap className="h-5 w-5 text-primary" />
+            Search Index
+          </CardTitle>
+          <CardDescription>
+            {status?.oldest_pending_at
+              ? `Oldest queued message has waited ${formatDistanceToNow(new Date(status.oldest_pending_at))}`
+              : "Index is up to date"}
+          </CardDescription>
+        </div>
+        <div className="flex flex-wrap gap-2 justify-end">
+          <Button variant="ghost" size="sm" onClick={loadStatus} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => queueBackfill(false)} disabled={queueing}>
+            {queueing && !confirmReindex && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Backfill Missing
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setConfirmReindex(true)} disabled={queueing}>
+            Reindex All
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {stats.map(stat => (
+            <div key={stat.label} className="rounded-lg border p-3">
+              <p className="text-xs text-muted-foreground">{stat.label}</p>
+              <p className="text-2xl font-semibold">{stat.value.toLocaleString()}</p>
+            </div>
+          ))}
+        </div>
+
+        {failures.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Message</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Error</TableHead>
+                <TableHead>Failed</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {failures.map(job => (
+                <TableRow key={job.message_id}>
+                  <TableCell className="font-mono text-xs">{job.message_id.slice(0, 8)}</TableCell>
+                  <TableCell>{job.attempts}</TableCell>
+                  <TableCell className="text-xs text-destructive max-w-xs truncate" title={job.last_error ?? undefined}>
+                    {job.last_error}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {job.failed_at && formatDistanceToNow(new Date(job.failed_at), { addSuffix: true })}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmReindex} onOpenChange={setConfirmReindex}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reindex all messages?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every message with text will be embedded again. Search keeps using the current
+              embeddings until each message is replaced, but this uses embedding API credits.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={queueing}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => queueBackfill(true)} disabled={queueing}>
+              {queueing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Reindex
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default SearchIndexStatus;
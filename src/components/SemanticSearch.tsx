@@ -3,21 +3,31 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Search, Sparkles, Calendar, User, MessageSquare } from 'lucide-react';
+import { Search, Sparkles, Calendar, User, MessageSquare, Video, Bot } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
 
+type SearchSource = 'message' | 'meeting' | 'ai_chat';
+
 interface SearchResult {
+  source: SearchSource;
   id: string;
-  message_id: string;
-  conversation_id: string;
-  content_preview: string;
+  message_id: string | null;
+  conversation_id: string | null;
+  meeting_id: string | null;
+  ai_conversation_id: string | null;
   content: string;
+  snippet: string;
   created_at: string;
-  sender_id: string;
+  sender_id: string | null;
+  // Set on bot replies, whose sender_id is the member who asked the bot
+  bot_id: string | null;
+  bot_name: string | null;
   message_type: string;
-  similarity: number;
+  score: number;
+  keyword_rank: number | null;
+  semantic_rank: number | null;
 }
 
 interface SearchFilters {
@@ -28,6 +38,32 @@ interface SearchFilters {
   messageType?: string;
 }
 
+const SOURCE_LABELS: Record<SearchSource, { label: string; icon: typeof MessageSquare }> = {
+  message: { label: 'Chat', icon: MessageSquare },
+  meeting: { label: 'Meeting transcript', icon: Video },
+  ai_chat: { label: 'Nexora AI', icon: Bot },
+};
+
+const matchLabel = (result: SearchResult) => {
+  if (result.keyword_rank && result.semantic_rank) return 'Keyword + meaning';
+  return result.keyword_rank ? 'Keyword' : 'Meaning';
+};
+
+// The server wraps matched terms in ⟦ ⟧
+const Highlighted = ({ text }: { text: string }) => (
+  <>
+    {text.split(/(⟦[^⟧]*⟧)/).map((part, index) =>
+      part.startsWith('⟦') && part.endsWith('⟧') ? (
+        <mark key={index} className="bg-primary/20 text-foreground rounded px-0.5">
+          {part.slice(1, -1)}
+        </mark>
+      ) : (
+        part
+      )
+    )}
+  </>
+);
+
 interface SemanticSearchProps {
   onResultClick?: (conversationId: string, messageId: string) => void;
 }
@@ -39,6 +75,8 @@ const SemanticSearch = ({ onResultClick }: SemanticSearchProps) => {
   const [hasPremium, setHasPremium] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
   const [filters, setFilters] = useState<SearchFilters>({});
+  const [operatorsIgnored, setOperatorsIgnored] = useState(false);
+  const [keywordOnly, setKeywordOnly] = useState(false);
   const { toast } = useToast();
 
   const handleSearch = async () => {
@@ -57,7 +95,6 @@ const SemanticSearch = ({ onResultClick }: SemanticSearchProps) => {
         body: {
           query: query.trim(),
           filters: hasPremium ? filters : undefined,
-          limit: 10,
         },
       });
 
@@ -65,6 +102,8 @@ const SemanticSearch = ({ onResultClick }: SemanticSearchProps) => {
 
       setResults(data.results || []);
       setHasPremium(data.hasPremium);
+      setOperatorsIgnored(Boolean(data.operatorsIgnored));
+      setKeywordOnly(data.semantic === false);
 
       if (data.results?.length === 0) {
         toast({
@@ -97,16 +136,16 @@ const SemanticSearch = ({ onResultClick }: SemanticSearchProps) => {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Sparkles className="h-5 w-5" />
-            Semantic Search
+            Smart Search
           </CardTitle>
           <CardDescription>
-            Search by meaning, not just keywords. Find messages, media, and conversations contextually.
+            Search by keyword and meaning across your chats, meeting transcripts and Nexora AI conversations.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="flex gap-2">
             <Input
-              placeholder="What are you looking for? (e.g., 'conversations about project deadlines')"
+              placeholder="What are you looking for? (e.g., 'project deadlines from:alex')"
               value={query}
               onChange={(e) => setQuery(e.target.value)}
               onKeyPress={handleKeyPress}
@@ -118,6 +157,23 @@ const SemanticSearch = ({ onResultClick }: SemanticSearchProps) => {
             </Button>
           </div>
 
+          <p className="text-xs text-muted-foreground">
+            Use "quotes" for exact phrases. Premium filters: <code>from:name</code>, <code>in:chat</code>,{' '}
+            <code>before:2025-03-01</code>, <code>after:2025-01-31</code>, <code>has:audio</code>
+          </p>
+
+          {operatorsIgnored && (
+            <p className="text-xs text-muted-foreground">
+              Search operators were ignored. Upgrade to <Badge variant="secondary">Premium</Badge> to filter with them.
+            </p>
+          )}
+
+          {keywordOnly && results.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Showing keyword matches only; meaning-based search is unavailable right now.
+            </p>
+          )}
+
           {hasPremium && (
             <div className="space-y-2">
               <Button
@@ -158,6 +214,9 @@ const SemanticSearch = ({ onResultClick }: SemanticSearchProps) => {
                       <option value="text">Text</option>
                       <option value="audio">Audio</option>
                       <option value="image">Image</option>
+                      <option value="video">Video</option>
+                      <option value="file">File</option>
+                      <option value="link">Link</option>
                     </select>
                   </div>
                 </div>
@@ -180,34 +239,52 @@ const SemanticSearch = ({ onResultClick }: SemanticSearchProps) => {
       {results.length > 0 && (
         <div className="space-y-3">
           <h3 className="text-lg font-semibold">Search Results ({results.length})</h3>
-          {results.map((result) => (
-            <Card
-              key={result.id}
-              className="cursor-pointer hover:bg-accent transition-colors"
-              onClick={() => onResultClick?.(result.conversation_id, result.message_id)}
-            >
-              <CardContent className="pt-6">
-                <div className="flex items-start justify-between gap-4">
-                  <div className="flex-1 space-y-2">
-                    <p className="text-sm">{result.content || result.content_preview}</p>
-                    <div className="flex items-center gap-4 text-xs text-muted-foreground">
-                      <span className="flex items-center gap-1">
-                        <Calendar className="h-3 w-3" />
-                        {format(new Date(result.created_at), 'MMM d, yyyy')}
-                      </span>
-                      <span className="flex items-center gap-1">
-                        <MessageSquare className="h-3 w-3" />
-                        {result.message_type}
-                      </span>
+          {results.map((result) => {
+            const source = SOURCE_LABELS[result.source] ?? SOURCE_LABELS.message;
+            const SourceIcon = source.icon;
+            const isMessage = result.source === 'message' && result.conversation_id;
+
+            return (
+              <Card
+                key={`${result.source}-${result.id}`}
+                className={isMessage ? 'cursor-pointer hover:bg-accent transition-colors' : undefined}
+                onClick={isMessage ? () => onResultClick?.(result.conversation_id, result.id) : undefined}
+              >
+                <CardContent className="pt-6">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex-1 space-y-2">
+                      <p className="text-sm">
+                        <Highlighted text={result.snippet || result.content} />
+                      </p>
+                      <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                        <span className="flex items-center gap-1">
+                          <SourceIcon className="h-3 w-3" />
+                          {source.label}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Calendar className="h-3 w-3" />
+                          {format(new Date(result.created_at), 'MMM d, yyyy')}
+                        </span>
+                        {result.source === 'message' && (
+                          <span className="flex items-center gap-1">
+                            <User className="h-3 w-3" />
+                            {result.message_type}
+                          </span>
+                        )}
+                        {result.bot_name && (
+                          <span className="flex items-center gap-1">
+                            <Bot className="h-3 w-3" />
+                            {result.bot_name}
+                          </span>
+                        )}
+                      </div>
                     </div>
+                    <Badge variant="secondary">{matchLabel(result)}</Badge>
                   </div>
-                  <Badge variant="secondary">
-                    {Math.round(result.similarity * 100)}% match
-                  </Badge>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+                </CardContent>
+              </Card>
+            );
+          })}
         </div>
       )}
     </div>
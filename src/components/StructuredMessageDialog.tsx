@@ -0,0 +1,473 @@
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { BarChart3, ListChecks, Loader2, MapPin, Plus, UserRound, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ContactPayload,
+  contactContent,
+  LocationPayload,
+  locationContent,
+} from "@/utils/structuredMessages";
+
+export type StructuredMessageKind = 'poll' | 'checklist' | 'location' | 'contact';
+
+const MAX_POLL_OPTIONS = 12;
+const MANUAL_CONTACT = 'manual';
+
+const TITLES: Record<StructuredMessageKind, string> = {
+  poll: 'Create Poll',
+  checklist: 'Create Checklist',
+  location: 'Share Location',
+  contact: 'Share Contact',
+};
+
+const ICONS: Record<StructuredMessageKind, typeof BarChart3> = {
+  poll: BarChart3,
+  checklist: ListChecks,
+  location: MapPin,
+  contact: UserRound,
+};
+
+interface SavedContact {
+  contact_user_id: string;
+  name: string;
+}
+
+interface StructuredMessageDialogProps {
+  kind: StructuredMessageKind | null;
+  onOpenChange: (open: boolean) => void;
+  conversationId: string;
+  onSendError: (error: { message?: string }) => void;
+}
+
+export const StructuredMessageDialog = ({
+  kind,
+  onOpenChange,
+  conversationId,
+  onSendError,
+}: StructuredMessageDialogProps) => {
+  const [question, setQuestion] = useState('');
+  const [options, setOptions] = useState<string[]>(['', '']);
+  const [allowsMultiple, setAllowsMultiple] = useState(false);
+  const [isAnonymous, setIsAnonymous] = useState(false);
+  const [closesAt, setClosesAt] = useState('');
+  const [title, setTitle] = useState('');
+  const [items, setItems] = useState<string[]>(['']);
+  const [location, setLocation] = useState<LocationPayload | null>(null);
+  const [locating, setLocating] = useState(false);
+  const [locationLabel, setLocationLabel] = useState('');
+  const [savedContacts, setSavedContacts] = useState<SavedContact[]>([]);
+  const [contactChoice, setContactChoice] = useState(MANUAL_CONTACT);
+  const [contact, setContact] = useState<ContactPayload>({ name: '' });
+  const [sending, setSending] = useState(false);
+  const { toast } = useToast();
+
+  const locate = useCallback(() => {
+    if (!navigator.geolocation) {
+      toast({
+        title: "Location unavailable",
+        description: "This device can't share its location",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setLocation({ latitude: position.coords.latitude, longitude: position.coords.longitude });
+        setLocating(false);
+      },
+      (error) => {
+        console.error('Error getting location:', error);
+        setLocating(false);
+        toast({
+          title: "Location unavailable",
+          description: error.code === error.PERMISSION_DENIED
+            ? "Allow location access to share where you are"
+            : "Couldn't determine your location",
+          variant: "destructive",
+        });
+      },
+      { enableHighAccuracy: true, timeout: 15000 }
+    );
+  }, [toast]);
+
+  const fetchSavedContacts = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('contacts')
+      .select('contact_user_id, contact_name')
+      .order('contact_name');
+
+    if (error) {
+      console.error('Error fetching contacts:', error);
+      return;
+    }
+
+    const ids = (data || []).map(c => c.contact_user_id);
+    const { data: profiles } = ids.length > 0
+      ? await supabase.from('profiles').select('user_id, display_name').in('user_id', ids)
+      : { data: [] };
+    const names = new Map((profiles || []).map(p => [p.user_id, p.display_name]));
+
+    setSavedContacts((data || []).map(c => ({
+      contact_user_id: c.contact_user_id,
+      name: c.contact_name || names.get(c.contact_user_id) || 'Unknown',
+    })));
+  }, []);
+
+  useEffect(() => {
+    if (!kind) return;
+
+    setQuestion('');
+    setOptions(['', '']);
+    setAllowsMultiple(false);
+    setIsAnonymous(false);
+    setClosesAt('');
+    setTitle('');
+    setItems(['']);
+    setLocation(null);
+    setLocationLabel('');
+    setContactChoice(MANUAL_CONTACT);
+    setContact({ name: '' });
+
+    if (kind === 'location') locate();
+    if (kind === 'contact') fetchSavedContacts();
+  }, [kind, locate, fetchSavedContacts]);
+
+  const chooseContact = (value: string) => {
+    setContactChoice(value);
+    const saved = savedContacts.find(c => c.contact_user_id === value);
+    setContact(saved ? { name: saved.name, user_id: saved.contact_user_id } : { name: '' });
+  };
+
+  const updateListEntry = (list: string[], index: number, value: string) =>
+    list.map((entry, i) => (i === index ? value : entry));
+
+  const filledOptions = options.map(o => o.trim()).filter(Boolean);
+  const filledItems = items.map(i => i.trim()).filter(Boolean);
+  const closeDate = closesAt ? new Date(closesAt) : null;
+
+  const canSend = (() => {
+    switch (kind) {
+      case 'poll':
+        return !!question.trim() && filledOptions.length >= 2 && (!closeDate || closeDate.getTime() > Date.now());
+      case 'checklist':
+        return !!title.trim() && filledItems.length > 0;
+      case 'location':
+        return !!location;
+      case 'contact':
+        return !!contact.name.trim() && (!!contact.user_id || !!contact.phone?.trim() || !!contact.email?.trim());
+      default:
+        return false;
+    }
+  })();
+
+  const send = async () => {
+    if (!kind || !canSend) return;
+
+    setSending(true);
+    try {
+      let error: { message?: string } | null = null;
+
+      if (kind === 'poll') {
+        ({ error } = await supabase.rpc('create_poll', {
+          _conversation_id: conversationId,
+          _question: question.trim(),
+          _options: filledOptions,
+          _allows_multiple: allowsMultiple,
+          _is_anonymous: isAnonymous,
+          _closes_at: closeDate ? closeDate.toISOString() : undefined,
+        }));
+      } else if (kind === 'checklist') {
+        ({ error } = await supabase.rpc('create_checklist', {
+          _conversation_id: conversationId,
+          _title: title.trim(),
+          _items: filledItems,
+        }));
+      } else {
+        const { data: userData } = await supabase.auth.getUser();
+        if (!userData.user) return;
+
+        const payload = kind === 'location'
+          ? { ...location, label: locationLabel.trim() || undefined }
+          : {
+              name: contact.name.trim(),
+              phone: contact.phone?.trim() || undefined,
+              email: contact.email?.trim() || undefined,
+              user_id: contact.user_id,
+            };
+
+        ({ error } = await supabase.from('messages').insert({
+          conversation_id: conversationId,
+          sender_id: userData.user.id,
+          message_type: kind,
+          content: kind === 'location'
+            ? locationContent(payload as LocationPayload)
+            : contactContent(payload as ContactPayload),
+          // Round-trip through JSON to drop undefined fields
+          metadata: JSON.parse(JSON.stringify(payload)),
+        }));
+      }
+
+      if (error) {
+        console.error(`Error sending ${kind}:`, error);
+        onSendError(error);
+        return;
+      }
+
+      onOpenChange(false);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const Icon = kind ? ICONS[kind] : BarChart3;
+
+  return (
+    <Dialog open={!!kind} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Icon className="w-5 h-5 text-primary" />
+            {kind && TITLES[kind]}
+          </DialogTitle>
+          {kind === 'checklist' && (
+            <DialogDescription>Everyone in the chat can tick and add items.</DialogDescription>
+          )}
+          {kind === 'poll' && (
+            <DialogDescription>Results update live as people vote.</DialogDescription>
+          )}
+        </DialogHeader>
+
+        {kind === 'poll' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="poll-question" className="text-sm">Question</Label>
+              <Input
+                id="poll-question"
+                value={question}
+                onChange={(e) => setQuestion(e.target.value)}
+                placeholder="Ask something"
+                maxLength={300}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm">Options</Label>
+              {options.map((option, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={option}
+                    onChange={(e) => setOptions(updateListEntry(options, index, e.target.value))}
+                    placeholder={`Option ${index + 1}`}
+                    maxLength={100}
+                  />
+                  {options.length > 2 && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setOptions(options.filter((_, i) => i !== index))}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {options.length < MAX_POLL_OPTIONS && (
+                <Button variant="outline" size="sm" onClick={() => setOptions([...options, ''])}>
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add option
+                </Button>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="poll-multiple" className="text-sm">Allow multiple answers</Label>
+              <Switch id="poll-multiple" checked={allowsMultiple} onCheckedChange={setAllowsMultiple} />
+            </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="poll-anonymous" className="text-sm">Anonymous</Label>
+                <p className="text-xs text-muted-foreground">Hide who voted for what</p>
+              </div>
+              <Switch id="poll-anonymous" checked={isAnonymous} onCheckedChange={setIsAnonymous} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="poll-closes" className="text-sm">Closes (optional)</Label>
+              <Input
+                id="poll-closes"
+                type="datetime-local"
+                value={closesAt}
+                min={format(new Date(), "yyyy-MM-dd'T'HH:mm")}
+                onChange={(e) => setClosesAt(e.target.value)}
+              />
+              {closeDate && closeDate.getTime() <= Date.now() && (
+                <p className="text-xs text-destructive">Pick a time in the future</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {kind === 'checklist' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="checklist-title" className="text-sm">Title</Label>
+              <Input
+                id="checklist-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="e.g. Trip packing list"
+                maxLength={200}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm">Items</Label>
+              {items.map((item, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={item}
+                    onChange={(e) => setItems(updateListEntry(items, index, e.target.value))}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && item.trim() && index === items.length - 1) {
+                        e.preventDefault();
+                        setItems([...items, '']);
+                      }
+                    }}
+                    placeholder={`Item ${index + 1}`}
+                    maxLength={300}
+                  />
+                  {items.length > 1 && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setItems(items.filter((_, i) => i !== index))}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={() => setItems([...items, ''])}>
+                <Plus className="w-4 h-4 mr-1" />
+                Add item
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {kind === 'location' && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3 p-3 rounded-lg border border-border">
+              <MapPin className="w-5 h-5 text-primary flex-shrink-0" />
+              <div className="flex-1 text-sm">
+                {locating && 'Finding your location...'}
+                {!locating && location && `${location.latitude.toFixed(5)}, ${location.longitude.toFixed(5)}`}
+                {!locating && !location && 'Location not available'}
+              </div>
+              {!locating && (
+                <Button variant="outline" size="sm" onClick={locate}>
+                  {location ? 'Refresh' : 'Retry'}
+                </Button>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="location-label" className="text-sm">Label (optional)</Label>
+              <Input
+                id="location-label"
+                value={locationLabel}
+                onChange={(e) => setLocationLabel(e.target.value)}
+                placeholder="e.g. Meet at the north entrance"
+                maxLength={200}
+              />
+            </div>
+          </div>
+        )}
+
+        {kind === 'contact' && (
+          <div className="space-y-4">
+            {savedContacts.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-sm">Contact</Label>
+                <Select value={contactChoice} onValueChange={chooseContact}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={MANUAL_CONTACT}>Enter details manually</SelectItem>
+                    {savedContacts.map((saved) => (
+                      <SelectItem key={saved.contact_user_id} value={saved.contact_user_id}>
+                        {saved.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="contact-name" className="text-sm">Name</Label>
+              <Input
+                id="contact-name"
+                value={contact.name}
+                onChange={(e) => setContact({ ...contact, name: e.target.value })}
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact-phone" className="text-sm">Phone</Label>
+              <Input
+                id="contact-phone"
+                type="tel"
+                value={contact.phone || ''}
+                onChange={(e) => setContact({ ...contact, phone: e.target.value })}
+                maxLength={30}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact-email" className="text-sm">Email</Label>
+              <Input
+                id="contact-email"
+                type="email"
+                value={contact.email || ''}
+                onChange={(e) => setContact({ ...contact, email: e.target.value })}
+                maxLength={200}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={send} disabled={!canSend || sending}>
+            {sending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Send
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,40 +1,54 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Crown, Check, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Crown, Check, X, Loader2 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-
-interface Subscription {
-  plan_type: string;
-  started_at: string;
-  expires_at: string | null;
-}
+import { OrganizationSeats } from '@/components/OrganizationSeats';
+import {
+  describeSubscription,
+  Entitlements,
+  MAX_SEATS,
+  PlanEntitlements,
+  PLANS,
+  PlanType,
+  planFeatures,
+  subscriptionReturnUrl,
+  UserSubscription,
+} from '@/utils/billing';
+
+type BillingAction = 'checkout' | 'portal' | 'cancel';
 
 const SubscriptionManagement = () => {
-  const [subscription, setSubscription] = useState<Subscription | null>(null);
+  const [subscription, setSubscription] = useState<UserSubscription | null>(null);
+  const [plans, setPlans] = useState<PlanEntitlements[]>([]);
+  const [entitlements, setEntitlements] = useState<Entitlements | null>(null);
   const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [organizationName, setOrganizationName] = useState('');
+  const [seats, setSeats] = useState('5');
   const { toast } = useToast();
 
-  useEffect(() => {
-    loadSubscription();
-  }, []);
-
-  const loadSubscription = async () => {
+  const loadSubscription = useCallback(async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      const { data, error } = await supabase
-        .from('user_subscriptions')
-        .select('*')
-        .eq('user_id', user.id)
-        .maybeSingle();
+      const [subscriptionResult, plansResult, entitlementsResult] = await Promise.all([
+        supabase.from('user_subscriptions').select('*').eq('user_id', user.id).maybeSingle(),
+        supabase.from('plan_entitlements').select('*'),
+        supabase.rpc('current_entitlements').maybeSingle(),
+      ]);
 
-      if (error && error.code !== 'PGRST116') throw error;
+      const error = subscriptionResult.error ?? plansResult.error ?? entitlementsResult.error;
+      if (error) throw error;
 
-      setSubscription(data);
+      setSubscription(subscriptionResult.data);
+      setPlans(plansResult.data || []);
+      setEntitlements(entitlementsResult.data);
     } catch (error) {
       console.error('Error loading subscription:', error);
       toast({
@@ -45,64 +59,65 @@ const SubscriptionManagement = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [toast]);
 
-  const activatePremium = async () => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
+  useEffect(() => {
+    loadSubscription();
+  }, [loadSubscription]);
 
-      const { error } = await supabase
-        .from('user_subscriptions')
-        .upsert({
-          user_id: user.id,
-          plan_type: 'premium',
-          started_at: new Date().toISOString(),
-          expires_at: null, // No expiry for demo
-        });
+  // Checkout and the billing portal are hosted by the billing provider
+  const manageSubscription = async (action: BillingAction, options: { plan?: PlanType; seats?: number; organizationName?: string } = {}) => {
+    setBusy(options.plan ?? action);
+    try {
+      const { data, error } = await supabase.functions.invoke('manage-subscription', {
+        body: { action, returnUrl: subscriptionReturnUrl(), ...options },
+      });
 
       if (error) throw error;
 
+      if (data?.url) {
+        window.location.href = data.url;
+        return;
+      }
+
       toast({
-        title: 'Premium activated!',
-        description: 'You now have access to all premium features',
+        title: 'Subscription canceled',
+        description: 'You keep your plan until the end of the billing period',
       });
-
       loadSubscription();
     } catch (error) {
-      console.error('Error activating premium:', error);
+      console.error('Error managing subscription:', error);
       toast({
         title: 'Error',
-        description: 'Failed to activate premium plan',
+        description: action === 'checkout' ? 'Failed to start checkout' : 'Failed to update your subscription',
         variant: 'destructive',
       });
+    } finally {
+      setBusy(null);
     }
   };
 
-  const currentPlan = subscription?.plan_type || 'free';
-  const isPremium = currentPlan === 'premium' || currentPlan === 'enterprise';
-
-  const features = {
-    free: [
-      { name: 'Basic semantic search', available: true },
-      { name: 'Up to 10 results per search', available: true },
-      { name: 'Advanced filters', available: false },
-      { name: 'Date range filters', available: false },
-      { name: 'Sender filters', available: false },
-      { name: 'Message type filters', available: false },
-      { name: 'Enterprise team search', available: false },
-    ],
-    premium: [
-      { name: 'Unlimited semantic search', available: true },
-      { name: 'Unlimited results', available: true },
-      { name: 'Advanced filters', available: true },
-      { name: 'Date range filters', available: true },
-      { name: 'Sender filters', available: true },
-      { name: 'Message type filters', available: true },
-      { name: 'Priority support', available: true },
-    ],
+  const upgradeToEnterprise = () => {
+    const seatCount = Number(seats);
+    if (!organizationName.trim() || !Number.isInteger(seatCount) || seatCount < 1 || seatCount > MAX_SEATS) {
+      toast({
+        title: 'Missing information',
+        description: `Enter your organization's name and between 1 and ${MAX_SEATS} seats`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    manageSubscription('checkout', { plan: 'enterprise', seats: seatCount, organizationName: organizationName.trim() });
   };
 
+  const currentPlan = (entitlements?.plan_type || 'free') as PlanType;
+  const isPremium = currentPlan !== 'free';
+  // A paid subscription of their own; seat holders get enterprise through their organization
+  const hasSubscription = !!subscription?.provider_subscription_id && subscription.status !== 'canceled';
+  const ownsOrganization = hasSubscription && subscription.plan_type === 'enterprise' && !!subscription.organization_id;
+  const status = describeSubscription(subscription);
+  const canTrial = !subscription?.trial_ends_at;
+
   if (loading) {
     return <div>Loading subscription details...</div>;
   }
@@ -117,64 +132,119 @@ const SubscriptionManagement = () => {
           </CardTitle>
           <CardDescription>
             Current plan: <Badge variant={isPremium ? 'default' : 'secondary'}>{currentPlan}</Badge>
+            {currentPlan === 'enterprise' && !ownsOrganization && ' through your organization'}
           </CardDescription>
         </CardHeader>
+        <CardContent className="space-y-4">
+          {status && (
+            <p className={subscription?.status === 'past_due' ? 'text-sm text-destructive' : 'text-sm text-muted-foreground'}>
+              {status}
+            </p>
+          )}
+          {entitlements && (
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <div className="p-2 rounded-lg bg-muted/50">
+                <p className="text-muted-foreground">Translations today</p>
+                <p className="font-medium">
+                  {entitlements.translations_used}
+                  {entitlements.daily_translations !== null && ` of ${entitlements.daily_translations}`}
+                </p>
+              </div>
+              <div className="p-2 rounded-lg bg-muted/50">
+                <p className="text-muted-foreground">Custom voices</p>
+                <p className="font-medium">{entitlements.voice_clones_used} of {entitlements.voice_clones}</p>
+              </div>
+            </div>
+          )}
+          {(subscription?.provider_customer_id || hasSubscription) && (
+            <div className="flex flex-wrap gap-2">
+              {subscription?.provider_customer_id && (
+                <Button variant="outline" onClick={() => manageSubscription('portal')} disabled={!!busy}>
+                  {busy === 'portal' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {subscription.status === 'past_due' ? 'Update payment method' : 'Manage billing'}
+                </Button>
+              )}
+              {hasSubscription && !subscription.cancel_at_period_end && (
+                <Button variant="ghost" onClick={() => manageSubscription('cancel')} disabled={!!busy}>
+                  {busy === 'cancel' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Cancel subscription
+                </Button>
+              )}
+            </div>
+          )}
+        </CardContent>
       </Card>
 
-      <div className="grid md:grid-cols-2 gap-6">
-        <Card className={currentPlan === 'free' ? 'border-primary' : ''}>
-          <CardHeader>
-            <CardTitle>Free Plan</CardTitle>
-            <CardDescription>Basic semantic search capabilities</CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <ul className="space-y-2">
-              {features.free.map((feature, index) => (
-                <li key={index} className="flex items-center gap-2">
-                  {feature.available ? (
-                    <Check className="h-4 w-4 text-green-500" />
-                  ) : (
-                    <X className="h-4 w-4 text-muted-foreground" />
-                  )}
-                  <span className={!feature.available ? 'text-muted-foreground' : ''}>
-                    {feature.name}
-                  </span>
-                </li>
-              ))}
-            </ul>
-            {currentPlan === 'free' && (
-              <Badge variant="secondary">Current Plan</Badge>
-            )}
-          </CardContent>
-        </Card>
-
-        <Card className={isPremium ? 'border-primary' : ''}>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Crown className="h-5 w-5 text-yellow-500" />
-              Premium Plan
-            </CardTitle>
-            <CardDescription>Advanced features and unlimited access</CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <ul className="space-y-2">
-              {features.premium.map((feature, index) => (
-                <li key={index} className="flex items-center gap-2">
-                  <Check className="h-4 w-4 text-green-500" />
-                  <span>{feature.name}</span>
-                </li>
-              ))}
-            </ul>
-            {isPremium ? (
-              <Badge>Active</Badge>
-            ) : (
-              <Button onClick={activatePremium} className="w-full">
-                Upgrade to Premium
-              </Button>
-            )}
-          </CardContent>
-        </Card>
+      <div className="grid md:grid-cols-3 gap-6">
+        {PLANS.map(({ value, label, description }) => {
+          const plan = plans.find(row => row.plan_type === value);
+          if (!plan) return null;
+          const isCurrent = currentPlan === value;
+          const trialLabel = canTrial && plan.trial_days > 0 ? `Start ${plan.trial_days}-day trial` : `Upgrade to ${label}`;
+
+          return (
+            <Card key={value} className={isCurrent ? 'border-primary' : ''}>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  {value !== 'free' && <Crown className="h-5 w-5 text-yellow-500" />}
+                  {label} Plan
+                </CardTitle>
+                <CardDescription>{description}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <ul className="space-y-2">
+                  {planFeatures(plan).map((feature) => (
+                    <li key={feature.name} className="flex items-center gap-2">
+                      {feature.available ? (
+                        <Check className="h-4 w-4 text-green-500" />
+                      ) : (
+                        <X className="h-4 w-4 text-muted-foreground" />
+                      )}
+                      <span className={!feature.available ? 'text-muted-foreground' : ''}>
+                        {feature.name}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                {isCurrent ? (
+                  <Badge variant={value === 'free' ? 'secondary' : 'default'}>Current Plan</Badge>
+                ) : value === 'free' || hasSubscription ? null : value === 'enterprise' ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="organization-name">Organization</Label>
+                    <Input
+                      id="organization-name"
+                      value={organizationName}
+                      onChange={(e) => setOrganizationName(e.target.value)}
+                      placeholder="Acme Inc."
+                      maxLength={100}
+                    />
+                    <Label htmlFor="enterprise-seats">Seats</Label>
+                    <Input
+                      id="enterprise-seats"
+                      type="number"
+                      min={1}
+                      max={MAX_SEATS}
+                      value={seats}
+                      onChange={(e) => setSeats(e.target.value)}
+                    />
+                    <Button onClick={upgradeToEnterprise} className="w-full" disabled={!!busy}>
+                      {busy === value && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      {trialLabel}
+                    </Button>
+                  </div>
+                ) : (
+                  <Button onClick={() => manageSubscription('checkout', { plan: value })} className="w-full" disabled={!!busy}>
+                    {busy === value && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {trialLabel}
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
       </div>
+
+      {ownsOrganization && <OrganizationSeats organizationId={subscription.organization_id} />}
     </div>
   );
 };
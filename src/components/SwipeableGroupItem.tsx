@@ -11,6 +11,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
 import { Users, LogOut, BellOff, Bell } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -25,12 +26,19 @@ interface SwipeableGroupItemProps {
   isMuted?: boolean;
   onStartChat: () => void;
   onLeave: () => void;
-  onToggleMute: () => void;
+  // Muting takes a duration in hours; null mutes until turned off
+  onToggleMute: (muteForHours?: number | null) => void;
 }
 
 const SWIPE_THRESHOLD = 80;
 const MAX_SWIPE = 120;
 
+const MUTE_DURATIONS: { label: string; hours: number | null }[] = [
+  { label: '8 hours', hours: 8 },
+  { label: '1 week', hours: 24 * 7 },
+  { label: 'Always', hours: null },
+];
+
 const SwipeableGroupItem = ({
   group,
   unreadCount = 0,
@@ -42,6 +50,7 @@ const SwipeableGroupItem = ({
   const [translateX, setTranslateX] = useState(0);
   const [isDragging, setIsDragging] = useState(false);
   const [showLeaveConfirm, setShowLeaveConfirm] = useState(false);
+  const [showMuteOptions, setShowMuteOptions] = useState(false);
   const startXRef = useRef(0);
   const currentXRef = useRef(0);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -82,7 +91,11 @@ const SwipeableGroupItem = ({
   const handleActionClick = (action: 'mute' | 'leave') => {
     if (action === 'mute') {
       setTranslateX(0);
-      onToggleMute();
+      if (isMuted) {
+        onToggleMute();
+      } else {
+        setShowMuteOptions(true);
+      }
     } else {
       // Show confirmation dialog for leave
       setShowLeaveConfirm(true);
@@ -125,6 +138,34 @@ const SwipeableGroupItem = ({
         </AlertDialogContent>
       </AlertDialog>
 
+      <AlertDialog open={showMuteOptions} onOpenChange={setShowMuteOptions}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Mute notifications</AlertDialogTitle>
+            <AlertDialogDescription>
+              Other members won't see that you muted <span className="font-semibold">{group.group_name}</span>.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="flex flex-col gap-2">
+            {MUTE_DURATIONS.map(({ label, hours }) => (
+              <Button
+                key={label}
+                variant="outline"
+                onClick={() => {
+                  setShowMuteOptions(false);
+                  onToggleMute(hours);
+                }}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <div 
         ref={containerRef}
         className="relative overflow-hidden border-b border-border/50"
@@ -0,0 +1,326 @@
+import { useCallback, useEffect, useState } from "react";
+import { BookA, Loader2, Plus, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+
+// The languages translate-message accepts
+const GLOSSARY_LANGUAGES = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'it', name: 'Italian' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'ru', name: 'Russian' },
+  { code: 'zh', name: 'Chinese' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' },
+  { code: 'ar', name: 'Arabic' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'tr', name: 'Turkish' },
+  { code: 'pl', name: 'Polish' },
+];
+
+interface GlossaryTerm {
+  id: string;
+  scope: string;
+  conversation_id: string | null;
+  community_id: string | null;
+  source_term: string;
+  translation: string | null;
+  target_language: string | null;
+}
+
+interface Community {
+  id: string;
+  name: string;
+}
+
+interface TranslationGlossaryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conversationId?: string;
+  conversationName: string;
+}
+
+/**
+ * Manages the glossary terms translate-message follows for this chat: the
+ * user's own terms, the chat's shared terms and those of their communities.
+ * Scope values are 'user', 'conversation' or a community id.
+ */
+export const TranslationGlossary = ({
+  open,
+  onOpenChange,
+  conversationId,
+  conversationName,
+}: TranslationGlossaryProps) => {
+  const [terms, setTerms] = useState<GlossaryTerm[]>([]);
+  const [communities, setCommunities] = useState<Community[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [sourceTerm, setSourceTerm] = useState('');
+  const [keepAsIs, setKeepAsIs] = useState(true);
+  const [translation, setTranslation] = useState('');
+  const [targetLanguage, setTargetLanguage] = useState('en');
+  const [scope, setScope] = useState(conversationId ? 'conversation' : 'user');
+  const { toast } = useToast();
+
+  const loadGlossary = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data: userData } = await supabase.auth.getUser();
+      if (!userData.user) return;
+
+      const { data: memberships, error: membershipError } = await supabase
+        .from('community_members')
+        .select('community_id, communities(id, name)')
+        .eq('user_id', userData.user.id);
+
+      if (membershipError) throw membershipError;
+
+      const scopes = [`and(scope.eq.user,user_id.eq.${userData.user.id})`, 'scope.eq.community'];
+      if (conversationId) {
+        scopes.push(`and(scope.eq.conversation,conversation_id.eq.${conversationId})`);
+      }
+
+      const { data, error } = await supabase
+        .from('translation_glossary_terms')
+        .select('id, scope, conversation_id, community_id, source_term, translation, target_language')
+        .or(scopes.join(','))
+        .order('source_term');
+
+      if (error) throw error;
+
+      setCommunities(
+        (memberships || [])
+          .map(membership => membership.communities)
+          .filter((community): community is Community => !!community)
+      );
+      setTerms(data || []);
+    } catch (error) {
+      console.error('Error loading translation glossary:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the translation glossary",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [conversationId, toast]);
+
+  useEffect(() => {
+    if (open) {
+      loadGlossary();
+    }
+  }, [open, loadGlossary]);
+
+  const scopeLabel = (term: GlossaryTerm) => {
+    if (term.scope === 'conversation') return 'This chat';
+    if (term.scope === 'community') {
+      return communities.find(community => community.id === term.community_id)?.name ?? 'Community';
+    }
+    return 'Just me';
+  };
+
+  const addTerm = async () => {
+    if (!sourceTerm.trim() || (!keepAsIs && !translation.trim())) return;
+
+    setSaving(true);
+    try {
+      const isCommunity = scope !== 'user' && scope !== 'conversation';
+      const { error } = await supabase.rpc('save_glossary_term', {
+        _scope: isCommunity ? 'community' : scope,
+        _source_term: sourceTerm.trim(),
+        _translation: keepAsIs ? undefined : translation.trim(),
+        _target_language: keepAsIs ? undefined : targetLanguage,
+        _conversation_id: scope === 'conversation' ? conversationId : undefined,
+        _community_id: isCommunity ? scope : undefined,
+      });
+
+      if (error) throw error;
+
+      setSourceTerm('');
+      setTranslation('');
+      toast({
+        title: "Glossary updated",
+        description: `"${sourceTerm.trim()}" will be used in future translations`,
+      });
+      loadGlossary();
+    } catch (error) {
+      console.error('Error saving glossary term:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the glossary term",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteTerm = async (termId: string) => {
+    try {
+      const { error } = await supabase
+        .from('translation_glossary_terms')
+        .delete()
+        .eq('id', termId);
+
+      if (error) throw error;
+
+      setTerms(prev => prev.filter(term => term.id !== termId));
+    } catch (error) {
+      console.error('Error deleting glossary term:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the glossary term",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <BookA className="w-5 h-5 text-primary" />
+            Translation Glossary
+          </SheetTitle>
+          <SheetDescription>
+            Product names and jargon to keep as-is or always translate the same way when translating {conversationName}.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-6 mt-6">
+          <div className="space-y-3 p-3 rounded-lg border border-border/50">
+            <div className="space-y-2">
+              <Label htmlFor="glossary-term" className="text-sm font-medium">Term</Label>
+              <Input
+                id="glossary-term"
+                value={sourceTerm}
+                onChange={(e) => setSourceTerm(e.target.value)}
+                placeholder="e.g. Nexora"
+                maxLength={200}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="glossary-keep" className="text-sm">Don't translate</Label>
+              <Switch id="glossary-keep" checked={keepAsIs} onCheckedChange={setKeepAsIs} />
+            </div>
+
+            {!keepAsIs && (
+              <div className="grid grid-cols-[1fr_auto] gap-2">
+                <Input
+                  value={translation}
+                  onChange={(e) => setTranslation(e.target.value)}
+                  placeholder="Always translate as…"
+                  maxLength={200}
+                />
+                <Select value={targetLanguage} onValueChange={setTargetLanguage}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {GLOSSARY_LANGUAGES.map((lang) => (
+                      <SelectItem key={lang.code} value={lang.code}>
+                        {lang.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Applies to</Label>
+              <Select value={scope} onValueChange={setScope}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="user">Just me (all chats)</SelectItem>
+                  {conversationId && <SelectItem value="conversation">Everyone in this chat</SelectItem>}
+                  {communities.map((community) => (
+                    <SelectItem key={community.id} value={community.id}>
+                      {community.name} (community)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Button
+              onClick={addTerm}
+              disabled={saving || !sourceTerm.trim() || (!keepAsIs && !translation.trim())}
+              className="w-full"
+            >
+              {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+              Add to glossary
+            </Button>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : terms.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center">No glossary terms yet</p>
+          ) : (
+            <div className="space-y-2">
+              {terms.map((term) => (
+                <div key={term.id} className="flex items-center gap-2 p-2 rounded-lg bg-muted/50">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {term.source_term}
+                      {term.translation && (
+                        <span className="font-normal text-muted-foreground">
+                          {' → '}{term.translation} ({term.target_language?.toUpperCase()})
+                        </span>
+                      )}
+                    </p>
+                    <div className="flex items-center gap-1 mt-1">
+                      <Badge variant="secondary" className="text-[10px]">{scopeLabel(term)}</Badge>
+                      {!term.translation && (
+                        <Badge variant="outline" className="text-[10px]">Don't translate</Badge>
+                      )}
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                    onClick={() => deleteTerm(term.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -7,6 +7,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { planLimitMessage } from '@/utils/billing';
 import { Mic, Upload, Play, Trash2 } from 'lucide-react';
 
 interface VoiceProfile {
@@ -33,6 +34,34 @@ export const VoiceProfileManager = () => {
   const [voiceDescription, setVoiceDescription] = useState('');
   const [audioFiles, setAudioFiles] = useState<string[]>([]);
   const [isRecording, setIsRecording] = useState(false);
+  const [voiceLimit, setVoiceLimit] = useState<number | null>(null);
+
+  // Cloned voices are kept server-side and count against the plan's limit
+  const loadCustomVoices = useCallback(async () => {
+    const [{ data: voices, error }, { data: entitlements }] = await Promise.all([
+      supabase.from('voice_clones').select('*').order('created_at'),
+      supabase.rpc('current_entitlements').maybeSingle(),
+    ]);
+
+    if (error) {
+      console.error('Error loading custom voices:', error);
+      return;
+    }
+
+    setCustomVoices((voices || []).map((voice) => ({
+      id: voice.id,
+      name: voice.name,
+      voiceId: voice.voice_id,
+      isCustom: true,
+    })));
+    setVoiceLimit(entitlements?.voice_clones ?? null);
+  }, []);
+
+  useEffect(() => {
+    loadCustomVoices();
+  }, [loadCustomVoices]);
+
+  const atVoiceLimit = voiceLimit !== null && customVoices.length >= voiceLimit;
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
@@ -72,7 +101,7 @@ export const VoiceProfileManager = () => {
 
     setIsCreating(true);
     try {
-      const { data, error } = await supabase.functions.invoke('elevenlabs-voice-clone', {
+      const { error } = await supabase.functions.invoke('elevenlabs-voice-clone', {
         body: {
           name: voiceName,
           description: voiceDescription,
@@ -80,16 +109,9 @@ export const VoiceProfileManager = () => {
         },
       });
 
-      if (error) throw error;
-
-      const newVoice: VoiceProfile = {
-        id: data.voice_id,
-        name: voiceName,
-        voiceId: data.voice_id,
-        isCustom: true,
-      };
+      if (error) throw new Error((await planLimitMessage(error)) ?? error.message);
 
-      setCustomVoices([...customVoices, newVoice]);
+      loadCustomVoices();
       setVoiceName('');
       setVoiceDescription('');
       setAudioFiles([]);
@@ -224,9 +246,17 @@ export const VoiceProfileManager = () => {
             )}
           </div>
 
+          {atVoiceLimit && (
+            <p className="text-sm text-muted-foreground">
+              {voiceLimit === 0
+                ? 'Custom voices are available on the Premium and Enterprise plans.'
+                : `Your plan includes ${voiceLimit} custom voices.`}
+            </p>
+          )}
+
           <Button 
             onClick={handleCreateVoice} 
-            disabled={isCreating || !voiceName || audioFiles.length === 0}
+            disabled={isCreating || atVoiceLimit || !voiceName || audioFiles.length === 0}
             className="w-full"
           >
             <Upload className="w-4 h-4 mr-2" />
@@ -4,7 +4,8 @@ import { Mic, Square, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
 interface VoiceRecorderProps {
-  onRecordingComplete: (transcription: string) => void;
+  // audio is the recorded clip, when the browser allowed capturing it
+  onRecordingComplete: (transcription: string, audio?: Blob) => void;
   disabled?: boolean;
 }
 
@@ -20,8 +21,48 @@ const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ onRecordingComplete, disa
   const [isRecording, setIsRecording] = useState(false);
   const recognitionRef = useRef<any>(null);
   const transcriptRef = useRef<string>('');
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const audioChunksRef = useRef<Blob[]>([]);
   const { toast } = useToast();
 
+  // Record the raw audio alongside speech recognition so the voice note can be played back
+  const startAudioCapture = async () => {
+    audioChunksRef.current = [];
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const mediaRecorder = new MediaRecorder(stream);
+      mediaRecorder.ondataavailable = (event) => {
+        if (event.data.size > 0) {
+          audioChunksRef.current.push(event.data);
+        }
+      };
+      mediaRecorder.start();
+      mediaRecorderRef.current = mediaRecorder;
+    } catch (error) {
+      // Fall back to a transcription-only voice message
+      console.error('Error capturing audio:', error);
+      mediaRecorderRef.current = null;
+    }
+  };
+
+  const stopAudioCapture = () => new Promise<Blob | undefined>((resolve) => {
+    const mediaRecorder = mediaRecorderRef.current;
+    mediaRecorderRef.current = null;
+
+    if (!mediaRecorder || mediaRecorder.state === 'inactive') {
+      resolve(undefined);
+      return;
+    }
+
+    mediaRecorder.onstop = () => {
+      mediaRecorder.stream.getTracks().forEach(track => track.stop());
+      const chunks = audioChunksRef.current;
+      audioChunksRef.current = [];
+      resolve(chunks.length > 0 ? new Blob(chunks, { type: mediaRecorder.mimeType || 'audio/webm' }) : undefined);
+    };
+    mediaRecorder.stop();
+  });
+
   const startRecording = async () => {
     try {
       // Check for browser support
@@ -88,23 +129,26 @@ const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ onRecordingComplete, disa
         }
       };
 
-      recognition.onend = () => {
+      recognition.onend = async () => {
         setIsRecording(false);
         
         const finalText = transcriptRef.current.trim();
+        transcriptRef.current = '';
         console.log('Final transcript:', finalText);
+
+        const audio = await stopAudioCapture();
         
         if (finalText) {
-          onRecordingComplete(finalText);
+          onRecordingComplete(finalText, audio);
         }
-        
-        transcriptRef.current = '';
       };
 
+      await startAudioCapture();
       recognition.start();
     } catch (error) {
       console.error('Error starting recording:', error);
       setIsRecording(false);
+      stopAudioCapture();
       toast({
         title: "Error",
         description: "Could not start recording",
@@ -2,6 +2,7 @@ import { useEffect, useState } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
 import { useNavigate } from "react-router-dom";
+import { clearOfflineData } from "@/utils/offlineStore";
 
 export const useAuth = () => {
   const [user, setUser] = useState<User | null>(null);
@@ -30,6 +31,7 @@ export const useAuth = () => {
   }, []);
 
   const signOut = async () => {
+    await clearOfflineData();
     await supabase.auth.signOut();
     navigate("/auth");
   };
@@ -24,7 +24,23 @@ interface LanguageDetectionResult {
   confidence: string;
 }
 
-export const useAutoTranslate = () => {
+export interface BatchTranslation {
+  messageId: string;
+  translatedText: string;
+  sourceLanguage: string;
+  cached: boolean;
+}
+
+export interface BatchTranslationResult {
+  translations: BatchTranslation[];
+  limitReached: boolean;
+}
+
+// Matches the edge functions' per-request limit
+const BATCH_SIZE = 50;
+
+// conversationId selects that chat's translation glossary
+export const useAutoTranslate = (conversationId?: string | null) => {
   const [translating, setTranslating] = useState(false);
   const [preferences, setPreferences] = useState<LanguagePreferences>({
     send_language: 'en',
@@ -114,7 +130,7 @@ export const useAutoTranslate = () => {
     if (!text.trim()) return null;
 
     // Check cache first
-    const cacheKey = `${text}_${targetLanguage}`;
+    const cacheKey = `${conversationId ?? ''}_${text}_${targetLanguage}`;
     const cached = translationCache.get(cacheKey);
     if (cached) {
       return { translatedText: cached, sourceLanguage: 'cached', targetLanguage };
@@ -123,7 +139,7 @@ export const useAutoTranslate = () => {
     setTranslating(true);
     try {
       const { data, error } = await supabase.functions.invoke('translate-message', {
-        body: { text, targetLanguage, messageId }
+        body: { text, targetLanguage, messageId, conversationId: conversationId || undefined }
       });
 
       if (error) throw error;
@@ -140,7 +156,7 @@ export const useAutoTranslate = () => {
     } finally {
       setTranslating(false);
     }
-  }, [translationCache]);
+  }, [translationCache, conversationId]);
 
   const detectLanguage = useCallback(async (
     text: string,
@@ -207,6 +223,66 @@ export const useAutoTranslate = () => {
     return result?.translatedText || text;
   }, [getEffectivePreferences, translateText]);
 
+  // Translates stored messages in batches of BATCH_SIZE; stops early once the
+  // free daily limit is reached
+  const translateMessages = useCallback(async (
+    messageIds: string[],
+    targetLanguage: string,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<BatchTranslationResult> => {
+    const translations: BatchTranslation[] = [];
+    let limitReached = false;
+
+    for (let start = 0; start < messageIds.length && !limitReached; start += BATCH_SIZE) {
+      const batch = messageIds.slice(start, start + BATCH_SIZE);
+      const { data, error } = await supabase.functions.invoke('translate-message', {
+        body: { messageIds: batch, targetLanguage, conversationId: conversationId || undefined }
+      });
+
+      if (error) throw error;
+
+      translations.push(...(data?.translations || []));
+      limitReached = !!data?.limitReached;
+      onProgress?.(Math.min(start + batch.length, messageIds.length), messageIds.length);
+    }
+
+    return { translations, limitReached };
+  }, [conversationId]);
+
+  const detectLanguages = useCallback(async (
+    messageIds: string[]
+  ): Promise<Map<string, LanguageDetectionResult>> => {
+    const detected = new Map<string, LanguageDetectionResult>();
+    const uncached = messageIds.filter(id => {
+      const cached = languageCache.get(id);
+      if (cached) detected.set(id, cached);
+      return !cached;
+    });
+
+    for (let start = 0; start < uncached.length; start += BATCH_SIZE) {
+      try {
+        const { data, error } = await supabase.functions.invoke('detect-language', {
+          body: { messageIds: uncached.slice(start, start + BATCH_SIZE) }
+        });
+
+        if (error) throw error;
+
+        for (const item of data?.languages || []) {
+          detected.set(item.messageId, {
+            languageCode: item.languageCode,
+            languageName: item.languageName,
+            confidence: 'high',
+          });
+        }
+      } catch (error) {
+        console.error('Batch language detection error:', error);
+      }
+    }
+
+    setLanguageCache(prev => new Map([...prev, ...detected]));
+    return detected;
+  }, [languageCache]);
+
   // Check if auto-translate is enabled (considering contact preferences)
   const isAutoTranslateEnabled = useCallback((): boolean => {
     return getEffectivePreferences().auto_translate;
@@ -221,7 +297,9 @@ export const useAutoTranslate = () => {
     getEffectivePreferences,
     isAutoTranslateEnabled,
     translateText,
+    translateMessages,
     detectLanguage,
+    detectLanguages,
     autoTranslateIncoming,
     translateOutgoing,
     translationCache,
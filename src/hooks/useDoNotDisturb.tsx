@@ -5,13 +5,30 @@ interface DNDSettings {
   dnd_enabled: boolean;
   dnd_start_time: string;
   dnd_end_time: string;
+  timezone: string;
 }
 
+// Minutes past midnight in the given timezone, matching the server's DND check
+const minutesInTimezone = (date: Date, timezone: string) => {
+  try {
+    const [hours, minutes] = new Intl.DateTimeFormat('en-GB', {
+      timeZone: timezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).format(date).split(':').map(Number);
+    return hours * 60 + minutes;
+  } catch {
+    return date.getHours() * 60 + date.getMinutes();
+  }
+};
+
 export const useDoNotDisturb = () => {
   const [settings, setSettings] = useState<DNDSettings>({
     dnd_enabled: false,
     dnd_start_time: "22:00:00",
     dnd_end_time: "07:00:00",
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
   });
   const [loading, setLoading] = useState(true);
 
@@ -22,7 +39,7 @@ export const useDoNotDisturb = () => {
 
       const { data } = await supabase
         .from('profiles')
-        .select('dnd_enabled, dnd_start_time, dnd_end_time')
+        .select('dnd_enabled, dnd_start_time, dnd_end_time, timezone')
         .eq('user_id', userData.user.id)
         .single();
 
@@ -31,6 +48,7 @@ export const useDoNotDisturb = () => {
           dnd_enabled: data.dnd_enabled ?? false,
           dnd_start_time: data.dnd_start_time ?? "22:00:00",
           dnd_end_time: data.dnd_end_time ?? "07:00:00",
+          timezone: data.timezone,
         });
       }
     } catch (error) {
@@ -47,8 +65,7 @@ export const useDoNotDisturb = () => {
   const isInDNDPeriod = useCallback((): boolean => {
     if (!settings.dnd_enabled) return false;
 
-    const now = new Date();
-    const currentTime = now.getHours() * 60 + now.getMinutes();
+    const currentTime = minutesInTimezone(new Date(), settings.timezone);
 
     const [startHour, startMin] = settings.dnd_start_time.split(':').map(Number);
     const [endHour, endMin] = settings.dnd_end_time.split(':').map(Number);
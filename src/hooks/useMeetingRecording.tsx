@@ -0,0 +1,220 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { MeetingRecorder, MeetingRecordingRow, pickRecordingMimeType } from "@/utils/meetingRecorder";
+
+interface UseMeetingRecordingProps {
+  meetingId?: string;
+  userId: string;
+  isVideo: boolean;
+  // Everyone's media keyed by user id, including the local stream
+  sources: Map<string, MediaStream>;
+  onUploadError?: () => void;
+}
+
+export const useMeetingRecording = ({ meetingId, userId, isVideo, sources, onUploadError }: UseMeetingRecordingProps) => {
+  const [activeRecording, setActiveRecording] = useState<MeetingRecordingRow | null>(null);
+  // user id -> whether they agreed to the running recording
+  const [consents, setConsents] = useState<Map<string, boolean>>(new Map());
+  const [isStarting, setIsStarting] = useState(false);
+  const recorderRef = useRef<MeetingRecorder | null>(null);
+  const activeRecordingRef = useRef<MeetingRecordingRow | null>(null);
+  const onUploadErrorRef = useRef(onUploadError);
+  onUploadErrorRef.current = onUploadError;
+
+  const isRecordingOwner = !!activeRecording && activeRecording.started_by === userId;
+
+  useEffect(() => {
+    activeRecordingRef.current = activeRecording;
+  }, [activeRecording]);
+
+  // Track whichever recording is running in this meeting, whoever started it
+  useEffect(() => {
+    if (!meetingId) return;
+
+    const fetchActiveRecording = async () => {
+      const { data, error } = await supabase
+        .from('meeting_recordings')
+        .select('*')
+        .eq('meeting_id', meetingId)
+        .eq('status', 'recording')
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching active recording:', error);
+        return;
+      }
+      setActiveRecording(data);
+    };
+
+    fetchActiveRecording();
+
+    const channel = supabase
+      .channel(`meeting-recordings-${meetingId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'meeting_recordings',
+          filter: `meeting_id=eq.${meetingId}`,
+        },
+        () => {
+          fetchActiveRecording();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [meetingId]);
+
+  useEffect(() => {
+    const recordingId = activeRecording?.id;
+    if (!recordingId) {
+      setConsents(new Map());
+      return;
+    }
+
+    const fetchConsents = async () => {
+      const { data, error } = await supabase
+        .from('meeting_recording_consents')
+        .select('user_id, consented')
+        .eq('recording_id', recordingId);
+
+      if (error) {
+        console.error('Error fetching recording consents:', error);
+        return;
+      }
+      setConsents(new Map(data?.map(row => [row.user_id, row.consented]) || []));
+    };
+
+    fetchConsents();
+
+    const channel = supabase
+      .channel(`meeting-recording-consents-${recordingId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'meeting_recording_consents',
+          filter: `recording_id=eq.${recordingId}`,
+        },
+        () => {
+          fetchConsents();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [activeRecording?.id]);
+
+  // Only people who said yes end up in the recording; no answer means no.
+  // The recorder agreed by starting it.
+  useEffect(() => {
+    if (!recorderRef.current) return;
+
+    const included = new Map(Array.from(sources.entries()).filter(([id]) => id === userId || consents.get(id) === true));
+    recorderRef.current.setSources(included);
+  }, [sources, consents, activeRecording, userId]);
+
+  const respondToRecording = useCallback(async (consented: boolean) => {
+    const recording = activeRecordingRef.current;
+    if (!recording) return;
+
+    const { error } = await supabase
+      .from('meeting_recording_consents')
+      .upsert({
+        recording_id: recording.id,
+        user_id: userId,
+        consented,
+        responded_at: new Date().toISOString(),
+      });
+
+    if (error) throw error;
+  }, [userId]);
+
+  const startRecording = async () => {
+    if (!meetingId || recorderRef.current) return;
+
+    setIsStarting(true);
+    try {
+      const mimeType = pickRecordingMimeType(isVideo);
+      const { data: recording, error } = await supabase
+        .from('meeting_recordings')
+        .insert({
+          meeting_id: meetingId,
+          started_by: userId,
+          mime_type: mimeType,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      // Starting a recording counts as agreeing to it; the server records that
+      const recorder = new MeetingRecorder(meetingId, recording.id, mimeType, isVideo, () => onUploadErrorRef.current?.());
+      recorder.start(new Map(Array.from(sources.entries()).filter(([id]) => id === userId)));
+      recorderRef.current = recorder;
+      setActiveRecording(recording);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const stopRecording = useCallback(async () => {
+    const recorder = recorderRef.current;
+    const recording = activeRecordingRef.current;
+    if (!recorder || !recording) return;
+
+    recorderRef.current = null;
+    setActiveRecording(null);
+    let status = 'ready';
+    let durationMs: number | null = null;
+    try {
+      ({ durationMs } = await recorder.stop());
+    } catch (error) {
+      console.error('Error stopping recording:', error);
+      status = 'failed';
+    }
+
+    const { error } = await supabase
+      .from('meeting_recordings')
+      .update({
+        status,
+        ended_at: new Date().toISOString(),
+        duration_ms: durationMs,
+      })
+      .eq('id', recording.id);
+
+    if (error) {
+      // Refused when someone in it withdrew their consent; it can't be kept
+      console.error('Error finishing recording:', error);
+      const { error: deleteError } = await supabase
+        .from('meeting_recordings')
+        .delete()
+        .eq('id', recording.id);
+      if (deleteError) console.error('Error discarding recording:', deleteError);
+    }
+  }, []);
+
+  // Leaving the call finishes a recording we started
+  useEffect(() => {
+    return () => {
+      stopRecording();
+    };
+  }, [stopRecording]);
+
+  return {
+    activeRecording,
+    isRecordingOwner,
+    consents,
+    isStarting,
+    startRecording,
+    stopRecording,
+    respondToRecording,
+  };
+};
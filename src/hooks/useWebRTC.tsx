@@ -1,5 +1,9 @@
-import { useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { FALLBACK_ICE_SERVERS, SelectedCandidatePair, getIceServers, getSelectedCandidatePair } from '@/utils/iceServers';
+import { SfuSession, SimulcastLayer, createSfuTransport, shouldUseSfu } from '@/utils/sfu';
+import { createActiveSpeakerDetector, getReceiverAudioLevel } from '@/utils/activeSpeaker';
+import { CallStats, StatsSnapshot, applyQualityLevel, createQualityController, readCallStats } from '@/utils/callStats';
 
 interface WebRTCConfig {
   callId: string;
@@ -8,37 +12,155 @@ interface WebRTCConfig {
   onRemoteStream?: (stream: MediaStream) => void;
 }
 
+export interface PeerConnectionInfo {
+  state: RTCPeerConnectionState;
+  // True while an ICE restart is being negotiated
+  restarting: boolean;
+  candidate: SelectedCandidatePair | null;
+}
+
+export type CallTopology = 'mesh' | 'sfu';
+
+export type MediaInputKind = 'audioinput' | 'videoinput';
+
+// callStats keys for the two SFU connections
+export const SFU_PUBLISHER_STATS_KEY = 'sfu-publisher';
+export const SFU_SUBSCRIBER_STATS_KEY = 'sfu-subscriber';
+
+const VIDEO_CONSTRAINTS: MediaTrackConstraints = {
+  width: { ideal: 1280 },
+  height: { ideal: 720 },
+};
+
+const AUDIO_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+// How long a connection may stay 'disconnected' before we restart ICE
+const DISCONNECTED_RESTART_DELAY_MS = 5000;
+const ACTIVE_SPEAKER_INTERVAL_MS = 300;
+const STATS_INTERVAL_MS = 2000;
+
 export const useWebRTC = ({ callId, userId, isVideo, onRemoteStream }: WebRTCConfig) => {
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
   const [remoteStreams, setRemoteStreams] = useState<Map<string, MediaStream>>(new Map());
   const [isConnecting, setIsConnecting] = useState(false);
+  const [connectionInfo, setConnectionInfo] = useState<Map<string, PeerConnectionInfo>>(new Map());
+  const [topology, setTopology] = useState<CallTopology>('mesh');
+  const [activeSpeakerId, setActiveSpeakerId] = useState<string | null>(null);
+  const [isScreenSharing, setIsScreenSharing] = useState(false);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [selectedDevices, setSelectedDevices] = useState<Partial<Record<MediaInputKind, string>>>({});
+  const [callStats, setCallStats] = useState<Map<string, CallStats>>(new Map());
+  // What we currently send; differs from the first getUserMedia stream after switching devices or sharing
+  const localStreamRef = useRef<MediaStream | null>(null);
+  const cameraTrackRef = useRef<MediaStreamTrack | null>(null);
+  const screenTrackRef = useRef<MediaStreamTrack | null>(null);
+  const statsIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const statsSnapshots = useRef<Map<string, StatsSnapshot>>(new Map());
+  const qualityControllers = useRef<Map<string, ReturnType<typeof createQualityController>>>(new Map());
+  const deviceChangeHandlerRef = useRef<(() => void) | null>(null);
   const peerConnections = useRef<Map<string, RTCPeerConnection>>(new Map());
   const pendingIceCandidates = useRef<Map<string, RTCIceCandidateInit[]>>(new Map());
   const channelRef = useRef<any>(null);
+  const iceServersRef = useRef<RTCIceServer[]>(FALLBACK_ICE_SERVERS);
+  // Participants whose current connection we offered; only the offerer restarts ICE
+  const offeredTo = useRef<Set<string>>(new Set());
+  const restartTimers = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+  const sfuSessionRef = useRef<SfuSession | null>(null);
+  const preferredLayers = useRef<Map<string, SimulcastLayer>>(new Map());
+  const speakerIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
-  const configuration: RTCConfiguration = {
-    iceServers: [
-      { urls: 'stun:stun.l.google.com:19302' },
-      { urls: 'stun:stun1.l.google.com:19302' },
-      { urls: 'stun:stun2.l.google.com:19302' },
-      { urls: 'stun:stun3.l.google.com:19302' },
-    ],
+  const getConfiguration = (): RTCConfiguration => ({
+    iceServers: iceServersRef.current,
     iceCandidatePoolSize: 10,
+  });
+
+  const updateConnectionInfo = (participantId: string, update: Partial<PeerConnectionInfo>) => {
+    setConnectionInfo(prev => {
+      const updated = new Map(prev);
+      const current = prev.get(participantId) ?? { state: 'new', restarting: false, candidate: null };
+      updated.set(participantId, { ...current, ...update });
+      return updated;
+    });
+  };
+
+  const refreshSelectedCandidate = async (participantId: string, pc: RTCPeerConnection) => {
+    try {
+      const candidate = await getSelectedCandidatePair(pc);
+      console.log(`🧊 Selected candidate pair [${participantId}]:`, candidate);
+      updateConnectionInfo(participantId, { candidate });
+    } catch (error) {
+      console.error('Error reading connection stats:', error);
+    }
+  };
+
+  const clearRestartTimer = (participantId: string) => {
+    const timer = restartTimers.current.get(participantId);
+    if (timer) {
+      clearTimeout(timer);
+      restartTimers.current.delete(participantId);
+    }
+  };
+
+  const restartConnection = async (participantId: string) => {
+    const pc = peerConnections.current.get(participantId);
+    if (!pc || pc.connectionState === 'closed') return;
+
+    clearRestartTimer(participantId);
+    updateConnectionInfo(participantId, { restarting: true });
+
+    // The answering side asks the offerer to restart so both don't offer at once
+    if (!offeredTo.current.has(participantId)) {
+      console.log('🔄 Requesting ICE restart from:', participantId);
+      channelRef.current?.send({
+        type: 'broadcast',
+        event: 'restart-request',
+        payload: { from: userId, to: participantId },
+      });
+      return;
+    }
+
+    if (pc.signalingState !== 'stable') {
+      console.log('⚠️ Skipping ICE restart, negotiation in progress:', pc.signalingState);
+      return;
+    }
+
+    try {
+      console.log('🔄 Restarting ICE for:', participantId);
+      // Credentials may have expired since the call started
+      iceServersRef.current = await getIceServers({ forceRefresh: true });
+      pc.setConfiguration(getConfiguration());
+
+      const offer = await pc.createOffer({ iceRestart: true });
+      await pc.setLocalDescription(offer);
+
+      await channelRef.current?.send({
+        type: 'broadcast',
+        event: 'offer',
+        payload: {
+          offer: {
+            type: offer.type,
+            sdp: offer.sdp,
+          },
+          from: userId,
+          to: participantId,
+          restart: true,
+        },
+      });
+    } catch (error) {
+      console.error('Error restarting ICE:', error);
+    }
   };
 
   const startLocalStream = async () => {
     try {
       console.log('Requesting getUserMedia with video:', isVideo, 'audio:', true);
       const stream = await navigator.mediaDevices.getUserMedia({
-        video: isVideo ? {
-          width: { ideal: 1280 },
-          height: { ideal: 720 }
-        } : false,
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true
-        },
+        video: isVideo ? VIDEO_CONSTRAINTS : false,
+        audio: AUDIO_CONSTRAINTS,
       });
       
       console.log('Got local stream with tracks:', stream.getTracks().map(t => `${t.kind} (${t.label})`));
@@ -49,7 +171,14 @@ export const useWebRTC = ({ callId, userId, isVideo, onRemoteStream }: WebRTCCon
         console.log('🔊 Audio track enabled:', track.label);
       });
       
+      localStreamRef.current = stream;
       setLocalStream(stream);
+      setSelectedDevices({
+        audioinput: stream.getAudioTracks()[0]?.getSettings().deviceId,
+        videoinput: stream.getVideoTracks()[0]?.getSettings().deviceId,
+      });
+      // Device labels are only available once permission has been granted
+      refreshDevices();
       return stream;
     } catch (error) {
       console.error('Error accessing media devices:', error);
@@ -57,9 +186,10 @@ export const useWebRTC = ({ callId, userId, isVideo, onRemoteStream }: WebRTCCon
     }
   };
 
-  const createPeerConnection = (participantId: string, stream: MediaStream) => {
+  const createPeerConnection = (participantId: string, initialStream: MediaStream) => {
     console.log('🔌 Creating peer connection for:', participantId);
-    const pc = new RTCPeerConnection(configuration);
+    const pc = new RTCPeerConnection(getConfiguration());
+    const stream = localStreamRef.current ?? initialStream;
 
     // Add local tracks to peer connection
     stream.getTracks().forEach(track => {
@@ -153,9 +283,22 @@ export const useWebRTC = ({ callId, userId, isVideo, onRemoteStream }: WebRTCCon
       
       if (pc.iceConnectionState === 'failed') {
         console.error('❌ ICE connection failed, attempting restart');
-        pc.restartIce();
-      } else if (pc.iceConnectionState === 'connected') {
+        restartConnection(participantId);
+      } else if (pc.iceConnectionState === 'disconnected') {
+        // Often recovers by itself (e.g. a brief network switch); restart if it doesn't
+        clearRestartTimer(participantId);
+        restartTimers.current.set(participantId, setTimeout(() => {
+          restartTimers.current.delete(participantId);
+          if (pc.iceConnectionState === 'disconnected') {
+            console.warn('⚠️ ICE still disconnected, attempting restart');
+            restartConnection(participantId);
+          }
+        }, DISCONNECTED_RESTART_DELAY_MS));
+      } else if (pc.iceConnectionState === 'connected' || pc.iceConnectionState === 'completed') {
         console.log('✅ ICE connection established');
+        clearRestartTimer(participantId);
+        updateConnectionInfo(participantId, { restarting: false });
+        refreshSelectedCandidate(participantId, pc);
         // Log track states after ICE connects
         pc.getReceivers().forEach(receiver => {
           if (receiver.track) {
@@ -172,6 +315,7 @@ export const useWebRTC = ({ callId, userId, isVideo, onRemoteStream }: WebRTCCon
     // Monitor overall connection state
     pc.onconnectionstatechange = () => {
       console.log(`🔗 Connection state [${participantId}]:`, pc.connectionState);
+      updateConnectionInfo(participantId, { state: pc.connectionState });
       
       if (pc.connectionState === 'connected') {
         console.log('✅ Peer connection fully established');
@@ -193,6 +337,7 @@ export const useWebRTC = ({ callId, userId, isVideo, onRemoteStream }: WebRTCCon
     try {
       console.log('Creating offer for:', participantId);
       const pc = createPeerConnection(participantId, stream);
+      offeredTo.current.add(participantId);
       
       const offer = await pc.createOffer({
         offerToReceiveAudio: true,
@@ -219,10 +364,21 @@ export const useWebRTC = ({ callId, userId, isVideo, onRemoteStream }: WebRTCCon
     }
   };
 
-  const handleOffer = async (offer: RTCSessionDescriptionInit, from: string, stream: MediaStream) => {
+  const handleOffer = async (offer: RTCSessionDescriptionInit, from: string, stream: MediaStream, restart = false) => {
     try {
-      console.log('Handling offer from:', from);
-      const pc = createPeerConnection(from, stream);
+      console.log('Handling offer from:', from, restart ? '(ICE restart)' : '');
+      // An ICE restart renegotiates the existing connection instead of replacing it
+      const existing = peerConnections.current.get(from);
+      let pc: RTCPeerConnection;
+      if (restart && existing && existing.connectionState !== 'closed') {
+        pc = existing;
+        updateConnectionInfo(from, { restarting: true });
+        iceServersRef.current = await getIceServers();
+        pc.setConfiguration(getConfiguration());
+      } else {
+        pc = createPeerConnection(from, stream);
+        offeredTo.current.delete(from);
+      }
       
       await pc.setRemoteDescription(new RTCSessionDescription(offer));
       console.log('Remote description set for:', from);
@@ -308,11 +464,228 @@ export const useWebRTC = ({ callId, userId, isVideo, onRemoteStream }: WebRTCCon
     }
   };
 
+  // Remote participants reached through the SFU share its connection state
+  const updateSfuConnectionInfo = async (participantIds: string[], state: RTCPeerConnectionState) => {
+    const subscriber = sfuSessionRef.current?.getConnection('subscriber');
+    const candidate = state === 'connected' && subscriber
+      ? await getSelectedCandidatePair(subscriber).catch(() => null)
+      : undefined;
+
+    participantIds
+      .filter(participantId => participantId !== userId && !peerConnections.current.has(participantId))
+      .forEach(participantId => {
+        updateConnectionInfo(participantId, {
+          state,
+          restarting: state === 'disconnected' || state === 'failed',
+          ...(candidate !== undefined && { candidate }),
+        });
+      });
+  };
+
+  const joinSfu = async (participantIds: string[], stream: MediaStream) => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      const sfu = new SfuSession({
+        transport: createSfuTransport(),
+        roomId: callId,
+        participantId: userId,
+        accessToken: session?.access_token,
+        iceServers: iceServersRef.current,
+        onStream: (participantId, remoteStream) => {
+          console.log('🎥 Received SFU stream from:', participantId);
+          setRemoteStreams(prev => new Map(prev).set(participantId, remoteStream));
+          onRemoteStream?.(remoteStream);
+        },
+        onParticipantLeft: (participantId) => {
+          console.log('👋 Participant left SFU room:', participantId);
+          preferredLayers.current.delete(participantId);
+          setRemoteStreams(prev => {
+            const updated = new Map(prev);
+            updated.delete(participantId);
+            return updated;
+          });
+        },
+        onConnectionStateChange: (state) => {
+          updateSfuConnectionInfo(participantIds, state);
+        },
+      });
+      sfuSessionRef.current = sfu;
+
+      await sfu.join(stream);
+      console.log('✅ Joined SFU room, simulcast:', sfu.supportsSimulcast);
+      return true;
+    } catch (error) {
+      console.error('Error joining SFU, falling back to mesh:', error);
+      sfuSessionRef.current?.leave();
+      sfuSessionRef.current = null;
+      return false;
+    }
+  };
+
+  const startActiveSpeakerDetection = () => {
+    const detectActiveSpeaker = createActiveSpeakerDetector();
+
+    speakerIntervalRef.current = setInterval(() => {
+      const levels = sfuSessionRef.current?.getAudioLevels() ?? new Map<string, number>();
+      peerConnections.current.forEach((pc, participantId) => {
+        const level = getReceiverAudioLevel(pc);
+        if (level !== undefined) levels.set(participantId, level);
+      });
+      setActiveSpeakerId(detectActiveSpeaker(levels));
+    }, ACTIVE_SPEAKER_INTERVAL_MS);
+  };
+
+  // Which simulcast layer to receive for a participant; only applies to SFU calls
+  const setPreferredLayer = useCallback((participantId: string, layer: SimulcastLayer) => {
+    const sfu = sfuSessionRef.current;
+    if (!sfu || preferredLayers.current.get(participantId) === layer) return;
+    preferredLayers.current.set(participantId, layer);
+    sfu.setPreferredLayer(participantId, layer);
+  }, []);
+
+  const refreshDevices = async () => {
+    try {
+      const available = await navigator.mediaDevices.enumerateDevices();
+      setDevices(available.filter(device =>
+        device.deviceId && (device.kind === 'audioinput' || device.kind === 'videoinput')
+      ));
+    } catch (error) {
+      console.error('Error listing media devices:', error);
+    }
+  };
+
+  // Swap the track we send on every connection without renegotiating
+  const replaceOutgoingTrack = async (kind: 'audio' | 'video', track: MediaStreamTrack) => {
+    const connections = [
+      ...peerConnections.current.values(),
+      sfuSessionRef.current?.getConnection('publisher'),
+    ].filter((pc): pc is RTCPeerConnection => !!pc && pc.connectionState !== 'closed');
+
+    await Promise.all(connections
+      .flatMap(pc => pc.getSenders())
+      .filter(sender => sender.track?.kind === kind)
+      .map(sender => sender.replaceTrack(track)));
+
+    const others = localStreamRef.current?.getTracks().filter(existing => existing.kind !== kind) ?? [];
+    const updated = new MediaStream([...others, track]);
+    localStreamRef.current = updated;
+    setLocalStream(updated);
+  };
+
+  const switchDevice = async (kind: MediaInputKind, deviceId: string) => {
+    const isAudio = kind === 'audioinput';
+    // While sharing, the camera isn't being sent; switch the one we'll go back to
+    const current = isAudio
+      ? localStreamRef.current?.getAudioTracks()[0]
+      : screenTrackRef.current ? cameraTrackRef.current : localStreamRef.current?.getVideoTracks()[0];
+    const constraints: MediaStreamConstraints = isAudio
+      ? { audio: { ...AUDIO_CONSTRAINTS, deviceId: { exact: deviceId } } }
+      : { video: { ...VIDEO_CONSTRAINTS, deviceId: { exact: deviceId } } };
+
+    let media: MediaStream;
+    try {
+      media = await navigator.mediaDevices.getUserMedia(constraints);
+    } catch (error) {
+      // Phones often can't open a second camera while the first one is in use
+      if (isAudio || !(error instanceof DOMException) || error.name !== 'NotReadableError') throw error;
+      current?.stop();
+      media = await navigator.mediaDevices.getUserMedia(constraints);
+    }
+
+    const track = media.getTracks()[0];
+    if (current) track.enabled = current.enabled;
+
+    if (!isAudio && screenTrackRef.current) {
+      cameraTrackRef.current = track;
+    } else {
+      await replaceOutgoingTrack(isAudio ? 'audio' : 'video', track);
+    }
+    current?.stop();
+    setSelectedDevices(prev => ({ ...prev, [kind]: deviceId }));
+  };
+
+  const stopScreenShare = async () => {
+    const screenTrack = screenTrackRef.current;
+    if (!screenTrack) return;
+
+    screenTrackRef.current = null;
+    screenTrack.onended = null;
+    screenTrack.stop();
+    setIsScreenSharing(false);
+
+    if (cameraTrackRef.current) {
+      await replaceOutgoingTrack('video', cameraTrackRef.current);
+      cameraTrackRef.current = null;
+    }
+  };
+
+  // Screen sharing replaces the camera track, so it needs a video call
+  const startScreenShare = async () => {
+    if (!isVideo || screenTrackRef.current) return false;
+
+    try {
+      const display = await navigator.mediaDevices.getDisplayMedia({ video: { frameRate: 15 }, audio: false });
+      const screenTrack = display.getVideoTracks()[0];
+      screenTrack.contentHint = 'detail';
+
+      cameraTrackRef.current = localStreamRef.current?.getVideoTracks()[0] ?? null;
+      screenTrackRef.current = screenTrack;
+      // Fired when the user stops sharing from the browser's own controls
+      screenTrack.onended = () => {
+        stopScreenShare();
+      };
+
+      await replaceOutgoingTrack('video', screenTrack);
+      setIsScreenSharing(true);
+      return true;
+    } catch (error) {
+      console.error('Error starting screen share:', error);
+      screenTrackRef.current = null;
+      return false;
+    }
+  };
+
+  const collectStats = async () => {
+    const connections = Array.from(peerConnections.current.entries());
+    const sfu = sfuSessionRef.current;
+    const publisher = sfu?.getConnection('publisher');
+    const subscriber = sfu?.getConnection('subscriber');
+    if (publisher) connections.push([SFU_PUBLISHER_STATS_KEY, publisher]);
+    if (subscriber) connections.push([SFU_SUBSCRIBER_STATS_KEY, subscriber]);
+
+    const next = new Map<string, CallStats>();
+    await Promise.all(connections
+      .filter(([, pc]) => pc.connectionState === 'connected')
+      .map(async ([key, pc]) => {
+        try {
+          const { stats, snapshot } = await readCallStats(pc, statsSnapshots.current.get(key));
+          statsSnapshots.current.set(key, snapshot);
+
+          const controller = qualityControllers.current.get(key) ?? createQualityController();
+          qualityControllers.current.set(key, controller);
+          const qualityLevel = controller(stats);
+
+          const videoSender = pc.getSenders().find(sender => sender.track?.kind === 'video');
+          if (videoSender) {
+            await applyQualityLevel(videoSender, qualityLevel, !!screenTrackRef.current);
+          }
+          next.set(key, { ...stats, qualityLevel });
+        } catch (error) {
+          console.error('Error collecting call stats:', error);
+        }
+      }));
+
+    setCallStats(next);
+  };
+
   const initializeCall = async (participantIds: string[]) => {
     setIsConnecting(true);
     try {
       console.log('🚀 Initializing call with participants:', participantIds);
       console.log('📞 Media constraints - audio: true, video:', isVideo);
+
+      // TURN credentials are short-lived, so fetch them per call
+      iceServersRef.current = await getIceServers();
       
       // Get local media stream first
       const stream = await startLocalStream();
@@ -321,8 +694,18 @@ export const useWebRTC = ({ callId, userId, isVideo, onRemoteStream }: WebRTCCon
         audioTracks: stream.getAudioTracks().length,
         active: stream.active
       });
+
+      // Large group calls go through the SFU; 1:1 and small calls stay peer-to-peer
+      const useSfu = shouldUseSfu(participantIds.length) && await joinSfu(participantIds, stream);
+      setTopology(useSfu ? 'sfu' : 'mesh');
+      console.log('🕸️ Call topology:', useSfu ? 'sfu' : 'mesh');
+      startActiveSpeakerDetection();
+      statsIntervalRef.current = setInterval(collectStats, STATS_INTERVAL_MS);
+      deviceChangeHandlerRef.current = refreshDevices;
+      navigator.mediaDevices.addEventListener('devicechange', refreshDevices);
       
-      // Set up signaling channel
+      // Set up signaling channel. In SFU mode it still answers mesh offers
+      // from participants who couldn't reach the SFU.
       const channel = supabase.channel(`call:${callId}`, {
         config: {
           broadcast: { self: false },
@@ -335,7 +718,7 @@ export const useWebRTC = ({ callId, userId, isVideo, onRemoteStream }: WebRTCCon
         .on('broadcast', { event: 'offer' }, async ({ payload }) => {
           if (payload.to === userId) {
             console.log('📨 Received offer from:', payload.from);
-            await handleOffer(payload.offer, payload.from, stream);
+            await handleOffer(payload.offer, payload.from, stream, payload.restart);
           }
         })
         .on('broadcast', { event: 'answer' }, async ({ payload }) => {
@@ -350,10 +733,16 @@ export const useWebRTC = ({ callId, userId, isVideo, onRemoteStream }: WebRTCCon
             await handleIceCandidate(payload.candidate, payload.from);
           }
         })
+        .on('broadcast', { event: 'restart-request' }, async ({ payload }) => {
+          if (payload.to === userId && offeredTo.current.has(payload.from)) {
+            console.log('📨 Received ICE restart request from:', payload.from);
+            await restartConnection(payload.from);
+          }
+        })
         .subscribe(async (status) => {
           console.log('📡 Channel status:', status);
           
-          if (status === 'SUBSCRIBED') {
+          if (status === 'SUBSCRIBED' && !useSfu) {
             // Wait a moment for full connection
             await new Promise(resolve => setTimeout(resolve, 1000));
             
@@ -378,6 +767,7 @@ export const useWebRTC = ({ callId, userId, isVideo, onRemoteStream }: WebRTCCon
   };
 
   const toggleAudio = () => {
+    const localStream = localStreamRef.current;
     if (localStream) {
       const audioTrack = localStream.getAudioTracks()[0];
       if (audioTrack) {
@@ -389,6 +779,7 @@ export const useWebRTC = ({ callId, userId, isVideo, onRemoteStream }: WebRTCCon
   };
 
   const toggleVideo = () => {
+    const localStream = localStreamRef.current;
     if (localStream) {
       const videoTrack = localStream.getVideoTracks()[0];
       if (videoTrack) {
@@ -400,16 +791,46 @@ export const useWebRTC = ({ callId, userId, isVideo, onRemoteStream }: WebRTCCon
   };
 
   const endCall = () => {
-    // Stop local stream
-    localStream?.getTracks().forEach(track => track.stop());
+    // Stop local stream, including a camera parked during screen sharing
+    localStreamRef.current?.getTracks().forEach(track => track.stop());
+    cameraTrackRef.current?.stop();
+    localStreamRef.current = null;
+    cameraTrackRef.current = null;
+    screenTrackRef.current = null;
     setLocalStream(null);
+    setIsScreenSharing(false);
+    if (deviceChangeHandlerRef.current) {
+      navigator.mediaDevices.removeEventListener('devicechange', deviceChangeHandlerRef.current);
+      deviceChangeHandlerRef.current = null;
+    }
 
     // Close all peer connections
     peerConnections.current.forEach(pc => pc.close());
     peerConnections.current.clear();
+    offeredTo.current.clear();
+    restartTimers.current.forEach(timer => clearTimeout(timer));
+    restartTimers.current.clear();
+
+    sfuSessionRef.current?.leave();
+    sfuSessionRef.current = null;
+    preferredLayers.current.clear();
+    if (speakerIntervalRef.current) {
+      clearInterval(speakerIntervalRef.current);
+      speakerIntervalRef.current = null;
+    }
+    setActiveSpeakerId(null);
+
+    if (statsIntervalRef.current) {
+      clearInterval(statsIntervalRef.current);
+      statsIntervalRef.current = null;
+    }
+    statsSnapshots.current.clear();
+    qualityControllers.current.clear();
+    setCallStats(new Map());
 
     // Clear remote streams
     setRemoteStreams(new Map());
+    setConnectionInfo(new Map());
 
     // Unsubscribe from channel
     if (channelRef.current) {
@@ -427,10 +848,21 @@ export const useWebRTC = ({ callId, userId, isVideo, onRemoteStream }: WebRTCCon
   return {
     localStream,
     remoteStreams,
+    connectionInfo,
+    topology,
+    activeSpeakerId,
     isConnecting,
     initializeCall,
+    setPreferredLayer,
     toggleAudio,
     toggleVideo,
+    isScreenSharing,
+    startScreenShare,
+    stopScreenShare,
+    devices,
+    selectedDevices,
+    switchDevice,
+    callStats,
     endCall,
   };
 };
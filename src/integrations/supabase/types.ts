@@ -45,6 +45,8 @@ export type Database = {
           created_at: string
           id: string
           role: string
+          search_vector: unknown
+          tool_calls: Json | null
           user_id: string
         }
         Insert: {
@@ -53,6 +55,8 @@ export type Database = {
           created_at?: string
           id?: string
           role: string
+          search_vector?: unknown
+          tool_calls?: Json | null
           user_id: string
         }
         Update: {
@@ -61,6 +65,8 @@ export type Database = {
           created_at?: string
           id?: string
           role?: string
+          search_vector?: unknown
+          tool_calls?: Json | null
           user_id?: string
         }
         Relationships: [
@@ -100,6 +106,90 @@ export type Database = {
         }
         Relationships: []
       }
+      ai_usage: {
+        Row: {
+          completion_tokens: number
+          created_at: string
+          feature: string
+          id: string
+          model: string
+          prompt_tokens: number
+          provider: string
+          total_tokens: number
+          user_id: string | null
+        }
+        Insert: {
+          completion_tokens?: number
+          created_at?: string
+          feature: string
+          id?: string
+          model: string
+          prompt_tokens?: number
+          provider: string
+          total_tokens?: number
+          user_id?: string | null
+        }
+        Update: {
+          completion_tokens?: number
+          created_at?: string
+          feature?: string
+          id?: string
+          model?: string
+          prompt_tokens?: number
+          provider?: string
+          total_tokens?: number
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      billing_events: {
+        Row: {
+          id: string
+          provider: string
+          received_at: string
+          type: string
+        }
+        Insert: {
+          id: string
+          provider: string
+          received_at?: string
+          type: string
+        }
+        Update: {
+          id?: string
+          provider?: string
+          received_at?: string
+          type?: string
+        }
+        Relationships: []
+      }
+      billing_organizations: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          owner_id: string
+          seat_limit: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          owner_id: string
+          seat_limit?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          owner_id?: string
+          seat_limit?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       bot_interactions: {
         Row: {
           command: string | null
@@ -148,6 +238,139 @@ export type Database = {
           },
         ]
       }
+      bot_jobs: {
+        Row: {
+          attempts: number
+          available_at: string
+          enqueued_at: string
+          failed_at: string | null
+          kind: string
+          last_error: string | null
+          locked_at: string | null
+          message_id: string
+          reply_message_id: string | null
+          trigger_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          available_at?: string
+          enqueued_at?: string
+          failed_at?: string | null
+          kind: string
+          last_error?: string | null
+          locked_at?: string | null
+          message_id: string
+          reply_message_id?: string | null
+          trigger_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          available_at?: string
+          enqueued_at?: string
+          failed_at?: string | null
+          kind?: string
+          last_error?: string | null
+          locked_at?: string | null
+          message_id?: string
+          reply_message_id?: string | null
+          trigger_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bot_jobs_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: true
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bot_jobs_reply_message_id_fkey"
+            columns: ["reply_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bot_jobs_trigger_id_fkey"
+            columns: ["trigger_id"]
+            isOneToOne: false
+            referencedRelation: "bot_triggers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bot_schedules: {
+        Row: {
+          attempts: number
+          conversation_id: string
+          created_at: string
+          created_by: string
+          enabled: boolean
+          hour: number
+          id: string
+          kind: string
+          last_error: string | null
+          last_message_id: string | null
+          last_run_at: string | null
+          locked_at: string | null
+          next_run_at: string
+          timezone: string
+          updated_at: string
+          weekday: number | null
+        }
+        Insert: {
+          attempts?: number
+          conversation_id: string
+          created_at?: string
+          created_by: string
+          enabled?: boolean
+          hour?: number
+          id?: string
+          kind: string
+          last_error?: string | null
+          last_message_id?: string | null
+          last_run_at?: string | null
+          locked_at?: string | null
+          next_run_at?: string
+          timezone?: string
+          updated_at?: string
+          weekday?: number | null
+        }
+        Update: {
+          attempts?: number
+          conversation_id?: string
+          created_at?: string
+          created_by?: string
+          enabled?: boolean
+          hour?: number
+          id?: string
+          kind?: string
+          last_error?: string | null
+          last_message_id?: string | null
+          last_run_at?: string | null
+          locked_at?: string | null
+          next_run_at?: string
+          timezone?: string
+          updated_at?: string
+          weekday?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bot_schedules_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bot_schedules_last_message_id_fkey"
+            columns: ["last_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       bot_settings: {
         Row: {
           auto_translate: boolean | null
@@ -156,9 +379,15 @@ export type Database = {
           default_mode: string | null
           enabled: boolean | null
           id: string
+          moderation_categories: string[]
           moderation_enabled: boolean | null
+          moderation_hide: boolean
+          moderation_mute_minutes: number
+          moderation_warn: boolean
           persona: string | null
+          respond_to_mentions: boolean
           target_language: string | null
+          timezone: string
           updated_at: string | null
         }
         Insert: {
@@ -168,9 +397,15 @@ export type Database = {
           default_mode?: string | null
           enabled?: boolean | null
           id?: string
+          moderation_categories?: string[]
           moderation_enabled?: boolean | null
+          moderation_hide?: boolean
+          moderation_mute_minutes?: number
+          moderation_warn?: boolean
           persona?: string | null
+          respond_to_mentions?: boolean
           target_language?: string | null
+          timezone?: string
           updated_at?: string | null
         }
         Update: {
@@ -180,9 +415,15 @@ export type Database = {
           default_mode?: string | null
           enabled?: boolean | null
           id?: string
+          moderation_categories?: string[]
           moderation_enabled?: boolean | null
+          moderation_hide?: boolean
+          moderation_mute_minutes?: number
+          moderation_warn?: boolean
           persona?: string | null
+          respond_to_mentions?: boolean
           target_language?: string | null
+          timezone?: string
           updated_at?: string | null
         }
         Relationships: [
@@ -195,12 +436,98 @@ export type Database = {
           },
         ]
       }
+      bot_triggers: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          created_by: string
+          enabled: boolean
+          id: string
+          instructions: string | null
+          is_regex: boolean
+          last_fired_at: string | null
+          mode: string
+          pattern: string
+          updated_at: string
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          created_by: string
+          enabled?: boolean
+          id?: string
+          instructions?: string | null
+          is_regex?: boolean
+          last_fired_at?: string | null
+          mode?: string
+          pattern: string
+          updated_at?: string
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          created_by?: string
+          enabled?: boolean
+          id?: string
+          instructions?: string | null
+          is_regex?: boolean
+          last_fired_at?: string | null
+          mode?: string
+          pattern?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bot_triggers_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bots: {
+        Row: {
+          avatar_url: string | null
+          conversation_id: string
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          conversation_id: string
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Update: {
+          avatar_url?: string | null
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bots_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: true
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       call_participants: {
         Row: {
           call_id: string
           id: string
           joined_at: string | null
           left_at: string | null
+          missed_notified_at: string | null
           status: string
           user_id: string
         }
@@ -209,6 +536,7 @@ export type Database = {
           id?: string
           joined_at?: string | null
           left_at?: string | null
+          missed_notified_at?: string | null
           status?: string
           user_id: string
         }
@@ -217,6 +545,7 @@ export type Database = {
           id?: string
           joined_at?: string | null
           left_at?: string | null
+          missed_notified_at?: string | null
           status?: string
           user_id?: string
         }
@@ -232,6 +561,7 @@ export type Database = {
       }
       calls: {
         Row: {
+          answered_at: string | null
           call_type: string
           caller_id: string
           conversation_id: string
@@ -242,6 +572,7 @@ export type Database = {
           status: string
         }
         Insert: {
+          answered_at?: string | null
           call_type: string
           caller_id: string
           conversation_id: string
@@ -252,6 +583,7 @@ export type Database = {
           status?: string
         }
         Update: {
+          answered_at?: string | null
           call_type?: string
           caller_id?: string
           conversation_id?: string
@@ -271,6 +603,57 @@ export type Database = {
           },
         ]
       }
+      checklist_items: {
+        Row: {
+          checked_at: string | null
+          checked_by: string | null
+          conversation_id: string
+          created_at: string
+          created_by: string
+          id: string
+          label: string
+          message_id: string
+          position: number
+        }
+        Insert: {
+          checked_at?: string | null
+          checked_by?: string | null
+          conversation_id: string
+          created_at?: string
+          created_by: string
+          id?: string
+          label: string
+          message_id: string
+          position: number
+        }
+        Update: {
+          checked_at?: string | null
+          checked_by?: string | null
+          conversation_id?: string
+          created_at?: string
+          created_by?: string
+          id?: string
+          label?: string
+          message_id?: string
+          position?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "checklist_items_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "checklist_items_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       communities: {
         Row: {
           avatar_url: string | null
@@ -420,6 +803,9 @@ export type Database = {
           is_admin: boolean | null
           is_muted: boolean | null
           joined_at: string
+          last_delivered_at: string | null
+          last_read_at: string | null
+          muted_until: string | null
           user_id: string
         }
         Insert: {
@@ -428,6 +814,9 @@ export type Database = {
           is_admin?: boolean | null
           is_muted?: boolean | null
           joined_at?: string
+          last_delivered_at?: string | null
+          last_read_at?: string | null
+          muted_until?: string | null
           user_id: string
         }
         Update: {
@@ -436,6 +825,9 @@ export type Database = {
           is_admin?: boolean | null
           is_muted?: boolean | null
           joined_at?: string
+          last_delivered_at?: string | null
+          last_read_at?: string | null
+          muted_until?: string | null
           user_id?: string
         }
         Relationships: [
@@ -455,6 +847,7 @@ export type Database = {
           group_avatar_url: string | null
           group_name: string | null
           id: string
+          imported_from: string | null
           is_group: boolean | null
           updated_at: string
         }
@@ -464,6 +857,7 @@ export type Database = {
           group_avatar_url?: string | null
           group_name?: string | null
           id?: string
+          imported_from?: string | null
           is_group?: boolean | null
           updated_at?: string
         }
@@ -473,61 +867,280 @@ export type Database = {
           group_avatar_url?: string | null
           group_name?: string | null
           id?: string
+          imported_from?: string | null
           is_group?: boolean | null
           updated_at?: string
         }
         Relationships: []
       }
-      login_attempts: {
+      embedding_jobs: {
         Row: {
-          attempt_time: string
-          id: string
-          identifier: string
-          success: boolean
+          attempts: number
+          available_at: string
+          enqueued_at: string
+          failed_at: string | null
+          last_error: string | null
+          locked_at: string | null
+          message_id: string
         }
         Insert: {
-          attempt_time?: string
-          id?: string
-          identifier: string
-          success?: boolean
+          attempts?: number
+          available_at?: string
+          enqueued_at?: string
+          failed_at?: string | null
+          last_error?: string | null
+          locked_at?: string | null
+          message_id: string
         }
         Update: {
-          attempt_time?: string
-          id?: string
-          identifier?: string
-          success?: boolean
+          attempts?: number
+          available_at?: string
+          enqueued_at?: string
+          failed_at?: string | null
+          last_error?: string | null
+          locked_at?: string | null
+          message_id?: string
         }
         Relationships: []
       }
-      meeting_participants: {
+      knowledge_chunks: {
         Row: {
-          created_at: string | null
+          chunk_index: number
+          content: string
+          created_at: string
+          embedding: string
           id: string
-          joined_at: string | null
-          left_at: string | null
-          meeting_id: string
-          response_at: string | null
-          status: string
-          user_id: string
+          source_id: string
         }
         Insert: {
-          created_at?: string | null
+          chunk_index: number
+          content: string
+          created_at?: string
+          embedding: string
           id?: string
-          joined_at?: string | null
-          left_at?: string | null
-          meeting_id: string
-          response_at?: string | null
-          status?: string
-          user_id: string
+          source_id: string
         }
         Update: {
-          created_at?: string | null
+          chunk_index?: number
+          content?: string
+          created_at?: string
+          embedding?: string
           id?: string
-          joined_at?: string | null
-          left_at?: string | null
-          meeting_id?: string
-          response_at?: string | null
-          status?: string
+          source_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "knowledge_chunks_source_id_fkey"
+            columns: ["source_id"]
+            isOneToOne: false
+            referencedRelation: "knowledge_sources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      knowledge_community_links: {
+        Row: {
+          community_id: string
+          conversation_id: string
+          created_at: string
+          linked_by: string
+        }
+        Insert: {
+          community_id: string
+          conversation_id: string
+          created_at?: string
+          linked_by: string
+        }
+        Update: {
+          community_id?: string
+          conversation_id?: string
+          created_at?: string
+          linked_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "knowledge_community_links_community_id_fkey"
+            columns: ["community_id"]
+            isOneToOne: false
+            referencedRelation: "communities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "knowledge_community_links_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      knowledge_jobs: {
+        Row: {
+          attempts: number
+          available_at: string
+          enqueued_at: string
+          failed_at: string | null
+          last_error: string | null
+          locked_at: string | null
+          source_id: string
+        }
+        Insert: {
+          attempts?: number
+          available_at?: string
+          enqueued_at?: string
+          failed_at?: string | null
+          last_error?: string | null
+          locked_at?: string | null
+          source_id: string
+        }
+        Update: {
+          attempts?: number
+          available_at?: string
+          enqueued_at?: string
+          failed_at?: string | null
+          last_error?: string | null
+          locked_at?: string | null
+          source_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "knowledge_jobs_source_id_fkey"
+            columns: ["source_id"]
+            isOneToOne: true
+            referencedRelation: "knowledge_sources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      knowledge_sources: {
+        Row: {
+          chunk_count: number
+          community_id: string | null
+          conversation_id: string | null
+          created_at: string
+          created_by: string
+          id: string
+          indexed_at: string | null
+          kind: string
+          last_error: string | null
+          message_id: string | null
+          mime_type: string | null
+          size_bytes: number | null
+          status: string
+          storage_path: string | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          chunk_count?: number
+          community_id?: string | null
+          conversation_id?: string | null
+          created_at?: string
+          created_by: string
+          id?: string
+          indexed_at?: string | null
+          kind: string
+          last_error?: string | null
+          message_id?: string | null
+          mime_type?: string | null
+          size_bytes?: number | null
+          status?: string
+          storage_path?: string | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          chunk_count?: number
+          community_id?: string | null
+          conversation_id?: string | null
+          created_at?: string
+          created_by?: string
+          id?: string
+          indexed_at?: string | null
+          kind?: string
+          last_error?: string | null
+          message_id?: string | null
+          mime_type?: string | null
+          size_bytes?: number | null
+          status?: string
+          storage_path?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "knowledge_sources_community_id_fkey"
+            columns: ["community_id"]
+            isOneToOne: false
+            referencedRelation: "communities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "knowledge_sources_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "knowledge_sources_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: true
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      login_attempts: {
+        Row: {
+          attempt_time: string
+          id: string
+          identifier: string
+          success: boolean
+        }
+        Insert: {
+          attempt_time?: string
+          id?: string
+          identifier: string
+          success?: boolean
+        }
+        Update: {
+          attempt_time?: string
+          id?: string
+          identifier?: string
+          success?: boolean
+        }
+        Relationships: []
+      }
+      meeting_participants: {
+        Row: {
+          created_at: string | null
+          id: string
+          joined_at: string | null
+          left_at: string | null
+          meeting_id: string
+          response_at: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          joined_at?: string | null
+          left_at?: string | null
+          meeting_id: string
+          response_at?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          joined_at?: string | null
+          left_at?: string | null
+          meeting_id?: string
+          response_at?: string | null
+          status?: string
           user_id?: string
         }
         Relationships: [
@@ -547,12 +1160,121 @@ export type Database = {
           },
         ]
       }
+      meeting_recording_chunks: {
+        Row: {
+          created_at: string
+          participant_ids: string[]
+          recording_id: string
+          seq: number
+          size_bytes: number
+          storage_path: string
+        }
+        Insert: {
+          created_at?: string
+          participant_ids?: string[]
+          recording_id: string
+          seq: number
+          size_bytes: number
+          storage_path: string
+        }
+        Update: {
+          created_at?: string
+          participant_ids?: string[]
+          recording_id?: string
+          seq?: number
+          size_bytes?: number
+          storage_path?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meeting_recording_chunks_recording_id_fkey"
+            columns: ["recording_id"]
+            isOneToOne: false
+            referencedRelation: "meeting_recordings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      meeting_recording_consents: {
+        Row: {
+          consented: boolean
+          recording_id: string
+          responded_at: string
+          user_id: string
+        }
+        Insert: {
+          consented: boolean
+          recording_id: string
+          responded_at?: string
+          user_id: string
+        }
+        Update: {
+          consented?: boolean
+          recording_id?: string
+          responded_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meeting_recording_consents_recording_id_fkey"
+            columns: ["recording_id"]
+            isOneToOne: false
+            referencedRelation: "meeting_recordings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      meeting_recordings: {
+        Row: {
+          created_at: string
+          duration_ms: number | null
+          ended_at: string | null
+          id: string
+          meeting_id: string
+          mime_type: string
+          started_at: string
+          started_by: string
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          duration_ms?: number | null
+          ended_at?: string | null
+          id?: string
+          meeting_id: string
+          mime_type: string
+          started_at?: string
+          started_by: string
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          duration_ms?: number | null
+          ended_at?: string | null
+          id?: string
+          meeting_id?: string
+          mime_type?: string
+          started_at?: string
+          started_by?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meeting_recordings_meeting_id_fkey"
+            columns: ["meeting_id"]
+            isOneToOne: false
+            referencedRelation: "meetings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       meeting_transcripts: {
         Row: {
           content: string
           created_at: string | null
           id: string
           meeting_id: string
+          search_vector: unknown
           speaker_id: string
           timestamp: string
           translated_content: Json | null
@@ -562,6 +1284,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           meeting_id: string
+          search_vector?: unknown
           speaker_id: string
           timestamp?: string
           translated_content?: Json | null
@@ -571,6 +1294,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           meeting_id?: string
+          search_vector?: unknown
           speaker_id?: string
           timestamp?: string
           translated_content?: Json | null
@@ -638,6 +1362,143 @@ export type Database = {
           },
         ]
       }
+      message_attachments: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          duration_ms: number | null
+          file_name: string
+          height: number | null
+          id: string
+          message_id: string
+          mime_type: string
+          size_bytes: number
+          storage_path: string
+          thumbnail_path: string | null
+          uploader_id: string
+          width: number | null
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          duration_ms?: number | null
+          file_name: string
+          height?: number | null
+          id?: string
+          message_id: string
+          mime_type: string
+          size_bytes: number
+          storage_path: string
+          thumbnail_path?: string | null
+          uploader_id: string
+          width?: number | null
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          duration_ms?: number | null
+          file_name?: string
+          height?: number | null
+          id?: string
+          message_id?: string
+          mime_type?: string
+          size_bytes?: number
+          storage_path?: string
+          thumbnail_path?: string | null
+          uploader_id?: string
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_attachments_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_attachments_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_drafts: {
+        Row: {
+          content: string
+          conversation_id: string
+          created_at: string
+          id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          content: string
+          conversation_id: string
+          created_at?: string
+          id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_drafts_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_edits: {
+        Row: {
+          conversation_id: string
+          edited_at: string
+          id: string
+          message_id: string
+          previous_content: string | null
+        }
+        Insert: {
+          conversation_id: string
+          edited_at?: string
+          id?: string
+          message_id: string
+          previous_content?: string | null
+        }
+        Update: {
+          conversation_id?: string
+          edited_at?: string
+          id?: string
+          message_id?: string
+          previous_content?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_edits_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_edits_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       message_embeddings: {
         Row: {
           content_preview: string | null
@@ -745,54 +1606,301 @@ export type Database = {
         }
         Relationships: []
       }
-      messages: {
+      messages: {
+        Row: {
+          ai_generated: boolean | null
+          audio_data: string | null
+          bot_id: string | null
+          call_id: string | null
+          content: string | null
+          conversation_id: string
+          created_at: string
+          id: string
+          imported_sender_name: string | null
+          message_type: string | null
+          metadata: Json | null
+          read_at: string | null
+          reply_to_id: string | null
+          search_vector: unknown
+          sender_id: string
+          thread_root_id: string | null
+          transcription: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          ai_generated?: boolean | null
+          audio_data?: string | null
+          bot_id?: string | null
+          call_id?: string | null
+          content?: string | null
+          conversation_id: string
+          created_at?: string
+          id?: string
+          imported_sender_name?: string | null
+          message_type?: string | null
+          metadata?: Json | null
+          read_at?: string | null
+          reply_to_id?: string | null
+          search_vector?: unknown
+          sender_id: string
+          thread_root_id?: string | null
+          transcription?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          ai_generated?: boolean | null
+          audio_data?: string | null
+          bot_id?: string | null
+          call_id?: string | null
+          content?: string | null
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          imported_sender_name?: string | null
+          message_type?: string | null
+          metadata?: Json | null
+          read_at?: string | null
+          reply_to_id?: string | null
+          search_vector?: unknown
+          sender_id?: string
+          thread_root_id?: string | null
+          transcription?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_bot_id_fkey"
+            columns: ["bot_id"]
+            isOneToOne: false
+            referencedRelation: "bots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_call_id_fkey"
+            columns: ["call_id"]
+            isOneToOne: false
+            referencedRelation: "calls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_reply_to_id_fkey"
+            columns: ["reply_to_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_thread_root_id_fkey"
+            columns: ["thread_root_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      moderation_flags: {
+        Row: {
+          actions: string[]
+          appeal_reason: string | null
+          appeal_resolved_at: string | null
+          appeal_resolved_by: string | null
+          appeal_status: string | null
+          appealed_at: string | null
+          categories: string[]
+          content_snapshot: string | null
+          conversation_id: string
+          created_at: string
+          id: string
+          message_id: string | null
+          reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          sender_id: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          actions?: string[]
+          appeal_reason?: string | null
+          appeal_resolved_at?: string | null
+          appeal_resolved_by?: string | null
+          appeal_status?: string | null
+          appealed_at?: string | null
+          categories: string[]
+          content_snapshot?: string | null
+          conversation_id: string
+          created_at?: string
+          id?: string
+          message_id?: string | null
+          reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          sender_id: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          actions?: string[]
+          appeal_reason?: string | null
+          appeal_resolved_at?: string | null
+          appeal_resolved_by?: string | null
+          appeal_status?: string | null
+          appealed_at?: string | null
+          categories?: string[]
+          content_snapshot?: string | null
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          message_id?: string | null
+          reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          sender_id?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "moderation_flags_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "moderation_flags_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      moderation_holds: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          flag_id: string
+          message_id: string
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          flag_id: string
+          message_id: string
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          flag_id?: string
+          message_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "moderation_holds_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "moderation_holds_flag_id_fkey"
+            columns: ["flag_id"]
+            isOneToOne: false
+            referencedRelation: "moderation_flags"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "moderation_holds_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: true
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      moderation_jobs: {
+        Row: {
+          attempts: number
+          available_at: string
+          enqueued_at: string
+          failed_at: string | null
+          last_error: string | null
+          locked_at: string | null
+          message_id: string
+        }
+        Insert: {
+          attempts?: number
+          available_at?: string
+          enqueued_at?: string
+          failed_at?: string | null
+          last_error?: string | null
+          locked_at?: string | null
+          message_id: string
+        }
+        Update: {
+          attempts?: number
+          available_at?: string
+          enqueued_at?: string
+          failed_at?: string | null
+          last_error?: string | null
+          locked_at?: string | null
+          message_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "moderation_jobs_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: true
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      moderation_mutes: {
         Row: {
-          ai_generated: boolean | null
-          audio_data: string | null
-          content: string | null
           conversation_id: string
           created_at: string
-          id: string
-          message_type: string | null
-          read_at: string | null
-          sender_id: string
-          transcription: string | null
-          updated_at: string | null
+          flag_id: string | null
+          muted_until: string
+          user_id: string
         }
         Insert: {
-          ai_generated?: boolean | null
-          audio_data?: string | null
-          content?: string | null
           conversation_id: string
           created_at?: string
-          id?: string
-          message_type?: string | null
-          read_at?: string | null
-          sender_id: string
-          transcription?: string | null
-          updated_at?: string | null
+          flag_id?: string | null
+          muted_until: string
+          user_id: string
         }
         Update: {
-          ai_generated?: boolean | null
-          audio_data?: string | null
-          content?: string | null
           conversation_id?: string
           created_at?: string
-          id?: string
-          message_type?: string | null
-          read_at?: string | null
-          sender_id?: string
-          transcription?: string | null
-          updated_at?: string | null
+          flag_id?: string | null
+          muted_until?: string
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "messages_conversation_id_fkey"
+            foreignKeyName: "moderation_mutes_conversation_id_fkey"
             columns: ["conversation_id"]
             isOneToOne: false
             referencedRelation: "conversations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "moderation_mutes_flag_id_fkey"
+            columns: ["flag_id"]
+            isOneToOne: false
+            referencedRelation: "moderation_flags"
+            referencedColumns: ["id"]
+          },
         ]
       }
       moment_replies: {
@@ -895,6 +2003,187 @@ export type Database = {
         }
         Relationships: []
       }
+      organization_seats: {
+        Row: {
+          assigned_by: string
+          created_at: string
+          organization_id: string
+          user_id: string
+        }
+        Insert: {
+          assigned_by: string
+          created_at?: string
+          organization_id: string
+          user_id: string
+        }
+        Update: {
+          assigned_by?: string
+          created_at?: string
+          organization_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_seats_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "billing_organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      plan_entitlements: {
+        Row: {
+          created_at: string
+          daily_translations: number | null
+          plan_type: string
+          premium_features: boolean
+          search_max_results: number
+          trial_days: number
+          updated_at: string
+          voice_clones: number
+        }
+        Insert: {
+          created_at?: string
+          daily_translations?: number | null
+          plan_type: string
+          premium_features?: boolean
+          search_max_results: number
+          trial_days?: number
+          updated_at?: string
+          voice_clones?: number
+        }
+        Update: {
+          created_at?: string
+          daily_translations?: number | null
+          plan_type?: string
+          premium_features?: boolean
+          search_max_results?: number
+          trial_days?: number
+          updated_at?: string
+          voice_clones?: number
+        }
+        Relationships: []
+      }
+      poll_options: {
+        Row: {
+          id: string
+          label: string
+          poll_id: string
+          position: number
+          vote_count: number
+        }
+        Insert: {
+          id?: string
+          label: string
+          poll_id: string
+          position: number
+          vote_count?: number
+        }
+        Update: {
+          id?: string
+          label?: string
+          poll_id?: string
+          position?: number
+          vote_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_options_poll_id_fkey"
+            columns: ["poll_id"]
+            isOneToOne: false
+            referencedRelation: "polls"
+            referencedColumns: ["message_id"]
+          },
+        ]
+      }
+      poll_votes: {
+        Row: {
+          created_at: string
+          option_id: string
+          poll_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          option_id: string
+          poll_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          option_id?: string
+          poll_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_votes_option_id_fkey"
+            columns: ["option_id"]
+            isOneToOne: false
+            referencedRelation: "poll_options"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poll_votes_poll_id_fkey"
+            columns: ["poll_id"]
+            isOneToOne: false
+            referencedRelation: "polls"
+            referencedColumns: ["message_id"]
+          },
+        ]
+      }
+      polls: {
+        Row: {
+          allows_multiple: boolean
+          closed_at: string | null
+          closes_at: string | null
+          conversation_id: string
+          created_at: string
+          created_by: string
+          is_anonymous: boolean
+          message_id: string
+          question: string
+        }
+        Insert: {
+          allows_multiple?: boolean
+          closed_at?: string | null
+          closes_at?: string | null
+          conversation_id: string
+          created_at?: string
+          created_by: string
+          is_anonymous?: boolean
+          message_id: string
+          question: string
+        }
+        Update: {
+          allows_multiple?: boolean
+          closed_at?: string | null
+          closes_at?: string | null
+          conversation_id?: string
+          created_at?: string
+          created_by?: string
+          is_anonymous?: boolean
+          message_id?: string
+          question?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "polls_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "polls_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: true
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           auto_translate: boolean | null
@@ -902,6 +2191,8 @@ export type Database = {
           bio: string | null
           created_at: string
           display_name: string
+          dnd_allow_favourites: boolean
+          dnd_allow_repeat_callers: boolean
           dnd_enabled: boolean | null
           dnd_end_time: string | null
           dnd_start_time: string | null
@@ -911,6 +2202,7 @@ export type Database = {
           preferred_language: string | null
           send_language: string | null
           status: string | null
+          timezone: string
           updated_at: string
           user_id: string
           username: string
@@ -921,6 +2213,8 @@ export type Database = {
           bio?: string | null
           created_at?: string
           display_name: string
+          dnd_allow_favourites?: boolean
+          dnd_allow_repeat_callers?: boolean
           dnd_enabled?: boolean | null
           dnd_end_time?: string | null
           dnd_start_time?: string | null
@@ -930,6 +2224,7 @@ export type Database = {
           preferred_language?: string | null
           send_language?: string | null
           status?: string | null
+          timezone?: string
           updated_at?: string
           user_id: string
           username: string
@@ -940,6 +2235,8 @@ export type Database = {
           bio?: string | null
           created_at?: string
           display_name?: string
+          dnd_allow_favourites?: boolean
+          dnd_allow_repeat_callers?: boolean
           dnd_enabled?: boolean | null
           dnd_end_time?: string | null
           dnd_start_time?: string | null
@@ -949,6 +2246,7 @@ export type Database = {
           preferred_language?: string | null
           send_language?: string | null
           status?: string | null
+          timezone?: string
           updated_at?: string
           user_id?: string
           username?: string
@@ -1006,6 +2304,91 @@ export type Database = {
         }
         Relationships: []
       }
+      scheduled_messages: {
+        Row: {
+          attempts: number
+          bot_id: string | null
+          content: string
+          conversation_id: string
+          created_at: string
+          id: string
+          last_error: string | null
+          last_message_id: string | null
+          last_sent_at: string | null
+          locked_at: string | null
+          recurrence: string | null
+          recurrence_day: number | null
+          retry_at: string | null
+          send_at: string
+          sender_id: string
+          status: string
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          bot_id?: string | null
+          content: string
+          conversation_id: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          last_message_id?: string | null
+          last_sent_at?: string | null
+          locked_at?: string | null
+          recurrence?: string | null
+          recurrence_day?: number | null
+          retry_at?: string | null
+          send_at: string
+          sender_id: string
+          status?: string
+          timezone?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          bot_id?: string | null
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          last_message_id?: string | null
+          last_sent_at?: string | null
+          locked_at?: string | null
+          recurrence?: string | null
+          recurrence_day?: number | null
+          retry_at?: string | null
+          send_at?: string
+          sender_id?: string
+          status?: string
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_messages_bot_id_fkey"
+            columns: ["bot_id"]
+            isOneToOne: false
+            referencedRelation: "bots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_messages_last_message_id_fkey"
+            columns: ["last_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       security_audit_log: {
         Row: {
           created_at: string
@@ -1030,6 +2413,42 @@ export type Database = {
         }
         Relationships: []
       }
+      storage_cleanup_jobs: {
+        Row: {
+          attempts: number
+          available_at: string
+          bucket_id: string
+          enqueued_at: string
+          failed_at: string | null
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          path: string
+        }
+        Insert: {
+          attempts?: number
+          available_at?: string
+          bucket_id: string
+          enqueued_at?: string
+          failed_at?: string | null
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          path: string
+        }
+        Update: {
+          attempts?: number
+          available_at?: string
+          bucket_id?: string
+          enqueued_at?: string
+          failed_at?: string | null
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          path?: string
+        }
+        Relationships: []
+      }
       stream_followers: {
         Row: {
           followed_at: string
@@ -1160,7 +2579,108 @@ export type Database = {
           name?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: []
+      }
+      suppressed_notifications: {
+        Row: {
+          body: string | null
+          conversation_id: string | null
+          data: Json | null
+          digested_at: string | null
+          id: string
+          kind: string
+          sender_id: string | null
+          suppressed_at: string
+          title: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          conversation_id?: string | null
+          data?: Json | null
+          digested_at?: string | null
+          id?: string
+          kind: string
+          sender_id?: string | null
+          suppressed_at?: string
+          title: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          conversation_id?: string | null
+          data?: Json | null
+          digested_at?: string | null
+          id?: string
+          kind?: string
+          sender_id?: string | null
+          suppressed_at?: string
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "suppressed_notifications_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      translation_glossary_terms: {
+        Row: {
+          community_id: string | null
+          conversation_id: string | null
+          created_at: string
+          id: string
+          scope: string
+          source_term: string
+          target_language: string | null
+          translation: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          community_id?: string | null
+          conversation_id?: string | null
+          created_at?: string
+          id?: string
+          scope: string
+          source_term: string
+          target_language?: string | null
+          translation?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          community_id?: string | null
+          conversation_id?: string | null
+          created_at?: string
+          id?: string
+          scope?: string
+          source_term?: string
+          target_language?: string | null
+          translation?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "translation_glossary_terms_community_id_fkey"
+            columns: ["community_id"]
+            isOneToOne: false
+            referencedRelation: "communities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "translation_glossary_terms_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_documents: {
         Row: {
@@ -1227,32 +2747,88 @@ export type Database = {
       }
       user_subscriptions: {
         Row: {
+          cancel_at_period_end: boolean
           created_at: string
           expires_at: string | null
+          grace_period_ends_at: string | null
           id: string
+          organization_id: string | null
           plan_type: string
+          provider: string | null
+          provider_customer_id: string | null
+          provider_subscription_id: string | null
           started_at: string
+          status: string
+          trial_ends_at: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          cancel_at_period_end?: boolean
           created_at?: string
           expires_at?: string | null
+          grace_period_ends_at?: string | null
           id?: string
+          organization_id?: string | null
           plan_type?: string
+          provider?: string | null
+          provider_customer_id?: string | null
+          provider_subscription_id?: string | null
           started_at?: string
+          status?: string
+          trial_ends_at?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          cancel_at_period_end?: boolean
           created_at?: string
           expires_at?: string | null
+          grace_period_ends_at?: string | null
           id?: string
+          organization_id?: string | null
           plan_type?: string
+          provider?: string | null
+          provider_customer_id?: string | null
+          provider_subscription_id?: string | null
           started_at?: string
+          status?: string
+          trial_ends_at?: string | null
           updated_at?: string
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "user_subscriptions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "billing_organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      voice_clones: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          user_id: string
+          voice_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          user_id: string
+          voice_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          user_id?: string
+          voice_id?: string
+        }
         Relationships: []
       }
     }
@@ -1264,6 +2840,34 @@ export type Database = {
         Args: { p_conversation_id: string; p_user_id: string }
         Returns: boolean
       }
+      appeal_moderation_flag: {
+        Args: { _flag_id: string; _reason: string }
+        Returns: undefined
+      }
+      apply_moderation_verdict: {
+        Args: { _categories: string[]; _message_id: string; _reason: string }
+        Returns: string
+      }
+      assign_organization_seat: {
+        Args: { _organization_id: string; _user_id: string }
+        Returns: undefined
+      }
+      can_manage_knowledge: {
+        Args: {
+          _community_id: string
+          _conversation_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      can_view_knowledge: {
+        Args: {
+          _community_id: string
+          _conversation_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
       can_view_profile: {
         Args: { profile_user_id: string; viewer_id: string }
         Returns: boolean
@@ -1272,6 +2876,10 @@ export type Database = {
         Args: { profile_user_id: string; viewer_id: string }
         Returns: boolean
       }
+      cast_poll_vote: {
+        Args: { _option_ids: string[]; _poll_id: string }
+        Returns: undefined
+      }
       check_ai_chat_rate_limit: {
         Args: {
           p_max_requests?: number
@@ -1296,11 +2904,181 @@ export type Database = {
         Args: { conv_id: string; user_uuid: string }
         Returns: boolean
       }
+      claim_bot_jobs: {
+        Args: { batch_size?: number }
+        Returns: {
+          attempts: number
+          auto_translate: boolean
+          bot_enabled: boolean
+          content: string
+          conversation_id: string
+          default_mode: string
+          enqueued_at: string
+          kind: string
+          message_id: string
+          persona: string
+          reply_message_id: string
+          sender_id: string
+          target_language: string
+          thread_root_id: string
+          timezone: string
+          trigger_instructions: string
+          trigger_mode: string
+        }[]
+      }
+      claim_bot_schedules: {
+        Args: { batch_size?: number }
+        Returns: {
+          attempts: number
+          bot_enabled: boolean
+          conversation_id: string
+          created_by: string
+          id: string
+          kind: string
+          last_run_at: string
+          next_run_at: string
+          persona: string
+          timezone: string
+        }[]
+      }
+      claim_embedding_jobs: {
+        Args: { batch_size?: number }
+        Returns: {
+          attempts: number
+          content: string
+          conversation_id: string
+          enqueued_at: string
+          message_id: string
+        }[]
+      }
+      claim_knowledge_jobs: {
+        Args: { batch_size?: number }
+        Returns: {
+          attempts: number
+          content: string
+          enqueued_at: string
+          kind: string
+          mime_type: string
+          source_id: string
+          storage_path: string
+          title: string
+        }[]
+      }
+      claim_moderation_jobs: {
+        Args: { batch_size?: number }
+        Returns: {
+          attempts: number
+          categories: string[]
+          content: string
+          conversation_id: string
+          enqueued_at: string
+          message_id: string
+          moderation_enabled: boolean
+          sender_id: string
+        }[]
+      }
+      claim_scheduled_messages: {
+        Args: { batch_size?: number }
+        Returns: {
+          attempts: number
+          bot_id: string | null
+          content: string
+          conversation_id: string
+          created_at: string
+          id: string
+          last_error: string | null
+          last_message_id: string | null
+          last_sent_at: string | null
+          locked_at: string | null
+          recurrence: string | null
+          retry_at: string | null
+          send_at: string
+          sender_id: string
+          status: string
+          timezone: string
+          updated_at: string
+        }[]
+      }
+      claim_storage_cleanup_jobs: {
+        Args: { batch_size?: number }
+        Returns: {
+          attempts: number
+          bucket_id: string
+          id: string
+          path: string
+        }[]
+      }
       cleanup_ai_chat_rate_limits: { Args: never; Returns: undefined }
+      close_poll: { Args: { _poll_id: string }; Returns: undefined }
+      complete_bot_schedule: {
+        Args: {
+          _claimed_run_at: string
+          _error?: string
+          _id: string
+          _message_id: string
+        }
+        Returns: undefined
+      }
+      complete_scheduled_message: {
+        Args: {
+          _claimed_send_at: string
+          _id: string
+          _message_id: string
+        }
+        Returns: undefined
+      }
+      create_checklist: {
+        Args: { _conversation_id: string; _items: string[]; _title: string }
+        Returns: string
+      }
       create_group_conversation: {
         Args: { p_group_name: string; p_member_ids: string[] }
         Returns: string
       }
+      create_poll: {
+        Args: {
+          _allows_multiple?: boolean
+          _closes_at?: string
+          _conversation_id: string
+          _is_anonymous?: boolean
+          _options: string[]
+          _question: string
+        }
+        Returns: string
+      }
+      current_entitlements: {
+        Args: never
+        Returns: {
+          daily_translations: number
+          plan_type: string
+          premium_features: boolean
+          search_max_results: number
+          translations_used: number
+          voice_clones: number
+          voice_clones_used: number
+        }[]
+      }
+      downgrade_subscription: {
+        Args: { _reason: string; _user_id: string }
+        Returns: undefined
+      }
+      effective_plan: { Args: { _user_id: string }; Returns: string }
+      enqueue_embedding_backfill: {
+        Args: { reindex?: boolean }
+        Returns: number
+      }
+      enqueue_embedding_job: {
+        Args: { _message_id: string }
+        Returns: undefined
+      }
+      enqueue_knowledge_job: {
+        Args: { _source_id: string }
+        Returns: undefined
+      }
+      enqueue_storage_cleanup: {
+        Args: { _bucket_id: string; _paths: string[] }
+        Returns: undefined
+      }
       find_user_by_phone: {
         Args: { input_phone: string }
         Returns: {
@@ -1315,6 +3093,23 @@ export type Database = {
           user_id: string
         }[]
       }
+      get_call_history: {
+        Args: { before_time?: string; result_limit?: number }
+        Returns: {
+          answered_at: string
+          call_id: string
+          call_type: string
+          caller_id: string
+          conversation_id: string
+          ended_at: string
+          group_name: string
+          is_group: boolean
+          my_status: string
+          participant_ids: string[]
+          started_at: string
+          status: string
+        }[]
+      }
       get_email_by_username: {
         Args: { input_username: string }
         Returns: string
@@ -1323,6 +3118,16 @@ export type Database = {
         Args: { input_username: string }
         Returns: string
       }
+      get_embedding_index_status: {
+        Args: never
+        Returns: {
+          failed: number
+          in_progress: number
+          indexed: number
+          oldest_pending_at: string
+          pending: number
+        }[]
+      }
       get_or_create_conversation: {
         Args: { other_user_id: string }
         Returns: string
@@ -1339,10 +3144,20 @@ export type Database = {
           username: string
         }[]
       }
+      get_thread_summaries: {
+        Args: { conv_id: string; user_uuid: string }
+        Returns: {
+          last_reply_at: string
+          reply_count: number
+          thread_root_id: string
+          unread_count: number
+        }[]
+      }
       get_unread_counts: {
         Args: { user_uuid: string }
         Returns: {
           conversation_id: string
+          thread_unread_count: number
           unread_count: number
         }[]
       }
@@ -1362,6 +3177,10 @@ export type Database = {
         }[]
       }
       has_premium_access: { Args: { user_uuid: string }; Returns: boolean }
+      has_recording_consent: {
+        Args: { recording_uuid: string; user_ids: string[] }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -1370,6 +3189,37 @@ export type Database = {
         Returns: boolean
       }
       hash_identifier: { Args: { identifier_text: string }; Returns: string }
+      hybrid_search: {
+        Args: {
+          conversation_filter?: string
+          end_date?: string
+          include_other_sources?: boolean
+          match_count?: number
+          match_threshold?: number
+          message_type_filter?: string
+          query_embedding?: string
+          query_text: string
+          sender_filter?: string
+          start_date?: string
+        }
+        Returns: {
+          ai_conversation_id: string
+          bot_id: string
+          bot_name: string
+          content: string
+          conversation_id: string
+          created_at: string
+          id: string
+          keyword_rank: number
+          meeting_id: string
+          message_type: string
+          score: number
+          semantic_rank: number
+          sender_id: string
+          snippet: string
+          source: string
+        }[]
+      }
       is_call_participant: {
         Args: { call_uuid: string; user_uuid: string }
         Returns: boolean
@@ -1378,6 +3228,18 @@ export type Database = {
         Args: { call_uuid: string; user_uuid: string }
         Returns: boolean
       }
+      is_community_admin: {
+        Args: { _community_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_community_member: {
+        Args: { _community_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_conversation_admin: {
+        Args: { conversation_uuid: string; user_uuid: string }
+        Returns: boolean
+      }
       is_conversation_participant: {
         Args: { conversation_uuid: string; user_uuid: string }
         Returns: boolean
@@ -1386,55 +3248,143 @@ export type Database = {
         Args: { meeting_uuid: string; user_uuid: string }
         Returns: boolean
       }
+      is_meeting_member: {
+        Args: { meeting_uuid: string; user_uuid: string }
+        Returns: boolean
+      }
       is_meeting_participant: {
         Args: { meeting_uuid: string; user_uuid: string }
         Returns: boolean
       }
+      is_message_held: { Args: { _message_id: string }; Returns: boolean }
+      is_organization_member: {
+        Args: { _organization_id: string; _user_id: string }
+        Returns: boolean
+      }
       is_username_available: {
         Args: { check_username: string }
         Returns: boolean
       }
+      lift_moderation_actions: {
+        Args: { _flag_id: string }
+        Returns: undefined
+      }
+      mark_messages_delivered: {
+        Args: { user_uuid: string }
+        Returns: undefined
+      }
       mark_messages_read: {
         Args: { conv_id: string; user_uuid: string }
         Returns: undefined
       }
-      phone_number_exists: { Args: { input_phone: string }; Returns: boolean }
-      record_login_attempt: {
-        Args: { identifier_text: string; was_successful: boolean }
+      mark_thread_read: {
+        Args: { root_id: string; user_uuid: string }
         Returns: undefined
       }
-      search_users_for_meeting: {
-        Args: { search_term: string }
+      match_bot_trigger: {
+        Args: { _message_id: string }
         Returns: {
-          display_name: string
-          user_id: string
-          username: string
+          instructions: string
+          mode: string
+          trigger_id: string
         }[]
       }
-      semantic_search: {
+      match_knowledge_chunks: {
         Args: {
-          conversation_filter?: string
-          end_date?: string
+          _conversation_id: string
           match_count?: number
           match_threshold?: number
-          message_type_filter?: string
           query_embedding: string
-          sender_filter?: string
-          start_date?: string
-          user_id: string
         }
         Returns: {
+          chunk_id: string
           content: string
-          content_preview: string
-          conversation_id: string
-          created_at: string
-          id: string
+          kind: string
           message_id: string
-          message_type: string
-          sender_id: string
           similarity: number
+          source_id: string
+          storage_path: string
+          title: string
+        }[]
+      }
+      next_bot_schedule_run: {
+        Args: {
+          _hour: number
+          _kind: string
+          _timezone: string
+          _weekday: number
+        }
+        Returns: string
+      }
+      next_scheduled_send_at: {
+        Args: {
+          _day_of_month?: number
+          _recurrence: string
+          _send_at: string
+          _timezone: string
+        }
+        Returns: string
+      }
+      phone_number_exists: { Args: { input_phone: string }; Returns: boolean }
+      record_login_attempt: {
+        Args: { identifier_text: string; was_successful: boolean }
+        Returns: undefined
+      }
+      reindex_knowledge_source: {
+        Args: { _source_id: string }
+        Returns: undefined
+      }
+      resolve_moderation_appeal: {
+        Args: { _accept: boolean; _flag_id: string }
+        Returns: undefined
+      }
+      review_moderation_flag: {
+        Args: { _decision: string; _flag_id: string }
+        Returns: undefined
+      }
+      save_glossary_term: {
+        Args: {
+          _community_id?: string
+          _conversation_id?: string
+          _scope: string
+          _source_term: string
+          _target_language?: string
+          _translation?: string
+        }
+        Returns: {
+          community_id: string | null
+          conversation_id: string | null
+          created_at: string
+          id: string
+          scope: string
+          source_term: string
+          target_language: string | null
+          translation: string | null
+          updated_at: string
+          user_id: string
+        }
+      }
+      search_users_for_meeting: {
+        Args: { search_term: string }
+        Returns: {
+          display_name: string
+          user_id: string
+          username: string
         }[]
       }
+      subscription_in_good_standing: {
+        Args: {
+          _expires_at: string
+          _grace_period_ends_at: string
+          _status: string
+          _trial_ends_at: string
+        }
+        Returns: boolean
+      }
+      sync_organization_seats: {
+        Args: { _organization_id: string; _seat_limit: number }
+        Returns: number
+      }
     }
     Enums: {
       app_role: "admin" | "moderator" | "user"
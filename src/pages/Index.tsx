@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Shield, Sparkles, Globe, Zap, LogOut, MessageSquare, Search, Crown, FileText, User, Calendar, Mic, Radio } from "lucide-react";
+import { Shield, Sparkles, Globe, Zap, LogOut, MessageSquare, Search, Crown, FileText, User, Calendar, Mic, Radio, Phone } from "lucide-react";
 import ChatInterface from "@/components/ChatInterface";
 import ContactsList from "@/components/ContactsList";
 import SemanticSearch from "@/components/SemanticSearch";
@@ -9,23 +9,24 @@ import SubscriptionManagement from "@/components/SubscriptionManagement";
 import { DocumentWallet } from "@/components/DocumentWallet";
 import { ProfileEditor } from "@/components/ProfileEditor";
 import { AdminDashboard } from "@/components/AdminDashboard";
+import SearchIndexStatus from "@/components/SearchIndexStatus";
+import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
 import { useAdminCheck } from "@/hooks/useAdminCheck";
-import { useSemanticSearch } from "@/hooks/useSemanticSearch";
 import nexoraLogo from "@/assets/nexora-logo.png";
 import ThemeSwitcher from "@/components/ThemeSwitcher";
 import { VoiceProfileManager } from '@/components/VoiceProfileManager';
 import Meetings from '@/pages/Meetings';
 import { UpdatesView } from "@/components/UpdatesView";
+import { CallHistory, CallBackTarget } from "@/components/CallHistory";
 
 const Index = () => {
   const [currentView, setCurrentView] = useState<'home' | 'contacts' | 'chat'>('contacts');
-  const [selectedContact, setSelectedContact] = useState<{ userId: string; name: string; isGroup?: boolean; conversationId?: string } | null>(null);
+  const [selectedContact, setSelectedContact] = useState<{ userId: string; name: string; isGroup?: boolean; conversationId?: string; messageId?: string; callType?: 'audio' | 'video' } | null>(null);
   const { signOut, user } = useAuth();
+  const { toast } = useToast();
   const { isAdmin } = useAdminCheck();
-  
-  // Initialize semantic search hook for real-time embedding generation
-  useSemanticSearch();
 
   const handleStartChat = (contactUserId: string, contactName: string) => {
     setSelectedContact({ userId: contactUserId, name: contactName, isGroup: false });
@@ -37,6 +38,70 @@ const Index = () => {
     setCurrentView('chat');
   };
 
+  const handleCallBack = (target: CallBackTarget) => {
+    setSelectedContact({
+      userId: target.userId,
+      name: target.name,
+      isGroup: target.isGroup,
+      conversationId: target.isGroup ? target.conversationId : undefined,
+      callType: target.callType,
+    });
+    setCurrentView('chat');
+  };
+
+  // Open the conversation a search result belongs to, scrolled to the matching message
+  const handleOpenSearchResult = async (conversationId: string, messageId: string) => {
+    try {
+      const { data: conversation, error } = await supabase
+        .from('conversations')
+        .select('is_group, group_name')
+        .eq('id', conversationId)
+        .single();
+
+      if (error) throw error;
+
+      if (conversation.is_group) {
+        setSelectedContact({
+          userId: '',
+          name: conversation.group_name || 'Unnamed Group',
+          isGroup: true,
+          conversationId,
+          messageId,
+        });
+        setCurrentView('chat');
+        return;
+      }
+
+      const { data: otherParticipant, error: participantError } = await supabase
+        .from('conversation_participants')
+        .select('user_id')
+        .eq('conversation_id', conversationId)
+        .neq('user_id', user?.id)
+        .limit(1)
+        .single();
+
+      if (participantError) throw participantError;
+
+      const { data: profile } = await supabase
+        .rpc('get_safe_profile', { profile_user_id: otherParticipant.user_id });
+
+      setSelectedContact({
+        userId: otherParticipant.user_id,
+        name: profile?.[0]?.display_name || 'Unknown',
+        isGroup: false,
+        messageId,
+      });
+      setCurrentView('chat');
+    } catch (error) {
+      console.error('Error opening search result:', error);
+      toast({
+        title: "Error",
+        description: "Failed to open conversation",
+        variant: "destructive",
+      });
+    }
+  };
+
   if (currentView === 'chat' && selectedContact) {
     return (
       <ChatInterface
@@ -44,6 +109,8 @@ const Index = () => {
         contactName={selectedContact.name}
         isGroup={selectedContact.isGroup}
         conversationId={selectedContact.conversationId}
+        initialMessageId={selectedContact.messageId}
+        initialCallType={selectedContact.callType}
         onBack={() => {
           setCurrentView('contacts');
           setSelectedContact(null);
@@ -76,10 +143,10 @@ const Index = () => {
         
         {/* Main Content with Tabs */}
         <div className="container mx-auto px-2 sm:px-4 py-3 sm:py-6">
-          <Tabs defaultValue="profile" className="w-full">
+          <Tabs defaultValue={new URLSearchParams(window.location.search).get('tab') || 'profile'} className="w-full">
             {/* Mobile: Scrollable horizontal tabs */}
             <div className="overflow-x-auto pb-2 -mx-2 px-2 sm:mx-0 sm:px-0">
-            <TabsList className={`inline-flex sm:grid w-max sm:w-full gap-1 sm:gap-0 mb-4 sm:mb-6 ${isAdmin ? 'sm:grid-cols-9' : 'sm:grid-cols-8'}`}>
+            <TabsList className={`inline-flex sm:grid w-max sm:w-full gap-1 sm:gap-0 mb-4 sm:mb-6 ${isAdmin ? 'sm:grid-cols-10' : 'sm:grid-cols-9'}`}>
                 <TabsTrigger value="profile" className="flex items-center gap-1 sm:gap-2 px-3 sm:px-4 text-xs sm:text-sm whitespace-nowrap">
                   <User className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
                   <span className="hidden xs:inline sm:inline">Profile</span>
@@ -88,6 +155,10 @@ const Index = () => {
                   <MessageSquare className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
                   <span className="hidden xs:inline sm:inline">Contacts</span>
                 </TabsTrigger>
+                <TabsTrigger value="calls" className="flex items-center justify-center gap-1 sm:gap-2 px-3 sm:px-4 text-xs sm:text-sm whitespace-nowrap">
+                  <Phone className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                  <span className="hidden xs:inline sm:inline">Calls</span>
+                </TabsTrigger>
                 <TabsTrigger value="syncs" className="flex items-center justify-center gap-1 sm:gap-2 px-3 sm:px-4 text-xs sm:text-sm whitespace-nowrap">
                   <Radio className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
                   <span className="hidden xs:inline sm:inline">Syncs</span>
@@ -128,6 +199,10 @@ const Index = () => {
               />
             </TabsContent>
             
+            <TabsContent value="calls">
+              <CallHistory onCallBack={handleCallBack} />
+            </TabsContent>
+            
             <TabsContent value="syncs" className="min-h-[60vh]">
               <UpdatesView />
             </TabsContent>
@@ -149,13 +224,7 @@ const Index = () => {
             </TabsContent>
             
             <TabsContent value="search">
-              <SemanticSearch 
-                onResultClick={(conversationId, messageId) => {
-                  // Navigate to the conversation
-                  console.log('Navigate to conversation:', conversationId, messageId);
-                  // You can implement navigation to specific message here
-                }}
-              />
+              <SemanticSearch onResultClick={handleOpenSearchResult} />
             </TabsContent>
             
             <TabsContent value="subscription">
@@ -163,8 +232,9 @@ const Index = () => {
             </TabsContent>
             
             {isAdmin && (
-              <TabsContent value="admin">
+              <TabsContent value="admin" className="space-y-4">
                 <AdminDashboard />
+                <SearchIndexStatus />
               </TabsContent>
             )}
           </Tabs>
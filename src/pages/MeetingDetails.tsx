@@ -1,14 +1,17 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { ArrowLeft, Calendar, Clock, Video, Users } from "lucide-react";
+import { ArrowLeft, Calendar, Clock, Video, Users, Film } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 import MeetingNotesSummary from "@/components/MeetingNotesSummary";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import MeetingRecordingPlayer from "@/components/MeetingRecordingPlayer";
+import { MeetingRecordingRow } from "@/utils/meetingRecorder";
+import { cn } from "@/lib/utils";
 
 interface Meeting {
   id: string;
@@ -38,7 +41,11 @@ const MeetingDetails = () => {
   const { toast } = useToast();
   const [meeting, setMeeting] = useState<Meeting | null>(null);
   const [transcripts, setTranscripts] = useState<Transcript[]>([]);
+  const [recordings, setRecordings] = useState<MeetingRecordingRow[]>([]);
+  const [selectedRecordingId, setSelectedRecordingId] = useState<string | null>(null);
+  const [playbackTime, setPlaybackTime] = useState(0);
   const [loading, setLoading] = useState(true);
+  const playerRef = useRef<HTMLMediaElement>(null);
 
   useEffect(() => {
     if (meetingId) {
@@ -85,6 +92,17 @@ const MeetingDetails = () => {
       }));
 
       setTranscripts(enrichedTranscripts);
+
+      const { data: recordingsData, error: recordingsError } = await supabase
+        .from("meeting_recordings")
+        .select("*")
+        .eq("meeting_id", meetingId)
+        .eq("status", "ready")
+        .order("started_at", { ascending: true });
+
+      if (recordingsError) throw recordingsError;
+      setRecordings(recordingsData || []);
+      setSelectedRecordingId(recordingsData?.[0]?.id ?? null);
     } catch (error) {
       console.error("Error fetching meeting data:", error);
       toast({
@@ -97,6 +115,37 @@ const MeetingDetails = () => {
     }
   };
 
+  const selectedRecording = recordings.find((r) => r.id === selectedRecordingId) || null;
+
+  // Position of a transcript line within the selected recording, in seconds
+  const getRecordingOffset = (transcript: Transcript) => {
+    if (!selectedRecording) return null;
+    const offset =
+      (new Date(transcript.timestamp).getTime() - new Date(selectedRecording.started_at).getTime()) / 1000;
+    const duration = (selectedRecording.duration_ms ?? 0) / 1000;
+    return offset >= 0 && offset <= duration ? offset : null;
+  };
+
+  // The line being spoken at the current playback position
+  const activeTranscriptId = selectedRecording
+    ? transcripts.reduce<string | null>((active, transcript) => {
+        const offset = getRecordingOffset(transcript);
+        return offset !== null && offset <= playbackTime ? transcript.id : active;
+      }, null)
+    : null;
+
+  const seekTo = (seconds: number) => {
+    const player = playerRef.current;
+    if (!player) return;
+    player.currentTime = seconds;
+    player.play().catch((error) => console.error("Error playing recording:", error));
+  };
+
+  const formatDuration = (ms: number | null) => {
+    const totalSeconds = Math.round((ms ?? 0) / 1000);
+    return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, "0")}`;
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -166,6 +215,47 @@ const MeetingDetails = () => {
           </CardContent>
         </Card>
 
+        {/* Recording */}
+        {selectedRecording && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Film className="w-5 h-5" />
+                Recording
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {recordings.length > 1 && (
+                <div className="flex flex-wrap gap-2">
+                  {recordings.map((recording) => (
+                    <Button
+                      key={recording.id}
+                      variant={recording.id === selectedRecordingId ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => {
+                        setSelectedRecordingId(recording.id);
+                        setPlaybackTime(0);
+                      }}
+                    >
+                      {format(new Date(recording.started_at), "p")} · {formatDuration(recording.duration_ms)}
+                    </Button>
+                  ))}
+                </div>
+              )}
+              <MeetingRecordingPlayer
+                ref={playerRef}
+                recording={selectedRecording}
+                onTimeUpdate={setPlaybackTime}
+              />
+              {transcripts.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Click a transcript line to jump to that point in the recording
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Transcripts */}
         <Card>
           <CardHeader>
@@ -182,22 +272,31 @@ const MeetingDetails = () => {
             ) : (
               <ScrollArea className="h-96">
                 <div className="space-y-3">
-                  {transcripts.map((transcript) => (
-                    <div
-                      key={transcript.id}
-                      className="p-3 bg-muted rounded-lg space-y-1"
-                    >
-                      <div className="flex items-center justify-between">
-                        <span className="text-sm font-medium">
-                          {transcript.profiles?.display_name || "Unknown"}
-                        </span>
-                        <span className="text-xs text-muted-foreground">
-                          {format(new Date(transcript.timestamp), "p")}
-                        </span>
+                  {transcripts.map((transcript) => {
+                    const offset = getRecordingOffset(transcript);
+                    return (
+                      <div
+                        key={transcript.id}
+                        className={cn(
+                          "p-3 bg-muted rounded-lg space-y-1",
+                          offset !== null && "cursor-pointer hover:bg-muted/70",
+                          transcript.id === activeTranscriptId && "ring-2 ring-primary"
+                        )}
+                        onClick={offset !== null ? () => seekTo(offset) : undefined}
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm font-medium">
+                            {transcript.profiles?.display_name || "Unknown"}
+                          </span>
+                          <span className="text-xs text-muted-foreground">
+                            {offset !== null && `${formatDuration(offset * 1000)} · `}
+                            {format(new Date(transcript.timestamp), "p")}
+                          </span>
+                        </div>
+                        <p className="text-sm">{transcript.content}</p>
                       </div>
-                      <p className="text-sm">{transcript.content}</p>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               </ScrollArea>
             )}
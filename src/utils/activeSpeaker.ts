@@ -0,0 +1,57 @@
+// Picks the participant who is currently talking from periodic audio levels
+
+// Audio level (0..1, as reported by RTCRtpReceiver) above which someone counts as speaking
+const SPEAKING_LEVEL = 0.03;
+// How long someone has to be the loudest speaker before the layout switches to them
+const SWITCH_DELAY_MS = 1200;
+
+/**
+ * Returns a function that is fed the latest levels and returns the active
+ * speaker. The current speaker is kept through pauses and brief
+ * interjections so the main view doesn't flicker.
+ */
+export const createActiveSpeakerDetector = () => {
+  let activeSpeaker: string | null = null;
+  let candidate: string | null = null;
+  let candidateSince = 0;
+
+  return (levels: Map<string, number>, now = Date.now()) => {
+    let loudest: string | null = null;
+    let loudestLevel = SPEAKING_LEVEL;
+    levels.forEach((level, participantId) => {
+      if (level > loudestLevel) {
+        loudest = participantId;
+        loudestLevel = level;
+      }
+    });
+
+    if (!loudest || loudest === activeSpeaker) {
+      candidate = null;
+      return activeSpeaker;
+    }
+
+    if (loudest !== candidate) {
+      candidate = loudest;
+      candidateSince = now;
+    }
+
+    // Nobody has spoken yet; take the first speaker straight away
+    if (!activeSpeaker || now - candidateSince >= SWITCH_DELAY_MS) {
+      activeSpeaker = loudest;
+      candidate = null;
+    }
+
+    return activeSpeaker;
+  };
+};
+
+// Audio level of the remote participant on the other end of a mesh connection
+export const getReceiverAudioLevel = (pc: RTCPeerConnection) => {
+  let level: number | undefined;
+  pc.getReceivers().forEach(receiver => {
+    if (receiver.track?.kind !== 'audio') return;
+    const sourceLevel = receiver.getSynchronizationSources()[0]?.audioLevel;
+    if (sourceLevel !== undefined) level = Math.max(level ?? 0, sourceLevel);
+  });
+  return level;
+};
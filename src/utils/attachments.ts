@@ -0,0 +1,239 @@
+// Chat attachment uploads to the private chat-attachments bucket
+import { Upload } from "tus-js-client";
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+
+export type MessageAttachmentRow = Database["public"]["Tables"]["message_attachments"]["Row"];
+
+export type AttachmentKind = 'image' | 'video' | 'audio' | 'file';
+
+export interface UploadedAttachment {
+  storagePath: string;
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+  width?: number;
+  height?: number;
+  durationMs?: number;
+  thumbnailPath?: string;
+}
+
+export const ATTACHMENTS_BUCKET = 'chat-attachments';
+export const MAX_ATTACHMENT_SIZE = 100 * 1024 * 1024;
+
+// Supabase Storage only accepts 6MB chunks for resumable uploads
+const UPLOAD_CHUNK_SIZE = 6 * 1024 * 1024;
+const THUMBNAIL_MAX_SIZE = 320;
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export const getAttachmentKind = (mimeType: string): AttachmentKind => {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  return 'file';
+};
+
+// A message with mixed attachment kinds is a generic file message
+export const getAttachmentMessageType = (files: { type: string }[]): AttachmentKind => {
+  const kinds = new Set(files.map(file => getAttachmentKind(file.type)));
+  return kinds.size === 1 ? [...kinds][0] : 'file';
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+const sanitizeFileName = (name: string) =>
+  name.replace(/[^a-zA-Z0-9._-]/g, '_').slice(-120) || 'file';
+
+const loadMediaElement = <T extends HTMLImageElement | HTMLVideoElement | HTMLAudioElement>(
+  element: T,
+  src: string,
+  readyEvent: 'load' | 'loadeddata' | 'loadedmetadata'
+) =>
+  new Promise<T>((resolve, reject) => {
+    element.addEventListener(readyEvent, () => resolve(element), { once: true });
+    element.addEventListener('error', () => reject(new Error('Failed to read media')), { once: true });
+    element.src = src;
+  });
+
+const renderThumbnail = (source: CanvasImageSource, width: number, height: number) =>
+  new Promise<Blob | null>((resolve) => {
+    const scale = Math.min(1, THUMBNAIL_MAX_SIZE / Math.max(width, height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob(resolve, 'image/jpeg', 0.8);
+  });
+
+/**
+ * Read dimensions/duration from images, videos and audio, and render a
+ * small JPEG thumbnail for images and videos. Unreadable media just
+ * yields no metadata rather than failing the upload.
+ */
+export const readMediaMetadata = async (file: File): Promise<{
+  width?: number;
+  height?: number;
+  durationMs?: number;
+  thumbnail?: Blob;
+}> => {
+  const kind = getAttachmentKind(file.type);
+  if (kind === 'file') return {};
+
+  const objectUrl = URL.createObjectURL(file);
+  try {
+    if (kind === 'image') {
+      const image = await loadMediaElement(new Image(), objectUrl, 'load');
+      const thumbnail = await renderThumbnail(image, image.naturalWidth, image.naturalHeight);
+      return { width: image.naturalWidth, height: image.naturalHeight, thumbnail: thumbnail || undefined };
+    }
+
+    if (kind === 'video') {
+      const video = document.createElement('video');
+      video.muted = true;
+      video.preload = 'auto';
+      await loadMediaElement(video, objectUrl, 'loadeddata');
+      const thumbnail = await renderThumbnail(video, video.videoWidth, video.videoHeight);
+      return {
+        width: video.videoWidth,
+        height: video.videoHeight,
+        durationMs: Number.isFinite(video.duration) ? Math.round(video.duration * 1000) : undefined,
+        thumbnail: thumbnail || undefined,
+      };
+    }
+
+    const audio = await loadMediaElement(new Audio(), objectUrl, 'loadedmetadata');
+    return { durationMs: Number.isFinite(audio.duration) ? Math.round(audio.duration * 1000) : undefined };
+  } catch (error) {
+    console.error('Error reading media metadata:', error);
+    return {};
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+};
+
+/**
+ * Upload a file with the resumable (TUS) protocol so large files survive
+ * flaky connections. Interrupted uploads of the same file resume from the
+ * last acknowledged chunk.
+ */
+const uploadResumable = async (
+  file: Blob,
+  objectName: string,
+  contentType: string,
+  onProgress?: (fraction: number) => void
+) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not authenticated');
+
+  await new Promise<void>((resolve, reject) => {
+    const upload = new Upload(file, {
+      endpoint: `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`,
+      retryDelays: [0, 1000, 3000, 5000, 10000],
+      headers: {
+        authorization: `Bearer ${session.access_token}`,
+        'x-upsert': 'false',
+      },
+      uploadDataDuringCreation: true,
+      removeFingerprintOnSuccess: true,
+      chunkSize: UPLOAD_CHUNK_SIZE,
+      metadata: {
+        bucketName: ATTACHMENTS_BUCKET,
+        objectName,
+        contentType,
+        cacheControl: '3600',
+      },
+      onError: reject,
+      onProgress: (bytesUploaded, bytesTotal) => onProgress?.(bytesTotal ? bytesUploaded / bytesTotal : 0),
+      onSuccess: () => resolve(),
+    });
+
+    upload.findPreviousUploads().then((previousUploads) => {
+      if (previousUploads.length > 0) {
+        upload.resumeFromPreviousUpload(previousUploads[0]);
+      }
+      upload.start();
+    });
+  });
+};
+
+export const uploadAttachment = async (
+  file: File,
+  { conversationId, userId, messageId, onProgress }: {
+    conversationId: string;
+    userId: string;
+    messageId: string;
+    onProgress?: (fraction: number) => void;
+  }
+): Promise<UploadedAttachment> => {
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(`${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`);
+  }
+
+  const mimeType = file.type || 'application/octet-stream';
+  const folder = `${conversationId}/${userId}/${messageId}`;
+  const storagePath = `${folder}/${sanitizeFileName(file.name)}`;
+  const { thumbnail, ...metadata } = await readMediaMetadata(file);
+
+  await uploadResumable(file, storagePath, mimeType, onProgress);
+
+  let thumbnailPath: string | undefined;
+  if (thumbnail) {
+    thumbnailPath = `${folder}/thumb-${sanitizeFileName(file.name)}.jpg`;
+    const { error } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .upload(thumbnailPath, thumbnail, { contentType: 'image/jpeg', upsert: false });
+
+    if (error) {
+      console.error('Error uploading thumbnail:', error);
+      thumbnailPath = undefined;
+    }
+  }
+
+  return {
+    storagePath,
+    fileName: file.name,
+    mimeType,
+    sizeBytes: file.size,
+    thumbnailPath,
+    ...metadata,
+  };
+};
+
+export const removeUploadedAttachments = async (attachments: UploadedAttachment[]) => {
+  const paths = attachments.flatMap(a => a.thumbnailPath ? [a.storagePath, a.thumbnailPath] : [a.storagePath]);
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(ATTACHMENTS_BUCKET).remove(paths);
+  if (error) {
+    console.error('Error removing uploaded attachments:', error);
+  }
+};
+
+// Signed URLs are cached so virtualized rows don't re-sign on every mount
+const signedUrlCache = new Map<string, { url: string; expiresAt: number }>();
+
+export const getAttachmentUrl = async (storagePath: string) => {
+  const cached = signedUrlCache.get(storagePath);
+  if (cached && cached.expiresAt > Date.now()) return cached.url;
+
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrl(storagePath, SIGNED_URL_TTL_SECONDS);
+
+  if (error || !data?.signedUrl) {
+    console.error('Error signing attachment URL:', error);
+    return null;
+  }
+
+  // Refresh a minute before the URL actually expires
+  signedUrlCache.set(storagePath, {
+    url: data.signedUrl,
+    expiresAt: Date.now() + (SIGNED_URL_TTL_SECONDS - 60) * 1000,
+  });
+  return data.signedUrl;
+};
@@ -0,0 +1,74 @@
+// Paid plans and what they allow. Subscriptions are changed through the
+// manage-subscription edge function and written from the billing provider's events.
+import { format } from "date-fns";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { Database, Tables } from "@/integrations/supabase/types";
+
+export type UserSubscription = Tables<"user_subscriptions">;
+export type PlanEntitlements = Tables<"plan_entitlements">;
+export type BillingOrganization = Tables<"billing_organizations">;
+export type OrganizationSeat = Tables<"organization_seats">;
+export type Entitlements = Database["public"]["Functions"]["current_entitlements"]["Returns"][number];
+
+export type PlanType = 'free' | 'premium' | 'enterprise';
+
+export const PLANS: { value: PlanType; label: string; description: string }[] = [
+  { value: 'free', label: 'Free', description: 'Basic semantic search and translation' },
+  { value: 'premium', label: 'Premium', description: 'Advanced features and higher limits' },
+  { value: 'enterprise', label: 'Enterprise', description: 'Premium for your whole team, billed per seat' },
+];
+
+export const MAX_SEATS = 1000;
+
+// The plan comparison, worded from the entitlement values
+export const planFeatures = (plan: PlanEntitlements) => [
+  { name: `Up to ${plan.search_max_results} results per search`, available: true },
+  { name: 'Advanced search filters (date, sender, type)', available: plan.premium_features },
+  {
+    name: plan.daily_translations === null
+      ? 'Unlimited translations'
+      : `${plan.daily_translations} translations per day`,
+    available: true,
+  },
+  {
+    name: plan.voice_clones > 0 ? `${plan.voice_clones} custom voices` : 'Custom voices',
+    available: plan.voice_clones > 0,
+  },
+  ...(plan.plan_type === 'enterprise' ? [{ name: 'Seats for your team', available: true }] : []),
+  ...(plan.trial_days > 0 ? [{ name: `${plan.trial_days}-day free trial`, available: true }] : []),
+];
+
+const formatDate = (date: string) => format(new Date(date), 'PP');
+
+// A line about where the subscription stands, or null when there's nothing to say
+export const describeSubscription = (subscription: UserSubscription | null) => {
+  if (!subscription) return null;
+
+  switch (subscription.status) {
+    case 'trialing':
+      return subscription.trial_ends_at ? `Free trial until ${formatDate(subscription.trial_ends_at)}` : 'Free trial';
+    case 'past_due':
+      return subscription.grace_period_ends_at
+        ? `Payment failed. Update your payment method by ${formatDate(subscription.grace_period_ends_at)} to keep your plan.`
+        : 'Payment failed. Update your payment method to keep your plan.';
+    case 'canceled':
+      return 'Your paid plan has ended.';
+    default:
+      if (subscription.cancel_at_period_end && subscription.expires_at) {
+        return `Canceled. Your plan ends on ${formatDate(subscription.expires_at)}.`;
+      }
+      return subscription.expires_at && subscription.plan_type !== 'free'
+        ? `Renews on ${formatDate(subscription.expires_at)}`
+        : null;
+  }
+};
+
+// Edge functions answer 402 with the upgrade message when the plan's limit is
+// reached; null for any other error
+export const planLimitMessage = async (error: unknown): Promise<string | null> => {
+  if (!(error instanceof FunctionsHttpError) || error.context.status !== 402) return null;
+  const body = await error.context.json().catch(() => null);
+  return body?.limitReached ? body.message || body.error : null;
+};
+
+export const subscriptionReturnUrl = () => `${window.location.origin}${window.location.pathname}?tab=subscription`;
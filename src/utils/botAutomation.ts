@@ -0,0 +1,47 @@
+// Keyword rules and scheduled digests that make the group bot act on its own,
+// run by the process-bot-queue worker
+import { Tables } from "@/integrations/supabase/types";
+
+export type BotTrigger = Tables<"bot_triggers">;
+export type BotSchedule = Tables<"bot_schedules">;
+
+export type BotScheduleKind = 'daily_digest' | 'weekly_summary';
+
+export const BOT_MODES = [
+  { value: 'assistant', label: 'Assistant' },
+  { value: 'knowledge', label: 'Knowledge' },
+  { value: 'moderator', label: 'Moderator' },
+  { value: 'persona', label: 'Persona' },
+  { value: 'translation', label: 'Translation' },
+];
+
+export const BOT_SCHEDULE_KINDS: { value: BotScheduleKind; label: string; description: string }[] = [
+  { value: 'daily_digest', label: 'Daily digest', description: "A recap of the last day's discussion" },
+  { value: 'weekly_summary', label: 'Weekly summary', description: 'Topics, decisions and open tasks from the past week' },
+];
+
+// ISO days of the week, as stored in bot_schedules.weekday
+export const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+export const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+export const describeBotSchedule = (schedule: Pick<BotSchedule, 'kind' | 'hour' | 'weekday' | 'timezone'>) => {
+  const time = `${formatHour(schedule.hour)} (${schedule.timezone})`;
+  return schedule.kind === 'weekly_summary' && schedule.weekday
+    ? `Every ${WEEKDAYS[schedule.weekday - 1]} at ${time}`
+    : `Every day at ${time}`;
+};
+
+// Mirrors the database check so a broken pattern is caught before saving
+export const isValidPattern = (pattern: string, isRegex: boolean) => {
+  if (!pattern.trim()) return false;
+  if (!isRegex) return true;
+  // Back-references aren't allowed; they can make matching arbitrarily slow
+  if (/\\[1-9]/.test(pattern)) return false;
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,147 @@
+// Call quality stats from RTCPeerConnection.getStats() and adaptive sending quality
+import { findSelectedPairReport } from "@/utils/iceServers";
+
+export interface CallStats {
+  // kbps over the last sampling interval
+  outboundBitrate: number;
+  inboundBitrate: number;
+  // Percent of packets lost on the way to us, and on the way to the other side
+  inboundPacketLoss: number;
+  outboundPacketLoss: number | null;
+  roundTripTime: number | null; // ms
+  jitter: number | null; // ms
+  sendResolution: { width: number; height: number } | null;
+  qualityLevel: number;
+}
+
+// Cumulative counters from the previous sample, needed to turn totals into rates
+export interface StatsSnapshot {
+  timestamp: number;
+  bytesSent: number;
+  bytesReceived: number;
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+export const readCallStats = async (pc: RTCPeerConnection, previous?: StatsSnapshot) => {
+  const report = await pc.getStats();
+  const snapshot: StatsSnapshot = {
+    timestamp: performance.now(),
+    bytesSent: 0,
+    bytesReceived: 0,
+    packetsReceived: 0,
+    packetsLost: 0,
+  };
+  let jitter: number | null = null;
+  let outboundLoss: number | null = null;
+  let sendResolution: CallStats['sendResolution'] = null;
+
+  report.forEach((entry) => {
+    if (entry.type === 'outbound-rtp') {
+      snapshot.bytesSent += entry.bytesSent ?? 0;
+      if (entry.kind === 'video' && entry.frameWidth && entry.frameHeight) {
+        // With simulcast, report the largest layer being sent
+        if (!sendResolution || entry.frameWidth > sendResolution.width) {
+          sendResolution = { width: entry.frameWidth, height: entry.frameHeight };
+        }
+      }
+    } else if (entry.type === 'inbound-rtp') {
+      snapshot.bytesReceived += entry.bytesReceived ?? 0;
+      snapshot.packetsReceived += entry.packetsReceived ?? 0;
+      snapshot.packetsLost += entry.packetsLost ?? 0;
+      if (entry.jitter !== undefined) jitter = Math.max(jitter ?? 0, entry.jitter * 1000);
+    } else if (entry.type === 'remote-inbound-rtp' && entry.fractionLost !== undefined) {
+      outboundLoss = Math.max(outboundLoss ?? 0, entry.fractionLost * 100);
+    }
+  });
+
+  const pair = findSelectedPairReport(report);
+  const roundTripTime = pair?.currentRoundTripTime !== undefined ? pair.currentRoundTripTime * 1000 : null;
+
+  const elapsed = previous ? snapshot.timestamp - previous.timestamp : 0;
+  // bits per millisecond == kbps
+  const rate = (current: number, before: number) =>
+    elapsed > 0 ? Math.max(0, Math.round(((current - before) * 8) / elapsed)) : 0;
+
+  const packetsReceived = snapshot.packetsReceived - (previous?.packetsReceived ?? 0);
+  const packetsLost = snapshot.packetsLost - (previous?.packetsLost ?? 0);
+  const expected = packetsReceived + packetsLost;
+
+  const stats: Omit<CallStats, 'qualityLevel'> = {
+    outboundBitrate: rate(snapshot.bytesSent, previous?.bytesSent ?? 0),
+    inboundBitrate: rate(snapshot.bytesReceived, previous?.bytesReceived ?? 0),
+    inboundPacketLoss: expected > 0 ? Math.max(0, (packetsLost / expected) * 100) : 0,
+    outboundPacketLoss: outboundLoss,
+    roundTripTime,
+    jitter,
+    sendResolution,
+  };
+
+  return { stats, snapshot };
+};
+
+// Sending quality steps for the camera, from best to worst
+const QUALITY_LEVELS: { scaleResolutionDownBy: number; maxBitrate: number }[] = [
+  { scaleResolutionDownBy: 1, maxBitrate: 1_500_000 },
+  { scaleResolutionDownBy: 2, maxBitrate: 600_000 },
+  { scaleResolutionDownBy: 4, maxBitrate: 200_000 },
+];
+
+// Consecutive samples needed before stepping down or back up
+const DEGRADE_AFTER_SAMPLES = 2;
+const RECOVER_AFTER_SAMPLES = 5;
+
+const isDegraded = (stats: Omit<CallStats, 'qualityLevel'>) =>
+  (stats.outboundPacketLoss ?? 0) > 5 || (stats.roundTripTime ?? 0) > 400;
+
+const isHealthy = (stats: Omit<CallStats, 'qualityLevel'>) =>
+  (stats.outboundPacketLoss ?? 0) < 2 && (stats.roundTripTime ?? 0) < 250;
+
+/**
+ * Tracks network health for one connection and returns the quality level
+ * (index into the sending steps) to use. Steps down quickly when loss or
+ * latency climbs and back up slowly once the network has been healthy.
+ */
+export const createQualityController = () => {
+  let level = 0;
+  let badSamples = 0;
+  let goodSamples = 0;
+
+  return (stats: Omit<CallStats, 'qualityLevel'>) => {
+    if (isDegraded(stats)) {
+      badSamples += 1;
+      goodSamples = 0;
+      if (badSamples >= DEGRADE_AFTER_SAMPLES && level < QUALITY_LEVELS.length - 1) {
+        level += 1;
+        badSamples = 0;
+      }
+    } else if (isHealthy(stats)) {
+      goodSamples += 1;
+      badSamples = 0;
+      if (goodSamples >= RECOVER_AFTER_SAMPLES && level > 0) {
+        level -= 1;
+        goodSamples = 0;
+      }
+    }
+    return level;
+  };
+};
+
+/**
+ * Apply a quality level to a video sender. Screen shares keep their full
+ * resolution so text stays legible and only get the bitrate cap; simulcast
+ * senders are left alone since the SFU picks layers per receiver.
+ */
+export const applyQualityLevel = async (sender: RTCRtpSender, level: number, isScreenShare: boolean) => {
+  const parameters = sender.getParameters();
+  if (!parameters.encodings || parameters.encodings.length !== 1) return;
+
+  const { scaleResolutionDownBy, maxBitrate } = QUALITY_LEVELS[level];
+  const encoding = parameters.encodings[0];
+  const targetScale = isScreenShare ? 1 : scaleResolutionDownBy;
+  if (encoding.scaleResolutionDownBy === targetScale && encoding.maxBitrate === maxBitrate) return;
+
+  encoding.scaleResolutionDownBy = targetScale;
+  encoding.maxBitrate = maxBitrate;
+  await sender.setParameters(parameters);
+};
@@ -0,0 +1,37 @@
+// Downloads files produced by edge functions (conversation and personal data exports)
+import { supabase } from "@/integrations/supabase/client";
+
+// functions.invoke parses the body, so file responses are fetched directly
+export const downloadFunctionFile = async (functionName: string, body: Record<string, unknown>, fallbackName: string) => {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${functionName}`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session?.access_token}`,
+      },
+      body: JSON.stringify(body),
+    }
+  );
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Export failed');
+  }
+
+  const disposition = response.headers.get('content-disposition') || '';
+  const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || fallbackName;
+
+  const blob = await response.blob();
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
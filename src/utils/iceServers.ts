@@ -0,0 +1,86 @@
+// ICE server configuration for calls, issued by the get-ice-servers function
+import { supabase } from "@/integrations/supabase/client";
+
+// Used when the function can't be reached; direct/STUN-only connectivity
+export const FALLBACK_ICE_SERVERS: RTCIceServer[] = [
+  { urls: ['stun:stun.l.google.com:19302', 'stun:stun1.l.google.com:19302'] },
+];
+
+// Refresh TURN credentials this long before they expire
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
+let cached: { iceServers: RTCIceServer[]; expiresAt: number } | null = null;
+
+/**
+ * Fetch STUN/TURN servers with short-lived TURN credentials. Credentials
+ * are cached until shortly before they expire; pass `forceRefresh` when a
+ * connection failed and may have been using stale credentials.
+ */
+export const getIceServers = async ({ forceRefresh = false } = {}): Promise<RTCIceServer[]> => {
+  if (!forceRefresh && cached && cached.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+    return cached.iceServers;
+  }
+
+  try {
+    const { data, error } = await supabase.functions.invoke('get-ice-servers');
+    if (error) throw error;
+
+    cached = {
+      iceServers: data.iceServers,
+      expiresAt: new Date(data.expiresAt).getTime(),
+    };
+    return cached.iceServers;
+  } catch (error) {
+    console.error('Error fetching ICE servers, falling back to STUN only:', error);
+    return cached?.iceServers ?? FALLBACK_ICE_SERVERS;
+  }
+};
+
+export type CandidateType = 'host' | 'srflx' | 'prflx' | 'relay';
+
+export interface SelectedCandidatePair {
+  localType?: CandidateType;
+  remoteType?: CandidateType;
+  protocol?: string;
+  // Transport between us and the TURN server when relaying (udp, tcp or tls)
+  relayProtocol?: string;
+}
+
+// The candidate-pair report the ICE agent settled on, if any
+export const findSelectedPairReport = (stats: RTCStatsReport) => {
+  let pair: RTCIceCandidatePairStats | undefined;
+
+  stats.forEach((report) => {
+    if (report.type === 'transport' && report.selectedCandidatePairId) {
+      pair = stats.get(report.selectedCandidatePairId);
+    }
+  });
+
+  // Firefox doesn't expose transport stats; fall back to the selected/nominated pair
+  if (!pair) {
+    stats.forEach((report) => {
+      if (report.type === 'candidate-pair' && (report.selected || (report.nominated && report.state === 'succeeded'))) {
+        pair = report;
+      }
+    });
+  }
+
+  return pair;
+};
+
+// Read the candidate pair the ICE agent settled on from the connection stats
+export const getSelectedCandidatePair = async (pc: RTCPeerConnection): Promise<SelectedCandidatePair | null> => {
+  const stats = await pc.getStats();
+  const pair = findSelectedPairReport(stats);
+  if (!pair) return null;
+
+  const local = stats.get(pair.localCandidateId);
+  const remote = stats.get(pair.remoteCandidateId);
+
+  return {
+    localType: local?.candidateType,
+    remoteType: remote?.candidateType,
+    protocol: local?.protocol,
+    relayProtocol: local?.relayProtocol,
+  };
+};
@@ -0,0 +1,73 @@
+// The group bot's knowledge base: pinned messages and uploaded documents,
+// indexed by the process-embedding-queue worker
+import { supabase } from "@/integrations/supabase/client";
+import { Json, Tables } from "@/integrations/supabase/types";
+
+export type KnowledgeSource = Tables<"knowledge_sources">;
+
+export const KNOWLEDGE_BUCKET = 'knowledge-base';
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+export const DOCUMENT_ACCEPT = '.pdf,.md,.markdown,.txt';
+
+// Browsers often leave Markdown files without a type, so go by extension
+export const documentMimeType = (file: File): string | null => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  if (file.type === 'application/pdf' || extension === 'pdf') return 'application/pdf';
+  if (extension === 'md' || extension === 'markdown') return 'text/markdown';
+  if (file.type === 'text/plain' || extension === 'txt') return 'text/plain';
+  return null;
+};
+
+export const knowledgeStoragePath = (
+  owner: { conversationId: string } | { communityId: string },
+  sourceId: string,
+  fileName: string
+) => {
+  const folder = 'conversationId' in owner
+    ? `conversation/${owner.conversationId}`
+    : `community/${owner.communityId}`;
+  return `${folder}/${sourceId}/${fileName.replace(/[^\w.-]+/g, '_')}`;
+};
+
+// Where the bot found an answer, kept in the reply's metadata
+export interface KnowledgeCitation {
+  source_id: string;
+  kind: 'message' | 'document';
+  title: string;
+  message_id?: string;
+  storage_path?: string;
+  excerpt: string;
+}
+
+export const parseCitations = (metadata: Json | undefined): KnowledgeCitation[] => {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata) || !Array.isArray(metadata.citations)) {
+    return [];
+  }
+
+  return metadata.citations.flatMap((item) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return [];
+    if (typeof item.source_id !== 'string' || typeof item.title !== 'string') return [];
+    return [{
+      source_id: item.source_id,
+      kind: item.kind === 'message' ? 'message' : 'document',
+      title: item.title,
+      message_id: typeof item.message_id === 'string' ? item.message_id : undefined,
+      storage_path: typeof item.storage_path === 'string' ? item.storage_path : undefined,
+      excerpt: typeof item.excerpt === 'string' ? item.excerpt : '',
+    } as KnowledgeCitation];
+  });
+};
+
+export const openKnowledgeDocument = async (storagePath: string) => {
+  const { data, error } = await supabase.storage
+    .from(KNOWLEDGE_BUCKET)
+    .createSignedUrl(storagePath, 60);
+
+  if (error || !data?.signedUrl) {
+    console.error('Error opening knowledge base document:', error);
+    return false;
+  }
+
+  window.open(data.signedUrl, '_blank', 'noopener,noreferrer');
+  return true;
+};
@@ -0,0 +1,215 @@
+// In-page stand-in for the SFU (VITE_SFU_URL=local). It forwards media
+// between sessions created in the same page, which is enough to exercise
+// SFU mode in tests and local development without running a media server.
+// It does not negotiate simulcast, so layer preferences are ignored.
+import { SfuClientMessage, SfuServerMessage, SfuTarget, SfuTransport } from "@/utils/sfu";
+
+interface LocalSfuPeer {
+  participantId: string;
+  roomId: string;
+  send: (message: SfuServerMessage) => void;
+  publisher: RTCPeerConnection;
+  subscriber: RTCPeerConnection;
+  // Streams published by this peer, as received by the server
+  streams: Map<string, MediaStream>;
+  // Senders on this peer's subscriber connection, keyed by source participant
+  forwarded: Map<string, RTCRtpSender[]>;
+  negotiation: Promise<void>;
+  negotiationNeeded: boolean;
+  pendingCandidates: Record<SfuTarget, RTCIceCandidateInit[]>;
+}
+
+export class LocalSfuServer {
+  private rooms = new Map<string, Map<string, LocalSfuPeer>>();
+
+  connect(): SfuTransport {
+    let peer: LocalSfuPeer | null = null;
+    let clientHandler: ((message: SfuServerMessage) => void) | null = null;
+    let closed = false;
+
+    // Deliver asynchronously and by value, like a real network hop
+    const send = (message: SfuServerMessage) => {
+      const copy = JSON.parse(JSON.stringify(message));
+      setTimeout(() => {
+        if (!closed) clientHandler?.(copy);
+      }, 0);
+    };
+
+    const receive = (message: SfuClientMessage) => {
+      if (message.type === 'join') {
+        peer = this.join(message.roomId, message.participantId, send);
+      } else if (peer) {
+        this.handleMessage(peer, message).catch(error => {
+          console.error('Local SFU error:', error);
+          send({ type: 'error', message: error instanceof Error ? error.message : 'Local SFU error' });
+        });
+      }
+    };
+
+    return {
+      send: (message) => {
+        const copy = JSON.parse(JSON.stringify(message));
+        setTimeout(() => receive(copy), 0);
+      },
+      onMessage: (handler) => {
+        clientHandler = handler;
+      },
+      close: () => {
+        closed = true;
+        if (peer) this.leave(peer);
+        peer = null;
+      },
+    };
+  }
+
+  private join(roomId: string, participantId: string, send: (message: SfuServerMessage) => void) {
+    const room = this.rooms.get(roomId) ?? new Map<string, LocalSfuPeer>();
+    this.rooms.set(roomId, room);
+
+    // A reconnecting participant replaces its previous session
+    const previous = room.get(participantId);
+    if (previous) this.leave(previous);
+
+    const peer: LocalSfuPeer = {
+      participantId,
+      roomId,
+      send,
+      publisher: new RTCPeerConnection(),
+      subscriber: new RTCPeerConnection(),
+      streams: new Map(),
+      forwarded: new Map(),
+      negotiation: Promise.resolve(),
+      negotiationNeeded: false,
+      pendingCandidates: { publisher: [], subscriber: [] },
+    };
+
+    (['publisher', 'subscriber'] as const).forEach(target => {
+      peer[target].onicecandidate = (event) => {
+        if (event.candidate) {
+          send({ type: 'candidate', target, candidate: event.candidate.toJSON() });
+        }
+      };
+    });
+
+    peer.publisher.ontrack = (event) => {
+      const stream = event.streams[0];
+      if (!stream) return;
+      peer.streams.set(stream.id, stream);
+      room.forEach(other => {
+        if (other !== peer) this.forward(peer, other, event.track, stream);
+      });
+    };
+
+    room.set(participantId, peer);
+    send({ type: 'joined', participants: Array.from(room.keys()), simulcast: false });
+
+    room.forEach(other => {
+      other.streams.forEach(stream => {
+        stream.getTracks().forEach(track => this.forward(other, peer, track, stream));
+      });
+    });
+    return peer;
+  }
+
+  private forward(source: LocalSfuPeer, destination: LocalSfuPeer, track: MediaStreamTrack, stream: MediaStream) {
+    destination.send({ type: 'stream', participantId: source.participantId, streamId: stream.id });
+    const sender = destination.subscriber.addTrack(track, stream);
+    destination.forwarded.set(source.participantId, [...(destination.forwarded.get(source.participantId) ?? []), sender]);
+    this.renegotiate(destination);
+  }
+
+  // Offer the subscriber connection again; coalesces changes made mid-negotiation
+  private renegotiate(peer: LocalSfuPeer, iceRestart = false) {
+    peer.negotiationNeeded = true;
+    peer.negotiation = peer.negotiation.then(async () => {
+      if (!peer.negotiationNeeded || peer.subscriber.connectionState === 'closed') return;
+      peer.negotiationNeeded = false;
+
+      const offer = await peer.subscriber.createOffer({ iceRestart });
+      await peer.subscriber.setLocalDescription(offer);
+      peer.send({ type: 'offer', sdp: offer.sdp ?? '' });
+
+      // Wait for the answer before starting another round
+      await new Promise<void>(resolve => {
+        const check = () => {
+          if (peer.subscriber.signalingState !== 'have-local-offer') {
+            resolve();
+          } else {
+            setTimeout(check, 50);
+          }
+        };
+        check();
+      });
+    }).catch(error => console.error('Local SFU renegotiation error:', error));
+  }
+
+  private async addPendingCandidates(peer: LocalSfuPeer, target: SfuTarget) {
+    for (const candidate of peer.pendingCandidates[target].splice(0)) {
+      await peer[target].addIceCandidate(candidate);
+    }
+  }
+
+  private async handleMessage(peer: LocalSfuPeer, message: SfuClientMessage) {
+    switch (message.type) {
+      case 'offer': {
+        await peer.publisher.setRemoteDescription({ type: 'offer', sdp: message.sdp });
+        await this.addPendingCandidates(peer, 'publisher');
+        const answer = await peer.publisher.createAnswer();
+        await peer.publisher.setLocalDescription(answer);
+        peer.send({ type: 'answer', sdp: answer.sdp ?? '' });
+        break;
+      }
+      case 'answer':
+        await peer.subscriber.setRemoteDescription({ type: 'answer', sdp: message.sdp });
+        await this.addPendingCandidates(peer, 'subscriber');
+        break;
+      case 'candidate': {
+        const pc = peer[message.target];
+        if (pc.remoteDescription) {
+          await pc.addIceCandidate(message.candidate);
+        } else {
+          peer.pendingCandidates[message.target].push(message.candidate);
+        }
+        break;
+      }
+      case 'restart-request':
+        this.renegotiate(peer, true);
+        break;
+      case 'set-layer':
+        // No simulcast here; every subscriber gets the single published encoding
+        break;
+      case 'leave':
+        this.leave(peer);
+        break;
+      case 'join':
+        break;
+    }
+  }
+
+  private leave(peer: LocalSfuPeer) {
+    const room = this.rooms.get(peer.roomId);
+    if (!room || room.get(peer.participantId) !== peer) return;
+
+    room.delete(peer.participantId);
+    peer.publisher.close();
+    peer.subscriber.close();
+
+    room.forEach(other => {
+      const senders = other.forwarded.get(peer.participantId) ?? [];
+      other.forwarded.delete(peer.participantId);
+      senders.forEach(sender => other.subscriber.removeTrack(sender));
+      if (senders.length > 0) this.renegotiate(other);
+      other.send({ type: 'participant-left', participantId: peer.participantId });
+    });
+
+    if (room.size === 0) this.rooms.delete(peer.roomId);
+  }
+}
+
+let localServer: LocalSfuServer | null = null;
+
+// All sessions in the page share one stand-in server
+export const createLocalSfuTransport = () => {
+  if (!localServer) localServer = new LocalSfuServer();
+  return localServer.connect();
+};
@@ -0,0 +1,242 @@
+// Meeting recording: mixes the call's streams into one MediaRecorder and
+// uploads each chunk to the private meeting-recordings bucket as it arrives
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+
+export type MeetingRecordingRow = Database["public"]["Tables"]["meeting_recordings"]["Row"];
+
+export const RECORDINGS_BUCKET = 'meeting-recordings';
+
+// How much media each uploaded chunk holds
+const CHUNK_INTERVAL_MS = 10000;
+const CANVAS_WIDTH = 1280;
+const CANVAS_HEIGHT = 720;
+const FRAME_RATE = 15;
+
+const MIME_TYPES = {
+  video: ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'],
+  audio: ['audio/webm;codecs=opus', 'audio/webm'],
+};
+
+export const pickRecordingMimeType = (isVideo: boolean) => {
+  const candidates = isVideo ? MIME_TYPES.video : MIME_TYPES.audio;
+  return candidates.find(type => MediaRecorder.isTypeSupported(type)) || candidates[candidates.length - 1];
+};
+
+const chunkPath = (meetingId: string, recordingId: string, seq: number) =>
+  `${meetingId}/${recordingId}/${String(seq).padStart(5, '0')}.webm`;
+
+interface MixedSource {
+  stream: MediaStream;
+  audioNode?: MediaStreamAudioSourceNode;
+  video?: HTMLVideoElement;
+}
+
+/**
+ * Records a meeting from the local stream plus every remote stream passed
+ * to setSources. Audio is mixed through Web Audio; for video meetings the
+ * participants are tiled onto a canvas. Chunks are uploaded in order, so a
+ * recording stopped by a crash still plays back up to the last chunk.
+ */
+export class MeetingRecorder {
+  private audioContext: AudioContext | null = null;
+  private audioDestination: MediaStreamAudioDestinationNode | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+  private drawTimer: ReturnType<typeof setInterval> | null = null;
+  private recorder: MediaRecorder | null = null;
+  private sources = new Map<string, MixedSource>();
+  // Everyone mixed in since the current chunk began
+  private chunkParticipants = new Set<string>();
+  private uploadQueue: Promise<void> = Promise.resolve();
+  private nextSeq = 0;
+  private startedAt = 0;
+
+  constructor(
+    private meetingId: string,
+    private recordingId: string,
+    private mimeType: string,
+    private isVideo: boolean,
+    private onUploadError?: (error: unknown) => void
+  ) {}
+
+  start(sources: Map<string, MediaStream>) {
+    this.audioContext = new AudioContext();
+    this.audioDestination = this.audioContext.createMediaStreamDestination();
+
+    const tracks = [...this.audioDestination.stream.getAudioTracks()];
+    if (this.isVideo) {
+      this.canvas = document.createElement('canvas');
+      this.canvas.width = CANVAS_WIDTH;
+      this.canvas.height = CANVAS_HEIGHT;
+      tracks.push(...this.canvas.captureStream(FRAME_RATE).getVideoTracks());
+      // Timers keep drawing when the tab is in the background, unlike requestAnimationFrame
+      this.drawTimer = setInterval(() => this.drawFrame(), 1000 / FRAME_RATE);
+    }
+
+    this.setSources(sources);
+
+    this.recorder = new MediaRecorder(new MediaStream(tracks), { mimeType: this.mimeType });
+    this.recorder.ondataavailable = (event) => {
+      const participantIds = Array.from(this.chunkParticipants);
+      this.chunkParticipants = new Set(this.sources.keys());
+      if (event.data.size > 0) {
+        this.enqueueUpload(event.data, participantIds);
+      }
+    };
+    this.recorder.start(CHUNK_INTERVAL_MS);
+    this.startedAt = Date.now();
+  }
+
+  // Sync the mix with the current set of streams, e.g. when people join, leave or opt out
+  setSources(streams: Map<string, MediaStream>) {
+    if (!this.audioContext || !this.audioDestination) return;
+
+    this.sources.forEach((source, id) => {
+      if (streams.get(id) !== source.stream) {
+        this.removeSource(id);
+      }
+    });
+
+    streams.forEach((stream, id) => {
+      if (this.sources.has(id)) return;
+
+      const source: MixedSource = { stream };
+      if (stream.getAudioTracks().length > 0) {
+        source.audioNode = this.audioContext!.createMediaStreamSource(stream);
+        source.audioNode.connect(this.audioDestination!);
+      }
+      if (this.isVideo && stream.getVideoTracks().length > 0) {
+        const video = document.createElement('video');
+        video.muted = true;
+        video.playsInline = true;
+        video.srcObject = new MediaStream(stream.getVideoTracks());
+        video.play().catch(error => console.error('Error playing recording source:', error));
+        source.video = video;
+      }
+      this.sources.set(id, source);
+      this.chunkParticipants.add(id);
+    });
+  }
+
+  async stop(): Promise<{ durationMs: number }> {
+    const recorder = this.recorder;
+    if (recorder && recorder.state !== 'inactive') {
+      await new Promise<void>((resolve) => {
+        recorder.addEventListener('stop', () => resolve(), { once: true });
+        recorder.stop();
+      });
+    }
+
+    const durationMs = this.startedAt ? Date.now() - this.startedAt : 0;
+
+    if (this.drawTimer) clearInterval(this.drawTimer);
+    this.drawTimer = null;
+    Array.from(this.sources.keys()).forEach(id => this.removeSource(id));
+    await this.audioContext?.close();
+    this.audioContext = null;
+    this.audioDestination = null;
+    this.canvas = null;
+    this.recorder = null;
+
+    // Resolve only once the final chunk is stored
+    await this.uploadQueue;
+    return { durationMs };
+  }
+
+  private removeSource(id: string) {
+    const source = this.sources.get(id);
+    if (!source) return;
+
+    source.audioNode?.disconnect();
+    if (source.video) {
+      source.video.pause();
+      source.video.srcObject = null;
+    }
+    this.sources.delete(id);
+  }
+
+  private drawFrame() {
+    const context = this.canvas?.getContext('2d');
+    if (!context) return;
+
+    context.fillStyle = '#000';
+    context.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    const videos = Array.from(this.sources.values())
+      .map(source => source.video)
+      .filter((video): video is HTMLVideoElement => !!video && video.videoWidth > 0);
+    if (videos.length === 0) return;
+
+    const columns = Math.ceil(Math.sqrt(videos.length));
+    const rows = Math.ceil(videos.length / columns);
+    const tileWidth = CANVAS_WIDTH / columns;
+    const tileHeight = CANVAS_HEIGHT / rows;
+
+    videos.forEach((video, index) => {
+      // Letterbox each participant inside their tile
+      const scale = Math.min(tileWidth / video.videoWidth, tileHeight / video.videoHeight);
+      const width = video.videoWidth * scale;
+      const height = video.videoHeight * scale;
+      const x = (index % columns) * tileWidth + (tileWidth - width) / 2;
+      const y = Math.floor(index / columns) * tileHeight + (tileHeight - height) / 2;
+      context.drawImage(video, x, y, width, height);
+    });
+  }
+
+  // The chunk row goes first: the server checks everyone in it has consented
+  // and only then accepts the upload
+  private enqueueUpload(blob: Blob, participantIds: string[]) {
+    const seq = this.nextSeq++;
+    this.uploadQueue = this.uploadQueue.then(async () => {
+      try {
+        const path = chunkPath(this.meetingId, this.recordingId, seq);
+        const { error: chunkError } = await supabase
+          .from('meeting_recording_chunks')
+          .insert({
+            recording_id: this.recordingId,
+            seq,
+            storage_path: path,
+            size_bytes: blob.size,
+            participant_ids: participantIds,
+          });
+        if (chunkError) throw chunkError;
+
+        const { error: uploadError } = await supabase.storage
+          .from(RECORDINGS_BUCKET)
+          .upload(path, blob, { contentType: this.mimeType });
+        if (uploadError) throw uploadError;
+      } catch (error) {
+        console.error('Error uploading recording chunk:', error);
+        this.onUploadError?.(error);
+      }
+    });
+  }
+}
+
+/**
+ * Download a recording's chunks and join them into one playable blob.
+ * MediaRecorder chunks are fragments of a single WebM stream, so plain
+ * concatenation in order is enough.
+ */
+export const loadRecordingBlob = async (recording: MeetingRecordingRow) => {
+  const { data: chunks, error } = await supabase
+    .from('meeting_recording_chunks')
+    .select('seq, storage_path')
+    .eq('recording_id', recording.id)
+    .order('seq', { ascending: true });
+
+  if (error) throw error;
+  if (!chunks || chunks.length === 0) throw new Error('Recording has no media');
+
+  const parts = await Promise.all(
+    chunks.map(async (chunk) => {
+      const { data, error: downloadError } = await supabase.storage
+        .from(RECORDINGS_BUCKET)
+        .download(chunk.storage_path);
+      if (downloadError) throw downloadError;
+      return data;
+    })
+  );
+
+  return new Blob(parts, { type: recording.mime_type });
+};
@@ -0,0 +1,131 @@
+// Keyset pagination over messages ordered by (created_at, id)
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+
+export type MessageRow = Database["public"]["Tables"]["messages"]["Row"];
+
+export interface MessageCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface MessagePage {
+  rows: MessageRow[];
+  hasMore: boolean;
+}
+
+export interface MessageContext {
+  rows: MessageRow[];
+  hasOlder: boolean;
+  hasNewer: boolean;
+  // Set when the requested message is a thread reply; rows then surround its root
+  threadRootId?: string;
+}
+
+export const MESSAGE_PAGE_SIZE = 50;
+export const MESSAGE_CONTEXT_RADIUS = 25;
+export const THREAD_REPLY_LIMIT = 200;
+
+export const toCursor = (row: Pick<MessageRow, 'created_at' | 'id'>): MessageCursor => ({
+  createdAt: row.created_at,
+  id: row.id,
+});
+
+// Timestamps contain ':' and '+', so quote them inside PostgREST logic trees
+const quote = (value: string) => `"${value}"`;
+
+/**
+ * Fetch one page of the main timeline (thread replies excluded) strictly
+ * before or after a cursor. Rows are always returned in ascending
+ * (created_at, id) order. Without a cursor the latest page is returned.
+ */
+export const fetchMessagePage = async (
+  conversationId: string,
+  { before, after, limit = MESSAGE_PAGE_SIZE }: { before?: MessageCursor; after?: MessageCursor; limit?: number } = {}
+): Promise<MessagePage> => {
+  const ascending = !!after;
+
+  let query = supabase
+    .from('messages')
+    .select('*')
+    .eq('conversation_id', conversationId)
+    .is('thread_root_id', null);
+
+  if (before) {
+    const createdAt = quote(before.createdAt);
+    query = query.or(`created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${before.id})`);
+  } else if (after) {
+    const createdAt = quote(after.createdAt);
+    query = query.or(`created_at.gt.${createdAt},and(created_at.eq.${createdAt},id.gt.${after.id})`);
+  }
+
+  // Fetch one extra row to know whether another page exists
+  const { data, error } = await query
+    .order('created_at', { ascending })
+    .order('id', { ascending })
+    .limit(limit + 1);
+
+  if (error) throw error;
+
+  const rows = (data || []).slice(0, limit);
+  if (!ascending) rows.reverse();
+
+  return { rows, hasMore: (data?.length || 0) > limit };
+};
+
+/**
+ * Fetch a message together with the messages surrounding it, so a chat
+ * can be opened scrolled to that message (e.g. from a search result).
+ * Returns null when the message does not exist in the conversation.
+ */
+export const fetchMessageContext = async (
+  conversationId: string,
+  messageId: string,
+  radius = MESSAGE_CONTEXT_RADIUS
+): Promise<MessageContext | null> => {
+  const { data: target, error } = await supabase
+    .from('messages')
+    .select('*')
+    .eq('conversation_id', conversationId)
+    .eq('id', messageId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!target) return null;
+
+  // Thread replies aren't on the main timeline, so open the history around their root
+  if (target.thread_root_id) {
+    const rootContext = await fetchMessageContext(conversationId, target.thread_root_id, radius);
+    return rootContext && { ...rootContext, threadRootId: target.thread_root_id };
+  }
+
+  const cursor = toCursor(target);
+  const [older, newer] = await Promise.all([
+    fetchMessagePage(conversationId, { before: cursor, limit: radius }),
+    fetchMessagePage(conversationId, { after: cursor, limit: radius }),
+  ]);
+
+  return {
+    rows: [...older.rows, target, ...newer.rows],
+    hasOlder: older.hasMore,
+    hasNewer: newer.hasMore,
+  };
+};
+
+// Fetch the replies of a side thread in ascending order
+export const fetchThreadReplies = async (
+  conversationId: string,
+  rootId: string
+): Promise<MessageRow[]> => {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('*')
+    .eq('conversation_id', conversationId)
+    .eq('thread_root_id', rootId)
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(THREAD_REPLY_LIMIT);
+
+  if (error) throw error;
+  return data || [];
+};
@@ -0,0 +1,28 @@
+// Automatic group moderation, run by the process-moderation-queue worker
+import { Tables } from "@/integrations/supabase/types";
+
+export type ModerationFlag = Tables<"moderation_flags">;
+
+export type ModerationCategory = 'spam' | 'harassment' | 'pii' | 'links';
+
+export const MODERATION_CATEGORIES: { value: ModerationCategory; label: string; description: string }[] = [
+  { value: 'spam', label: 'Spam', description: 'Advertising, scams and phishing' },
+  { value: 'harassment', label: 'Harassment', description: 'Insults, threats and hate speech' },
+  { value: 'pii', label: 'Personal data', description: 'Phone numbers, emails, card and bank numbers' },
+  { value: 'links', label: 'Links', description: 'Any web address' },
+];
+
+export const MUTE_DURATIONS: { minutes: number; label: string }[] = [
+  { minutes: 0, label: "Don't mute" },
+  { minutes: 10, label: '10 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 1440, label: '24 hours' },
+  { minutes: 10080, label: '7 days' },
+];
+
+export const categoryLabel = (category: string) =>
+  MODERATION_CATEGORIES.find(c => c.value === category)?.label ?? category;
+
+// Matches the exception raised by enforce_moderation_mute
+export const isModerationMuteError = (message?: string) =>
+  !!message?.includes('moderation_muted');
@@ -0,0 +1,89 @@
+// IndexedDB storage for data that has to survive being offline
+const DB_NAME = 'nexora-offline';
+const DB_VERSION = 1;
+
+export const OUTBOX_STORE = 'outbox';
+const CACHE_STORE = 'cache';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          const outbox = db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+          outbox.createIndex('conversationId', 'conversationId');
+        }
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Run a single request against an object store, e.g.
+ * `withStore(OUTBOX_STORE, 'readwrite', store => store.put(entry))`.
+ */
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const store = db.transaction(storeName, mode).objectStore(storeName);
+  return requestToPromise(run(store));
+};
+
+interface CacheRecord<T> {
+  key: string;
+  value: T;
+  savedAt: string;
+}
+
+export const readCache = async <T>(key: string): Promise<T | null> => {
+  try {
+    const record = await withStore<CacheRecord<T> | undefined>(CACHE_STORE, 'readonly', store => store.get(key));
+    return record ? record.value : null;
+  } catch (error) {
+    console.error('Error reading offline cache:', error);
+    return null;
+  }
+};
+
+export const writeCache = async <T>(key: string, value: T) => {
+  try {
+    await withStore(CACHE_STORE, 'readwrite', store =>
+      store.put({ key, value, savedAt: new Date().toISOString() } satisfies CacheRecord<T>)
+    );
+  } catch (error) {
+    console.error('Error writing offline cache:', error);
+  }
+};
+
+// On sign-out: cached history and unsent messages belong to the account that leaves
+export const clearOfflineData = async () => {
+  try {
+    await withStore(CACHE_STORE, 'readwrite', store => store.clear());
+    await withStore(OUTBOX_STORE, 'readwrite', store => store.clear());
+  } catch (error) {
+    console.error('Error clearing offline data:', error);
+  }
+};
@@ -0,0 +1,200 @@
+// Persistent outbox for text messages: queued locally, flushed when online
+import { supabase } from "@/integrations/supabase/client";
+import { MessageRow } from "@/utils/messagePagination";
+import { OUTBOX_STORE, withStore } from "@/utils/offlineStore";
+
+export type OutboxStatus = 'pending' | 'failed';
+
+export interface OutboxEntry {
+  // Client-generated message id, reused on every attempt so inserts are idempotent
+  id: string;
+  conversationId: string;
+  senderId: string;
+  content: string;
+  replyToId: string | null;
+  threadRootId: string | null;
+  createdAt: string;
+  status: OutboxStatus;
+  attempts: number;
+  lastError?: string;
+}
+
+export type OutboxEvent =
+  | { type: 'queued'; entry: OutboxEntry }
+  | { type: 'sent'; entry: OutboxEntry; row: MessageRow | null }
+  | { type: 'failed'; entry: OutboxEntry }
+  | { type: 'removed'; entry: OutboxEntry };
+
+type OutboxListener = (event: OutboxEvent) => void;
+
+// Retry delay after a network error while the browser still reports being online
+const RETRY_DELAY_MS = 15000;
+
+const listeners = new Set<OutboxListener>();
+let flushPromise: Promise<void> | null = null;
+let flushRequested = false;
+let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+
+const emit = (event: OutboxEvent) => {
+  listeners.forEach(listener => listener(event));
+};
+
+export const subscribeToOutbox = (listener: OutboxListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getOutboxEntries = async (conversationId?: string) => {
+  const entries = await withStore<OutboxEntry[]>(OUTBOX_STORE, 'readonly', store =>
+    conversationId ? store.index('conversationId').getAll(conversationId) : store.getAll()
+  );
+  return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+const putEntry = (entry: OutboxEntry) =>
+  withStore(OUTBOX_STORE, 'readwrite', store => store.put(entry));
+
+const deleteEntry = (id: string) =>
+  withStore(OUTBOX_STORE, 'readwrite', store => store.delete(id));
+
+// Fetch failures carry no Postgres error code; server-side rejections always do
+const isNetworkError = (error: { code?: string }) => !navigator.onLine || !error.code;
+
+const sendEntry = async (entry: OutboxEntry) => {
+  const { data, error } = await supabase
+    .from('messages')
+    .insert({
+      id: entry.id,
+      conversation_id: entry.conversationId,
+      sender_id: entry.senderId,
+      content: entry.content,
+      message_type: 'text',
+      reply_to_id: entry.replyToId,
+      thread_root_id: entry.threadRootId,
+    })
+    .select()
+    .single();
+
+  // A previous attempt already went through before the connection dropped
+  if (error?.code === '23505') {
+    return { row: null, error: null };
+  }
+  return { row: data, error };
+};
+
+/**
+ * Send all pending entries of the signed-in user in the order they were
+ * written. Stops at the first network error so later messages don't
+ * overtake earlier ones; server rejections mark the entry as failed.
+ */
+export const flushOutbox = (): Promise<void> => {
+  if (flushPromise) {
+    // Entries queued mid-flush are picked up by another pass afterwards
+    flushRequested = true;
+  } else {
+    flushPromise = (async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session || !navigator.onLine) return;
+
+      const entries = (await getOutboxEntries())
+        .filter(entry => entry.status === 'pending' && entry.senderId === session.user.id);
+
+      for (const entry of entries) {
+        const { row, error } = await sendEntry(entry);
+
+        if (!error) {
+          await deleteEntry(entry.id);
+          emit({ type: 'sent', entry, row });
+          continue;
+        }
+
+        if (isNetworkError(error)) {
+          await putEntry({ ...entry, attempts: entry.attempts + 1 });
+          scheduleRetry();
+          break;
+        }
+
+        console.error('Error sending queued message:', error);
+        const failed: OutboxEntry = {
+          ...entry,
+          status: 'failed',
+          attempts: entry.attempts + 1,
+          lastError: error.message,
+        };
+        await putEntry(failed);
+        emit({ type: 'failed', entry: failed });
+      }
+    })()
+      .catch(error => console.error('Error flushing outbox:', error))
+      .finally(() => {
+        flushPromise = null;
+        if (flushRequested) {
+          flushRequested = false;
+          flushOutbox();
+        }
+      });
+  }
+  return flushPromise;
+};
+
+const scheduleRetry = () => {
+  if (retryTimeout) return;
+  retryTimeout = setTimeout(() => {
+    retryTimeout = null;
+    flushOutbox();
+  }, RETRY_DELAY_MS);
+};
+
+export const enqueueMessage = async (
+  message: Pick<OutboxEntry, 'conversationId' | 'senderId' | 'content'> &
+    Partial<Pick<OutboxEntry, 'replyToId' | 'threadRootId'>>
+) => {
+  const entry: OutboxEntry = {
+    id: crypto.randomUUID(),
+    replyToId: null,
+    threadRootId: null,
+    ...message,
+    createdAt: new Date().toISOString(),
+    status: 'pending',
+    attempts: 0,
+  };
+
+  await putEntry(entry);
+  emit({ type: 'queued', entry });
+  flushOutbox();
+  return entry;
+};
+
+export const retryOutboxEntry = async (id: string) => {
+  const entry = await withStore<OutboxEntry | undefined>(OUTBOX_STORE, 'readonly', store => store.get(id));
+  if (!entry) return;
+
+  const pending: OutboxEntry = { ...entry, status: 'pending', lastError: undefined };
+  await putEntry(pending);
+  emit({ type: 'queued', entry: pending });
+  await flushOutbox();
+};
+
+export const discardOutboxEntry = async (id: string) => {
+  const entry = await withStore<OutboxEntry | undefined>(OUTBOX_STORE, 'readonly', store => store.get(id));
+  if (!entry) return;
+
+  await deleteEntry(id);
+  emit({ type: 'removed', entry });
+};
+
+// Flush on startup and whenever connectivity comes back; returns a cleanup function
+export const startOutboxAutoFlush = () => {
+  const handleOnline = () => {
+    flushOutbox();
+  };
+
+  window.addEventListener('online', handleOnline);
+  flushOutbox();
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+  };
+};
@@ -0,0 +1,34 @@
+// Send-later messages, posted by the process-scheduled-messages worker
+import { format } from "date-fns";
+import { Tables } from "@/integrations/supabase/types";
+
+export type ScheduledMessage = Tables<"scheduled_messages">;
+
+export type Recurrence = 'daily' | 'weekdays' | 'weekly' | 'monthly';
+
+export const RECURRENCE_OPTIONS: { value: Recurrence; label: string }[] = [
+  { value: 'daily', label: 'Every day' },
+  { value: 'weekdays', label: 'Every weekday' },
+  { value: 'weekly', label: 'Every week' },
+  { value: 'monthly', label: 'Every month' },
+];
+
+// Recurrences repeat at the same local time in the timezone they were scheduled from
+export const browserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const describeSchedule = (message: Pick<ScheduledMessage, 'send_at' | 'recurrence' | 'recurrence_day'>) => {
+  const sendAt = new Date(message.send_at);
+  switch (message.recurrence) {
+    case 'daily':
+      return `Every day at ${format(sendAt, 'p')}`;
+    case 'weekdays':
+      return `Weekdays at ${format(sendAt, 'p')}`;
+    case 'weekly':
+      return `Every ${format(sendAt, 'EEEE')} at ${format(sendAt, 'p')}`;
+    case 'monthly':
+      // In shorter months send_at falls before the day the schedule was set for
+      return `Monthly on the ${format(message.recurrence_day ? new Date(2000, 0, message.recurrence_day) : sendAt, 'do')} at ${format(sendAt, 'p')}`;
+    default:
+      return format(sendAt, 'PPp');
+  }
+};
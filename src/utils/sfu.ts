@@ -0,0 +1,309 @@
+// Selective forwarding (SFU) mode for group calls. Each participant sends one
+// upstream (optionally simulcast) to the SFU and receives everyone else's
+// media over a single downstream connection, instead of a full mesh.
+import { createLocalSfuTransport } from "@/utils/localSfu";
+
+export type SimulcastLayer = 'low' | 'medium' | 'high';
+
+export type SfuTarget = 'publisher' | 'subscriber';
+
+export type SfuClientMessage =
+  | { type: 'join'; roomId: string; participantId: string; accessToken?: string }
+  | { type: 'offer'; sdp: string }
+  | { type: 'answer'; sdp: string }
+  | { type: 'candidate'; target: SfuTarget; candidate: RTCIceCandidateInit }
+  | { type: 'set-layer'; participantId: string; layer: SimulcastLayer }
+  | { type: 'restart-request' }
+  | { type: 'leave' };
+
+export type SfuServerMessage =
+  | { type: 'joined'; participants: string[]; simulcast: boolean }
+  | { type: 'answer'; sdp: string }
+  | { type: 'offer'; sdp: string }
+  | { type: 'candidate'; target: SfuTarget; candidate: RTCIceCandidateInit }
+  // Sent before the offer that carries the stream, so tracks can be attributed
+  | { type: 'stream'; participantId: string; streamId: string }
+  | { type: 'participant-left'; participantId: string }
+  | { type: 'error'; message: string };
+
+/**
+ * Message channel between a call participant and the SFU. The default
+ * implementation speaks JSON over a WebSocket; the local stand-in server
+ * provides an in-memory one.
+ */
+export interface SfuTransport {
+  send: (message: SfuClientMessage) => void;
+  onMessage: (handler: (message: SfuServerMessage) => void) => void;
+  close: () => void;
+}
+
+// ws(s):// URL of the SFU signaling endpoint, or "local" for the in-page stand-in
+const SFU_URL = import.meta.env.VITE_SFU_URL as string | undefined;
+
+// Calls with at least this many participants use the SFU; 1:1 calls always use mesh
+export const SFU_MIN_PARTICIPANTS = Math.max(3, Number(import.meta.env.VITE_SFU_MIN_PARTICIPANTS) || 3);
+
+// Encodings for the upstream camera track, lowest resolution first
+export const SIMULCAST_ENCODINGS: RTCRtpEncodingParameters[] = [
+  { rid: 'l', scaleResolutionDownBy: 4, maxBitrate: 150_000 },
+  { rid: 'm', scaleResolutionDownBy: 2, maxBitrate: 500_000 },
+  { rid: 'h', maxBitrate: 1_500_000 },
+];
+
+export const shouldUseSfu = (participantCount: number) =>
+  !!SFU_URL && participantCount >= SFU_MIN_PARTICIPANTS;
+
+const createWebSocketTransport = (url: string): SfuTransport => {
+  const socket = new WebSocket(url);
+  const queue: SfuClientMessage[] = [];
+  let handler: ((message: SfuServerMessage) => void) | null = null;
+
+  socket.onopen = () => {
+    queue.splice(0).forEach(message => socket.send(JSON.stringify(message)));
+  };
+  socket.onmessage = (event) => {
+    handler?.(JSON.parse(event.data));
+  };
+  socket.onerror = () => {
+    handler?.({ type: 'error', message: 'SFU connection error' });
+  };
+
+  return {
+    send: (message) => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+      } else {
+        queue.push(message);
+      }
+    },
+    onMessage: (next) => {
+      handler = next;
+    },
+    close: () => socket.close(),
+  };
+};
+
+export const createSfuTransport = (): SfuTransport => {
+  if (!SFU_URL) {
+    throw new Error('VITE_SFU_URL is not configured');
+  }
+  return SFU_URL === 'local' ? createLocalSfuTransport() : createWebSocketTransport(SFU_URL);
+};
+
+interface SfuSessionOptions {
+  transport: SfuTransport;
+  roomId: string;
+  participantId: string;
+  accessToken?: string;
+  iceServers: RTCIceServer[];
+  onStream: (participantId: string, stream: MediaStream) => void;
+  onParticipantLeft: (participantId: string) => void;
+  onConnectionStateChange: (state: RTCPeerConnectionState) => void;
+}
+
+// How long to wait for the SFU to accept the join before falling back to mesh
+const JOIN_TIMEOUT_MS = 10000;
+
+/**
+ * Client side of an SFU call: a publisher connection carrying our media
+ * up and a subscriber connection, offered by the SFU, carrying everyone
+ * else's media down.
+ */
+export class SfuSession {
+  private publisher: RTCPeerConnection | null = null;
+  private subscriber: RTCPeerConnection | null = null;
+  private pendingCandidates: Record<SfuTarget, RTCIceCandidateInit[]> = { publisher: [], subscriber: [] };
+  // Stream id -> participant, announced by the SFU before each offer
+  private streamOwners = new Map<string, string>();
+  // Receiver track id -> participant, for audio levels
+  private trackOwners = new Map<string, string>();
+  private joinResolver: ((message: Extract<SfuServerMessage, { type: 'joined' }>) => void) | null = null;
+  private joinRejecter: ((error: Error) => void) | null = null;
+  private signalingChain: Promise<void> = Promise.resolve();
+  private simulcast = false;
+
+  constructor(private options: SfuSessionOptions) {
+    options.transport.onMessage((message) => {
+      // Keep SDP handling in arrival order
+      this.signalingChain = this.signalingChain
+        .then(() => this.handleMessage(message))
+        .catch(error => console.error('Error handling SFU message:', error));
+    });
+  }
+
+  get supportsSimulcast() {
+    return this.simulcast;
+  }
+
+  async join(stream: MediaStream) {
+    const { transport, roomId, participantId, accessToken } = this.options;
+
+    const joined = await new Promise<Extract<SfuServerMessage, { type: 'joined' }>>((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('Timed out joining SFU room')), JOIN_TIMEOUT_MS);
+      this.joinResolver = (message) => {
+        clearTimeout(timeout);
+        resolve(message);
+      };
+      this.joinRejecter = (error) => {
+        clearTimeout(timeout);
+        reject(error);
+      };
+      transport.send({ type: 'join', roomId, participantId, accessToken });
+    });
+
+    this.simulcast = joined.simulcast;
+    this.subscriber = this.createConnection('subscriber');
+    this.subscriber.ontrack = (event) => {
+      const remoteStream = event.streams[0];
+      const owner = remoteStream && this.streamOwners.get(remoteStream.id);
+      if (!owner) {
+        console.warn('Received SFU track for unknown stream:', remoteStream?.id);
+        return;
+      }
+      this.trackOwners.set(event.track.id, owner);
+      this.options.onStream(owner, remoteStream);
+    };
+
+    this.publisher = this.createConnection('publisher');
+    stream.getTracks().forEach(track => {
+      this.publisher!.addTransceiver(track, {
+        direction: 'sendonly',
+        streams: [stream],
+        sendEncodings: track.kind === 'video' && this.simulcast ? SIMULCAST_ENCODINGS : undefined,
+      });
+    });
+    await this.sendPublisherOffer();
+  }
+
+  setPreferredLayer(participantId: string, layer: SimulcastLayer) {
+    if (!this.simulcast) return;
+    this.options.transport.send({ type: 'set-layer', participantId, layer });
+  }
+
+  // Current audio level (0..1) of each remote participant, for active-speaker detection
+  getAudioLevels() {
+    const levels = new Map<string, number>();
+    this.subscriber?.getReceivers().forEach(receiver => {
+      if (receiver.track?.kind !== 'audio') return;
+      const owner = this.trackOwners.get(receiver.track.id);
+      const level = receiver.getSynchronizationSources()[0]?.audioLevel;
+      if (owner && level !== undefined) {
+        levels.set(owner, Math.max(levels.get(owner) ?? 0, level));
+      }
+    });
+    return levels;
+  }
+
+  getConnection(target: SfuTarget) {
+    return target === 'publisher' ? this.publisher : this.subscriber;
+  }
+
+  leave() {
+    this.joinRejecter?.(new Error('Left SFU room'));
+    this.options.transport.send({ type: 'leave' });
+    this.options.transport.close();
+    this.publisher?.close();
+    this.subscriber?.close();
+    this.publisher = null;
+    this.subscriber = null;
+  }
+
+  private createConnection(target: SfuTarget) {
+    const pc = new RTCPeerConnection({ iceServers: this.options.iceServers });
+
+    pc.onicecandidate = (event) => {
+      if (event.candidate) {
+        this.options.transport.send({ type: 'candidate', target, candidate: event.candidate.toJSON() });
+      }
+    };
+
+    pc.onconnectionstatechange = () => {
+      console.log(`🔗 SFU ${target} connection state:`, pc.connectionState);
+      if (target === 'subscriber') {
+        this.options.onConnectionStateChange(pc.connectionState);
+      }
+      if (pc.connectionState === 'failed') {
+        this.restartIce(target);
+      }
+    };
+
+    return pc;
+  }
+
+  private async sendPublisherOffer(iceRestart = false) {
+    if (!this.publisher) return;
+    const offer = await this.publisher.createOffer({ iceRestart });
+    await this.publisher.setLocalDescription(offer);
+    this.options.transport.send({ type: 'offer', sdp: offer.sdp ?? '' });
+  }
+
+  private restartIce(target: SfuTarget) {
+    console.error(`❌ SFU ${target} connection failed, restarting ICE`);
+    if (target === 'publisher') {
+      this.sendPublisherOffer(true).catch(error => console.error('Error restarting SFU publisher:', error));
+    } else {
+      // The SFU offers the subscriber connection, so it has to restart it
+      this.options.transport.send({ type: 'restart-request' });
+    }
+  }
+
+  private async addCandidate(target: SfuTarget, candidate: RTCIceCandidateInit) {
+    const pc = target === 'publisher' ? this.publisher : this.subscriber;
+    if (pc?.remoteDescription) {
+      await pc.addIceCandidate(candidate);
+    } else {
+      this.pendingCandidates[target].push(candidate);
+    }
+  }
+
+  private async flushCandidates(target: SfuTarget, pc: RTCPeerConnection) {
+    const pending = this.pendingCandidates[target].splice(0);
+    for (const candidate of pending) {
+      await pc.addIceCandidate(candidate);
+    }
+  }
+
+  private async handleMessage(message: SfuServerMessage) {
+    switch (message.type) {
+      case 'joined':
+        this.joinResolver?.(message);
+        this.joinResolver = null;
+        this.joinRejecter = null;
+        break;
+      case 'answer':
+        if (!this.publisher) return;
+        await this.publisher.setRemoteDescription({ type: 'answer', sdp: message.sdp });
+        await this.flushCandidates('publisher', this.publisher);
+        break;
+      case 'offer': {
+        if (!this.subscriber) return;
+        await this.subscriber.setRemoteDescription({ type: 'offer', sdp: message.sdp });
+        await this.flushCandidates('subscriber', this.subscriber);
+        const answer = await this.subscriber.createAnswer();
+        await this.subscriber.setLocalDescription(answer);
+        this.options.transport.send({ type: 'answer', sdp: answer.sdp ?? '' });
+        break;
+      }
+      case 'candidate':
+        await this.addCandidate(message.target, message.candidate);
+        break;
+      case 'stream':
+        this.streamOwners.set(message.streamId, message.participantId);
+        break;
+      case 'participant-left':
+        this.streamOwners.forEach((owner, streamId) => {
+          if (owner === message.participantId) this.streamOwners.delete(streamId);
+        });
+        this.options.onParticipantLeft(message.participantId);
+        break;
+      case 'error':
+        console.error('SFU error:', message.message);
+        if (this.joinRejecter) {
+          this.joinRejecter(new Error(message.message));
+          this.joinResolver = null;
+          this.joinRejecter = null;
+        }
+        break;
+    }
+  }
+}
@@ -0,0 +1,59 @@
+// Payloads of location and contact-card messages, kept in messages.metadata
+import { Json } from "@/integrations/supabase/types";
+
+export interface LocationPayload {
+  latitude: number;
+  longitude: number;
+  label?: string;
+}
+
+export interface ContactPayload {
+  name: string;
+  phone?: string;
+  email?: string;
+  // Set when the card is for someone on Nexora
+  user_id?: string;
+}
+
+// Rendered by their own components instead of as plain text
+export const STRUCTURED_MESSAGE_TYPES = ['poll', 'checklist', 'location', 'contact'] as const;
+
+export const isStructuredMessageType = (type: string | undefined) =>
+  !!type && (STRUCTURED_MESSAGE_TYPES as readonly string[]).includes(type);
+
+const isObject = (value: Json | undefined): value is { [key: string]: Json | undefined } =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+export const parseLocation = (metadata: Json | undefined): LocationPayload | null => {
+  if (!isObject(metadata) || typeof metadata.latitude !== 'number' || typeof metadata.longitude !== 'number') {
+    return null;
+  }
+  return {
+    latitude: metadata.latitude,
+    longitude: metadata.longitude,
+    label: typeof metadata.label === 'string' ? metadata.label : undefined,
+  };
+};
+
+export const parseContact = (metadata: Json | undefined): ContactPayload | null => {
+  if (!isObject(metadata) || typeof metadata.name !== 'string') return null;
+  return {
+    name: metadata.name,
+    phone: typeof metadata.phone === 'string' ? metadata.phone : undefined,
+    email: typeof metadata.email === 'string' ? metadata.email : undefined,
+    user_id: typeof metadata.user_id === 'string' ? metadata.user_id : undefined,
+  };
+};
+
+export const checklistTitle = (metadata: Json | undefined) =>
+  isObject(metadata) && typeof metadata.title === 'string' ? metadata.title : 'Checklist';
+
+export const mapUrl = (location: LocationPayload) =>
+  `https://www.openstreetmap.org/?mlat=${location.latitude}&mlon=${location.longitude}#map=16/${location.latitude}/${location.longitude}`;
+
+// Plain-text content stored alongside the payload for search, exports and older clients
+export const locationContent = (location: LocationPayload) =>
+  `Location: ${location.label ? `${location.label} ` : ''}${mapUrl(location)}`;
+
+export const contactContent = (contact: ContactPayload) =>
+  `Contact: ${[contact.name, contact.phone, contact.email].filter(Boolean).join(', ')}`;
@@ -0,0 +1,458 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+
+/**
+ * Chat completion client shared by every AI edge function. The backend is
+ * chosen with AI_PROVIDER:
+ *
+ * - `openai` (default): any OpenAI-compatible API at AI_BASE_URL with
+ *   AI_API_KEY, falling back to the Lovable gateway and LOVABLE_API_KEY.
+ * - `local`: an Ollama or llama.cpp server's OpenAI-compatible endpoint at
+ *   AI_LOCAL_URL (default http://localhost:11434/v1), no key needed.
+ * - `mock`: deterministic canned output for tests and offline development.
+ *
+ * The model defaults to AI_MODEL and can be overridden per feature with
+ * AI_MODEL_<FEATURE>, e.g. AI_MODEL_TRANSLATE or AI_MODEL_GROUP_BOT.
+ * Rate limits and 5xx responses are retried with exponential backoff, and
+ * token usage is written to ai_usage with the service role.
+ */
+
+export type AiFeature =
+  | 'translate'
+  | 'detect-language'
+  | 'summarize'
+  | 'group-bot'
+  | 'emotion'
+  | 'reply-suggestions'
+  | 'moderation'
+  | 'chat';
+
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+export interface AiMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+}
+
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface ChatRequest {
+  messages: AiMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  tools?: ToolDefinition[];
+  toolChoice?: 'auto' | 'none' | { type: 'function'; function: { name: string } };
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatResult {
+  content: string | null;
+  toolCalls: ToolCall[];
+  usage: TokenUsage;
+  model: string;
+}
+
+export type AiErrorCode = 'rate_limited' | 'payment_required' | 'not_configured' | 'provider_error' | 'invalid_response';
+
+export class AiProviderError extends Error {
+  constructor(
+    message: string,
+    public code: AiErrorCode,
+    public status: number,
+    public retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = 'AiProviderError';
+  }
+}
+
+interface AiProvider {
+  name: string;
+  defaultModel: string;
+  chat(model: string, request: ChatRequest): Promise<ChatResult>;
+  // Resolves once the upstream stream is open; the body is OpenAI-style SSE
+  chatStream(model: string, request: ChatRequest): Promise<ReadableStream<Uint8Array>>;
+}
+
+const DEFAULT_MODEL = 'google/gemini-2.5-flash';
+const DEFAULT_LOCAL_MODEL = 'llama3.1';
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 8000;
+
+const EMPTY_USAGE: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const toUsage = (usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number }): TokenUsage => ({
+  promptTokens: usage?.prompt_tokens ?? 0,
+  completionTokens: usage?.completion_tokens ?? 0,
+  totalTokens: usage?.total_tokens ?? (usage?.prompt_tokens ?? 0) + (usage?.completion_tokens ?? 0),
+});
+
+const errorForStatus = (status: number, retryAfter: string | null, detail: string) => {
+  const retryAfterSeconds = retryAfter ? Number(retryAfter) || undefined : undefined;
+  if (status === 429) {
+    return new AiProviderError('Rate limits exceeded, please try again later.', 'rate_limited', 429, retryAfterSeconds);
+  }
+  if (status === 402) {
+    return new AiProviderError('AI credits exhausted. Please add credits to continue.', 'payment_required', 402);
+  }
+  console.error('AI provider error:', status, detail);
+  return new AiProviderError(`AI provider error: ${status}`, 'provider_error', status >= 500 ? 502 : 500);
+};
+
+const isRetryable = (error: unknown) =>
+  !(error instanceof AiProviderError) ||
+  error.code === 'rate_limited' ||
+  (error.code === 'provider_error' && error.status === 502);
+
+/**
+ * Retry 429s, 5xx responses and network failures with exponential backoff
+ * and jitter, honouring Retry-After when the provider sends one.
+ */
+async function withRetries<T>(operation: () => Promise<T>, maxRetries: number): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryable(error)) throw error;
+
+      const retryAfterMs = error instanceof AiProviderError && error.retryAfterSeconds
+        ? error.retryAfterSeconds * 1000
+        : 0;
+      const backoffMs = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt) * (0.5 + Math.random() / 2);
+      const delay = Math.max(retryAfterMs, backoffMs);
+      console.warn(`AI request failed, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${maxRetries})`);
+      await sleep(delay);
+    }
+  }
+}
+
+class OpenAiCompatibleProvider implements AiProvider {
+  constructor(
+    public name: string,
+    private baseUrl: string,
+    private apiKey: string | undefined,
+    public defaultModel: string
+  ) {}
+
+  private async post(body: Record<string, unknown>) {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw errorForStatus(response.status, response.headers.get('retry-after'), await response.text());
+    }
+    return response;
+  }
+
+  private buildBody(model: string, request: ChatRequest) {
+    return {
+      model,
+      messages: request.messages,
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+      ...(request.tools && { tools: request.tools }),
+      ...(request.toolChoice && { tool_choice: request.toolChoice }),
+    };
+  }
+
+  async chat(model: string, request: ChatRequest): Promise<ChatResult> {
+    const response = await this.post(this.buildBody(model, request));
+    const data = await response.json();
+    const message = data.choices?.[0]?.message;
+    if (!message) {
+      throw new AiProviderError('AI provider returned no choices', 'invalid_response', 502);
+    }
+
+    return {
+      content: message.content ?? null,
+      toolCalls: message.tool_calls ?? [],
+      usage: toUsage(data.usage),
+      model: data.model ?? model,
+    };
+  }
+
+  async chatStream(model: string, request: ChatRequest) {
+    const response = await this.post({
+      ...this.buildBody(model, request),
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    if (!response.body) {
+      throw new AiProviderError('AI provider returned an empty stream', 'invalid_response', 502);
+    }
+    return response.body;
+  }
+}
+
+/**
+ * Deterministic stand-in for a real model. AI_MOCK_RESPONSES may hold a
+ * JSON object of canned replies keyed by feature; otherwise the last user
+ * message is echoed back. Forced tool calls get arguments built from the
+ * tool's JSON schema so structured-output callers keep working.
+ */
+class MockProvider implements AiProvider {
+  name = 'mock';
+  defaultModel = 'mock';
+
+  constructor(private feature: AiFeature, private cannedResponses: Record<string, string>) {}
+
+  private reply(request: ChatRequest) {
+    if (this.cannedResponses[this.feature] !== undefined) return this.cannedResponses[this.feature];
+    const lastUser = [...request.messages].reverse().find(message => message.role === 'user');
+    return `Mock response: ${lastUser?.content ?? ''}`;
+  }
+
+  private sampleFromSchema(schema: Record<string, unknown>): unknown {
+    if (Array.isArray(schema.enum)) return schema.enum[0];
+    switch (schema.type) {
+      case 'object': {
+        const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+        return Object.fromEntries(
+          Object.entries(properties).map(([key, value]) => [key, this.sampleFromSchema(value)])
+        );
+      }
+      case 'array':
+        return [];
+      case 'number':
+      case 'integer':
+        return typeof schema.minimum === 'number' ? schema.minimum : 0;
+      case 'boolean':
+        return false;
+      default:
+        return 'mock';
+    }
+  }
+
+  private countTokens(text: string) {
+    return text.split(/\s+/).filter(Boolean).length;
+  }
+
+  chat(model: string, request: ChatRequest): Promise<ChatResult> {
+    const forced = typeof request.toolChoice === 'object'
+      ? request.tools?.find(tool => tool.function.name === (request.toolChoice as { function: { name: string } }).function.name)
+      : undefined;
+
+    const content = forced ? null : this.reply(request);
+    const toolCalls: ToolCall[] = forced
+      ? [{
+          id: 'mock-call-0',
+          type: 'function',
+          function: {
+            name: forced.function.name,
+            arguments: JSON.stringify(this.sampleFromSchema(forced.function.parameters)),
+          },
+        }]
+      : [];
+
+    const promptTokens = request.messages.reduce((sum, message) => sum + this.countTokens(message.content ?? ''), 0);
+    const completionTokens = this.countTokens(content ?? toolCalls[0]?.function.arguments ?? '');
+
+    return Promise.resolve({
+      content,
+      toolCalls,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      model,
+    });
+  }
+
+  async chatStream(model: string, request: ChatRequest) {
+    const { content, usage } = await this.chat(model, { ...request, tools: undefined, toolChoice: undefined });
+    const words = (content ?? '').split(/(?<=\s)/);
+    const encoder = new TextEncoder();
+    const events = [
+      ...words.map(word => ({ choices: [{ delta: { content: word } }] })),
+      {
+        choices: [],
+        usage: {
+          prompt_tokens: usage.promptTokens,
+          completion_tokens: usage.completionTokens,
+          total_tokens: usage.totalTokens,
+        },
+      },
+    ];
+
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        events.forEach(event => controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`)));
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      },
+    });
+  }
+}
+
+const createProvider = (feature: AiFeature): AiProvider => {
+  const providerName = (Deno.env.get('AI_PROVIDER') ?? 'openai').toLowerCase();
+
+  switch (providerName) {
+    case 'mock': {
+      let canned: Record<string, string> = {};
+      try {
+        canned = JSON.parse(Deno.env.get('AI_MOCK_RESPONSES') ?? '{}');
+      } catch {
+        console.warn('AI_MOCK_RESPONSES is not valid JSON, ignoring');
+      }
+      return new MockProvider(feature, canned);
+    }
+    case 'local':
+      return new OpenAiCompatibleProvider(
+        'local',
+        Deno.env.get('AI_LOCAL_URL') ?? 'http://localhost:11434/v1',
+        Deno.env.get('AI_LOCAL_API_KEY'),
+        DEFAULT_LOCAL_MODEL
+      );
+    case 'openai': {
+      const apiKey = Deno.env.get('AI_API_KEY') ?? Deno.env.get('LOVABLE_API_KEY');
+      if (!apiKey) {
+        throw new AiProviderError('AI_API_KEY is not configured', 'not_configured', 500);
+      }
+      return new OpenAiCompatibleProvider(
+        'openai',
+        Deno.env.get('AI_BASE_URL') ?? 'https://ai.gateway.lovable.dev/v1',
+        apiKey,
+        DEFAULT_MODEL
+      );
+    }
+    default:
+      throw new AiProviderError(`Unknown AI_PROVIDER "${providerName}"`, 'not_configured', 500);
+  }
+};
+
+const modelFor = (feature: AiFeature, provider: AiProvider) =>
+  Deno.env.get(`AI_MODEL_${feature.toUpperCase().replace(/-/g, '_')}`) ??
+  Deno.env.get('AI_MODEL') ??
+  provider.defaultModel;
+
+export interface AiClientOptions {
+  feature: AiFeature;
+  // Who the tokens are billed to, for ai_usage
+  userId?: string;
+}
+
+export interface AiClient {
+  provider: string;
+  model: string;
+  chat(request: ChatRequest): Promise<ChatResult>;
+  // Plain text of the first choice, trimmed; throws when the model returns nothing
+  complete(request: ChatRequest): Promise<string>;
+  chatStream(request: ChatRequest): Promise<ReadableStream<Uint8Array>>;
+}
+
+export const createAiClient = ({ feature, userId }: AiClientOptions): AiClient => {
+  const provider = createProvider(feature);
+  const model = modelFor(feature, provider);
+  const maxRetries = Number(Deno.env.get('AI_MAX_RETRIES') ?? 3);
+
+  const recordUsage = async (usage: TokenUsage, usedModel: string) => {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!supabaseUrl || !serviceKey || usage.totalTokens === 0) return;
+
+    const { error } = await createClient(supabaseUrl, serviceKey).from('ai_usage').insert({
+      user_id: userId ?? null,
+      feature,
+      provider: provider.name,
+      model: usedModel,
+      prompt_tokens: usage.promptTokens,
+      completion_tokens: usage.completionTokens,
+      total_tokens: usage.totalTokens,
+    });
+    if (error) console.error('Error recording AI usage:', error);
+  };
+
+  const chat = async (request: ChatRequest) => {
+    const result = await withRetries(() => provider.chat(model, request), maxRetries);
+    await recordUsage(result.usage, result.model);
+    return result;
+  };
+
+  return {
+    provider: provider.name,
+    model,
+    chat,
+    async complete(request) {
+      const { content } = await chat(request);
+      const text = content?.trim();
+      if (!text) {
+        throw new AiProviderError('AI provider returned an empty response', 'invalid_response', 502);
+      }
+      return text;
+    },
+    async chatStream(request) {
+      const upstream = await withRetries(() => provider.chatStream(model, request), maxRetries);
+
+      // Pass the stream through untouched while picking the usage chunk out of it
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let usage: TokenUsage = EMPTY_USAGE;
+
+      return upstream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          controller.enqueue(chunk);
+          buffer += decoder.decode(chunk, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() ?? '';
+          for (const line of lines) {
+            if (!line.startsWith('data: ') || line.includes('[DONE]')) continue;
+            try {
+              const event = JSON.parse(line.slice(6));
+              if (event.usage) usage = toUsage(event.usage);
+            } catch {
+              // Partial or non-JSON lines aren't ours to handle
+            }
+          }
+        },
+        async flush() {
+          await recordUsage(usage, model);
+        },
+      }));
+    },
+  };
+};
+
+/**
+ * Uniform JSON error for AI failures: `{ error, code }` with a matching
+ * status, plus any fallback fields the caller's clients expect.
+ */
+export const aiErrorResponse = (
+  error: unknown,
+  corsHeaders: Record<string, string>,
+  fallback: Record<string, unknown> = {}
+) => {
+  const aiError = error instanceof AiProviderError
+    ? error
+    : new AiProviderError(error instanceof Error ? error.message : 'Unknown error', 'provider_error', 500);
+
+  const headers: Record<string, string> = { ...corsHeaders, 'Content-Type': 'application/json' };
+  if (aiError.retryAfterSeconds) headers['Retry-After'] = String(aiError.retryAfterSeconds);
+
+  return new Response(
+    JSON.stringify({ ...fallback, error: aiError.message, code: aiError.code }),
+    { status: aiError.status, headers }
+  );
+};
@@ -0,0 +1,511 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+
+/**
+ * Subscription billing behind a provider interface. The backend is chosen
+ * with BILLING_PROVIDER:
+ *
+ * - `stripe` (default): Stripe Checkout and the customer portal with
+ *   STRIPE_SECRET_KEY, the prices STRIPE_PRICE_PREMIUM and
+ *   STRIPE_PRICE_ENTERPRISE (per seat), and webhooks signed with
+ *   STRIPE_WEBHOOK_SECRET.
+ * - `fake`: settles checkouts at once without taking payment, for tests and
+ *   offline development. Its events have Stripe's shape, and billing-webhook
+ *   accepts them signed the Stripe way with BILLING_FAKE_WEBHOOK_SECRET.
+ *
+ * applyBillingEvent is the only writer of user_subscriptions.
+ */
+
+export type PaidPlan = 'premium' | 'enterprise';
+
+export const PAID_PLANS: PaidPlan[] = ['premium', 'enterprise'];
+export const GRACE_PERIOD_DAYS = 7;
+export const MAX_SEATS = 1000;
+
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+const FAKE_PERIOD_DAYS = 30;
+const DAY_MS = 24 * 60 * 60_000;
+
+// The parts of a Stripe subscription object the app reads
+export interface ProviderSubscription {
+  id: string;
+  customer: string;
+  status: string;
+  // Unix seconds
+  created: number;
+  metadata: Record<string, string | undefined>;
+  items: { data: { id: string; quantity?: number; current_period_end?: number }[] };
+  // Moved onto the items in newer API versions
+  current_period_end?: number;
+  trial_end: number | null;
+  cancel_at_period_end: boolean;
+}
+
+interface ProviderInvoice {
+  subscription?: string | null;
+  parent?: { subscription_details?: { subscription?: string } };
+}
+
+export interface BillingEvent {
+  id: string;
+  type: string;
+  data: { object: ProviderSubscription | ProviderInvoice };
+}
+
+export interface CheckoutOptions {
+  userId: string;
+  email?: string;
+  customerId: string | null;
+  plan: PaidPlan;
+  seats: number;
+  trialDays: number;
+  organizationId: string | null;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  url: string;
+  // The fake settles at once and hands back the events Stripe would send
+  events: BillingEvent[];
+}
+
+export interface BillingProvider {
+  name: string;
+  createCheckout(options: CheckoutOptions): Promise<CheckoutSession>;
+  createPortal(customerId: string, returnUrl: string): Promise<string>;
+  updateSeats(subscriptionId: string, seats: number): Promise<BillingEvent[]>;
+  cancelAtPeriodEnd(subscriptionId: string): Promise<BillingEvent[]>;
+  verifyWebhook(payload: string, signature: string | null): Promise<BillingEvent>;
+}
+
+export class BillingError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'BillingError';
+  }
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  [...new Uint8Array(buffer)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+const timingSafeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+/**
+ * Checks a Stripe-Signature header (`t=<timestamp>,v1=<hmac>`): an
+ * HMAC-SHA256 of `<timestamp>.<payload>` with the endpoint's secret, recent
+ * enough that a captured delivery can't be replayed later.
+ */
+async function verifySignedEvent(payload: string, header: string | null, secret: string): Promise<BillingEvent> {
+  if (!header) throw new BillingError('Missing webhook signature', 400);
+
+  const pairs = header.split(',').map(part => part.split('=', 2) as [string, string]);
+  const timestamp = pairs.find(([key]) => key === 't')?.[1];
+  const signatures = pairs.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+  if (!timestamp || Math.abs(Date.now() / 1000 - Number(timestamp)) > SIGNATURE_TOLERANCE_SECONDS) {
+    throw new BillingError('Webhook signature has expired', 400);
+  }
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const expected = toHex(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${payload}`)));
+
+  if (!signatures.some(signature => timingSafeEqual(signature, expected))) {
+    throw new BillingError('Invalid webhook signature', 400);
+  }
+
+  return JSON.parse(payload) as BillingEvent;
+}
+
+type FormParams = Record<string, string | number | boolean | null | undefined>;
+
+class StripeProvider implements BillingProvider {
+  name = 'stripe';
+
+  constructor(private secretKey: string, private webhookSecret: string | undefined) {}
+
+  private async request<T>(method: 'GET' | 'POST', path: string, params: FormParams = {}): Promise<T> {
+    const body = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== null && value !== undefined) body.append(key, String(value));
+    }
+
+    const response = await fetch(`https://api.stripe.com/v1/${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.secretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: method === 'POST' ? body : undefined,
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      console.error('Stripe error:', response.status, result?.error?.message);
+      throw new BillingError(result?.error?.message ?? `Stripe error: ${response.status}`, response.status >= 500 ? 502 : 400);
+    }
+    return result as T;
+  }
+
+  private priceFor(plan: PaidPlan) {
+    const price = Deno.env.get(`STRIPE_PRICE_${plan.toUpperCase()}`);
+    if (!price) throw new BillingError(`STRIPE_PRICE_${plan.toUpperCase()} is not configured`, 500);
+    return price;
+  }
+
+  async createCheckout(options: CheckoutOptions): Promise<CheckoutSession> {
+    const session = await this.request<{ url: string }>('POST', 'checkout/sessions', {
+      mode: 'subscription',
+      customer: options.customerId,
+      customer_email: options.customerId ? undefined : options.email,
+      client_reference_id: options.userId,
+      'line_items[0][price]': this.priceFor(options.plan),
+      'line_items[0][quantity]': options.seats,
+      'subscription_data[metadata][user_id]': options.userId,
+      'subscription_data[metadata][plan]': options.plan,
+      'subscription_data[metadata][organization_id]': options.organizationId,
+      'subscription_data[trial_period_days]': options.trialDays || undefined,
+      success_url: options.successUrl,
+      cancel_url: options.cancelUrl,
+    });
+
+    return { url: session.url, events: [] };
+  }
+
+  async createPortal(customerId: string, returnUrl: string) {
+    const session = await this.request<{ url: string }>('POST', 'billing_portal/sessions', {
+      customer: customerId,
+      return_url: returnUrl,
+    });
+    return session.url;
+  }
+
+  // Stripe confirms the change with a customer.subscription.updated webhook
+  async updateSeats(subscriptionId: string, seats: number) {
+    const subscription = await this.request<ProviderSubscription>('GET', `subscriptions/${subscriptionId}`);
+    await this.request('POST', `subscriptions/${subscriptionId}`, {
+      'items[0][id]': subscription.items.data[0]?.id,
+      'items[0][quantity]': seats,
+      proration_behavior: 'create_prorations',
+    });
+    return [];
+  }
+
+  async cancelAtPeriodEnd(subscriptionId: string) {
+    await this.request('POST', `subscriptions/${subscriptionId}`, { cancel_at_period_end: true });
+    return [];
+  }
+
+  verifyWebhook(payload: string, signature: string | null) {
+    if (!this.webhookSecret) throw new BillingError('STRIPE_WEBHOOK_SECRET is not configured', 500);
+    return verifySignedEvent(payload, signature, this.webhookSecret);
+  }
+}
+
+const toUnix = (iso: string | null) => (iso ? Math.floor(new Date(iso).getTime() / 1000) : null);
+
+// Keeps no state of its own: subscriptions are rebuilt from user_subscriptions
+class FakeProvider implements BillingProvider {
+  name = 'fake';
+
+  constructor(private supabase: SupabaseClient, private webhookSecret: string | undefined) {}
+
+  private event(type: string, subscription: ProviderSubscription): BillingEvent {
+    return { id: `evt_fake_${crypto.randomUUID()}`, type, data: { object: subscription } };
+  }
+
+  private async load(subscriptionId: string): Promise<ProviderSubscription> {
+    const { data: row, error } = await this.supabase
+      .from('user_subscriptions')
+      .select('user_id, plan_type, status, started_at, expires_at, trial_ends_at, cancel_at_period_end, organization_id, provider_customer_id')
+      .eq('provider_subscription_id', subscriptionId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load subscription: ${error.message}`);
+    if (!row) throw new BillingError('Subscription not found', 404);
+
+    let seats = 1;
+    if (row.organization_id) {
+      const { data: organization } = await this.supabase
+        .from('billing_organizations')
+        .select('seat_limit')
+        .eq('id', row.organization_id)
+        .maybeSingle();
+      seats = organization?.seat_limit ?? 1;
+    }
+
+    return {
+      id: subscriptionId,
+      customer: row.provider_customer_id ?? '',
+      status: row.status,
+      created: toUnix(row.started_at) ?? 0,
+      metadata: { user_id: row.user_id, plan: row.plan_type, organization_id: row.organization_id ?? undefined },
+      items: { data: [{ id: `${subscriptionId}_item`, quantity: seats }] },
+      current_period_end: toUnix(row.expires_at) ?? undefined,
+      trial_end: toUnix(row.trial_ends_at),
+      cancel_at_period_end: row.cancel_at_period_end,
+    };
+  }
+
+  async createCheckout(options: CheckoutOptions): Promise<CheckoutSession> {
+    const trialEnd = options.trialDays ? Date.now() + options.trialDays * DAY_MS : null;
+    const periodEnd = trialEnd ?? Date.now() + FAKE_PERIOD_DAYS * DAY_MS;
+
+    const subscription: ProviderSubscription = {
+      id: `sub_fake_${crypto.randomUUID()}`,
+      customer: options.customerId ?? `cus_fake_${crypto.randomUUID()}`,
+      status: trialEnd ? 'trialing' : 'active',
+      created: Math.floor(Date.now() / 1000),
+      metadata: {
+        user_id: options.userId,
+        plan: options.plan,
+        organization_id: options.organizationId ?? undefined,
+      },
+      items: { data: [{ id: 'si_fake', quantity: options.seats }] },
+      current_period_end: Math.floor(periodEnd / 1000),
+      trial_end: trialEnd ? Math.floor(trialEnd / 1000) : null,
+      cancel_at_period_end: false,
+    };
+
+    return {
+      url: options.successUrl,
+      events: [this.event('customer.subscription.created', subscription)],
+    };
+  }
+
+  // Nothing to manage without a real provider
+  createPortal(_customerId: string, returnUrl: string) {
+    return Promise.resolve(returnUrl);
+  }
+
+  async updateSeats(subscriptionId: string, seats: number) {
+    const subscription = await this.load(subscriptionId);
+    subscription.items.data[0].quantity = seats;
+    return [this.event('customer.subscription.updated', subscription)];
+  }
+
+  async cancelAtPeriodEnd(subscriptionId: string) {
+    const subscription = await this.load(subscriptionId);
+    subscription.cancel_at_period_end = true;
+    return [this.event('customer.subscription.updated', subscription)];
+  }
+
+  verifyWebhook(payload: string, signature: string | null) {
+    if (!this.webhookSecret) throw new BillingError('BILLING_FAKE_WEBHOOK_SECRET is not configured', 500);
+    return verifySignedEvent(payload, signature, this.webhookSecret);
+  }
+}
+
+// Takes a service role client; the fake reads its state from the database
+export const createBillingProvider = (supabase: SupabaseClient): BillingProvider => {
+  const providerName = (Deno.env.get('BILLING_PROVIDER') ?? 'stripe').toLowerCase();
+
+  switch (providerName) {
+    case 'fake':
+      return new FakeProvider(supabase, Deno.env.get('BILLING_FAKE_WEBHOOK_SECRET'));
+    case 'stripe': {
+      const secretKey = Deno.env.get('STRIPE_SECRET_KEY');
+      if (!secretKey) throw new BillingError('STRIPE_SECRET_KEY is not configured', 500);
+      return new StripeProvider(secretKey, Deno.env.get('STRIPE_WEBHOOK_SECRET'));
+    }
+    default:
+      throw new BillingError(`Unknown BILLING_PROVIDER "${providerName}"`, 500);
+  }
+};
+
+const fromUnix = (seconds: number | null | undefined) =>
+  seconds ? new Date(seconds * 1000).toISOString() : null;
+
+const invoiceSubscriptionId = (invoice: ProviderInvoice) =>
+  invoice.subscription ?? invoice.parent?.subscription_details?.subscription ?? null;
+
+async function downgrade(supabase: SupabaseClient, userId: string, reason: string) {
+  const { error } = await supabase.rpc('downgrade_subscription', { _user_id: userId, _reason: reason });
+  if (error) throw new Error(`Failed to downgrade subscription: ${error.message}`);
+}
+
+async function findSubscriber(supabase: SupabaseClient, subscriptionId: string) {
+  const { data } = await supabase
+    .from('user_subscriptions')
+    .select('user_id')
+    .eq('provider_subscription_id', subscriptionId)
+    .maybeSingle();
+  return data?.user_id as string | undefined;
+}
+
+const SUBSCRIPTION_COLUMNS = 'user_id, plan_type, status, started_at, trial_ends_at, grace_period_ends_at, provider_subscription_id';
+
+/**
+ * Mirrors the provider's view of a subscription onto the user's row. Events
+ * can arrive late and out of order, so a subscription other than the one on
+ * the row is only taken up when it's new: the user has no subscription
+ * running and it was created after the row's last one started.
+ */
+async function syncSubscription(supabase: SupabaseClient, providerName: string, subscription: ProviderSubscription) {
+  const plan = subscription.metadata?.plan as PaidPlan;
+
+  const { data: current } = await supabase
+    .from('user_subscriptions')
+    .select(SUBSCRIPTION_COLUMNS)
+    .eq('provider_subscription_id', subscription.id)
+    .maybeSingle();
+
+  const userId = current?.user_id ?? subscription.metadata?.user_id;
+  if (!userId || !PAID_PLANS.includes(plan)) {
+    console.warn('Ignoring subscription without a user or plan:', subscription.id);
+    return;
+  }
+
+  const { data: existing } = current
+    ? { data: current }
+    : await supabase.from('user_subscriptions').select(SUBSCRIPTION_COLUMNS).eq('user_id', userId).maybeSingle();
+
+  const sameSubscription = !!current;
+  if (!sameSubscription) {
+    const hasSubscription = !!existing?.provider_subscription_id && existing.status !== 'canceled';
+    const isNewer = !existing?.started_at || subscription.created * 1000 > new Date(existing.started_at).getTime();
+    if (hasSubscription || !isNewer) {
+      console.warn('Ignoring event for a subscription the user no longer has:', subscription.id);
+      return;
+    }
+  }
+
+  // Not paid for yet: the first invoice is still open
+  if (subscription.status === 'incomplete') return;
+
+  const status = subscription.status === 'trialing'
+    ? 'trialing'
+    : subscription.status === 'past_due' || subscription.status === 'unpaid'
+      ? 'past_due'
+      : subscription.status === 'active' ? 'active' : null;
+
+  if (!status) {
+    // A new subscription that already ended has nothing to take away
+    if (sameSubscription) await downgrade(supabase, userId, `subscription ${subscription.status}`);
+    return;
+  }
+
+  const organizationId = plan === 'enterprise' ? subscription.metadata.organization_id ?? null : null;
+
+  const { error } = await supabase
+    .from('user_subscriptions')
+    .upsert({
+      user_id: userId,
+      plan_type: plan,
+      status,
+      started_at: sameSubscription && existing?.started_at ? existing.started_at : new Date().toISOString(),
+      expires_at: fromUnix(subscription.current_period_end ?? subscription.items.data[0]?.current_period_end),
+      // Kept after the trial so a user only gets one
+      trial_ends_at: fromUnix(subscription.trial_end) ?? existing?.trial_ends_at ?? null,
+      grace_period_ends_at: status === 'past_due'
+        ? existing?.grace_period_ends_at ?? new Date(Date.now() + GRACE_PERIOD_DAYS * DAY_MS).toISOString()
+        : null,
+      cancel_at_period_end: subscription.cancel_at_period_end,
+      organization_id: organizationId,
+      provider: providerName,
+      provider_customer_id: subscription.customer,
+      provider_subscription_id: subscription.id,
+    }, { onConflict: 'user_id' });
+
+  if (error) throw new Error(`Failed to save subscription: ${error.message}`);
+
+  if (organizationId) {
+    const { error: seatsError } = await supabase.rpc('sync_organization_seats', {
+      _organization_id: organizationId,
+      _seat_limit: subscription.items.data[0]?.quantity ?? 1,
+    });
+    if (seatsError) throw new Error(`Failed to update seats: ${seatsError.message}`);
+  }
+
+  if (existing?.plan_type !== plan) {
+    await supabase.from('security_audit_log').insert({
+      user_id: userId,
+      event_type: 'subscription_changed',
+      metadata: { from_plan: existing?.plan_type ?? 'free', to_plan: plan, status, provider: providerName },
+    });
+  }
+}
+
+async function endSubscription(supabase: SupabaseClient, subscription: ProviderSubscription) {
+  // An older subscription the user has since replaced has no row to end
+  const userId = await findSubscriber(supabase, subscription.id);
+  if (userId) await downgrade(supabase, userId, 'subscription canceled');
+}
+
+// Access continues for GRACE_PERIOD_DAYS while the provider retries the card
+async function startGracePeriod(supabase: SupabaseClient, subscriptionId: string) {
+  const { error } = await supabase
+    .from('user_subscriptions')
+    .update({
+      status: 'past_due',
+      grace_period_ends_at: new Date(Date.now() + GRACE_PERIOD_DAYS * DAY_MS).toISOString(),
+    })
+    .eq('provider_subscription_id', subscriptionId)
+    .is('grace_period_ends_at', null);
+
+  if (error) throw new Error(`Failed to start grace period: ${error.message}`);
+}
+
+async function endGracePeriod(supabase: SupabaseClient, subscriptionId: string) {
+  const { error } = await supabase
+    .from('user_subscriptions')
+    .update({ status: 'active', grace_period_ends_at: null })
+    .eq('provider_subscription_id', subscriptionId)
+    .eq('status', 'past_due');
+
+  if (error) throw new Error(`Failed to end grace period: ${error.message}`);
+}
+
+/**
+ * Applies one provider event with a service role client. Each event id is
+ * applied once; a failure releases it so the provider's retry runs again.
+ */
+export async function applyBillingEvent(
+  supabase: SupabaseClient,
+  providerName: string,
+  event: BillingEvent
+): Promise<'applied' | 'duplicate' | 'ignored'> {
+  const { error: claimError } = await supabase
+    .from('billing_events')
+    .insert({ id: event.id, provider: providerName, type: event.type });
+
+  if (claimError?.code === '23505') return 'duplicate';
+  if (claimError) throw new Error(`Failed to record billing event: ${claimError.message}`);
+
+  try {
+    const object = event.data.object;
+
+    switch (event.type) {
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+        await syncSubscription(supabase, providerName, object as ProviderSubscription);
+        return 'applied';
+      case 'customer.subscription.deleted':
+        await endSubscription(supabase, object as ProviderSubscription);
+        return 'applied';
+      case 'invoice.payment_failed':
+      case 'invoice.paid': {
+        const subscriptionId = invoiceSubscriptionId(object as ProviderInvoice);
+        if (!subscriptionId) return 'ignored';
+        if (event.type === 'invoice.paid') await endGracePeriod(supabase, subscriptionId);
+        else await startGracePeriod(supabase, subscriptionId);
+        return 'applied';
+      }
+      default:
+        return 'ignored';
+    }
+  } catch (error) {
+    await supabase.from('billing_events').delete().eq('id', event.id);
+    throw error;
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Text embeddings for message search. Uses OpenAI's text-embedding-3-small
+ * at 768 dimensions to match message_embeddings.embedding, or OpenRouter
+ * when OPENAI_API_KEY is an OpenRouter key (sk-or-...).
+ */
+
+export const EMBEDDING_MODEL = 'text-embedding-3-small';
+export const EMBEDDING_DIMENSIONS = 768;
+
+export async function createEmbedding(input: string): Promise<number[]> {
+  const [embedding] = await createEmbeddings([input]);
+  return embedding;
+}
+
+// One request for many inputs; results come back in input order
+export async function createEmbeddings(inputs: string[]): Promise<number[][]> {
+  // Remove whitespace + any non-ASCII characters (e.g. zero-width spaces) that can break
+  // Deno's fetch header ByteString validation.
+  const apiKey = (Deno.env.get('OPENAI_API_KEY') ?? '').replace(/[^\x21-\x7E]/g, '');
+  if (!apiKey) {
+    throw new Error('OPENAI_API_KEY is not configured');
+  }
+
+  const isOpenRouter = apiKey.startsWith('sk-or-');
+  const apiUrl = isOpenRouter
+    ? 'https://openrouter.ai/api/v1/embeddings'
+    : 'https://api.openai.com/v1/embeddings';
+
+  const headers: Record<string, string> = {
+    'Authorization': `Bearer ${apiKey}`,
+    'Content-Type': 'application/json',
+  };
+  if (isOpenRouter) {
+    headers['HTTP-Referer'] = Deno.env.get('SUPABASE_URL') ?? 'https://lovable.dev';
+    headers['X-Title'] = 'Nexora Chat';
+  }
+
+  const response = await fetch(apiUrl, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model: EMBEDDING_MODEL,
+      input: inputs,
+      dimensions: EMBEDDING_DIMENSIONS,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('Embedding API error:', response.status, errorText);
+    throw new Error('Failed to generate embedding');
+  }
+
+  const data: { data: { index: number; embedding: number[] }[] } = await response.json();
+  return [...data.data]
+    .sort((a, b) => a.index - b.index)
+    .map(item => item.embedding);
+}
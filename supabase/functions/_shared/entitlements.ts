@@ -0,0 +1,44 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+
+/**
+ * What the caller's plan allows, from plan_entitlements, with their usage of
+ * the metered entitlements. Pass a client carrying the user's Authorization
+ * header: current_entitlements() works from auth.uid().
+ */
+
+export interface Entitlements {
+  plan_type: 'free' | 'premium' | 'enterprise';
+  premium_features: boolean;
+  search_max_results: number;
+  // null is unlimited
+  daily_translations: number | null;
+  voice_clones: number;
+  translations_used: number;
+  voice_clones_used: number;
+}
+
+export async function loadEntitlements(supabase: SupabaseClient): Promise<Entitlements> {
+  const { data, error } = await supabase.rpc('current_entitlements').maybeSingle();
+  if (error || !data) {
+    throw new Error(`Failed to load entitlements: ${error?.message ?? 'no plan found'}`);
+  }
+  return data as Entitlements;
+}
+
+// null when the plan has no daily limit
+export const remainingTranslations = (entitlements: Entitlements) =>
+  entitlements.daily_translations === null
+    ? null
+    : Math.max(entitlements.daily_translations - entitlements.translations_used, 0);
+
+// 402 so clients can tell an upgrade prompt apart from rate limiting (429)
+export const planLimitResponse = (
+  error: string,
+  message: string,
+  entitlements: Entitlements,
+  headers: Record<string, string>
+) =>
+  new Response(
+    JSON.stringify({ error, limitReached: true, plan: entitlements.plan_type, message }),
+    { status: 402, headers: { ...headers, 'Content-Type': 'application/json' } }
+  );
@@ -0,0 +1,725 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+import { AiMessage, createAiClient, ToolDefinition } from './ai-provider.ts';
+import { describeStructuredMessages, STRUCTURED_MESSAGE_TYPES } from './structured-messages.ts';
+import { formatKnowledgeContext, KnowledgeChunk, KnowledgeCitation, retrieveKnowledge, toCitations } from './knowledge.ts';
+
+/**
+ * The group bot's identity, prompt and the actions it carries out. Used by
+ * group-bot for explicit commands and by process-bot-queue for mentions,
+ * keyword rules and scheduled digests. All writes need the service role.
+ */
+
+export const VALID_MODES = ['assistant', 'knowledge', 'moderator', 'persona', 'translation'] as const;
+export const VALID_PERSONAS = ['professional', 'casual', 'friendly', 'technical', 'empathetic', 'funny', 'tutor', 'motivator'] as const;
+export const MAX_MESSAGE_LENGTH = 10000;
+export const MAX_MESSAGES = 100;
+
+const MAX_ACTION_ITEMS = 10;
+const MAX_REMINDER_DAYS = 365;
+const MAX_DIGEST_MESSAGES = 300;
+
+// The member the bot acts for has used up their message rate limit
+export class BotRateLimitError extends Error {
+  constructor() {
+    super('Message rate limit reached, please try again later.');
+    this.name = 'BotRateLimitError';
+  }
+}
+
+export interface BotIdentity {
+  id: string;
+  name: string;
+  avatar_url: string | null;
+}
+
+// One message of context, either sent by the client or loaded here
+export interface ContextMessage {
+  id?: string;
+  sender_name?: string;
+  content?: string | null;
+  created_at: string;
+  reply_to?: { sender_name?: string; content?: string };
+  thread_reply_count?: number;
+}
+
+export type BotActionType = 'reminder' | 'task' | 'summary';
+
+export interface BotActionItem {
+  type: BotActionType;
+  text: string;
+  // Reminders only: local wall-clock time in the group's timezone
+  due_at?: string;
+}
+
+export interface BotResult {
+  mode: string;
+  primary_response: string;
+  alternatives?: string[];
+  actions?: string[];
+  action_items?: BotActionItem[];
+  // Knowledge base sources the reply relies on, in knowledge mode
+  citations?: KnowledgeCitation[];
+  confidence: number;
+}
+
+export interface ExecutedAction {
+  type: BotActionType;
+  text: string;
+  message_id?: string;
+  scheduled_message_id?: string;
+  send_at?: string;
+  error?: string;
+}
+
+const BOT_RESPONSE_TOOL: ToolDefinition = {
+  type: "function",
+  function: {
+    name: "bot_response",
+    description: "Provide a structured bot response",
+    parameters: {
+      type: "object",
+      properties: {
+        mode: {
+          type: "string",
+          enum: [...VALID_MODES]
+        },
+        primary_response: {
+          type: "string",
+          description: "The main bot response"
+        },
+        alternatives: {
+          type: "array",
+          items: { type: "string" },
+          description: "Alternative responses or suggestions"
+        },
+        actions: {
+          type: "array",
+          items: {
+            type: "string",
+            enum: ["reminder", "task", "summary", "moderation", "translation"]
+          },
+          description: "Actions to be taken"
+        },
+        action_items: {
+          type: "array",
+          description: "Reminders to schedule, tasks to add to a shared checklist and summaries to post. These are carried out, so only include what the group asked for.",
+          items: {
+            type: "object",
+            properties: {
+              type: { type: "string", enum: ["reminder", "task", "summary"] },
+              text: { type: "string", description: "Reminder text, task wording or what the summary should cover" },
+              due_at: { type: "string", description: "Reminders only: local date and time in the group's timezone, as YYYY-MM-DDTHH:mm" }
+            },
+            required: ["type", "text"]
+          }
+        },
+        cited_sources: {
+          type: "array",
+          items: { type: "integer" },
+          description: "Numbers of the knowledge base excerpts the response relies on"
+        },
+        confidence: {
+          type: "number",
+          minimum: 0,
+          maximum: 1,
+          description: "Confidence score"
+        }
+      },
+      required: ["mode", "primary_response", "confidence"],
+      additionalProperties: false
+    }
+  }
+};
+
+const cleanName = (value: unknown) => String(value || 'User').replace(/[<>]/g, '');
+
+// Offset of a timezone from UTC at the given instant, in minutes
+const timezoneOffsetMinutes = (date: Date, timeZone: string) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }).formatToParts(date).map(part => [part.type, part.value])
+  );
+  const asUtc = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+  return (asUtc - date.getTime()) / 60_000;
+};
+
+// "2026-03-01T09:30" in the given timezone, as an instant
+export const localTimeToUtc = (local: string, timeZone: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})/.exec(local);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute] = match.map(Number);
+  const naive = Date.UTC(year, month - 1, day, hour, minute);
+  try {
+    return new Date(naive - timezoneOffsetMinutes(new Date(naive), timeZone) * 60_000);
+  } catch {
+    return null;
+  }
+};
+
+const localNow = (timeZone: string) => {
+  try {
+    return new Intl.DateTimeFormat('en-GB', { timeZone, dateStyle: 'full', timeStyle: 'short' }).format(new Date());
+  } catch {
+    return new Date().toISOString();
+  }
+};
+
+// The conversation's bot principal, created on first use
+export async function loadBot(supabase: SupabaseClient, conversationId: string): Promise<BotIdentity> {
+  const { data: existing, error } = await supabase
+    .from('bots')
+    .select('id, name, avatar_url')
+    .eq('conversation_id', conversationId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load bot: ${error.message}`);
+  if (existing) return existing;
+
+  // ignoreDuplicates keeps a concurrent first call from renaming anything
+  await supabase
+    .from('bots')
+    .upsert({ conversation_id: conversationId }, { onConflict: 'conversation_id', ignoreDuplicates: true });
+
+  const { data: created, error: createError } = await supabase
+    .from('bots')
+    .select('id, name, avatar_url')
+    .eq('conversation_id', conversationId)
+    .single();
+
+  if (createError) throw new Error(`Failed to create bot: ${createError.message}`);
+  return created;
+}
+
+// Ids among messageIds that moderation is holding back
+async function loadHeldIds(supabase: SupabaseClient, messageIds: string[]): Promise<Set<string>> {
+  if (messageIds.length === 0) return new Set();
+  const { data: holds } = await supabase
+    .from('moderation_holds')
+    .select('message_id')
+    .in('message_id', messageIds);
+  return new Set((holds || []).map(hold => hold.message_id));
+}
+
+/**
+ * Recent messages with sender names, oldest first, for when the bot acts
+ * without a client. threadRootId narrows to one thread (with its root),
+ * null to the main timeline; leave it out for everything. Messages held by
+ * moderation are left out, since the bot's reply is visible to everyone.
+ */
+export async function loadRecentMessages(
+  supabase: SupabaseClient,
+  conversationId: string,
+  { limit, since, threadRootId }: { limit: number; since?: string; threadRootId?: string | null }
+): Promise<ContextMessage[]> {
+  let query = supabase
+    .from('messages')
+    .select('id, content, transcription, created_at, reply_to_id, imported_sender_name, profiles!messages_sender_id_fkey(display_name, username), bots(name)')
+    .eq('conversation_id', conversationId);
+
+  if (threadRootId) {
+    query = query.or(`id.eq.${threadRootId},thread_root_id.eq.${threadRootId}`);
+  } else if (threadRootId === null) {
+    query = query.is('thread_root_id', null);
+  }
+  if (since) {
+    query = query.gte('created_at', since);
+  }
+
+  const { data: rows, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw new Error(`Failed to load messages: ${error.message}`);
+  if (!rows || rows.length === 0) return [];
+
+  const held = await loadHeldIds(supabase, rows.map(row => row.id));
+  const visible = rows.filter(row => !held.has(row.id)).reverse();
+  const senderName = (row: typeof rows[number]) => {
+    const bot = Array.isArray(row.bots) ? row.bots[0] : row.bots;
+    const profile = Array.isArray(row.profiles) ? row.profiles[0] : row.profiles;
+    return bot?.name || row.imported_sender_name || profile?.display_name || profile?.username || 'User';
+  };
+  const byId = new Map(visible.map(row => [row.id, row]));
+
+  return visible.map(row => {
+    const quoted = row.reply_to_id ? byId.get(row.reply_to_id) : undefined;
+    return {
+      id: row.id,
+      sender_name: senderName(row),
+      content: row.content || row.transcription || '',
+      created_at: row.created_at,
+      reply_to: quoted ? { sender_name: senderName(quoted), content: quoted.content || '' } : undefined,
+    };
+  });
+}
+
+// Fetch thread replies for the context messages, leaving out held ones
+async function loadThreadReplies(
+  supabase: SupabaseClient,
+  conversationId: string,
+  messages: ContextMessage[]
+): Promise<Map<string, string[]>> {
+  const replies = new Map<string, string[]>();
+  const rootIds = messages
+    .filter(msg => msg.id && (msg.thread_reply_count ?? 0) > 0)
+    .map(msg => msg.id as string);
+
+  if (rootIds.length === 0) return replies;
+
+  const { data: rows, error } = await supabase
+    .from('messages')
+    .select('id, thread_root_id, content, created_at, profiles!messages_sender_id_fkey(display_name, username), bots(name)')
+    .eq('conversation_id', conversationId)
+    .in('thread_root_id', rootIds)
+    .order('created_at', { ascending: true })
+    .limit(MAX_MESSAGES);
+
+  if (error) {
+    console.error('Error fetching thread replies:', error);
+    return replies;
+  }
+
+  const held = await loadHeldIds(supabase, (rows || []).map(row => row.id));
+  for (const row of rows || []) {
+    if (held.has(row.id)) continue;
+    const bot = Array.isArray(row.bots) ? row.bots[0] : row.bots;
+    const profile = Array.isArray(row.profiles) ? row.profiles[0] : row.profiles;
+    const senderName = bot?.name || profile?.display_name || profile?.username || 'User';
+    const content = String(row.content || '').slice(0, MAX_MESSAGE_LENGTH);
+    replies.set(row.thread_root_id, [...(replies.get(row.thread_root_id) || []), `[thread reply from ${senderName}]: ${content}`]);
+  }
+
+  return replies;
+}
+
+// Context messages only carry text, so structured messages are looked up by
+// id. Held ones are skipped like in loadRecentMessages.
+async function loadStructuredDescriptions(
+  supabase: SupabaseClient,
+  conversationId: string,
+  messages: ContextMessage[]
+): Promise<Map<string, string>> {
+  const ids = messages.map(msg => msg.id).filter((id): id is string => !!id);
+  if (ids.length === 0) return new Map();
+
+  const { data: rows, error } = await supabase
+    .from('messages')
+    .select('id, message_type, content, metadata')
+    .eq('conversation_id', conversationId)
+    .in('id', ids)
+    .in('message_type', STRUCTURED_MESSAGE_TYPES);
+
+  if (error) {
+    console.error('Error fetching structured messages:', error);
+    return new Map();
+  }
+
+  const held = await loadHeldIds(supabase, (rows || []).map(row => row.id));
+  return describeStructuredMessages(supabase, (rows || []).filter(row => !held.has(row.id)));
+}
+
+function buildSystemPrompt(
+  botName: string,
+  mode: string,
+  persona: string,
+  auto_translate: boolean = false,
+  target_language: string = 'en',
+  timezone: string = 'UTC'
+): string {
+  const translationNote = auto_translate
+    ? `\n\nAUTO-TRANSLATION ENABLED: If messages are in a language other than ${target_language}, automatically translate them to ${target_language} in your response. Mention the original language detected.`
+    : '';
+
+  const basePrompt = `You are ${botName}, a helpful chatbot participant in group conversations. You analyze messages and respond naturally as a group member.
+
+Current mode: ${mode}
+Current persona: ${persona}
+Current time for the group: ${localNow(timezone)} (${timezone})${translationNote}
+
+Key behaviors:
+- Be concise and natural (1-3 sentences unless summarizing)
+- Use the persona to guide your tone and style
+- Focus on the specific mode's purpose
+- Always provide confidence scores
+- Suggest alternatives when helpful
+- Lines starting with "↳" are side-thread replies to the message above them; "(replying to ...)" marks a quoted reply
+- [poll] messages show live vote counts, [checklist] items marked [x] are done, and shared locations and contact cards are tagged as such
+
+Action items are carried out for the group:
+- reminder: posted back into the chat at due_at, which is required
+- task: added to a shared checklist posted in the chat
+- summary: a digest of the last day's discussion posted as its own message, so keep primary_response to a short acknowledgement
+Only add action items the group asked for, and say in primary_response what you set up.`;
+
+  const modePrompts = {
+    assistant: `
+ASSISTANT MODE: Help manage tasks, reminders, and summaries.
+- Track action items from discussions
+- Summarize key points when asked
+- Set reminders for important dates/tasks
+- Organize information clearly`,
+
+    knowledge: `
+KNOWLEDGE MODE: Answer questions using the group's knowledge base and conversation context.
+- Prefer the numbered knowledge base excerpts when they cover the question and list the ones you used in cited_sources; they are linked under your reply, so leave the numbers out of the text
+- Don't fill gaps in the knowledge base from general knowledge without saying so
+- Reference previous messages when relevant
+- Admit when you don't have enough context
+- Ask clarifying questions if needed
+- Provide accurate, helpful information`,
+
+    moderator: `
+MODERATOR MODE: Maintain a positive, respectful environment.
+- Identify potentially toxic or offensive language
+- Suggest polite rewrites for problematic messages
+- NEVER block or censor - only suggest improvements
+- Be gentle and constructive in feedback`,
+
+    persona: `
+PERSONA MODE: Embody the selected personality.
+Personas:
+- professional: Clear, formal, business-focused
+- funny: Light-hearted, witty, uses appropriate humor
+- tutor: Educational, patient, explains concepts
+- motivator: Encouraging, energetic, uplifting
+
+Maintain consistency with the chosen persona while being helpful.`,
+
+    translation: `
+TRANSLATION MODE: Translate messages accurately.
+- Preserve original meaning and tone
+- Indicate the source and target languages
+- Handle idioms and cultural context appropriately
+- Maintain formality level from original`
+  };
+
+  return `${basePrompt}\n\n${modePrompts[mode as keyof typeof modePrompts] || modePrompts.assistant}`;
+}
+
+export async function generateBotResponse(
+  supabase: SupabaseClient,
+  options: {
+    conversationId: string;
+    userId: string;
+    bot: BotIdentity;
+    mode: string;
+    persona: string;
+    autoTranslate?: boolean;
+    targetLanguage?: string;
+    timezone?: string;
+    messages: ContextMessage[];
+    command?: string;
+    maxCommandLength?: number;
+    // What to look up in the knowledge base, when it isn't the command itself
+    question?: string;
+  }
+): Promise<BotResult> {
+  const { conversationId, messages } = options;
+  const systemPrompt = buildSystemPrompt(
+    options.bot.name,
+    options.mode,
+    options.persona,
+    options.autoTranslate,
+    options.targetLanguage,
+    options.timezone
+  );
+
+  // Side-thread replies under the messages in context, keyed by root message id
+  const threadReplies = await loadThreadReplies(supabase, conversationId, messages);
+
+  // Polls, checklists, locations and contact cards, described from their current state
+  const structured = await loadStructuredDescriptions(supabase, conversationId, messages);
+
+  // Format messages for AI with sanitization
+  const formattedMessages: AiMessage[] = messages.map((msg) => {
+    const content = String(structured.get(msg.id ?? '') ?? msg.content ?? '').slice(0, MAX_MESSAGE_LENGTH);
+    const senderName = cleanName(msg.sender_name);
+    const timestamp = new Date(msg.created_at).toLocaleTimeString();
+    const replyNote = msg.reply_to
+      ? ` (replying to ${cleanName(msg.reply_to.sender_name)}: "${String(msg.reply_to.content || '').slice(0, 200)}")`
+      : '';
+    const thread = msg.id ? threadReplies.get(msg.id) : undefined;
+    const threadNote = thread?.length ? `\n${thread.map(reply => `  ↳ ${reply}`).join('\n')}` : '';
+
+    return {
+      role: 'user' as const,
+      content: `[${senderName} at ${timestamp}]${replyNote}: ${content}${threadNote}`
+    };
+  });
+
+  if (options.command) {
+    const sanitizedCommand = String(options.command)
+      .slice(0, options.maxCommandLength ?? MAX_MESSAGE_LENGTH)
+      .replace(/[<>]/g, '');
+    formattedMessages.push({
+      role: 'user',
+      content: `Command: ${sanitizedCommand}`
+    });
+  }
+
+  // Grounding for knowledge mode. A failed lookup shouldn't cost the group its answer.
+  let knowledge: KnowledgeChunk[] = [];
+  if (options.mode === 'knowledge') {
+    const question = options.question || options.command || messages[messages.length - 1]?.content || '';
+    try {
+      knowledge = await retrieveKnowledge(supabase, conversationId, String(question));
+    } catch (knowledgeError) {
+      console.error('Error searching the knowledge base:', knowledgeError);
+    }
+  }
+
+  const knowledgePrompt: AiMessage[] = options.mode === 'knowledge'
+    ? [{
+      role: 'system',
+      content: knowledge.length > 0
+        ? `Knowledge base excerpts:\n\n${formatKnowledgeContext(knowledge)}`
+        : 'The knowledge base has nothing on this question.',
+    }]
+    : [];
+
+  const ai = createAiClient({ feature: 'group-bot', userId: options.userId });
+  const { toolCalls } = await ai.chat({
+    messages: [
+      { role: 'system', content: systemPrompt },
+      ...knowledgePrompt,
+      ...formattedMessages
+    ],
+    tools: [BOT_RESPONSE_TOOL],
+    toolChoice: { type: "function", function: { name: "bot_response" } }
+  });
+
+  const toolCall = toolCalls[0];
+  if (!toolCall) {
+    throw new Error('No tool call in AI response');
+  }
+
+  const { cited_sources, ...result } = JSON.parse(toolCall.function.arguments);
+  const cited = Array.isArray(cited_sources) ? cited_sources.map(Number) : [];
+  return knowledge.length > 0 ? { ...result, citations: toCitations(knowledge, cited) } : result;
+}
+
+/**
+ * Posts a message as the bot. sender_id records the member it acted for,
+ * which keeps mutes in force. The service role skips RLS, so the message
+ * rate limit that policy applies is checked here.
+ */
+export async function postBotMessage(
+  supabase: SupabaseClient,
+  {
+    conversationId,
+    bot,
+    askedBy,
+    content,
+    replyToId,
+    threadRootId,
+    messageType = 'text',
+    metadata,
+  }: {
+    conversationId: string;
+    bot: BotIdentity;
+    askedBy: string;
+    content: string;
+    replyToId?: string | null;
+    threadRootId?: string | null;
+    messageType?: string;
+    metadata?: Record<string, unknown>;
+  }
+): Promise<string> {
+  const { data: withinLimit, error: limitError } = await supabase.rpc('check_message_rate_limit', {
+    conv_id: conversationId,
+    user_uuid: askedBy,
+  });
+
+  if (limitError) throw new Error(`Failed to check the message rate limit: ${limitError.message}`);
+  if (!withinLimit) throw new BotRateLimitError();
+
+  const { data, error } = await supabase
+    .from('messages')
+    .insert({
+      conversation_id: conversationId,
+      sender_id: askedBy,
+      bot_id: bot.id,
+      content: content.slice(0, MAX_MESSAGE_LENGTH),
+      ai_generated: true,
+      message_type: messageType,
+      metadata: metadata ?? null,
+      reply_to_id: replyToId ?? null,
+      thread_root_id: threadRootId ?? null,
+    })
+    .select('id')
+    .single();
+
+  if (error) throw new Error(`Failed to post bot message: ${error.message}`);
+  return data.id;
+}
+
+/**
+ * A digest of the discussion since the given time, or null when nothing
+ * was said. Used for scheduled digests and the summary action.
+ */
+export async function writeDigest(
+  supabase: SupabaseClient,
+  { conversationId, userId, bot, persona, since, heading }: {
+    conversationId: string;
+    userId: string;
+    bot: BotIdentity;
+    persona: string;
+    since: string;
+    heading: string;
+  }
+): Promise<string | null> {
+  const messages = (await loadRecentMessages(supabase, conversationId, { limit: MAX_DIGEST_MESSAGES, since }))
+    .filter(msg => msg.content?.trim());
+  if (messages.length === 0) return null;
+
+  const structured = await loadStructuredDescriptions(supabase, conversationId, messages);
+  const transcript = messages
+    .map(msg => `[${new Date(msg.created_at).toISOString().slice(0, 16)}] ${cleanName(msg.sender_name)}: ${String(structured.get(msg.id ?? '') ?? msg.content).slice(0, 1000)}`)
+    .join('\n');
+
+  const ai = createAiClient({ feature: 'group-bot', userId });
+  const { content } = await ai.chat({
+    messages: [
+      {
+        role: 'system',
+        content: `You are ${bot.name}, the bot of a group chat, writing a digest for members who missed the discussion. Use a ${persona} tone.
+Cover the main topics, decisions, open questions and action items with who owns them, as short bullet points. Skip small talk. Don't invent anything that isn't in the messages.`,
+      },
+      { role: 'user', content: transcript },
+    ],
+    temperature: 0.3,
+    maxTokens: 600,
+  });
+
+  const digest = content?.trim();
+  return digest ? `${heading}\n\n${digest}` : null;
+}
+
+/**
+ * Carries out the action items of a bot response: reminders become
+ * scheduled_messages posted as the bot, tasks one shared checklist and
+ * summaries a digest message. Failures are reported per item rather than
+ * failing the reply, which has already been posted.
+ */
+export async function executeBotActions(
+  supabase: SupabaseClient,
+  {
+    conversationId,
+    bot,
+    askedBy,
+    items,
+    timezone,
+    persona,
+    threadRootId,
+  }: {
+    conversationId: string;
+    bot: BotIdentity;
+    askedBy: string;
+    items: BotActionItem[] | undefined;
+    timezone: string;
+    persona: string;
+    threadRootId?: string | null;
+  }
+): Promise<ExecutedAction[]> {
+  const valid = (items || [])
+    .filter(item => ['reminder', 'task', 'summary'].includes(item?.type) && String(item.text || '').trim())
+    .slice(0, MAX_ACTION_ITEMS);
+  const executed: ExecutedAction[] = [];
+
+  for (const item of valid.filter(item => item.type === 'reminder')) {
+    const text = String(item.text).trim().slice(0, 1000);
+    const sendAt = item.due_at ? localTimeToUtc(item.due_at, timezone) : null;
+    const latest = Date.now() + MAX_REMINDER_DAYS * 24 * 60 * 60_000;
+
+    if (!sendAt || sendAt.getTime() <= Date.now() || sendAt.getTime() > latest) {
+      executed.push({ type: 'reminder', text, error: 'No valid future time for the reminder' });
+      continue;
+    }
+
+    const { data, error } = await supabase
+      .from('scheduled_messages')
+      .insert({
+        conversation_id: conversationId,
+        sender_id: askedBy,
+        bot_id: bot.id,
+        content: `⏰ Reminder: ${text}`,
+        send_at: sendAt.toISOString(),
+        timezone,
+      })
+      .select('id')
+      .single();
+
+    executed.push(error
+      ? { type: 'reminder', text, error: error.message }
+      : { type: 'reminder', text, scheduled_message_id: data.id, send_at: sendAt.toISOString() });
+  }
+
+  const tasks = valid
+    .filter(item => item.type === 'task')
+    .map(item => String(item.text).trim().slice(0, 300));
+  if (tasks.length > 0) {
+    try {
+      const messageId = await postBotMessage(supabase, {
+        conversationId,
+        bot,
+        askedBy,
+        content: `Checklist: Tasks\n${tasks.map(task => `- [ ] ${task}`).join('\n')}`,
+        messageType: 'checklist',
+        metadata: { title: 'Tasks' },
+        threadRootId,
+      });
+
+      const { error } = await supabase.from('checklist_items').insert(
+        tasks.map((label, index) => ({
+          message_id: messageId,
+          conversation_id: conversationId,
+          position: index + 1,
+          label,
+          created_by: askedBy,
+        }))
+      );
+      if (error) throw new Error(error.message);
+
+      tasks.forEach(text => executed.push({ type: 'task', text, message_id: messageId }));
+    } catch (taskError) {
+      const message = taskError instanceof Error ? taskError.message : 'Failed to add tasks';
+      tasks.forEach(text => executed.push({ type: 'task', text, error: message }));
+    }
+  }
+
+  // One digest covers every summary item
+  const summary = valid.find(item => item.type === 'summary');
+  if (summary) {
+    const text = String(summary.text).trim();
+    try {
+      const digest = await writeDigest(supabase, {
+        conversationId,
+        userId: askedBy,
+        bot,
+        persona,
+        since: new Date(Date.now() - 24 * 60 * 60_000).toISOString(),
+        heading: '📝 Summary of the last day',
+      });
+
+      if (!digest) {
+        executed.push({ type: 'summary', text, error: 'Nothing to summarize' });
+      } else {
+        const messageId = await postBotMessage(supabase, { conversationId, bot, askedBy, content: digest, threadRootId });
+        executed.push({ type: 'summary', text, message_id: messageId });
+      }
+    } catch (summaryError) {
+      executed.push({ type: 'summary', text, error: summaryError instanceof Error ? summaryError.message : 'Failed to summarize' });
+    }
+  }
+
+  return executed;
+}
@@ -0,0 +1,123 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+import { extractText, getDocumentProxy } from 'https://esm.sh/unpdf@0.11.0';
+import { createEmbedding } from './embeddings.ts';
+
+/**
+ * The group bot's knowledge base: pinned messages and uploaded documents,
+ * split into overlapping chunks and embedded like messages. Indexed by
+ * process-embedding-queue, retrieved by the bot in knowledge mode.
+ */
+
+export const KNOWLEDGE_BUCKET = 'knowledge-base';
+
+const CHUNK_CHARS = 1500;
+const CHUNK_OVERLAP = 200;
+// Keeps one huge document from monopolising the queue and the index
+export const MAX_CHUNKS_PER_SOURCE = 200;
+const MATCH_COUNT = 6;
+const MATCH_THRESHOLD = 0.3;
+
+export interface KnowledgeChunk {
+  chunk_id: string;
+  source_id: string;
+  kind: 'message' | 'document';
+  title: string;
+  message_id: string | null;
+  storage_path: string | null;
+  content: string;
+  similarity: number;
+}
+
+// Stored in the bot message's metadata so the client can link back to the source
+export interface KnowledgeCitation {
+  source_id: string;
+  kind: 'message' | 'document';
+  title: string;
+  message_id?: string;
+  storage_path?: string;
+  excerpt: string;
+}
+
+export async function extractDocumentText(file: Blob, mimeType: string | null): Promise<string> {
+  if (mimeType === 'application/pdf') {
+    const pdf = await getDocumentProxy(new Uint8Array(await file.arrayBuffer()));
+    const { text } = await extractText(pdf, { mergePages: true });
+    return Array.isArray(text) ? text.join('\n\n') : text;
+  }
+
+  return await file.text();
+}
+
+// Splits on paragraph boundaries where it can, with some overlap so an
+// answer that straddles two chunks is still found
+export function chunkText(text: string): string[] {
+  const normalized = text.replace(/\r\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+  if (!normalized) return [];
+
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < normalized.length && chunks.length < MAX_CHUNKS_PER_SOURCE) {
+    let end = Math.min(start + CHUNK_CHARS, normalized.length);
+
+    if (end < normalized.length) {
+      const window = normalized.slice(start, end);
+      const breakAt = Math.max(window.lastIndexOf('\n\n'), window.lastIndexOf('. '));
+      if (breakAt > CHUNK_CHARS / 2) end = start + breakAt + 1;
+    }
+
+    const chunk = normalized.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end >= normalized.length) break;
+
+    start = Math.max(end - CHUNK_OVERLAP, start + 1);
+  }
+
+  return chunks;
+}
+
+export async function retrieveKnowledge(
+  supabase: SupabaseClient,
+  conversationId: string,
+  question: string
+): Promise<KnowledgeChunk[]> {
+  if (!question.trim()) return [];
+
+  const embedding = await createEmbedding(question.slice(0, 8000));
+  const { data, error } = await supabase.rpc('match_knowledge_chunks', {
+    _conversation_id: conversationId,
+    query_embedding: JSON.stringify(embedding),
+    match_count: MATCH_COUNT,
+    match_threshold: MATCH_THRESHOLD,
+  });
+
+  if (error) throw new Error(`Failed to search the knowledge base: ${error.message}`);
+  return (data || []) as KnowledgeChunk[];
+}
+
+// Numbered excerpts for the prompt; the model cites them by number in cited_sources
+export const formatKnowledgeContext = (chunks: KnowledgeChunk[]) =>
+  chunks
+    .map((chunk, index) => `[${index + 1}] ${chunk.kind === 'message' ? 'Pinned message' : 'Document'} "${chunk.title}":\n${chunk.content}`)
+    .join('\n\n');
+
+// One citation per source, in the order the model cited them
+export function toCitations(chunks: KnowledgeChunk[], cited: number[]): KnowledgeCitation[] {
+  const citations = new Map<string, KnowledgeCitation>();
+
+  for (const number of cited) {
+    const chunk = chunks[number - 1];
+    if (!chunk || citations.has(chunk.source_id)) continue;
+
+    citations.set(chunk.source_id, {
+      source_id: chunk.source_id,
+      kind: chunk.kind,
+      title: chunk.title,
+      message_id: chunk.message_id ?? undefined,
+      storage_path: chunk.storage_path ?? undefined,
+      excerpt: chunk.content.slice(0, 300),
+    });
+  }
+
+  return [...citations.values()];
+}
@@ -0,0 +1,205 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+
+/**
+ * Decides whether a push notification reaches a user, based on their
+ * Do Not Disturb schedule, muted conversations and contact settings.
+ * Every push goes through send-push-notification, which applies this
+ * before delivering, so the rules live in one place.
+ */
+
+export type NotificationKind = 'message' | 'incoming_call' | 'missed_call' | 'other';
+
+export interface NotificationContext {
+  recipientId: string;
+  kind: NotificationKind;
+  senderId?: string;
+  conversationId?: string;
+  now?: Date;
+}
+
+export interface PolicyDecision {
+  deliver: boolean;
+  // Deliver without sound or vibration
+  silent: boolean;
+  // Held back by Do Not Disturb and should appear in the next digest
+  digest: boolean;
+  reason: 'allowed' | 'muted' | 'dnd' | 'favourite' | 'repeat_caller' | 'contact_silenced';
+}
+
+const CALL_KINDS: NotificationKind[] = ['incoming_call', 'missed_call'];
+
+// A second call from the same person within this window breaks through DND
+const REPEAT_CALLER_WINDOW_MS = 15 * 60 * 1000;
+
+const minutesOfDay = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Wall-clock minutes past midnight in the given IANA timezone
+const localMinutes = (now: Date, timezone: string) => {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-GB', {
+      timeZone: timezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+  } catch {
+    // Unknown timezone names fall back to UTC
+    return now.getUTCHours() * 60 + now.getUTCMinutes();
+  }
+
+  const hour = Number(parts.find(part => part.type === 'hour')?.value ?? 0);
+  const minute = Number(parts.find(part => part.type === 'minute')?.value ?? 0);
+  return hour * 60 + minute;
+};
+
+export const isInQuietHours = (start: string, end: string, timezone: string, now: Date) => {
+  const current = localMinutes(now, timezone);
+  const startMinutes = minutesOfDay(start);
+  const endMinutes = minutesOfDay(end);
+
+  // Overnight windows such as 22:00-07:00 wrap past midnight
+  if (startMinutes > endMinutes) {
+    return current >= startMinutes || current < endMinutes;
+  }
+  return current >= startMinutes && current < endMinutes;
+};
+
+export interface DndProfile {
+  dnd_enabled: boolean | null;
+  dnd_start_time: string | null;
+  dnd_end_time: string | null;
+  timezone: string;
+  dnd_allow_favourites: boolean;
+  dnd_allow_repeat_callers: boolean;
+}
+
+export const DND_PROFILE_COLUMNS =
+  'dnd_enabled, dnd_start_time, dnd_end_time, timezone, dnd_allow_favourites, dnd_allow_repeat_callers';
+
+export const isDndActive = (profile: DndProfile | null, now: Date) =>
+  !!profile?.dnd_enabled &&
+  isInQuietHours(profile.dnd_start_time ?? '22:00', profile.dnd_end_time ?? '07:00', profile.timezone || 'UTC', now);
+
+const isConversationMuted = async (supabase: SupabaseClient, ctx: NotificationContext, now: Date) => {
+  if (!ctx.conversationId) return false;
+
+  const { data } = await supabase
+    .from('conversation_participants')
+    .select('is_muted, muted_until')
+    .eq('conversation_id', ctx.conversationId)
+    .eq('user_id', ctx.recipientId)
+    .maybeSingle();
+
+  if (!data?.is_muted) return false;
+  return !data.muted_until || new Date(data.muted_until) > now;
+};
+
+const isRepeatCaller = async (supabase: SupabaseClient, ctx: NotificationContext, now: Date) => {
+  if (!ctx.senderId) return false;
+
+  const since = new Date(now.getTime() - REPEAT_CALLER_WINDOW_MS).toISOString();
+  const { count } = await supabase
+    .from('call_participants')
+    .select('call_id, calls!inner(caller_id, started_at)', { count: 'exact', head: true })
+    .eq('user_id', ctx.recipientId)
+    .eq('calls.caller_id', ctx.senderId)
+    .gte('calls.started_at', since);
+
+  // The call being announced is one of them
+  return (count ?? 0) >= 2;
+};
+
+export const evaluateNotificationPolicy = async (
+  supabase: SupabaseClient,
+  ctx: NotificationContext
+): Promise<PolicyDecision> => {
+  const now = ctx.now ?? new Date();
+
+  // Muting a conversation silences its messages, not calls or missed calls
+  if (!CALL_KINDS.includes(ctx.kind) && await isConversationMuted(supabase, ctx, now)) {
+    return { deliver: false, silent: false, digest: false, reason: 'muted' };
+  }
+
+  const [{ data: profile }, { data: contact }] = await Promise.all([
+    supabase
+      .from('profiles')
+      .select(DND_PROFILE_COLUMNS)
+      .eq('user_id', ctx.recipientId)
+      .maybeSingle(),
+    ctx.senderId
+      ? supabase
+          .from('contacts')
+          .select('is_favourite, notification_sound_enabled')
+          .eq('user_id', ctx.recipientId)
+          .eq('contact_user_id', ctx.senderId)
+          .maybeSingle()
+      : Promise.resolve({ data: null }),
+  ]);
+
+  const silent = contact?.notification_sound_enabled === false;
+
+  if (isDndActive(profile as DndProfile | null, now)) {
+    if (profile?.dnd_allow_favourites && contact?.is_favourite) {
+      return { deliver: true, silent, digest: false, reason: 'favourite' };
+    }
+
+    if (
+      ctx.kind === 'incoming_call' &&
+      profile?.dnd_allow_repeat_callers &&
+      await isRepeatCaller(supabase, ctx, now)
+    ) {
+      return { deliver: true, silent: false, digest: false, reason: 'repeat_caller' };
+    }
+
+    return { deliver: false, silent: false, digest: true, reason: 'dnd' };
+  }
+
+  return { deliver: true, silent, digest: false, reason: silent ? 'contact_silenced' : 'allowed' };
+};
+
+const DIGEST_LABELS: Record<NotificationKind, [string, string]> = {
+  message: ['message', 'messages'],
+  incoming_call: ['call', 'calls'],
+  missed_call: ['missed call', 'missed calls'],
+  other: ['notification', 'notifications'],
+};
+
+/**
+ * Marks a user's held-back notifications as digested and summarises them,
+ * e.g. "4 messages and 1 missed call while Do Not Disturb was on". Returns
+ * null when nothing was held back. Claiming with an update keeps concurrent
+ * senders from sending the same digest twice.
+ */
+export const claimDigest = async (supabase: SupabaseClient, userId: string) => {
+  const { data: rows, error } = await supabase
+    .from('suppressed_notifications')
+    .update({ digested_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('digested_at', null)
+    .select('kind, sender_id');
+
+  if (error) throw error;
+  if (!rows || rows.length === 0) return null;
+
+  const counts = new Map<NotificationKind, number>();
+  rows.forEach(row => counts.set(row.kind as NotificationKind, (counts.get(row.kind as NotificationKind) ?? 0) + 1));
+
+  const parts = Array.from(counts.entries()).map(([kind, count]) => {
+    const [singular, plural] = DIGEST_LABELS[kind] ?? DIGEST_LABELS.other;
+    return `${count} ${count === 1 ? singular : plural}`;
+  });
+  const summary = parts.length > 1
+    ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`
+    : parts[0];
+  const senders = new Set(rows.map(row => row.sender_id).filter(Boolean)).size;
+
+  return {
+    title: 'While Do Not Disturb was on',
+    body: senders > 1 ? `${summary} from ${senders} people` : summary,
+    count: rows.length,
+  };
+};
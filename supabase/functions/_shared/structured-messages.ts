@@ -0,0 +1,85 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+
+/**
+ * Plain-text descriptions of polls, checklists, locations and contact cards
+ * for AI prompts. A message's content only holds the state it was sent
+ * with; these add current tallies and ticks.
+ */
+
+export const STRUCTURED_MESSAGE_TYPES = ['poll', 'checklist', 'location', 'contact'];
+
+interface StructuredMessage {
+  id: string;
+  message_type: string | null;
+  content: string | null;
+  metadata?: Record<string, unknown> | null;
+}
+
+const describeLocation = (metadata: Record<string, unknown>) => {
+  const label = metadata.label ? `${metadata.label} ` : '';
+  return `[shared location] ${label}(${metadata.latitude}, ${metadata.longitude})`;
+};
+
+const describeContact = (metadata: Record<string, unknown>) => {
+  const details = [metadata.phone, metadata.email].filter(Boolean).join(', ');
+  return `[shared contact card] ${metadata.name}${details ? ` (${details})` : ''}`;
+};
+
+export async function describeStructuredMessages(
+  supabase: SupabaseClient,
+  messages: StructuredMessage[]
+): Promise<Map<string, string>> {
+  const descriptions = new Map<string, string>();
+
+  for (const message of messages) {
+    if (message.message_type === 'location' && message.metadata) {
+      descriptions.set(message.id, describeLocation(message.metadata));
+    } else if (message.message_type === 'contact' && message.metadata) {
+      descriptions.set(message.id, describeContact(message.metadata));
+    }
+  }
+
+  const pollIds = messages.filter(m => m.message_type === 'poll').map(m => m.id);
+  if (pollIds.length > 0) {
+    const { data: polls, error } = await supabase
+      .from('polls')
+      .select('message_id, question, allows_multiple, closes_at, closed_at, poll_options(label, position, vote_count)')
+      .in('message_id', pollIds);
+
+    if (error) console.error('Error loading polls:', error);
+
+    for (const poll of polls || []) {
+      const closed = poll.closed_at || (poll.closes_at && new Date(poll.closes_at) <= new Date());
+      const options = [...(poll.poll_options || [])]
+        .sort((a, b) => a.position - b.position)
+        .map(option => `${option.label}: ${option.vote_count} vote${option.vote_count === 1 ? '' : 's'}`)
+        .join('; ');
+      descriptions.set(
+        poll.message_id,
+        `[poll${poll.allows_multiple ? ', multiple choice' : ''}${closed ? ', closed' : ''}] ${poll.question} — ${options}`
+      );
+    }
+  }
+
+  const checklistIds = messages.filter(m => m.message_type === 'checklist').map(m => m.id);
+  if (checklistIds.length > 0) {
+    const { data: items, error } = await supabase
+      .from('checklist_items')
+      .select('message_id, label, position, checked_at')
+      .in('message_id', checklistIds)
+      .order('position');
+
+    if (error) console.error('Error loading checklist items:', error);
+
+    for (const message of messages.filter(m => m.message_type === 'checklist')) {
+      const title = String(message.metadata?.title ?? 'Checklist');
+      const list = (items || [])
+        .filter(item => item.message_id === message.id)
+        .map(item => `${item.checked_at ? '[x]' : '[ ]'} ${item.label}`)
+        .join('; ');
+      descriptions.set(message.id, `[checklist] ${title} — ${list || 'no items'}`);
+    }
+  }
+
+  return descriptions;
+}
@@ -0,0 +1,75 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.58.0";
+
+/**
+ * Glossary terms for translate-message. Terms come from the caller's own
+ * glossary, the conversation being translated and every community they
+ * belong to; RLS decides which of those rows the user client can see.
+ */
+
+export interface GlossaryTerm {
+  scope: 'user' | 'conversation' | 'community';
+  source_term: string;
+  translation: string | null;
+  target_language: string | null;
+}
+
+// A chat's own glossary beats a community's, which beats the user's personal one
+const SCOPE_PRIORITY: Record<GlossaryTerm['scope'], number> = {
+  conversation: 0,
+  community: 1,
+  user: 2,
+};
+
+export async function loadGlossary(
+  supabase: SupabaseClient,
+  userId: string,
+  targetLanguage: string,
+  conversationId?: string,
+): Promise<GlossaryTerm[]> {
+  const scopes = [`and(scope.eq.user,user_id.eq.${userId})`, 'scope.eq.community'];
+  if (conversationId) {
+    scopes.push(`and(scope.eq.conversation,conversation_id.eq.${conversationId})`);
+  }
+
+  const { data, error } = await supabase
+    .from('translation_glossary_terms')
+    .select('scope, source_term, translation, target_language')
+    .or(scopes.join(','))
+    .or(`target_language.is.null,target_language.eq.${targetLanguage}`);
+
+  if (error) {
+    console.error('Error loading translation glossary:', error);
+    return [];
+  }
+
+  const byTerm = new Map<string, GlossaryTerm>();
+  for (const term of (data || []) as GlossaryTerm[]) {
+    const key = term.source_term.toLowerCase();
+    const existing = byTerm.get(key);
+    if (!existing || SCOPE_PRIORITY[term.scope] < SCOPE_PRIORITY[existing.scope]) {
+      byTerm.set(key, term);
+    }
+  }
+
+  return [...byTerm.values()];
+}
+
+// Only terms that occur in the text go into the prompt
+export function glossaryInstructions(terms: GlossaryTerm[], text: string): string {
+  const lowerText = text.toLowerCase();
+  const relevant = terms.filter(term => lowerText.includes(term.source_term.toLowerCase()));
+  if (relevant.length === 0) return '';
+
+  const keep = relevant.filter(term => !term.translation);
+  const forced = relevant.filter(term => term.translation);
+
+  const lines = ['Follow this glossary exactly:'];
+  if (keep.length > 0) {
+    lines.push(`- Keep these terms exactly as written, do not translate them: ${keep.map(term => `"${term.source_term}"`).join(', ')}`);
+  }
+  for (const term of forced) {
+    lines.push(`- Always translate "${term.source_term}" as "${term.translation}"`);
+  }
+
+  return lines.join('\n');
+}
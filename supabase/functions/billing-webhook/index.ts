@@ -0,0 +1,48 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.58.0";
+import { applyBillingEvent, BillingError, createBillingProvider } from "../_shared/billing.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, stripe-signature',
+};
+
+/**
+ * Receives the billing provider's webhooks (Stripe's, or the fake's in the
+ * same shape) and mirrors subscription changes onto user_subscriptions.
+ * Deployed without JWT verification; the signature authenticates the call.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const provider = createBillingProvider(supabase);
+    // Verified against the raw body, so read it before parsing
+    const payload = await req.text();
+    const event = await provider.verifyWebhook(payload, req.headers.get('stripe-signature'));
+
+    const result = await applyBillingEvent(supabase, provider.name, event);
+    console.log(`Billing event ${event.id} (${event.type}): ${result}`);
+
+    return new Response(
+      JSON.stringify({ received: true, result }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in billing-webhook function:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      {
+        status: error instanceof BillingError ? error.status : 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
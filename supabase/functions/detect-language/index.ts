@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.58.0";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.58.0";
+import { aiErrorResponse, AiClient, AiProviderError, createAiClient, ToolDefinition } from "../_shared/ai-provider.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -23,8 +24,116 @@ const LANGUAGE_NAMES: Record<string, string> = {
   'sv': 'Swedish',
   'pl': 'Polish',
   'tr': 'Turkish',
+  'unknown': 'Unknown',
 };
 
+const MAX_BATCH_SIZE = 50;
+
+const SUBMIT_LANGUAGES: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'submit_languages',
+    description: 'Return the detected language of every input message.',
+    parameters: {
+      type: 'object',
+      properties: {
+        languages: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', description: 'The id of the input message' },
+              language_code: { type: 'string', description: 'ISO 639-1 code in lowercase' },
+            },
+            required: ['id', 'language_code'],
+          },
+        },
+      },
+      required: ['languages'],
+    },
+  },
+};
+
+interface DetectedLanguage {
+  messageId: string;
+  languageCode: string;
+  languageName: string;
+}
+
+// Batch mode: source languages recorded with earlier translations are reused;
+// the remaining messages are detected together in one model call
+async function detectBatch(
+  supabase: SupabaseClient,
+  ai: AiClient,
+  userId: string,
+  messageIds: string[]
+): Promise<DetectedLanguage[]> {
+  const { data: rows, error } = await supabase
+    .from('messages')
+    .select('id, content, transcription')
+    .in('id', messageIds);
+
+  if (error) throw new Error(`Failed to load messages: ${error.message}`);
+
+  const texts = new Map<string, string>();
+  for (const row of rows || []) {
+    const text = (row.content || row.transcription || '').trim();
+    if (text) texts.set(row.id, text);
+  }
+
+  const { data: cached } = await supabase
+    .from('message_translations')
+    .select('message_id, source_language, original_text')
+    .eq('user_id', userId)
+    .neq('source_language', 'unknown')
+    .in('message_id', [...texts.keys()]);
+
+  const codes = new Map<string, string>();
+  for (const row of cached || []) {
+    if (texts.get(row.message_id) === row.original_text) codes.set(row.message_id, row.source_language);
+  }
+
+  const misses = [...texts.entries()].filter(([id]) => !codes.has(id));
+  if (misses.length > 0) {
+    const result = await ai.chat({
+      messages: [
+        {
+          role: "system",
+          content: "Detect the language of each message. Use ISO 639-1 codes in lowercase (e.g., 'en', 'es', 'fr')."
+        },
+        // Detection only needs the start of long messages
+        { role: "user", content: JSON.stringify(misses.map(([id, text]) => ({ id, text: text.slice(0, 500) }))) }
+      ],
+      temperature: 0,
+      maxTokens: 2000,
+      tools: [SUBMIT_LANGUAGES],
+      toolChoice: { type: 'function', function: { name: 'submit_languages' } },
+    });
+
+    let parsed: { languages?: { id: string; language_code: string }[] };
+    try {
+      parsed = JSON.parse(result.toolCalls[0]?.function.arguments ?? '{}');
+    } catch {
+      throw new AiProviderError('Model returned malformed languages', 'invalid_response', 502);
+    }
+
+    // A missing code shouldn't fail the rest of the batch
+    for (const item of parsed.languages || []) {
+      if (!texts.has(item.id)) continue;
+      codes.set(
+        item.id,
+        typeof item.language_code === 'string' && item.language_code ? item.language_code.toLowerCase() : 'unknown'
+      );
+    }
+  }
+
+  return [...codes.entries()].map(([messageId, languageCode]) => ({
+    messageId,
+    languageCode,
+    languageName: LANGUAGE_NAMES[languageCode] || languageCode,
+  }));
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -57,46 +166,40 @@ serve(async (req) => {
       );
     }
 
-    const { text } = await req.json();
+    const { text, messageIds } = await req.json();
+
+    if (Array.isArray(messageIds)) {
+      if (messageIds.length === 0 || messageIds.length > MAX_BATCH_SIZE) {
+        throw new Error(`Between 1 and ${MAX_BATCH_SIZE} message IDs are required`);
+      }
+
+      const ai = createAiClient({ feature: 'detect-language', userId: user.id });
+      const languages = await detectBatch(supabaseClient, ai, user.id, messageIds.map(String));
+
+      return new Response(
+        JSON.stringify({ languages }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      );
+    }
     
     if (!text) {
       throw new Error('Text is required');
     }
 
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY is not configured');
-    }
-
     console.log('Detecting language for text...');
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          { 
-            role: "system", 
-            content: "Detect the language of the following text. Return ONLY the ISO 639-1 language code in lowercase (e.g., 'en', 'es', 'fr', 'de', 'it', 'pt', 'ja', 'ko', 'zh', 'ar', 'hi'). Nothing else, just the two-letter code."
-          },
-          { role: "user", content: text }
-        ],
-        temperature: 0,
-        max_tokens: 10,
-      }),
-    });
-
-    if (!response.ok) {
-      console.error('AI gateway error:', response.status);
-      throw new Error('Language detection failed');
-    }
-
-    const data = await response.json();
-    const languageCode = data.choices?.[0]?.message?.content?.trim()?.toLowerCase() || 'unknown';
+    const ai = createAiClient({ feature: 'detect-language', userId: user.id });
+    const languageCode = (await ai.complete({
+      messages: [
+        { 
+          role: "system", 
+          content: "Detect the language of the following text. Return ONLY the ISO 639-1 language code in lowercase (e.g., 'en', 'es', 'fr', 'de', 'it', 'pt', 'ja', 'ko', 'zh', 'ar', 'hi'). Nothing else, just the two-letter code."
+        },
+        { role: "user", content: text }
+      ],
+      temperature: 0,
+      maxTokens: 10,
+    })).toLowerCase();
 
     const languageName = LANGUAGE_NAMES[languageCode] || languageCode;
 
@@ -116,6 +219,11 @@ serve(async (req) => {
 
   } catch (error) {
     console.error('Error in detect-language:', error);
+
+    if (error instanceof AiProviderError) {
+      return aiErrorResponse(error, corsHeaders, { languageCode: 'unknown', languageName: 'Unknown' });
+    }
+
     return new Response(
       JSON.stringify({ 
         error: error instanceof Error ? error.message : 'Language detection failed',
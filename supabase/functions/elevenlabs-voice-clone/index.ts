@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.58.0";
+import { loadEntitlements, planLimitResponse } from "../_shared/entitlements.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -38,6 +39,18 @@ serve(async (req) => {
 
     console.log('Authenticated user:', user.id);
 
+    const entitlements = await loadEntitlements(supabaseClient);
+    if (entitlements.voice_clones_used >= entitlements.voice_clones) {
+      return planLimitResponse(
+        'Voice clone limit reached',
+        entitlements.voice_clones === 0
+          ? 'Voice cloning is available on the Premium and Enterprise plans.'
+          : `Your plan includes ${entitlements.voice_clones} custom voices.`,
+        entitlements,
+        corsHeaders
+      );
+    }
+
     const { name, description, audioFiles } = await req.json();
     
     if (!name || !audioFiles || audioFiles.length === 0) {
@@ -86,6 +99,17 @@ serve(async (req) => {
     const result = await response.json();
     console.log('Voice clone created:', result);
 
+    // Counts toward the plan's limit; users can't write this table themselves
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    const { error: recordError } = await serviceClient
+      .from('voice_clones')
+      .insert({ user_id: user.id, voice_id: result.voice_id, name: String(name).slice(0, 100) });
+
+    if (recordError) console.error('Error recording voice clone:', recordError);
+
     return new Response(
       JSON.stringify(result),
       {
@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { aiErrorResponse, AiProviderError, createAiClient } from "../_shared/ai-provider.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -17,11 +18,6 @@ serve(async (req) => {
       throw new Error('Text is required for emotion analysis');
     }
 
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY is not configured');
-    }
-
     const systemPrompt = `You are an expert emotion and sentiment analyzer. Analyze the following text and provide:
 1. Primary emotion (joy, sadness, anger, fear, surprise, disgust, neutral)
 2. Sentiment score (-1 to 1, where -1 is very negative, 0 is neutral, 1 is very positive)
@@ -41,34 +37,14 @@ Respond ONLY with valid JSON in this exact format:
 
     console.log('Analyzing emotion for text:', text.substring(0, 100));
 
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: `Context: ${context || 'General conversation'}\n\nText to analyze: "${text}"` }
-        ],
-        temperature: 0.3,
-      }),
+    const ai = createAiClient({ feature: 'emotion' });
+    const result = await ai.complete({
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: `Context: ${context || 'General conversation'}\n\nText to analyze: "${text}"` }
+      ],
+      temperature: 0.3,
     });
-
-    if (!response.ok) {
-      if (response.status === 429) {
-        throw new Error('Rate limit exceeded. Please try again later.');
-      }
-      if (response.status === 402) {
-        throw new Error('AI credits exhausted. Please add credits to continue.');
-      }
-      throw new Error(`AI API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const result = data.choices[0].message.content;
     
     // Parse the JSON response
     const jsonMatch = result.match(/\{[\s\S]*\}/);
@@ -86,6 +62,11 @@ Respond ONLY with valid JSON in this exact format:
     );
   } catch (error) {
     console.error('Error in emotion-analytics:', error);
+
+    if (error instanceof AiProviderError) {
+      return aiErrorResponse(error, corsHeaders, { emotion: 'neutral', sentiment: 0, confidence: 0 });
+    }
+
     return new Response(
       JSON.stringify({ 
         error: error instanceof Error ? error.message : 'Unknown error',
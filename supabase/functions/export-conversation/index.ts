@@ -0,0 +1,264 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.58.0";
+import { ConversationExport, ExportFormat, ExportedMessage, renderHtml, renderText } from "./render.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Expose-Headers': 'content-disposition',
+};
+
+const ATTACHMENTS_BUCKET = 'chat-attachments';
+// Links in the export stay valid for a week
+const ATTACHMENT_URL_TTL_SECONDS = 7 * 24 * 60 * 60;
+const PAGE_SIZE = 1000;
+// Keeps .in() filters comfortably inside URL length limits
+const ID_CHUNK_SIZE = 200;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json',
+  html: 'text/html; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+};
+
+interface MessageRow {
+  id: string;
+  sender_id: string;
+  content: string | null;
+  message_type: string | null;
+  transcription: string | null;
+  created_at: string;
+  updated_at: string | null;
+  reply_to_id: string | null;
+  thread_root_id: string | null;
+  imported_sender_name: string | null;
+  bot_id: string | null;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+async function loadMessages(supabase: SupabaseClient, conversationId: string): Promise<MessageRow[]> {
+  const rows: MessageRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('id, sender_id, content, message_type, transcription, created_at, updated_at, reply_to_id, thread_root_id, imported_sender_name, bot_id')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Failed to load messages: ${error.message}`);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+// Reactions and translations are keyed by message id only
+async function loadByMessageIds<T>(
+  supabase: SupabaseClient,
+  table: string,
+  columns: string,
+  messageIds: string[],
+  userId?: string
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (const ids of chunk(messageIds, ID_CHUNK_SIZE)) {
+    let query = supabase.from(table).select(columns).in('message_id', ids);
+    if (userId) query = query.eq('user_id', userId);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Failed to load ${table}: ${error.message}`);
+    rows.push(...((data || []) as T[]));
+  }
+  return rows;
+}
+
+/**
+ * Exports one conversation the caller takes part in as JSON, HTML or a text
+ * transcript. Everything is read with the caller's own client, so RLS limits
+ * the export to what they can already see; translations are their own.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid authentication' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { conversationId, format = 'json' } = await req.json();
+    if (!conversationId || !Object.hasOwn(CONTENT_TYPES, format)) {
+      throw new Error('conversationId and a format of json, html or txt are required');
+    }
+
+    const { data: conversation, error: conversationError } = await supabase
+      .from('conversations')
+      .select('id, group_name, is_group, created_at')
+      .eq('id', conversationId)
+      .maybeSingle();
+
+    if (conversationError) throw conversationError;
+    if (!conversation) {
+      return new Response(
+        JSON.stringify({ error: 'Conversation not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: participantRows } = await supabase
+      .from('conversation_participants')
+      .select('user_id, joined_at')
+      .eq('conversation_id', conversationId);
+
+    const messages = await loadMessages(supabase, conversationId);
+    const messageIds = messages.map(message => message.id);
+
+    const userIds = new Set<string>([
+      ...(participantRows || []).map(p => p.user_id),
+      ...messages.map(m => m.sender_id),
+    ]);
+
+    const [{ data: profiles }, { data: bot }, { data: edits }, { data: attachments }, reactions, translations] = await Promise.all([
+      supabase.from('profiles').select('user_id, display_name, username').in('user_id', [...userIds]),
+      supabase.from('bots').select('id, name').eq('conversation_id', conversationId).maybeSingle(),
+      supabase.from('message_edits').select('message_id, previous_content, edited_at').eq('conversation_id', conversationId).order('edited_at'),
+      supabase.from('message_attachments').select('message_id, file_name, mime_type, size_bytes, storage_path').eq('conversation_id', conversationId),
+      loadByMessageIds<{ message_id: string; emoji: string; user_id: string; created_at: string }>(
+        supabase, 'message_reactions', 'message_id, emoji, user_id, created_at', messageIds
+      ),
+      loadByMessageIds<{ message_id: string; source_language: string; target_language: string; translated_text: string }>(
+        supabase, 'message_translations', 'message_id, source_language, target_language, translated_text', messageIds, user.id
+      ),
+    ]);
+
+    const names = new Map((profiles || []).map(p => [p.user_id, p.display_name]));
+
+    const signedUrls = new Map<string, string>();
+    const paths = (attachments || []).map(a => a.storage_path);
+    for (const batch of chunk(paths, ID_CHUNK_SIZE)) {
+      const { data: signed } = await supabase.storage
+        .from(ATTACHMENTS_BUCKET)
+        .createSignedUrls(batch, ATTACHMENT_URL_TTL_SECONDS);
+      for (const item of signed || []) {
+        if (item.path && item.signedUrl) signedUrls.set(item.path, item.signedUrl);
+      }
+    }
+
+    const byMessage = <T extends { message_id: string }>(rows: T[]) => {
+      const grouped = new Map<string, T[]>();
+      for (const row of rows) {
+        grouped.set(row.message_id, [...(grouped.get(row.message_id) || []), row]);
+      }
+      return grouped;
+    };
+
+    const editsByMessage = byMessage(edits || []);
+    const attachmentsByMessage = byMessage(attachments || []);
+    const reactionsByMessage = byMessage(reactions);
+    const translationsByMessage = byMessage(translations);
+
+    const otherName = conversation.is_group
+      ? null
+      : (participantRows || []).filter(p => p.user_id !== user.id).map(p => names.get(p.user_id))[0];
+
+    const exported: ConversationExport = {
+      format_version: 1,
+      exported_at: new Date().toISOString(),
+      exported_by: names.get(user.id) || user.id,
+      conversation: {
+        id: conversation.id,
+        name: conversation.group_name || otherName || 'Conversation',
+        is_group: !!conversation.is_group,
+        created_at: conversation.created_at,
+      },
+      participants: (participantRows || []).map(p => ({
+        user_id: p.user_id,
+        display_name: names.get(p.user_id) || 'Unknown',
+        username: (profiles || []).find(profile => profile.user_id === p.user_id)?.username ?? null,
+        joined_at: p.joined_at,
+      })),
+      messages: messages.map((message): ExportedMessage => ({
+        id: message.id,
+        sender: (message.bot_id && bot?.name) || message.imported_sender_name || names.get(message.sender_id) || 'Unknown',
+        sender_id: message.sender_id,
+        bot_id: message.bot_id,
+        sent_at: message.created_at,
+        edited_at: message.updated_at,
+        type: message.message_type || 'text',
+        content: message.content,
+        transcription: message.transcription,
+        reply_to_id: message.reply_to_id,
+        thread_root_id: message.thread_root_id,
+        edits: (editsByMessage.get(message.id) || []).map(e => ({
+          previous_content: e.previous_content,
+          edited_at: e.edited_at,
+        })),
+        reactions: (reactionsByMessage.get(message.id) || []).map(r => ({
+          emoji: r.emoji,
+          user: names.get(r.user_id) || 'Unknown',
+          created_at: r.created_at,
+        })),
+        translations: (translationsByMessage.get(message.id) || []).map(t => ({
+          target_language: t.target_language,
+          source_language: t.source_language,
+          translated_text: t.translated_text,
+        })),
+        attachments: (attachmentsByMessage.get(message.id) || []).map(a => ({
+          file_name: a.file_name,
+          mime_type: a.mime_type,
+          size_bytes: a.size_bytes,
+          url: signedUrls.get(a.storage_path) ?? null,
+        })),
+      })),
+    };
+
+    const exportFormat = format as ExportFormat;
+    const body = exportFormat === 'html'
+      ? renderHtml(exported)
+      : exportFormat === 'txt'
+        ? renderText(exported)
+        : JSON.stringify(exported, null, 2);
+
+    const fileName = `${exported.conversation.name.replace(/[^a-z0-9]/gi, '_')}_${exported.exported_at.slice(0, 10)}.${exportFormat}`;
+
+    console.log(`Exported ${messages.length} messages from conversation ${conversationId} as ${exportFormat}`);
+
+    return new Response(body, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': CONTENT_TYPES[exportFormat],
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error in export-conversation:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
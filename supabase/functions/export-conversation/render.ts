@@ -0,0 +1,134 @@
+/**
+ * Renders a conversation export as JSON, a standalone HTML page or a plain
+ * text transcript. All three carry the same data; JSON is the one meant to
+ * be read back by other tools.
+ */
+
+export interface ExportedMessage {
+  id: string;
+  sender: string;
+  // For bot replies sender_id is the member who asked the bot
+  sender_id: string;
+  bot_id: string | null;
+  sent_at: string;
+  edited_at: string | null;
+  type: string;
+  content: string | null;
+  transcription: string | null;
+  reply_to_id: string | null;
+  thread_root_id: string | null;
+  edits: { previous_content: string | null; edited_at: string }[];
+  reactions: { emoji: string; user: string; created_at: string }[];
+  translations: { target_language: string; source_language: string; translated_text: string }[];
+  attachments: { file_name: string; mime_type: string; size_bytes: number; url: string | null }[];
+}
+
+export interface ConversationExport {
+  format_version: 1;
+  exported_at: string;
+  exported_by: string;
+  conversation: {
+    id: string;
+    name: string;
+    is_group: boolean;
+    created_at: string;
+  };
+  participants: { user_id: string; display_name: string; username: string | null; joined_at: string }[];
+  messages: ExportedMessage[];
+}
+
+export type ExportFormat = 'json' | 'html' | 'txt';
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatTime = (value: string) => new Date(value).toISOString().replace('T', ' ').slice(0, 16) + ' UTC';
+
+export function renderText(data: ConversationExport): string {
+  const lines = [
+    `Conversation: ${data.conversation.name}`,
+    `Participants: ${data.participants.map(p => p.display_name).join(', ')}`,
+    `Exported: ${formatTime(data.exported_at)}`,
+    '',
+  ];
+
+  for (const message of data.messages) {
+    const edited = message.edited_at ? ' (edited)' : '';
+    const bot = message.bot_id ? ' (bot)' : '';
+    lines.push(`[${formatTime(message.sent_at)}] ${message.sender}${bot}${edited}: ${message.content ?? ''}`);
+
+    if (message.transcription && message.transcription !== message.content) {
+      lines.push(`    Transcription: ${message.transcription}`);
+    }
+    for (const attachment of message.attachments) {
+      lines.push(`    Attachment: ${attachment.file_name}${attachment.url ? ` <${attachment.url}>` : ''}`);
+    }
+    for (const translation of message.translations) {
+      lines.push(`    Translation (${translation.target_language}): ${translation.translated_text}`);
+    }
+    for (const edit of message.edits) {
+      lines.push(`    Before edit at ${formatTime(edit.edited_at)}: ${edit.previous_content ?? ''}`);
+    }
+    if (message.reactions.length > 0) {
+      lines.push(`    Reactions: ${message.reactions.map(r => `${r.emoji} ${r.user}`).join(', ')}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export function renderHtml(data: ConversationExport): string {
+  const messages = data.messages.map(message => {
+    const details: string[] = [];
+
+    if (message.transcription && message.transcription !== message.content) {
+      details.push(`<div class="detail">Transcription: ${escapeHtml(message.transcription)}</div>`);
+    }
+    for (const attachment of message.attachments) {
+      const name = escapeHtml(attachment.file_name);
+      details.push(`<div class="detail">Attachment: ${attachment.url ? `<a href="${escapeHtml(attachment.url)}">${name}</a>` : name}</div>`);
+    }
+    for (const translation of message.translations) {
+      details.push(`<div class="detail">Translation (${escapeHtml(translation.target_language)}): ${escapeHtml(translation.translated_text)}</div>`);
+    }
+    for (const edit of message.edits) {
+      details.push(`<div class="detail muted">Before edit at ${formatTime(edit.edited_at)}: ${escapeHtml(edit.previous_content ?? '')}</div>`);
+    }
+    if (message.reactions.length > 0) {
+      details.push(`<div class="detail">${message.reactions.map(r => `${escapeHtml(r.emoji)} ${escapeHtml(r.user)}`).join(' · ')}</div>`);
+    }
+
+    return `<div class="message" id="m-${message.id}">
+  <div class="meta"><strong>${escapeHtml(message.sender)}</strong>${message.bot_id ? ' · bot' : ''} · ${formatTime(message.sent_at)}${message.edited_at ? ' · edited' : ''}</div>
+  <div class="content">${escapeHtml(message.content ?? '')}</div>
+  ${details.join('\n  ')}
+</div>`;
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(data.conversation.name)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 760px; margin: 2rem auto; padding: 0 1rem; color: #1f2937; }
+  .message { padding: 0.5rem 0; border-bottom: 1px solid #e5e7eb; }
+  .meta { font-size: 0.8rem; color: #6b7280; }
+  .content { white-space: pre-wrap; margin-top: 0.25rem; }
+  .detail { font-size: 0.85rem; margin-top: 0.25rem; }
+  .muted { color: #9ca3af; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(data.conversation.name)}</h1>
+<p>Participants: ${data.participants.map(p => escapeHtml(p.display_name)).join(', ')}<br>
+Exported ${formatTime(data.exported_at)}</p>
+${messages.join('\n')}
+</body>
+</html>
+`;
+}
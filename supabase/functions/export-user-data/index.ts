@@ -0,0 +1,188 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.58.0";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Expose-Headers': 'content-disposition',
+};
+
+const PAGE_SIZE = 1000;
+
+// Every table holding personal data, with the column that ties a row to its user
+const USER_TABLES: Record<string, string> = {
+  profiles: 'user_id',
+  profiles_private: 'user_id',
+  user_roles: 'user_id',
+  user_subscriptions: 'user_id',
+  billing_organizations: 'owner_id',
+  organization_seats: 'user_id',
+  contacts: 'user_id',
+  contact_language_preferences: 'user_id',
+  conversations: 'created_by',
+  conversation_participants: 'user_id',
+  messages: 'sender_id',
+  scheduled_messages: 'sender_id',
+  message_attachments: 'uploader_id',
+  message_reactions: 'user_id',
+  message_translations: 'user_id',
+  message_drafts: 'user_id',
+  polls: 'created_by',
+  poll_votes: 'user_id',
+  checklist_items: 'created_by',
+  moderation_flags: 'sender_id',
+  moderation_mutes: 'user_id',
+  translation_glossary_terms: 'user_id',
+  suppressed_notifications: 'user_id',
+  push_subscriptions: 'user_id',
+  calls: 'caller_id',
+  call_participants: 'user_id',
+  meetings: 'created_by',
+  meeting_participants: 'user_id',
+  meeting_recording_consents: 'user_id',
+  meeting_recordings: 'started_by',
+  meeting_transcripts: 'speaker_id',
+  communities: 'created_by',
+  community_members: 'user_id',
+  moments: 'user_id',
+  moment_replies: 'user_id',
+  moment_views: 'viewer_id',
+  streams: 'created_by',
+  stream_followers: 'user_id',
+  stream_post_reactions: 'user_id',
+  ai_chat_conversations: 'user_id',
+  ai_chat_messages: 'user_id',
+  ai_chat_rate_limits: 'user_id',
+  ai_usage: 'user_id',
+  voice_clones: 'user_id',
+  bot_interactions: 'user_id',
+  bot_triggers: 'created_by',
+  bot_schedules: 'created_by',
+  knowledge_sources: 'created_by',
+  user_documents: 'user_id',
+  security_audit_log: 'user_id',
+};
+
+async function loadRows(supabase: SupabaseClient, table: string, column: string, userId: string) {
+  const rows: unknown[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .eq(column, userId)
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Failed to load ${table}: ${error.message}`);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Downloads everything stored about a user as one JSON document, for data
+ * access requests. Users export themselves; admins may pass a userId to
+ * export someone else, e.g. for a legal hold.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid authentication' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const userId: string = body.userId || user.id;
+
+    if (userId !== user.id) {
+      const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+      if (!isAdmin) {
+        return new Response(
+          JSON.stringify({ error: 'Admin access required' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    // Some of these tables have no SELECT policy for their own users
+    // (audit log, rate limits), so reads go through the service role
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: { user: subject }, error: subjectError } = await supabaseAdmin.auth.admin.getUserById(userId);
+    if (subjectError || !subject) {
+      return new Response(
+        JSON.stringify({ error: 'User not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Someone else's data leaves a trace in their audit log
+    if (userId !== user.id) {
+      const { error: auditError } = await supabaseAdmin.from('security_audit_log').insert({
+        user_id: userId,
+        event_type: 'user_data_exported',
+        metadata: { exported_by: user.id },
+      });
+      if (auditError) throw new Error(`Failed to record the export: ${auditError.message}`);
+    }
+
+    const tables: Record<string, unknown[]> = {};
+    for (const [table, column] of Object.entries(USER_TABLES)) {
+      tables[table] = await loadRows(supabaseAdmin, table, column, userId);
+    }
+
+    const exportedAt = new Date().toISOString();
+    const document = {
+      format_version: 1,
+      exported_at: exportedAt,
+      account: {
+        id: subject.id,
+        email: subject.email ?? null,
+        phone: subject.phone ?? null,
+        created_at: subject.created_at,
+        last_sign_in_at: subject.last_sign_in_at ?? null,
+      },
+      tables,
+    };
+
+    const rowCount = Object.values(tables).reduce((sum, rows) => sum + rows.length, 0);
+    console.log(`Exported ${rowCount} rows of personal data for user ${userId} (requested by ${user.id})`);
+
+    return new Response(JSON.stringify(document, null, 2), {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="nexora_data_${exportedAt.slice(0, 10)}.json"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error in export-user-data:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
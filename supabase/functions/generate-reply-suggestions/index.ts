@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.58.0";
+import { aiErrorResponse, AiProviderError, createAiClient } from "../_shared/ai-provider.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -39,11 +40,7 @@ serve(async (req) => {
     }
 
     const { conversationContext, currentMessage } = await req.json();
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY is not configured');
-    }
+    const ai = createAiClient({ feature: 'reply-suggestions', userId: user.id });
 
     console.log('Generating reply suggestions for message:', currentMessage);
 
@@ -60,34 +57,24 @@ ${conversationContext.map((msg: any) => `${msg.sender}: ${msg.text}`).join('\n')
 
 Generate a ${tone} reply to the last message. Just provide the reply text, nothing else.`;
 
-        const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${LOVABLE_API_KEY}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            model: "google/gemini-2.5-flash",
+        let content: string | null;
+        try {
+          ({ content } = await ai.chat({
             messages: [
               { role: "system", content: systemPrompt },
               { role: "user", content: userPrompt }
             ],
             temperature: 0.8,
-            max_tokens: 100,
-          }),
-        });
-
-        if (!response.ok) {
-          console.error(`AI gateway error for ${tone}:`, response.status);
+            maxTokens: 100,
+          }));
+        } catch (error) {
+          console.error(`AI provider error for ${tone}:`, error);
           return null;
         }
-
-        const data = await response.json();
-        const content = data.choices?.[0]?.message?.content?.trim();
         
         return {
           tone,
-          text: content || `Thanks for your message!`
+          text: content?.trim() || `Thanks for your message!`
         };
       })
     );
@@ -107,6 +94,11 @@ Generate a ${tone} reply to the last message. Just provide the reply text, nothi
 
   } catch (error) {
     console.error('Error generating suggestions:', error);
+
+    if (error instanceof AiProviderError) {
+      return aiErrorResponse(error, corsHeaders, { suggestions: [] });
+    }
+
     return new Response(
       JSON.stringify({ 
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -0,0 +1,96 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const DEFAULT_STUN_URLS = 'stun:stun.l.google.com:19302,stun:stun1.l.google.com:19302';
+const DEFAULT_TTL_SECONDS = 60 * 60;
+
+const splitUrls = (value: string) =>
+  value.split(',').map(url => url.trim()).filter(Boolean);
+
+// coturn REST API auth: credential = base64(HMAC-SHA1(shared secret, username))
+async function createTurnCredential(secret: string, username: string) {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(username));
+  return btoa(String.fromCharCode(...new Uint8Array(signature)));
+}
+
+/**
+ * Issues the ICE server list for calls. TURN credentials are short-lived
+ * and bound to the caller: the username is "<expiry unix time>:<user id>",
+ * which coturn (use-auth-secret / static-auth-secret) verifies with the
+ * same shared secret.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Verify authentication
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await userClient.auth.getUser();
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid authentication' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const stunUrls = splitUrls(Deno.env.get('STUN_URLS') ?? DEFAULT_STUN_URLS);
+    const turnUrls = splitUrls(Deno.env.get('TURN_URLS') ?? '');
+    const turnSecret = Deno.env.get('TURN_SECRET');
+    const ttl = Number(Deno.env.get('TURN_TTL_SECONDS')) || DEFAULT_TTL_SECONDS;
+
+    const iceServers: { urls: string[]; username?: string; credential?: string }[] = [
+      { urls: stunUrls },
+    ];
+
+    const expiresAt = Math.floor(Date.now() / 1000) + ttl;
+
+    if (turnUrls.length > 0 && turnSecret) {
+      const username = `${expiresAt}:${user.id}`;
+      iceServers.push({
+        urls: turnUrls,
+        username,
+        credential: await createTurnCredential(turnSecret, username),
+      });
+    } else {
+      console.warn('TURN_URLS/TURN_SECRET not configured, returning STUN servers only');
+    }
+
+    return new Response(
+      JSON.stringify({ iceServers, ttl, expiresAt: new Date(expiresAt * 1000).toISOString() }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in get-ice-servers function:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,12 +1,19 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.58.0";
+import { aiErrorResponse, AiProviderError } from "../_shared/ai-provider.ts";
+import {
+  BotRateLimitError,
+  executeBotActions,
+  generateBotResponse,
+  loadBot,
+  MAX_MESSAGES,
+  postBotMessage,
+  VALID_MODES,
+  VALID_PERSONAS,
+} from "../_shared/group-bot.ts";
 
 // Input validation constants
-const VALID_MODES = ['assistant', 'knowledge', 'moderator', 'persona', 'translation'] as const;
-const VALID_PERSONAS = ['professional', 'casual', 'friendly', 'technical', 'empathetic'] as const;
-const MAX_MESSAGE_LENGTH = 10000;
 const MAX_COMMAND_LENGTH = 500;
-const MAX_MESSAGES = 100;
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -63,163 +70,107 @@ serve(async (req) => {
       );
     }
 
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY not configured');
-    }
-
-    // Build system prompt based on mode, persona, and auto_translate
-    const systemPrompt = buildSystemPrompt(mode, persona, auto_translate, target_language);
-    console.log('📝 Using mode:', mode, 'persona:', persona, 'auto_translate:', auto_translate);
-
-    // Format messages for AI with sanitization
-    const formattedMessages = messages.map((msg: any) => {
-      // Validate and truncate message content
-      const content = String(msg.content || '').slice(0, MAX_MESSAGE_LENGTH);
-      const senderName = String(msg.sender_name || 'User').replace(/[<>]/g, ''); // Remove potential HTML tags
-      const timestamp = new Date(msg.created_at).toLocaleTimeString();
-      
-      return {
-        role: 'user',
-        content: `[${senderName} at ${timestamp}]: ${content}`
-      };
-    });
-
-    // Add command if present
-    if (command) {
-      // Sanitize command input
-      const sanitizedCommand = String(command).slice(0, MAX_COMMAND_LENGTH).replace(/[<>]/g, '');
-      formattedMessages.push({
-        role: 'user',
-        content: `Command: ${sanitizedCommand}`
-      });
-    }
-
-    // Define tools for structured output
-    const tools = [
-      {
-        type: "function",
-        function: {
-          name: "bot_response",
-          description: "Provide a structured bot response",
-          parameters: {
-            type: "object",
-            properties: {
-              mode: {
-                type: "string",
-                enum: ["assistant", "knowledge", "moderator", "persona", "translation"]
-              },
-              primary_response: {
-                type: "string",
-                description: "The main bot response"
-              },
-              alternatives: {
-                type: "array",
-                items: { type: "string" },
-                description: "Alternative responses or suggestions"
-              },
-              actions: {
-                type: "array",
-                items: {
-                  type: "string",
-                  enum: ["reminder", "task", "summary", "moderation", "translation"]
-                },
-                description: "Actions to be taken"
-              },
-              confidence: {
-                type: "number",
-                minimum: 0,
-                maximum: 1,
-                description: "Confidence score"
-              }
-            },
-            required: ["mode", "primary_response", "confidence"],
-            additionalProperties: false
-          }
-        }
-      }
-    ];
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
 
-    console.log('🚀 Calling Lovable AI...');
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          ...formattedMessages
-        ],
-        tools,
-        tool_choice: { type: "function", function: { name: "bot_response" } }
-      }),
-    });
+    const authHeader = req.headers.get('Authorization');
+    const token = authHeader?.replace('Bearer ', '');
+    const { data: { user } } = await supabase.auth.getUser(token);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('❌ AI Gateway error:', response.status, errorText);
-      
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded. Please try again in a moment.' }),
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: 'AI credits depleted. Please add credits to your workspace.' }),
-          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      
-      throw new Error(`AI Gateway error: ${response.status}`);
+    // The reply is posted into the conversation, so only participants may ask
+    if (!user || !(await isConversationParticipant(supabase, conversationId, user.id))) {
+      return new Response(
+        JSON.stringify({ error: 'Access denied' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    const data = await response.json();
-    console.log('✅ AI response received');
+    const { data: settings } = await supabase
+      .from('bot_settings')
+      .select('enabled, persona, timezone')
+      .eq('conversation_id', conversationId)
+      .maybeSingle();
 
-    // Extract tool call result
-    const toolCall = data.choices[0]?.message?.tool_calls?.[0];
-    if (!toolCall) {
-      throw new Error('No tool call in AI response');
+    if (settings && settings.enabled === false) {
+      return new Response(
+        JSON.stringify({ error: 'The bot is turned off for this group' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    const result = JSON.parse(toolCall.function.arguments);
+    const bot = await loadBot(supabase, conversationId);
+
+    // The group's saved persona is part of the bot's identity and wins over the client's
+    const botPersona = settings?.persona || persona || 'professional';
+
+    const timezone = settings?.timezone || 'UTC';
+    console.log('📝 Using mode:', mode, 'persona:', botPersona, 'auto_translate:', auto_translate);
+
+    const result = await generateBotResponse(supabase, {
+      conversationId,
+      userId: user.id,
+      bot,
+      mode,
+      persona: botPersona,
+      autoTranslate: auto_translate,
+      targetLanguage: target_language,
+      timezone,
+      messages,
+      command,
+      maxCommandLength: MAX_COMMAND_LENGTH,
+    });
     console.log('📦 Parsed result:', result);
 
-    // Store interaction
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    );
+    // Post the reply as the bot. sender_id records who asked; bot_id is the author.
+    const messageId = await postBotMessage(supabase, {
+      conversationId,
+      bot,
+      askedBy: user.id,
+      content: String(result.primary_response || ''),
+      metadata: result.citations?.length ? { citations: result.citations } : undefined,
+    });
 
-    const authHeader = req.headers.get('Authorization');
-    const token = authHeader?.replace('Bearer ', '');
-    const { data: { user } } = await supabase.auth.getUser(token);
+    const executedActions = await executeBotActions(supabase, {
+      conversationId,
+      bot,
+      askedBy: user.id,
+      items: result.action_items,
+      timezone,
+      persona: botPersona,
+    });
 
-    if (user) {
-      await supabase.from('bot_interactions').insert({
-        conversation_id: conversationId,
-        user_id: user.id,
-        mode: result.mode,
-        command,
-        response: result.primary_response,
-        confidence: result.confidence
-      });
-      console.log('💾 Interaction stored');
-    }
+    // Store interaction
+    await supabase.from('bot_interactions').insert({
+      conversation_id: conversationId,
+      user_id: user.id,
+      mode: result.mode,
+      command,
+      response: result.primary_response,
+      confidence: result.confidence
+    });
+    console.log('💾 Interaction stored');
 
     return new Response(
-      JSON.stringify(result),
+      JSON.stringify({ ...result, message_id: messageId, bot, executed_actions: executedActions }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
     console.error('❌ Error:', error);
+
+    if (error instanceof AiProviderError) {
+      return aiErrorResponse(error, corsHeaders);
+    }
+
+    if (error instanceof BotRateLimitError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
       { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -227,62 +178,17 @@ serve(async (req) => {
   }
 });
 
-function buildSystemPrompt(mode: string, persona: string, auto_translate: boolean = false, target_language: string = 'en'): string {
-  const translationNote = auto_translate 
-    ? `\n\nAUTO-TRANSLATION ENABLED: If messages are in a language other than ${target_language}, automatically translate them to ${target_language} in your response. Mention the original language detected.`
-    : '';
-
-  const basePrompt = `You are GroupBotAI, a helpful chatbot participant in group conversations. You analyze messages and respond naturally as a group member.
-
-Current mode: ${mode}
-Current persona: ${persona}${translationNote}
-
-Key behaviors:
-- Be concise and natural (1-3 sentences unless summarizing)
-- Use the persona to guide your tone and style
-- Focus on the specific mode's purpose
-- Always provide confidence scores
-- Suggest alternatives when helpful`;
-
-  const modePrompts = {
-    assistant: `
-ASSISTANT MODE: Help manage tasks, reminders, and summaries.
-- Track action items from discussions
-- Summarize key points when asked
-- Set reminders for important dates/tasks
-- Organize information clearly`,
-
-    knowledge: `
-KNOWLEDGE MODE: Answer questions using conversation context.
-- Reference previous messages when relevant
-- Admit when you don't have enough context
-- Ask clarifying questions if needed
-- Provide accurate, helpful information`,
-
-    moderator: `
-MODERATOR MODE: Maintain a positive, respectful environment.
-- Identify potentially toxic or offensive language
-- Suggest polite rewrites for problematic messages
-- NEVER block or censor - only suggest improvements
-- Be gentle and constructive in feedback`,
-
-    persona: `
-PERSONA MODE: Embody the selected personality.
-Personas:
-- professional: Clear, formal, business-focused
-- funny: Light-hearted, witty, uses appropriate humor
-- tutor: Educational, patient, explains concepts
-- motivator: Encouraging, energetic, uplifting
-
-Maintain consistency with the chosen persona while being helpful.`,
-
-    translation: `
-TRANSLATION MODE: Translate messages accurately.
-- Preserve original meaning and tone
-- Indicate the source and target languages
-- Handle idioms and cultural context appropriately
-- Maintain formality level from original`
-  };
-
-  return `${basePrompt}\n\n${modePrompts[mode as keyof typeof modePrompts] || modePrompts.assistant}`;
+async function isConversationParticipant(
+  supabase: ReturnType<typeof createClient>,
+  conversationId: string,
+  userId: string
+): Promise<boolean> {
+  const { data: participant } = await supabase
+    .from('conversation_participants')
+    .select('id')
+    .eq('conversation_id', conversationId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return !!participant;
 }
@@ -0,0 +1,155 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.58.0";
+import { parseChatExport } from "./parsers.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Exports larger than this are rejected rather than half-imported
+const MAX_MESSAGES = 20000;
+const INSERT_CHUNK_SIZE = 500;
+
+/**
+ * Imports a WhatsApp or Telegram chat export as a new group conversation
+ * owned by the caller. With preview set it only parses the file and reports
+ * who is in it, so the client can ask which of those names is the caller.
+ *
+ * Every imported message is stored with the caller as sender; the original
+ * author goes in imported_sender_name, left empty for the caller's own.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid authentication' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { content, fileName, timezone = 'UTC', preview = false, selfName } = await req.json();
+    if (typeof content !== 'string' || !content.trim()) {
+      throw new Error('content is required');
+    }
+
+    let parsed;
+    try {
+      parsed = parseChatExport(content, timezone);
+    } catch (parseError) {
+      return new Response(
+        JSON.stringify({ error: parseError instanceof Error ? parseError.message : 'Could not read the export' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (parsed.messages.length > MAX_MESSAGES) {
+      return new Response(
+        JSON.stringify({ error: `Exports are limited to ${MAX_MESSAGES} messages` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const participants = [...new Set(parsed.messages.map(message => message.sender))];
+    // WhatsApp names its export "WhatsApp Chat with <name>.txt"
+    const name = parsed.name
+      || (typeof fileName === 'string' ? fileName.replace(/\.[^.]+$/, '').replace(/^WhatsApp Chat (with|-)\s*/i, '').trim() : '')
+      || participants.join(', ').slice(0, 100);
+
+    if (preview) {
+      return new Response(
+        JSON.stringify({
+          source: parsed.source,
+          name,
+          participants,
+          messageCount: parsed.messages.length,
+          firstMessageAt: parsed.messages[0]?.sentAt ?? null,
+          lastMessageAt: parsed.messages[parsed.messages.length - 1]?.sentAt ?? null,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Backdated messages and the importer's ownership of other people's
+    // messages are both outside what the messages policies allow
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: conversation, error: conversationError } = await supabaseAdmin
+      .from('conversations')
+      .insert({
+        is_group: true,
+        group_name: name,
+        created_by: user.id,
+        imported_from: parsed.source,
+      })
+      .select('id')
+      .single();
+
+    if (conversationError) throw new Error(`Failed to create conversation: ${conversationError.message}`);
+
+    try {
+      const { error: participantError } = await supabaseAdmin
+        .from('conversation_participants')
+        .insert({ conversation_id: conversation.id, user_id: user.id, is_admin: true });
+
+      if (participantError) throw new Error(`Failed to add participant: ${participantError.message}`);
+
+      const rows = parsed.messages.map(message => ({
+        conversation_id: conversation.id,
+        sender_id: user.id,
+        content: message.text,
+        message_type: 'text',
+        created_at: message.sentAt,
+        read_at: message.sentAt,
+        imported_sender_name: message.sender === selfName ? null : message.sender,
+      }));
+
+      for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+        const { error: insertError } = await supabaseAdmin
+          .from('messages')
+          .insert(rows.slice(i, i + INSERT_CHUNK_SIZE));
+
+        if (insertError) throw new Error(`Failed to import messages: ${insertError.message}`);
+      }
+    } catch (importError) {
+      // Leave nothing behind from a partial import
+      await supabaseAdmin.from('conversations').delete().eq('id', conversation.id);
+      throw importError;
+    }
+
+    console.log(`Imported ${parsed.messages.length} ${parsed.source} messages into conversation ${conversation.id} for user ${user.id}`);
+
+    return new Response(
+      JSON.stringify({ conversationId: conversation.id, name, messageCount: parsed.messages.length }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in import-conversation:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
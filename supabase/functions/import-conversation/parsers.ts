@@ -0,0 +1,188 @@
+/**
+ * Parsers for chat exports from other apps:
+ *
+ *   WhatsApp "Export chat" (.txt), Android and iOS layouts:
+ *     31/12/2023, 21:41 - Alex: Happy new year
+ *     [31/12/2023, 9:41:05 PM] Alex: Happy new year
+ *   Telegram Desktop "Export chat history" as JSON (result.json)
+ *
+ * WhatsApp timestamps are wall-clock times in the exporting phone's timezone
+ * with no offset, so the caller supplies the timezone to read them in.
+ */
+
+export type ImportSource = 'whatsapp' | 'telegram';
+
+export interface ImportedMessage {
+  sender: string;
+  text: string;
+  sentAt: string;
+}
+
+export interface ParsedChat {
+  source: ImportSource;
+  // Telegram exports carry the chat name; WhatsApp's is only in the file name
+  name: string | null;
+  messages: ImportedMessage[];
+}
+
+const WHATSAPP_LINE =
+  /^\[?(\d{1,2})[./-](\d{1,2})[./-](\d{2,4}),?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\s*([AaPp])\.?\s?[Mm]\.?)?\]?(?:\s+-)?\s+(.*)$/;
+
+interface WhatsAppLine {
+  first: number;
+  second: number;
+  year: number;
+  hour: number;
+  minute: number;
+  second_: number;
+  body: string;
+}
+
+// Offset of the timezone from UTC at the given instant, in milliseconds
+const timezoneOffset = (instant: number, timezone: string) => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(instant));
+
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value ?? 0);
+  const asUtc = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return asUtc - instant;
+};
+
+const wallClockToIso = (year: number, month: number, day: number, hour: number, minute: number, second: number, timezone: string) => {
+  const guess = Date.UTC(year, month - 1, day, hour, minute, second);
+  try {
+    return new Date(guess - timezoneOffset(guess, timezone)).toISOString();
+  } catch {
+    // Unknown timezone names fall back to UTC
+    return new Date(guess).toISOString();
+  }
+};
+
+export function parseWhatsApp(content: string, timezone: string): ParsedChat {
+  const entries: { line: WhatsAppLine; sender: string | null; text: string }[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    // iOS exports mark lines with direction marks and use narrow spaces before AM/PM
+    const line = rawLine.replace(/[\u200e\u200f]/g, '').replace(/[\u202f\u00a0]/g, ' ');
+    const match = line.match(WHATSAPP_LINE);
+
+    if (!match) {
+      // Continuation of a multi-line message
+      const last = entries[entries.length - 1];
+      if (last?.sender) last.text += `\n${line}`;
+      continue;
+    }
+
+    let hour = Number(match[4]);
+    const meridiem = match[7]?.toLowerCase();
+    if (meridiem === 'p' && hour < 12) hour += 12;
+    if (meridiem === 'a' && hour === 12) hour = 0;
+
+    const year = Number(match[3]);
+    const parsed: WhatsAppLine = {
+      first: Number(match[1]),
+      second: Number(match[2]),
+      year: year < 100 ? 2000 + year : year,
+      hour,
+      minute: Number(match[5]),
+      second_: Number(match[6] ?? 0),
+      body: match[8],
+    };
+
+    // "Name: text" is a message; anything else is a system notice like "Alex joined"
+    const separator = parsed.body.indexOf(': ');
+    entries.push(separator > 0
+      ? { line: parsed, sender: parsed.body.slice(0, separator).trim(), text: parsed.body.slice(separator + 2) }
+      : { line: parsed, sender: null, text: '' });
+  }
+
+  // Day/month order follows the phone's locale; a component over 12 settles it
+  const monthFirst = !entries.some(e => e.line.first > 12) && entries.some(e => e.line.second > 12);
+
+  const messages = entries
+    .filter(entry => entry.sender && entry.text.trim())
+    .map(({ line, sender, text }) => {
+      const [day, month] = monthFirst ? [line.second, line.first] : [line.first, line.second];
+      return {
+        sender: sender!,
+        text: text.trim(),
+        sentAt: wallClockToIso(line.year, month, day, line.hour, line.minute, line.second_, timezone),
+      };
+    });
+
+  return { source: 'whatsapp', name: null, messages };
+}
+
+type TelegramText = string | { type: string; text: string };
+
+interface TelegramExport {
+  name?: string;
+  messages?: {
+    type: string;
+    date: string;
+    date_unixtime?: string;
+    from?: string | null;
+    text?: TelegramText | TelegramText[];
+    photo?: string;
+    file?: string;
+  }[];
+}
+
+const telegramText = (text: TelegramText | TelegramText[] | undefined): string => {
+  if (!text) return '';
+  if (Array.isArray(text)) return text.map(part => telegramText(part)).join('');
+  return typeof text === 'string' ? text : text.text;
+};
+
+export function parseTelegram(content: string, timezone: string): ParsedChat {
+  const data = JSON.parse(content) as TelegramExport;
+  if (!Array.isArray(data.messages)) {
+    throw new Error('Not a Telegram chat export');
+  }
+
+  const messages = data.messages
+    .filter(message => message.type === 'message' && message.from)
+    .map(message => {
+      let text = telegramText(message.text).trim();
+      if (!text && (message.photo || message.file)) {
+        text = message.photo ? '<photo omitted>' : '<file omitted>';
+      }
+
+      // date_unixtime is exact; older exports only have local wall-clock dates
+      let sentAt: string;
+      if (message.date_unixtime) {
+        sentAt = new Date(Number(message.date_unixtime) * 1000).toISOString();
+      } else {
+        const [datePart, timePart = '00:00:00'] = message.date.split('T');
+        const [year, month, day] = datePart.split('-').map(Number);
+        const [hour, minute, second] = timePart.split(':').map(Number);
+        sentAt = wallClockToIso(year, month, day, hour, minute, second || 0, timezone);
+      }
+
+      return { sender: message.from!, text, sentAt };
+    })
+    .filter(message => message.text);
+
+  return { source: 'telegram', name: data.name ?? null, messages };
+}
+
+export function parseChatExport(content: string, timezone: string): ParsedChat {
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith('{')) {
+    return parseTelegram(trimmed, timezone);
+  }
+
+  const parsed = parseWhatsApp(content, timezone);
+  if (parsed.messages.length === 0) {
+    throw new Error('No messages found. Upload a WhatsApp .txt export or a Telegram result.json');
+  }
+  return parsed;
+}
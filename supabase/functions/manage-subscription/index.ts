@@ -0,0 +1,200 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.58.0";
+import {
+  applyBillingEvent,
+  BillingError,
+  BillingEvent,
+  BillingProvider,
+  createBillingProvider,
+  MAX_SEATS,
+  PAID_PLANS,
+  PaidPlan,
+} from "../_shared/billing.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const ACTIONS = ['checkout', 'portal', 'cancel', 'seats'] as const;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const isHttpUrl = (value: unknown): value is string => {
+  try {
+    return ['http:', 'https:'].includes(new URL(String(value)).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const parseSeats = (value: unknown) => {
+  const seats = Number(value);
+  return Number.isInteger(seats) && seats >= 1 && seats <= MAX_SEATS ? seats : null;
+};
+
+async function applyEvents(supabase: SupabaseClient, provider: BillingProvider, events: BillingEvent[]) {
+  for (const event of events) {
+    await applyBillingEvent(supabase, provider.name, event);
+  }
+}
+
+// Reuses an organization left over from an abandoned checkout
+async function organizationFor(supabase: SupabaseClient, userId: string, name: string) {
+  const { data: existing } = await supabase
+    .from('billing_organizations')
+    .select('id')
+    .eq('owner_id', userId)
+    .order('created_at')
+    .limit(1)
+    .maybeSingle();
+
+  if (existing) {
+    await supabase.from('billing_organizations').update({ name }).eq('id', existing.id);
+    return existing.id as string;
+  }
+
+  const { data: organization, error } = await supabase
+    .from('billing_organizations')
+    .insert({ name, owner_id: userId })
+    .select('id')
+    .single();
+
+  if (error) throw new Error(`Failed to create organization: ${error.message}`);
+
+  // The owner takes the first seat
+  await supabase
+    .from('organization_seats')
+    .insert({ organization_id: organization.id, user_id: userId, assigned_by: userId });
+
+  return organization.id as string;
+}
+
+/**
+ * Starts a checkout for a paid plan, opens the provider's billing portal,
+ * cancels at the end of the period, or changes an enterprise plan's seat
+ * count. Subscription rows are only written from the provider's events.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, plan, seats, organizationName, returnUrl } = await req.json();
+
+    if (!ACTIONS.includes(action)) {
+      return jsonResponse({ error: 'Invalid action' }, 400);
+    }
+
+    if ((action === 'checkout' || action === 'portal') && !isHttpUrl(returnUrl)) {
+      return jsonResponse({ error: 'A return URL is required' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('Authorization');
+    const token = authHeader?.replace('Bearer ', '');
+    const { data: { user } } = await supabase.auth.getUser(token);
+
+    if (!user) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+
+    const provider = createBillingProvider(supabase);
+
+    const { data: subscription } = await supabase
+      .from('user_subscriptions')
+      .select('plan_type, status, trial_ends_at, organization_id, provider_customer_id, provider_subscription_id')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    const hasSubscription = !!subscription?.provider_subscription_id && subscription.status !== 'canceled';
+
+    if (action === 'checkout') {
+      if (!PAID_PLANS.includes(plan)) {
+        return jsonResponse({ error: 'Invalid plan' }, 400);
+      }
+
+      if (hasSubscription) {
+        return jsonResponse({ error: 'You already have a subscription. Change it from the billing portal.' }, 409);
+      }
+
+      const seatCount = plan === 'enterprise' ? parseSeats(seats) : 1;
+      const name = String(organizationName ?? '').trim();
+      if (!seatCount || (plan === 'enterprise' && (!name || name.length > 100))) {
+        return jsonResponse({ error: 'Enterprise plans need an organization name and between 1 and 1000 seats' }, 400);
+      }
+
+      const { data: entitlement } = await supabase
+        .from('plan_entitlements')
+        .select('trial_days')
+        .eq('plan_type', plan)
+        .single();
+
+      const session = await provider.createCheckout({
+        userId: user.id,
+        email: user.email,
+        customerId: subscription?.provider_customer_id ?? null,
+        plan: plan as PaidPlan,
+        seats: seatCount,
+        // One trial per user
+        trialDays: subscription?.trial_ends_at ? 0 : entitlement?.trial_days ?? 0,
+        organizationId: plan === 'enterprise' ? await organizationFor(supabase, user.id, name) : null,
+        successUrl: returnUrl,
+        cancelUrl: returnUrl,
+      });
+
+      await applyEvents(supabase, provider, session.events);
+      return jsonResponse({ url: session.url });
+    }
+
+    if (action === 'portal') {
+      if (!subscription?.provider_customer_id) {
+        return jsonResponse({ error: 'No billing account yet' }, 404);
+      }
+
+      return jsonResponse({ url: await provider.createPortal(subscription.provider_customer_id, returnUrl) });
+    }
+
+    if (!hasSubscription) {
+      return jsonResponse({ error: 'No active subscription' }, 404);
+    }
+
+    if (action === 'cancel') {
+      await applyEvents(supabase, provider, await provider.cancelAtPeriodEnd(subscription.provider_subscription_id));
+      return jsonResponse({ success: true });
+    }
+
+    // Seat changes: never below the seats already handed out
+    const seatCount = parseSeats(seats);
+    if (subscription.plan_type !== 'enterprise' || !subscription.organization_id || !seatCount) {
+      return jsonResponse({ error: 'Seats can only be changed on an enterprise plan, between 1 and 1000' }, 400);
+    }
+
+    const { count: assigned } = await supabase
+      .from('organization_seats')
+      .select('user_id', { count: 'exact', head: true })
+      .eq('organization_id', subscription.organization_id);
+
+    if (seatCount < (assigned ?? 0)) {
+      return jsonResponse({ error: `${assigned} seats are assigned. Free some before lowering the seat count.` }, 409);
+    }
+
+    await applyEvents(supabase, provider, await provider.updateSeats(subscription.provider_subscription_id, seatCount));
+    return jsonResponse({ success: true });
+  } catch (error) {
+    console.error('Error in manage-subscription function:', error);
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof BillingError ? error.status : 500
+    );
+  }
+});
@@ -0,0 +1,175 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const ATTACHMENTS_BUCKET = "chat-attachments";
+const DEFAULT_BATCH_SIZE = 50;
+const MAX_BATCH_SIZE = 200;
+
+const EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/mpeg": "mp3",
+  "audio/mp4": "m4a",
+  "audio/wav": "wav",
+};
+
+// audio_data holds either a data URL or bare base64 (assumed webm)
+function decodeAudioData(audioData: string): { bytes: Uint8Array; mimeType: string } {
+  let mimeType = "audio/webm";
+  let base64 = audioData.trim();
+
+  const dataUrl = base64.match(/^data:([^;,]+)?(?:;[^,]*)?,(.*)$/s);
+  if (dataUrl) {
+    mimeType = dataUrl[1] || mimeType;
+    base64 = dataUrl[2];
+  }
+
+  const binary = atob(base64.replace(/\s/g, ""));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+
+  return { bytes, mimeType };
+}
+
+/**
+ * Moves legacy base64 voice notes out of messages.audio_data into the
+ * chat-attachments bucket, one batch per call. Call repeatedly until
+ * `remaining` is no larger than the number of failures so far.
+ */
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Create admin client with service role
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Create client with user's token to verify admin status
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: authHeader } }
+    });
+
+    // Get the requesting user
+    const { data: { user: requestingUser }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !requestingUser) {
+      return new Response(
+        JSON.stringify({ error: "Authentication failed" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Verify the requesting user is an admin
+    const { data: isAdmin, error: roleError } = await supabaseClient.rpc('has_role', {
+      _user_id: requestingUser.id,
+      _role: 'admin'
+    });
+
+    if (roleError || !isAdmin) {
+      return new Response(
+        JSON.stringify({ error: "Admin access required" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const batchSize = Math.min(Math.max(Number(body.batchSize) || DEFAULT_BATCH_SIZE, 1), MAX_BATCH_SIZE);
+    // Callers pass the running failure count so messages that keep failing are skipped
+    const offset = Math.max(Number(body.offset) || 0, 0);
+
+    const { data: messages, error: fetchError } = await supabaseAdmin
+      .from("messages")
+      .select("id, conversation_id, sender_id, audio_data")
+      .not("audio_data", "is", null)
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(offset, offset + batchSize - 1);
+
+    if (fetchError) throw fetchError;
+
+    let migrated = 0;
+    let failed = 0;
+
+    for (const message of messages || []) {
+      try {
+        const { bytes, mimeType } = decodeAudioData(message.audio_data);
+        const storagePath = `${message.conversation_id}/${message.sender_id}/${message.id}/voice-note.${EXTENSIONS[mimeType] || "webm"}`;
+
+        const { error: uploadError } = await supabaseAdmin.storage
+          .from(ATTACHMENTS_BUCKET)
+          .upload(storagePath, bytes, { contentType: mimeType, upsert: true });
+
+        if (uploadError) throw uploadError;
+
+        // A retried message may already have its attachment row
+        const { data: existing } = await supabaseAdmin
+          .from("message_attachments")
+          .select("id")
+          .eq("message_id", message.id)
+          .eq("storage_path", storagePath)
+          .maybeSingle();
+
+        if (!existing) {
+          const { error: insertError } = await supabaseAdmin.from("message_attachments").insert({
+            message_id: message.id,
+            conversation_id: message.conversation_id,
+            uploader_id: message.sender_id,
+            storage_path: storagePath,
+            file_name: storagePath.split("/").pop(),
+            mime_type: mimeType,
+            size_bytes: bytes.length,
+          });
+
+          if (insertError) throw insertError;
+        }
+
+        const { error: updateError } = await supabaseAdmin
+          .from("messages")
+          .update({ audio_data: null, message_type: "audio" })
+          .eq("id", message.id);
+
+        if (updateError) throw updateError;
+
+        migrated++;
+      } catch (error) {
+        console.error(`Failed to migrate audio for message ${message.id}:`, error);
+        failed++;
+      }
+    }
+
+    const { count: remaining } = await supabaseAdmin
+      .from("messages")
+      .select("id", { count: "exact", head: true })
+      .not("audio_data", "is", null);
+
+    return new Response(
+      JSON.stringify({ migrated, failed, remaining: remaining ?? 0 }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (error: unknown) {
+    console.error("Error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
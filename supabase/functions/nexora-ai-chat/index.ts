@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { aiErrorResponse, AiMessage, AiProviderError, createAiClient, ToolCall } from "../_shared/ai-provider.ts";
+import { executeTool, NEXORA_TOOLS, prepareWriteTool, ToolContext, WRITE_TOOLS } from "./tools.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -7,14 +9,114 @@ const corsHeaders = {
 };
 
 interface ChatMessage {
-  role: string;
+  role: 'user' | 'assistant';
   content: string;
 }
 
+const SYSTEM_PROMPT = `You are Nexora AI, an intelligent and friendly AI assistant integrated into the Nexora messaging app. Your goal is to provide helpful, accurate, and well-structured responses.
+
+## Your Capabilities:
+- Answer questions on a wide range of topics including science, technology, history, culture, and more
+- Help with problem-solving, brainstorming, and creative tasks
+- Provide recommendations for books, movies, recipes, and activities
+- Assist with writing, editing, and language-related queries
+- Offer explanations for complex concepts in simple terms
+- Have friendly, engaging conversations
+
+## Response Guidelines:
+1. **Be Accurate**: Provide factually correct information. If you're uncertain, say so clearly.
+2. **Be Helpful**: Focus on directly addressing the user's question or need.
+3. **Be Concise but Complete**: Give thorough answers without unnecessary padding.
+4. **Use Structure**: For complex topics, use bullet points, numbered lists, or clear paragraphs.
+5. **Be Conversational**: Maintain a friendly, approachable tone while being professional.
+6. **Show Your Reasoning**: When explaining something, briefly explain why or how.
+
+## Important Notes:
+- If asked about real-time information (current weather, stock prices, live sports), explain that you don't have access to real-time data.
+- If you don't know something, be honest rather than making up information.
+- Keep responses focused and relevant to what the user asked.
+- Use emojis sparingly to add warmth when appropriate.
+
+## Your Tools:
+You can look things up in the user's own Nexora data: search their messages, summarize one of their chats and list their upcoming meetings. You can also schedule a meeting or draft a message into a chat, but those only happen after the user confirms them in the app, so describe what you prepared and ask them to confirm rather than saying it is done. Only use tools when the request needs them.
+
+You are here to help users get the information and assistance they need!`;
+
 // Rate limit configuration
 const RATE_LIMIT_MAX = 20; // requests per window
 const RATE_LIMIT_WINDOW_SECONDS = 60; // 1 minute
 
+// Model turns per request; the last one gets no tools so it has to answer
+const MAX_TOOL_ROUNDS = 4;
+
+const encoder = new TextEncoder();
+const sseEvent = (payload: unknown) => encoder.encode(`data: ${JSON.stringify(payload)}\n\n`);
+
+const parseArguments = (raw: string): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(raw || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Forward an upstream completion stream's text to the client as it arrives
+ * and collect any tool calls, which providers send as fragments by index.
+ */
+async function relayCompletion(
+  upstream: ReadableStream<Uint8Array>,
+  send: (payload: unknown) => void,
+  isCancelled: () => boolean
+) {
+  const reader = upstream.getReader();
+  const decoder = new TextDecoder();
+  const toolCalls: ToolCall[] = [];
+  let content = '';
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (isCancelled()) {
+      await reader.cancel();
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (!line.startsWith('data: ') || line.includes('[DONE]')) continue;
+
+      let delta;
+      try {
+        delta = JSON.parse(line.slice(6)).choices?.[0]?.delta;
+      } catch {
+        continue;
+      }
+      if (!delta) continue;
+
+      if (delta.content) {
+        content += delta.content;
+        send({ choices: [{ delta: { content: delta.content } }] });
+      }
+
+      for (const fragment of delta.tool_calls ?? []) {
+        const index = fragment.index ?? toolCalls.length;
+        const call = toolCalls[index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.function.name += fragment.function.name;
+        if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+      }
+    }
+  }
+
+  return { content, toolCalls: toolCalls.filter(Boolean) };
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -92,7 +194,38 @@ serve(async (req) => {
     }
 
     const body = await req.json();
-    const { messages } = body;
+    const { messages, timezone } = body;
+
+    const toolContext: ToolContext = {
+      supabase: supabaseUser,
+      userId: user.id,
+      origin: req.headers.get('origin') ?? Deno.env.get('SITE_URL') ?? '',
+    };
+
+    // The user confirmed an action the assistant proposed; run it and return the result
+    if (body.confirmTool) {
+      const { name, arguments: args } = body.confirmTool;
+      if (!WRITE_TOOLS.has(name)) {
+        return new Response(
+          JSON.stringify({ error: 'Only proposed actions can be confirmed' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      try {
+        const result = await executeTool(toolContext, name, args ?? {});
+        console.log("Confirmed tool executed:", name, "for user:", user.id);
+        return new Response(JSON.stringify({ result }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      } catch (toolError) {
+        console.error("Confirmed tool failed:", name, toolError);
+        return new Response(
+          JSON.stringify({ error: toolError instanceof Error ? toolError.message : 'Action failed' }),
+          { status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
     
     // Validate messages array exists and is an array
     if (!messages || !Array.isArray(messages)) {
@@ -159,85 +292,94 @@ serve(async (req) => {
       }
     }
 
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
-    }
-
     console.log("Processing Nexora AI chat request with", messages.length, "validated messages");
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          { 
-            role: "system", 
-            content: `You are Nexora AI, an intelligent and friendly AI assistant integrated into the Nexora messaging app. Your goal is to provide helpful, accurate, and well-structured responses.
-
-## Your Capabilities:
-- Answer questions on a wide range of topics including science, technology, history, culture, and more
-- Help with problem-solving, brainstorming, and creative tasks
-- Provide recommendations for books, movies, recipes, and activities
-- Assist with writing, editing, and language-related queries
-- Offer explanations for complex concepts in simple terms
-- Have friendly, engaging conversations
+    const now = new Date();
+    const systemPrompt = `${SYSTEM_PROMPT}
 
-## Response Guidelines:
-1. **Be Accurate**: Provide factually correct information. If you're uncertain, say so clearly.
-2. **Be Helpful**: Focus on directly addressing the user's question or need.
-3. **Be Concise but Complete**: Give thorough answers without unnecessary padding.
-4. **Use Structure**: For complex topics, use bullet points, numbered lists, or clear paragraphs.
-5. **Be Conversational**: Maintain a friendly, approachable tone while being professional.
-6. **Show Your Reasoning**: When explaining something, briefly explain why or how.
+Current time: ${now.toISOString()}${typeof timezone === 'string' ? ` (the user's timezone is ${timezone})` : ''}`;
 
-## Important Notes:
-- If asked about real-time information (current weather, stock prices, live sports), explain that you don't have access to real-time data.
-- If you don't know something, be honest rather than making up information.
-- Keep responses focused and relevant to what the user asked.
-- Use emojis sparingly to add warmth when appropriate.
+    const conversation: AiMessage[] = [
+      { role: "system", content: systemPrompt },
+      ...(messages as ChatMessage[]),
+    ];
 
-You are here to help users get the information and assistance they need!` 
-          },
-          ...messages,
-        ],
-        stream: true,
-      }),
+    const ai = createAiClient({ feature: 'chat', userId: user.id });
+    const completionFor = (round: number) => ai.chatStream({
+      messages: conversation,
+      ...(round < MAX_TOOL_ROUNDS - 1 && { tools: NEXORA_TOOLS, toolChoice: 'auto' as const }),
     });
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ error: "Rate limits exceeded, please try again later." }), {
-          status: 429,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      if (response.status === 402) {
-        return new Response(JSON.stringify({ error: "Payment required, please add funds to your workspace." }), {
-          status: 402,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-      return new Response(JSON.stringify({ error: "AI gateway error" }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
+    // Open the first completion before answering so provider errors keep their status codes
+    const firstCompletion = await completionFor(0);
+    let cancelled = false;
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (payload: unknown) => {
+          if (!cancelled) controller.enqueue(sseEvent(payload));
+        };
 
-    console.log("Streaming response from AI gateway");
+        try {
+          for (let round = 0; round < MAX_TOOL_ROUNDS && !cancelled; round++) {
+            const upstream = round === 0 ? firstCompletion : await completionFor(round);
+            const { content, toolCalls } = await relayCompletion(upstream, send, () => cancelled);
+            if (toolCalls.length === 0) break;
 
-    return new Response(response.body, {
+            conversation.push({ role: 'assistant', content: content || null, tool_calls: toolCalls });
+
+            for (const call of toolCalls) {
+              const args = parseArguments(call.function.arguments);
+              send({ tool_call: { id: call.id, name: call.function.name, arguments: args } });
+
+              let toolResult: unknown;
+              try {
+                if (WRITE_TOOLS.has(call.function.name)) {
+                  // Writes wait for the user; the model only learns that it was proposed
+                  const preview = await prepareWriteTool(toolContext, call.function.name, args);
+                  send({ tool_confirmation: { id: call.id, name: call.function.name, arguments: args, preview } });
+                  toolResult = { status: 'awaiting_confirmation', preview };
+                } else {
+                  toolResult = await executeTool(toolContext, call.function.name, args);
+                  send({ tool_result: { id: call.id, result: toolResult } });
+                }
+              } catch (toolError) {
+                const message = toolError instanceof Error ? toolError.message : 'Tool failed';
+                console.error("Tool error:", call.function.name, message);
+                send({ tool_result: { id: call.id, error: message } });
+                toolResult = { error: message };
+              }
+
+              conversation.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(toolResult) });
+            }
+          }
+
+          if (!cancelled) controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        } catch (streamError) {
+          console.error("Nexora AI stream error:", streamError);
+          send({ error: streamError instanceof Error ? streamError.message : 'Stream failed' });
+        } finally {
+          if (!cancelled) controller.close();
+        }
+      },
+      cancel() {
+        // The user pressed stop; don't start further model turns
+        cancelled = true;
+      },
+    });
+
+    console.log("Streaming response from", ai.provider, ai.model);
+
+    return new Response(stream, {
       headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
     });
   } catch (error) {
     console.error("Nexora AI chat error:", error);
+
+    if (error instanceof AiProviderError) {
+      return aiErrorResponse(error, corsHeaders);
+    }
+
     return new Response(JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }), {
       status: 500,
       headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -0,0 +1,342 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { ToolDefinition } from "../_shared/ai-provider.ts";
+
+/**
+ * Tools Nexora AI can call over the user's own data. Everything runs with
+ * the caller's JWT, so row level security decides what the assistant can
+ * see. Tools that write (create_meeting, draft_message) are never run from
+ * the model's turn: the chat stream only announces them, and they execute
+ * when the user confirms in the app.
+ */
+
+export interface ToolContext {
+  supabase: SupabaseClient;
+  userId: string;
+  // App origin, used for meeting links like CreateMeetingDialog builds
+  origin: string;
+}
+
+export const WRITE_TOOLS = new Set(['create_meeting', 'draft_message']);
+
+const MAX_SEARCH_RESULTS = 10;
+const MAX_MEETINGS = 20;
+
+export const NEXORA_TOOLS: ToolDefinition[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'search_messages',
+      description: "Search the user's chat messages, meeting transcripts and past Nexora AI chats by keyword and meaning. Supports from:, in:, before:, after: and has: operators and \"quoted phrases\".",
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'What to look for' },
+          limit: { type: 'integer', minimum: 1, maximum: MAX_SEARCH_RESULTS },
+        },
+        required: ['query'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'summarize_conversation',
+      description: 'Summarize one of the user\'s chats, identified by contact name, group name or conversation id.',
+      parameters: {
+        type: 'object',
+        properties: {
+          conversation: { type: 'string', description: 'Contact name, group name or conversation id' },
+          summary_type: { type: 'string', enum: ['bullets', 'tldr', 'action_items'] },
+        },
+        required: ['conversation'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'list_upcoming_meetings',
+      description: 'List meetings the user created or was invited to that have not started yet.',
+      parameters: {
+        type: 'object',
+        properties: {
+          limit: { type: 'integer', minimum: 1, maximum: MAX_MEETINGS },
+        },
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'create_meeting',
+      description: 'Schedule a meeting with some of the user\'s contacts. The user is asked to confirm before it is created.',
+      parameters: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          description: { type: 'string' },
+          start: { type: 'string', description: 'ISO 8601 start time including timezone offset' },
+          end: { type: 'string', description: 'ISO 8601 end time including timezone offset' },
+          participants: { type: 'array', items: { type: 'string' }, description: 'Display names or usernames to invite' },
+          is_video: { type: 'boolean' },
+        },
+        required: ['title', 'start', 'end', 'participants'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'draft_message',
+      description: 'Put a draft message into one of the user\'s chats for them to review and send. Nothing is sent automatically.',
+      parameters: {
+        type: 'object',
+        properties: {
+          conversation: { type: 'string', description: 'Contact name, group name or conversation id' },
+          content: { type: 'string', description: 'The message text' },
+        },
+        required: ['conversation', 'content'],
+      },
+    },
+  },
+];
+
+type ToolArgs = Record<string, unknown>;
+
+interface ConversationSummary {
+  id: string;
+  name: string;
+  isGroup: boolean;
+}
+
+const listConversations = async ({ supabase, userId }: ToolContext): Promise<ConversationSummary[]> => {
+  const { data: memberships, error } = await supabase
+    .from('conversation_participants')
+    .select('conversation_id, conversations(id, is_group, group_name)')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  const conversations = (memberships || [])
+    .map(row => (Array.isArray(row.conversations) ? row.conversations[0] : row.conversations))
+    .filter(Boolean) as { id: string; is_group: boolean | null; group_name: string | null }[];
+
+  // Direct chats are named after the other person
+  const directIds = conversations.filter(conv => !conv.is_group).map(conv => conv.id);
+  const otherMembers = new Map<string, string>();
+  if (directIds.length > 0) {
+    const { data: others } = await supabase
+      .from('conversation_participants')
+      .select('conversation_id, user_id')
+      .in('conversation_id', directIds)
+      .neq('user_id', userId);
+
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('user_id, display_name, username')
+      .in('user_id', (others || []).map(row => row.user_id));
+
+    const names = new Map((profiles || []).map(p => [p.user_id, p.display_name || p.username]));
+    (others || []).forEach(row => otherMembers.set(row.conversation_id, names.get(row.user_id) || 'Unknown'));
+  }
+
+  return conversations.map(conv => ({
+    id: conv.id,
+    name: conv.is_group ? conv.group_name || 'Group' : otherMembers.get(conv.id) || 'Unknown',
+    isGroup: !!conv.is_group,
+  }));
+};
+
+const resolveConversation = async (ctx: ToolContext, reference: unknown) => {
+  const needle = String(reference ?? '').trim().toLowerCase();
+  if (!needle) throw new Error('Which chat? Give a contact or group name.');
+
+  const conversations = await listConversations(ctx);
+  const exact = conversations.find(conv => conv.id === needle || conv.name.toLowerCase() === needle);
+  if (exact) return exact;
+
+  const matches = conversations.filter(conv => conv.name.toLowerCase().includes(needle));
+  if (matches.length === 1) return matches[0];
+  if (matches.length > 1) {
+    throw new Error(`"${reference}" matches several chats: ${matches.map(conv => conv.name).join(', ')}`);
+  }
+  throw new Error(`No chat found for "${reference}"`);
+};
+
+const resolveParticipants = async ({ supabase, userId }: ToolContext, names: unknown) => {
+  const wanted = Array.isArray(names) ? names.map(name => String(name).trim()).filter(Boolean) : [];
+  if (wanted.length === 0) throw new Error('A meeting needs at least one participant');
+
+  const resolved = new Map<string, { user_id: string; name: string }>();
+  for (const name of wanted) {
+    // Same lookup as the participant picker, limited to the user's network
+    const { data, error } = await supabase.rpc('search_users_for_meeting', { search_term: name });
+    if (error) throw error;
+
+    const candidates = ((data || []) as { user_id: string; display_name: string | null; username: string | null }[])
+      .filter(candidate => candidate.user_id !== userId);
+    const lower = name.toLowerCase();
+    const match = candidates.find(c => c.display_name?.toLowerCase() === lower || c.username?.toLowerCase() === lower)
+      ?? (candidates.length === 1 ? candidates[0] : undefined);
+
+    if (!match) {
+      throw new Error(candidates.length > 1
+        ? `"${name}" matches several people: ${candidates.map(c => c.display_name || c.username).join(', ')}`
+        : `No contact found for "${name}"`);
+    }
+    resolved.set(match.user_id, { user_id: match.user_id, name: match.display_name || match.username || name });
+  }
+
+  return Array.from(resolved.values());
+};
+
+const parseMeetingTimes = (args: ToolArgs) => {
+  const start = new Date(String(args.start));
+  const end = new Date(String(args.end));
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) throw new Error('Meeting start and end must be valid dates');
+  if (end <= start) throw new Error('A meeting has to end after it starts');
+  return { start, end };
+};
+
+const prepareMeeting = async (ctx: ToolContext, args: ToolArgs) => {
+  const title = String(args.title ?? '').trim();
+  if (!title) throw new Error('A meeting needs a title');
+  const { start, end } = parseMeetingTimes(args);
+  return {
+    title,
+    description: args.description ? String(args.description) : null,
+    start: start.toISOString(),
+    end: end.toISOString(),
+    is_video: args.is_video !== false,
+    participants: await resolveParticipants(ctx, args.participants),
+  };
+};
+
+const prepareDraft = async (ctx: ToolContext, args: ToolArgs) => {
+  const content = String(args.content ?? '').trim();
+  if (!content) throw new Error('The draft is empty');
+  const conversation = await resolveConversation(ctx, args.conversation);
+  return { conversation_id: conversation.id, conversation_name: conversation.name, content };
+};
+
+/**
+ * Resolve a write tool's arguments into what will actually happen, e.g.
+ * which chat a draft goes to and who gets invited. This is shown to the
+ * user for confirmation, and redone on confirm so nothing the client sends
+ * back is trusted.
+ */
+export const prepareWriteTool = (ctx: ToolContext, name: string, args: ToolArgs): Promise<unknown> => {
+  switch (name) {
+    case 'create_meeting':
+      return prepareMeeting(ctx, args);
+    case 'draft_message':
+      return prepareDraft(ctx, args);
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+};
+
+const searchMessages = async ({ supabase }: ToolContext, args: ToolArgs) => {
+  const limit = Math.min(Number(args.limit) || 5, MAX_SEARCH_RESULTS);
+  const { data, error } = await supabase.functions.invoke('semantic-search', {
+    body: { query: String(args.query ?? ''), limit },
+  });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+
+  return {
+    results: (data?.results || []).map((row: { source: string; id: string; conversation_id: string | null; meeting_id: string | null; snippet: string; created_at: string }) => ({
+      source: row.source,
+      id: row.id,
+      conversation_id: row.conversation_id,
+      meeting_id: row.meeting_id,
+      // Matched terms are wrapped in ⟦ ⟧
+      snippet: row.snippet.slice(0, 300),
+      created_at: row.created_at,
+    })),
+  };
+};
+
+const summarizeConversation = async (ctx: ToolContext, args: ToolArgs) => {
+  const conversation = await resolveConversation(ctx, args.conversation);
+  const { data, error } = await ctx.supabase.functions.invoke('summarize-chat', {
+    body: { conversationId: conversation.id, summaryType: args.summary_type || 'bullets' },
+  });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+
+  return {
+    conversation_id: conversation.id,
+    conversation_name: conversation.name,
+    summary: data?.summary,
+    message_count: data?.messageCount ?? 0,
+  };
+};
+
+const listUpcomingMeetings = async ({ supabase }: ToolContext, args: ToolArgs) => {
+  const limit = Math.min(Number(args.limit) || 10, MAX_MEETINGS);
+  const { data, error } = await supabase
+    .from('meetings')
+    .select('id, title, description, scheduled_start, scheduled_end, is_video, meeting_link, status')
+    .gte('scheduled_start', new Date().toISOString())
+    .neq('status', 'cancelled')
+    .order('scheduled_start', { ascending: true })
+    .limit(limit);
+
+  if (error) throw error;
+  return { meetings: data || [] };
+};
+
+const createMeeting = async (ctx: ToolContext, args: ToolArgs) => {
+  const meeting = await prepareMeeting(ctx, args);
+
+  const { data: created, error } = await ctx.supabase.from('meetings').insert({
+    title: meeting.title,
+    description: meeting.description,
+    scheduled_start: meeting.start,
+    scheduled_end: meeting.end,
+    meeting_link: `${ctx.origin}/meeting/${crypto.randomUUID()}`,
+    created_by: ctx.userId,
+    is_video: meeting.is_video,
+    status: 'scheduled',
+  }).select('id, title, scheduled_start, scheduled_end, meeting_link').single();
+
+  if (error) throw error;
+
+  const { error: participantError } = await ctx.supabase
+    .from('meeting_participants')
+    .insert(meeting.participants.map(p => ({ meeting_id: created.id, user_id: p.user_id, status: 'invited' })));
+
+  if (participantError) throw participantError;
+
+  return { meeting: created, invited: meeting.participants.map(p => p.name) };
+};
+
+const draftMessage = async (ctx: ToolContext, args: ToolArgs) => {
+  const draft = await prepareDraft(ctx, args);
+
+  const { error } = await ctx.supabase
+    .from('message_drafts')
+    .upsert({
+      user_id: ctx.userId,
+      conversation_id: draft.conversation_id,
+      content: draft.content,
+    }, { onConflict: 'user_id,conversation_id' });
+
+  if (error) throw error;
+  return draft;
+};
+
+const TOOL_HANDLERS: Record<string, (ctx: ToolContext, args: ToolArgs) => Promise<unknown>> = {
+  search_messages: searchMessages,
+  summarize_conversation: summarizeConversation,
+  list_upcoming_meetings: listUpcomingMeetings,
+  create_meeting: createMeeting,
+  draft_message: draftMessage,
+};
+
+export const executeTool = (ctx: ToolContext, name: string, args: ToolArgs) => {
+  const handler = TOOL_HANDLERS[name];
+  if (!handler) throw new Error(`Unknown tool: ${name}`);
+  return handler(ctx, args);
+};
@@ -25,6 +25,13 @@ serve(async (req) => {
 
     console.log(`Sending call notification for call ${callId} to user ${recipientUserId}`);
 
+    // Caller and conversation drive the recipient's DND and mute rules
+    const { data: call } = await supabase
+      .from("calls")
+      .select("caller_id, conversation_id")
+      .eq("id", callId)
+      .maybeSingle();
+
     // Send push notification
     const { data, error } = await supabase.functions.invoke("send-push-notification", {
       body: {
@@ -36,7 +43,10 @@ serve(async (req) => {
           callId,
           callerName,
           callType,
+          conversationId: call?.conversation_id,
         },
+        senderId: call?.caller_id,
+        conversationId: call?.conversation_id,
       },
     });
 
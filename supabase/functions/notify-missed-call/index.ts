@@ -0,0 +1,131 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+/**
+ * Sends a push notification to every participant who missed a finished
+ * call. Each participant is notified at most once, however many clients
+ * report the call as ended.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await userClient.auth.getUser();
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid authentication' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { callId } = await req.json();
+    if (!callId) {
+      throw new Error('callId is required');
+    }
+
+    // RLS only returns calls the user took part in
+    const { data: call, error: callError } = await userClient
+      .from('calls')
+      .select('id, caller_id, call_type, status, conversation_id')
+      .eq('id', callId)
+      .single();
+
+    if (callError || !call) {
+      return new Response(
+        JSON.stringify({ error: 'Call not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (call.status !== 'ended' && call.status !== 'missed') {
+      return new Response(
+        JSON.stringify({ success: true, notified: 0 }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Claim the participants to notify so concurrent requests don't double-send
+    const { data: missed, error: missedError } = await supabase
+      .from('call_participants')
+      .update({ missed_notified_at: new Date().toISOString() })
+      .eq('call_id', callId)
+      .eq('status', 'missed')
+      .is('missed_notified_at', null)
+      .select('user_id');
+
+    if (missedError) throw missedError;
+    if (!missed || missed.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, notified: 0 }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: callerProfile } = await supabase
+      .from('profiles')
+      .select('display_name')
+      .eq('user_id', call.caller_id)
+      .single();
+
+    const callerName = callerProfile?.display_name || 'Someone';
+    const callLabel = call.call_type === 'video' ? 'video' : 'voice';
+
+    await Promise.all(missed.map(async ({ user_id }) => {
+      const { error } = await supabase.functions.invoke('send-push-notification', {
+        body: {
+          userId: user_id,
+          title: `Missed ${callLabel} call`,
+          body: `${callerName} tried to call you`,
+          data: {
+            type: 'missed_call',
+            callId,
+            conversationId: call.conversation_id,
+          },
+          senderId: call.caller_id,
+          conversationId: call.conversation_id,
+        },
+      });
+
+      if (error) {
+        console.error('Error sending missed call notification:', error);
+      }
+    }));
+
+    return new Response(
+      JSON.stringify({ success: true, notified: missed.length }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in notify-missed-call function:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
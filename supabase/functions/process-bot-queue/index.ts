@@ -0,0 +1,375 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.58.0";
+import {
+  BotIdentity,
+  executeBotActions,
+  generateBotResponse,
+  loadBot,
+  loadRecentMessages,
+  postBotMessage,
+  writeDigest,
+} from "../_shared/group-bot.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BATCH_SIZE = 10;
+const MAX_BATCHES_PER_RUN = 10;
+const MAX_ATTEMPTS = 5;
+const CONTEXT_MESSAGES = 30;
+const MENTION = /(^|[^\p{L}\p{N}_])@nexora(?![\p{L}\p{N}_])/giu;
+
+const SCHEDULES = {
+  daily_digest: { windowMs: 24 * 60 * 60_000, heading: '☀️ Daily digest' },
+  weekly_summary: { windowMs: 7 * 24 * 60 * 60_000, heading: '🗓️ Weekly summary' },
+} as const;
+
+interface BotJob {
+  message_id: string;
+  enqueued_at: string;
+  attempts: number;
+  kind: 'mention' | 'keyword';
+  reply_message_id: string | null;
+  conversation_id: string;
+  sender_id: string;
+  content: string | null;
+  thread_root_id: string | null;
+  trigger_mode: string | null;
+  trigger_instructions: string | null;
+  bot_enabled: boolean;
+  default_mode: string;
+  persona: string;
+  auto_translate: boolean;
+  target_language: string;
+  timezone: string;
+}
+
+interface BotSchedule {
+  id: string;
+  conversation_id: string;
+  kind: keyof typeof SCHEDULES;
+  next_run_at: string;
+  attempts: number;
+  created_by: string;
+  last_run_at: string | null;
+  bot_enabled: boolean;
+  persona: string;
+  timezone: string;
+}
+
+const completeJob = async (supabase: SupabaseClient, job: BotJob) => {
+  const { error } = await supabase
+    .from('bot_jobs')
+    .delete()
+    .eq('message_id', job.message_id)
+    .eq('enqueued_at', job.enqueued_at);
+
+  if (error) console.error('Error completing bot job:', job.message_id, error);
+};
+
+const failJob = async (supabase: SupabaseClient, job: BotJob, message: string) => {
+  const giveUp = job.attempts >= MAX_ATTEMPTS;
+  const backoffMinutes = 2 ** job.attempts;
+
+  const { error } = await supabase
+    .from('bot_jobs')
+    .update({
+      last_error: message.slice(0, 500),
+      locked_at: null,
+      available_at: new Date(Date.now() + backoffMinutes * 60_000).toISOString(),
+      failed_at: giveUp ? new Date().toISOString() : null,
+    })
+    .eq('message_id', job.message_id)
+    .eq('enqueued_at', job.enqueued_at);
+
+  if (error) console.error('Error recording bot job failure:', job.message_id, error);
+};
+
+const completeSchedule = async (
+  supabase: SupabaseClient,
+  schedule: BotSchedule,
+  messageId: string | null,
+  message?: string
+) => {
+  const { error } = await supabase.rpc('complete_bot_schedule', {
+    _id: schedule.id,
+    _claimed_run_at: schedule.next_run_at,
+    _message_id: messageId,
+    _error: message?.slice(0, 500) ?? null,
+  });
+
+  if (error) console.error('Error completing bot schedule:', schedule.id, error);
+};
+
+// Retries with backoff; after MAX_ATTEMPTS the run is skipped and the next occurrence kept
+const failSchedule = async (supabase: SupabaseClient, schedule: BotSchedule, message: string) => {
+  if (schedule.attempts >= MAX_ATTEMPTS) {
+    await completeSchedule(supabase, schedule, null, message);
+    return;
+  }
+
+  const { error } = await supabase
+    .from('bot_schedules')
+    .update({
+      last_error: message.slice(0, 500),
+      locked_at: null,
+      next_run_at: new Date(Date.now() + 2 ** schedule.attempts * 60_000).toISOString(),
+    })
+    .eq('id', schedule.id)
+    .eq('next_run_at', schedule.next_run_at);
+
+  if (error) console.error('Error recording bot schedule failure:', schedule.id, error);
+};
+
+const isHeld = async (supabase: SupabaseClient, messageId: string) => {
+  const { data } = await supabase
+    .from('moderation_holds')
+    .select('message_id')
+    .eq('message_id', messageId)
+    .maybeSingle();
+
+  return !!data;
+};
+
+// Keyword jobs are only answered when one of the group's rules matches
+const matchRule = async (supabase: SupabaseClient, job: BotJob) => {
+  const { data, error } = await supabase.rpc('match_bot_trigger', { _message_id: job.message_id });
+  if (error) throw new Error(`Failed to match bot rules: ${error.message}`);
+
+  const rule = data?.[0];
+  if (!rule) return false;
+
+  job.trigger_mode = rule.mode;
+  job.trigger_instructions = rule.instructions;
+  return true;
+};
+
+const isParticipant = async (supabase: SupabaseClient, conversationId: string, userId: string) => {
+  const { data } = await supabase
+    .from('conversation_participants')
+    .select('id')
+    .eq('conversation_id', conversationId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return !!data;
+};
+
+// Answers the message that mentioned the bot or matched a rule, in the same thread
+async function replyToJob(supabase: SupabaseClient, job: BotJob, bots: Map<string, BotIdentity>) {
+  let bot = bots.get(job.conversation_id);
+  if (!bot) {
+    bot = await loadBot(supabase, job.conversation_id);
+    bots.set(job.conversation_id, bot);
+  }
+
+  const messages = await loadRecentMessages(supabase, job.conversation_id, {
+    limit: CONTEXT_MESSAGES,
+    threadRootId: job.thread_root_id,
+  });
+
+  const text = String(job.content || '');
+  const question = text.replace(MENTION, '$1').trim();
+  const command = job.kind === 'mention'
+    ? question || 'Someone mentioned you. Reply to their latest message.'
+    : `Reply to this message from the group: "${text}"${job.trigger_instructions ? `\nInstructions from the group's admins: ${job.trigger_instructions}` : ''}`;
+  const mode = (job.kind === 'keyword' && job.trigger_mode) || job.default_mode;
+
+  const result = await generateBotResponse(supabase, {
+    conversationId: job.conversation_id,
+    userId: job.sender_id,
+    bot,
+    mode,
+    persona: job.persona,
+    autoTranslate: job.auto_translate,
+    targetLanguage: job.target_language,
+    timezone: job.timezone,
+    messages,
+    command,
+    question,
+  });
+
+  const replyId = await postBotMessage(supabase, {
+    conversationId: job.conversation_id,
+    bot,
+    askedBy: job.sender_id,
+    content: String(result.primary_response || ''),
+    metadata: result.citations?.length ? { citations: result.citations } : undefined,
+    replyToId: job.message_id,
+    threadRootId: job.thread_root_id,
+  });
+
+  // Anything that fails from here on must not lead to a second reply
+  const { error: recordError } = await supabase
+    .from('bot_jobs')
+    .update({ reply_message_id: replyId })
+    .eq('message_id', job.message_id);
+  if (recordError) console.error('Error recording bot reply:', job.message_id, recordError);
+
+  const executed = await executeBotActions(supabase, {
+    conversationId: job.conversation_id,
+    bot,
+    askedBy: job.sender_id,
+    items: result.action_items,
+    timezone: job.timezone,
+    persona: job.persona,
+    threadRootId: job.thread_root_id,
+  });
+  executed
+    .filter(action => action.error)
+    .forEach(action => console.error('Bot action failed:', job.message_id, action.type, action.error));
+
+  await supabase.from('bot_interactions').insert({
+    conversation_id: job.conversation_id,
+    user_id: job.sender_id,
+    mode: result.mode,
+    command: text.slice(0, 500),
+    response: result.primary_response,
+    confidence: result.confidence,
+  });
+}
+
+// Posts a digest of the period, or nothing when the group was quiet
+async function runSchedule(supabase: SupabaseClient, schedule: BotSchedule): Promise<string | null> {
+  const { windowMs, heading } = SCHEDULES[schedule.kind];
+  const bot = await loadBot(supabase, schedule.conversation_id);
+
+  const digest = await writeDigest(supabase, {
+    conversationId: schedule.conversation_id,
+    userId: schedule.created_by,
+    bot,
+    persona: schedule.persona,
+    since: new Date(Date.now() - windowMs).toISOString(),
+    heading,
+  });
+  if (!digest) return null;
+
+  return postBotMessage(supabase, {
+    conversationId: schedule.conversation_id,
+    bot,
+    askedBy: schedule.created_by,
+    content: digest,
+  });
+}
+
+/**
+ * Drains bot_jobs, filled by a trigger on messages that mention @nexora or
+ * are sent in a group with bot rules, which are matched here. Then posts any
+ * scheduled digests that are due. Meant to run on a schedule (every minute) with the service role
+ * key.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    if (req.headers.get('authorization') !== `Bearer ${serviceKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Service role required' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceKey);
+    const bots = new Map<string, BotIdentity>();
+
+    let replied = 0;
+    let digests = 0;
+    let skipped = 0;
+    let failed = 0;
+
+    for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+      const { data, error } = await supabase.rpc('claim_bot_jobs', { batch_size: BATCH_SIZE });
+      if (error) throw error;
+
+      const jobs = (data || []) as BotJob[];
+      if (jobs.length === 0) break;
+
+      for (const job of jobs) {
+        // Already answered by an earlier attempt that failed afterwards, or the bot
+        // was switched off, or moderation held the message, after it was queued
+        if (
+          job.reply_message_id
+          || !job.bot_enabled
+          || !job.content?.trim()
+          || await isHeld(supabase, job.message_id)
+        ) {
+          await completeJob(supabase, job);
+          skipped++;
+          continue;
+        }
+
+        try {
+          if (job.kind === 'keyword' && !(await matchRule(supabase, job))) {
+            await completeJob(supabase, job);
+            skipped++;
+            continue;
+          }
+
+          await replyToJob(supabase, job, bots);
+          await completeJob(supabase, job);
+          replied++;
+        } catch (replyError) {
+          console.error('Error replying to bot job:', job.message_id, replyError);
+          await failJob(supabase, job, replyError instanceof Error ? replyError.message : 'Reply failed');
+          failed++;
+        }
+      }
+
+      if (jobs.length < BATCH_SIZE) break;
+    }
+
+    for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+      const { data, error } = await supabase.rpc('claim_bot_schedules', { batch_size: BATCH_SIZE });
+      if (error) throw error;
+
+      const schedules = (data || []) as BotSchedule[];
+      if (schedules.length === 0) break;
+
+      for (const schedule of schedules) {
+        if (!schedule.bot_enabled) {
+          await completeSchedule(supabase, schedule, null, 'The bot is turned off for this group');
+          skipped++;
+          continue;
+        }
+
+        // Digests are written on behalf of the admin who set them up
+        if (!(await isParticipant(supabase, schedule.conversation_id, schedule.created_by))) {
+          await completeSchedule(supabase, schedule, null, 'The admin who set this up has left the group');
+          skipped++;
+          continue;
+        }
+
+        try {
+          const messageId = await runSchedule(supabase, schedule);
+          await completeSchedule(supabase, schedule, messageId);
+          if (messageId) digests++;
+          else skipped++;
+        } catch (scheduleError) {
+          console.error('Error running bot schedule:', schedule.id, scheduleError);
+          await failSchedule(supabase, schedule, scheduleError instanceof Error ? scheduleError.message : 'Digest failed');
+          failed++;
+        }
+      }
+
+      if (schedules.length < BATCH_SIZE) break;
+    }
+
+    console.log(`Bot queue: ${replied} replied, ${digests} digests, ${skipped} skipped, ${failed} failed`);
+
+    return new Response(
+      JSON.stringify({ success: true, replied, digests, skipped, failed }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in process-bot-queue function:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
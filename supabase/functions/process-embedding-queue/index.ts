@@ -0,0 +1,275 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.58.0";
+import { createEmbeddings } from "../_shared/embeddings.ts";
+import { chunkText, extractDocumentText, KNOWLEDGE_BUCKET } from "../_shared/knowledge.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BATCH_SIZE = 50;
+const MAX_BATCHES_PER_RUN = 20;
+const MAX_ATTEMPTS = 5;
+// The embedding model's input limit is in tokens; this keeps long messages well inside it
+const MAX_INPUT_CHARS = 8000;
+// Documents are split into many chunks, so fewer are taken at a time
+const KNOWLEDGE_BATCH_SIZE = 5;
+
+interface KnowledgeJob {
+  source_id: string;
+  enqueued_at: string;
+  attempts: number;
+  kind: 'message' | 'document';
+  title: string;
+  storage_path: string | null;
+  mime_type: string | null;
+  content: string | null;
+}
+
+interface EmbeddingJob {
+  message_id: string;
+  enqueued_at: string;
+  attempts: number;
+  conversation_id: string | null;
+  content: string | null;
+}
+
+// A job edited again while it was running has a newer enqueued_at and stays queued
+const completeJobs = async (supabase: SupabaseClient, jobs: EmbeddingJob[]) => {
+  for (const job of jobs) {
+    const { error } = await supabase
+      .from('embedding_jobs')
+      .delete()
+      .eq('message_id', job.message_id)
+      .eq('enqueued_at', job.enqueued_at);
+
+    if (error) console.error('Error completing embedding job:', job.message_id, error);
+  }
+};
+
+const failJobs = async (supabase: SupabaseClient, jobs: EmbeddingJob[], message: string) => {
+  for (const job of jobs) {
+    const giveUp = job.attempts >= MAX_ATTEMPTS;
+    const backoffMinutes = 2 ** job.attempts;
+
+    const { error } = await supabase
+      .from('embedding_jobs')
+      .update({
+        last_error: message.slice(0, 500),
+        locked_at: null,
+        available_at: new Date(Date.now() + backoffMinutes * 60_000).toISOString(),
+        failed_at: giveUp ? new Date().toISOString() : null,
+      })
+      .eq('message_id', job.message_id)
+      .eq('enqueued_at', job.enqueued_at);
+
+    if (error) console.error('Error recording embedding failure:', job.message_id, error);
+  }
+};
+
+const completeKnowledgeJob = async (supabase: SupabaseClient, job: KnowledgeJob) => {
+  const { error } = await supabase
+    .from('knowledge_jobs')
+    .delete()
+    .eq('source_id', job.source_id)
+    .eq('enqueued_at', job.enqueued_at);
+
+  if (error) console.error('Error completing knowledge job:', job.source_id, error);
+};
+
+const failKnowledgeJob = async (supabase: SupabaseClient, job: KnowledgeJob, message: string) => {
+  const giveUp = job.attempts >= MAX_ATTEMPTS;
+  const backoffMinutes = 2 ** job.attempts;
+
+  const { error } = await supabase
+    .from('knowledge_jobs')
+    .update({
+      last_error: message.slice(0, 500),
+      locked_at: null,
+      available_at: new Date(Date.now() + backoffMinutes * 60_000).toISOString(),
+      failed_at: giveUp ? new Date().toISOString() : null,
+    })
+    .eq('source_id', job.source_id)
+    .eq('enqueued_at', job.enqueued_at);
+
+  if (error) console.error('Error recording knowledge failure:', job.source_id, error);
+
+  // Admins see the error on the source; it only shows as failed once retries run out
+  await supabase
+    .from('knowledge_sources')
+    .update({ last_error: message.slice(0, 500), ...(giveUp ? { status: 'failed' } : {}) })
+    .eq('id', job.source_id);
+};
+
+// Re-chunks a pinned message or document and replaces its chunks
+async function indexKnowledgeSource(supabase: SupabaseClient, job: KnowledgeJob): Promise<number> {
+  let text = job.content ?? '';
+
+  if (job.kind === 'document') {
+    const { data: file, error } = await supabase.storage.from(KNOWLEDGE_BUCKET).download(job.storage_path!);
+    if (error || !file) throw new Error(`Failed to download document: ${error?.message ?? 'not found'}`);
+    text = await extractDocumentText(file, job.mime_type);
+  }
+
+  const chunks = chunkText(text);
+  if (chunks.length === 0) throw new Error('No text found to index');
+
+  const embeddings: number[][] = [];
+  for (let i = 0; i < chunks.length; i += BATCH_SIZE) {
+    embeddings.push(...await createEmbeddings(chunks.slice(i, i + BATCH_SIZE).map(chunk => chunk.slice(0, MAX_INPUT_CHARS))));
+  }
+
+  const { error: deleteError } = await supabase
+    .from('knowledge_chunks')
+    .delete()
+    .eq('source_id', job.source_id);
+  if (deleteError) throw new Error(deleteError.message);
+
+  const { error: insertError } = await supabase
+    .from('knowledge_chunks')
+    .insert(chunks.map((content, index) => ({
+      source_id: job.source_id,
+      chunk_index: index,
+      content,
+      embedding: JSON.stringify(embeddings[index]),
+    })));
+  if (insertError) throw new Error(insertError.message);
+
+  const { error: updateError } = await supabase
+    .from('knowledge_sources')
+    .update({
+      status: 'ready',
+      last_error: null,
+      chunk_count: chunks.length,
+      indexed_at: new Date().toISOString(),
+    })
+    .eq('id', job.source_id);
+  if (updateError) throw new Error(updateError.message);
+
+  return chunks.length;
+}
+
+/**
+ * Drains embedding_jobs, filled by triggers on messages for every insert,
+ * edit and delete. Meant to run on a schedule (every minute) with the service role
+ * key. Each batch is embedded in one request; failed jobs are retried with
+ * backoff and marked failed after MAX_ATTEMPTS for the admin status panel.
+ * Knowledge base sources queued in knowledge_jobs are indexed afterwards.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    if (req.headers.get('authorization') !== `Bearer ${serviceKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Service role required' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceKey);
+
+    let indexed = 0;
+    let removed = 0;
+    let failed = 0;
+
+    for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+      const { data, error } = await supabase.rpc('claim_embedding_jobs', { batch_size: BATCH_SIZE });
+      if (error) throw error;
+
+      const jobs = (data || []) as EmbeddingJob[];
+      if (jobs.length === 0) break;
+
+      // Deleted messages (content comes back null) and edits that removed all text
+      const toRemove = jobs.filter(job => !job.content?.trim());
+      const toEmbed = jobs.filter(job => job.content?.trim());
+
+      if (toRemove.length > 0) {
+        const { error: deleteError } = await supabase
+          .from('message_embeddings')
+          .delete()
+          .in('message_id', toRemove.map(job => job.message_id));
+
+        if (deleteError) {
+          await failJobs(supabase, toRemove, deleteError.message);
+          failed += toRemove.length;
+        } else {
+          await completeJobs(supabase, toRemove);
+          removed += toRemove.length;
+        }
+      }
+
+      if (toEmbed.length > 0) {
+        try {
+          const embeddings = await createEmbeddings(toEmbed.map(job => job.content!.slice(0, MAX_INPUT_CHARS)));
+
+          const { error: upsertError } = await supabase
+            .from('message_embeddings')
+            .upsert(
+              toEmbed.map((job, index) => ({
+                message_id: job.message_id,
+                conversation_id: job.conversation_id,
+                embedding: JSON.stringify(embeddings[index]),
+                content_preview: job.content!.substring(0, 200),
+                created_at: new Date().toISOString(),
+              })),
+              { onConflict: 'message_id' }
+            );
+
+          if (upsertError) throw new Error(upsertError.message);
+
+          await completeJobs(supabase, toEmbed);
+          indexed += toEmbed.length;
+        } catch (batchError) {
+          console.error('Error embedding batch:', batchError);
+          await failJobs(supabase, toEmbed, batchError instanceof Error ? batchError.message : 'Embedding failed');
+          failed += toEmbed.length;
+        }
+      }
+
+      if (jobs.length < BATCH_SIZE) break;
+    }
+
+    let knowledgeIndexed = 0;
+    let knowledgeFailed = 0;
+
+    for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+      const { data, error } = await supabase.rpc('claim_knowledge_jobs', { batch_size: KNOWLEDGE_BATCH_SIZE });
+      if (error) throw error;
+
+      const jobs = (data || []) as KnowledgeJob[];
+      if (jobs.length === 0) break;
+
+      for (const job of jobs) {
+        try {
+          await indexKnowledgeSource(supabase, job);
+          await completeKnowledgeJob(supabase, job);
+          knowledgeIndexed++;
+        } catch (sourceError) {
+          console.error('Error indexing knowledge source:', job.source_id, sourceError);
+          await failKnowledgeJob(supabase, job, sourceError instanceof Error ? sourceError.message : 'Indexing failed');
+          knowledgeFailed++;
+        }
+      }
+
+      if (jobs.length < KNOWLEDGE_BATCH_SIZE) break;
+    }
+
+    console.log(`Embedding queue: ${indexed} indexed, ${removed} removed, ${failed} failed; knowledge base: ${knowledgeIndexed} indexed, ${knowledgeFailed} failed`);
+
+    return new Response(
+      JSON.stringify({ success: true, indexed, removed, failed, knowledgeIndexed, knowledgeFailed }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in process-embedding-queue function:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
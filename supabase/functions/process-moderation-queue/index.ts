@@ -0,0 +1,248 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.58.0";
+import { AiProviderError, createAiClient, ToolDefinition } from "../_shared/ai-provider.ts";
+import { detectLinks, detectPii } from "./rules.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BATCH_SIZE = 25;
+const MAX_BATCHES_PER_RUN = 20;
+const MAX_ATTEMPTS = 5;
+const MAX_INPUT_CHARS = 2000;
+// Categories that need the model; links and PII are matched by pattern
+const MODEL_CATEGORIES = ['spam', 'harassment'];
+
+interface ModerationJob {
+  message_id: string;
+  enqueued_at: string;
+  attempts: number;
+  conversation_id: string;
+  sender_id: string;
+  content: string | null;
+  moderation_enabled: boolean;
+  categories: string[];
+}
+
+interface Verdict {
+  categories: string[];
+  reasons: string[];
+}
+
+const SUBMIT_VERDICTS: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'submit_verdicts',
+    description: 'Report which messages break the rules. Omit messages that are fine.',
+    parameters: {
+      type: 'object',
+      properties: {
+        verdicts: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              categories: { type: 'array', items: { type: 'string', enum: MODEL_CATEGORIES } },
+              reason: { type: 'string', description: 'One short sentence for the reviewing admin' },
+            },
+            required: ['id', 'categories', 'reason'],
+          },
+        },
+      },
+      required: ['verdicts'],
+    },
+  },
+};
+
+const completeJob = async (supabase: SupabaseClient, job: ModerationJob) => {
+  const { error } = await supabase
+    .from('moderation_jobs')
+    .delete()
+    .eq('message_id', job.message_id)
+    .eq('enqueued_at', job.enqueued_at);
+
+  if (error) console.error('Error completing moderation job:', job.message_id, error);
+};
+
+const failJobs = async (supabase: SupabaseClient, jobs: ModerationJob[], message: string) => {
+  for (const job of jobs) {
+    const giveUp = job.attempts >= MAX_ATTEMPTS;
+    const backoffMinutes = 2 ** job.attempts;
+
+    const { error } = await supabase
+      .from('moderation_jobs')
+      .update({
+        last_error: message.slice(0, 500),
+        locked_at: null,
+        available_at: new Date(Date.now() + backoffMinutes * 60_000).toISOString(),
+        failed_at: giveUp ? new Date().toISOString() : null,
+      })
+      .eq('message_id', job.message_id)
+      .eq('enqueued_at', job.enqueued_at);
+
+    if (error) console.error('Error recording moderation failure:', job.message_id, error);
+  }
+};
+
+const addHit = (verdicts: Map<string, Verdict>, messageId: string, category: string, reason: string) => {
+  const verdict = verdicts.get(messageId) ?? { categories: [], reasons: [] };
+  if (!verdict.categories.includes(category)) verdict.categories.push(category);
+  verdict.reasons.push(reason);
+  verdicts.set(messageId, verdict);
+};
+
+// One model call classifies every job in the batch that has spam or harassment checks on
+async function classifyWithModel(jobs: ModerationJob[], verdicts: Map<string, Verdict>) {
+  if (jobs.length === 0) return;
+
+  const ai = createAiClient({ feature: 'moderation' });
+  const result = await ai.chat({
+    messages: [
+      {
+        role: 'system',
+        content: `You moderate group chats. For each message decide whether it is:
+- spam: unsolicited advertising, scams, phishing, chain messages or repeated promotional content
+- harassment: insults, threats, hate speech or targeted abuse of a person or group
+Ordinary disagreement, jokes between friends and mild profanity are fine. Only check the categories listed for each message.`,
+      },
+      {
+        role: 'user',
+        content: JSON.stringify(jobs.map(job => ({
+          id: job.message_id,
+          check: job.categories.filter(category => MODEL_CATEGORIES.includes(category)),
+          text: job.content!.slice(0, MAX_INPUT_CHARS),
+        }))),
+      },
+    ],
+    temperature: 0,
+    maxTokens: 2000,
+    tools: [SUBMIT_VERDICTS],
+    toolChoice: { type: 'function', function: { name: 'submit_verdicts' } },
+  });
+
+  let parsed: { verdicts?: { id: string; categories: string[]; reason: string }[] };
+  try {
+    parsed = JSON.parse(result.toolCalls[0]?.function.arguments ?? '{}');
+  } catch {
+    throw new AiProviderError('Model returned malformed verdicts', 'invalid_response', 502);
+  }
+
+  const jobsById = new Map(jobs.map(job => [job.message_id, job]));
+  for (const item of parsed.verdicts || []) {
+    const job = jobsById.get(item.id);
+    if (!job) continue;
+
+    for (const category of item.categories || []) {
+      // Ignore categories the group didn't ask for
+      if (job.categories.includes(category)) addHit(verdicts, job.message_id, category, item.reason);
+    }
+  }
+}
+
+/**
+ * Drains moderation_jobs, filled by triggers on messages in groups with
+ * moderation switched on. Meant to run on a schedule (every minute) with the
+ * service role key. Hits are passed to apply_moderation_verdict, which
+ * records the flag, applies the group's actions and writes the audit log.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    if (req.headers.get('authorization') !== `Bearer ${serviceKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Service role required' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceKey);
+
+    let checked = 0;
+    let flagged = 0;
+    let failed = 0;
+
+    for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+      const { data, error } = await supabase.rpc('claim_moderation_jobs', { batch_size: BATCH_SIZE });
+      if (error) throw error;
+
+      const jobs = (data || []) as ModerationJob[];
+      if (jobs.length === 0) break;
+
+      // Moderation was switched off, or the text removed, after the message was queued
+      const skipped = jobs.filter(job => !job.moderation_enabled || !job.content?.trim());
+      for (const job of skipped) await completeJob(supabase, job);
+
+      const toCheck = jobs.filter(job => job.moderation_enabled && job.content?.trim());
+      const verdicts = new Map<string, Verdict>();
+
+      for (const job of toCheck) {
+        if (job.categories.includes('links')) {
+          const reason = detectLinks(job.content!);
+          if (reason) addHit(verdicts, job.message_id, 'links', reason);
+        }
+        if (job.categories.includes('pii')) {
+          const reason = detectPii(job.content!);
+          if (reason) addHit(verdicts, job.message_id, 'pii', reason);
+        }
+      }
+
+      try {
+        await classifyWithModel(
+          toCheck.filter(job => job.categories.some(category => MODEL_CATEGORIES.includes(category))),
+          verdicts
+        );
+      } catch (modelError) {
+        console.error('Error classifying moderation batch:', modelError);
+        await failJobs(supabase, toCheck, modelError instanceof Error ? modelError.message : 'Classification failed');
+        failed += toCheck.length;
+        if (jobs.length < BATCH_SIZE) break;
+        continue;
+      }
+
+      for (const job of toCheck) {
+        const verdict = verdicts.get(job.message_id);
+
+        if (verdict) {
+          const { error: applyError } = await supabase.rpc('apply_moderation_verdict', {
+            _message_id: job.message_id,
+            _categories: verdict.categories,
+            _reason: [...new Set(verdict.reasons)].join(' ').slice(0, 500),
+          });
+
+          if (applyError) {
+            console.error('Error applying moderation verdict:', job.message_id, applyError);
+            await failJobs(supabase, [job], applyError.message);
+            failed++;
+            continue;
+          }
+          flagged++;
+        }
+
+        await completeJob(supabase, job);
+        checked++;
+      }
+
+      if (jobs.length < BATCH_SIZE) break;
+    }
+
+    console.log(`Moderation queue: ${checked} checked, ${flagged} flagged, ${failed} failed`);
+
+    return new Response(
+      JSON.stringify({ success: true, checked, flagged, failed }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in process-moderation-queue function:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
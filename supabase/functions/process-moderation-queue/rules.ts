@@ -0,0 +1,48 @@
+/**
+ * Pattern checks for the categories that don't need a model: links and
+ * personal data. Each returns a short reason, or null when nothing matched.
+ */
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(?:com|net|org|io|co|ly|me|gg|xyz|ru|info|biz)(?:\/\S*)?\b/i;
+const EMAIL_PATTERN = /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/i;
+// Nine or more digits, optionally grouped with spaces, dots or dashes
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?(?:\(?\d{2,4}\)?[\s.-]?){2,4}\d{3,4}\b/;
+const CARD_CANDIDATE_PATTERN = /\b(?:\d[ -]?){13,19}\b/g;
+const IBAN_PATTERN = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){3,7}(?: ?[A-Z0-9]{1,4})?\b/;
+
+const passesLuhn = (digits: string) => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+export const detectLinks = (text: string): string | null =>
+  URL_PATTERN.test(text) ? 'Contains a link' : null;
+
+export const detectPii = (text: string): string | null => {
+  const found: string[] = [];
+
+  for (const match of text.match(CARD_CANDIDATE_PATTERN) || []) {
+    const digits = match.replace(/\D/g, '');
+    if (digits.length >= 13 && passesLuhn(digits)) {
+      found.push('a payment card number');
+      break;
+    }
+  }
+  if (IBAN_PATTERN.test(text)) found.push('a bank account number');
+  if (EMAIL_PATTERN.test(text)) found.push('an email address');
+
+  const phone = text.match(PHONE_PATTERN)?.[0];
+  if (phone && phone.replace(/\D/g, '').length >= 9 && !found.includes('a payment card number')) {
+    found.push('a phone number');
+  }
+
+  return found.length > 0 ? `Shares ${found.join(', ')}` : null;
+};
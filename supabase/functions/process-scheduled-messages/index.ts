@@ -0,0 +1,172 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.58.0";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BATCH_SIZE = 50;
+const MAX_BATCHES_PER_RUN = 20;
+const MAX_ATTEMPTS = 5;
+// check_message_rate_limit counts the last hour, so a few minutes usually frees a slot
+const RATE_LIMIT_RETRY_MINUTES = 5;
+
+interface ScheduledMessage {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  // Set for reminders the group bot scheduled, which are posted as the bot
+  bot_id: string | null;
+  content: string;
+  send_at: string;
+  attempts: number;
+}
+
+// Rate-limited sends don't count towards MAX_ATTEMPTS
+const deferMessage = async (
+  supabase: SupabaseClient,
+  message: ScheduledMessage,
+  reason: string,
+  minutes: number,
+  countAttempt = true
+) => {
+  const { error } = await supabase
+    .from('scheduled_messages')
+    .update({
+      attempts: countAttempt ? message.attempts : message.attempts - 1,
+      last_error: reason.slice(0, 500),
+      locked_at: null,
+      retry_at: new Date(Date.now() + minutes * 60_000).toISOString(),
+    })
+    .eq('id', message.id)
+    .eq('send_at', message.send_at);
+
+  if (error) console.error('Error deferring scheduled message:', message.id, error);
+};
+
+const failMessage = async (supabase: SupabaseClient, message: ScheduledMessage, reason: string) => {
+  if (message.attempts < MAX_ATTEMPTS) {
+    await deferMessage(supabase, message, reason, 2 ** message.attempts);
+    return;
+  }
+
+  const { error } = await supabase
+    .from('scheduled_messages')
+    .update({ status: 'failed', last_error: reason.slice(0, 500), locked_at: null })
+    .eq('id', message.id)
+    .eq('send_at', message.send_at);
+
+  if (error) console.error('Error recording scheduled message failure:', message.id, error);
+};
+
+/**
+ * Posts scheduled_messages that have come due. Meant to run on a schedule
+ * (every minute) with the service role key. Messages are inserted as their
+ * sender, so the sender must still be in the conversation and within
+ * check_message_rate_limit; rate-limited sends are retried a few minutes
+ * later rather than dropped.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    if (req.headers.get('authorization') !== `Bearer ${serviceKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Service role required' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceKey);
+
+    let sent = 0;
+    let deferred = 0;
+    let failed = 0;
+
+    for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+      const { data, error } = await supabase.rpc('claim_scheduled_messages', { batch_size: BATCH_SIZE });
+      if (error) throw error;
+
+      const messages = (data || []) as ScheduledMessage[];
+      if (messages.length === 0) break;
+
+      for (const message of messages) {
+        try {
+          const { data: isParticipant } = await supabase.rpc('is_conversation_participant', {
+            conversation_uuid: message.conversation_id,
+            user_uuid: message.sender_id,
+          });
+
+          if (!isParticipant) {
+            // Nothing to retry once the sender has left
+            await supabase
+              .from('scheduled_messages')
+              .update({ status: 'failed', last_error: 'No longer a member of this conversation', locked_at: null })
+              .eq('id', message.id);
+            failed++;
+            continue;
+          }
+
+          const { data: withinLimit, error: limitError } = await supabase.rpc('check_message_rate_limit', {
+            conv_id: message.conversation_id,
+            user_uuid: message.sender_id,
+          });
+
+          if (limitError) throw new Error(limitError.message);
+          if (!withinLimit) {
+            await deferMessage(supabase, message, 'Message rate limit reached', RATE_LIMIT_RETRY_MINUTES, false);
+            deferred++;
+            continue;
+          }
+
+          const { data: inserted, error: insertError } = await supabase
+            .from('messages')
+            .insert({
+              conversation_id: message.conversation_id,
+              sender_id: message.sender_id,
+              bot_id: message.bot_id,
+              content: message.content,
+              message_type: 'text',
+              ai_generated: !!message.bot_id,
+            })
+            .select('id')
+            .single();
+
+          if (insertError) throw new Error(insertError.message);
+
+          const { error: completeError } = await supabase.rpc('complete_scheduled_message', {
+            _id: message.id,
+            _claimed_send_at: message.send_at,
+            _message_id: inserted.id,
+          });
+
+          if (completeError) console.error('Error completing scheduled message:', message.id, completeError);
+          sent++;
+        } catch (sendError) {
+          console.error('Error sending scheduled message:', message.id, sendError);
+          await failMessage(supabase, message, sendError instanceof Error ? sendError.message : 'Send failed');
+          failed++;
+        }
+      }
+
+      if (messages.length < BATCH_SIZE) break;
+    }
+
+    console.log(`Scheduled messages: ${sent} sent, ${deferred} deferred, ${failed} failed`);
+
+    return new Response(
+      JSON.stringify({ success: true, sent, deferred, failed }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in process-scheduled-messages function:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,117 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.58.0";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BATCH_SIZE = 100;
+const MAX_BATCHES_PER_RUN = 10;
+const MAX_ATTEMPTS = 5;
+
+interface CleanupJob {
+  id: string;
+  bucket_id: string;
+  path: string;
+  attempts: number;
+}
+
+const completeJobs = async (supabase: SupabaseClient, jobs: CleanupJob[]) => {
+  const { error } = await supabase
+    .from('storage_cleanup_jobs')
+    .delete()
+    .in('id', jobs.map(job => job.id));
+
+  if (error) console.error('Error completing storage cleanup jobs:', error);
+};
+
+const failJobs = async (supabase: SupabaseClient, jobs: CleanupJob[], message: string) => {
+  for (const job of jobs) {
+    const giveUp = job.attempts >= MAX_ATTEMPTS;
+    const backoffMinutes = 2 ** job.attempts;
+
+    const { error } = await supabase
+      .from('storage_cleanup_jobs')
+      .update({
+        last_error: message.slice(0, 500),
+        locked_at: null,
+        available_at: new Date(Date.now() + backoffMinutes * 60_000).toISOString(),
+        failed_at: giveUp ? new Date().toISOString() : null,
+      })
+      .eq('id', job.id);
+
+    if (error) console.error('Error recording storage cleanup failure:', job.path, error);
+  }
+};
+
+/**
+ * Removes files queued in storage_cleanup_jobs when the rows that referenced
+ * them were deleted. Goes through the Storage API so the blobs are removed
+ * along with their metadata. Meant to run on a schedule with the service
+ * role key.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    if (req.headers.get('authorization') !== `Bearer ${serviceKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Service role required' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceKey);
+
+    let removed = 0;
+    let failed = 0;
+
+    for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+      const { data, error } = await supabase.rpc('claim_storage_cleanup_jobs', { batch_size: BATCH_SIZE });
+      if (error) throw error;
+
+      const jobs = (data || []) as CleanupJob[];
+      if (jobs.length === 0) break;
+
+      const byBucket = new Map<string, CleanupJob[]>();
+      for (const job of jobs) {
+        byBucket.set(job.bucket_id, [...(byBucket.get(job.bucket_id) ?? []), job]);
+      }
+
+      // Files that are already gone aren't an error
+      for (const [bucket, bucketJobs] of byBucket) {
+        const { error: removeError } = await supabase.storage
+          .from(bucket)
+          .remove(bucketJobs.map(job => job.path));
+
+        if (removeError) {
+          console.error('Error removing files from storage:', bucket, removeError);
+          await failJobs(supabase, bucketJobs, removeError.message);
+          failed += bucketJobs.length;
+        } else {
+          await completeJobs(supabase, bucketJobs);
+          removed += bucketJobs.length;
+        }
+      }
+
+      if (jobs.length < BATCH_SIZE) break;
+    }
+
+    console.log(`Storage cleanup: ${removed} removed, ${failed} failed`);
+
+    return new Response(
+      JSON.stringify({ success: true, removed, failed }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in process-storage-cleanup function:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
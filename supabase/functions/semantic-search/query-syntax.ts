@@ -0,0 +1,50 @@
+/**
+ * Search operators typed into the query box:
+ *
+ *   from:alex  from:me  from:"Alex Kim"   sender name or username
+ *   in:design  in:"Project Team"          chat, group or meeting title
+ *   before:2025-03-01  after:2025-01-31   dates (YYYY-MM-DD)
+ *   has:audio  has:image  has:link ...    message type
+ *
+ * Whatever is left is the search text; "quoted phrases" stay in it for the
+ * full-text query to match exactly.
+ */
+
+export interface ParsedQuery {
+  text: string;
+  from?: string;
+  in?: string;
+  before?: string;
+  after?: string;
+  has?: string;
+  // Operators as typed, e.g. ['from:alex', 'has:audio']
+  operators: string[];
+}
+
+const OPERATOR_PATTERN = /\b(from|in|before|after|has):(?:"([^"]*)"|(\S+))/gi;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const HAS_TYPES = ['audio', 'image', 'video', 'file', 'link'];
+
+export function parseSearchQuery(raw: string): ParsedQuery {
+  const parsed: ParsedQuery = { text: '', operators: [] };
+
+  const text = raw.replace(OPERATOR_PATTERN, (match, key: string, quoted?: string, bare?: string) => {
+    const value = (quoted ?? bare ?? '').trim();
+    const name = key.toLowerCase() as 'from' | 'in' | 'before' | 'after' | 'has';
+
+    if (!value) return match;
+    if ((name === 'before' || name === 'after') && !DATE_PATTERN.test(value)) return match;
+    if (name === 'has' && !HAS_TYPES.includes(value.toLowerCase())) return match;
+
+    parsed[name] = name === 'has' ? value.toLowerCase() : value;
+    parsed.operators.push(match);
+    return ' ';
+  });
+
+  parsed.text = text.replace(/\s+/g, ' ').trim();
+  return parsed;
+}
+
+// Free text for the embedding: quotes only matter to the keyword side
+export const semanticText = (parsed: ParsedQuery) => parsed.text.replace(/"/g, '').trim();
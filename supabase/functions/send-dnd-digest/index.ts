@@ -0,0 +1,68 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_USERS_PER_RUN = 500;
+
+/**
+ * Sends the "while Do Not Disturb was on" digest to everyone whose quiet
+ * hours have ended. Meant to run on a schedule (every few minutes) with
+ * the service role key; users whose DND is still active are skipped by
+ * send-push-notification and picked up on a later run.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    if (req.headers.get('authorization') !== `Bearer ${serviceKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Service role required' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceKey);
+
+    const { data: pending, error } = await supabase
+      .from('suppressed_notifications')
+      .select('user_id')
+      .is('digested_at', null)
+      .order('suppressed_at', { ascending: true })
+      .limit(MAX_USERS_PER_RUN * 10);
+
+    if (error) throw error;
+
+    const userIds = [...new Set((pending || []).map(row => row.user_id))].slice(0, MAX_USERS_PER_RUN);
+
+    let sent = 0;
+    for (const userId of userIds) {
+      const { data, error: sendError } = await supabase.functions.invoke('send-push-notification', {
+        body: { userId, digestOnly: true },
+      });
+
+      if (sendError) {
+        console.error('Error sending DND digest:', userId, sendError);
+      } else if (data?.success) {
+        sent++;
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, users: userIds.length, sent }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in send-dnd-digest function:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,5 +1,13 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.58.0";
+import {
+  claimDigest,
+  DND_PROFILE_COLUMNS,
+  DndProfile,
+  evaluateNotificationPolicy,
+  isDndActive,
+  NotificationKind,
+} from "../_shared/notification-policy.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -8,11 +16,21 @@ const corsHeaders = {
 
 interface PushPayload {
   userId: string;
-  title: string;
-  body: string;
+  title?: string;
+  body?: string;
   data?: Record<string, unknown>;
+  // Who triggered the notification and where, for mute/DND rules
+  senderId?: string;
+  conversationId?: string;
+  // Only send the pending Do Not Disturb digest, if DND has ended
+  digestOnly?: boolean;
 }
 
+const POLICY_KINDS: NotificationKind[] = ["message", "incoming_call", "missed_call"];
+
+const jsonResponse = (body: unknown) =>
+  new Response(JSON.stringify(body), { headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -35,12 +53,61 @@ serve(async (req) => {
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
     const payload: PushPayload = await req.json();
-    const { userId, title, body, data } = payload;
+    const { userId, title, body, data, senderId, conversationId, digestOnly } = payload;
 
-    if (!userId || !title) {
+    if (!userId || (!title && !digestOnly)) {
       throw new Error("userId and title are required");
     }
 
+    const conversation = conversationId ?? (data?.conversationId as string | undefined);
+    let sendDigest = false;
+    let notificationData = data;
+
+    if (digestOnly) {
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select(DND_PROFILE_COLUMNS)
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (isDndActive(profile as DndProfile | null, new Date())) {
+        return jsonResponse({ success: false, message: "Do Not Disturb is active" });
+      }
+      sendDigest = true;
+    } else {
+      const kind = POLICY_KINDS.includes(data?.type as NotificationKind) ? data?.type as NotificationKind : "other";
+      const decision = await evaluateNotificationPolicy(supabase, {
+        recipientId: userId,
+        kind,
+        senderId,
+        conversationId: conversation,
+      });
+
+      if (!decision.deliver) {
+        if (decision.digest) {
+          const { error: suppressError } = await supabase.from("suppressed_notifications").insert({
+            user_id: userId,
+            sender_id: senderId ?? null,
+            conversation_id: conversation ?? null,
+            kind,
+            title,
+            body: body ?? null,
+            data: data ?? null,
+          });
+          if (suppressError) console.error("Error recording suppressed notification:", suppressError);
+        }
+
+        console.log(`Notification for ${userId} suppressed: ${decision.reason}`);
+        return jsonResponse({ success: false, suppressed: decision.reason });
+      }
+
+      // Anything held back earlier is summarised once DND is over
+      sendDigest = decision.reason === "allowed" || decision.reason === "contact_silenced";
+      if (decision.silent) {
+        notificationData = { ...data, silent: true };
+      }
+    }
+
     // Get user's push subscriptions
     const { data: subscriptions, error: subError } = await supabase
       .from("push_subscriptions")
@@ -54,52 +121,38 @@ serve(async (req) => {
 
     if (!subscriptions || subscriptions.length === 0) {
       console.log("No push subscriptions found for user:", userId);
-      return new Response(
-        JSON.stringify({ success: false, message: "No subscriptions found" }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      // Nowhere to send a digest either, so don't keep it queued
+      if (sendDigest) await claimDigest(supabase, userId);
+      return jsonResponse({ success: false, message: "No subscriptions found" });
     }
 
-    const notificationPayload = JSON.stringify({
-      title,
-      body,
-      icon: "/favicon.ico",
-      badge: "/favicon.ico",
-      tag: data?.callId ? `call-${data.callId}` : "notification",
-      data,
-    });
-
-    // Send push notification to each subscription
-    const results = await Promise.all(
-      subscriptions.map(async (sub) => {
-        try {
-          const subscriptionData = sub.subscription;
-
-          // Use web-push compatible format
-          const response = await sendWebPush(
-            subscriptionData,
-            notificationPayload,
-            vapidPublicKey,
-            vapidPrivateKey
-          );
-
-          return { success: true, subscriptionId: sub.id };
-        } catch (error) {
-          console.error("Error sending to subscription:", sub.id, error);
-          const errorMessage = error instanceof Error ? error.message : "Unknown error";
-
-          // Remove invalid subscriptions
-          if (errorMessage.includes("410") || errorMessage.includes("404")) {
-            await supabase
-              .from("push_subscriptions")
-              .delete()
-              .eq("id", sub.id);
-          }
-
-          return { success: false, subscriptionId: sub.id, error: errorMessage };
-        }
-      })
-    );
+    const results = [];
+
+    if (sendDigest) {
+      const digest = await claimDigest(supabase, userId);
+      if (digest) {
+        results.push(...await deliver(supabase, subscriptions, JSON.stringify({
+          title: digest.title,
+          body: digest.body,
+          icon: "/favicon.ico",
+          badge: "/favicon.ico",
+          tag: "dnd-digest",
+          data: { type: "dnd_digest", count: digest.count },
+        }), vapidPublicKey, vapidPrivateKey));
+      }
+    }
+
+    if (!digestOnly) {
+      results.push(...await deliver(supabase, subscriptions, JSON.stringify({
+        title,
+        body,
+        icon: "/favicon.ico",
+        badge: "/favicon.ico",
+        tag: notificationData?.callId ? `call-${notificationData.callId}` : "notification",
+        silent: !!notificationData?.silent,
+        data: notificationData,
+      }), vapidPublicKey, vapidPrivateKey));
+    }
 
     return new Response(
       JSON.stringify({ success: true, results }),
@@ -115,6 +168,46 @@ serve(async (req) => {
   }
 });
 
+// Send one payload to each of the user's subscriptions, dropping expired ones
+async function deliver(
+  supabase: SupabaseClient,
+  subscriptions: { id: string; subscription: unknown }[],
+  notificationPayload: string,
+  vapidPublicKey: string,
+  vapidPrivateKey: string
+) {
+  return Promise.all(
+    subscriptions.map(async (sub) => {
+      try {
+        const subscriptionData = sub.subscription as { endpoint: string; keys: { p256dh: string; auth: string } };
+
+        // Use web-push compatible format
+        await sendWebPush(
+          subscriptionData,
+          notificationPayload,
+          vapidPublicKey,
+          vapidPrivateKey
+        );
+
+        return { success: true, subscriptionId: sub.id };
+      } catch (error) {
+        console.error("Error sending to subscription:", sub.id, error);
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+
+        // Remove invalid subscriptions
+        if (errorMessage.includes("410") || errorMessage.includes("404")) {
+          await supabase
+            .from("push_subscriptions")
+            .delete()
+            .eq("id", sub.id);
+        }
+
+        return { success: false, subscriptionId: sub.id, error: errorMessage };
+      }
+    })
+  );
+}
+
 // Simple web push implementation
 async function sendWebPush(
   subscription: { endpoint: string; keys: { p256dh: string; auth: string } },
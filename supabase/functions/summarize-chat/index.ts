@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+import { aiErrorResponse, AiProviderError, createAiClient } from '../_shared/ai-provider.ts';
+import { describeStructuredMessages } from '../_shared/structured-messages.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -39,11 +41,10 @@ serve(async (req) => {
     }
 
     const { conversationId, summaryType = 'bullets' } = await req.json();
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
     const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
     const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
     
-    if (!LOVABLE_API_KEY || !SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
       throw new Error('Missing required environment variables');
     }
 
@@ -66,9 +67,9 @@ serve(async (req) => {
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
 
     // Fetch conversation messages
-    const { data: messages, error: messagesError } = await supabase
+    const { data: rows, error: messagesError } = await supabase
       .from('messages')
-      .select('content, sender_id, created_at, profiles!messages_sender_id_fkey(display_name, username)')
+      .select('id, content, message_type, metadata, sender_id, created_at, reply_to_id, thread_root_id, profiles!messages_sender_id_fkey(display_name, username), bots(name)')
       .eq('conversation_id', conversationId)
       .order('created_at', { ascending: true });
 
@@ -77,6 +78,15 @@ serve(async (req) => {
       throw new Error('Failed to fetch conversation messages');
     }
 
+    // The service role sees everything, so messages held by moderation are
+    // dropped here unless they're the caller's own
+    const { data: holds } = await supabase
+      .from('moderation_holds')
+      .select('message_id')
+      .eq('conversation_id', conversationId);
+    const held = new Set((holds || []).map(hold => hold.message_id));
+    const messages = (rows || []).filter(msg => !held.has(msg.id) || msg.sender_id === user.id);
+
     if (!messages || messages.length === 0) {
       return new Response(
         JSON.stringify({ summary: 'No messages to summarize' }),
@@ -84,14 +94,52 @@ serve(async (req) => {
       );
     }
 
-    // Format conversation for AI
-    const conversationText = messages.map(msg => {
+    type ConversationMessage = typeof messages[number];
+
+    const getSenderName = (msg: ConversationMessage) => {
+      // Bot replies carry the asking member's sender_id, so the bot goes first
+      const bot = Array.isArray(msg.bots) ? msg.bots[0] : msg.bots;
+      if (bot?.name) return `${bot.name} (bot)`;
+
       // Handle profiles as it might be an array due to Supabase type inference
       const profile = Array.isArray(msg.profiles) ? msg.profiles[0] : msg.profiles;
-      const senderName = profile?.display_name || profile?.username || 'User';
+      return profile?.display_name || profile?.username || 'User';
+    };
+
+    // Polls and checklists are described with their current tallies and ticks
+    const structured = await describeStructuredMessages(supabase, messages);
+
+    // Group side-thread replies under their root message
+    const messagesById = new Map(messages.map(msg => [msg.id, msg]));
+    const threadReplies = new Map<string, ConversationMessage[]>();
+    for (const msg of messages) {
+      if (msg.thread_root_id) {
+        threadReplies.set(msg.thread_root_id, [...(threadReplies.get(msg.thread_root_id) || []), msg]);
+      }
+    }
+
+    const formatMessage = (msg: ConversationMessage, prefix = '') => {
       const timestamp = new Date(msg.created_at).toLocaleString();
-      return `[${timestamp}] ${senderName}: ${msg.content}`;
-    }).join('\n');
+      const quoted = msg.reply_to_id ? messagesById.get(msg.reply_to_id) : undefined;
+      const replyNote = quoted
+        ? ` (replying to ${getSenderName(quoted)}: "${String(quoted.content || '').slice(0, 80)}")`
+        : '';
+      return `${prefix}[${timestamp}] ${getSenderName(msg)}${replyNote}: ${structured.get(msg.id) ?? msg.content}`;
+    };
+
+    // Format conversation for AI
+    const conversationText = messages
+      .filter(msg => !msg.thread_root_id)
+      .flatMap(msg => [
+        formatMessage(msg),
+        ...(threadReplies.get(msg.id) || []).map(reply => formatMessage(reply, '  ↳ ')),
+      ])
+      .join('\n');
+
+    const structureNote = `
+
+Lines starting with "↳" are replies in a side thread under the message above them, and "(replying to ...)" marks a message that answers an earlier one. Keep each thread's outcome attached to the topic it started from.
+Messages marked [poll] show current vote counts and [checklist] items are ticked with [x]; report poll outcomes and open checklist items where relevant.`;
 
     // Create system prompt based on summary type
     let systemPrompt = '';
@@ -108,34 +156,22 @@ Identify specific tasks, to-dos, or follow-ups mentioned in the conversation.
 Format as a numbered list of actionable items. If no action items exist, say "No action items identified."`;
     }
 
+    systemPrompt += structureNote;
+
     const userPrompt = `Please summarize the following conversation:\n\n${conversationText}`;
 
     console.log('Generating summary for conversation:', conversationId, 'Type:', summaryType);
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt }
-        ],
-        temperature: 0.7,
-        max_tokens: 500,
-      }),
+    const ai = createAiClient({ feature: 'summarize', userId: user.id });
+    const { content } = await ai.chat({
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt }
+      ],
+      temperature: 0.7,
+      maxTokens: 500,
     });
-
-    if (!response.ok) {
-      console.error('AI gateway error:', response.status);
-      throw new Error('Failed to generate summary');
-    }
-
-    const data = await response.json();
-    const summary = data.choices?.[0]?.message?.content?.trim();
+    const summary = content?.trim();
 
     console.log('Summary generated successfully');
 
@@ -154,6 +190,11 @@ Format as a numbered list of actionable items. If no action items exist, say "No
 
   } catch (error) {
     console.error('Error in summarize-chat:', error);
+
+    if (error instanceof AiProviderError) {
+      return aiErrorResponse(error, corsHeaders, { summary: null });
+    }
+
     return new Response(
       JSON.stringify({ 
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -0,0 +1,172 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+import { AiClient, AiProviderError, ToolDefinition } from '../_shared/ai-provider.ts';
+import { glossaryInstructions, GlossaryTerm } from '../_shared/translation-glossary.ts';
+
+/**
+ * Batch mode of translate-message: translations already in
+ * message_translations for the same text are reused, and the rest are
+ * translated together in one model call.
+ */
+
+export interface BatchTranslation {
+  messageId: string;
+  translatedText: string;
+  sourceLanguage: string;
+  cached: boolean;
+}
+
+export interface BatchResult {
+  translations: BatchTranslation[];
+  // Messages left untranslated because the free daily limit ran out
+  skipped: string[];
+}
+
+interface MessageRow {
+  id: string;
+  content: string | null;
+  transcription: string | null;
+}
+
+const SUBMIT_TRANSLATIONS: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'submit_translations',
+    description: 'Return one translation for every input message.',
+    parameters: {
+      type: 'object',
+      properties: {
+        translations: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', description: 'The id of the input message' },
+              source_language: { type: 'string', description: 'ISO 639-1 code of the original text' },
+              translation: { type: 'string' },
+            },
+            required: ['id', 'source_language', 'translation'],
+          },
+        },
+      },
+      required: ['translations'],
+    },
+  },
+};
+
+export async function translateBatch(options: {
+  supabase: SupabaseClient;
+  ai: AiClient;
+  userId: string;
+  messageIds: string[];
+  targetLanguage: string;
+  glossary: GlossaryTerm[];
+  // null when the user has unlimited translations
+  remainingQuota: number | null;
+}): Promise<BatchResult> {
+  const { supabase, ai, userId, messageIds, targetLanguage, glossary, remainingQuota } = options;
+
+  // RLS limits this to messages from the user's own conversations
+  const { data: rows, error: messagesError } = await supabase
+    .from('messages')
+    .select('id, content, transcription')
+    .in('id', messageIds);
+
+  if (messagesError) throw new Error(`Failed to load messages: ${messagesError.message}`);
+
+  const texts = new Map<string, string>();
+  for (const row of (rows || []) as MessageRow[]) {
+    const text = (row.content || row.transcription || '').trim();
+    if (text) texts.set(row.id, text);
+  }
+
+  const { data: cachedRows, error: cacheError } = await supabase
+    .from('message_translations')
+    .select('message_id, original_text, translated_text, source_language, created_at')
+    .eq('user_id', userId)
+    .eq('target_language', targetLanguage)
+    .in('message_id', [...texts.keys()])
+    .order('created_at', { ascending: false });
+
+  if (cacheError) console.error('Error reading translation cache:', cacheError);
+
+  const translations: BatchTranslation[] = [];
+  const found = new Set<string>();
+  for (const row of cachedRows || []) {
+    // Edited messages no longer match their cached original and are translated again
+    if (found.has(row.message_id) || texts.get(row.message_id) !== row.original_text) continue;
+    found.add(row.message_id);
+    translations.push({
+      messageId: row.message_id,
+      translatedText: row.translated_text,
+      sourceLanguage: row.source_language,
+      cached: true,
+    });
+  }
+
+  const misses = [...texts.entries()].filter(([id]) => !found.has(id));
+  const allowed = remainingQuota === null ? misses : misses.slice(0, Math.max(remainingQuota, 0));
+  const skipped = misses.slice(allowed.length).map(([id]) => id);
+
+  if (allowed.length === 0) {
+    return { translations, skipped };
+  }
+
+  const glossaryText = glossaryInstructions(glossary, allowed.map(([, text]) => text).join('\n'));
+
+  const result = await ai.chat({
+    messages: [
+      {
+        role: 'system',
+        content: `You are a professional translator. Translate each message to ${targetLanguage}, preserving tone, formality, and meaning. Messages are independent; do not merge or skip any. Detect each message's original language as an ISO 639-1 code.${glossaryText ? `\n\n${glossaryText}` : ''}`,
+      },
+      { role: 'user', content: JSON.stringify(allowed.map(([id, text]) => ({ id, text }))) },
+    ],
+    temperature: 0.3,
+    maxTokens: 8000,
+    tools: [SUBMIT_TRANSLATIONS],
+    toolChoice: { type: 'function', function: { name: 'submit_translations' } },
+  });
+
+  let parsed: { translations?: { id: string; source_language: string; translation: string }[] };
+  try {
+    parsed = JSON.parse(result.toolCalls[0]?.function.arguments ?? '{}');
+  } catch {
+    throw new AiProviderError('Model returned malformed translations', 'invalid_response', 502);
+  }
+
+  // The model sometimes leaves out the detected language; that shouldn't cost the whole batch
+  const fresh = (parsed.translations || [])
+    .filter(item => texts.has(item.id) && !found.has(item.id) && typeof item.translation === 'string' && item.translation)
+    .map(item => ({
+      ...item,
+      source_language: typeof item.source_language === 'string' && item.source_language
+        ? item.source_language.toLowerCase()
+        : 'unknown',
+    }));
+
+  if (fresh.length > 0) {
+    const { error: insertError } = await supabase
+      .from('message_translations')
+      .insert(fresh.map(item => ({
+        user_id: userId,
+        message_id: item.id,
+        source_language: item.source_language,
+        target_language: targetLanguage,
+        original_text: texts.get(item.id)!,
+        translated_text: item.translation,
+      })));
+
+    if (insertError) console.error('Error storing translations:', insertError);
+  }
+
+  for (const item of fresh) {
+    translations.push({
+      messageId: item.id,
+      translatedText: item.translation,
+      sourceLanguage: item.source_language,
+      cached: false,
+    });
+  }
+
+  return { translations, skipped };
+}
@@ -1,12 +1,18 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { aiErrorResponse, AiProviderError, createAiClient } from '../_shared/ai-provider.ts';
+import { loadEntitlements, planLimitResponse, remainingTranslations } from '../_shared/entitlements.ts';
+import { glossaryInstructions, loadGlossary } from '../_shared/translation-glossary.ts';
+import { translateBatch } from './batch.ts';
 
 const VALID_LANGUAGES = [
   'en', 'es', 'fr', 'de', 'it', 'pt', 'ja', 'ko', 'zh', 
   'ar', 'hi', 'ru', 'nl', 'pl', 'tr'
 ] as const;
 
+const MAX_BATCH_SIZE = 50;
+
 const translateSchema = z.object({
   text: z.string()
     .min(1, 'Text cannot be empty')
@@ -15,7 +21,20 @@ const translateSchema = z.object({
   targetLanguage: z.enum(VALID_LANGUAGES, {
     errorMap: () => ({ message: 'Invalid target language' })
   }),
-  messageId: z.string().uuid().optional()
+  messageId: z.string().uuid().optional(),
+  // Scopes the conversation's glossary; the user's and their communities' always apply
+  conversationId: z.string().uuid().optional()
+});
+
+// Batch mode: translate stored messages by id, reusing cached translations
+const batchSchema = z.object({
+  messageIds: z.array(z.string().uuid())
+    .min(1, 'At least one message is required')
+    .max(MAX_BATCH_SIZE, `At most ${MAX_BATCH_SIZE} messages per request`),
+  targetLanguage: z.enum(VALID_LANGUAGES, {
+    errorMap: () => ({ message: 'Invalid target language' })
+  }),
+  conversationId: z.string().uuid().optional()
 });
 
 const corsHeaders = {
@@ -30,9 +49,10 @@ serve(async (req) => {
 
   try {
     const body = await req.json();
+    const isBatch = Array.isArray(body?.messageIds);
     
     // Validate input with Zod
-    const validationResult = translateSchema.safeParse(body);
+    const validationResult = (isBatch ? batchSchema : translateSchema).safeParse(body);
     if (!validationResult.success) {
       return new Response(
         JSON.stringify({ 
@@ -46,12 +66,7 @@ serve(async (req) => {
       );
     }
     
-    const { text, targetLanguage, messageId } = validationResult.data;
-
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY is not configured');
-    }
+    const { targetLanguage, conversationId } = validationResult.data;
 
     const authHeader = req.headers.get('Authorization') ?? '';
     // Sanitize auth header to ensure it's a valid ByteString (ASCII only)
@@ -66,82 +81,71 @@ serve(async (req) => {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error('Unauthorized');
 
-    // Check translation limits
-    const { data: subscription } = await supabase
-      .from('user_subscriptions')
-      .select('plan_type')
-      .eq('user_id', user.id)
-      .maybeSingle();
-
-    const isPremium = subscription?.plan_type === 'premium' || subscription?.plan_type === 'enterprise';
-
-    // Check daily limit for free users
-    if (!isPremium) {
-      const { count } = await supabase
-        .from('message_translations')
-        .select('*', { count: 'exact', head: true })
-        .eq('user_id', user.id)
-        .gte('created_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString());
-
-      if (count && count >= 50) {
-        return new Response(
-          JSON.stringify({ 
-            error: 'Translation limit reached',
-            limitReached: true,
-            message: 'Free users are limited to 50 translations per day. Upgrade to Premium for unlimited translations.'
-          }),
-          { 
-            status: 429,
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-          }
-        );
-      }
+    // The plan's daily quota; null when it has none
+    const entitlements = await loadEntitlements(supabase);
+    const remainingQuota = remainingTranslations(entitlements);
+
+    if (isBatch) {
+      const { messageIds } = batchSchema.parse(body);
+      console.log(`Batch translating ${messageIds.length} messages to:`, targetLanguage);
+
+      const result = await translateBatch({
+        supabase,
+        ai: createAiClient({ feature: 'translate', userId: user.id }),
+        userId: user.id,
+        messageIds,
+        targetLanguage,
+        glossary: await loadGlossary(supabase, user.id, targetLanguage, conversationId),
+        remainingQuota,
+      });
+
+      // Cached translations don't count against the limit, so a batch over it
+      // still succeeds and lists what it skipped
+      return new Response(
+        JSON.stringify({
+          ...result,
+          targetLanguage,
+          limitReached: result.skipped.length > 0,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    console.log('Translating text to:', targetLanguage);
+    if (remainingQuota === 0) {
+      return planLimitResponse(
+        'Translation limit reached',
+        `Your plan includes ${entitlements.daily_translations} translations per day. Upgrade to Premium for unlimited translations.`,
+        entitlements,
+        corsHeaders
+      );
+    }
 
-    // Use Lovable AI for translation
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          { 
-            role: "system", 
-            content: `You are a professional translator. Translate the following text to ${targetLanguage}. Only return the translated text, nothing else. Preserve tone, formality, and meaning.`
-          },
-          { role: "user", content: text }
-        ],
-        temperature: 0.3,
-        max_tokens: 500,
-      }),
-    });
+    const { text, messageId } = translateSchema.parse(body);
 
-    if (!response.ok) {
-      console.error('AI gateway error:', response.status);
-      throw new Error('Translation failed');
-    }
+    console.log('Translating text to:', targetLanguage);
 
-    const data = await response.json();
-    const translatedText = data.choices?.[0]?.message?.content?.trim();
+    const glossary = glossaryInstructions(
+      await loadGlossary(supabase, user.id, targetLanguage, conversationId),
+      text
+    );
 
-    if (!translatedText) {
-      throw new Error('No translation returned');
-    }
+    const translator = createAiClient({ feature: 'translate', userId: user.id });
+    const translatedText = await translator.complete({
+      messages: [
+        { 
+          role: "system", 
+          content: `You are a professional translator. Translate the following text to ${targetLanguage}. Only return the translated text, nothing else. Preserve tone, formality, and meaning.${glossary ? `\n\n${glossary}` : ''}`
+        },
+        { role: "user", content: text }
+      ],
+      temperature: 0.3,
+      maxTokens: 500,
+    });
 
-    // Detect source language
-    const detectResponse = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
+    // Detect source language; a failed guess shouldn't lose the translation
+    const detector = createAiClient({ feature: 'detect-language', userId: user.id });
+    const sourceLanguage = await detector
+      .complete({
         messages: [
           { 
             role: "system", 
@@ -150,12 +154,10 @@ serve(async (req) => {
           { role: "user", content: text }
         ],
         temperature: 0,
-        max_tokens: 10,
-      }),
-    });
-
-    const detectData = await detectResponse.json();
-    const sourceLanguage = detectData.choices?.[0]?.message?.content?.trim()?.toLowerCase() || 'unknown';
+        maxTokens: 10,
+      })
+      .then(code => code.toLowerCase())
+      .catch(() => 'unknown');
 
     // Store translation
     const { error: insertError } = await supabase
@@ -187,6 +189,10 @@ serve(async (req) => {
 
   } catch (error) {
     console.error('Error in translate-message:', error);
+
+    if (error instanceof AiProviderError) {
+      return aiErrorResponse(error, corsHeaders, { translatedText: null });
+    }
     
     // Return user-friendly error without exposing internal details
     const errorMessage = error instanceof Error && error.message.includes('Unauthorized')
@@ -0,0 +1,3 @@
+-- Composite index backing keyset pagination of conversation history on (created_at, id)
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created_id
+ON public.messages (conversation_id, created_at DESC, id DESC);
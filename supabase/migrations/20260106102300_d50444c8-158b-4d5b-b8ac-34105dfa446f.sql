@@ -0,0 +1,116 @@
+-- Reply-to quoting and side threads for messages
+ALTER TABLE public.messages
+ADD COLUMN reply_to_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+ADD COLUMN thread_root_id UUID REFERENCES public.messages(id) ON DELETE CASCADE;
+
+COMMENT ON COLUMN public.messages.reply_to_id IS 'Message this one quotes/answers';
+COMMENT ON COLUMN public.messages.thread_root_id IS 'Top-level message whose side thread this message belongs to';
+
+CREATE INDEX idx_messages_reply_to_id ON public.messages(reply_to_id) WHERE reply_to_id IS NOT NULL;
+CREATE INDEX idx_messages_thread_root_created ON public.messages(thread_root_id, created_at) WHERE thread_root_id IS NOT NULL;
+
+-- Replies and threads must stay inside the conversation, and threads are one
+-- level deep. Checked on edits too, so a message can't be re-pointed elsewhere.
+CREATE OR REPLACE FUNCTION public.validate_message_thread()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.reply_to_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM messages
+    WHERE id = NEW.reply_to_id AND conversation_id = NEW.conversation_id
+  ) THEN
+    RAISE EXCEPTION 'Replied-to message must belong to the same conversation';
+  END IF;
+
+  IF NEW.thread_root_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM messages
+    WHERE id = NEW.thread_root_id
+      AND conversation_id = NEW.conversation_id
+      AND thread_root_id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Thread root must be a top-level message of the same conversation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER validate_message_thread_before_write
+BEFORE INSERT OR UPDATE OF reply_to_id, thread_root_id, conversation_id ON public.messages
+FOR EACH ROW
+WHEN (NEW.reply_to_id IS NOT NULL OR NEW.thread_root_id IS NOT NULL)
+EXECUTE FUNCTION public.validate_message_thread();
+
+-- Unread counts now report the main timeline and side threads separately
+DROP FUNCTION IF EXISTS public.get_unread_counts(uuid);
+
+CREATE FUNCTION public.get_unread_counts(user_uuid uuid)
+RETURNS TABLE(conversation_id uuid, unread_count bigint, thread_unread_count bigint)
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT 
+    m.conversation_id,
+    COUNT(*) FILTER (WHERE m.thread_root_id IS NULL) as unread_count,
+    COUNT(*) FILTER (WHERE m.thread_root_id IS NOT NULL) as thread_unread_count
+  FROM messages m
+  JOIN conversation_participants cp ON m.conversation_id = cp.conversation_id
+  WHERE cp.user_id = user_uuid
+    AND m.sender_id != user_uuid
+    AND m.read_at IS NULL
+  GROUP BY m.conversation_id;
+$$;
+
+-- Opening a conversation only reads its main timeline; threads are read when opened
+CREATE OR REPLACE FUNCTION public.mark_messages_read(conv_id uuid, user_uuid uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  UPDATE messages
+  SET read_at = NOW()
+  WHERE conversation_id = conv_id
+    AND thread_root_id IS NULL
+    AND sender_id != user_uuid
+    AND read_at IS NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_thread_read(root_id uuid, user_uuid uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  UPDATE messages
+  SET read_at = NOW()
+  WHERE thread_root_id = root_id
+    AND sender_id != user_uuid
+    AND read_at IS NULL
+    AND is_conversation_participant(conversation_id, user_uuid);
+END;
+$$;
+
+-- Reply and unread counts for every thread in a conversation
+CREATE OR REPLACE FUNCTION public.get_thread_summaries(conv_id uuid, user_uuid uuid)
+RETURNS TABLE(thread_root_id uuid, reply_count bigint, unread_count bigint, last_reply_at timestamp with time zone)
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT 
+    m.thread_root_id,
+    COUNT(*) as reply_count,
+    COUNT(*) FILTER (WHERE m.sender_id != user_uuid AND m.read_at IS NULL) as unread_count,
+    MAX(m.created_at) as last_reply_at
+  FROM messages m
+  WHERE m.conversation_id = conv_id
+    AND m.thread_root_id IS NOT NULL
+    -- Only for the caller; anyone else's id returns nothing
+    AND user_uuid = auth.uid()
+    AND is_conversation_participant(conv_id, user_uuid)
+  GROUP BY m.thread_root_id;
+$$;
@@ -0,0 +1,183 @@
+-- Private storage bucket for chat attachments
+-- Objects are stored as: conversation_id/uploader_id/message_id/file_name
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('chat-attachments', 'chat-attachments', false, 104857600)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Participants can view conversation attachments"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'chat-attachments'
+  AND public.is_conversation_participant(((storage.foldername(name))[1])::uuid, auth.uid())
+);
+
+CREATE POLICY "Participants can upload attachments to their conversations"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'chat-attachments'
+  AND auth.uid() IS NOT NULL
+  AND (storage.foldername(name))[2] = auth.uid()::text
+  AND public.is_conversation_participant(((storage.foldername(name))[1])::uuid, auth.uid())
+);
+
+CREATE POLICY "Users can delete their own attachments"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'chat-attachments'
+  AND (storage.foldername(name))[2] = auth.uid()::text
+);
+
+-- Attachment metadata, one row per file attached to a message
+CREATE TABLE public.message_attachments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  uploader_id UUID NOT NULL,
+  storage_path TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  size_bytes BIGINT NOT NULL CHECK (size_bytes >= 0),
+  width INTEGER,
+  height INTEGER,
+  duration_ms INTEGER,
+  thumbnail_path TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_message_attachments_message_id ON public.message_attachments(message_id);
+CREATE INDEX idx_message_attachments_conversation_id ON public.message_attachments(conversation_id);
+
+ALTER TABLE public.message_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view message attachments"
+ON public.message_attachments
+FOR SELECT
+USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+CREATE POLICY "Senders can attach files to their own messages"
+ON public.message_attachments
+FOR INSERT
+WITH CHECK (
+  auth.uid() = uploader_id
+  AND storage_path LIKE conversation_id::text || '/' || auth.uid()::text || '/%'
+  AND (
+    thumbnail_path IS NULL
+    OR thumbnail_path LIKE conversation_id::text || '/' || auth.uid()::text || '/%'
+  )
+  AND EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.id = message_id
+      AND m.conversation_id = message_attachments.conversation_id
+      AND m.sender_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Uploaders can delete their attachments"
+ON public.message_attachments
+FOR DELETE
+USING (auth.uid() = uploader_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.message_attachments;
+
+-- Files can't be removed from SQL: deleting from storage.objects would leave
+-- the blob behind. Paths are queued here instead and removed through the
+-- Storage API by the process-storage-cleanup worker.
+CREATE TABLE public.storage_cleanup_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  bucket_id TEXT NOT NULL,
+  path TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  enqueued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  available_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  failed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_storage_cleanup_jobs_available ON public.storage_cleanup_jobs(available_at)
+  WHERE failed_at IS NULL;
+
+-- Only the service role reads or writes cleanup jobs
+ALTER TABLE public.storage_cleanup_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.enqueue_storage_cleanup(_bucket_id TEXT, _paths TEXT[])
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.storage_cleanup_jobs (bucket_id, path)
+  SELECT DISTINCT _bucket_id, p
+  FROM unnest(_paths) AS p
+  WHERE p IS NOT NULL AND p <> '';
+$$;
+
+CREATE OR REPLACE FUNCTION public.claim_storage_cleanup_jobs(batch_size INTEGER DEFAULT 100)
+RETURNS TABLE (id UUID, bucket_id TEXT, path TEXT, attempts INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  UPDATE public.storage_cleanup_jobs j
+  SET locked_at = now(),
+      attempts = j.attempts + 1
+  WHERE j.id IN (
+    SELECT id
+    FROM public.storage_cleanup_jobs
+    WHERE failed_at IS NULL
+      AND available_at <= now()
+      AND (locked_at IS NULL OR locked_at < now() - interval '5 minutes')
+    ORDER BY available_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.id, j.bucket_id, j.path, j.attempts;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_storage_cleanup(TEXT, TEXT[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_storage_cleanup_jobs(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Queue stored files (and thumbnails) for removal when attachment rows go
+-- away, including when the parent message is deleted
+CREATE OR REPLACE FUNCTION public.delete_attachment_objects()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  owned_prefix TEXT := OLD.conversation_id::text || '/' || OLD.uploader_id::text || '/';
+BEGIN
+  -- Only files in the uploader's own folder, so a row can't point cleanup at
+  -- somebody else's upload
+  PERFORM public.enqueue_storage_cleanup(
+    'chat-attachments',
+    ARRAY(
+      SELECT path FROM unnest(ARRAY[OLD.storage_path, OLD.thumbnail_path]) AS path
+      WHERE path LIKE owned_prefix || '%'
+    )
+  );
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER delete_attachment_objects_after_delete
+AFTER DELETE ON public.message_attachments
+FOR EACH ROW
+EXECUTE FUNCTION public.delete_attachment_objects();
+
+-- Attachment messages can also be videos or arbitrary files
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_message_type_check;
+ALTER TABLE public.messages
+ADD CONSTRAINT messages_message_type_check
+CHECK (message_type IN ('text', 'audio', 'image', 'video', 'file'));
+
+COMMENT ON COLUMN public.messages.message_type IS 'Type of message: text, audio, image, video, or file';
+COMMENT ON COLUMN public.messages.audio_data IS 'Deprecated: voice notes live in message_attachments; remaining rows are moved out by the migrate-audio-attachments function';
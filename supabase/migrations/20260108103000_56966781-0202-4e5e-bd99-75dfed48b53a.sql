@@ -0,0 +1,116 @@
+-- Per-participant delivery/read watermarks: every message created at or
+-- before the watermark counts as delivered to / read by that participant
+ALTER TABLE public.conversation_participants
+ADD COLUMN last_delivered_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN last_read_at TIMESTAMP WITH TIME ZONE;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversation_participants;
+
+-- Reading the conversation also advances the caller's watermarks
+CREATE OR REPLACE FUNCTION public.mark_messages_read(conv_id uuid, user_uuid uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM user_uuid THEN
+    RAISE EXCEPTION 'Cannot mark messages read for another user';
+  END IF;
+
+  IF NOT is_conversation_participant(conv_id, user_uuid) THEN
+    RAISE EXCEPTION 'Not a participant of this conversation';
+  END IF;
+
+  UPDATE messages
+  SET read_at = NOW()
+  WHERE conversation_id = conv_id
+    AND thread_root_id IS NULL
+    AND sender_id != user_uuid
+    AND read_at IS NULL;
+
+  UPDATE conversation_participants
+  SET last_read_at = NOW(),
+      last_delivered_at = NOW()
+  WHERE conversation_id = conv_id
+    AND user_id = user_uuid;
+END;
+$$;
+
+-- Same guard for side threads
+CREATE OR REPLACE FUNCTION public.mark_thread_read(root_id uuid, user_uuid uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM user_uuid THEN
+    RAISE EXCEPTION 'Cannot mark messages read for another user';
+  END IF;
+
+  UPDATE messages
+  SET read_at = NOW()
+  WHERE thread_root_id = root_id
+    AND sender_id != user_uuid
+    AND read_at IS NULL
+    AND is_conversation_participant(conversation_id, user_uuid);
+END;
+$$;
+
+-- Called when a client has received the user's messages (e.g. on app load)
+CREATE OR REPLACE FUNCTION public.mark_messages_delivered(user_uuid uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM user_uuid THEN
+    RAISE EXCEPTION 'Cannot mark messages delivered for another user';
+  END IF;
+
+  UPDATE conversation_participants
+  SET last_delivered_at = NOW()
+  WHERE user_id = user_uuid;
+END;
+$$;
+
+-- Previous versions of edited messages
+CREATE TABLE public.message_edits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  previous_content TEXT,
+  edited_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_message_edits_message_id ON public.message_edits(message_id, edited_at);
+
+ALTER TABLE public.message_edits ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the trigger below
+CREATE POLICY "Participants can view message edit history"
+ON public.message_edits
+FOR SELECT
+USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.record_message_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.content IS DISTINCT FROM NEW.content THEN
+    INSERT INTO message_edits (message_id, conversation_id, previous_content)
+    VALUES (OLD.id, OLD.conversation_id, OLD.content);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_message_edit_after_update
+AFTER UPDATE OF content ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.record_message_edit();
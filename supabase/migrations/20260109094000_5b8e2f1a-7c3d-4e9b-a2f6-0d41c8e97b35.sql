@@ -0,0 +1,151 @@
+-- Call history: when a call was answered, who missed it, and a system
+-- message in the conversation for calls nobody picked up
+ALTER TABLE public.calls
+ADD COLUMN answered_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.call_participants
+ADD COLUMN missed_notified_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.call_participants DROP CONSTRAINT IF EXISTS call_participants_status_check;
+ALTER TABLE public.call_participants
+ADD CONSTRAINT call_participants_status_check
+CHECK (status IN ('invited', 'pending', 'joined', 'left', 'rejected', 'missed'));
+
+CREATE INDEX IF NOT EXISTS idx_call_participants_user_id ON public.call_participants(user_id, call_id);
+
+-- Missed-call system messages point at their call
+ALTER TABLE public.messages
+ADD COLUMN call_id UUID REFERENCES public.calls(id) ON DELETE SET NULL;
+
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_message_type_check;
+ALTER TABLE public.messages
+ADD CONSTRAINT messages_message_type_check
+CHECK (message_type IN ('text', 'audio', 'image', 'video', 'file', 'call'));
+
+COMMENT ON COLUMN public.messages.message_type IS 'Type of message: text, audio, image, video, file, or call (missed-call notice)';
+
+-- A ringing call that ends without being answered is a missed call, unless
+-- everyone it rang declined it
+CREATE OR REPLACE FUNCTION public.set_call_timestamps()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'active' AND NEW.answered_at IS NULL THEN
+    NEW.answered_at := NOW();
+  END IF;
+
+  IF NEW.status = 'ended' AND OLD.status = 'ringing' AND NEW.answered_at IS NULL THEN
+    IF EXISTS (
+      SELECT 1 FROM call_participants
+      WHERE call_id = NEW.id AND user_id <> NEW.caller_id AND status = 'rejected'
+    ) AND NOT EXISTS (
+      SELECT 1 FROM call_participants
+      WHERE call_id = NEW.id AND user_id <> NEW.caller_id AND status IN ('invited', 'pending')
+    ) THEN
+      NEW.status := 'rejected';
+    ELSE
+      NEW.status := 'missed';
+    END IF;
+  END IF;
+
+  IF NEW.status IN ('ended', 'missed', 'rejected') AND NEW.ended_at IS NULL THEN
+    NEW.ended_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_call_timestamps
+BEFORE UPDATE OF status ON public.calls
+FOR EACH ROW
+EXECUTE FUNCTION public.set_call_timestamps();
+
+CREATE OR REPLACE FUNCTION public.handle_call_finished()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status NOT IN ('ended', 'missed', 'rejected') OR OLD.status IN ('ended', 'missed', 'rejected') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Everyone who never picked up missed the call, even if others answered it
+  UPDATE call_participants
+  SET status = 'missed'
+  WHERE call_id = NEW.id
+    AND user_id <> NEW.caller_id
+    AND status IN ('invited', 'pending');
+
+  IF NEW.status = 'missed' THEN
+    INSERT INTO messages (conversation_id, sender_id, content, message_type, call_id)
+    VALUES (
+      NEW.conversation_id,
+      NEW.caller_id,
+      CASE WHEN NEW.call_type = 'video' THEN 'Missed video call' ELSE 'Missed voice call' END,
+      'call',
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER handle_call_finished
+AFTER UPDATE OF status ON public.calls
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_call_finished();
+
+-- Call log for the current user, newest first
+CREATE OR REPLACE FUNCTION public.get_call_history(
+  result_limit integer DEFAULT 50,
+  before_time timestamp with time zone DEFAULT NULL
+)
+RETURNS TABLE (
+  call_id uuid,
+  conversation_id uuid,
+  call_type text,
+  status text,
+  caller_id uuid,
+  started_at timestamp with time zone,
+  answered_at timestamp with time zone,
+  ended_at timestamp with time zone,
+  my_status text,
+  is_group boolean,
+  group_name text,
+  participant_ids uuid[]
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.conversation_id,
+    c.call_type,
+    c.status,
+    c.caller_id,
+    c.started_at,
+    c.answered_at,
+    c.ended_at,
+    me.status,
+    COALESCE(conv.is_group, false),
+    conv.group_name,
+    ARRAY(
+      SELECT cp.user_id FROM call_participants cp
+      WHERE cp.call_id = c.id AND cp.user_id <> auth.uid()
+    )
+  FROM calls c
+  JOIN call_participants me ON me.call_id = c.id AND me.user_id = auth.uid()
+  LEFT JOIN conversations conv ON conv.id = c.conversation_id
+  WHERE before_time IS NULL OR c.started_at < before_time
+  ORDER BY c.started_at DESC
+  LIMIT LEAST(GREATEST(result_limit, 1), 200);
+$$;
@@ -0,0 +1,276 @@
+-- Opt-in meeting recordings, uploaded in chunks while the meeting runs
+-- Objects are stored as: meeting_id/recording_id/<seq>.webm
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('meeting-recordings', 'meeting-recordings', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Creators aren't always listed in meeting_participants, so check both
+CREATE OR REPLACE FUNCTION public.is_meeting_member(meeting_uuid uuid, user_uuid uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT public.is_meeting_creator(meeting_uuid, user_uuid)
+    OR public.is_meeting_participant(meeting_uuid, user_uuid);
+$$;
+
+CREATE POLICY "Meeting members can view recordings"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'meeting-recordings'
+  AND public.is_meeting_member(((storage.foldername(name))[1])::uuid, auth.uid())
+);
+
+CREATE TABLE public.meeting_recordings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  meeting_id UUID NOT NULL REFERENCES public.meetings(id) ON DELETE CASCADE,
+  started_by UUID NOT NULL,
+  status TEXT NOT NULL DEFAULT 'recording' CHECK (status IN ('recording', 'ready', 'failed')),
+  mime_type TEXT NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ended_at TIMESTAMP WITH TIME ZONE,
+  duration_ms INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_meeting_recordings_meeting_id ON public.meeting_recordings(meeting_id);
+
+-- Only one recording may run per meeting at a time
+CREATE UNIQUE INDEX idx_meeting_recordings_active
+ON public.meeting_recordings(meeting_id)
+WHERE status = 'recording';
+
+ALTER TABLE public.meeting_recordings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Meeting members can view recordings"
+ON public.meeting_recordings
+FOR SELECT
+USING (public.is_meeting_member(meeting_id, auth.uid()));
+
+CREATE POLICY "Meeting members can start recordings"
+ON public.meeting_recordings
+FOR INSERT
+WITH CHECK (
+  auth.uid() = started_by
+  AND public.is_meeting_member(meeting_id, auth.uid())
+);
+
+CREATE POLICY "Recorders can finish their recordings"
+ON public.meeting_recordings
+FOR UPDATE
+USING (auth.uid() = started_by)
+WITH CHECK (auth.uid() = started_by);
+
+CREATE POLICY "Recorders and meeting creators can delete recordings"
+ON public.meeting_recordings
+FOR DELETE
+USING (
+  auth.uid() = started_by
+  OR public.is_meeting_creator(meeting_id, auth.uid())
+);
+
+-- Uploaded chunks in recording order; playback concatenates them
+CREATE TABLE public.meeting_recording_chunks (
+  recording_id UUID NOT NULL REFERENCES public.meeting_recordings(id) ON DELETE CASCADE,
+  seq INTEGER NOT NULL CHECK (seq >= 0),
+  storage_path TEXT NOT NULL,
+  size_bytes BIGINT NOT NULL CHECK (size_bytes >= 0),
+  -- Everyone whose media is in the chunk
+  participant_ids UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (recording_id, seq)
+);
+
+ALTER TABLE public.meeting_recording_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Meeting members can view recording chunks"
+ON public.meeting_recording_chunks
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.meeting_recordings r
+    WHERE r.id = recording_id
+      AND public.is_meeting_member(r.meeting_id, auth.uid())
+  )
+);
+
+-- Each participant's answer to a running recording. Only participants
+-- who agreed have their media recorded.
+CREATE TABLE public.meeting_recording_consents (
+  recording_id UUID NOT NULL REFERENCES public.meeting_recordings(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  consented BOOLEAN NOT NULL,
+  responded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (recording_id, user_id)
+);
+
+ALTER TABLE public.meeting_recording_consents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Meeting members can view recording consents"
+ON public.meeting_recording_consents
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.meeting_recordings r
+    WHERE r.id = recording_id
+      AND public.is_meeting_member(r.meeting_id, auth.uid())
+  )
+);
+
+CREATE POLICY "Meeting members can answer for themselves"
+ON public.meeting_recording_consents
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.meeting_recordings r
+    WHERE r.id = recording_id
+      AND public.is_meeting_member(r.meeting_id, auth.uid())
+  )
+);
+
+CREATE POLICY "Users can change their own answer"
+ON public.meeting_recording_consents
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- Whether everyone listed has said yes to the recording. Anyone who hasn't
+-- answered counts as a no.
+CREATE OR REPLACE FUNCTION public.has_recording_consent(recording_uuid uuid, user_ids uuid[])
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM unnest(user_ids) AS u(user_id)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM meeting_recording_consents c
+      WHERE c.recording_id = recording_uuid
+        AND c.user_id = u.user_id
+        AND c.consented
+    )
+  );
+$$;
+
+-- Chunks may only hold media from people who agreed to the recording
+CREATE POLICY "Recorders can add chunks to their recordings"
+ON public.meeting_recording_chunks
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.meeting_recordings r
+    WHERE r.id = recording_id
+      AND r.started_by = auth.uid()
+      AND r.status = 'recording'
+      AND storage_path LIKE r.meeting_id::text || '/' || r.id::text || '/%'
+  )
+  AND public.has_recording_consent(recording_id, participant_ids)
+);
+
+-- Media is uploaded after its chunk row, so nothing lands in storage
+-- without the consent check above
+CREATE POLICY "Recorders can upload recording chunks"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'meeting-recordings'
+  AND EXISTS (
+    SELECT 1
+    FROM public.meeting_recording_chunks c
+    JOIN public.meeting_recordings r ON r.id = c.recording_id
+    WHERE c.storage_path = name
+      AND r.started_by = auth.uid()
+  )
+);
+
+-- Starting a recording counts as the recorder agreeing to it
+CREATE OR REPLACE FUNCTION public.record_recorder_consent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO meeting_recording_consents (recording_id, user_id, consented)
+  VALUES (NEW.id, NEW.started_by, true)
+  ON CONFLICT (recording_id, user_id) DO UPDATE SET consented = true, responded_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_recorder_consent_after_insert
+AFTER INSERT ON public.meeting_recordings
+FOR EACH ROW
+EXECUTE FUNCTION public.record_recorder_consent();
+
+-- A recording is only kept if everyone in it still agrees when it's finished
+CREATE OR REPLACE FUNCTION public.check_recording_consent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'ready' AND OLD.status IS DISTINCT FROM 'ready' AND EXISTS (
+    SELECT 1 FROM meeting_recording_chunks
+    WHERE recording_id = NEW.id
+      AND NOT public.has_recording_consent(NEW.id, participant_ids)
+  ) THEN
+    RAISE EXCEPTION 'Everyone in the recording must consent to it';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_recording_consent_before_update
+BEFORE UPDATE OF status ON public.meeting_recordings
+FOR EACH ROW
+EXECUTE FUNCTION public.check_recording_consent();
+
+-- Finishing a recording can't move it to another meeting or recorder
+CREATE OR REPLACE FUNCTION public.freeze_recording_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.meeting_id IS DISTINCT FROM OLD.meeting_id
+     OR NEW.started_by IS DISTINCT FROM OLD.started_by THEN
+    RAISE EXCEPTION 'A recording''s meeting and recorder cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER freeze_recording_owner_before_update
+BEFORE UPDATE ON public.meeting_recordings
+FOR EACH ROW
+EXECUTE FUNCTION public.freeze_recording_owner();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.meeting_recordings;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.meeting_recording_consents;
+
+-- Queue the uploaded chunks for removal when a recording is deleted. Runs
+-- before the delete so the chunk rows haven't cascaded away yet.
+CREATE OR REPLACE FUNCTION public.delete_recording_objects()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.enqueue_storage_cleanup(
+    'meeting-recordings',
+    ARRAY(SELECT storage_path FROM meeting_recording_chunks WHERE recording_id = OLD.id)
+  );
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER delete_recording_objects_before_delete
+BEFORE DELETE ON public.meeting_recordings
+FOR EACH ROW
+EXECUTE FUNCTION public.delete_recording_objects();
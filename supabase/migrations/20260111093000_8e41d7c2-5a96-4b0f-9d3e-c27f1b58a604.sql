@@ -0,0 +1,40 @@
+-- Server-side notification policy: quiet hours are evaluated in the
+-- user's own timezone, and favourites / repeated callers may break through
+ALTER TABLE public.profiles
+ADD COLUMN timezone TEXT NOT NULL DEFAULT 'UTC',
+ADD COLUMN dnd_allow_favourites BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN dnd_allow_repeat_callers BOOLEAN NOT NULL DEFAULT true;
+
+COMMENT ON COLUMN public.profiles.timezone IS 'IANA timezone used to evaluate dnd_start_time/dnd_end_time';
+COMMENT ON COLUMN public.profiles.dnd_allow_favourites IS 'Notifications from favourite contacts are delivered during Do Not Disturb';
+COMMENT ON COLUMN public.profiles.dnd_allow_repeat_callers IS 'A second call from the same person within 15 minutes rings through Do Not Disturb';
+
+-- Temporary mutes ("mute for 8 hours"); NULL with is_muted = true mutes indefinitely
+ALTER TABLE public.conversation_participants
+ADD COLUMN muted_until TIMESTAMP WITH TIME ZONE;
+
+-- Notifications held back during Do Not Disturb, summarised in a digest afterwards
+CREATE TABLE public.suppressed_notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  sender_id UUID,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('message', 'incoming_call', 'missed_call', 'other')),
+  title TEXT NOT NULL,
+  body TEXT,
+  data JSONB,
+  suppressed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  digested_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_suppressed_notifications_pending
+ON public.suppressed_notifications(user_id, suppressed_at)
+WHERE digested_at IS NULL;
+
+ALTER TABLE public.suppressed_notifications ENABLE ROW LEVEL SECURITY;
+
+-- Written by push senders with the service role; users can only read their own
+CREATE POLICY "Users can view their suppressed notifications"
+ON public.suppressed_notifications
+FOR SELECT
+USING (auth.uid() = user_id);
@@ -0,0 +1,28 @@
+-- Token usage per AI request, written by edge functions through the shared AI provider
+CREATE TABLE public.ai_usage (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID,
+  feature TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ai_usage_user_created ON public.ai_usage(user_id, created_at DESC);
+CREATE INDEX idx_ai_usage_feature_created ON public.ai_usage(feature, created_at DESC);
+
+ALTER TABLE public.ai_usage ENABLE ROW LEVEL SECURITY;
+
+-- Inserted with the service role only
+CREATE POLICY "Users can view their own AI usage"
+ON public.ai_usage
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all AI usage"
+ON public.ai_usage
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,49 @@
+-- Tool activity shown inline in Nexora AI replies (searches, meetings, drafts)
+-- and the user's confirm/cancel decision for actions that write data
+ALTER TABLE public.ai_chat_messages
+ADD COLUMN tool_calls JSONB;
+
+CREATE POLICY "Users can update their own AI chat messages"
+ON public.ai_chat_messages
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- A message Nexora AI drafted into a chat; it is loaded into the composer
+-- the next time the user opens that chat and is never sent automatically
+CREATE TABLE public.message_drafts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, conversation_id)
+);
+
+ALTER TABLE public.message_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own drafts"
+ON public.message_drafts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can draft into their own conversations"
+ON public.message_drafts
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.is_conversation_participant(conversation_id, auth.uid()));
+
+CREATE POLICY "Users can update their own drafts"
+ON public.message_drafts
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (public.is_conversation_participant(conversation_id, auth.uid()));
+
+CREATE POLICY "Users can delete their own drafts"
+ON public.message_drafts
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_message_drafts_updated_at
+BEFORE UPDATE ON public.message_drafts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
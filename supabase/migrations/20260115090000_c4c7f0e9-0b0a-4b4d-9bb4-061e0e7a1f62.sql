@@ -0,0 +1,189 @@
+-- Server-side search indexing: messages are queued for embedding by trigger
+-- and drained by the process-embedding-queue function, so indexing no longer
+-- depends on a client being online when the message arrives.
+CREATE TABLE public.embedding_jobs (
+  message_id UUID PRIMARY KEY,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  enqueued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  available_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  -- Set once a job runs out of retries; cleared when it is queued again
+  failed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_embedding_jobs_available ON public.embedding_jobs(available_at)
+  WHERE failed_at IS NULL;
+
+ALTER TABLE public.embedding_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Only the worker (service role) writes jobs; admins can inspect them
+CREATE POLICY "Admins can view embedding jobs"
+ON public.embedding_jobs
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Re-queueing a message resets its retries so edits and backfills get a fresh start
+CREATE OR REPLACE FUNCTION public.enqueue_embedding_job(_message_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.embedding_jobs (message_id)
+  VALUES (_message_id)
+  ON CONFLICT (message_id) DO UPDATE
+  SET attempts = 0,
+      last_error = NULL,
+      enqueued_at = now(),
+      available_at = now(),
+      locked_at = NULL,
+      failed_at = NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION public.queue_message_embedding()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    -- message_embeddings cascades with the message; drop any pending job too
+    DELETE FROM public.embedding_jobs WHERE message_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  -- Inserts without text have nothing to index; edits are always queued so
+  -- a message emptied of text loses its embedding
+  IF TG_OP = 'INSERT' AND coalesce(btrim(NEW.content), '') = '' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.enqueue_embedding_job(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_message_embedding_on_insert
+AFTER INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.queue_message_embedding();
+
+CREATE TRIGGER queue_message_embedding_on_update
+AFTER UPDATE OF content ON public.messages
+FOR EACH ROW
+WHEN (OLD.content IS DISTINCT FROM NEW.content)
+EXECUTE FUNCTION public.queue_message_embedding();
+
+CREATE TRIGGER queue_message_embedding_on_delete
+AFTER DELETE ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.queue_message_embedding();
+
+-- Claims a batch for the worker. Locks older than five minutes belong to a
+-- run that died and are taken over.
+CREATE OR REPLACE FUNCTION public.claim_embedding_jobs(batch_size INTEGER DEFAULT 50)
+RETURNS TABLE (
+  message_id UUID,
+  enqueued_at TIMESTAMP WITH TIME ZONE,
+  attempts INTEGER,
+  conversation_id UUID,
+  content TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE public.embedding_jobs j
+    SET locked_at = now(),
+        attempts = j.attempts + 1
+    WHERE j.message_id IN (
+      SELECT message_id
+      FROM public.embedding_jobs
+      WHERE failed_at IS NULL
+        AND available_at <= now()
+        AND (locked_at IS NULL OR locked_at < now() - interval '5 minutes')
+      ORDER BY available_at
+      LIMIT batch_size
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.message_id, j.enqueued_at, j.attempts
+  )
+  SELECT c.message_id, c.enqueued_at, c.attempts, m.conversation_id, m.content
+  FROM claimed c
+  LEFT JOIN public.messages m ON m.id = c.message_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_embedding_jobs(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.enqueue_embedding_job(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Admin backfill: queues messages that have text but no embedding (which
+-- also retries failed jobs), or every message with text when reindexing
+CREATE OR REPLACE FUNCTION public.enqueue_embedding_backfill(reindex BOOLEAN DEFAULT false)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  queued INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  INSERT INTO public.embedding_jobs (message_id)
+  SELECT m.id
+  FROM public.messages m
+  WHERE coalesce(btrim(m.content), '') <> ''
+    AND (
+      reindex
+      OR NOT EXISTS (SELECT 1 FROM public.message_embeddings me WHERE me.message_id = m.id)
+    )
+  ON CONFLICT (message_id) DO UPDATE
+  SET attempts = 0,
+      last_error = NULL,
+      enqueued_at = now(),
+      available_at = now(),
+      locked_at = NULL,
+      failed_at = NULL;
+
+  GET DIAGNOSTICS queued = ROW_COUNT;
+  RETURN queued;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_embedding_index_status()
+RETURNS TABLE (
+  pending BIGINT,
+  in_progress BIGINT,
+  failed BIGINT,
+  indexed BIGINT,
+  oldest_pending_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    count(*) FILTER (WHERE j.failed_at IS NULL AND (j.locked_at IS NULL OR j.locked_at < now() - interval '5 minutes')),
+    count(*) FILTER (WHERE j.failed_at IS NULL AND j.locked_at >= now() - interval '5 minutes'),
+    count(*) FILTER (WHERE j.failed_at IS NOT NULL),
+    (SELECT count(*) FROM public.message_embeddings),
+    min(j.enqueued_at) FILTER (WHERE j.failed_at IS NULL)
+  FROM public.embedding_jobs j;
+END;
+$$;
@@ -0,0 +1,140 @@
+-- Translation glossary: terms to keep as-is or to always translate a fixed
+-- way, injected into the translate-message prompt. Terms belong to one user,
+-- one conversation (shared by its participants) or one community (shared by
+-- its members, across all of their chats).
+CREATE TABLE public.translation_glossary_terms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scope TEXT NOT NULL CHECK (scope IN ('user', 'conversation', 'community')),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE,
+  community_id UUID REFERENCES public.communities(id) ON DELETE CASCADE,
+  source_term TEXT NOT NULL CHECK (length(btrim(source_term)) BETWEEN 1 AND 200),
+  -- NULL translation means "do not translate"; forced translations name their language
+  translation TEXT CHECK (translation IS NULL OR length(translation) <= 200),
+  target_language TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (
+    (scope = 'user' AND conversation_id IS NULL AND community_id IS NULL)
+    OR (scope = 'conversation' AND conversation_id IS NOT NULL AND community_id IS NULL)
+    OR (scope = 'community' AND community_id IS NOT NULL AND conversation_id IS NULL)
+  ),
+  CHECK ((translation IS NULL) = (target_language IS NULL))
+);
+
+-- One entry per term and language within a glossary
+CREATE UNIQUE INDEX idx_translation_glossary_terms_unique
+ON public.translation_glossary_terms (
+  scope,
+  (coalesce(conversation_id, community_id, user_id)),
+  (lower(source_term)),
+  (coalesce(target_language, ''))
+);
+
+CREATE INDEX idx_translation_glossary_terms_conversation
+ON public.translation_glossary_terms(conversation_id) WHERE conversation_id IS NOT NULL;
+
+CREATE INDEX idx_translation_glossary_terms_community
+ON public.translation_glossary_terms(community_id) WHERE community_id IS NOT NULL;
+
+ALTER TABLE public.translation_glossary_terms ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_community_member(_community_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.community_members
+    WHERE community_id = _community_id AND user_id = _user_id
+  );
+$$;
+
+CREATE POLICY "Users can view glossary terms they share"
+ON public.translation_glossary_terms
+FOR SELECT
+USING (
+  (scope = 'user' AND user_id = auth.uid())
+  OR (scope = 'conversation' AND public.is_conversation_participant(conversation_id, auth.uid()))
+  OR (scope = 'community' AND public.is_community_member(community_id, auth.uid()))
+);
+
+CREATE POLICY "Users can add glossary terms where they belong"
+ON public.translation_glossary_terms
+FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  AND (
+    scope = 'user'
+    OR (scope = 'conversation' AND public.is_conversation_participant(conversation_id, auth.uid()))
+    OR (scope = 'community' AND public.is_community_member(community_id, auth.uid()))
+  )
+);
+
+-- Shared glossaries are edited collaboratively, like the chat itself
+CREATE POLICY "Users can update glossary terms they share"
+ON public.translation_glossary_terms
+FOR UPDATE
+USING (
+  (scope = 'user' AND user_id = auth.uid())
+  OR (scope = 'conversation' AND public.is_conversation_participant(conversation_id, auth.uid()))
+  OR (scope = 'community' AND public.is_community_member(community_id, auth.uid()))
+);
+
+CREATE POLICY "Users can delete glossary terms they share"
+ON public.translation_glossary_terms
+FOR DELETE
+USING (
+  (scope = 'user' AND user_id = auth.uid())
+  OR (scope = 'conversation' AND public.is_conversation_participant(conversation_id, auth.uid()))
+  OR (scope = 'community' AND public.is_community_member(community_id, auth.uid()))
+);
+
+CREATE TRIGGER update_translation_glossary_terms_updated_at
+BEFORE UPDATE ON public.translation_glossary_terms
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Adds a term or replaces the existing entry for the same term and language,
+-- so corrections made from a translated message overwrite earlier ones.
+-- Runs as the caller, so the policies above still apply.
+CREATE OR REPLACE FUNCTION public.save_glossary_term(
+  _scope TEXT,
+  _source_term TEXT,
+  _translation TEXT DEFAULT NULL,
+  _target_language TEXT DEFAULT NULL,
+  _conversation_id UUID DEFAULT NULL,
+  _community_id UUID DEFAULT NULL
+)
+RETURNS public.translation_glossary_terms
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  saved public.translation_glossary_terms;
+BEGIN
+  INSERT INTO public.translation_glossary_terms
+    (scope, user_id, conversation_id, community_id, source_term, translation, target_language)
+  VALUES (
+    _scope,
+    auth.uid(),
+    _conversation_id,
+    _community_id,
+    btrim(_source_term),
+    nullif(btrim(_translation), ''),
+    CASE WHEN nullif(btrim(_translation), '') IS NULL THEN NULL ELSE _target_language END
+  )
+  ON CONFLICT (
+    scope,
+    (coalesce(conversation_id, community_id, user_id)),
+    (lower(source_term)),
+    (coalesce(target_language, ''))
+  )
+  DO UPDATE SET source_term = EXCLUDED.source_term, translation = EXCLUDED.translation
+  RETURNING * INTO saved;
+
+  RETURN saved;
+END;
+$$;
@@ -0,0 +1,8 @@
+-- Chats imported from WhatsApp or Telegram exports. The importer owns every
+-- imported message; imported_sender_name keeps who originally wrote it
+-- (NULL for the importer's own messages).
+ALTER TABLE public.conversations
+ADD COLUMN imported_from TEXT CHECK (imported_from IN ('whatsapp', 'telegram'));
+
+ALTER TABLE public.messages
+ADD COLUMN imported_sender_name TEXT;
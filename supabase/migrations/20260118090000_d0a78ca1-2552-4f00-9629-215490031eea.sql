@@ -0,0 +1,206 @@
+-- Send-later: messages queued by their sender and posted into the
+-- conversation by the process-scheduled-messages worker once due.
+-- Recurring schedules keep their row and move send_at to the next
+-- occurrence after each send.
+CREATE TABLE public.scheduled_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL,
+  content TEXT NOT NULL CHECK (char_length(btrim(content)) > 0),
+  send_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- Recurrences repeat at the same wall-clock time in this timezone, across DST changes
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  recurrence TEXT CHECK (recurrence IN ('daily', 'weekdays', 'weekly', 'monthly')),
+  -- Local day of the month a monthly schedule was set for. Shorter months
+  -- send on their last day and the next month goes back to this one.
+  recurrence_day SMALLINT CHECK (recurrence_day BETWEEN 1 AND 31),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  -- Set when a send is put off, e.g. by the message rate limit
+  retry_at TIMESTAMP WITH TIME ZONE,
+  locked_at TIMESTAMP WITH TIME ZONE,
+  last_sent_at TIMESTAMP WITH TIME ZONE,
+  last_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_scheduled_messages_due ON public.scheduled_messages(send_at)
+  WHERE status = 'pending';
+CREATE INDEX idx_scheduled_messages_sender_conversation
+  ON public.scheduled_messages(sender_id, conversation_id);
+
+ALTER TABLE public.scheduled_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their scheduled messages"
+ON public.scheduled_messages
+FOR SELECT
+USING (auth.uid() = sender_id);
+
+CREATE POLICY "Users can schedule messages in their conversations"
+ON public.scheduled_messages
+FOR INSERT
+WITH CHECK (
+  auth.uid() = sender_id
+  AND status = 'pending'
+  AND public.is_conversation_participant(conversation_id, auth.uid())
+);
+
+-- Editing a failed message reschedules it
+CREATE POLICY "Users can edit their unsent scheduled messages"
+ON public.scheduled_messages
+FOR UPDATE
+USING (auth.uid() = sender_id AND status IN ('pending', 'failed'))
+WITH CHECK (
+  auth.uid() = sender_id
+  AND status = 'pending'
+  AND public.is_conversation_participant(conversation_id, auth.uid())
+);
+
+CREATE POLICY "Users can cancel their scheduled messages"
+ON public.scheduled_messages
+FOR DELETE
+USING (auth.uid() = sender_id);
+
+CREATE TRIGGER update_scheduled_messages_updated_at
+BEFORE UPDATE ON public.scheduled_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The sender picks the day of the month; moving send_at on to the next
+-- occurrence after a send keeps it
+CREATE OR REPLACE FUNCTION public.set_scheduled_message_recurrence_day()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR (
+    auth.uid() IS NOT NULL
+    AND (NEW.send_at IS DISTINCT FROM OLD.send_at OR NEW.timezone IS DISTINCT FROM OLD.timezone)
+  ) THEN
+    NEW.recurrence_day := extract(day FROM NEW.send_at AT TIME ZONE NEW.timezone);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_scheduled_message_recurrence_day
+BEFORE INSERT OR UPDATE ON public.scheduled_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.set_scheduled_message_recurrence_day();
+
+-- Next occurrence of a recurring schedule that is still in the future.
+-- Monthly schedules land on _day_of_month, or the month's last day when
+-- it is shorter.
+CREATE OR REPLACE FUNCTION public.next_scheduled_send_at(
+  _send_at TIMESTAMP WITH TIME ZONE,
+  _recurrence TEXT,
+  _timezone TEXT,
+  _day_of_month INTEGER DEFAULT NULL
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  local_time TIMESTAMP := _send_at AT TIME ZONE _timezone;
+  next_at TIMESTAMP WITH TIME ZONE := _send_at;
+BEGIN
+  WHILE next_at <= now() LOOP
+    local_time := CASE _recurrence
+      WHEN 'daily' THEN local_time + interval '1 day'
+      WHEN 'weekdays' THEN local_time + interval '1 day'
+      WHEN 'weekly' THEN local_time + interval '7 days'
+      WHEN 'monthly' THEN local_time + interval '1 month'
+      ELSE NULL
+    END;
+
+    IF local_time IS NULL THEN
+      RETURN NULL;
+    END IF;
+
+    IF _recurrence = 'weekdays' THEN
+      WHILE extract(isodow FROM local_time) > 5 LOOP
+        local_time := local_time + interval '1 day';
+      END LOOP;
+    END IF;
+
+    IF _recurrence = 'monthly' AND _day_of_month IS NOT NULL THEN
+      local_time := date_trunc('month', local_time)
+        + make_interval(days => LEAST(
+            _day_of_month,
+            extract(day FROM date_trunc('month', local_time) + interval '1 month - 1 day')::INTEGER
+          ) - 1)
+        + local_time::TIME;
+    END IF;
+
+    next_at := local_time AT TIME ZONE _timezone;
+  END LOOP;
+
+  RETURN next_at;
+END;
+$$;
+
+-- Claims due messages for the worker. Locks older than five minutes belong
+-- to a run that died and are taken over.
+CREATE OR REPLACE FUNCTION public.claim_scheduled_messages(batch_size INTEGER DEFAULT 50)
+RETURNS SETOF public.scheduled_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.scheduled_messages s
+  SET locked_at = now(),
+      attempts = s.attempts + 1
+  WHERE s.id IN (
+    SELECT id
+    FROM public.scheduled_messages
+    WHERE status = 'pending'
+      AND send_at <= now()
+      AND (retry_at IS NULL OR retry_at <= now())
+      AND (locked_at IS NULL OR locked_at < now() - interval '5 minutes')
+    ORDER BY send_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING s.*;
+END;
+$$;
+
+-- Records a send. One-off messages are done; recurring ones move on to
+-- their next occurrence. A row edited while it was being sent has a new
+-- send_at and is left for the edit to take effect.
+CREATE OR REPLACE FUNCTION public.complete_scheduled_message(
+  _id UUID,
+  _claimed_send_at TIMESTAMP WITH TIME ZONE,
+  _message_id UUID
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.scheduled_messages
+  SET status = CASE WHEN recurrence IS NULL THEN 'sent' ELSE 'pending' END,
+      send_at = CASE
+        WHEN recurrence IS NULL THEN send_at
+        ELSE public.next_scheduled_send_at(send_at, recurrence, timezone, recurrence_day)
+      END,
+      attempts = 0,
+      last_error = NULL,
+      retry_at = NULL,
+      locked_at = NULL,
+      last_sent_at = now(),
+      last_message_id = _message_id
+  WHERE id = _id
+    AND send_at = _claimed_send_at;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_scheduled_messages(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_scheduled_message(UUID, TIMESTAMP WITH TIME ZONE, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,373 @@
+-- Structured messages: polls, shared checklists, locations and contact
+-- cards. Every structured message keeps a plain-text rendering in content
+-- so search, translation, exports and older clients still make sense of it.
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_message_type_check;
+ALTER TABLE public.messages
+ADD CONSTRAINT messages_message_type_check
+CHECK (message_type IN ('text', 'audio', 'image', 'video', 'file', 'call', 'poll', 'checklist', 'location', 'contact'));
+
+COMMENT ON COLUMN public.messages.message_type IS 'Type of message: text, audio, image, video, file, call (missed-call notice), poll, checklist, location or contact';
+
+-- location: { latitude, longitude, label? }; contact: { name, phone?, email?, user_id? }
+ALTER TABLE public.messages
+ADD COLUMN metadata JSONB;
+
+-- Polls -------------------------------------------------------------------
+
+CREATE TABLE public.polls (
+  message_id UUID PRIMARY KEY REFERENCES public.messages(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL,
+  question TEXT NOT NULL CHECK (char_length(btrim(question)) BETWEEN 1 AND 300),
+  allows_multiple BOOLEAN NOT NULL DEFAULT false,
+  -- Anonymous polls show tallies but never who voted for what
+  is_anonymous BOOLEAN NOT NULL DEFAULT false,
+  closes_at TIMESTAMP WITH TIME ZONE,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.poll_options (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  poll_id UUID NOT NULL REFERENCES public.polls(message_id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  label TEXT NOT NULL CHECK (char_length(btrim(label)) BETWEEN 1 AND 200),
+  -- Kept by trigger so tallies are visible (and stream over realtime) without exposing votes
+  vote_count INTEGER NOT NULL DEFAULT 0,
+  UNIQUE (poll_id, position)
+);
+
+CREATE TABLE public.poll_votes (
+  poll_id UUID NOT NULL REFERENCES public.polls(message_id) ON DELETE CASCADE,
+  option_id UUID NOT NULL REFERENCES public.poll_options(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (option_id, user_id)
+);
+
+CREATE INDEX idx_poll_votes_poll_user ON public.poll_votes(poll_id, user_id);
+
+ALTER TABLE public.polls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_votes ENABLE ROW LEVEL SECURITY;
+
+-- Polls are created, voted on and closed through the functions below
+CREATE POLICY "Participants can view polls"
+ON public.polls
+FOR SELECT
+USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+CREATE POLICY "Participants can view poll options"
+ON public.poll_options
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.polls p
+    WHERE p.message_id = poll_options.poll_id
+      AND public.is_conversation_participant(p.conversation_id, auth.uid())
+  )
+);
+
+CREATE POLICY "Users can view their own and non-anonymous votes"
+ON public.poll_votes
+FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR EXISTS (
+    SELECT 1 FROM public.polls p
+    WHERE p.message_id = poll_votes.poll_id
+      AND NOT p.is_anonymous
+      AND public.is_conversation_participant(p.conversation_id, auth.uid())
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.update_poll_vote_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.poll_options SET vote_count = vote_count + 1 WHERE id = NEW.option_id;
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.poll_options SET vote_count = greatest(vote_count - 1, 0) WHERE id = OLD.option_id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER update_poll_vote_count_on_change
+AFTER INSERT OR DELETE ON public.poll_votes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_poll_vote_count();
+
+CREATE OR REPLACE FUNCTION public.create_poll(
+  _conversation_id UUID,
+  _question TEXT,
+  _options TEXT[],
+  _allows_multiple BOOLEAN DEFAULT false,
+  _is_anonymous BOOLEAN DEFAULT false,
+  _closes_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_message_id UUID;
+  option_labels TEXT[];
+BEGIN
+  IF NOT public.is_conversation_participant(_conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a participant of this conversation';
+  END IF;
+
+  IF NOT public.check_message_rate_limit(_conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'check_message_rate_limit: too many messages';
+  END IF;
+
+  SELECT array_agg(btrim(label) ORDER BY ordinality)
+  INTO option_labels
+  FROM unnest(_options) WITH ORDINALITY AS o(label, ordinality)
+  WHERE btrim(label) <> '';
+
+  IF coalesce(array_length(option_labels, 1), 0) NOT BETWEEN 2 AND 12 THEN
+    RAISE EXCEPTION 'A poll needs between 2 and 12 options';
+  END IF;
+
+  IF _closes_at IS NOT NULL AND _closes_at <= now() THEN
+    RAISE EXCEPTION 'Poll close time must be in the future';
+  END IF;
+
+  INSERT INTO public.messages (conversation_id, sender_id, content, message_type)
+  VALUES (
+    _conversation_id,
+    auth.uid(),
+    'Poll: ' || btrim(_question) || E'\n' || array_to_string(
+      ARRAY(SELECT '- ' || label FROM unnest(option_labels) AS label), E'\n'
+    ),
+    'poll'
+  )
+  RETURNING id INTO new_message_id;
+
+  INSERT INTO public.polls (message_id, conversation_id, created_by, question, allows_multiple, is_anonymous, closes_at)
+  VALUES (new_message_id, _conversation_id, auth.uid(), btrim(_question), _allows_multiple, _is_anonymous, _closes_at);
+
+  INSERT INTO public.poll_options (poll_id, position, label)
+  SELECT new_message_id, ordinality, label
+  FROM unnest(option_labels) WITH ORDINALITY AS o(label, ordinality);
+
+  RETURN new_message_id;
+END;
+$$;
+
+-- Replaces the caller's votes on a poll; an empty list withdraws them
+CREATE OR REPLACE FUNCTION public.cast_poll_vote(_poll_id UUID, _option_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  poll public.polls%ROWTYPE;
+BEGIN
+  SELECT * INTO poll FROM public.polls WHERE message_id = _poll_id;
+
+  IF poll.message_id IS NULL
+    OR NOT public.is_conversation_participant(poll.conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF poll.closed_at IS NOT NULL OR (poll.closes_at IS NOT NULL AND poll.closes_at <= now()) THEN
+    RAISE EXCEPTION 'This poll is closed';
+  END IF;
+
+  IF NOT poll.allows_multiple AND coalesce(array_length(_option_ids, 1), 0) > 1 THEN
+    RAISE EXCEPTION 'This poll allows only one choice';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(_option_ids) AS chosen(id)
+    WHERE NOT EXISTS (SELECT 1 FROM public.poll_options o WHERE o.id = chosen.id AND o.poll_id = _poll_id)
+  ) THEN
+    RAISE EXCEPTION 'Option does not belong to this poll';
+  END IF;
+
+  DELETE FROM public.poll_votes
+  WHERE poll_id = _poll_id
+    AND user_id = auth.uid()
+    AND NOT (option_id = ANY (_option_ids));
+
+  INSERT INTO public.poll_votes (poll_id, option_id, user_id)
+  SELECT _poll_id, chosen.id, auth.uid()
+  FROM unnest(_option_ids) AS chosen(id)
+  ON CONFLICT (option_id, user_id) DO NOTHING;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.close_poll(_poll_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.polls
+  SET closed_at = now()
+  WHERE message_id = _poll_id
+    AND created_by = auth.uid()
+    AND closed_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the poll creator can close an open poll';
+  END IF;
+END;
+$$;
+
+-- Checklists ---------------------------------------------------------------
+
+CREATE TABLE public.checklist_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  label TEXT NOT NULL CHECK (char_length(btrim(label)) BETWEEN 1 AND 300),
+  created_by UUID NOT NULL,
+  checked_by UUID,
+  checked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_checklist_items_message ON public.checklist_items(message_id, position);
+
+ALTER TABLE public.checklist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view checklist items"
+ON public.checklist_items
+FOR SELECT
+USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+CREATE POLICY "Participants can add checklist items"
+ON public.checklist_items
+FOR INSERT
+WITH CHECK (
+  auth.uid() = created_by
+  AND public.is_conversation_participant(conversation_id, auth.uid())
+  AND EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.id = checklist_items.message_id
+      AND m.conversation_id = checklist_items.conversation_id
+      AND m.message_type = 'checklist'
+  )
+);
+
+-- Anyone in the chat can tick items; stamp_checklist_item limits what else changes
+CREATE POLICY "Participants can tick checklist items"
+ON public.checklist_items
+FOR UPDATE
+USING (public.is_conversation_participant(conversation_id, auth.uid()))
+WITH CHECK (public.is_conversation_participant(conversation_id, auth.uid()));
+
+CREATE POLICY "Item and checklist authors can remove items"
+ON public.checklist_items
+FOR DELETE
+USING (
+  auth.uid() = created_by
+  OR EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.id = checklist_items.message_id AND m.sender_id = auth.uid()
+  )
+);
+
+-- Records who ticked an item, and keeps items from moving between
+-- checklists or being reworded by anyone but their author
+CREATE OR REPLACE FUNCTION public.stamp_checklist_item()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.message_id := OLD.message_id;
+  NEW.conversation_id := OLD.conversation_id;
+  NEW.created_by := OLD.created_by;
+  NEW.created_at := OLD.created_at;
+
+  IF auth.uid() IS DISTINCT FROM OLD.created_by THEN
+    NEW.label := OLD.label;
+  END IF;
+
+  IF NEW.checked_at IS NULL THEN
+    NEW.checked_by := NULL;
+  ELSIF OLD.checked_at IS NULL THEN
+    NEW.checked_by := auth.uid();
+    NEW.checked_at := now();
+  ELSE
+    NEW.checked_by := OLD.checked_by;
+    NEW.checked_at := OLD.checked_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_checklist_item_before_update
+BEFORE UPDATE ON public.checklist_items
+FOR EACH ROW
+EXECUTE FUNCTION public.stamp_checklist_item();
+
+CREATE OR REPLACE FUNCTION public.create_checklist(
+  _conversation_id UUID,
+  _title TEXT,
+  _items TEXT[]
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_message_id UUID;
+  item_labels TEXT[];
+BEGIN
+  IF NOT public.is_conversation_participant(_conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a participant of this conversation';
+  END IF;
+
+  IF NOT public.check_message_rate_limit(_conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'check_message_rate_limit: too many messages';
+  END IF;
+
+  IF char_length(btrim(coalesce(_title, ''))) NOT BETWEEN 1 AND 300 THEN
+    RAISE EXCEPTION 'A checklist needs a title';
+  END IF;
+
+  SELECT array_agg(btrim(label) ORDER BY ordinality)
+  INTO item_labels
+  FROM unnest(_items) WITH ORDINALITY AS i(label, ordinality)
+  WHERE btrim(label) <> '';
+
+  INSERT INTO public.messages (conversation_id, sender_id, content, message_type, metadata)
+  VALUES (
+    _conversation_id,
+    auth.uid(),
+    'Checklist: ' || btrim(_title) || coalesce(E'\n' || array_to_string(
+      ARRAY(SELECT '- [ ] ' || label FROM unnest(item_labels) AS label), E'\n'
+    ), ''),
+    'checklist',
+    jsonb_build_object('title', btrim(_title))
+  )
+  RETURNING id INTO new_message_id;
+
+  INSERT INTO public.checklist_items (message_id, conversation_id, position, label, created_by)
+  SELECT new_message_id, _conversation_id, ordinality, label, auth.uid()
+  FROM unnest(coalesce(item_labels, '{}')) WITH ORDINALITY AS i(label, ordinality);
+
+  RETURN new_message_id;
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.polls;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.poll_options;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.checklist_items;
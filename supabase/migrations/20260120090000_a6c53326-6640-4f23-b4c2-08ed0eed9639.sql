@@ -0,0 +1,787 @@
+-- Automatic moderation for groups with bot_settings.moderation_enabled.
+-- New and edited messages are queued by trigger and checked by the
+-- process-moderation-queue function; hits land in a review queue for the
+-- group's admins, with optional hide / warn / mute actions and appeals.
+ALTER TABLE public.bot_settings
+ADD COLUMN moderation_categories TEXT[] NOT NULL DEFAULT ARRAY['spam', 'harassment', 'pii', 'links'],
+ADD COLUMN moderation_hide BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN moderation_warn BOOLEAN NOT NULL DEFAULT true,
+-- 0 disables auto-mute
+ADD COLUMN moderation_mute_minutes INTEGER NOT NULL DEFAULT 0,
+ADD CONSTRAINT bot_settings_moderation_categories_check
+  CHECK (moderation_categories <@ ARRAY['spam', 'harassment', 'pii', 'links']),
+ADD CONSTRAINT bot_settings_moderation_mute_minutes_check
+  CHECK (moderation_mute_minutes BETWEEN 0 AND 10080);
+
+CREATE OR REPLACE FUNCTION public.is_conversation_admin(conversation_uuid UUID, user_uuid UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.conversation_participants
+    WHERE conversation_id = conversation_uuid
+      AND user_id = user_uuid
+      AND is_admin = true
+  );
+$$;
+
+-- Moderation powers hang off is_admin, so members can't grant it to
+-- themselves through the participant insert/update policies. Only an
+-- existing admin can change it; a group's creator can make themselves the
+-- first admin, and the service role is trusted.
+CREATE OR REPLACE FUNCTION public.protect_conversation_admin()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NOT coalesce(NEW.is_admin, false)
+       OR public.is_conversation_admin(NEW.conversation_id, auth.uid()) THEN
+      RETURN NEW;
+    END IF;
+
+    IF NEW.user_id = auth.uid()
+       AND EXISTS (
+         SELECT 1 FROM conversations
+         WHERE id = NEW.conversation_id AND created_by = auth.uid()
+       )
+       AND NOT EXISTS (
+         SELECT 1 FROM conversation_participants
+         WHERE conversation_id = NEW.conversation_id AND is_admin = true
+       ) THEN
+      RETURN NEW;
+    END IF;
+
+    RAISE EXCEPTION 'Only conversation admins can add admins';
+  END IF;
+
+  IF NEW.is_admin IS DISTINCT FROM OLD.is_admin
+     AND NOT public.is_conversation_admin(OLD.conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only conversation admins can change admin status';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_conversation_admin_before_write
+BEFORE INSERT OR UPDATE ON public.conversation_participants
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_conversation_admin();
+
+CREATE TABLE public.moderation_flags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Kept when the message is deleted so the decision stays on record
+  message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL,
+  categories TEXT[] NOT NULL,
+  reason TEXT,
+  content_snapshot TEXT,
+  -- What was done automatically: any of 'hidden', 'warned', 'muted'
+  actions TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'upheld', 'dismissed')),
+  reviewed_by UUID,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  appeal_reason TEXT,
+  appeal_status TEXT CHECK (appeal_status IN ('pending', 'accepted', 'rejected')),
+  appealed_at TIMESTAMP WITH TIME ZONE,
+  appeal_resolved_by UUID,
+  appeal_resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_moderation_flags_conversation ON public.moderation_flags(conversation_id, created_at DESC);
+CREATE INDEX idx_moderation_flags_sender ON public.moderation_flags(sender_id, created_at DESC);
+CREATE INDEX idx_moderation_flags_message ON public.moderation_flags(message_id);
+
+ALTER TABLE public.moderation_flags ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the worker and the review/appeal functions below
+CREATE POLICY "Senders and group admins can view moderation flags"
+ON public.moderation_flags
+FOR SELECT
+USING (
+  auth.uid() = sender_id
+  OR public.is_conversation_admin(conversation_id, auth.uid())
+);
+
+CREATE TRIGGER update_moderation_flags_updated_at
+BEFORE UPDATE ON public.moderation_flags
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Messages hidden pending review. Only the id is exposed so every participant
+-- can drop the message from view when it is hidden.
+CREATE TABLE public.moderation_holds (
+  message_id UUID NOT NULL PRIMARY KEY REFERENCES public.messages(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  flag_id UUID NOT NULL REFERENCES public.moderation_flags(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_moderation_holds_conversation ON public.moderation_holds(conversation_id);
+
+ALTER TABLE public.moderation_holds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can see which messages are held"
+ON public.moderation_holds
+FOR SELECT
+USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+CREATE TABLE public.moderation_mutes (
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  muted_until TIMESTAMP WITH TIME ZONE NOT NULL,
+  flag_id UUID REFERENCES public.moderation_flags(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+ALTER TABLE public.moderation_mutes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users and group admins can view mutes"
+ON public.moderation_mutes
+FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR public.is_conversation_admin(conversation_id, auth.uid())
+);
+
+CREATE OR REPLACE FUNCTION public.is_message_held(_message_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.moderation_holds WHERE message_id = _message_id);
+$$;
+
+-- Held messages stay visible to their sender and the group's admins
+DROP POLICY IF EXISTS "Authenticated users can view messages from their conversations" ON public.messages;
+
+CREATE POLICY "Authenticated users can view messages from their conversations"
+ON public.messages
+FOR SELECT
+TO authenticated
+USING (
+  is_conversation_participant(conversation_id, auth.uid())
+  AND (
+    auth.uid() = sender_id
+    OR NOT public.is_message_held(id)
+    OR public.is_conversation_admin(conversation_id, auth.uid())
+  )
+);
+
+-- Embeddings and search results follow the same rule
+DROP POLICY IF EXISTS "Users can view embeddings from their conversations" ON public.message_embeddings;
+
+CREATE POLICY "Users can view embeddings from their conversations"
+ON public.message_embeddings
+FOR SELECT
+USING (
+  is_conversation_participant(conversation_id, auth.uid())
+  AND EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.id = message_embeddings.message_id
+      AND (
+        m.sender_id = auth.uid()
+        OR NOT public.is_message_held(m.id)
+        OR public.is_conversation_admin(m.conversation_id, auth.uid())
+      )
+  )
+);
+
+-- hybrid_search's keyword and semantic hits both come from filtered_messages
+CREATE OR REPLACE FUNCTION public.hybrid_search(
+  query_text TEXT,
+  query_embedding vector(768) DEFAULT NULL,
+  sender_filter TEXT DEFAULT NULL,
+  conversation_filter TEXT DEFAULT NULL,
+  start_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  end_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  message_type_filter TEXT DEFAULT NULL,
+  include_other_sources BOOLEAN DEFAULT true,
+  match_threshold FLOAT DEFAULT 0.3,
+  match_count INT DEFAULT 20
+)
+RETURNS TABLE (
+  source TEXT,
+  id UUID,
+  conversation_id UUID,
+  meeting_id UUID,
+  ai_conversation_id UUID,
+  sender_id UUID,
+  content TEXT,
+  snippet TEXT,
+  message_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  score FLOAT,
+  keyword_rank INT,
+  semantic_rank INT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  current_user_id UUID := auth.uid();
+  tsq tsquery;
+  sender_ids UUID[];
+  candidate_limit INT := GREATEST(match_count, 1) * 4;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF coalesce(trim(query_text), '') <> '' THEN
+    tsq := websearch_to_tsquery('simple', query_text);
+  END IF;
+
+  IF sender_filter IS NOT NULL THEN
+    SELECT coalesce(array_agg(p.user_id), '{}')
+    INTO sender_ids
+    FROM public.profiles p
+    WHERE p.user_id::text = sender_filter
+       OR (lower(sender_filter) = 'me' AND p.user_id = current_user_id)
+       OR p.display_name ILIKE sender_filter || '%'
+       OR p.username ILIKE sender_filter || '%';
+  END IF;
+
+  RETURN QUERY
+  WITH visible_conversations AS (
+    SELECT cp.conversation_id
+    FROM public.conversation_participants cp
+    JOIN public.conversations c ON c.id = cp.conversation_id
+    WHERE cp.user_id = current_user_id
+      AND (
+        conversation_filter IS NULL
+        OR c.id::text = conversation_filter
+        OR c.group_name ILIKE '%' || conversation_filter || '%'
+        -- Direct chats go by the other person's name
+        OR (NOT coalesce(c.is_group, false) AND EXISTS (
+          SELECT 1
+          FROM public.conversation_participants other
+          JOIN public.profiles p ON p.user_id = other.user_id
+          WHERE other.conversation_id = c.id
+            AND other.user_id <> current_user_id
+            AND (p.display_name ILIKE '%' || conversation_filter || '%' OR p.username ILIKE '%' || conversation_filter || '%')
+        ))
+      )
+  ),
+  filtered_messages AS NOT MATERIALIZED (
+    SELECT m.id, m.search_vector
+    FROM public.messages m
+    WHERE m.conversation_id IN (SELECT vc.conversation_id FROM visible_conversations vc)
+      AND (sender_ids IS NULL OR m.sender_id = ANY(sender_ids))
+      AND (
+        m.sender_id = current_user_id
+        OR NOT public.is_message_held(m.id)
+        OR public.is_conversation_admin(m.conversation_id, current_user_id)
+      )
+      AND (start_date IS NULL OR m.created_at >= start_date)
+      AND (end_date IS NULL OR m.created_at < end_date)
+      AND (
+        message_type_filter IS NULL
+        OR (message_type_filter = 'link' AND m.content ~* 'https?://')
+        OR m.message_type = message_type_filter
+      )
+  ),
+  keyword_hits AS (
+    SELECT 'message'::text AS hit_source, fm.id AS hit_id, ts_rank_cd(fm.search_vector, tsq) AS rank_score
+    FROM filtered_messages fm
+    WHERE tsq IS NOT NULL AND fm.search_vector @@ tsq
+
+    UNION ALL
+
+    SELECT 'meeting'::text, mt.id, ts_rank_cd(mt.search_vector, tsq)
+    FROM public.meeting_transcripts mt
+    JOIN public.meetings mg ON mg.id = mt.meeting_id
+    WHERE include_other_sources
+      AND tsq IS NOT NULL
+      AND message_type_filter IS NULL
+      AND mt.search_vector @@ tsq
+      AND public.is_meeting_member(mt.meeting_id, current_user_id)
+      AND (sender_ids IS NULL OR mt.speaker_id = ANY(sender_ids))
+      AND (start_date IS NULL OR mt.timestamp >= start_date)
+      AND (end_date IS NULL OR mt.timestamp < end_date)
+      AND (conversation_filter IS NULL OR mg.conversation_id::text = conversation_filter OR mg.title ILIKE '%' || conversation_filter || '%')
+
+    UNION ALL
+
+    SELECT 'ai_chat'::text, am.id, ts_rank_cd(am.search_vector, tsq)
+    FROM public.ai_chat_messages am
+    LEFT JOIN public.ai_chat_conversations ac ON ac.id = am.conversation_id
+    WHERE include_other_sources
+      AND tsq IS NOT NULL
+      AND message_type_filter IS NULL
+      AND am.user_id = current_user_id
+      AND am.search_vector @@ tsq
+      -- Only the user's own prompts count as "from" them
+      AND (sender_ids IS NULL OR (am.role = 'user' AND current_user_id = ANY(sender_ids)))
+      AND (start_date IS NULL OR am.created_at >= start_date)
+      AND (end_date IS NULL OR am.created_at < end_date)
+      AND (conversation_filter IS NULL OR ac.title ILIKE '%' || conversation_filter || '%')
+  ),
+  keyword AS (
+    SELECT kh.hit_source, kh.hit_id, row_number() OVER (ORDER BY kh.rank_score DESC) AS rank
+    FROM keyword_hits kh
+    ORDER BY kh.rank_score DESC
+    LIMIT candidate_limit
+  ),
+  semantic AS (
+    SELECT 'message'::text AS hit_source, fm.id AS hit_id, row_number() OVER (ORDER BY me.embedding <=> query_embedding) AS rank
+    FROM public.message_embeddings me
+    JOIN filtered_messages fm ON fm.id = me.message_id
+    WHERE query_embedding IS NOT NULL
+      AND 1 - (me.embedding <=> query_embedding) > match_threshold
+    ORDER BY me.embedding <=> query_embedding
+    LIMIT candidate_limit
+  ),
+  fused AS (
+    SELECT
+      coalesce(k.hit_source, s.hit_source) AS hit_source,
+      coalesce(k.hit_id, s.hit_id) AS hit_id,
+      coalesce(1.0 / (60 + k.rank), 0) + coalesce(1.0 / (60 + s.rank), 0) AS fused_score,
+      k.rank::int AS k_rank,
+      s.rank::int AS s_rank
+    FROM keyword k
+    FULL OUTER JOIN semantic s ON s.hit_source = k.hit_source AND s.hit_id = k.hit_id
+  ),
+  hits AS (
+    SELECT f.hit_source, m.id AS hit_id, m.conversation_id AS conv_id, NULL::uuid AS mtg_id, NULL::uuid AS ai_conv_id,
+      m.sender_id AS author_id, coalesce(nullif(m.content, ''), m.transcription, '') AS body,
+      m.message_type AS kind, m.created_at AS at, f.fused_score, f.k_rank, f.s_rank
+    FROM fused f
+    JOIN public.messages m ON f.hit_source = 'message' AND m.id = f.hit_id
+
+    UNION ALL
+
+    SELECT f.hit_source, mt.id, NULL::uuid, mt.meeting_id, NULL::uuid,
+      mt.speaker_id, mt.content, 'transcript', mt.timestamp, f.fused_score, f.k_rank, f.s_rank
+    FROM fused f
+    JOIN public.meeting_transcripts mt ON f.hit_source = 'meeting' AND mt.id = f.hit_id
+
+    UNION ALL
+
+    SELECT f.hit_source, am.id, NULL::uuid, NULL::uuid, am.conversation_id,
+      CASE WHEN am.role = 'user' THEN am.user_id END, am.content, 'ai_chat', am.created_at, f.fused_score, f.k_rank, f.s_rank
+    FROM fused f
+    JOIN public.ai_chat_messages am ON f.hit_source = 'ai_chat' AND am.id = f.hit_id
+  )
+  SELECT
+    h.hit_source,
+    h.hit_id,
+    h.conv_id,
+    h.mtg_id,
+    h.ai_conv_id,
+    h.author_id,
+    h.body,
+    CASE
+      WHEN tsq IS NOT NULL THEN ts_headline(
+        'simple', h.body, tsq,
+        'StartSel=⟦, StopSel=⟧, MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "'
+      )
+      ELSE left(h.body, 200)
+    END,
+    h.kind,
+    h.at,
+    h.fused_score::float,
+    h.k_rank,
+    h.s_rank
+  FROM hits h
+  ORDER BY h.fused_score DESC, h.at DESC
+  LIMIT match_count;
+END;
+$$;
+
+-- Superseded by hybrid_search, and it would return held messages
+DROP FUNCTION IF EXISTS public.semantic_search(vector, UUID, UUID, UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, FLOAT, INT);
+
+CREATE OR REPLACE FUNCTION public.enforce_moderation_mute()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _muted_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT muted_until INTO _muted_until
+  FROM public.moderation_mutes
+  WHERE conversation_id = NEW.conversation_id
+    AND user_id = NEW.sender_id
+    AND muted_until > now();
+
+  IF _muted_until IS NOT NULL THEN
+    RAISE EXCEPTION 'moderation_muted: you can send messages here again at %', _muted_until;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_moderation_mute_before_insert
+BEFORE INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_moderation_mute();
+
+-- Same queue shape as embedding_jobs
+CREATE TABLE public.moderation_jobs (
+  message_id UUID PRIMARY KEY REFERENCES public.messages(id) ON DELETE CASCADE,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  enqueued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  available_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  failed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_moderation_jobs_available ON public.moderation_jobs(available_at)
+  WHERE failed_at IS NULL;
+
+ALTER TABLE public.moderation_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view moderation jobs"
+ON public.moderation_jobs
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.queue_message_moderation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- ai_generated is set by clients, so it can't exempt a message
+  IF coalesce(btrim(NEW.content), '') = '' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.conversations c
+    JOIN public.bot_settings bs ON bs.conversation_id = c.id
+    WHERE c.id = NEW.conversation_id
+      AND c.is_group = true
+      AND bs.moderation_enabled = true
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.moderation_jobs (message_id)
+  VALUES (NEW.id)
+  ON CONFLICT (message_id) DO UPDATE
+  SET attempts = 0,
+      last_error = NULL,
+      enqueued_at = now(),
+      available_at = now(),
+      locked_at = NULL,
+      failed_at = NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_message_moderation_on_insert
+AFTER INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.queue_message_moderation();
+
+CREATE TRIGGER queue_message_moderation_on_update
+AFTER UPDATE OF content ON public.messages
+FOR EACH ROW
+WHEN (OLD.content IS DISTINCT FROM NEW.content)
+EXECUTE FUNCTION public.queue_message_moderation();
+
+-- Claims a batch along with each group's current settings, which may have
+-- changed since the message was queued
+CREATE OR REPLACE FUNCTION public.claim_moderation_jobs(batch_size INTEGER DEFAULT 50)
+RETURNS TABLE (
+  message_id UUID,
+  enqueued_at TIMESTAMP WITH TIME ZONE,
+  attempts INTEGER,
+  conversation_id UUID,
+  sender_id UUID,
+  content TEXT,
+  moderation_enabled BOOLEAN,
+  categories TEXT[]
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE public.moderation_jobs j
+    SET locked_at = now(),
+        attempts = j.attempts + 1
+    WHERE j.message_id IN (
+      SELECT message_id
+      FROM public.moderation_jobs
+      WHERE failed_at IS NULL
+        AND available_at <= now()
+        AND (locked_at IS NULL OR locked_at < now() - interval '5 minutes')
+      ORDER BY available_at
+      LIMIT batch_size
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.message_id, j.enqueued_at, j.attempts
+  )
+  SELECT c.message_id, c.enqueued_at, c.attempts, m.conversation_id, m.sender_id, m.content,
+         coalesce(bs.moderation_enabled, false), coalesce(bs.moderation_categories, '{}')
+  FROM claimed c
+  JOIN public.messages m ON m.id = c.message_id
+  LEFT JOIN public.bot_settings bs ON bs.conversation_id = m.conversation_id;
+END;
+$$;
+
+-- Records a hit and applies the group's configured actions. An edit of a
+-- message that is still awaiting review updates its open flag rather than
+-- warning or muting again.
+CREATE OR REPLACE FUNCTION public.apply_moderation_verdict(
+  _message_id UUID,
+  _categories TEXT[],
+  _reason TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _message public.messages%ROWTYPE;
+  _settings public.bot_settings%ROWTYPE;
+  _flag_id UUID;
+  _actions TEXT[] := '{}';
+BEGIN
+  SELECT * INTO _message FROM public.messages WHERE id = _message_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO _settings FROM public.bot_settings WHERE conversation_id = _message.conversation_id;
+
+  SELECT id INTO _flag_id
+  FROM public.moderation_flags
+  WHERE message_id = _message_id AND status = 'pending';
+
+  IF _flag_id IS NOT NULL THEN
+    UPDATE public.moderation_flags
+    SET categories = _categories,
+        reason = _reason,
+        content_snapshot = _message.content
+    WHERE id = _flag_id;
+    RETURN _flag_id;
+  END IF;
+
+  IF _settings.moderation_hide THEN
+    _actions := _actions || 'hidden'::text;
+  END IF;
+  IF _settings.moderation_warn THEN
+    _actions := _actions || 'warned'::text;
+  END IF;
+  IF _settings.moderation_mute_minutes > 0 THEN
+    _actions := _actions || 'muted'::text;
+  END IF;
+
+  INSERT INTO public.moderation_flags (message_id, conversation_id, sender_id, categories, reason, content_snapshot, actions)
+  VALUES (_message_id, _message.conversation_id, _message.sender_id, _categories, _reason, _message.content, _actions)
+  RETURNING id INTO _flag_id;
+
+  IF 'hidden' = ANY(_actions) THEN
+    INSERT INTO public.moderation_holds (message_id, conversation_id, flag_id)
+    VALUES (_message_id, _message.conversation_id, _flag_id)
+    ON CONFLICT (message_id) DO UPDATE SET flag_id = EXCLUDED.flag_id;
+  END IF;
+
+  IF 'muted' = ANY(_actions) THEN
+    INSERT INTO public.moderation_mutes (conversation_id, user_id, muted_until, flag_id)
+    VALUES (_message.conversation_id, _message.sender_id, now() + make_interval(mins => _settings.moderation_mute_minutes), _flag_id)
+    ON CONFLICT (conversation_id, user_id) DO UPDATE
+    SET muted_until = GREATEST(moderation_mutes.muted_until, EXCLUDED.muted_until),
+        flag_id = EXCLUDED.flag_id;
+  END IF;
+
+  INSERT INTO public.security_audit_log (user_id, event_type, metadata)
+  VALUES (
+    _message.sender_id,
+    'moderation_flagged',
+    jsonb_build_object(
+      'flag_id', _flag_id,
+      'message_id', _message_id,
+      'conversation_id', _message.conversation_id,
+      'categories', _categories,
+      'actions', _actions
+    )
+  );
+
+  RETURN _flag_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_moderation_jobs(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.apply_moderation_verdict(UUID, TEXT[], TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Unhides the message and ends any mute the flag caused
+CREATE OR REPLACE FUNCTION public.lift_moderation_actions(_flag_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.moderation_holds WHERE flag_id = _flag_id;
+  DELETE FROM public.moderation_mutes WHERE flag_id = _flag_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lift_moderation_actions(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Group admins decide on a pending flag: 'dismissed' restores the message,
+-- 'upheld' keeps any hide in place
+CREATE OR REPLACE FUNCTION public.review_moderation_flag(_flag_id UUID, _decision TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _flag public.moderation_flags%ROWTYPE;
+BEGIN
+  SELECT * INTO _flag FROM public.moderation_flags WHERE id = _flag_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_conversation_admin(_flag.conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only group admins can review flagged messages';
+  END IF;
+
+  IF _flag.sender_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot review your own flagged messages';
+  END IF;
+
+  IF _flag.status <> 'pending' THEN
+    RAISE EXCEPTION 'This flag has already been reviewed';
+  END IF;
+
+  IF _decision NOT IN ('upheld', 'dismissed') THEN
+    RAISE EXCEPTION 'Invalid decision';
+  END IF;
+
+  UPDATE public.moderation_flags
+  SET status = _decision,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = _flag_id;
+
+  IF _decision = 'dismissed' THEN
+    PERFORM public.lift_moderation_actions(_flag_id);
+  END IF;
+
+  INSERT INTO public.security_audit_log (user_id, event_type, metadata)
+  VALUES (
+    auth.uid(),
+    'moderation_reviewed',
+    jsonb_build_object('flag_id', _flag_id, 'conversation_id', _flag.conversation_id, 'decision', _decision)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.appeal_moderation_flag(_flag_id UUID, _reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _flag public.moderation_flags%ROWTYPE;
+BEGIN
+  SELECT * INTO _flag FROM public.moderation_flags WHERE id = _flag_id FOR UPDATE;
+
+  IF NOT FOUND OR _flag.sender_id <> auth.uid() THEN
+    RAISE EXCEPTION 'You can only appeal moderation of your own messages';
+  END IF;
+
+  IF _flag.status = 'dismissed' OR _flag.appeal_status IS NOT NULL THEN
+    RAISE EXCEPTION 'This flag can no longer be appealed';
+  END IF;
+
+  IF coalesce(btrim(_reason), '') = '' OR length(_reason) > 1000 THEN
+    RAISE EXCEPTION 'An appeal needs a reason of up to 1000 characters';
+  END IF;
+
+  UPDATE public.moderation_flags
+  SET appeal_reason = btrim(_reason),
+      appeal_status = 'pending',
+      appealed_at = now()
+  WHERE id = _flag_id;
+
+  INSERT INTO public.security_audit_log (user_id, event_type, metadata)
+  VALUES (
+    auth.uid(),
+    'moderation_appealed',
+    jsonb_build_object('flag_id', _flag_id, 'conversation_id', _flag.conversation_id)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.resolve_moderation_appeal(_flag_id UUID, _accept BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _flag public.moderation_flags%ROWTYPE;
+BEGIN
+  SELECT * INTO _flag FROM public.moderation_flags WHERE id = _flag_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_conversation_admin(_flag.conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only group admins can resolve appeals';
+  END IF;
+
+  IF _flag.sender_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot resolve an appeal of your own message';
+  END IF;
+
+  IF _flag.appeal_status IS DISTINCT FROM 'pending' THEN
+    RAISE EXCEPTION 'There is no open appeal for this flag';
+  END IF;
+
+  UPDATE public.moderation_flags
+  SET appeal_status = CASE WHEN _accept THEN 'accepted' ELSE 'rejected' END,
+      appeal_resolved_by = auth.uid(),
+      appeal_resolved_at = now(),
+      status = CASE WHEN _accept THEN 'dismissed' ELSE 'upheld' END,
+      reviewed_by = coalesce(reviewed_by, auth.uid()),
+      reviewed_at = coalesce(reviewed_at, now())
+  WHERE id = _flag_id;
+
+  IF _accept THEN
+    PERFORM public.lift_moderation_actions(_flag_id);
+  END IF;
+
+  INSERT INTO public.security_audit_log (user_id, event_type, metadata)
+  VALUES (
+    auth.uid(),
+    'moderation_appeal_resolved',
+    jsonb_build_object('flag_id', _flag_id, 'conversation_id', _flag.conversation_id, 'accepted', _accept)
+  );
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.moderation_flags;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.moderation_holds;
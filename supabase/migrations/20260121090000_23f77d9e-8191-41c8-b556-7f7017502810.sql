@@ -0,0 +1,310 @@
+-- Group bots as principals of their own. Bot replies used to be inserted by
+-- the client under the invoking member's sender_id with only ai_generated to
+-- tell them apart. They are now posted by the group-bot function with
+-- bot_id set; sender_id stays the member who asked, for rate limits, mutes
+-- and the foreign key to auth.users.
+CREATE TABLE public.bots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL UNIQUE REFERENCES public.conversations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL DEFAULT 'GroupBotAI' CHECK (char_length(btrim(name)) BETWEEN 1 AND 50),
+  avatar_url TEXT CHECK (avatar_url IS NULL OR avatar_url ~* '^https://'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.bots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view their conversation's bot"
+ON public.bots
+FOR SELECT
+USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+CREATE POLICY "Conversation admins can create the bot"
+ON public.bots
+FOR INSERT
+WITH CHECK (public.is_conversation_admin(conversation_id, auth.uid()));
+
+CREATE POLICY "Conversation admins can update the bot"
+ON public.bots
+FOR UPDATE
+USING (public.is_conversation_admin(conversation_id, auth.uid()))
+WITH CHECK (public.is_conversation_admin(conversation_id, auth.uid()));
+
+CREATE TRIGGER update_bots_updated_at
+BEFORE UPDATE ON public.bots
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.messages
+ADD COLUMN bot_id UUID REFERENCES public.bots(id),
+ADD CONSTRAINT messages_bot_ai_generated_check CHECK (bot_id IS NULL OR coalesce(ai_generated, false));
+
+CREATE INDEX idx_messages_bot ON public.messages(bot_id) WHERE bot_id IS NOT NULL;
+
+-- Earlier bot replies were all client inserts from GroupBotInteraction
+INSERT INTO public.bots (conversation_id)
+SELECT DISTINCT conversation_id FROM public.messages WHERE ai_generated
+ON CONFLICT (conversation_id) DO NOTHING;
+
+UPDATE public.messages m
+SET bot_id = b.id
+FROM public.bots b
+WHERE b.conversation_id = m.conversation_id
+  AND m.ai_generated
+  AND m.bot_id IS NULL;
+
+-- Only the service role (no auth.uid()) may speak as the bot, and members
+-- can't edit the bot's words through the sender_id they share with it
+CREATE OR REPLACE FUNCTION public.protect_bot_messages()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND (NEW.bot_id IS NOT NULL OR coalesce(NEW.ai_generated, false)) THEN
+    RAISE EXCEPTION 'Bot messages are posted by the group bot';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (
+    NEW.bot_id IS DISTINCT FROM OLD.bot_id
+    OR coalesce(NEW.ai_generated, false) IS DISTINCT FROM coalesce(OLD.ai_generated, false)
+    OR (OLD.bot_id IS NOT NULL AND NEW.content IS DISTINCT FROM OLD.content)
+  ) THEN
+    RAISE EXCEPTION 'Bot messages cannot be edited';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_bot_messages
+BEFORE INSERT OR UPDATE ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_bot_messages();
+
+-- hybrid_search gains the bot's id and name so results are attributed to
+-- the bot. from: matches bot names too, and a member's name no longer
+-- matches the bot replies they asked for.
+DROP FUNCTION IF EXISTS public.hybrid_search(TEXT, vector, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, BOOLEAN, FLOAT, INT);
+
+CREATE OR REPLACE FUNCTION public.hybrid_search(
+  query_text TEXT,
+  query_embedding vector(768) DEFAULT NULL,
+  sender_filter TEXT DEFAULT NULL,
+  conversation_filter TEXT DEFAULT NULL,
+  start_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  end_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  message_type_filter TEXT DEFAULT NULL,
+  include_other_sources BOOLEAN DEFAULT true,
+  match_threshold FLOAT DEFAULT 0.3,
+  match_count INT DEFAULT 20
+)
+RETURNS TABLE (
+  source TEXT,
+  id UUID,
+  conversation_id UUID,
+  meeting_id UUID,
+  ai_conversation_id UUID,
+  sender_id UUID,
+  content TEXT,
+  snippet TEXT,
+  message_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  score FLOAT,
+  keyword_rank INT,
+  semantic_rank INT,
+  bot_id UUID,
+  bot_name TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  current_user_id UUID := auth.uid();
+  tsq tsquery;
+  sender_ids UUID[];
+  bot_ids UUID[];
+  candidate_limit INT := GREATEST(match_count, 1) * 4;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF coalesce(trim(query_text), '') <> '' THEN
+    tsq := websearch_to_tsquery('simple', query_text);
+  END IF;
+
+  IF sender_filter IS NOT NULL THEN
+    SELECT coalesce(array_agg(p.user_id), '{}')
+    INTO sender_ids
+    FROM public.profiles p
+    WHERE p.user_id::text = sender_filter
+       OR (lower(sender_filter) = 'me' AND p.user_id = current_user_id)
+       OR p.display_name ILIKE sender_filter || '%'
+       OR p.username ILIKE sender_filter || '%';
+
+    SELECT coalesce(array_agg(b.id), '{}')
+    INTO bot_ids
+    FROM public.bots b
+    WHERE (b.id::text = sender_filter OR b.name ILIKE sender_filter || '%')
+      AND public.is_conversation_participant(b.conversation_id, current_user_id);
+  END IF;
+
+  RETURN QUERY
+  WITH visible_conversations AS (
+    SELECT cp.conversation_id
+    FROM public.conversation_participants cp
+    JOIN public.conversations c ON c.id = cp.conversation_id
+    WHERE cp.user_id = current_user_id
+      AND (
+        conversation_filter IS NULL
+        OR c.id::text = conversation_filter
+        OR c.group_name ILIKE '%' || conversation_filter || '%'
+        -- Direct chats go by the other person's name
+        OR (NOT coalesce(c.is_group, false) AND EXISTS (
+          SELECT 1
+          FROM public.conversation_participants other
+          JOIN public.profiles p ON p.user_id = other.user_id
+          WHERE other.conversation_id = c.id
+            AND other.user_id <> current_user_id
+            AND (p.display_name ILIKE '%' || conversation_filter || '%' OR p.username ILIKE '%' || conversation_filter || '%')
+        ))
+      )
+  ),
+  filtered_messages AS NOT MATERIALIZED (
+    SELECT m.id, m.search_vector
+    FROM public.messages m
+    WHERE m.conversation_id IN (SELECT vc.conversation_id FROM visible_conversations vc)
+      AND (
+        sender_ids IS NULL
+        OR (m.bot_id IS NULL AND m.sender_id = ANY(sender_ids))
+        OR m.bot_id = ANY(bot_ids)
+      )
+      AND (start_date IS NULL OR m.created_at >= start_date)
+      AND (end_date IS NULL OR m.created_at < end_date)
+      AND (
+        message_type_filter IS NULL
+        OR (message_type_filter = 'link' AND m.content ~* 'https?://')
+        OR m.message_type = message_type_filter
+      )
+  ),
+  keyword_hits AS (
+    SELECT 'message'::text AS hit_source, fm.id AS hit_id, ts_rank_cd(fm.search_vector, tsq) AS rank_score
+    FROM filtered_messages fm
+    WHERE tsq IS NOT NULL AND fm.search_vector @@ tsq
+
+    UNION ALL
+
+    SELECT 'meeting'::text, mt.id, ts_rank_cd(mt.search_vector, tsq)
+    FROM public.meeting_transcripts mt
+    JOIN public.meetings mg ON mg.id = mt.meeting_id
+    WHERE include_other_sources
+      AND tsq IS NOT NULL
+      AND message_type_filter IS NULL
+      AND mt.search_vector @@ tsq
+      AND public.is_meeting_member(mt.meeting_id, current_user_id)
+      AND (sender_ids IS NULL OR mt.speaker_id = ANY(sender_ids))
+      AND (start_date IS NULL OR mt.timestamp >= start_date)
+      AND (end_date IS NULL OR mt.timestamp < end_date)
+      AND (conversation_filter IS NULL OR mg.conversation_id::text = conversation_filter OR mg.title ILIKE '%' || conversation_filter || '%')
+
+    UNION ALL
+
+    SELECT 'ai_chat'::text, am.id, ts_rank_cd(am.search_vector, tsq)
+    FROM public.ai_chat_messages am
+    LEFT JOIN public.ai_chat_conversations ac ON ac.id = am.conversation_id
+    WHERE include_other_sources
+      AND tsq IS NOT NULL
+      AND message_type_filter IS NULL
+      AND am.user_id = current_user_id
+      AND am.search_vector @@ tsq
+      -- Only the user's own prompts count as "from" them
+      AND (sender_ids IS NULL OR (am.role = 'user' AND current_user_id = ANY(sender_ids)))
+      AND (start_date IS NULL OR am.created_at >= start_date)
+      AND (end_date IS NULL OR am.created_at < end_date)
+      AND (conversation_filter IS NULL OR ac.title ILIKE '%' || conversation_filter || '%')
+  ),
+  keyword AS (
+    SELECT kh.hit_source, kh.hit_id, row_number() OVER (ORDER BY kh.rank_score DESC) AS rank
+    FROM keyword_hits kh
+    ORDER BY kh.rank_score DESC
+    LIMIT candidate_limit
+  ),
+  semantic AS (
+    SELECT 'message'::text AS hit_source, fm.id AS hit_id, row_number() OVER (ORDER BY me.embedding <=> query_embedding) AS rank
+    FROM public.message_embeddings me
+    JOIN filtered_messages fm ON fm.id = me.message_id
+    WHERE query_embedding IS NOT NULL
+      AND 1 - (me.embedding <=> query_embedding) > match_threshold
+    ORDER BY me.embedding <=> query_embedding
+    LIMIT candidate_limit
+  ),
+  fused AS (
+    SELECT
+      coalesce(k.hit_source, s.hit_source) AS hit_source,
+      coalesce(k.hit_id, s.hit_id) AS hit_id,
+      coalesce(1.0 / (60 + k.rank), 0) + coalesce(1.0 / (60 + s.rank), 0) AS fused_score,
+      k.rank::int AS k_rank,
+      s.rank::int AS s_rank
+    FROM keyword k
+    FULL OUTER JOIN semantic s ON s.hit_source = k.hit_source AND s.hit_id = k.hit_id
+  ),
+  hits AS (
+    SELECT f.hit_source, m.id AS hit_id, m.conversation_id AS conv_id, NULL::uuid AS mtg_id, NULL::uuid AS ai_conv_id,
+      m.sender_id AS author_id, coalesce(nullif(m.content, ''), m.transcription, '') AS body,
+      m.message_type AS kind, m.created_at AS at, f.fused_score, f.k_rank, f.s_rank,
+      b.id AS author_bot_id, b.name AS author_bot_name
+    FROM fused f
+    JOIN public.messages m ON f.hit_source = 'message' AND m.id = f.hit_id
+    LEFT JOIN public.bots b ON b.id = m.bot_id
+
+    UNION ALL
+
+    SELECT f.hit_source, mt.id, NULL::uuid, mt.meeting_id, NULL::uuid,
+      mt.speaker_id, mt.content, 'transcript', mt.timestamp, f.fused_score, f.k_rank, f.s_rank,
+      NULL::uuid, NULL::text
+    FROM fused f
+    JOIN public.meeting_transcripts mt ON f.hit_source = 'meeting' AND mt.id = f.hit_id
+
+    UNION ALL
+
+    SELECT f.hit_source, am.id, NULL::uuid, NULL::uuid, am.conversation_id,
+      CASE WHEN am.role = 'user' THEN am.user_id END, am.content, 'ai_chat', am.created_at, f.fused_score, f.k_rank, f.s_rank,
+      NULL::uuid, NULL::text
+    FROM fused f
+    JOIN public.ai_chat_messages am ON f.hit_source = 'ai_chat' AND am.id = f.hit_id
+  )
+  SELECT
+    h.hit_source,
+    h.hit_id,
+    h.conv_id,
+    h.mtg_id,
+    h.ai_conv_id,
+    h.author_id,
+    h.body,
+    CASE
+      WHEN tsq IS NOT NULL THEN ts_headline(
+        'simple', h.body, tsq,
+        'StartSel=⟦, StopSel=⟧, MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "'
+      )
+      ELSE left(h.body, 200)
+    END,
+    h.kind,
+    h.at,
+    h.fused_score::float,
+    h.k_rank,
+    h.s_rank,
+    h.author_bot_id,
+    h.author_bot_name
+  FROM hits h
+  ORDER BY h.fused_score DESC, h.at DESC
+  LIMIT match_count;
+END;
+$$;
@@ -0,0 +1,523 @@
+-- Proactive group bot. @nexora mentions and per-group keyword rules queue
+-- bot_jobs for the process-bot-queue worker, which also runs scheduled
+-- digests from bot_schedules. Reminders the bot sets are scheduled_messages
+-- that process-scheduled-messages posts as the bot.
+ALTER TABLE public.bot_settings
+ADD COLUMN respond_to_mentions BOOLEAN NOT NULL DEFAULT true,
+-- Digests and reminders use the group's wall-clock time
+ADD COLUMN timezone TEXT NOT NULL DEFAULT 'UTC';
+
+CREATE TABLE public.bot_triggers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  pattern TEXT NOT NULL CHECK (char_length(btrim(pattern)) BETWEEN 1 AND 200),
+  is_regex BOOLEAN NOT NULL DEFAULT false,
+  mode TEXT NOT NULL DEFAULT 'knowledge' CHECK (mode IN ('assistant', 'knowledge', 'moderator', 'persona', 'translation')),
+  -- Guidance for the reply, e.g. the FAQ answer to base it on
+  instructions TEXT CHECK (instructions IS NULL OR char_length(instructions) <= 2000),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  -- A rule fires at most once a minute so a busy chat doesn't flood the bot
+  last_fired_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_bot_triggers_conversation ON public.bot_triggers(conversation_id) WHERE enabled;
+
+ALTER TABLE public.bot_triggers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view bot triggers"
+ON public.bot_triggers
+FOR SELECT
+USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+CREATE POLICY "Conversation admins can add bot triggers"
+ON public.bot_triggers
+FOR INSERT
+WITH CHECK (
+  auth.uid() = created_by
+  AND public.is_conversation_admin(conversation_id, auth.uid())
+);
+
+CREATE POLICY "Conversation admins can update bot triggers"
+ON public.bot_triggers
+FOR UPDATE
+USING (public.is_conversation_admin(conversation_id, auth.uid()))
+WITH CHECK (public.is_conversation_admin(conversation_id, auth.uid()));
+
+CREATE POLICY "Conversation admins can remove bot triggers"
+ON public.bot_triggers
+FOR DELETE
+USING (public.is_conversation_admin(conversation_id, auth.uid()));
+
+CREATE TRIGGER update_bot_triggers_updated_at
+BEFORE UPDATE ON public.bot_triggers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A broken regex is rejected when saved rather than skipped on every message.
+-- Back-references are the one feature that makes Postgres regexes backtrack
+-- exponentially, so rules can't use them.
+CREATE OR REPLACE FUNCTION public.validate_bot_trigger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_regex THEN
+    IF NEW.pattern ~ '\\[1-9]' THEN
+      RAISE EXCEPTION 'Back-references are not allowed in bot rules';
+    END IF;
+
+    BEGIN
+      PERFORM '' ~* NEW.pattern;
+    EXCEPTION WHEN invalid_regular_expression THEN
+      RAISE EXCEPTION 'Invalid regular expression: %', NEW.pattern;
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_bot_trigger_before_write
+BEFORE INSERT OR UPDATE OF pattern, is_regex ON public.bot_triggers
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_bot_trigger();
+
+-- Same queue shape as moderation_jobs; one bot reply per message at most.
+-- Keyword jobs are matched against the group's rules by the worker, which
+-- sets trigger_id; messages that match none are dropped.
+CREATE TABLE public.bot_jobs (
+  message_id UUID PRIMARY KEY REFERENCES public.messages(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('mention', 'keyword')),
+  trigger_id UUID REFERENCES public.bot_triggers(id) ON DELETE CASCADE,
+  -- Set as soon as the reply is posted, so a retry doesn't post it again
+  reply_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  enqueued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  available_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  failed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_bot_jobs_available ON public.bot_jobs(available_at)
+  WHERE failed_at IS NULL;
+
+ALTER TABLE public.bot_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view bot jobs"
+ON public.bot_jobs
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Admins' rules are only matched in the worker (match_bot_trigger), so a
+-- slow pattern can't hold up sending messages
+CREATE OR REPLACE FUNCTION public.queue_bot_reply()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.bot_settings%ROWTYPE;
+BEGIN
+  -- Bot replies never trigger the bot, and imported history isn't live chat
+  IF NEW.ai_generated
+     OR NEW.imported_sender_name IS NOT NULL
+     OR coalesce(NEW.message_type, 'text') <> 'text'
+     OR coalesce(btrim(NEW.content), '') = '' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.conversations WHERE id = NEW.conversation_id AND is_group = true) THEN
+    RETURN NEW;
+  END IF;
+
+  -- The importer's own lines have no imported_sender_name, but the import
+  -- backdates every line while live messages are stamped with now()
+  IF NEW.created_at < now() AND EXISTS (
+    SELECT 1 FROM public.conversations
+    WHERE id = NEW.conversation_id AND imported_from IS NOT NULL
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _settings FROM public.bot_settings WHERE conversation_id = NEW.conversation_id;
+  IF FOUND AND _settings.enabled = false THEN
+    RETURN NEW;
+  END IF;
+
+  IF coalesce(_settings.respond_to_mentions, true)
+     AND NEW.content ~* '(^|[^[:alnum:]_])@nexora([^[:alnum:]_]|$)' THEN
+    INSERT INTO public.bot_jobs (message_id, kind)
+    VALUES (NEW.id, 'mention')
+    ON CONFLICT (message_id) DO NOTHING;
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.bot_triggers
+    WHERE conversation_id = NEW.conversation_id
+      AND enabled
+      AND (last_fired_at IS NULL OR last_fired_at < now() - interval '1 minute')
+  ) THEN
+    INSERT INTO public.bot_jobs (message_id, kind)
+    VALUES (NEW.id, 'keyword')
+    ON CONFLICT (message_id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_bot_reply_on_insert
+AFTER INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.queue_bot_reply();
+
+-- Finds the first of the group's rules a keyword job's message matches and
+-- ties the job to it. A retried job keeps the rule it matched the first time.
+-- Only the start of long messages is matched.
+CREATE OR REPLACE FUNCTION public.match_bot_trigger(_message_id UUID)
+RETURNS TABLE (
+  trigger_id UUID,
+  mode TEXT,
+  instructions TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  _job public.bot_jobs%ROWTYPE;
+  _content TEXT;
+  _rule public.bot_triggers%ROWTYPE;
+  _matched BOOLEAN;
+BEGIN
+  SELECT * INTO _job FROM public.bot_jobs WHERE message_id = _message_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF _job.trigger_id IS NOT NULL THEN
+    RETURN QUERY
+    SELECT t.id, t.mode, t.instructions FROM public.bot_triggers t WHERE t.id = _job.trigger_id;
+    RETURN;
+  END IF;
+
+  SELECT left(m.content, 2000) INTO _content FROM public.messages m WHERE m.id = _message_id;
+
+  FOR _rule IN
+    SELECT *
+    FROM public.bot_triggers t
+    WHERE t.conversation_id = (SELECT m.conversation_id FROM public.messages m WHERE m.id = _message_id)
+      AND t.enabled
+      AND (t.last_fired_at IS NULL OR t.last_fired_at < now() - interval '1 minute')
+    ORDER BY t.created_at
+  LOOP
+    BEGIN
+      _matched := CASE
+        WHEN _rule.is_regex THEN _content ~* _rule.pattern
+        ELSE strpos(lower(_content), lower(btrim(_rule.pattern))) > 0
+      END;
+    EXCEPTION WHEN OTHERS THEN
+      _matched := false;
+    END;
+
+    IF _matched THEN
+      UPDATE public.bot_triggers SET last_fired_at = now() WHERE id = _rule.id;
+      UPDATE public.bot_jobs SET trigger_id = _rule.id WHERE message_id = _message_id;
+
+      RETURN QUERY SELECT _rule.id, _rule.mode, _rule.instructions;
+      RETURN;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Claims a batch with the message, the rule that fired and the group's
+-- current bot settings
+CREATE OR REPLACE FUNCTION public.claim_bot_jobs(batch_size INTEGER DEFAULT 20)
+RETURNS TABLE (
+  message_id UUID,
+  enqueued_at TIMESTAMP WITH TIME ZONE,
+  attempts INTEGER,
+  kind TEXT,
+  reply_message_id UUID,
+  conversation_id UUID,
+  sender_id UUID,
+  content TEXT,
+  thread_root_id UUID,
+  trigger_mode TEXT,
+  trigger_instructions TEXT,
+  bot_enabled BOOLEAN,
+  default_mode TEXT,
+  persona TEXT,
+  auto_translate BOOLEAN,
+  target_language TEXT,
+  timezone TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE public.bot_jobs j
+    SET locked_at = now(),
+        attempts = j.attempts + 1
+    WHERE j.message_id IN (
+      SELECT message_id
+      FROM public.bot_jobs
+      WHERE failed_at IS NULL
+        AND available_at <= now()
+        AND (locked_at IS NULL OR locked_at < now() - interval '5 minutes')
+      ORDER BY available_at
+      LIMIT batch_size
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.message_id, j.enqueued_at, j.attempts, j.kind, j.trigger_id, j.reply_message_id
+  )
+  SELECT c.message_id, c.enqueued_at, c.attempts, c.kind,
+         -- The reply itself is the record if the worker died before noting it
+         coalesce(c.reply_message_id, (
+           SELECT r.id FROM public.messages r
+           WHERE r.reply_to_id = c.message_id AND r.bot_id IS NOT NULL
+           LIMIT 1
+         )),
+         m.conversation_id, m.sender_id, m.content, m.thread_root_id,
+         t.mode, t.instructions,
+         coalesce(bs.enabled, true), coalesce(bs.default_mode, 'assistant'), coalesce(bs.persona, 'professional'),
+         coalesce(bs.auto_translate, false), coalesce(bs.target_language, 'en'), coalesce(bs.timezone, 'UTC')
+  FROM claimed c
+  JOIN public.messages m ON m.id = c.message_id
+  LEFT JOIN public.bot_triggers t ON t.id = c.trigger_id
+  LEFT JOIN public.bot_settings bs ON bs.conversation_id = m.conversation_id;
+END;
+$$;
+
+-- Scheduled bot posts ------------------------------------------------------
+
+CREATE TABLE public.bot_schedules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('daily_digest', 'weekly_summary')),
+  hour INTEGER NOT NULL DEFAULT 9 CHECK (hour BETWEEN 0 AND 23),
+  -- ISO day of week, 1 = Monday; weekly summaries only
+  weekday INTEGER CHECK (weekday BETWEEN 1 AND 7),
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  -- Maintained by set_bot_schedule_next_run and complete_bot_schedule
+  next_run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  locked_at TIMESTAMP WITH TIME ZONE,
+  -- Posts go out under this member's sender_id, like any bot reply
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (conversation_id, kind),
+  CHECK (kind <> 'weekly_summary' OR weekday IS NOT NULL)
+);
+
+CREATE INDEX idx_bot_schedules_due ON public.bot_schedules(next_run_at) WHERE enabled;
+
+ALTER TABLE public.bot_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view bot schedules"
+ON public.bot_schedules
+FOR SELECT
+USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+CREATE POLICY "Conversation admins can add bot schedules"
+ON public.bot_schedules
+FOR INSERT
+WITH CHECK (
+  auth.uid() = created_by
+  AND public.is_conversation_admin(conversation_id, auth.uid())
+);
+
+CREATE POLICY "Conversation admins can update bot schedules"
+ON public.bot_schedules
+FOR UPDATE
+USING (public.is_conversation_admin(conversation_id, auth.uid()))
+WITH CHECK (
+  auth.uid() = created_by
+  AND public.is_conversation_admin(conversation_id, auth.uid())
+);
+
+CREATE POLICY "Conversation admins can remove bot schedules"
+ON public.bot_schedules
+FOR DELETE
+USING (public.is_conversation_admin(conversation_id, auth.uid()));
+
+CREATE TRIGGER update_bot_schedules_updated_at
+BEFORE UPDATE ON public.bot_schedules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Next time the schedule's local hour (and weekday) comes round, strictly after now
+CREATE OR REPLACE FUNCTION public.next_bot_schedule_run(
+  _kind TEXT,
+  _hour INTEGER,
+  _weekday INTEGER,
+  _timezone TEXT
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  local_now TIMESTAMP := now() AT TIME ZONE _timezone;
+  candidate TIMESTAMP := date_trunc('day', local_now) + make_interval(hours => _hour);
+BEGIN
+  IF _kind = 'weekly_summary' THEN
+    candidate := candidate + make_interval(days => ((_weekday - extract(isodow FROM candidate)::int + 7) % 7));
+  END IF;
+
+  IF candidate <= local_now THEN
+    candidate := candidate + CASE WHEN _kind = 'weekly_summary' THEN interval '7 days' ELSE interval '1 day' END;
+  END IF;
+
+  RETURN candidate AT TIME ZONE _timezone;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_bot_schedule_next_run()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.next_run_at := public.next_bot_schedule_run(NEW.kind, NEW.hour, NEW.weekday, NEW.timezone);
+  NEW.attempts := 0;
+  NEW.last_error := NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_bot_schedule_next_run_before_write
+BEFORE INSERT OR UPDATE OF kind, hour, weekday, timezone, enabled ON public.bot_schedules
+FOR EACH ROW
+EXECUTE FUNCTION public.set_bot_schedule_next_run();
+
+-- Claims due schedules with the group's bot settings. Locks older than five
+-- minutes belong to a run that died and are taken over.
+CREATE OR REPLACE FUNCTION public.claim_bot_schedules(batch_size INTEGER DEFAULT 20)
+RETURNS TABLE (
+  id UUID,
+  conversation_id UUID,
+  kind TEXT,
+  next_run_at TIMESTAMP WITH TIME ZONE,
+  attempts INTEGER,
+  created_by UUID,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  bot_enabled BOOLEAN,
+  persona TEXT,
+  timezone TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE public.bot_schedules s
+    SET locked_at = now(),
+        attempts = s.attempts + 1
+    WHERE s.id IN (
+      SELECT id
+      FROM public.bot_schedules
+      WHERE enabled
+        AND next_run_at <= now()
+        AND (locked_at IS NULL OR locked_at < now() - interval '5 minutes')
+      ORDER BY next_run_at
+      LIMIT batch_size
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING s.*
+  )
+  SELECT c.id, c.conversation_id, c.kind, c.next_run_at, c.attempts, c.created_by, c.last_run_at,
+         coalesce(bs.enabled, true), coalesce(bs.persona, 'professional'), c.timezone
+  FROM claimed c
+  LEFT JOIN public.bot_settings bs ON bs.conversation_id = c.conversation_id;
+END;
+$$;
+
+-- Moves a schedule on to its next occurrence. A schedule edited while it
+-- was running has a new next_run_at and is left alone.
+CREATE OR REPLACE FUNCTION public.complete_bot_schedule(
+  _id UUID,
+  _claimed_run_at TIMESTAMP WITH TIME ZONE,
+  _message_id UUID,
+  _error TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.bot_schedules
+  SET next_run_at = public.next_bot_schedule_run(kind, hour, weekday, timezone),
+      last_run_at = now(),
+      last_message_id = coalesce(_message_id, last_message_id),
+      attempts = 0,
+      last_error = _error,
+      locked_at = NULL
+  WHERE id = _id
+    AND next_run_at = _claimed_run_at;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_bot_jobs(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.match_bot_trigger(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_bot_schedules(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_bot_schedule(UUID, TIMESTAMP WITH TIME ZONE, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Bot reminders ------------------------------------------------------------
+
+-- Reminders the bot sets are posted as the bot; sender_id is the member
+-- who asked and who can reschedule or cancel them
+ALTER TABLE public.scheduled_messages
+ADD COLUMN bot_id UUID REFERENCES public.bots(id) ON DELETE CASCADE;
+
+CREATE OR REPLACE FUNCTION public.protect_bot_reminders()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.bot_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Bot reminders are set by the group bot';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (
+    NEW.bot_id IS DISTINCT FROM OLD.bot_id
+    OR (OLD.bot_id IS NOT NULL AND NEW.content IS DISTINCT FROM OLD.content)
+  ) THEN
+    RAISE EXCEPTION 'Bot reminders can only be rescheduled or cancelled';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_bot_reminders
+BEFORE INSERT OR UPDATE ON public.scheduled_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_bot_reminders();
@@ -0,0 +1,424 @@
+-- Knowledge base for the group bot's knowledge mode. A group's admins pin
+-- messages and upload documents, and can link the documents of communities
+-- they administer. Sources are chunked and embedded by process-embedding-queue
+-- into knowledge_chunks and retrieved with match_knowledge_chunks.
+
+CREATE OR REPLACE FUNCTION public.is_community_admin(_community_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.community_members
+    WHERE community_id = _community_id
+      AND user_id = _user_id
+      AND role IN ('owner', 'admin')
+  );
+$$;
+
+-- A group's admins share the documents of a community they also administer
+-- with the group's bot
+CREATE TABLE public.knowledge_community_links (
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  community_id UUID NOT NULL REFERENCES public.communities(id) ON DELETE CASCADE,
+  linked_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (conversation_id, community_id)
+);
+
+CREATE INDEX idx_knowledge_community_links_community ON public.knowledge_community_links(community_id);
+
+ALTER TABLE public.knowledge_community_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view linked communities"
+ON public.knowledge_community_links
+FOR SELECT
+USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+CREATE POLICY "Conversation admins can link their communities"
+ON public.knowledge_community_links
+FOR INSERT
+WITH CHECK (
+  auth.uid() = linked_by
+  AND public.is_conversation_admin(conversation_id, auth.uid())
+  AND public.is_community_admin(community_id, auth.uid())
+);
+
+CREATE POLICY "Conversation admins can unlink communities"
+ON public.knowledge_community_links
+FOR DELETE
+USING (public.is_conversation_admin(conversation_id, auth.uid()));
+
+-- Members of a community, and of groups it is linked to, can read its documents
+CREATE OR REPLACE FUNCTION public.can_view_knowledge(_conversation_id UUID, _community_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _conversation_id IS NOT NULL THEN public.is_conversation_participant(_conversation_id, _user_id)
+    ELSE public.is_community_member(_community_id, _user_id)
+      OR EXISTS (
+        SELECT 1
+        FROM public.knowledge_community_links l
+        JOIN public.conversation_participants cp ON cp.conversation_id = l.conversation_id
+        WHERE l.community_id = _community_id AND cp.user_id = _user_id
+      )
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_manage_knowledge(_conversation_id UUID, _community_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _conversation_id IS NOT NULL THEN public.is_conversation_admin(_conversation_id, _user_id)
+    ELSE public.is_community_admin(_community_id, _user_id)
+  END;
+$$;
+
+-- Private bucket for uploaded documents
+-- Objects are stored as: conversation|community/owner_id/source_id/file_name
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('knowledge-base', 'knowledge-base', false, 10485760, ARRAY['application/pdf', 'text/markdown', 'text/plain'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Members can view knowledge base documents"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'knowledge-base'
+  AND (
+    ((storage.foldername(name))[1] = 'conversation'
+      AND public.can_view_knowledge(((storage.foldername(name))[2])::uuid, NULL, auth.uid()))
+    OR ((storage.foldername(name))[1] = 'community'
+      AND public.can_view_knowledge(NULL, ((storage.foldername(name))[2])::uuid, auth.uid()))
+  )
+);
+
+CREATE POLICY "Admins can upload knowledge base documents"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'knowledge-base'
+  AND (
+    ((storage.foldername(name))[1] = 'conversation'
+      AND public.can_manage_knowledge(((storage.foldername(name))[2])::uuid, NULL, auth.uid()))
+    OR ((storage.foldername(name))[1] = 'community'
+      AND public.can_manage_knowledge(NULL, ((storage.foldername(name))[2])::uuid, auth.uid()))
+  )
+);
+
+CREATE POLICY "Admins can delete knowledge base documents"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'knowledge-base'
+  AND (
+    ((storage.foldername(name))[1] = 'conversation'
+      AND public.can_manage_knowledge(((storage.foldername(name))[2])::uuid, NULL, auth.uid()))
+    OR ((storage.foldername(name))[1] = 'community'
+      AND public.can_manage_knowledge(NULL, ((storage.foldername(name))[2])::uuid, auth.uid()))
+  )
+);
+
+CREATE TABLE public.knowledge_sources (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE,
+  community_id UUID REFERENCES public.communities(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('message', 'document')),
+  -- Pinned messages; the source goes when the message is deleted
+  message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE,
+  storage_path TEXT,
+  mime_type TEXT,
+  size_bytes BIGINT CHECK (size_bytes IS NULL OR size_bytes >= 0),
+  title TEXT NOT NULL CHECK (char_length(btrim(title)) BETWEEN 1 AND 200),
+  -- Maintained by process-embedding-queue
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'ready', 'failed')),
+  last_error TEXT,
+  chunk_count INTEGER NOT NULL DEFAULT 0,
+  indexed_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((conversation_id IS NULL) <> (community_id IS NULL)),
+  CHECK (
+    (kind = 'message' AND message_id IS NOT NULL AND conversation_id IS NOT NULL AND storage_path IS NULL)
+    OR (kind = 'document' AND storage_path IS NOT NULL AND message_id IS NULL)
+  ),
+  UNIQUE (message_id)
+);
+
+CREATE INDEX idx_knowledge_sources_conversation ON public.knowledge_sources(conversation_id) WHERE conversation_id IS NOT NULL;
+CREATE INDEX idx_knowledge_sources_community ON public.knowledge_sources(community_id) WHERE community_id IS NOT NULL;
+
+ALTER TABLE public.knowledge_sources ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view knowledge sources"
+ON public.knowledge_sources
+FOR SELECT
+USING (public.can_view_knowledge(conversation_id, community_id, auth.uid()));
+
+-- Pinned messages must come from the group; documents must sit in its folder
+CREATE POLICY "Admins can add knowledge sources"
+ON public.knowledge_sources
+FOR INSERT
+WITH CHECK (
+  auth.uid() = created_by
+  AND status = 'pending'
+  AND public.can_manage_knowledge(conversation_id, community_id, auth.uid())
+  AND (
+    (kind = 'message' AND EXISTS (
+      SELECT 1 FROM public.messages m
+      WHERE m.id = knowledge_sources.message_id AND m.conversation_id = knowledge_sources.conversation_id
+    ))
+    OR (kind = 'document' AND storage_path LIKE
+      CASE WHEN conversation_id IS NOT NULL
+        THEN 'conversation/' || conversation_id || '/%'
+        ELSE 'community/' || community_id || '/%'
+      END)
+  )
+);
+
+CREATE POLICY "Admins can remove knowledge sources"
+ON public.knowledge_sources
+FOR DELETE
+USING (public.can_manage_knowledge(conversation_id, community_id, auth.uid()));
+
+CREATE TRIGGER update_knowledge_sources_updated_at
+BEFORE UPDATE ON public.knowledge_sources
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Queue an uploaded document for removal when its source goes, including
+-- when its group or community is deleted
+CREATE OR REPLACE FUNCTION public.delete_knowledge_document()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.enqueue_storage_cleanup('knowledge-base', ARRAY[OLD.storage_path]);
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER delete_knowledge_document_after_delete
+AFTER DELETE ON public.knowledge_sources
+FOR EACH ROW
+WHEN (OLD.storage_path IS NOT NULL)
+EXECUTE FUNCTION public.delete_knowledge_document();
+
+-- Only the worker writes chunks; the bot reads them through match_knowledge_chunks
+CREATE TABLE public.knowledge_chunks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  source_id UUID NOT NULL REFERENCES public.knowledge_sources(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  embedding vector(768) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (source_id, chunk_index)
+);
+
+CREATE INDEX knowledge_chunks_vector_idx ON public.knowledge_chunks
+USING ivfflat (embedding vector_cosine_ops)
+WITH (lists = 100);
+
+ALTER TABLE public.knowledge_chunks ENABLE ROW LEVEL SECURITY;
+
+-- Indexing queue, drained by process-embedding-queue after message jobs
+CREATE TABLE public.knowledge_jobs (
+  source_id UUID PRIMARY KEY REFERENCES public.knowledge_sources(id) ON DELETE CASCADE,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  enqueued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  available_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  failed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_knowledge_jobs_available ON public.knowledge_jobs(available_at)
+  WHERE failed_at IS NULL;
+
+ALTER TABLE public.knowledge_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view knowledge jobs"
+ON public.knowledge_jobs
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.enqueue_knowledge_job(_source_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.knowledge_jobs (source_id)
+  VALUES (_source_id)
+  ON CONFLICT (source_id) DO UPDATE
+  SET attempts = 0,
+      last_error = NULL,
+      enqueued_at = now(),
+      available_at = now(),
+      locked_at = NULL,
+      failed_at = NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION public.queue_knowledge_source()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.enqueue_knowledge_job(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_knowledge_source_on_insert
+AFTER INSERT ON public.knowledge_sources
+FOR EACH ROW
+EXECUTE FUNCTION public.queue_knowledge_source();
+
+-- Editing a pinned message re-indexes it
+CREATE OR REPLACE FUNCTION public.queue_pinned_message_reindex()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _source_id UUID;
+BEGIN
+  SELECT id INTO _source_id FROM public.knowledge_sources WHERE message_id = NEW.id;
+
+  IF _source_id IS NOT NULL THEN
+    UPDATE public.knowledge_sources SET status = 'pending', last_error = NULL WHERE id = _source_id;
+    PERFORM public.enqueue_knowledge_job(_source_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_pinned_message_reindex_on_update
+AFTER UPDATE OF content ON public.messages
+FOR EACH ROW
+WHEN (OLD.content IS DISTINCT FROM NEW.content)
+EXECUTE FUNCTION public.queue_pinned_message_reindex();
+
+-- Lets admins retry a source that failed to index
+CREATE OR REPLACE FUNCTION public.reindex_knowledge_source(_source_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _source public.knowledge_sources;
+BEGIN
+  SELECT * INTO _source FROM public.knowledge_sources WHERE id = _source_id;
+
+  IF _source.id IS NULL OR NOT public.can_manage_knowledge(_source.conversation_id, _source.community_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can re-index knowledge sources';
+  END IF;
+
+  UPDATE public.knowledge_sources SET status = 'pending', last_error = NULL WHERE id = _source_id;
+  PERFORM public.enqueue_knowledge_job(_source_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.claim_knowledge_jobs(batch_size INTEGER DEFAULT 5)
+RETURNS TABLE (
+  source_id UUID,
+  enqueued_at TIMESTAMP WITH TIME ZONE,
+  attempts INTEGER,
+  kind TEXT,
+  title TEXT,
+  storage_path TEXT,
+  mime_type TEXT,
+  content TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE public.knowledge_jobs j
+    SET locked_at = now(),
+        attempts = j.attempts + 1
+    WHERE j.source_id IN (
+      SELECT source_id
+      FROM public.knowledge_jobs
+      WHERE failed_at IS NULL
+        AND available_at <= now()
+        AND (locked_at IS NULL OR locked_at < now() - interval '5 minutes')
+      ORDER BY available_at
+      LIMIT batch_size
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.source_id, j.enqueued_at, j.attempts
+  )
+  SELECT c.source_id, c.enqueued_at, c.attempts, s.kind, s.title, s.storage_path, s.mime_type,
+         coalesce(nullif(m.content, ''), m.transcription)
+  FROM claimed c
+  JOIN public.knowledge_sources s ON s.id = c.source_id
+  LEFT JOIN public.messages m ON m.id = s.message_id;
+END;
+$$;
+
+-- The closest chunks from a group's own sources and its linked communities.
+-- Pinned messages held by moderation are left out.
+CREATE OR REPLACE FUNCTION public.match_knowledge_chunks(
+  _conversation_id UUID,
+  query_embedding vector(768),
+  match_count INT DEFAULT 6,
+  match_threshold FLOAT DEFAULT 0.3
+)
+RETURNS TABLE (
+  chunk_id UUID,
+  source_id UUID,
+  kind TEXT,
+  title TEXT,
+  message_id UUID,
+  storage_path TEXT,
+  content TEXT,
+  similarity FLOAT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT k.id, s.id, s.kind, s.title, s.message_id, s.storage_path, k.content,
+         (1 - (k.embedding <=> query_embedding))::float
+  FROM public.knowledge_chunks k
+  JOIN public.knowledge_sources s ON s.id = k.source_id
+  WHERE s.status = 'ready'
+    AND (
+      s.conversation_id = _conversation_id
+      OR s.community_id IN (
+        SELECT l.community_id FROM public.knowledge_community_links l WHERE l.conversation_id = _conversation_id
+      )
+    )
+    AND (s.message_id IS NULL OR NOT public.is_message_held(s.message_id))
+    AND 1 - (k.embedding <=> query_embedding) > match_threshold
+  ORDER BY k.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_knowledge_jobs(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.match_knowledge_chunks(UUID, vector, INT, FLOAT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.enqueue_knowledge_job(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,391 @@
+-- Paid plans backed by a billing provider. user_subscriptions is now written
+-- only by the manage-subscription and billing-webhook edge functions with the
+-- service role, from the provider's events. What each plan allows lives in
+-- plan_entitlements and is read through current_entitlements(), which the
+-- search, translation and voice cloning functions enforce.
+
+-- What each plan allows; the client builds its plan comparison from these rows
+CREATE TABLE public.plan_entitlements (
+  plan_type TEXT PRIMARY KEY CHECK (plan_type IN ('free', 'premium', 'enterprise')),
+  premium_features BOOLEAN NOT NULL DEFAULT false,
+  search_max_results INTEGER NOT NULL CHECK (search_max_results > 0),
+  -- NULL is unlimited
+  daily_translations INTEGER CHECK (daily_translations >= 0),
+  voice_clones INTEGER NOT NULL DEFAULT 0 CHECK (voice_clones >= 0),
+  trial_days INTEGER NOT NULL DEFAULT 0 CHECK (trial_days >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.plan_entitlements (plan_type, premium_features, search_max_results, daily_translations, voice_clones, trial_days)
+VALUES
+  ('free', false, 10, 50, 0, 0),
+  ('premium', true, 50, NULL, 5, 14),
+  ('enterprise', true, 50, NULL, 20, 14);
+
+ALTER TABLE public.plan_entitlements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view plan entitlements"
+ON public.plan_entitlements
+FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_plan_entitlements_updated_at
+BEFORE UPDATE ON public.plan_entitlements
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- An enterprise subscription pays for seat_limit seats, which its owner hands
+-- out to other users. seat_limit follows the subscription's quantity.
+CREATE TABLE public.billing_organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  seat_limit INTEGER NOT NULL DEFAULT 0 CHECK (seat_limit >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_billing_organizations_owner ON public.billing_organizations(owner_id);
+
+CREATE TABLE public.organization_seats (
+  organization_id UUID NOT NULL REFERENCES public.billing_organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  assigned_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX idx_organization_seats_user ON public.organization_seats(user_id);
+
+ALTER TABLE public.billing_organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_seats ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_organization_member(_organization_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.billing_organizations
+    WHERE id = _organization_id AND owner_id = _user_id
+  ) OR EXISTS (
+    SELECT 1 FROM public.organization_seats
+    WHERE organization_id = _organization_id AND user_id = _user_id
+  );
+$$;
+
+CREATE POLICY "Members can view their organization"
+ON public.billing_organizations
+FOR SELECT
+USING (public.is_organization_member(id, auth.uid()));
+
+CREATE POLICY "Members can view their organization's seats"
+ON public.organization_seats
+FOR SELECT
+USING (public.is_organization_member(organization_id, auth.uid()));
+
+-- Seats are assigned with assign_organization_seat, which checks the limit
+CREATE POLICY "Owners can free seats and members can leave"
+ON public.organization_seats
+FOR DELETE
+USING (
+  auth.uid() = user_id
+  OR EXISTS (
+    SELECT 1 FROM public.billing_organizations o
+    WHERE o.id = organization_seats.organization_id AND o.owner_id = auth.uid()
+  )
+);
+
+CREATE TRIGGER update_billing_organizations_updated_at
+BEFORE UPDATE ON public.billing_organizations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Subscription state mirrored from the billing provider
+ALTER TABLE public.user_subscriptions
+ADD COLUMN status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'trialing', 'past_due', 'canceled')),
+ADD COLUMN trial_ends_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN grace_period_ends_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN cancel_at_period_end BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN organization_id UUID REFERENCES public.billing_organizations(id) ON DELETE SET NULL,
+ADD COLUMN provider TEXT,
+ADD COLUMN provider_customer_id TEXT,
+ADD COLUMN provider_subscription_id TEXT UNIQUE;
+
+-- Plans activated from the client before billing existed were never paid for
+UPDATE public.user_subscriptions
+SET plan_type = 'free', status = 'canceled', expires_at = NULL
+WHERE plan_type <> 'free' AND provider_subscription_id IS NULL;
+
+DROP POLICY IF EXISTS "Users can insert their own subscription" ON public.user_subscriptions;
+DROP POLICY IF EXISTS "Users can update their own subscription" ON public.user_subscriptions;
+
+-- Idempotency for webhook deliveries, which the provider retries
+CREATE TABLE public.billing_events (
+  id TEXT PRIMARY KEY,
+  provider TEXT NOT NULL,
+  type TEXT NOT NULL,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only the service role reads or writes billing events
+ALTER TABLE public.billing_events ENABLE ROW LEVEL SECURITY;
+
+-- Cloned voices count against the plan's voice_clones entitlement. Written by
+-- elevenlabs-voice-clone with the service role.
+CREATE TABLE public.voice_clones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  voice_id TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_voice_clones_user ON public.voice_clones(user_id);
+
+ALTER TABLE public.voice_clones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own voice clones"
+ON public.voice_clones
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- A day of slack past the period end covers a late renewal webhook. Past-due
+-- subscriptions keep access until their grace period runs out.
+CREATE OR REPLACE FUNCTION public.subscription_in_good_standing(
+  _status TEXT,
+  _expires_at TIMESTAMP WITH TIME ZONE,
+  _trial_ends_at TIMESTAMP WITH TIME ZONE,
+  _grace_period_ends_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE _status
+    WHEN 'active' THEN _expires_at IS NULL OR _expires_at + INTERVAL '1 day' > now()
+    WHEN 'trialing' THEN COALESCE(_trial_ends_at, _expires_at) + INTERVAL '1 day' > now()
+    WHEN 'past_due' THEN COALESCE(_grace_period_ends_at > now(), false)
+    ELSE false
+  END;
+$$;
+
+-- The plan a user gets: an enterprise seat, else their own paid subscription
+CREATE OR REPLACE FUNCTION public.effective_plan(_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT 'enterprise'
+      FROM public.organization_seats seat
+      JOIN public.user_subscriptions s ON s.organization_id = seat.organization_id
+      WHERE seat.user_id = _user_id
+        AND s.plan_type = 'enterprise'
+        AND public.subscription_in_good_standing(s.status, s.expires_at, s.trial_ends_at, s.grace_period_ends_at)
+      LIMIT 1
+    ),
+    (
+      SELECT s.plan_type
+      FROM public.user_subscriptions s
+      WHERE s.user_id = _user_id
+        AND s.plan_type <> 'free'
+        AND public.subscription_in_good_standing(s.status, s.expires_at, s.trial_ends_at, s.grace_period_ends_at)
+    ),
+    'free'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_premium_access(user_uuid UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT e.premium_features FROM public.plan_entitlements e WHERE e.plan_type = public.effective_plan(user_uuid)),
+    false
+  );
+$$;
+
+-- The caller's entitlements with what they have used of the metered ones
+CREATE OR REPLACE FUNCTION public.current_entitlements()
+RETURNS TABLE (
+  plan_type TEXT,
+  premium_features BOOLEAN,
+  search_max_results INTEGER,
+  daily_translations INTEGER,
+  voice_clones INTEGER,
+  translations_used INTEGER,
+  voice_clones_used INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    e.plan_type,
+    e.premium_features,
+    e.search_max_results,
+    e.daily_translations,
+    e.voice_clones,
+    (
+      SELECT COUNT(*)::INTEGER FROM public.message_translations t
+      WHERE t.user_id = auth.uid() AND t.created_at > now() - INTERVAL '1 day'
+    ),
+    (SELECT COUNT(*)::INTEGER FROM public.voice_clones v WHERE v.user_id = auth.uid())
+  FROM public.plan_entitlements e
+  WHERE e.plan_type = public.effective_plan(auth.uid());
+$$;
+
+-- The daily translation quota now comes from the plan
+DROP POLICY IF EXISTS "Users can create translations" ON public.message_translations;
+
+CREATE POLICY "Users can create translations within their plan's quota"
+ON public.message_translations
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    SELECT e.daily_translations IS NULL OR e.translations_used < e.daily_translations
+    FROM public.current_entitlements() e
+  )
+);
+
+-- Owners hand out the seats their subscription pays for
+CREATE OR REPLACE FUNCTION public.assign_organization_seat(_organization_id UUID, _user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _organization public.billing_organizations;
+BEGIN
+  SELECT * INTO _organization
+  FROM public.billing_organizations
+  WHERE id = _organization_id
+  FOR UPDATE;
+
+  IF _organization.id IS NULL OR _organization.owner_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the organization owner can assign seats';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.organization_seats WHERE organization_id = _organization_id AND user_id = _user_id) THEN
+    RETURN;
+  END IF;
+
+  IF (SELECT COUNT(*) FROM public.organization_seats WHERE organization_id = _organization_id) >= _organization.seat_limit THEN
+    RAISE EXCEPTION 'All % seats are in use', _organization.seat_limit;
+  END IF;
+
+  INSERT INTO public.organization_seats (organization_id, user_id, assigned_by)
+  VALUES (_organization_id, _user_id, auth.uid());
+
+  INSERT INTO public.security_audit_log (user_id, event_type, metadata)
+  VALUES (
+    auth.uid(),
+    'organization_seat_assigned',
+    jsonb_build_object('organization_id', _organization_id, 'seat_user_id', _user_id)
+  );
+END;
+$$;
+
+-- When the provider lowers the seat count, the newest seats go first and the
+-- owner's seat is never freed
+CREATE OR REPLACE FUNCTION public.sync_organization_seats(_organization_id UUID, _seat_limit INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _owner_id UUID;
+  _freed INTEGER;
+BEGIN
+  UPDATE public.billing_organizations
+  SET seat_limit = _seat_limit
+  WHERE id = _organization_id
+  RETURNING owner_id INTO _owner_id;
+
+  IF _owner_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  WITH ranked AS (
+    SELECT user_id,
+      ROW_NUMBER() OVER (ORDER BY (user_id = _owner_id) DESC, created_at, user_id) AS seat_number
+    FROM public.organization_seats
+    WHERE organization_id = _organization_id
+  ), freed AS (
+    DELETE FROM public.organization_seats seat
+    USING ranked
+    WHERE seat.organization_id = _organization_id
+      AND seat.user_id = ranked.user_id
+      AND ranked.seat_number > GREATEST(_seat_limit, 1)
+    RETURNING seat.user_id
+  )
+  SELECT COUNT(*) INTO _freed FROM freed;
+
+  IF _freed > 0 THEN
+    INSERT INTO public.security_audit_log (user_id, event_type, metadata)
+    VALUES (
+      _owner_id,
+      'organization_seats_freed',
+      jsonb_build_object('organization_id', _organization_id, 'seat_limit', _seat_limit, 'freed', _freed)
+    );
+  END IF;
+
+  RETURN _freed;
+END;
+$$;
+
+-- Back to the free plan when a subscription ends or its grace period runs
+-- out. The organization and its seats are kept so a renewal restores them.
+CREATE OR REPLACE FUNCTION public.downgrade_subscription(_user_id UUID, _reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _previous_plan TEXT;
+BEGIN
+  SELECT plan_type INTO _previous_plan
+  FROM public.user_subscriptions
+  WHERE user_id = _user_id
+  FOR UPDATE;
+
+  IF _previous_plan IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.user_subscriptions
+  SET plan_type = 'free',
+      status = 'canceled',
+      expires_at = NULL,
+      grace_period_ends_at = NULL,
+      cancel_at_period_end = false,
+      provider_subscription_id = NULL
+  WHERE user_id = _user_id;
+
+  INSERT INTO public.security_audit_log (user_id, event_type, metadata)
+  VALUES (
+    _user_id,
+    'subscription_downgraded',
+    jsonb_build_object('from_plan', _previous_plan, 'reason', _reason)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_organization_seats(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.downgrade_subscription(UUID, TEXT) FROM PUBLIC, anon, authenticated;